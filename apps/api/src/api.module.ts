@@ -12,6 +12,7 @@ import { PullRequestMessagesModule } from '@libs/code-review/modules/pullRequest
 import { HealthModule } from '@libs/core/health/health.module';
 import { IncidentModule } from '@libs/core/infrastructure/incident/incident.module';
 import { MetricsModule } from '@libs/core/infrastructure/metrics/metrics.module';
+import { PrometheusModule } from '@libs/core/infrastructure/metrics/prometheus/prometheus.module';
 import { MetricsController } from '@libs/core/infrastructure/metrics/metrics.controller';
 import { RabbitMQWrapperModule } from '@libs/core/infrastructure/queue/rabbitmq.module';
 import { WorkflowModule } from '@libs/core/workflow/modules/workflow.module';
@@ -25,6 +26,7 @@ import { UserModule } from '@libs/identity/modules/user.module';
 import { IntegrationConfigModule } from '@libs/integrations/modules/config.module';
 import { IntegrationModule } from '@libs/integrations/modules/integrations.module';
 import { IssuesModule } from '@libs/issues/issues.module';
+import { KodyFineTuningDecisionModule } from '@libs/kodyFineTuning/kodyFineTuningDecision.module';
 import { KodyRulesModule } from '@libs/kodyRules/modules/kodyRules.module';
 import { McpModule } from '@libs/mcp-server/mcp.module';
 import { OrganizationOnboardingModule } from '@libs/organization/modules/organization-onboarding.module';
@@ -53,8 +55,10 @@ import { CodeManagementController } from './controllers/codeManagement.controlle
 import { CodeReviewSettingLogController } from './controllers/codeReviewSettingLog.controller';
 import { DryRunController } from './controllers/dryRun.controller';
 import { IntegrationController } from './controllers/integration.controller';
+import { IssueTrackerController } from './controllers/issueTracker.controller';
 import { IntegrationConfigController } from './controllers/integrationConfig.controller';
 import { IssuesController } from './controllers/issues.controller';
+import { KodyFineTuningController } from './controllers/kodyFineTuning.controller';
 import { KodyRulesController } from './controllers/kodyRules.controller';
 import { OrganizationController } from './controllers/organization.controller';
 import { OrganizationParametersController } from './controllers/organizationParameters.controller';
@@ -63,6 +67,7 @@ import { PermissionsController } from './controllers/permissions.controller';
 import { PullRequestController } from './controllers/pullRequest.controller';
 import { PullRequestMessagesController } from './controllers/pullRequestMessages.controller';
 import { RuleLikeController } from './controllers/ruleLike.controller';
+import { ScimController } from './controllers/scim.controller';
 import { SegmentController } from './controllers/segment.controller';
 import { SSOConfigController } from './controllers/ssoConfig.controller';
 import { TeamCliKeyController } from './controllers/team-cli-key.controller';
@@ -89,6 +94,7 @@ import { ConfigService } from '@nestjs/config';
         SharedObservabilityModule,
         IncidentModule,
         MetricsModule,
+        PrometheusModule,
         SharedPostgresModule.forRoot({ poolSize: 25 }),
         SharedMongoModule.forRoot(),
         RabbitMQWrapperModule.register({ enableConsumers: false }),
@@ -115,6 +121,7 @@ import { ConfigService } from '@nestjs/config';
         IntegrationModule,
         IntegrationConfigModule,
         DryRunModule,
+        KodyFineTuningDecisionModule,
         AnalyticsModule,
         CodeReviewSettingsLogModule,
         AutomationModule,
@@ -138,6 +145,7 @@ import { ConfigService } from '@nestjs/config';
         CodeBaseController,
         IssuesController,
         KodyRulesController,
+        KodyFineTuningController,
         RuleLikeController,
         OrganizationController,
         ParametersController,
@@ -152,10 +160,12 @@ import { ConfigService } from '@nestjs/config';
         PermissionsController,
         IntegrationController,
         IntegrationConfigController,
+        IssueTrackerController,
         PullRequestController,
         UsersController,
         CliReviewController,
         SSOConfigController,
+        ScimController,
         MetricsController,
     ],
 })
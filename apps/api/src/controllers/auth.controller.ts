@@ -23,6 +23,7 @@ import { SignUpUseCase } from '@libs/identity/application/use-cases/auth/signup.
 
 import { SSOCheckUseCase } from '@libs/ee/sso/use-cases/sso-check.use-case';
 import { SSOLoginUseCase } from '@libs/ee/sso/use-cases/sso-login.use-case';
+import { OidcService } from '@libs/ee/sso/services/oidc.service';
 import { SignUpDTO } from '@libs/identity/dtos/create-user-organization.dto';
 import { AuthGuard } from '@nestjs/passport';
 import { CreateUserOrganizationOAuthDto } from '../dtos/create-user-organization-oauth.dto';
@@ -41,6 +42,7 @@ export class AuthController {
         private readonly resendEmailUseCase: ResendEmailUseCase,
         private readonly ssoLoginUseCase: SSOLoginUseCase,
         private readonly ssoCheckUseCase: SSOCheckUseCase,
+        private readonly oidcService: OidcService,
     ) {}
 
     @Post('login')
@@ -115,16 +117,64 @@ export class AuthController {
         @Res() res: Response,
         @Param('organizationId') organizationId: string,
     ) {
-        const { accessToken, refreshToken } =
-            await this.ssoLoginUseCase.execute(req.user, organizationId);
+        const tokens = await this.ssoLoginUseCase.execute(
+            req.user,
+            organizationId,
+        );
+
+        return this.redirectWithSSOHandoff(res, tokens);
+    }
+
+    @Get('sso/oidc/login/:organizationId')
+    async oidcLogin(
+        @Res() res: Response,
+        @Param('organizationId') organizationId: string,
+    ) {
+        const authorizationUrl =
+            await this.oidcService.getAuthorizationUrl(organizationId);
+
+        return res.redirect(authorizationUrl);
+    }
+
+    @Get('sso/oidc/callback/:organizationId')
+    async oidcCallback(
+        @Res() res: Response,
+        @Param('organizationId') organizationId: string,
+        @Query('code') code?: string,
+        @Query('state') state?: string,
+        @Query('error') error?: string,
+        @Query('error_description') errorDescription?: string,
+    ) {
+        const profile = await this.oidcService.handleCallback({
+            organizationId,
+            code,
+            state,
+            error,
+            errorDescription,
+        });
+
+        const tokens = await this.ssoLoginUseCase.execute(
+            profile,
+            organizationId,
+        );
+
+        return this.redirectWithSSOHandoff(res, tokens);
+    }
 
+    private redirectWithSSOHandoff(
+        res: Response,
+        tokens: { accessToken: string; refreshToken: string },
+    ) {
         const frontendUrl = process.env.API_FRONTEND_URL;
 
         if (!frontendUrl) {
             throw new Error('Frontend URL not found');
         }
 
-        const payload = JSON.stringify({ accessToken, refreshToken });
+        const payload = JSON.stringify({
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+        });
 
         res.cookie('sso_handoff', payload, {
             httpOnly: false,
@@ -221,6 +221,7 @@ export class CliReviewController {
                 remote: body.gitRemote,
                 branch: body.branch,
                 commitSha: body.commitSha,
+                baseCommit: body.baseCommit,
                 inferredPlatform: body.inferredPlatform,
                 cliVersion: body.cliVersion,
             },
@@ -14,11 +14,17 @@ import {
 import { interval, merge, Subject } from 'rxjs';
 import { map, takeUntil } from 'rxjs/operators';
 import { ExecuteDryRunDto } from '../dtos/execute-dry-run.dto';
+import { CompareDryRunDto } from '../dtos/compare-dry-run.dto';
+import { BenchmarkDryRunDto } from '../dtos/benchmark-dry-run.dto';
 import { ExecuteDryRunUseCase } from '@libs/dryRun/application/use-cases/execute-dry-run.use-case';
 import { SseDryRunUseCase } from '@libs/dryRun/application/use-cases/sse-dry-run.use-case';
 import { GetStatusDryRunUseCase } from '@libs/dryRun/application/use-cases/get-status-dry-run.use-case';
 import { GetDryRunUseCase } from '@libs/dryRun/application/use-cases/get-dry-run.use-case';
 import { ListDryRunsUseCase } from '@libs/dryRun/application/use-cases/list-dry-runs.use-case';
+import { CompareDryRunUseCase } from '@libs/dryRun/application/use-cases/compare-dry-run.use-case';
+import { GetDryRunComparisonUseCase } from '@libs/dryRun/application/use-cases/get-dry-run-comparison.use-case';
+import { BenchmarkDryRunUseCase } from '@libs/dryRun/application/use-cases/benchmark-dry-run.use-case';
+import { GetDryRunBenchmarkUseCase } from '@libs/dryRun/application/use-cases/get-dry-run-benchmark.use-case';
 import { UserRequest } from '@libs/core/infrastructure/config/types/http/user-request.type';
 import { REQUEST } from '@nestjs/core';
 import {
@@ -44,6 +50,10 @@ export class DryRunController implements OnApplicationShutdown {
         private readonly sseDryRunUseCase: SseDryRunUseCase,
         private readonly getDryRunUseCase: GetDryRunUseCase,
         private readonly listDryRunsUseCase: ListDryRunsUseCase,
+        private readonly compareDryRunUseCase: CompareDryRunUseCase,
+        private readonly getDryRunComparisonUseCase: GetDryRunComparisonUseCase,
+        private readonly benchmarkDryRunUseCase: BenchmarkDryRunUseCase,
+        private readonly getDryRunBenchmarkUseCase: GetDryRunBenchmarkUseCase,
 
         @Inject(REQUEST)
         private readonly request: UserRequest,
@@ -89,6 +99,137 @@ export class DryRunController implements OnApplicationShutdown {
         return correlationId;
     }
 
+    @Post('compare')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkRepoPermissions({
+            action: Action.Manage,
+            resource: ResourceType.CodeReviewSettings,
+            repo: {
+                key: {
+                    body: 'repositoryId',
+                },
+            },
+        }),
+    )
+    compare(
+        @Body()
+        body: CompareDryRunDto,
+    ) {
+        if (!this.request.user?.organization?.uuid) {
+            throw new BadRequestException(
+                'Organization UUID is missing in the request',
+            );
+        }
+
+        return this.compareDryRunUseCase.execute({
+            organizationAndTeamData: {
+                organizationId: this.request.user.organization.uuid,
+                teamId: body.teamId,
+            },
+            repositoryId: body.repositoryId,
+            prNumbers: body.prNumbers,
+            variantA: body.variantA,
+            variantB: body.variantB,
+        });
+    }
+
+    @Get('compare/:correlationId')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Manage,
+            resource: ResourceType.CodeReviewSettings,
+        }),
+    )
+    getComparison(
+        @Param('correlationId') correlationId: string,
+        @Query('teamId') teamId: string,
+    ) {
+        if (!this.request.user?.organization?.uuid) {
+            throw new BadRequestException(
+                'Organization UUID is missing in the request',
+            );
+        }
+
+        return this.getDryRunComparisonUseCase.execute({
+            organizationAndTeamData: {
+                organizationId: this.request.user.organization.uuid,
+                teamId,
+            },
+            correlationId,
+        });
+    }
+
+    @Post('benchmark')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkRepoPermissions({
+            action: Action.Manage,
+            resource: ResourceType.CodeReviewSettings,
+            repo: {
+                key: {
+                    body: 'repositoryId',
+                },
+            },
+        }),
+    )
+    benchmark(
+        @Body()
+        body: BenchmarkDryRunDto,
+    ) {
+        if (!this.request.user?.organization?.uuid) {
+            throw new BadRequestException(
+                'Organization UUID is missing in the request',
+            );
+        }
+
+        if (!body.prNumbers?.length && !body.startDate && !body.endDate) {
+            throw new BadRequestException(
+                'Either prNumbers or a date range must be provided',
+            );
+        }
+
+        return this.benchmarkDryRunUseCase.execute({
+            organizationAndTeamData: {
+                organizationId: this.request.user.organization.uuid,
+                teamId: body.teamId,
+            },
+            repositoryId: body.repositoryId,
+            prNumbers: body.prNumbers,
+            startDate: body.startDate ? new Date(body.startDate) : undefined,
+            endDate: body.endDate ? new Date(body.endDate) : undefined,
+            variant: body.variant,
+        });
+    }
+
+    @Get('benchmark/:correlationId')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Manage,
+            resource: ResourceType.CodeReviewSettings,
+        }),
+    )
+    getBenchmark(
+        @Param('correlationId') correlationId: string,
+        @Query('teamId') teamId: string,
+    ) {
+        if (!this.request.user?.organization?.uuid) {
+            throw new BadRequestException(
+                'Organization UUID is missing in the request',
+            );
+        }
+
+        return this.getDryRunBenchmarkUseCase.execute({
+            organizationAndTeamData: {
+                organizationId: this.request.user.organization.uuid,
+                teamId,
+            },
+            correlationId,
+        });
+    }
+
     @Get('status/:correlationId')
     @UseGuards(PolicyGuard)
     @CheckPolicies(
@@ -0,0 +1,33 @@
+import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+
+import {
+    Action,
+    ResourceType,
+} from '@libs/identity/domain/permissions/enums/permissions.enum';
+import {
+    CheckPolicies,
+    PolicyGuard,
+} from '@libs/identity/infrastructure/adapters/services/permissions/policy.guard';
+import { checkPermissions } from '@libs/identity/infrastructure/adapters/services/permissions/policy.handlers';
+import { ConnectIssueTrackerUseCase } from '@libs/integrations/application/use-cases/issueTracker/connect-issue-tracker.use-case';
+
+import { ConnectIssueTrackerDto } from '../dtos/connect-issue-tracker.dto';
+
+@Controller('issue-tracker')
+export class IssueTrackerController {
+    constructor(
+        private readonly connectIssueTrackerUseCase: ConnectIssueTrackerUseCase,
+    ) {}
+
+    @Post('/connect')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Update,
+            resource: ResourceType.IssuesSettings,
+        }),
+    )
+    public async connect(@Body() body: ConnectIssueTrackerDto) {
+        return this.connectIssueTrackerUseCase.execute(body);
+    }
+}
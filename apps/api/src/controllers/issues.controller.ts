@@ -17,11 +17,15 @@ import {
     PolicyGuard,
 } from '@libs/identity/infrastructure/adapters/services/permissions/policy.guard';
 import { checkPermissions } from '@libs/identity/infrastructure/adapters/services/permissions/policy.handlers';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import { AssignIssueUseCase } from '@libs/issues/application/use-cases/assign-issue.use-case';
 import { GetIssueByIdUseCase } from '@libs/issues/application/use-cases/get-issue-by-id.use-case';
 import { GetIssuesUseCase } from '@libs/issues/application/use-cases/get-issues.use-case';
 import { GetTotalIssuesUseCase } from '@libs/issues/application/use-cases/get-total-issues.use-case';
 import { UpdateIssuePropertyUseCase } from '@libs/issues/application/use-cases/update-issue-property.use-case';
+import { UpdateIssueStatusUseCase } from '@libs/issues/application/use-cases/update-issue-status.use-case';
 import { IssuesEntity } from '@libs/issues/domain/entities/issues.entity';
+import { IIssueAssignment } from '@libs/issues/domain/interfaces/issues.interface';
 
 import { GetIssuesByFiltersDto } from '../dtos/get-issues-by-filters.dto';
 
@@ -32,6 +36,8 @@ export class IssuesController {
         private readonly getTotalIssuesUseCase: GetTotalIssuesUseCase,
         private readonly getIssueByIdUseCase: GetIssueByIdUseCase,
         private readonly updateIssuePropertyUseCase: UpdateIssuePropertyUseCase,
+        private readonly updateIssueStatusUseCase: UpdateIssueStatusUseCase,
+        private readonly assignIssueUseCase: AssignIssueUseCase,
     ) {}
 
     @Get()
@@ -88,4 +94,38 @@ export class IssuesController {
             body.value,
         );
     }
+
+    @Patch(':id/status')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Update,
+            resource: ResourceType.Issues,
+        }),
+    )
+    async updateIssueStatus(
+        @Param('id') id: string,
+        @Body() body: { status: IssueStatus; reason?: string },
+    ): Promise<IssuesEntity | null> {
+        return await this.updateIssueStatusUseCase.execute(
+            id,
+            body.status,
+            body.reason,
+        );
+    }
+
+    @Patch(':id/assignee')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Update,
+            resource: ResourceType.Issues,
+        }),
+    )
+    async assignIssue(
+        @Param('id') id: string,
+        @Body() body: { assignee: IIssueAssignment['assignee'] },
+    ): Promise<IssuesEntity | null> {
+        return await this.assignIssueUseCase.execute(id, body.assignee);
+    }
 }
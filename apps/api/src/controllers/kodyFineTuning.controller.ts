@@ -0,0 +1,122 @@
+import {
+    BadRequestException,
+    Body,
+    Controller,
+    Delete,
+    Get,
+    Inject,
+    Param,
+    Post,
+    Query,
+    UseGuards,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import { UserRequest } from '@libs/core/infrastructure/config/types/http/user-request.type';
+import {
+    Action,
+    ResourceType,
+} from '@libs/identity/domain/permissions/enums/permissions.enum';
+import {
+    CheckPolicies,
+    PolicyGuard,
+} from '@libs/identity/infrastructure/adapters/services/permissions/policy.guard';
+import {
+    checkPermissions,
+    checkRepoPermissions,
+} from '@libs/identity/infrastructure/adapters/services/permissions/policy.handlers';
+import { DeleteKodyFineTuningOverrideUseCase } from '@libs/kodyFineTuning/application/use-cases/delete-kody-fine-tuning-override.use-case';
+import { ListKodyFineTuningDecisionsUseCase } from '@libs/kodyFineTuning/application/use-cases/list-kody-fine-tuning-decisions.use-case';
+import { OverrideKodyFineTuningClusterUseCase } from '@libs/kodyFineTuning/application/use-cases/override-kody-fine-tuning-cluster.use-case';
+
+import {
+    ListKodyFineTuningDecisionsDto,
+    OverrideKodyFineTuningClusterDto,
+} from '../dtos/kody-fine-tuning-decisions.dto';
+
+@Controller('kody-fine-tuning')
+export class KodyFineTuningController {
+    constructor(
+        private readonly listKodyFineTuningDecisionsUseCase: ListKodyFineTuningDecisionsUseCase,
+        private readonly overrideKodyFineTuningClusterUseCase: OverrideKodyFineTuningClusterUseCase,
+        private readonly deleteKodyFineTuningOverrideUseCase: DeleteKodyFineTuningOverrideUseCase,
+
+        @Inject(REQUEST)
+        private readonly request: UserRequest,
+    ) {}
+
+    @Get('decisions')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkRepoPermissions({
+            action: Action.Read,
+            resource: ResourceType.CodeReviewSettings,
+            repo: {
+                key: {
+                    query: 'repositoryId',
+                },
+            },
+        }),
+    )
+    listDecisions(@Query() query: ListKodyFineTuningDecisionsDto) {
+        if (!this.request.user?.organization?.uuid) {
+            throw new BadRequestException(
+                'Organization UUID is missing in the request',
+            );
+        }
+
+        return this.listKodyFineTuningDecisionsUseCase.execute({
+            organizationId: this.request.user.organization.uuid,
+            repositoryId: query.repositoryId,
+            prNumber: query.prNumber,
+            dryRunId: query.dryRunId,
+            decisions: query.decisions,
+        });
+    }
+
+    @Post('decisions/:uuid/override')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Manage,
+            resource: ResourceType.CodeReviewSettings,
+        }),
+    )
+    overrideCluster(
+        @Param('uuid') uuid: string,
+        @Body() body: OverrideKodyFineTuningClusterDto,
+    ) {
+        if (!this.request.user?.organization?.uuid) {
+            throw new BadRequestException(
+                'Organization UUID is missing in the request',
+            );
+        }
+
+        return this.overrideKodyFineTuningClusterUseCase.execute({
+            user: this.request.user,
+            decisionId: uuid,
+            decision: body.decision,
+        });
+    }
+
+    @Delete('overrides/:uuid')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Manage,
+            resource: ResourceType.CodeReviewSettings,
+        }),
+    )
+    deleteOverride(@Param('uuid') uuid: string) {
+        if (!this.request.user?.organization?.uuid) {
+            throw new BadRequestException(
+                'Organization UUID is missing in the request',
+            );
+        }
+
+        return this.deleteKodyFineTuningOverrideUseCase.execute({
+            organizationId: this.request.user.organization.uuid,
+            uuid,
+        });
+    }
+}
@@ -15,9 +15,17 @@ import { GetInheritedRulesKodyRulesUseCase } from '@libs/kodyRules/application/u
 import { GetRulesLimitStatusUseCase } from '@libs/kodyRules/application/use-cases/get-rules-limit-status.use-case';
 import { ResyncRulesFromIdeUseCase } from '@libs/kodyRules/application/use-cases/resync-rules-from-ide.use-case';
 import { SyncSelectedRepositoriesKodyRulesUseCase } from '@libs/kodyRules/application/use-cases/sync-selected-repositories.use-case';
+import { TestKodyRuleUseCase } from '@libs/kodyRules/application/use-cases/test-kody-rule.use-case';
+import { FindKodyRuleRevisionsUseCase } from '@libs/kodyRules/application/use-cases/revisions/find-kody-rule-revisions.use-case';
+import { GetKodyRuleRevisionDiffUseCase } from '@libs/kodyRules/application/use-cases/revisions/get-kody-rule-revision-diff.use-case';
+import { RestoreKodyRuleRevisionUseCase } from '@libs/kodyRules/application/use-cases/revisions/restore-kody-rule-revision.use-case';
 import { FastSyncIdeRulesUseCase } from '@libs/kodyRules/application/use-cases/fast-sync-ide-rules.use-case';
 import { ImportFastKodyRulesUseCase } from '@libs/kodyRules/application/use-cases/import-fast-kody-rules.use-case';
 import { ImportFastKodyRulesDto } from '@libs/kodyRules/dtos/import-fast-kody-rules.dto';
+import { ExportKodyRulesUseCase } from '@libs/kodyRules/application/use-cases/export-kody-rules.use-case';
+import { ExportKodyRulesDto } from '@libs/kodyRules/dtos/export-kody-rules.dto';
+import { GetKodyRulesEffectivenessUseCase } from '@libs/kodyRules/application/use-cases/get-kody-rules-effectiveness.use-case';
+import { KodyRulesEffectivenessQueryDto } from '@libs/kodyRules/dtos/kody-rules-effectiveness.dto';
 import { ReviewFastKodyRulesDto } from '../dtos/review-fast-kody-rules.dto';
 import { FindRecommendedKodyRulesUseCase } from '@libs/kodyRules/application/use-cases/find-recommended-kody-rules.use-case';
 
@@ -27,6 +35,8 @@ import {
     Delete,
     Get,
     Inject,
+    Param,
+    ParseIntPipe,
     Post,
     Query,
     UseGuards,
@@ -51,6 +61,7 @@ import {
     ResourceType,
 } from '@libs/identity/domain/permissions/enums/permissions.enum';
 import { CreateKodyRuleDto } from '@libs/ee/kodyRules/dtos/create-kody-rule.dto';
+import { TestKodyRuleDto } from '@libs/ee/kodyRules/dtos/test-kody-rule.dto';
 import { KodyRulesStatus } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
 import { FindRecommendedKodyRulesDto } from '../dtos/find-recommended-kody-rules.dto';
 
@@ -77,6 +88,12 @@ export class KodyRulesController {
         private readonly resyncRulesFromIdeUseCase: ResyncRulesFromIdeUseCase,
         private readonly fastSyncIdeRulesUseCase: FastSyncIdeRulesUseCase,
         private readonly importFastKodyRulesUseCase: ImportFastKodyRulesUseCase,
+        private readonly testKodyRuleUseCase: TestKodyRuleUseCase,
+        private readonly findKodyRuleRevisionsUseCase: FindKodyRuleRevisionsUseCase,
+        private readonly getKodyRuleRevisionDiffUseCase: GetKodyRuleRevisionDiffUseCase,
+        private readonly restoreKodyRuleRevisionUseCase: RestoreKodyRuleRevisionUseCase,
+        private readonly exportKodyRulesUseCase: ExportKodyRulesUseCase,
+        private readonly getKodyRulesEffectivenessUseCase: GetKodyRulesEffectivenessUseCase,
         @Inject(REQUEST)
         private readonly request: UserRequest,
     ) {}
@@ -92,6 +109,8 @@ export class KodyRulesController {
     public async create(
         @Body()
         body: CreateKodyRuleDto,
+        @Query('validateExamples')
+        validateExamples?: string,
     ) {
         if (!this.request.user.organization.uuid) {
             throw new Error('Organization ID not found');
@@ -99,9 +118,78 @@ export class KodyRulesController {
         return this.createOrUpdateKodyRulesUseCase.execute(
             body,
             this.request.user.organization.uuid,
+            undefined,
+            { validateExamples: validateExamples === 'true' },
         );
     }
 
+    @Post('/test')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Create,
+            resource: ResourceType.KodyRules,
+        }),
+    )
+    public async testDraft(@Body() body: TestKodyRuleDto) {
+        return this.testKodyRuleUseCase.execute(body);
+    }
+
+    @Post('/:id/test')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Create,
+            resource: ResourceType.KodyRules,
+        }),
+    )
+    public async test(@Param('id') id: string, @Body() body: TestKodyRuleDto) {
+        return this.testKodyRuleUseCase.execute({ ...body, ruleId: id });
+    }
+
+    @Get('/:id/revisions')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Read,
+            resource: ResourceType.KodyRules,
+        }),
+    )
+    public async findRevisions(@Param('id') id: string) {
+        return this.findKodyRuleRevisionsUseCase.execute(id);
+    }
+
+    @Get('/:id/revisions/:revision/diff')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Read,
+            resource: ResourceType.KodyRules,
+        }),
+    )
+    public async getRevisionDiff(
+        @Param('id') id: string,
+        @Param('revision', ParseIntPipe) revision: number,
+        @Query('from', new ParseIntPipe({ optional: true })) from?: number,
+    ) {
+        return this.getKodyRuleRevisionDiffUseCase.execute(id, revision, from);
+    }
+
+    @Post('/:id/revisions/:revision/restore')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Update,
+            resource: ResourceType.KodyRules,
+        }),
+    )
+    public async restoreRevision(
+        @Param('id') id: string,
+        @Param('revision', ParseIntPipe) revision: number,
+    ) {
+        return this.restoreKodyRuleRevisionUseCase.execute(id, revision);
+    }
+
     @Get('/find-by-organization-id')
     @UseGuards(PolicyGuard)
     @CheckPolicies(
@@ -140,6 +228,24 @@ export class KodyRulesController {
         return this.findSuggestionsByRuleUseCase.execute(query.ruleId);
     }
 
+    @Get('/effectiveness')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Read,
+            resource: ResourceType.KodyRules,
+        }),
+    )
+    public async getEffectiveness(
+        @Query() query: KodyRulesEffectivenessQueryDto,
+    ) {
+        return this.getKodyRulesEffectivenessUseCase.execute({
+            startDate: new Date(query.startDate),
+            endDate: new Date(query.endDate),
+            repositoryId: query.repositoryId,
+        });
+    }
+
     @Get('/find-rules-in-organization-by-filter')
     @UseGuards(PolicyGuard)
     @CheckPolicies(
@@ -357,6 +463,23 @@ export class KodyRulesController {
         return this.fastSyncIdeRulesUseCase.execute(body);
     }
 
+    @Post('/export')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkRepoPermissions({
+            action: Action.Create,
+            resource: ResourceType.KodyRules,
+            repo: {
+                key: {
+                    body: 'repositoryId',
+                },
+            },
+        }),
+    )
+    public async exportRules(@Body() body: ExportKodyRulesDto) {
+        return this.exportKodyRulesUseCase.execute(body);
+    }
+
     @Get('/pending-ide-rules')
     @UseGuards(PolicyGuard)
     @CheckPolicies(
@@ -430,6 +553,11 @@ export class KodyRulesController {
                     query: 'repositoryId',
                 },
             },
+            directory: {
+                key: {
+                    query: 'directoryId',
+                },
+            },
         }),
     )
     public async getInheritedRules(
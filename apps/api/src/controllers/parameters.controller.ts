@@ -276,6 +276,11 @@ export class ParametersController {
                     body: 'repositoryId',
                 },
             },
+            directory: {
+                key: {
+                    body: 'directoryId',
+                },
+            },
         }),
     )
     public async deleteRepositoryCodeReviewParameter(
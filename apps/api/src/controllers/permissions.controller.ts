@@ -1,18 +1,26 @@
 import {
     Body,
     Controller,
+    Delete,
     Get,
     Inject,
+    Param,
+    Patch,
     Post,
     Query,
     UseGuards,
 } from '@nestjs/common';
 import { REQUEST } from '@nestjs/core';
 
+import { AssignCustomRolesUseCase } from '@libs/identity/application/use-cases/permissions/assign-custom-roles.use-case';
 import { AssignReposUseCase } from '@libs/identity/application/use-cases/permissions/assign-repos.use-case';
 import { CanAccessUseCase } from '@libs/identity/application/use-cases/permissions/can-access.use-case';
+import { CreateCustomRoleUseCase } from '@libs/identity/application/use-cases/permissions/create-custom-role.use-case';
+import { DeleteCustomRoleUseCase } from '@libs/identity/application/use-cases/permissions/delete-custom-role.use-case';
 import { GetAssignedReposUseCase } from '@libs/identity/application/use-cases/permissions/get-assigned-repos.use-case';
 import { GetPermissionsUseCase } from '@libs/identity/application/use-cases/permissions/get-permissions.use-case';
+import { ListCustomRolesUseCase } from '@libs/identity/application/use-cases/permissions/list-custom-roles.use-case';
+import { UpdateCustomRoleUseCase } from '@libs/identity/application/use-cases/permissions/update-custom-role.use-case';
 import {
     Action,
     ResourceType,
@@ -25,6 +33,12 @@ import {
 import { checkPermissions } from '@libs/identity/infrastructure/adapters/services/permissions/policy.handlers';
 import { createLogger } from '@kodus/flow';
 
+import {
+    AssignCustomRolesDto,
+    CreateCustomRoleDto,
+    UpdateCustomRoleDto,
+} from '../dtos/custom-role.dto';
+
 @Controller('permissions')
 export class PermissionsController {
     private readonly logger = createLogger(PermissionsController.name);
@@ -39,6 +53,11 @@ export class PermissionsController {
         private readonly canAccessUseCase: CanAccessUseCase,
         private readonly getAssignedReposUseCase: GetAssignedReposUseCase,
         private readonly assignReposUseCase: AssignReposUseCase,
+        private readonly listCustomRolesUseCase: ListCustomRolesUseCase,
+        private readonly createCustomRoleUseCase: CreateCustomRoleUseCase,
+        private readonly updateCustomRoleUseCase: UpdateCustomRoleUseCase,
+        private readonly deleteCustomRoleUseCase: DeleteCustomRoleUseCase,
+        private readonly assignCustomRolesUseCase: AssignCustomRolesUseCase,
     ) {}
 
     @Get()
@@ -105,4 +124,87 @@ export class PermissionsController {
             teamId: body.teamId,
         });
     }
+
+    @Get('roles')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Read,
+            resource: ResourceType.UserSettings,
+        }),
+    )
+    async listCustomRoles() {
+        return this.listCustomRolesUseCase.execute({
+            user: this.request.user,
+        });
+    }
+
+    @Post('roles')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Create,
+            resource: ResourceType.UserSettings,
+        }),
+    )
+    async createCustomRole(@Body() body: CreateCustomRoleDto) {
+        return this.createCustomRoleUseCase.execute({
+            user: this.request.user,
+            name: body.name,
+            description: body.description,
+            grants: body.grants,
+        });
+    }
+
+    @Post('roles/assign')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Update,
+            resource: ResourceType.UserSettings,
+        }),
+    )
+    async assignCustomRoles(@Body() body: AssignCustomRolesDto) {
+        return this.assignCustomRolesUseCase.execute({
+            user: this.request.user,
+            userId: body.userId,
+            customRoleIds: body.customRoleIds,
+        });
+    }
+
+    @Patch('roles/:uuid')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Update,
+            resource: ResourceType.UserSettings,
+        }),
+    )
+    async updateCustomRole(
+        @Param('uuid') uuid: string,
+        @Body() body: UpdateCustomRoleDto,
+    ) {
+        return this.updateCustomRoleUseCase.execute({
+            user: this.request.user,
+            uuid,
+            name: body.name,
+            description: body.description,
+            grants: body.grants,
+        });
+    }
+
+    @Delete('roles/:uuid')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Delete,
+            resource: ResourceType.UserSettings,
+        }),
+    )
+    async deleteCustomRole(@Param('uuid') uuid: string) {
+        return this.deleteCustomRoleUseCase.execute({
+            user: this.request.user,
+            uuid,
+        });
+    }
 }
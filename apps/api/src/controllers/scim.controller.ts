@@ -0,0 +1,338 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpStatus,
+    Param,
+    Patch,
+    Post,
+    Put,
+    Query,
+    Req,
+    Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+
+import { createLogger } from '@kodus/flow';
+import { ScimException } from '@libs/ee/sso/domain/exceptions/scim.exception';
+import {
+    SCIM_SCHEMAS,
+    ScimContext,
+    ScimGroupResource,
+    ScimPatchRequest,
+    ScimUserResource,
+} from '@libs/ee/sso/domain/interfaces/scim.interface';
+import { ScimProvisioningService } from '@libs/ee/sso/services/scimProvisioning.service';
+import { ScimTokenService } from '@libs/ee/sso/services/scimToken.service';
+
+const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+type ScimListQuery = {
+    filter?: string;
+    startIndex?: string;
+    count?: string;
+};
+
+/**
+ * SCIM 2.0 (RFC 7643/7644) endpoints used by IdPs to provision users and
+ * groups. Responses are written directly so they keep the SCIM shape instead
+ * of the API envelope, and requests authenticate with SCIM bearer tokens
+ * rather than user sessions.
+ */
+@Controller('scim/v2')
+export class ScimController {
+    private readonly logger = createLogger(ScimController.name);
+
+    constructor(
+        private readonly scimTokenService: ScimTokenService,
+        private readonly scimProvisioningService: ScimProvisioningService,
+    ) {}
+
+    @Get('ServiceProviderConfig')
+    async getServiceProviderConfig(@Req() req: Request, @Res() res: Response) {
+        return this.handle(req, res, HttpStatus.OK, async (ctx) => ({
+            schemas: [SCIM_SCHEMAS.SERVICE_PROVIDER_CONFIG],
+            patch: { supported: true },
+            bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+            filter: { supported: true, maxResults: 1000 },
+            changePassword: { supported: false },
+            sort: { supported: false },
+            etag: { supported: false },
+            authenticationSchemes: [
+                {
+                    type: 'oauthbearertoken',
+                    name: 'OAuth Bearer Token',
+                    description:
+                        'Authentication with a SCIM token generated in Kodus',
+                    primary: true,
+                },
+            ],
+            meta: {
+                resourceType: 'ServiceProviderConfig',
+                location: `${ctx.baseUrl}/ServiceProviderConfig`,
+            },
+        }));
+    }
+
+    @Get('ResourceTypes')
+    async getResourceTypes(@Req() req: Request, @Res() res: Response) {
+        return this.handle(req, res, HttpStatus.OK, async (ctx) => {
+            const resources = [
+                {
+                    schemas: [SCIM_SCHEMAS.RESOURCE_TYPE],
+                    id: 'User',
+                    name: 'User',
+                    endpoint: '/Users',
+                    schema: SCIM_SCHEMAS.USER,
+                    meta: {
+                        resourceType: 'ResourceType',
+                        location: `${ctx.baseUrl}/ResourceTypes/User`,
+                    },
+                },
+                {
+                    schemas: [SCIM_SCHEMAS.RESOURCE_TYPE],
+                    id: 'Group',
+                    name: 'Group',
+                    endpoint: '/Groups',
+                    schema: SCIM_SCHEMAS.GROUP,
+                    meta: {
+                        resourceType: 'ResourceType',
+                        location: `${ctx.baseUrl}/ResourceTypes/Group`,
+                    },
+                },
+            ];
+
+            return {
+                schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+                totalResults: resources.length,
+                startIndex: 1,
+                itemsPerPage: resources.length,
+                Resources: resources,
+            };
+        });
+    }
+
+    //#region Users
+    @Get('Users')
+    async listUsers(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Query() query: ScimListQuery,
+    ) {
+        return this.handle(req, res, HttpStatus.OK, (ctx) =>
+            this.scimProvisioningService.listUsers(ctx, {
+                filter: query.filter,
+                startIndex: this.toNumber(query.startIndex),
+                count: this.toNumber(query.count),
+            }),
+        );
+    }
+
+    @Get('Users/:id')
+    async getUser(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('id') id: string,
+    ) {
+        return this.handle(req, res, HttpStatus.OK, (ctx) =>
+            this.scimProvisioningService.getUser(ctx, id),
+        );
+    }
+
+    @Post('Users')
+    async createUser(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Body() body: ScimUserResource,
+    ) {
+        return this.handle(req, res, HttpStatus.CREATED, (ctx) =>
+            this.scimProvisioningService.createUser(ctx, body),
+        );
+    }
+
+    @Put('Users/:id')
+    async replaceUser(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('id') id: string,
+        @Body() body: ScimUserResource,
+    ) {
+        return this.handle(req, res, HttpStatus.OK, (ctx) =>
+            this.scimProvisioningService.replaceUser(ctx, id, body),
+        );
+    }
+
+    @Patch('Users/:id')
+    async patchUser(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('id') id: string,
+        @Body() body: ScimPatchRequest,
+    ) {
+        return this.handle(req, res, HttpStatus.OK, (ctx) =>
+            this.scimProvisioningService.patchUser(ctx, id, body),
+        );
+    }
+
+    @Delete('Users/:id')
+    async deleteUser(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('id') id: string,
+    ) {
+        return this.handle(req, res, HttpStatus.NO_CONTENT, (ctx) =>
+            this.scimProvisioningService.deleteUser(ctx, id),
+        );
+    }
+    //#endregion
+
+    //#region Groups
+    @Get('Groups')
+    async listGroups(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Query() query: ScimListQuery,
+    ) {
+        return this.handle(req, res, HttpStatus.OK, (ctx) =>
+            this.scimProvisioningService.listGroups(ctx, {
+                filter: query.filter,
+                startIndex: this.toNumber(query.startIndex),
+                count: this.toNumber(query.count),
+            }),
+        );
+    }
+
+    @Get('Groups/:id')
+    async getGroup(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('id') id: string,
+    ) {
+        return this.handle(req, res, HttpStatus.OK, (ctx) =>
+            this.scimProvisioningService.getGroup(ctx, id),
+        );
+    }
+
+    @Post('Groups')
+    async createGroup(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Body() body: ScimGroupResource,
+    ) {
+        return this.handle(req, res, HttpStatus.CREATED, (ctx) =>
+            this.scimProvisioningService.createGroup(ctx, body),
+        );
+    }
+
+    @Put('Groups/:id')
+    async replaceGroup(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('id') id: string,
+        @Body() body: ScimGroupResource,
+    ) {
+        return this.handle(req, res, HttpStatus.OK, (ctx) =>
+            this.scimProvisioningService.replaceGroup(ctx, id, body),
+        );
+    }
+
+    @Patch('Groups/:id')
+    async patchGroup(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('id') id: string,
+        @Body() body: ScimPatchRequest,
+    ) {
+        return this.handle(req, res, HttpStatus.OK, (ctx) =>
+            this.scimProvisioningService.patchGroup(ctx, id, body),
+        );
+    }
+
+    @Delete('Groups/:id')
+    async deleteGroup(
+        @Req() req: Request,
+        @Res() res: Response,
+        @Param('id') id: string,
+    ) {
+        return this.handle(req, res, HttpStatus.NO_CONTENT, (ctx) =>
+            this.scimProvisioningService.deleteGroup(ctx, id),
+        );
+    }
+    //#endregion
+
+    private async handle(
+        req: Request,
+        res: Response,
+        successStatus: HttpStatus,
+        action: (ctx: ScimContext) => Promise<unknown>,
+    ): Promise<void> {
+        try {
+            const tokenContext = await this.scimTokenService.validateToken(
+                req.headers.authorization,
+            );
+
+            if (!tokenContext) {
+                throw new ScimException(
+                    HttpStatus.UNAUTHORIZED,
+                    'Invalid or missing SCIM token',
+                );
+            }
+
+            const result = await action({
+                ...tokenContext,
+                baseUrl: this.getBaseUrl(req),
+            });
+
+            if (successStatus === HttpStatus.NO_CONTENT) {
+                res.status(successStatus).send();
+                return;
+            }
+
+            res.status(successStatus)
+                .type(SCIM_CONTENT_TYPE)
+                .send(JSON.stringify(result));
+        } catch (error) {
+            if (error instanceof ScimException) {
+                res.status(error.getStatus())
+                    .type(SCIM_CONTENT_TYPE)
+                    .send(JSON.stringify(error.getResponse()));
+                return;
+            }
+
+            this.logger.error({
+                message: 'Error handling SCIM request',
+                error,
+                context: ScimController.name,
+                metadata: { method: req.method, path: req.path },
+            });
+
+            const internal = new ScimException(
+                HttpStatus.INTERNAL_SERVER_ERROR,
+                'Internal server error',
+            );
+            res.status(internal.getStatus())
+                .type(SCIM_CONTENT_TYPE)
+                .send(JSON.stringify(internal.getResponse()));
+        }
+    }
+
+    private getBaseUrl(req: Request): string {
+        const apiUrl = process.env.API_URL?.replace(/\/+$/, '');
+
+        if (apiUrl) {
+            return `${apiUrl}/scim/v2`;
+        }
+
+        return `${req.protocol}://${req.get('host')}/scim/v2`;
+    }
+
+    private toNumber(value?: string): number | undefined {
+        if (value === undefined || value === '') {
+            return undefined;
+        }
+
+        const parsed = Number(value);
+        return isNaN(parsed) ? undefined : parsed;
+    }
+}
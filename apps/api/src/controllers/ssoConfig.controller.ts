@@ -3,10 +3,12 @@ import {
     ISSOConfigService,
     SSO_CONFIG_SERVICE_TOKEN,
 } from '@libs/ee/sso/domain/contracts/ssoConfig.service.contract';
+import { SCIMConfig } from '@libs/ee/sso/domain/interfaces/scim.interface';
 import {
     SSOProtocol,
     SSOProtocolConfigMap,
 } from '@libs/ee/sso/domain/interfaces/ssoConfig.interface';
+import { ScimTokenService } from '@libs/ee/sso/services/scimToken.service';
 import { CreateOrUpdateSSOConfigUseCase } from '@libs/ee/sso/use-cases/create-or-update.use-case';
 import {
     Action,
@@ -20,8 +22,11 @@ import { checkPermissions } from '@libs/identity/infrastructure/adapters/service
 import {
     Body,
     Controller,
+    Delete,
     Get,
     Inject,
+    NotFoundException,
+    Param,
     Post,
     Query,
     UseGuards,
@@ -36,6 +41,8 @@ export class SSOConfigController {
         @Inject(SSO_CONFIG_SERVICE_TOKEN)
         private readonly ssoConfigService: ISSOConfigService,
 
+        private readonly scimTokenService: ScimTokenService,
+
         @Inject(REQUEST)
         private readonly request: UserRequest,
     ) {}
@@ -56,6 +63,7 @@ export class SSOConfigController {
             providerConfig?: SSOProtocolConfigMap[SSOProtocol];
             active?: boolean;
             domains?: string[];
+            scimConfig?: SCIMConfig;
         },
     ) {
         const organizationId = this.request?.user?.organization?.uuid;
@@ -102,4 +110,77 @@ export class SSOConfigController {
 
         return ssoConfig.toJson();
     }
+
+    @Post('scim/tokens')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Create,
+            resource: ResourceType.OrganizationSettings,
+        }),
+    )
+    async createScimToken(@Body() body: { ssoConfigId: string; name: string }) {
+        const organizationId = this.request?.user?.organization?.uuid;
+
+        if (!organizationId) {
+            throw new Error('Organization not found');
+        }
+
+        const token = await this.scimTokenService.generateToken({
+            organizationId,
+            ssoConfigId: body.ssoConfigId,
+            name: body.name,
+        });
+
+        if (!token) {
+            throw new NotFoundException('SSO config not found');
+        }
+
+        return token;
+    }
+
+    @Get('scim/tokens')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Read,
+            resource: ResourceType.OrganizationSettings,
+        }),
+    )
+    async listScimTokens() {
+        const organizationId = this.request?.user?.organization?.uuid;
+
+        if (!organizationId) {
+            throw new Error('Organization not found');
+        }
+
+        return await this.scimTokenService.listTokens(organizationId);
+    }
+
+    @Delete('scim/tokens/:uuid')
+    @UseGuards(PolicyGuard)
+    @CheckPolicies(
+        checkPermissions({
+            action: Action.Delete,
+            resource: ResourceType.OrganizationSettings,
+        }),
+    )
+    async revokeScimToken(@Param('uuid') uuid: string) {
+        const organizationId = this.request?.user?.organization?.uuid;
+
+        if (!organizationId) {
+            throw new Error('Organization not found');
+        }
+
+        const revoked = await this.scimTokenService.revokeToken(
+            organizationId,
+            uuid,
+        );
+
+        if (!revoked) {
+            throw new NotFoundException('SCIM token not found');
+        }
+
+        return { revoked };
+    }
 }
@@ -2,6 +2,7 @@ import { createLogger } from '@kodus/flow';
 import { CostEstimateUseCase } from '@libs/analytics/application/use-cases/usage/cost-estimate.use-case';
 import { TokenPricingUseCase } from '@libs/analytics/application/use-cases/usage/token-pricing.use-case';
 import { TokensByDeveloperUseCase } from '@libs/analytics/application/use-cases/usage/tokens-developer.use-case';
+import { TokensByTaskUseCase } from '@libs/analytics/application/use-cases/usage/tokens-task.use-case';
 import {
     ITokenUsageService,
     TOKEN_USAGE_SERVICE_TOKEN,
@@ -14,6 +15,7 @@ import {
     TokenUsageQueryContract,
     UsageByDeveloperResultContract,
     UsageByPrResultContract,
+    UsageByTaskResultContract,
     UsageSummaryContract,
 } from '@libs/analytics/domain/token-usage/types/tokenUsage.types';
 import { UserRequest } from '@libs/core/infrastructure/config/types/http/user-request.type';
@@ -43,6 +45,7 @@ export class TokenUsageController {
         private readonly request: UserRequest,
 
         private readonly tokensByDeveloperUseCase: TokensByDeveloperUseCase,
+        private readonly tokensByTaskUseCase: TokensByTaskUseCase,
         private readonly tokenPricingUseCase: TokenPricingUseCase,
         private readonly costEstimateUseCase: CostEstimateUseCase,
     ) {}
@@ -203,6 +206,32 @@ export class TokenUsageController {
         }
     }
 
+    @Get('tokens/by-task')
+    async getUsageByTask(
+        @Query() query: TokenUsageQueryDto,
+    ): Promise<UsageByTaskResultContract[]> {
+        try {
+            const organizationId = this.request?.user?.organization?.uuid;
+
+            if (!organizationId) {
+                throw new BadRequestException(
+                    'organizationId not found in request',
+                );
+            }
+
+            const mapped = this.mapDtoToContract(query, organizationId);
+            return await this.tokensByTaskUseCase.execute(mapped);
+        } catch (error) {
+            this.logger.error({
+                message: 'Error fetching token usage by task',
+                error,
+                context: TokenUsageController.name,
+                metadata: { query },
+            });
+            return [];
+        }
+    }
+
     @Get('tokens/pricing')
     async getPricing(@Query() query: TokenPricingQueryDto) {
         const organizationId = this.request?.user?.organization?.uuid;
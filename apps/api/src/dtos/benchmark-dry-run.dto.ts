@@ -0,0 +1,39 @@
+import { Type } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    IsArray,
+    IsDateString,
+    IsNumber,
+    IsOptional,
+    IsString,
+    ValidateNested,
+} from 'class-validator';
+
+import { DryRunConfigVariantDto } from './compare-dry-run.dto';
+
+export class BenchmarkDryRunDto {
+    @IsString()
+    teamId: string;
+
+    @IsString()
+    repositoryId: string;
+
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(50)
+    @IsNumber({}, { each: true })
+    prNumbers?: number[];
+
+    @IsOptional()
+    @IsDateString()
+    startDate?: string;
+
+    @IsOptional()
+    @IsDateString()
+    endDate?: string;
+
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => DryRunConfigVariantDto)
+    variant?: DryRunConfigVariantDto;
+}
@@ -1,6 +1,7 @@
 import { IsString, IsOptional, IsBoolean, IsArray, ValidateNested, IsEnum, MaxLength, ArrayMaxSize } from 'class-validator';
 import { Type } from 'class-transformer';
 import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { CliOutputFormat } from '@libs/cli-review/domain/types/cli-review.types';
 
 class CliFileInputDto {
     @IsString()
@@ -61,6 +62,14 @@ class CliConfigDto {
     @ValidateNested({ each: true })
     @Type(() => CliFileInputDto)
     files?: CliFileInputDto[];
+
+    @IsOptional()
+    @IsEnum(CliOutputFormat)
+    format?: CliOutputFormat; // json (default), sarif, patch, checkstyle or junit
+
+    @IsOptional()
+    @IsBoolean()
+    incremental?: boolean; // Only report issues not yet reported for the branch
 }
 
 export class CliReviewRequestDto {
@@ -93,6 +102,11 @@ export class CliReviewRequestDto {
     @MaxLength(40, { message: 'Commit SHA too long' })
     commitSha?: string; // git rev-parse HEAD
 
+    @IsOptional()
+    @IsString()
+    @MaxLength(40, { message: 'Base commit SHA too long' })
+    baseCommit?: string; // git merge-base HEAD <base branch>
+
     @IsOptional()
     @IsEnum(PlatformType)
     inferredPlatform?: PlatformType; // Inferred from gitRemote
@@ -0,0 +1,51 @@
+import { Type } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    ArrayMinSize,
+    IsArray,
+    IsEnum,
+    IsNumber,
+    IsObject,
+    IsOptional,
+    IsString,
+    ValidateNested,
+} from 'class-validator';
+
+import { ReviewPreset } from '@libs/core/domain/enums/code-review.enum';
+import { CodeReviewConfig } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+export class DryRunConfigVariantDto {
+    @IsOptional()
+    @IsString()
+    label?: string;
+
+    @IsOptional()
+    @IsEnum(ReviewPreset)
+    preset?: ReviewPreset;
+
+    @IsOptional()
+    @IsObject()
+    configOverrides?: Partial<CodeReviewConfig>;
+}
+
+export class CompareDryRunDto {
+    @IsString()
+    teamId: string;
+
+    @IsString()
+    repositoryId: string;
+
+    @IsArray()
+    @ArrayMinSize(1)
+    @ArrayMaxSize(10)
+    @IsNumber({}, { each: true })
+    prNumbers: number[];
+
+    @ValidateNested()
+    @Type(() => DryRunConfigVariantDto)
+    variantA: DryRunConfigVariantDto;
+
+    @ValidateNested()
+    @Type(() => DryRunConfigVariantDto)
+    variantB: DryRunConfigVariantDto;
+}
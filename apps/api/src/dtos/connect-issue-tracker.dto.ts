@@ -0,0 +1,55 @@
+import { Type } from 'class-transformer';
+import {
+    IsArray,
+    IsBoolean,
+    IsIn,
+    IsObject,
+    IsOptional,
+    IsString,
+    ValidateNested,
+} from 'class-validator';
+
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import { IssueTrackerAuthDetail } from '@libs/integrations/domain/issueTracker/types/issue-tracker.type';
+
+class IssueTrackerSyncConfigDto {
+    @IsBoolean()
+    enabled: boolean;
+
+    @IsOptional()
+    @IsString()
+    projectKey?: string;
+
+    @IsString()
+    issueType: string;
+
+    @IsOptional()
+    @IsObject()
+    priorityMapping?: Partial<Record<SeverityLevel, string>>;
+
+    @IsOptional()
+    @IsObject()
+    statusMapping?: Partial<Record<IssueStatus, string>>;
+
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    labels?: string[];
+}
+
+export class ConnectIssueTrackerDto {
+    @IsString()
+    teamId: string;
+
+    @IsIn([PlatformType.JIRA, PlatformType.AZURE_BOARDS])
+    platform: PlatformType;
+
+    @IsObject()
+    authDetails: IssueTrackerAuthDetail;
+
+    @ValidateNested()
+    @Type(() => IssueTrackerSyncConfigDto)
+    config: IssueTrackerSyncConfigDto;
+}
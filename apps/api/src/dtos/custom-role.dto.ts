@@ -0,0 +1,73 @@
+import { Type } from 'class-transformer';
+import {
+    ArrayNotEmpty,
+    IsArray,
+    IsEnum,
+    IsOptional,
+    IsString,
+    ValidateNested,
+} from 'class-validator';
+
+import {
+    Action,
+    ResourceType,
+} from '@libs/identity/domain/permissions/enums/permissions.enum';
+
+class CustomRoleGrantDto {
+    @IsEnum(Action)
+    action: Action;
+
+    @IsEnum(ResourceType)
+    resource: ResourceType;
+
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    repositoryIds?: string[];
+
+    @IsOptional()
+    @IsArray()
+    @IsString({ each: true })
+    directoryIds?: string[];
+}
+
+export class CreateCustomRoleDto {
+    @IsString()
+    name: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    @IsArray()
+    @ArrayNotEmpty()
+    @ValidateNested({ each: true })
+    @Type(() => CustomRoleGrantDto)
+    grants: CustomRoleGrantDto[];
+}
+
+export class UpdateCustomRoleDto {
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    @IsOptional()
+    @IsArray()
+    @ArrayNotEmpty()
+    @ValidateNested({ each: true })
+    @Type(() => CustomRoleGrantDto)
+    grants?: CustomRoleGrantDto[];
+}
+
+export class AssignCustomRolesDto {
+    @IsString()
+    userId: string;
+
+    @IsArray()
+    @IsString({ each: true })
+    customRoleIds: string[];
+}
@@ -0,0 +1,39 @@
+import { Transform } from 'class-transformer';
+import {
+    IsArray,
+    IsEnum,
+    IsInt,
+    IsOptional,
+    IsString,
+    Min,
+} from 'class-validator';
+
+import { FineTuningDecision } from '@libs/kodyFineTuning/domain/enums/fineTuningDecision.enum';
+
+export class ListKodyFineTuningDecisionsDto {
+    @IsString()
+    repositoryId: string;
+
+    @Transform(({ value }) => (value ? parseInt(value, 10) : undefined))
+    @IsInt()
+    @Min(1)
+    prNumber: number;
+
+    @IsOptional()
+    @IsString()
+    dryRunId?: string;
+
+    // Comma separated, e.g. "DISCARD,UNCERTAIN"
+    @IsOptional()
+    @Transform(({ value }) =>
+        typeof value === 'string' ? value.split(',') : value,
+    )
+    @IsArray()
+    @IsEnum(FineTuningDecision, { each: true })
+    decisions?: FineTuningDecision[];
+}
+
+export class OverrideKodyFineTuningClusterDto {
+    @IsEnum([FineTuningDecision.KEEP, FineTuningDecision.DISCARD])
+    decision: FineTuningDecision.KEEP | FineTuningDecision.DISCARD;
+}
@@ -113,6 +113,9 @@ async function bootstrap() {
         });
 
         app.use(bodyParser.json({ limit: '25mb' }));
+        app.use(
+            bodyParser.json({ limit: '25mb', type: 'application/scim+json' }),
+        );
         app.use(bodyParser.urlencoded({ limit: '25mb', extended: true }));
         app.set('trust proxy', 1);
         app.useStaticAssets('static');
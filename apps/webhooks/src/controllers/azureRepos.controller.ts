@@ -3,6 +3,7 @@ import { Controller, HttpStatus, Post, Req, Res } from '@nestjs/common';
 import { Response, Request } from 'express';
 
 import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { webhooksReceived } from '@libs/core/infrastructure/metrics/prometheus/prometheus.metrics';
 import { EnqueueWebhookUseCase } from '@libs/platform/application/use-cases/webhook/enqueue-webhook.use-case';
 import { validateWebhookToken } from '@libs/common/utils/webhooks/webhookTokenCrypto';
 
@@ -16,6 +17,8 @@ export class AzureReposController {
 
     @Post('/webhook')
     handleWebhook(@Req() req: Request, @Res() res: Response) {
+        webhooksReceived.inc({ platform: PlatformType.AZURE_REPOS });
+
         const encrypted = req.query.token as string;
 
         if (!validateWebhookToken(encrypted)) {
@@ -3,6 +3,7 @@ import { Controller, HttpStatus, Post, Req, Res } from '@nestjs/common';
 import { Response, Request } from 'express';
 
 import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { webhooksReceived } from '@libs/core/infrastructure/metrics/prometheus/prometheus.metrics';
 import { EnqueueWebhookUseCase } from '@libs/platform/application/use-cases/webhook/enqueue-webhook.use-case';
 
 @Controller('github')
@@ -15,6 +16,8 @@ export class GithubController {
 
     @Post('/webhook')
     handleWebhook(@Req() req: Request, @Res() res: Response) {
+        webhooksReceived.inc({ platform: PlatformType.GITHUB });
+
         const event = req.headers['x-github-event'] as string;
         const payload = req.body as any;
 
@@ -3,6 +3,7 @@ import { Controller, HttpStatus, Post, Req, Res } from '@nestjs/common';
 import { Request, Response } from 'express';
 
 import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { webhooksReceived } from '@libs/core/infrastructure/metrics/prometheus/prometheus.metrics';
 import { EnqueueWebhookUseCase } from '@libs/platform/application/use-cases/webhook/enqueue-webhook.use-case';
 
 @Controller('gitlab')
@@ -14,6 +15,8 @@ export class GitlabController {
 
     @Post('/webhook')
     handleWebhook(@Req() req: Request, @Res() res: Response) {
+        webhooksReceived.inc({ platform: PlatformType.GITLAB });
+
         const event = req.headers['x-gitlab-event'] as string;
         const payload = req.body as any;
 
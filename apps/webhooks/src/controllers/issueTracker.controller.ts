@@ -0,0 +1,85 @@
+import { createLogger } from '@kodus/flow';
+import { Controller, HttpStatus, Post, Req, Res } from '@nestjs/common';
+import { Request, Response } from 'express';
+
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { webhooksReceived } from '@libs/core/infrastructure/metrics/prometheus/prometheus.metrics';
+import { IssueTrackerWebhookPayload } from '@libs/integrations/domain/issueTracker/types/issue-tracker.type';
+import { EnqueueWebhookUseCase } from '@libs/platform/application/use-cases/webhook/enqueue-webhook.use-case';
+
+@Controller('issue-tracker')
+export class IssueTrackerController {
+    private readonly logger = createLogger(IssueTrackerController.name);
+    constructor(
+        private readonly enqueueWebhookUseCase: EnqueueWebhookUseCase,
+    ) {}
+
+    @Post('/jira/webhook')
+    handleJiraWebhook(@Req() req: Request, @Res() res: Response) {
+        webhooksReceived.inc({ platform: PlatformType.JIRA });
+
+        const event = req.body?.webhookEvent as string;
+
+        if (event !== 'jira:issue_updated') {
+            return res
+                .status(HttpStatus.OK)
+                .send('Webhook ignored (event not supported)');
+        }
+
+        return this.enqueue(PlatformType.JIRA, event, req, res);
+    }
+
+    @Post('/azure-boards/webhook')
+    handleAzureBoardsWebhook(@Req() req: Request, @Res() res: Response) {
+        webhooksReceived.inc({ platform: PlatformType.AZURE_BOARDS });
+
+        const event = req.body?.eventType as string;
+
+        if (event !== 'workitem.updated') {
+            return res
+                .status(HttpStatus.OK)
+                .send('Webhook ignored (event not supported)');
+        }
+
+        return this.enqueue(PlatformType.AZURE_BOARDS, event, req, res);
+    }
+
+    private enqueue(
+        platformType: PlatformType,
+        event: string,
+        req: Request,
+        res: Response,
+    ) {
+        // Trackers can't sign their webhooks, the token set on the webhook URL is checked by the worker
+        const payload: IssueTrackerWebhookPayload = {
+            token: req.query?.token as string,
+            data: req.body,
+        };
+
+        res.status(HttpStatus.OK).send('Webhook received');
+
+        setImmediate(() => {
+            void this.enqueueWebhookUseCase
+                .execute({
+                    platformType,
+                    event,
+                    payload,
+                })
+                .then(() => {
+                    this.logger.log({
+                        message: `Webhook enqueued, ${event}`,
+                        context: IssueTrackerController.name,
+                        metadata: { event, platformType },
+                    });
+                })
+                .catch((error) => {
+                    this.logger.error({
+                        message: 'Error enqueuing webhook',
+                        context: IssueTrackerController.name,
+                        error,
+                        metadata: { event, platformType },
+                    });
+                });
+        });
+    }
+}
@@ -8,12 +8,14 @@ import { SharedPostgresModule } from '@libs/shared/database/shared-postgres.modu
 import { SharedConfigModule } from '@libs/shared/infrastructure/shared-config.module';
 import { SharedLogModule } from '@libs/shared/infrastructure/shared-log.module';
 import { SharedObservabilityModule } from '@libs/shared/infrastructure/shared-observability.module';
+import { PrometheusModule } from '@libs/core/infrastructure/metrics/prometheus/prometheus.module';
 import { WebhookEnqueueModule } from './webhook-enqueue.module';
 
 import { AzureReposController } from '../controllers/azureRepos.controller';
 import { BitbucketController } from '../controllers/bitbucket.controller';
 import { GithubController } from '../controllers/github.controller';
 import { GitlabController } from '../controllers/gitlab.controller';
+import { IssueTrackerController } from '../controllers/issueTracker.controller';
 import { WebhookHealthController } from '../controllers/webhook-health.controller';
 
 import { ConfigService } from '@nestjs/config';
@@ -36,12 +38,14 @@ import { ConfigService } from '@nestjs/config';
         EventEmitterModule.forRoot(),
         RabbitMQWrapperModule.register({ enableConsumers: false }),
         WebhookEnqueueModule,
+        PrometheusModule,
     ],
     controllers: [
         GithubController,
         GitlabController,
         BitbucketController,
         AzureReposController,
+        IssueTrackerController,
         WebhookHealthController,
     ],
 })
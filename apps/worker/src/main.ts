@@ -8,8 +8,10 @@ dotenv.config();
 // initPyroscope({ appName: 'kodus-worker' });
 
 import { INestApplicationContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { NestFactory } from '@nestjs/core';
 
+import { startPrometheusServer } from '@libs/core/infrastructure/metrics/prometheus/prometheus.server';
 import { LoggerWrapperService } from '@libs/core/log/loggerWrapper.service';
 import { ObservabilityService } from '@libs/core/log/observability.service';
 
@@ -77,6 +79,31 @@ async function bootstrap() {
 
         appContext.enableShutdownHooks();
 
+        const configService = appContext.get(ConfigService);
+        const metricsPort = parseInt(
+            configService.get<string>('API_WORKER_METRICS_PORT') ?? '',
+            10,
+        );
+
+        const metricsToken = configService.get<string>(
+            'API_METRICS_BEARER_TOKEN',
+        );
+
+        if (Number.isFinite(metricsPort) && metricsPort > 0) {
+            if (metricsToken) {
+                // Must not keep the process alive once the worker is drained
+                startPrometheusServer(
+                    metricsPort,
+                    '0.0.0.0',
+                    metricsToken,
+                ).unref();
+            } else {
+                console.warn(
+                    '[Worker] - API_WORKER_METRICS_PORT is set without API_METRICS_BEARER_TOKEN, metrics server not started.',
+                );
+            }
+        }
+
         console.log('[Worker] - Initialized and running.');
 
         handleNestJSWebpackHmr(appContext, module);
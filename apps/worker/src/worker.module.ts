@@ -15,6 +15,7 @@ import { PlatformModule } from '@libs/platform/modules/platform.module';
 import { SharedObservabilityModule } from '@libs/shared/infrastructure/shared-observability.module';
 import { IncidentModule } from '@libs/core/infrastructure/incident/incident.module';
 import { MetricsModule } from '@libs/core/infrastructure/metrics/metrics.module';
+import { PrometheusModule } from '@libs/core/infrastructure/metrics/prometheus/prometheus.module';
 import { ErrorRateMonitorService } from '@libs/core/infrastructure/metrics/error-rate-monitor.service';
 import { ReviewResponseMonitorService } from '@libs/core/infrastructure/metrics/review-response-monitor.service';
 import { WebhookFailureMonitorService } from '@libs/core/infrastructure/metrics/webhook-failure-monitor.service';
@@ -41,6 +42,7 @@ import { ConfigService } from '@nestjs/config';
         SharedObservabilityModule,
         IncidentModule,
         MetricsModule,
+        PrometheusModule,
         SharedPostgresModule.forRoot({ poolSize: 12 }),
         SharedMongoModule.forRoot(),
         RabbitMQWrapperModule.register({ enableConsumers: true }),
@@ -1,9 +1,11 @@
 import { CostEstimateUseCase } from './cost-estimate.use-case';
 import { TokenPricingUseCase } from './token-pricing.use-case';
 import { TokensByDeveloperUseCase } from './tokens-developer.use-case';
+import { TokensByTaskUseCase } from './tokens-task.use-case';
 
 export const UseCases = [
     TokensByDeveloperUseCase,
+    TokensByTaskUseCase,
     TokenPricingUseCase,
     CostEstimateUseCase,
 ];
@@ -5,13 +5,49 @@ import { Axios } from 'axios';
 
 import { CacheService } from '@libs/core/cache/cache.service';
 
+export type ModelPricing = {
+    prompt: number;
+    completion: number;
+    internal_reasoning: number;
+};
+
 type ModelInfo = {
     id: string;
-    pricing: {
-        prompt: number;
-        completion: number;
-        internal_reasoning: number;
-    };
+    pricing: ModelPricing;
+};
+
+type PricedTokenUsage = {
+    input: number;
+    output: number;
+    outputReasoning: number;
+};
+
+/**
+ * Cost of a token usage, `undefined` when its model has no known price.
+ */
+export const calculateTokenCost = (
+    usage: PricedTokenUsage,
+    pricing?: ModelPricing,
+): number | undefined =>
+    pricing
+        ? usage.input * pricing.prompt +
+          usage.output * pricing.completion +
+          usage.outputReasoning * (pricing.internal_reasoning || 0)
+        : undefined;
+
+/**
+ * Adds the cost of a token usage to a running total. The total stays
+ * `undefined` once a usage of an unpriced model was added, as a partial sum
+ * would understate the cost.
+ */
+export const addTokenCost = (
+    total: number | undefined,
+    usage: PricedTokenUsage,
+    pricing?: ModelPricing,
+): number | undefined => {
+    const cost = calculateTokenCost(usage, pricing);
+
+    return total === undefined || cost === undefined ? undefined : total + cost;
 };
 
 @Injectable()
@@ -42,6 +78,38 @@ export class TokenPricingUseCase {
         }
     }
 
+    /**
+     * Fetches the pricing of each model, leaving out the models without a
+     * public price (self-hosted and unlisted ones).
+     */
+    async getPricingByModel(
+        models: Iterable<string>,
+    ): Promise<Map<string, ModelPricing>> {
+        const pricingByModel = new Map<string, ModelPricing>();
+
+        for (const model of new Set(models)) {
+            if (!model) {
+                continue;
+            }
+
+            try {
+                const info = await this.execute(model);
+
+                if (info?.pricing) {
+                    pricingByModel.set(model, info.pricing);
+                }
+            } catch (error) {
+                this.logger.warn({
+                    message: `No pricing found for model ${model}`,
+                    context: TokenPricingUseCase.name,
+                    error,
+                });
+            }
+        }
+
+        return pricingByModel;
+    }
+
     private async getPricingData() {
         const cached =
             await this.cacheService.getFromCache<ModelInfo[]>('token-pricing');
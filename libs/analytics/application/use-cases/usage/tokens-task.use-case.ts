@@ -0,0 +1,66 @@
+import { getLLMTask } from '@kodus/kodus-common/llm';
+import { Inject, Injectable } from '@nestjs/common';
+
+import {
+    TOKEN_USAGE_SERVICE_TOKEN,
+    ITokenUsageService,
+} from '@libs/analytics/domain/token-usage/contracts/tokenUsage.service.contract';
+import {
+    TokenUsageQueryContract,
+    UsageByTaskResultContract,
+} from '@libs/analytics/domain/token-usage/types/tokenUsage.types';
+
+import {
+    calculateTokenCost,
+    TokenPricingUseCase,
+} from './token-pricing.use-case';
+
+const OTHER_TASK = 'other';
+
+@Injectable()
+export class TokensByTaskUseCase {
+    constructor(
+        @Inject(TOKEN_USAGE_SERVICE_TOKEN)
+        private readonly tokenUsageService: ITokenUsageService,
+
+        private readonly tokenPricingUseCase: TokenPricingUseCase,
+    ) {}
+
+    async execute(
+        query: TokenUsageQueryContract,
+    ): Promise<UsageByTaskResultContract[]> {
+        const usages = await this.tokenUsageService.getUsageByRunName(query);
+
+        const grouped = new Map<string, UsageByTaskResultContract>();
+
+        for (const { runName, ...usage } of usages) {
+            const task = getLLMTask(runName) ?? OTHER_TASK;
+            const key = `${task}-${usage.model}`;
+            const existing = grouped.get(key);
+
+            if (!existing) {
+                grouped.set(key, { task, ...usage });
+                continue;
+            }
+
+            existing.input += usage.input;
+            existing.output += usage.output;
+            existing.total += usage.total;
+            existing.outputReasoning += usage.outputReasoning;
+        }
+
+        const pricingByModel = await this.tokenPricingUseCase.getPricingByModel(
+            [...grouped.values()].map((usage) => usage.model),
+        );
+
+        return [...grouped.values()].map((usage) => {
+            const pricing = pricingByModel.get(usage.model);
+
+            if (!pricing) {
+                return usage;
+            }
+
+            return { ...usage, cost: calculateTokenCost(usage, pricing) };
+        });
+    }
+}
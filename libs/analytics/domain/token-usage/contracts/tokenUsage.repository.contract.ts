@@ -4,6 +4,8 @@ import {
     UsageSummaryContract,
     DailyUsageByPrResultContract,
     UsageByPrResultContract,
+    UsageByRunNameResultContract,
+    UsageByCorrelationIdResultContract,
 } from '../types/tokenUsage.types';
 
 export const TOKEN_USAGE_REPOSITORY_TOKEN = Symbol.for('TokenUsageRepository');
@@ -22,4 +24,13 @@ export interface ITokenUsageRepository {
     getDailyUsageByPr(
         query: TokenUsageQueryContract,
     ): Promise<DailyUsageByPrResultContract[]>;
+
+    getUsageByRunName(
+        query: TokenUsageQueryContract,
+    ): Promise<UsageByRunNameResultContract[]>;
+
+    getUsageByCorrelationIds(params: {
+        organizationId: string;
+        correlationIds: string[];
+    }): Promise<UsageByCorrelationIdResultContract[]>;
 }
@@ -31,6 +31,21 @@ export interface DailyUsageByPrResultContract extends UsageByPrResultContract {
     date: string; // YYYY-MM-DD
 }
 
+export interface UsageByRunNameResultContract extends BaseUsageContract {
+    runName: string;
+}
+
+export interface UsageByCorrelationIdResultContract extends BaseUsageContract {
+    correlationId: string;
+}
+
+export interface UsageByTaskResultContract extends BaseUsageContract {
+    /** `LLMTask` of the runs, or `other` for runs outside the routing table. */
+    task: string;
+    /** In USD, when the model price is known. */
+    cost?: number;
+}
+
 export interface UsageByDeveloperResultContract extends BaseUsageContract {
     developer: string;
 }
@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, PipelineStage } from 'mongoose';
 
 import { ITokenUsageRepository } from '@libs/analytics/domain/token-usage/contracts/tokenUsage.repository.contract';
 import {
@@ -8,6 +8,8 @@ import {
     DailyUsageResultContract,
     TokenUsageQueryContract,
     UsageByPrResultContract,
+    UsageByCorrelationIdResultContract,
+    UsageByRunNameResultContract,
     UsageSummaryContract,
 } from '@libs/analytics/domain/token-usage/types/tokenUsage.types';
 
@@ -300,4 +302,77 @@ export class TokenUsageRepository implements ITokenUsageRepository {
             .aggregate<DailyUsageByPrResultContract>(pipeline)
             .exec();
     }
+
+    async getUsageByRunName(
+        query: TokenUsageQueryContract,
+    ): Promise<UsageByRunNameResultContract[]> {
+        const pipeline = this._createUsageAggregationPipeline({
+            query,
+            groupById: {
+                runName: {
+                    $getField: {
+                        field: 'gen_ai.run.name',
+                        input: '$attributes',
+                    },
+                },
+            },
+            projectStage: {
+                runName: '$_id.runName',
+            },
+            sortStage: { runName: 1, model: 1 },
+        });
+
+        return this.observabilityTelemetryModel
+            .aggregate<UsageByRunNameResultContract>(pipeline)
+            .exec();
+    }
+
+    /**
+     * Usage of specific executions (e.g. dry runs), regardless of date range
+     * or BYOK, grouped by correlation id and model.
+     */
+    async getUsageByCorrelationIds(params: {
+        organizationId: string;
+        correlationIds: string[];
+    }): Promise<UsageByCorrelationIdResultContract[]> {
+        if (!params.correlationIds?.length) {
+            return [];
+        }
+
+        const pipeline: PipelineStage[] = [
+            {
+                $match: {
+                    'attributes.organizationId': params.organizationId,
+                    'correlationId': { $in: params.correlationIds },
+                },
+            },
+            {
+                $group: {
+                    _id: {
+                        correlationId: '$correlationId',
+                        model: {
+                            $getField: {
+                                field: 'gen_ai.response.model',
+                                input: '$attributes',
+                            },
+                        },
+                    },
+                    ...this.GROUP_ACCUMULATORS,
+                },
+            },
+            {
+                $project: {
+                    ...this.GROUP_ACCUMULATORS_PROJECT_STAGE,
+                    _id: 0,
+                    model: '$_id.model',
+                    correlationId: '$_id.correlationId',
+                },
+            },
+            { $sort: { correlationId: 1, model: 1 } },
+        ];
+
+        return this.observabilityTelemetryModel
+            .aggregate<UsageByCorrelationIdResultContract>(pipeline)
+            .exec();
+    }
 }
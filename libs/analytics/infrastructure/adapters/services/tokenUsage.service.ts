@@ -8,6 +8,8 @@ import {
     DailyUsageResultContract,
     TokenUsageQueryContract,
     UsageByPrResultContract,
+    UsageByCorrelationIdResultContract,
+    UsageByRunNameResultContract,
     UsageSummaryContract,
 } from '@libs/analytics/domain/token-usage/types/tokenUsage.types';
 import { Inject, Injectable } from '@nestjs/common';
@@ -42,4 +44,17 @@ export class TokenUsageService implements ITokenUsageService {
     ): Promise<DailyUsageByPrResultContract[]> {
         return this.repository.getDailyUsageByPr(query);
     }
+
+    async getUsageByRunName(
+        query: TokenUsageQueryContract,
+    ): Promise<UsageByRunNameResultContract[]> {
+        return this.repository.getUsageByRunName(query);
+    }
+
+    async getUsageByCorrelationIds(params: {
+        organizationId: string;
+        correlationIds: string[];
+    }): Promise<UsageByCorrelationIdResultContract[]> {
+        return this.repository.getUsageByCorrelationIds(params);
+    }
 }
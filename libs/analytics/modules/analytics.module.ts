@@ -10,6 +10,7 @@ import { TokenUsageService } from '../infrastructure/adapters/services/tokenUsag
 import { TrackUseCase } from '../application/use-cases/segment/track.use-case';
 import { TokenPricingUseCase } from '../application/use-cases/usage/token-pricing.use-case';
 import { TokensByDeveloperUseCase } from '../application/use-cases/usage/tokens-developer.use-case';
+import { TokensByTaskUseCase } from '../application/use-cases/usage/tokens-task.use-case';
 import { CostEstimateUseCase } from '../application/use-cases/usage/cost-estimate.use-case';
 import {
     ObservabilityTelemetryModel,
@@ -36,6 +37,7 @@ import { PullRequestsModule } from '@libs/code-review/modules/pull-requests.modu
         TrackUseCase,
         TokenPricingUseCase,
         TokensByDeveloperUseCase,
+        TokensByTaskUseCase,
         CostEstimateUseCase,
     ],
     exports: [
@@ -43,6 +45,7 @@ import { PullRequestsModule } from '@libs/code-review/modules/pull-requests.modu
         TrackUseCase,
         TokenPricingUseCase,
         TokensByDeveloperUseCase,
+        TokensByTaskUseCase,
         CostEstimateUseCase,
     ],
 })
@@ -7,7 +7,9 @@ import {
     CliReviewResponse,
 } from '@libs/cli-review/domain/types/cli-review.types';
 import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import { CliReviewBaselineRequest } from '@libs/cli-review/domain/interfaces/cli-review-baseline.interface';
 import { CliInputConverter } from '@libs/cli-review/infrastructure/converters/cli-input.converter';
+import { CliOutputFormatter } from '@libs/cli-review/infrastructure/formatters/cli-output.formatter';
 import { CliReviewPipelineContext } from '@libs/cli-review/pipeline/context/cli-review-pipeline.context';
 import { CliReviewPipelineStrategy } from '@libs/cli-review/pipeline/strategy/cli-review-pipeline.strategy';
 import { PipelineExecutor } from '@libs/core/infrastructure/pipeline/services/pipeline-executor.service';
@@ -39,6 +41,7 @@ interface GitContext {
     remote?: string;
     branch?: string;
     commitSha?: string;
+    baseCommit?: string;
     inferredPlatform?: PlatformType;
     cliVersion?: string;
 }
@@ -61,6 +64,7 @@ export class ExecuteCliReviewUseCase implements IUseCase {
 
     constructor(
         private readonly converter: CliInputConverter,
+        private readonly outputFormatter: CliOutputFormatter,
         private readonly pipelineStrategy: CliReviewPipelineStrategy,
         @Inject(PARAMETERS_SERVICE_TOKEN)
         private readonly parametersService: IParametersService,
@@ -119,12 +123,15 @@ export class ExecuteCliReviewUseCase implements IUseCase {
                     },
                 });
 
-                return {
-                    summary: 'No files to analyze',
-                    issues: [],
-                    filesAnalyzed: 0,
-                    duration: Date.now() - startTime,
-                };
+                return this.outputFormatter.format(
+                    {
+                        summary: 'No files to analyze',
+                        issues: [],
+                        filesAnalyzed: 0,
+                        duration: Date.now() - startTime,
+                    },
+                    input.config?.format,
+                );
             }
 
             // 3. Load or create config
@@ -139,6 +146,11 @@ export class ExecuteCliReviewUseCase implements IUseCase {
                 isTrialMode,
                 startTime,
                 correlationId,
+                outputFormat: input.config?.format,
+                baseline: this.getBaselineRequest(
+                    params,
+                    organizationAndTeamData,
+                ),
 
                 // Required by CodeReviewPipelineContext (dummy values for CLI)
                 organizationAndTeamData,
@@ -264,6 +276,43 @@ export class ExecuteCliReviewUseCase implements IUseCase {
         }
     }
 
+    /**
+     * Incremental reviews need the branch and remote to find the baseline;
+     * trial reviews have no organization to store it under
+     */
+    private getBaselineRequest(
+        params: ExecuteCliReviewInput,
+        organizationAndTeamData: OrganizationAndTeamData,
+    ): CliReviewBaselineRequest | undefined {
+        const { input, isTrialMode, gitContext } = params;
+
+        if (!input.config?.incremental || isTrialMode) {
+            return undefined;
+        }
+
+        if (!gitContext?.branch || !gitContext?.remote) {
+            this.logger.warn({
+                message:
+                    'Incremental CLI review requested without branch or git remote, running a full review',
+                context: ExecuteCliReviewUseCase.name,
+                metadata: {
+                    organizationId: organizationAndTeamData.organizationId,
+                    branch: gitContext?.branch,
+                },
+            });
+            return undefined;
+        }
+
+        return {
+            organizationId: organizationAndTeamData.organizationId,
+            teamId: organizationAndTeamData.teamId,
+            repository: gitContext.remote,
+            branch: gitContext.branch,
+            baseCommit: gitContext.baseCommit,
+            commitSha: gitContext.commitSha,
+        };
+    }
+
     /**
      * Load user's code review configuration from database
      */
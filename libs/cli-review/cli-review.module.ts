@@ -1,4 +1,5 @@
 import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 
 // Pipeline
 import { CliReviewPipelineStrategy } from './pipeline/strategy/cli-review-pipeline.strategy';
@@ -10,8 +11,18 @@ import { ExecuteCliReviewUseCase } from './application/use-cases/execute-cli-rev
 
 // Services
 import { CliInputConverter } from './infrastructure/converters/cli-input.converter';
+import { CliOutputFormatter } from './infrastructure/formatters/cli-output.formatter';
 import { TrialRateLimiterService } from './infrastructure/services/trial-rate-limiter.service';
 import { AuthenticatedRateLimiterService } from './infrastructure/services/authenticated-rate-limiter.service';
+import { CliReviewBaselineService } from './infrastructure/services/cli-review-baseline.service';
+
+// Repositories
+import { CLI_REVIEW_BASELINE_REPOSITORY_TOKEN } from './domain/contracts/cli-review-baseline.repository.contract';
+import { CliReviewBaselineRepository } from './infrastructure/repositories/cli-review-baseline.repository';
+import {
+    CliReviewBaselineModel,
+    CliReviewBaselineSchema,
+} from './infrastructure/repositories/schemas/cli-review-baseline.model';
 
 // External dependencies
 import { CodeReviewPipelineModule } from '@libs/code-review/pipeline/code-review-pipeline.module';
@@ -27,6 +38,12 @@ import { LicenseModule } from '@libs/ee/license/license.module';
  */
 @Module({
     imports: [
+        MongooseModule.forFeature([
+            {
+                name: CliReviewBaselineModel.name,
+                schema: CliReviewBaselineSchema,
+            },
+        ]), // For incremental review baselines
         forwardRef(() => CodeReviewPipelineModule), // For reusing stages
         forwardRef(() => ParametersModule), // For config loading
         forwardRef(() => TeamModule), // For Team CLI Key validation
@@ -47,8 +64,16 @@ import { LicenseModule } from '@libs/ee/license/license.module';
 
         // Services
         CliInputConverter,
+        CliOutputFormatter,
         TrialRateLimiterService,
         AuthenticatedRateLimiterService,
+        CliReviewBaselineService,
+
+        // Repositories
+        {
+            provide: CLI_REVIEW_BASELINE_REPOSITORY_TOKEN,
+            useClass: CliReviewBaselineRepository,
+        },
     ],
     exports: [
         // Export use case and services for controllers
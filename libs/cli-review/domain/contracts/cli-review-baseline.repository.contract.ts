@@ -0,0 +1,22 @@
+import { CliReviewBaselineEntity } from '../entities/cli-review-baseline.entity';
+import {
+    CliReviewBaselineKey,
+    ICliReviewBaseline,
+} from '../interfaces/cli-review-baseline.interface';
+
+export const CLI_REVIEW_BASELINE_REPOSITORY_TOKEN = Symbol.for(
+    'CliReviewBaselineRepository',
+);
+
+export interface ICliReviewBaselineRepository {
+    findByKey(
+        key: CliReviewBaselineKey,
+    ): Promise<CliReviewBaselineEntity | null>;
+    upsert(
+        key: CliReviewBaselineKey,
+        data: Pick<
+            ICliReviewBaseline,
+            'baseCommit' | 'lastCommitSha' | 'issues'
+        >,
+    ): Promise<CliReviewBaselineEntity>;
+}
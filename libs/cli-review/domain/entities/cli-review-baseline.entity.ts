@@ -0,0 +1,94 @@
+import { Entity } from '@libs/core/domain/interfaces/entity';
+
+import { ICliReviewBaseline } from '../interfaces/cli-review-baseline.interface';
+
+export class CliReviewBaselineEntity implements Entity<ICliReviewBaseline> {
+    private readonly _uuid: string;
+    private readonly _createdAt: Date;
+    private readonly _updatedAt: Date;
+    private readonly _organizationId: string;
+    private readonly _teamId: string;
+    private readonly _repository: string;
+    private readonly _branch: string;
+    private readonly _baseCommit?: string;
+    private readonly _lastCommitSha?: string;
+    private readonly _issues: ICliReviewBaseline['issues'];
+
+    constructor(baseline: ICliReviewBaseline) {
+        this._uuid = baseline.uuid;
+        this._createdAt = baseline.createdAt;
+        this._updatedAt = baseline.updatedAt;
+        this._organizationId = baseline.organizationId;
+        this._teamId = baseline.teamId;
+        this._repository = baseline.repository;
+        this._branch = baseline.branch;
+        this._baseCommit = baseline.baseCommit;
+        this._lastCommitSha = baseline.lastCommitSha;
+        this._issues = baseline.issues ?? [];
+    }
+
+    toObject(): ICliReviewBaseline {
+        return {
+            uuid: this.uuid,
+            createdAt: this.createdAt,
+            updatedAt: this.updatedAt,
+            organizationId: this.organizationId,
+            teamId: this.teamId,
+            repository: this.repository,
+            branch: this.branch,
+            baseCommit: this.baseCommit,
+            lastCommitSha: this.lastCommitSha,
+            issues: this.issues,
+        };
+    }
+
+    toJson(): ICliReviewBaseline | Partial<ICliReviewBaseline> {
+        return this.toObject();
+    }
+
+    public static create(
+        baseline: ICliReviewBaseline,
+    ): CliReviewBaselineEntity {
+        return new CliReviewBaselineEntity(baseline);
+    }
+
+    get uuid(): string {
+        return this._uuid;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+
+    get organizationId(): string {
+        return this._organizationId;
+    }
+
+    get teamId(): string {
+        return this._teamId;
+    }
+
+    get repository(): string {
+        return this._repository;
+    }
+
+    get branch(): string {
+        return this._branch;
+    }
+
+    get baseCommit(): string | undefined {
+        return this._baseCommit;
+    }
+
+    get lastCommitSha(): string | undefined {
+        return this._lastCommitSha;
+    }
+
+    get issues(): ICliReviewBaseline['issues'] {
+        return [...this._issues];
+    }
+}
@@ -0,0 +1,32 @@
+import { CliReviewIssue } from '../types/cli-review.types';
+
+/**
+ * Identifies the branch a baseline belongs to. `repository` is the
+ * normalized git remote (e.g. `github.com/org/repo`).
+ */
+export interface CliReviewBaselineKey {
+    organizationId: string;
+    teamId: string;
+    repository: string;
+    branch: string;
+}
+
+export interface ICliReviewBaseline extends CliReviewBaselineKey {
+    uuid: string;
+    createdAt: Date;
+    updatedAt: Date;
+
+    baseCommit?: string;
+    lastCommitSha?: string;
+    /** Issues reported on the branch and not fixed yet. */
+    issues: CliReviewIssue[];
+}
+
+/**
+ * Branch and commits of an incremental review. A baseline recorded against
+ * another base commit is discarded, since the branch was rebased.
+ */
+export interface CliReviewBaselineRequest extends CliReviewBaselineKey {
+    baseCommit?: string;
+    commitSha?: string;
+}
@@ -1,3 +1,15 @@
+export enum CliOutputFormat {
+    JSON = 'json',
+    SARIF = 'sarif',
+    PATCH = 'patch',
+    CHECKSTYLE = 'checkstyle',
+    JUNIT = 'junit',
+}
+
+/**
+ * Replaces the lines `range.start`..`range.end` (1-based, inclusive, in the
+ * new version of the file) with `replacement`.
+ */
 export interface CliReviewIssueFix {
     range: {
         start: number;
@@ -18,6 +30,20 @@ export interface CliReviewIssue {
     ruleId?: string;
     fixable?: boolean;
     fix?: CliReviewIssueFix;
+    /** Stable across runs; set for incremental reviews. */
+    fingerprint?: string;
+}
+
+/**
+ * Result of comparing an incremental review against the branch baseline.
+ * `issues` of the response then only holds the new ones.
+ */
+export interface CliReviewIncrementalResult {
+    baseCommit?: string;
+    /** True when no baseline existed, or it was reset by a new base commit. */
+    isFirstRun: boolean;
+    openIssues: CliReviewIssue[];
+    fixedIssues: CliReviewIssue[];
 }
 
 export interface CliReviewResponse {
@@ -25,6 +51,10 @@ export interface CliReviewResponse {
     issues: CliReviewIssue[];
     filesAnalyzed: number;
     duration: number;
+    format?: CliOutputFormat;
+    /** The report rendered in `format`; absent for `json`. */
+    output?: string;
+    incremental?: CliReviewIncrementalResult;
 }
 
 export interface TrialCliReviewResponse extends CliReviewResponse {
@@ -52,6 +82,9 @@ export interface CliReviewConfig {
     rulesOnly?: boolean;
     fast?: boolean;
     files?: CliFileInput[];
+    format?: CliOutputFormat;
+    /** Only report issues not already reported for the branch. */
+    incremental?: boolean;
 }
 
 export interface CliReviewInput {
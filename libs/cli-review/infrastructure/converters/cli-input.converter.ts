@@ -7,6 +7,7 @@ import {
     CliReviewInput,
     CliReviewResponse,
     CliReviewIssue,
+    CliReviewIssueFix,
 } from '@libs/cli-review/domain/types/cli-review.types';
 import { convertToHunksWithLinesNumbers } from '@libs/common/utils/patch';
 import { createLogger } from '@kodus/flow';
@@ -116,18 +117,23 @@ export class CliInputConverter {
         filesAnalyzed: number,
         startTime: number,
     ): CliReviewResponse {
-        const issues: CliReviewIssue[] = validSuggestions.map((suggestion) => ({
-            file: suggestion.relevantFile || '',
-            line: suggestion.relevantLinesStart || 0,
-            endLine: suggestion.relevantLinesEnd,
-            severity: this.mapSeverity(suggestion.severity),
-            category: this.mapCategory(suggestion.label),
-            message: suggestion.suggestionContent || '',
-            suggestion: suggestion.improvedCode,
-            recommendation: (suggestion as any).recommendation,
-            ruleId: suggestion.brokenKodyRulesIds?.[0],
-            fixable: false, // TODO: Implement fix detection based on improvedCode
-        }));
+        const issues: CliReviewIssue[] = validSuggestions.map((suggestion) => {
+            const fix = this.buildFix(suggestion);
+
+            return {
+                file: suggestion.relevantFile || '',
+                line: suggestion.relevantLinesStart || 0,
+                endLine: suggestion.relevantLinesEnd,
+                severity: this.mapSeverity(suggestion.severity),
+                category: this.mapCategory(suggestion.label),
+                message: suggestion.suggestionContent || '',
+                suggestion: suggestion.improvedCode,
+                recommendation: (suggestion as any).recommendation,
+                ruleId: suggestion.brokenKodyRulesIds?.[0],
+                fixable: !!fix,
+                ...(fix && { fix }),
+            };
+        });
 
         const duration = Date.now() - startTime;
         const summary = this.generateSummary(issues, filesAnalyzed);
@@ -142,6 +148,31 @@ export class CliInputConverter {
 
     // ===== Helper Methods =====
 
+    /**
+     * A suggestion is fixable when its improved code can replace the
+     * suggested line range as-is
+     */
+    private buildFix(
+        suggestion: Partial<CodeSuggestion>,
+    ): CliReviewIssueFix | undefined {
+        const start = suggestion.relevantLinesStart;
+        const end = suggestion.relevantLinesEnd ?? start;
+        const replacement = suggestion.improvedCode?.replace(/\r?\n$/, '');
+
+        if (!start || !end || end < start || !replacement?.trim()) {
+            return undefined;
+        }
+
+        if (replacement.trim() === suggestion.existingCode?.trim()) {
+            return undefined;
+        }
+
+        return {
+            range: { start, end },
+            replacement,
+        };
+    }
+
     /**
      * Remove context sections added by CLI (.cursorrules, claude.md, etc)
      */
@@ -259,7 +290,7 @@ export class CliInputConverter {
     /**
      * Generate summary message based on issues found
      */
-    private generateSummary(
+    generateSummary(
         issues: CliReviewIssue[],
         filesAnalyzed: number,
     ): string {
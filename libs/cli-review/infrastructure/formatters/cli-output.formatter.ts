@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+
+import {
+    CliOutputFormat,
+    CliReviewResponse,
+} from '@libs/cli-review/domain/types/cli-review.types';
+import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+import { formatPatch } from './patch.formatter';
+import { formatSarif } from './sarif.formatter';
+import { formatCheckstyle, formatJUnit } from './xml.formatter';
+
+/**
+ * Renders a CLI review response in the output format requested by the CLI,
+ * so it can be handed as-is to IDE problem panels and CI annotations
+ */
+@Injectable()
+export class CliOutputFormatter {
+    format(
+        response: CliReviewResponse,
+        format: CliOutputFormat = CliOutputFormat.JSON,
+        changedFiles: FileChange[] = [],
+    ): CliReviewResponse {
+        if (format === CliOutputFormat.JSON) {
+            return { ...response, format };
+        }
+
+        return {
+            ...response,
+            format,
+            output: this.render(response, format, changedFiles),
+        };
+    }
+
+    private render(
+        response: CliReviewResponse,
+        format: CliOutputFormat,
+        changedFiles: FileChange[],
+    ): string {
+        switch (format) {
+            case CliOutputFormat.SARIF:
+                return formatSarif(response);
+            case CliOutputFormat.PATCH:
+                return formatPatch(response.issues, changedFiles);
+            case CliOutputFormat.CHECKSTYLE:
+                return formatCheckstyle(response);
+            case CliOutputFormat.JUNIT:
+                return formatJUnit(
+                    response,
+                    changedFiles.map((file) => file.filename),
+                );
+            default:
+                throw new Error(`Unsupported CLI output format: ${format}`);
+        }
+    }
+}
@@ -0,0 +1,173 @@
+import {
+    CliReviewIssue,
+    CliReviewIssueFix,
+} from '@libs/cli-review/domain/types/cli-review.types';
+import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+import {
+    FileLines,
+    getFileLines,
+    getLineRange,
+} from '../utils/file-lines.utils';
+
+const CONTEXT_LINES = 3;
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+interface FixGroup {
+    fixes: CliReviewIssueFix[];
+    from: number;
+    to: number;
+}
+
+/**
+ * Renders every fixable issue as a single unified diff that can be applied
+ * with `git apply` on top of the reviewed working tree. Overlapping fixes
+ * keep the first one, and fixes on lines that are not known are skipped.
+ */
+export function formatPatch(
+    issues: CliReviewIssue[],
+    files: FileChange[],
+): string {
+    const filesByName = new Map(files.map((file) => [file.filename, file]));
+    const fixesByFile = new Map<string, CliReviewIssueFix[]>();
+
+    for (const issue of issues) {
+        if (!issue.fix) {
+            continue;
+        }
+
+        const fixes = fixesByFile.get(issue.file) ?? [];
+        fixes.push(issue.fix);
+        fixesByFile.set(issue.file, fixes);
+    }
+
+    const diffs: string[] = [];
+
+    for (const [filename, fixes] of fixesByFile) {
+        const file = filesByName.get(filename);
+
+        if (!file || file.status === 'removed') {
+            continue;
+        }
+
+        const hunks = buildHunks(getFileLines(file), fixes);
+
+        if (!hunks.length) {
+            continue;
+        }
+
+        diffs.push(
+            [
+                `diff --git a/${filename} b/${filename}`,
+                `--- a/${filename}`,
+                `+++ b/${filename}`,
+                ...hunks,
+            ].join('\n'),
+        );
+    }
+
+    return diffs.length ? `${diffs.join('\n')}\n` : '';
+}
+
+function buildHunks(fileLines: FileLines, fixes: CliReviewIssueFix[]) {
+    const { lines } = fileLines;
+    const groups: FixGroup[] = [];
+    let lastEnd = 0;
+
+    const sortedFixes = [...fixes].sort(
+        (a, b) => a.range.start - b.range.start,
+    );
+
+    for (const fix of sortedFixes) {
+        const { start, end } = fix.range;
+
+        if (start <= lastEnd || !getLineRange(fileLines, start, end)) {
+            continue;
+        }
+
+        lastEnd = end;
+
+        let from = start;
+        while (from > start - CONTEXT_LINES && lines.has(from - 1)) {
+            from--;
+        }
+
+        let to = end;
+        while (to < end + CONTEXT_LINES && lines.has(to + 1)) {
+            to++;
+        }
+
+        const previous = groups[groups.length - 1];
+
+        // Context windows are contiguous known lines, so touching windows
+        // leave no unknown line between the two fixes
+        if (previous && from <= previous.to + 1) {
+            previous.fixes.push(fix);
+            previous.to = to;
+        } else {
+            groups.push({ fixes: [fix], from, to });
+        }
+    }
+
+    let offset = 0;
+
+    return groups.map((group) => {
+        const hunk = renderGroup(fileLines, group);
+        const header = `@@ -${group.from},${hunk.oldCount} +${group.from + offset},${hunk.newCount} @@`;
+
+        offset += hunk.newCount - hunk.oldCount;
+
+        return [header, ...hunk.lines].join('\n');
+    });
+}
+
+function renderGroup(
+    { lines, lastLineWithoutNewline }: FileLines,
+    group: FixGroup,
+) {
+    const output: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let fixIndex = 0;
+
+    for (let lineNumber = group.from; lineNumber <= group.to; lineNumber++) {
+        const fix = group.fixes[fixIndex];
+        const isLastLine = lineNumber === lastLineWithoutNewline;
+
+        if (fix?.range.start !== lineNumber) {
+            output.push(` ${lines.get(lineNumber)}`);
+            oldCount++;
+            newCount++;
+
+            if (isLastLine) {
+                output.push(NO_NEWLINE_MARKER);
+            }
+            continue;
+        }
+
+        for (let line = fix.range.start; line <= fix.range.end; line++) {
+            output.push(`-${lines.get(line)}`);
+            oldCount++;
+        }
+
+        const endsAtLastLine = fix.range.end === lastLineWithoutNewline;
+
+        if (endsAtLastLine) {
+            output.push(NO_NEWLINE_MARKER);
+        }
+
+        for (const line of fix.replacement.split('\n')) {
+            output.push(`+${line}`);
+            newCount++;
+        }
+
+        if (endsAtLastLine) {
+            output.push(NO_NEWLINE_MARKER);
+        }
+
+        lineNumber = fix.range.end;
+        fixIndex++;
+    }
+
+    return { lines: output, oldCount, newCount };
+}
@@ -0,0 +1,131 @@
+import {
+    CliReviewIssue,
+    CliReviewResponse,
+} from '@libs/cli-review/domain/types/cli-review.types';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+const SARIF_LEVELS: Record<string, SarifLevel> = {
+    critical: 'error',
+    error: 'error',
+    warning: 'warning',
+    info: 'note',
+};
+
+/**
+ * Rule id reported for an issue: the broken Kody Rule when there is one,
+ * otherwise the issue category.
+ */
+export function getIssueRuleId(issue: CliReviewIssue): string {
+    return issue.ruleId || `kodus/${issue.category || 'general'}`;
+}
+
+/**
+ * Renders the review as a SARIF 2.1.0 log with a single run. Fixes replace
+ * whole lines, so the deleted region always spans from the first column of
+ * `range.start` to the first column of the line after `range.end`.
+ */
+export function formatSarif(response: CliReviewResponse): string {
+    const rules = new Map<string, CliReviewIssue>();
+
+    for (const issue of response.issues) {
+        const ruleId = getIssueRuleId(issue);
+        if (!rules.has(ruleId)) {
+            rules.set(ruleId, issue);
+        }
+    }
+
+    const log = {
+        $schema: SARIF_SCHEMA,
+        version: '2.1.0',
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: 'Kodus',
+                        informationUri: 'https://kodus.io',
+                        rules: [...rules.entries()].map(([id, issue]) => ({
+                            id,
+                            shortDescription: {
+                                text: issue.ruleId
+                                    ? `Kody Rule ${issue.ruleId}`
+                                    : issue.category || 'general',
+                            },
+                            defaultConfiguration: {
+                                level: getSarifLevel(issue.severity),
+                            },
+                            ...(issue.category && {
+                                properties: { tags: [issue.category] },
+                            }),
+                        })),
+                    },
+                },
+                results: response.issues.map((issue) => toSarifResult(issue)),
+            },
+        ],
+    };
+
+    return JSON.stringify(log, null, 2);
+}
+
+function toSarifResult(issue: CliReviewIssue) {
+    const artifactLocation = { uri: issue.file };
+    const startLine = Math.max(issue.line, 1);
+
+    return {
+        ruleId: getIssueRuleId(issue),
+        level: getSarifLevel(issue.severity),
+        message: { text: issue.message },
+        locations: [
+            {
+                physicalLocation: {
+                    artifactLocation,
+                    region: {
+                        startLine,
+                        endLine: Math.max(
+                            issue.endLine ?? startLine,
+                            startLine,
+                        ),
+                    },
+                },
+            },
+        ],
+        ...(issue.fix && {
+            fixes: [
+                {
+                    description: {
+                        text: issue.recommendation || 'Apply suggested fix',
+                    },
+                    artifactChanges: [
+                        {
+                            artifactLocation,
+                            replacements: [
+                                {
+                                    deletedRegion: {
+                                        startLine: issue.fix.range.start,
+                                        startColumn: 1,
+                                        endLine: issue.fix.range.end + 1,
+                                        endColumn: 1,
+                                    },
+                                    insertedContent: {
+                                        text: `${issue.fix.replacement}\n`,
+                                    },
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        }),
+        properties: {
+            severity: issue.severity,
+            ...(issue.category && { category: issue.category }),
+        },
+    };
+}
+
+function getSarifLevel(severity: string): SarifLevel {
+    return SARIF_LEVELS[severity] || 'warning';
+}
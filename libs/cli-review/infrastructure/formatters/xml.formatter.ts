@@ -0,0 +1,129 @@
+import {
+    CliReviewIssue,
+    CliReviewResponse,
+} from '@libs/cli-review/domain/types/cli-review.types';
+
+import { getIssueRuleId } from './sarif.formatter';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+
+const CHECKSTYLE_SEVERITIES: Record<string, string> = {
+    critical: 'error',
+    error: 'error',
+    warning: 'warning',
+    info: 'info',
+};
+
+/**
+ * Renders the review as a Checkstyle report, grouping issues by file.
+ */
+export function formatCheckstyle(response: CliReviewResponse): string {
+    const lines = [XML_HEADER, '<checkstyle version="4.3">'];
+
+    for (const [file, issues] of groupByFile(response.issues)) {
+        lines.push(`  <file name="${escapeXml(file)}">`);
+
+        for (const issue of issues) {
+            const severity = CHECKSTYLE_SEVERITIES[issue.severity] || 'warning';
+            lines.push(
+                `    <error line="${issue.line}" severity="${severity}" message="${escapeXml(issue.message)}" source="${escapeXml(getIssueRuleId(issue))}"/>`,
+            );
+        }
+
+        lines.push('  </file>');
+    }
+
+    lines.push('</checkstyle>');
+
+    return lines.join('\n');
+}
+
+/**
+ * Renders the review as a JUnit report: one test suite per file and one
+ * failing test case per issue. Analyzed files without issues get a single
+ * passing test case so CI dashboards show them as checked.
+ */
+export function formatJUnit(
+    response: CliReviewResponse,
+    analyzedFiles: string[] = [],
+): string {
+    const issuesByFile = groupByFile(response.issues);
+
+    for (const file of analyzedFiles) {
+        if (!issuesByFile.has(file)) {
+            issuesByFile.set(file, []);
+        }
+    }
+
+    const failures = response.issues.length;
+    const tests = [...issuesByFile.values()].reduce(
+        (total, issues) => total + Math.max(issues.length, 1),
+        0,
+    );
+    const time = (response.duration / 1000).toFixed(3);
+
+    const lines = [
+        XML_HEADER,
+        `<testsuites name="Kodus Review" tests="${tests}" failures="${failures}" time="${time}">`,
+    ];
+
+    for (const [file, issues] of issuesByFile) {
+        const name = escapeXml(file);
+
+        lines.push(
+            `  <testsuite name="${name}" tests="${Math.max(issues.length, 1)}" failures="${issues.length}">`,
+        );
+
+        if (!issues.length) {
+            lines.push(`    <testcase name="review" classname="${name}"/>`);
+        }
+
+        for (const issue of issues) {
+            const details = [issue.message, issue.suggestion]
+                .filter(Boolean)
+                .join('\n\n');
+
+            lines.push(
+                `    <testcase name="${escapeXml(`line ${issue.line}: ${getIssueRuleId(issue)}`)}" classname="${name}">`,
+                `      <failure message="${escapeXml(firstLine(issue.message))}" type="${escapeXml(issue.severity)}">${escapeXml(details)}</failure>`,
+                '    </testcase>',
+            );
+        }
+
+        lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+
+    return lines.join('\n');
+}
+
+function groupByFile(issues: CliReviewIssue[]): Map<string, CliReviewIssue[]> {
+    const grouped = new Map<string, CliReviewIssue[]>();
+
+    for (const issue of issues) {
+        const fileIssues = grouped.get(issue.file) ?? [];
+        fileIssues.push(issue);
+        grouped.set(issue.file, fileIssues);
+    }
+
+    return grouped;
+}
+
+function firstLine(text: string): string {
+    return text.split('\n').find((line) => line.trim()) ?? '';
+}
+
+function escapeXml(value: string): string {
+    return (
+        (value ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;')
+            // Control characters are not allowed in XML 1.0
+            // eslint-disable-next-line no-control-regex
+            .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    );
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { ICliReviewBaselineRepository } from '@libs/cli-review/domain/contracts/cli-review-baseline.repository.contract';
+import { CliReviewBaselineEntity } from '@libs/cli-review/domain/entities/cli-review-baseline.entity';
+import {
+    CliReviewBaselineKey,
+    ICliReviewBaseline,
+} from '@libs/cli-review/domain/interfaces/cli-review-baseline.interface';
+import { mapSimpleModelToEntity } from '@libs/core/infrastructure/repositories/mappers';
+
+import { CliReviewBaselineModel } from './schemas/cli-review-baseline.model';
+
+@Injectable()
+export class CliReviewBaselineRepository implements ICliReviewBaselineRepository {
+    constructor(
+        @InjectModel(CliReviewBaselineModel.name)
+        private readonly baselineModel: Model<CliReviewBaselineModel>,
+    ) {}
+
+    async findByKey(
+        key: CliReviewBaselineKey,
+    ): Promise<CliReviewBaselineEntity | null> {
+        const baseline = await this.baselineModel.findOne(key).exec();
+
+        return mapSimpleModelToEntity(baseline, CliReviewBaselineEntity);
+    }
+
+    async upsert(
+        key: CliReviewBaselineKey,
+        data: Pick<
+            ICliReviewBaseline,
+            'baseCommit' | 'lastCommitSha' | 'issues'
+        >,
+    ): Promise<CliReviewBaselineEntity> {
+        const baseline = await this.baselineModel
+            .findOneAndUpdate(key, { $set: data }, { upsert: true, new: true })
+            .exec();
+
+        return mapSimpleModelToEntity(baseline, CliReviewBaselineEntity);
+    }
+}
@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { CliReviewIssue } from '@libs/cli-review/domain/types/cli-review.types';
+import { CoreDocument } from '@libs/core/infrastructure/repositories/model/mongodb';
+
+@Schema({
+    collection: 'cliReviewBaselines',
+    timestamps: true,
+    autoIndex: true,
+})
+export class CliReviewBaselineModel extends CoreDocument {
+    @Prop({ type: String, required: true })
+    public organizationId: string;
+
+    @Prop({ type: String, required: true })
+    public teamId: string;
+
+    @Prop({ type: String, required: true })
+    public repository: string;
+
+    @Prop({ type: String, required: true })
+    public branch: string;
+
+    @Prop({ type: String, required: false })
+    public baseCommit?: string;
+
+    @Prop({ type: String, required: false })
+    public lastCommitSha?: string;
+
+    @Prop({ type: Array, default: [] })
+    public issues: CliReviewIssue[];
+}
+
+export const CliReviewBaselineSchema = SchemaFactory.createForClass(
+    CliReviewBaselineModel,
+);
+
+CliReviewBaselineSchema.index(
+    { organizationId: 1, teamId: 1, repository: 1, branch: 1 },
+    { unique: true, name: 'cli_review_baseline_branch' },
+);
@@ -0,0 +1,212 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+
+import {
+    CLI_REVIEW_BASELINE_REPOSITORY_TOKEN,
+    ICliReviewBaselineRepository,
+} from '@libs/cli-review/domain/contracts/cli-review-baseline.repository.contract';
+import {
+    CliReviewBaselineKey,
+    CliReviewBaselineRequest,
+} from '@libs/cli-review/domain/interfaces/cli-review-baseline.interface';
+import {
+    CliReviewIncrementalResult,
+    CliReviewIssue,
+} from '@libs/cli-review/domain/types/cli-review.types';
+import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+import {
+    FileLines,
+    getFileLines,
+    getLineRange,
+} from '../utils/file-lines.utils';
+
+export interface CliReviewBaselineComparison {
+    newIssues: CliReviewIssue[];
+    incremental: CliReviewIncrementalResult;
+}
+
+/**
+ * Keeps a per-branch baseline of the issues already reported to the CLI, so
+ * repeated reviews of the same branch only report what is new.
+ *
+ * Issues are matched by fingerprint: file, rule (or category) and the
+ * whitespace-normalized code they point at. Line numbers are left out, so
+ * an issue survives edits above it.
+ */
+@Injectable()
+export class CliReviewBaselineService {
+    private readonly logger = createLogger(CliReviewBaselineService.name);
+
+    constructor(
+        @Inject(CLI_REVIEW_BASELINE_REPOSITORY_TOKEN)
+        private readonly baselineRepository: ICliReviewBaselineRepository,
+    ) {}
+
+    async compareWithBaseline(
+        request: CliReviewBaselineRequest,
+        issues: CliReviewIssue[],
+        changedFiles: FileChange[],
+    ): Promise<CliReviewBaselineComparison> {
+        const key = this.buildKey(request);
+        const analyzedFiles = new Set(
+            changedFiles.map((file) => file.filename),
+        );
+        const fileLinesByName = new Map(
+            changedFiles
+                .filter((file) => file.status !== 'removed')
+                .map((file) => [file.filename, getFileLines(file)]),
+        );
+
+        const currentIssues: CliReviewIssue[] = issues.map((issue) => ({
+            ...issue,
+            fingerprint: this.getFingerprint(
+                issue,
+                fileLinesByName.get(issue.file),
+            ),
+        }));
+
+        const baseline = await this.baselineRepository.findByKey(key);
+        const isFirstRun =
+            !baseline ||
+            (!!request.baseCommit &&
+                !!baseline.baseCommit &&
+                request.baseCommit !== baseline.baseCommit);
+
+        const previousIssues = isFirstRun ? [] : baseline.issues;
+        const previousFingerprints = new Set(
+            previousIssues.map((issue) => issue.fingerprint),
+        );
+        const currentFingerprints = new Set(
+            currentIssues.map((issue) => issue.fingerprint),
+        );
+
+        const newIssues = currentIssues.filter(
+            (issue) => !previousFingerprints.has(issue.fingerprint),
+        );
+        const openIssues = currentIssues.filter((issue) =>
+            previousFingerprints.has(issue.fingerprint),
+        );
+        const fixedIssues: CliReviewIssue[] = [];
+
+        // The LLM does not report every issue on every run: an issue that was
+        // not reported again is only fixed once its code is gone, and files
+        // left out of this run keep their issues as they were
+        for (const issue of previousIssues) {
+            if (currentFingerprints.has(issue.fingerprint)) {
+                continue;
+            }
+
+            if (
+                !analyzedFiles.has(issue.file) ||
+                this.isStillPresent(issue, fileLinesByName.get(issue.file))
+            ) {
+                openIssues.push(issue);
+            } else {
+                fixedIssues.push(issue);
+            }
+        }
+
+        await this.baselineRepository.upsert(key, {
+            baseCommit: request.baseCommit ?? baseline?.baseCommit,
+            lastCommitSha: request.commitSha,
+            issues: [...openIssues, ...newIssues],
+        });
+
+        this.logger.log({
+            message: `Compared CLI review with baseline of branch ${key.branch}`,
+            context: CliReviewBaselineService.name,
+            metadata: {
+                ...key,
+                isFirstRun,
+                newIssues: newIssues.length,
+                openIssues: openIssues.length,
+                fixedIssues: fixedIssues.length,
+            },
+        });
+
+        return {
+            newIssues,
+            incremental: {
+                baseCommit: request.baseCommit,
+                isFirstRun,
+                openIssues,
+                fixedIssues,
+            },
+        };
+    }
+
+    private buildKey(request: CliReviewBaselineRequest): CliReviewBaselineKey {
+        return {
+            organizationId: request.organizationId,
+            teamId: request.teamId,
+            repository: this.normalizeRemote(request.repository),
+            branch: request.branch,
+        };
+    }
+
+    /**
+     * `git@github.com:org/repo.git` and `https://user@github.com/org/repo`
+     * both become `github.com/org/repo`.
+     */
+    private normalizeRemote(remote: string): string {
+        return remote
+            .trim()
+            .replace(/^[a-z+]+:\/\//i, '')
+            .replace(/^[^@/]+@/, '')
+            .replace(/^([^/:]+):(?!\d+\/)/, '$1/')
+            .replace(/\.git\/?$/, '')
+            .replace(/\/+$/, '')
+            .toLowerCase();
+    }
+
+    private isStillPresent(
+        issue: CliReviewIssue,
+        fileLines: FileLines | undefined,
+    ): boolean {
+        if (!fileLines) {
+            return false;
+        }
+
+        for (const line of fileLines.lines.keys()) {
+            if (
+                this.getFingerprint(issue, fileLines, line) ===
+                issue.fingerprint
+            ) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Falls back to the line number when the issue lines are not known,
+     * e.g. in fast mode for lines outside the diff hunks.
+     */
+    private getFingerprint(
+        issue: CliReviewIssue,
+        fileLines: FileLines | undefined,
+        start: number = issue.line,
+    ): string {
+        const length = Math.max((issue.endLine ?? issue.line) - issue.line, 0);
+        const code =
+            fileLines && getLineRange(fileLines, start, start + length);
+
+        const location = code
+            ? code.map((line) => line.trim().replace(/\s+/g, ' ')).join('\n')
+            : `line:${start}`;
+
+        return createHash('sha256')
+            .update(
+                [
+                    issue.file,
+                    issue.ruleId || issue.category || '',
+                    location,
+                ].join('\0'),
+            )
+            .digest('hex')
+            .substring(0, 16);
+    }
+}
@@ -0,0 +1,81 @@
+import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+const RE_HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Known lines of the new version of a file. In fast mode there is no file
+ * content, so only the lines present in the diff hunks are known.
+ */
+export interface FileLines {
+    lines: Map<number, string>;
+    /** Last line of the file when it has no trailing newline. */
+    lastLineWithoutNewline?: number;
+}
+
+export function getFileLines(file: FileChange): FileLines {
+    const content = file.fileContent ?? file.content;
+
+    if (typeof content === 'string') {
+        const contentLines = content.split('\n');
+        const hasTrailingNewline = content.endsWith('\n');
+
+        if (hasTrailingNewline) {
+            contentLines.pop();
+        }
+
+        return {
+            lines: new Map(
+                contentLines.map((line, index) => [index + 1, line]),
+            ),
+            lastLineWithoutNewline:
+                !hasTrailingNewline && contentLines.length
+                    ? contentLines.length
+                    : undefined,
+        };
+    }
+
+    const lines = new Map<number, string>();
+    let newLineNumber = 0;
+    let insideHunk = false;
+
+    for (const line of file.patch?.split('\n') ?? []) {
+        const match = line.match(RE_HUNK_HEADER);
+
+        if (match) {
+            newLineNumber = parseInt(match[1], 10);
+            insideHunk = true;
+            continue;
+        }
+
+        if (!insideHunk || line.startsWith('-') || line.startsWith('\\')) {
+            continue;
+        }
+
+        lines.set(newLineNumber, line.slice(1));
+        newLineNumber++;
+    }
+
+    return { lines };
+}
+
+/**
+ * Returns the lines `start`..`end`, or undefined when any of them is not
+ * known.
+ */
+export function getLineRange(
+    { lines }: FileLines,
+    start: number,
+    end: number,
+): string[] | undefined {
+    const range: string[] = [];
+
+    for (let line = start; line <= end; line++) {
+        if (!lines.has(line)) {
+            return undefined;
+        }
+
+        range.push(lines.get(line));
+    }
+
+    return range;
+}
@@ -1,5 +1,9 @@
+import { CliReviewBaselineRequest } from '@libs/cli-review/domain/interfaces/cli-review-baseline.interface';
 import { CodeReviewPipelineContext } from '@libs/code-review/pipeline/context/code-review-pipeline.context';
-import { CliReviewResponse } from '@libs/cli-review/domain/types/cli-review.types';
+import {
+    CliOutputFormat,
+    CliReviewResponse,
+} from '@libs/cli-review/domain/types/cli-review.types';
 
 /**
  * Pipeline context for CLI code review
@@ -12,5 +16,8 @@ export interface CliReviewPipelineContext extends CodeReviewPipelineContext {
     isTrialMode: boolean;
     startTime: number;
     correlationId: string;
+    outputFormat?: CliOutputFormat;
+    /** Set for incremental reviews, compared against the branch baseline. */
+    baseline?: CliReviewBaselineRequest;
     cliResponse?: CliReviewResponse;
 }
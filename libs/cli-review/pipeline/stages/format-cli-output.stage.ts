@@ -2,18 +2,27 @@ import { Injectable } from '@nestjs/common';
 import { BasePipelineStage } from '@libs/core/infrastructure/pipeline/abstracts/base-stage.abstract';
 import { CliReviewPipelineContext } from '../context/cli-review-pipeline.context';
 import { CliInputConverter } from '@libs/cli-review/infrastructure/converters/cli-input.converter';
+import { CliOutputFormatter } from '@libs/cli-review/infrastructure/formatters/cli-output.formatter';
+import { CliReviewBaselineService } from '@libs/cli-review/infrastructure/services/cli-review-baseline.service';
+import { CliReviewResponse } from '@libs/cli-review/domain/types/cli-review.types';
 import { createLogger } from '@kodus/flow';
 
 /**
  * Pipeline stage to format analysis results into CLI response format
- * Uses CliInputConverter to transform suggestions into CLI issues
+ * Uses CliInputConverter to transform suggestions into CLI issues and
+ * CliOutputFormatter to render them in the requested output format.
+ * Incremental reviews only keep the issues missing from the branch baseline
  */
 @Injectable()
 export class FormatCliOutputStage extends BasePipelineStage<CliReviewPipelineContext> {
     readonly stageName = 'FormatCliOutputStage';
     private readonly logger = createLogger(FormatCliOutputStage.name);
 
-    constructor(private readonly converter: CliInputConverter) {
+    constructor(
+        private readonly converter: CliInputConverter,
+        private readonly outputFormatter: CliOutputFormatter,
+        private readonly baselineService: CliReviewBaselineService,
+    ) {
         super();
     }
 
@@ -31,12 +40,20 @@ export class FormatCliOutputStage extends BasePipelineStage<CliReviewPipelineCon
         });
 
         // Convert pipeline results to CLI format
-        const cliResponse = this.converter.convertToCliResponse(
+        const fullResponse = this.converter.convertToCliResponse(
             context.validSuggestions,
             context.changedFiles.length,
             context.startTime,
         );
 
+        const cliResponse = this.outputFormatter.format(
+            context.baseline
+                ? await this.applyBaseline(context, fullResponse)
+                : fullResponse,
+            context.outputFormat,
+            context.changedFiles,
+        );
+
         this.logger.log({
             message: 'CLI response formatted successfully',
             context: this.stageName,
@@ -44,6 +61,7 @@ export class FormatCliOutputStage extends BasePipelineStage<CliReviewPipelineCon
                 correlationId: context.correlationId,
                 issuesCount: cliResponse.issues.length,
                 summary: cliResponse.summary,
+                format: cliResponse.format,
                 duration: cliResponse.duration,
             },
         });
@@ -52,4 +70,45 @@ export class FormatCliOutputStage extends BasePipelineStage<CliReviewPipelineCon
             draft.cliResponse = cliResponse;
         });
     }
+
+    /**
+     * Baseline failures fall back to the full review instead of failing it
+     */
+    private async applyBaseline(
+        context: CliReviewPipelineContext,
+        response: CliReviewResponse,
+    ): Promise<CliReviewResponse> {
+        try {
+            const { newIssues, incremental } =
+                await this.baselineService.compareWithBaseline(
+                    context.baseline,
+                    response.issues,
+                    context.changedFiles,
+                );
+
+            const summary = this.converter.generateSummary(
+                newIssues,
+                response.filesAnalyzed,
+            );
+
+            return {
+                ...response,
+                summary: `${summary} (${incremental.openIssues.length} still open, ${incremental.fixedIssues.length} fixed since last review)`,
+                issues: newIssues,
+                incremental,
+            };
+        } catch (error) {
+            this.logger.error({
+                message: 'Error comparing CLI review with branch baseline',
+                error,
+                context: this.stageName,
+                metadata: {
+                    correlationId: context.correlationId,
+                    branch: context.baseline.branch,
+                },
+            });
+
+            return response;
+        }
+    }
 }
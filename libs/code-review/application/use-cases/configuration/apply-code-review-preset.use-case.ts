@@ -1,17 +1,12 @@
 import { createLogger } from '@kodus/flow';
-import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import { applyReviewPreset } from '@libs/common/utils/codeReview/reviewPreset';
 import { getDefaultKodusConfigFile } from '@libs/common/utils/validateCodeReviewConfigFile';
 import {
     OrganizationParametersKey,
     ParametersKey,
 } from '@libs/core/domain/enums';
 import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
-import {
-    LimitationType,
-    ReviewCadenceType,
-    ReviewPreset,
-    SuggestionControlConfig,
-} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import { ReviewPreset } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 import { CodeReviewParameter } from '@libs/core/infrastructure/config/types/general/codeReviewConfig.type';
 import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
 import { UserRequest } from '@libs/core/infrastructure/config/types/http/user-request.type';
@@ -80,7 +75,10 @@ export class ApplyCodeReviewPresetUseCase implements IUseCase {
                     repositories: [],
                 } as CodeReviewParameter);
 
-            const updatedConfig = this.applyPreset(baseConfig, params.preset);
+            const updatedConfig: CodeReviewParameter = {
+                ...baseConfig,
+                configs: applyReviewPreset(baseConfig.configs, params.preset),
+            };
 
             await this.createOrUpdateParametersUseCase.execute(
                 ParametersKey.CODE_REVIEW_CONFIG,
@@ -112,98 +110,4 @@ export class ApplyCodeReviewPresetUseCase implements IUseCase {
             throw error;
         }
     }
-
-    private applyPreset(
-        baseConfig: CodeReviewParameter,
-        preset: ReviewPreset,
-    ): CodeReviewParameter {
-        const reviewOptions = { ...(baseConfig.configs.reviewOptions || {}) };
-        const suggestionControl: SuggestionControlConfig = {
-            ...(baseConfig.configs.suggestionControl || ({} as any)),
-        } as SuggestionControlConfig;
-        const v2PromptOverrides = {
-            ...(baseConfig.configs.v2PromptOverrides || {}),
-        };
-
-        switch (preset) {
-            case ReviewPreset.SPEED: {
-                reviewOptions.bug = true;
-                reviewOptions.security = true;
-                reviewOptions.performance = false;
-                reviewOptions.cross_file = false;
-
-                suggestionControl.limitationType = LimitationType.PR;
-                suggestionControl.maxSuggestions = 6;
-                suggestionControl.severityLevelFilter = SeverityLevel.CRITICAL;
-                suggestionControl.applyFiltersToKodyRules = true;
-
-                baseConfig.configs.reviewCadence = {
-                    type: ReviewCadenceType.MANUAL,
-                };
-                baseConfig.configs.runOnDraft = false;
-                break;
-            }
-
-            case ReviewPreset.SAFETY: {
-                Object.keys(reviewOptions).forEach((key) => {
-                    (reviewOptions as any)[key] = true;
-                });
-                reviewOptions.bug = true;
-                reviewOptions.security = true;
-                reviewOptions.performance = true;
-                reviewOptions.cross_file = true;
-
-                suggestionControl.limitationType = LimitationType.PR;
-                suggestionControl.maxSuggestions = 20;
-                suggestionControl.severityLevelFilter = SeverityLevel.MEDIUM;
-                suggestionControl.applyFiltersToKodyRules = false;
-
-                baseConfig.configs.reviewCadence = {
-                    type: ReviewCadenceType.AUTOMATIC,
-                };
-                baseConfig.configs.runOnDraft = false;
-                break;
-            }
-
-            case ReviewPreset.COACH: {
-                reviewOptions.bug = true;
-                reviewOptions.security = true;
-                reviewOptions.performance = true;
-                reviewOptions.cross_file = true;
-
-                suggestionControl.limitationType = LimitationType.PR;
-                suggestionControl.maxSuggestions = 12;
-                suggestionControl.severityLevelFilter = SeverityLevel.MEDIUM;
-                suggestionControl.applyFiltersToKodyRules = false;
-
-                baseConfig.configs.reviewCadence = {
-                    type: ReviewCadenceType.AUTOMATIC,
-                };
-                baseConfig.configs.runOnDraft = true;
-
-                v2PromptOverrides.generation = {
-                    ...v2PromptOverrides.generation,
-                    main: [
-                        'Adopt a coaching tone:',
-                        '- Explain briefly the why behind each issue.',
-                        '- Suggest how to validate (tests/checks).',
-                        '- Prefer concise examples.',
-                        '- Avoid nitpicks and group by priority.',
-                    ].join(' '),
-                };
-                break;
-            }
-        }
-
-        return {
-            ...baseConfig,
-            configs: {
-                ...baseConfig.configs,
-                automatedReviewActive: true,
-                reviewOptions,
-                suggestionControl: suggestionControl as any,
-                v2PromptOverrides,
-            },
-        };
-    }
 }
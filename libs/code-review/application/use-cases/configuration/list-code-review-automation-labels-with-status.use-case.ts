@@ -7,6 +7,7 @@ import {
     CODE_BASE_CONFIG_SERVICE_TOKEN,
     ICodeBaseConfigService,
 } from '@libs/code-review/domain/contracts/CodeBaseConfigService.contract';
+import { getCustomCategoryDisplayName } from '@libs/common/utils/codeManagement/labels';
 import { CodeReviewVersion } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 
 @Injectable()
@@ -77,7 +78,21 @@ export class ListCodeReviewAutomationLabelsWithStatusUseCase {
                 },
             } as const;
 
-            return { labels, overridesStatus };
+            // Team-defined categories are listed with the built-in labels so
+            // they show up in the dashboard filters
+            const customLabels = (config?.customCategories ?? []).map(
+                (category) => ({
+                    type: category.name,
+                    name: getCustomCategoryDisplayName(category.name),
+                    description: category.description,
+                    custom: true,
+                }),
+            );
+
+            return {
+                labels: [...labels, ...customLabels],
+                overridesStatus,
+            };
         } catch (error) {
             this.logger.warn({
                 message:
@@ -104,11 +104,13 @@ export class UpdateOrCreateCodeReviewParameterUseCase {
                     this.request.user.organization.uuid;
             }
 
+            // Directories targeted by path need repository-level access
             await this.authorizationService.ensure({
                 user: this.request.user,
                 action: Action.Create,
                 resource: ResourceType.CodeReviewSettings,
                 repoIds: [repositoryId],
+                directoryId,
             });
 
             const codeReviewConfigs = await this.getCodeReviewConfigs(
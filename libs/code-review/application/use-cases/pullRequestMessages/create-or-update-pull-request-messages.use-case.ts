@@ -59,6 +59,7 @@ export class CreateOrUpdatePullRequestMessagesUseCase implements IUseCase {
             action: Action.Create,
             resource: ResourceType.CodeReviewSettings,
             repoIds: [pullRequestMessages.repositoryId || 'global'],
+            directoryId: pullRequestMessages.directoryId,
         });
 
         pullRequestMessages.organizationId = userInfo?.organization?.uuid;
@@ -22,6 +22,10 @@ export interface ICodeReviewFeedbackRepository {
         repositoryId: string,
         syncedEmbeddedSuggestions: boolean,
     ): Promise<CodeReviewFeedbackEntity[]>;
+    findBySuggestionIds(
+        organizationId: string,
+        suggestionIds: string[],
+    ): Promise<CodeReviewFeedbackEntity[]>;
     updateSyncedSuggestionsFlag(
         organizationId: string,
         suggestionIds: string[],
@@ -0,0 +1,45 @@
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+export const BREAKING_CHANGE_ANALYSIS_SERVICE_TOKEN = Symbol.for(
+    'BreakingChangeAnalysisService',
+);
+
+export enum ApiContractType {
+    OPENAPI = 'openapi',
+    GRAPHQL = 'graphql',
+    PROTOBUF = 'protobuf',
+    TYPESCRIPT = 'typescript',
+}
+
+export enum BreakingChangeKind {
+    REMOVED_ENDPOINT = 'removed_endpoint',
+    REMOVED_TYPE = 'removed_type',
+    REMOVED_FIELD = 'removed_field',
+    REMOVED_ENUM_MEMBER = 'removed_enum_member',
+    RENAMED_ENUM_MEMBER = 'renamed_enum_member',
+    NARROWED_TYPE = 'narrowed_type',
+    WIDENED_TYPE = 'widened_type',
+    NEW_REQUIRED_PARAMETER = 'new_required_parameter',
+    /** Protobuf field number or enum value. */
+    CHANGED_VALUE = 'changed_value',
+}
+
+export type BreakingChange = {
+    kind: BreakingChangeKind;
+    contractType: ApiContractType;
+    /** Public name of the affected element, e.g. `GET /users/{id}` or `User.email`. */
+    symbol: string;
+    title: string;
+    description: string;
+    severity: SeverityLevel;
+    filename: string;
+    /** Line of the new version, inside a hunk of the patch. Missing for removed files. */
+    line?: number;
+    before?: string;
+    after?: string;
+};
+
+export interface IBreakingChangeAnalysisService {
+    analyzeBreakingChanges(file: FileChange): Promise<BreakingChange[]>;
+}
@@ -9,6 +9,7 @@ import {
     CodeSuggestion,
     Comment,
     CommentResult,
+    CustomCategory,
     FileChange,
     SummaryConfig,
 } from '@libs/core/infrastructure/config/types/general/codeReview.type';
@@ -82,6 +83,7 @@ export interface ICommentManagerService {
         language: string,
         dryRun: CodeReviewPipelineContext['dryRun'],
         suggestionCopyPrompt?: boolean,
+        customCategories?: CustomCategory[],
     ): Promise<{
         lastAnalyzedCommit: any;
         commits: any[];
@@ -1,6 +1,35 @@
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
 import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 
 export const LINTING_SERVICE_TOKEN = Symbol.for('LintingService');
+export const LINTER_RUNNERS_TOKEN = Symbol.for('LinterRunners');
+
+export type LintFinding = {
+    /** Name of the runner that produced the finding (e.g. `eslint`, `tsc`). */
+    source: string;
+    ruleId: string;
+    message: string;
+    severity: SeverityLevel;
+    filename: string;
+    line: number;
+    endLine: number;
+    column?: number;
+    /** Source lines `line..endLine` as they are today. */
+    existingCode?: string;
+    /** Same lines after applying the linter's autofix, when one exists. */
+    fixedCode?: string;
+};
+
+/**
+ * A single static-analysis tool. Runners are registered through
+ * `LINTER_RUNNERS_TOKEN` and picked per file by `supports`.
+ */
+export interface ILinterRunner {
+    readonly name: string;
+    supports(filename: string): boolean;
+    run(filename: string, content: string): Promise<LintFinding[]>;
+}
+
 export interface ILintingService {
-    lintCode(file: FileChange): Promise<any>;
+    lintCode(file: FileChange): Promise<LintFinding[]>;
 }
@@ -1,5 +1,30 @@
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
 import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 
+export const SECURITY_ANALYSIS_SERVICE_TOKEN = Symbol.for(
+    'SecurityAnalysisService',
+);
+
+export enum SecurityRuleCategory {
+    HARDCODED_SECRET = 'hardcoded_secret',
+    SQL_INJECTION = 'sql_injection',
+    COMMAND_INJECTION = 'command_injection',
+    UNSAFE_DESERIALIZATION = 'unsafe_deserialization',
+    WEAK_CRYPTO = 'weak_crypto',
+}
+
+export type SecurityFinding = {
+    ruleId: string;
+    category: SecurityRuleCategory;
+    title: string;
+    description: string;
+    severity: SeverityLevel;
+    filename: string;
+    line: number;
+    /** The offending line, with any matched secret masked. */
+    existingCode: string;
+};
+
 export interface ISecurityAnalysisService {
-    analyzeSecurity(file: FileChange): Promise<any>;
+    analyzeSecurity(file: FileChange): Promise<SecurityFinding[]>;
 }
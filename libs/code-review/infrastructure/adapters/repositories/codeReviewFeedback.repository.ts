@@ -128,6 +128,25 @@ export class CodeReviewFeedbackRepository implements ICodeReviewFeedbackReposito
         }
     }
 
+    async findBySuggestionIds(
+        organizationId: string,
+        suggestionIds: string[],
+    ): Promise<CodeReviewFeedbackEntity[]> {
+        const validIds = (suggestionIds || []).filter(
+            (id) => typeof id === 'string' && id.length > 0,
+        );
+
+        if (validIds.length === 0) {
+            return [];
+        }
+
+        const docs = await this.codeReviewFeedbackModel
+            .find({ organizationId, suggestionId: { $in: validIds } })
+            .exec();
+
+        return mapSimpleModelsToEntities(docs, CodeReviewFeedbackEntity);
+    }
+
     async updateSyncedSuggestionsFlag(
         organizationId: string,
         suggestionIds: string[],
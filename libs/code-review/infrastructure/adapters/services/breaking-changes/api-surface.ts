@@ -0,0 +1,322 @@
+import { BreakingChangeKind } from '@libs/code-review/domain/contracts/BreakingChangeAnalysisService.contract';
+
+export type ApiElementKind =
+    'endpoint' | 'type' | 'field' | 'parameter' | 'enum_member';
+
+/**
+ * Who produces the values of an element: the client (`input`, e.g. request
+ * parameters) or the API (`output`, e.g. response fields). Elements used both
+ * ways have no direction, so any change to them is reported.
+ */
+export type ApiDirection = 'input' | 'output';
+
+/** One element of a public API contract, in a format-independent shape. */
+export type ApiElement = {
+    /** Unique within the surface; elements are matched across versions by key. */
+    key: string;
+    kind: ApiElementKind;
+    /** Name shown in the review, e.g. `GET /users/{id}` or `User.email`. */
+    symbol: string;
+    /** Key of the enclosing element (endpoint, type, enum). */
+    parent?: string;
+    type?: string;
+    required?: boolean;
+    direction?: ApiDirection;
+    /** Protobuf field number or enum value. */
+    value?: string;
+    /** Position among its siblings, pairs renamed enum members without value. */
+    index?: number;
+    /** 1-based line in the file the element was extracted from. */
+    line: number;
+};
+
+export type ApiSurfaceChange = {
+    kind: BreakingChangeKind;
+    symbol: string;
+    description: string;
+    /** Line of the current version; missing when nothing is left to point at. */
+    line?: number;
+    before?: string;
+    after?: string;
+};
+
+/**
+ * Compares two versions of an API surface and returns the changes that can
+ * break existing clients. Additions are only reported when they are required.
+ */
+export function diffApiSurfaces(
+    previous: ApiElement[],
+    current: ApiElement[],
+): ApiSurfaceChange[] {
+    const previousByKey = indexByKey(previous);
+    const currentByKey = indexByKey(current);
+    const renamedTo = new Set<ApiElement>();
+    const changes: ApiSurfaceChange[] = [];
+
+    for (const before of previousByKey.values()) {
+        const after = currentByKey.get(before.key);
+
+        if (after) {
+            changes.push(...compareElements(before, after));
+            continue;
+        }
+
+        // Removing a type already covers everything declared inside it
+        if (before.parent && !currentByKey.has(before.parent)) {
+            continue;
+        }
+
+        // Removed elements point at their enclosing element, when kept
+        const line = currentByKey.get(before.parent)?.line;
+
+        if (before.kind === 'enum_member') {
+            const renamed = findRenamedMember(
+                before,
+                previousByKey,
+                currentByKey,
+                renamedTo,
+            );
+
+            if (renamed) {
+                renamedTo.add(renamed);
+                changes.push({
+                    kind: BreakingChangeKind.RENAMED_ENUM_MEMBER,
+                    symbol: before.symbol,
+                    description: `\`${before.symbol}\` was renamed to \`${renamed.symbol}\`. Clients sending or matching the previous name will break.`,
+                    line: renamed.line,
+                    before: before.symbol,
+                    after: renamed.symbol,
+                });
+                continue;
+            }
+        }
+
+        changes.push(describeRemoval(before, line));
+    }
+
+    for (const after of currentByKey.values()) {
+        const isNewRequired =
+            !previousByKey.has(after.key) &&
+            after.required &&
+            after.direction !== 'output' &&
+            (after.kind === 'field' || after.kind === 'parameter') &&
+            previousByKey.has(after.parent);
+
+        if (isNewRequired) {
+            changes.push({
+                kind: BreakingChangeKind.NEW_REQUIRED_PARAMETER,
+                symbol: after.symbol,
+                description: `\`${after.symbol}\` is new and required. Existing clients do not send it and will be rejected.`,
+                line: after.line,
+                after: after.type,
+            });
+        }
+    }
+
+    return changes;
+}
+
+/** Members of a top-level union (`a | b`), ignoring order and spacing. */
+export function splitUnion(type: string): string[] {
+    const members: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of type) {
+        if ('<([{'.includes(char)) {
+            depth++;
+        } else if ('>)]}'.includes(char)) {
+            depth--;
+        }
+
+        if (char === '|' && depth === 0) {
+            members.push(current);
+            current = '';
+            continue;
+        }
+
+        current += char;
+    }
+    members.push(current);
+
+    return members.map(normalizeType).filter(Boolean).sort();
+}
+
+export function normalizeType(type: string): string {
+    return type.replace(/\s+/g, ' ').replace(/;$/, '').trim();
+}
+
+function compareElements(
+    before: ApiElement,
+    after: ApiElement,
+): ApiSurfaceChange[] {
+    const changes: ApiSurfaceChange[] = [];
+
+    if (
+        before.value !== undefined &&
+        after.value !== undefined &&
+        before.value !== after.value
+    ) {
+        changes.push({
+            kind: BreakingChangeKind.CHANGED_VALUE,
+            symbol: after.symbol,
+            description: `\`${after.symbol}\` changed from \`${before.value}\` to \`${after.value}\`. Data written with the previous value will be misread.`,
+            line: after.line,
+            before: before.value,
+            after: after.value,
+        });
+    }
+
+    if (
+        before.type !== undefined &&
+        after.type !== undefined &&
+        normalizeType(before.type) !== normalizeType(after.type)
+    ) {
+        const typeChange = classifyTypeChange(before, after);
+
+        if (typeChange) {
+            changes.push({
+                kind: typeChange,
+                symbol: after.symbol,
+                description:
+                    typeChange === BreakingChangeKind.WIDENED_TYPE
+                        ? `The type of \`${after.symbol}\` changed from \`${before.type}\` to \`${after.type}\`. Consumers may now receive values they do not handle.`
+                        : `The type of \`${after.symbol}\` changed from \`${before.type}\` to \`${after.type}\`, which does not cover every value the previous type did.`,
+                line: after.line,
+                before: before.type,
+                after: after.type,
+            });
+        }
+    }
+
+    if (!before.required && after.required && after.direction !== 'output') {
+        changes.push({
+            kind: BreakingChangeKind.NEW_REQUIRED_PARAMETER,
+            symbol: after.symbol,
+            description: `\`${after.symbol}\` became required. Existing clients that omit it will be rejected.`,
+            line: after.line,
+            before: 'optional',
+            after: 'required',
+        });
+    }
+
+    if (before.required && !after.required && after.direction !== 'input') {
+        changes.push({
+            kind: BreakingChangeKind.WIDENED_TYPE,
+            symbol: after.symbol,
+            description: `\`${after.symbol}\` is no longer required. Consumers may now receive it missing or null.`,
+            line: after.line,
+            before: 'required',
+            after: 'optional',
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Inputs may accept more values and outputs may return fewer; anything else
+ * breaks one of the sides.
+ */
+function classifyTypeChange(
+    before: ApiElement,
+    after: ApiElement,
+): BreakingChangeKind | null {
+    const previousMembers = splitUnion(before.type);
+    const currentMembers = splitUnion(after.type);
+
+    const widened = previousMembers.every((member) =>
+        currentMembers.includes(member),
+    );
+    const narrowed = currentMembers.every((member) =>
+        previousMembers.includes(member),
+    );
+
+    if (after.direction === 'input' && widened) {
+        return null;
+    }
+
+    if (after.direction === 'output' && narrowed) {
+        return null;
+    }
+
+    return widened
+        ? BreakingChangeKind.WIDENED_TYPE
+        : BreakingChangeKind.NARROWED_TYPE;
+}
+
+function describeRemoval(
+    element: ApiElement,
+    line: number | undefined,
+): ApiSurfaceChange {
+    const removal = {
+        symbol: element.symbol,
+        line,
+        before: element.type ?? element.symbol,
+    };
+
+    switch (element.kind) {
+        case 'endpoint':
+            return {
+                ...removal,
+                kind: BreakingChangeKind.REMOVED_ENDPOINT,
+                description: `\`${element.symbol}\` was removed. Clients still calling it will fail.`,
+            };
+        case 'type':
+            return {
+                ...removal,
+                kind: BreakingChangeKind.REMOVED_TYPE,
+                description: `\`${element.symbol}\` was removed. Consumers referencing it will no longer compile or validate.`,
+            };
+        case 'enum_member':
+            return {
+                ...removal,
+                kind: BreakingChangeKind.REMOVED_ENUM_MEMBER,
+                description: `\`${element.symbol}\` was removed from the enum. Values already stored or sent with it become invalid.`,
+            };
+        default:
+            return {
+                ...removal,
+                kind: BreakingChangeKind.REMOVED_FIELD,
+                description:
+                    element.kind === 'parameter'
+                        ? `Parameter \`${element.symbol}\` was removed. Clients still sending it will be rejected or silently ignored.`
+                        : `\`${element.symbol}\` was removed. Consumers reading it will break.`,
+            };
+    }
+}
+
+/**
+ * A removed member was renamed when a new member of the same enum has its
+ * value or, for enums without values, its position.
+ */
+function findRenamedMember(
+    removed: ApiElement,
+    previousByKey: Map<string, ApiElement>,
+    currentByKey: Map<string, ApiElement>,
+    alreadyRenamed: Set<ApiElement>,
+): ApiElement | undefined {
+    return [...currentByKey.values()].find(
+        (candidate) =>
+            candidate.kind === 'enum_member' &&
+            candidate.parent === removed.parent &&
+            !previousByKey.has(candidate.key) &&
+            !alreadyRenamed.has(candidate) &&
+            (removed.value !== undefined
+                ? candidate.value === removed.value
+                : candidate.index === removed.index),
+    );
+}
+
+function indexByKey(elements: ApiElement[]): Map<string, ApiElement> {
+    const byKey = new Map<string, ApiElement>();
+
+    // Overloads and duplicated keys keep their first declaration
+    for (const element of elements) {
+        if (!byKey.has(element.key)) {
+            byKey.set(element.key, element);
+        }
+    }
+
+    return byKey;
+}
@@ -0,0 +1,249 @@
+import { createLogger } from '@kodus/flow';
+import { Injectable } from '@nestjs/common';
+
+import {
+    ApiContractType,
+    BreakingChange,
+    BreakingChangeKind,
+    IBreakingChangeAnalysisService,
+} from '@libs/code-review/domain/contracts/BreakingChangeAnalysisService.contract';
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import {
+    extractHunkRangesFromPatch,
+    reconstructOriginalContent,
+} from '@libs/common/utils/patch';
+import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+import { ApiElement, ApiSurfaceChange, diffApiSurfaces } from './api-surface';
+import { extractGraphQLSurface, isGraphQLSchema } from './graphql.extractor';
+import { extractOpenApiSurface, isOpenApiDocument } from './openapi.extractor';
+import { extractProtobufSurface, isProtobufFile } from './protobuf.extractor';
+import {
+    extractTypeScriptSurface,
+    isTypeScriptApiFile,
+} from './typescript.extractor';
+
+type ContractExtractor = {
+    type: ApiContractType;
+    supports: (filename: string, content: string) => boolean;
+    extract: (content: string, filename: string) => ApiElement[];
+};
+
+const CONTRACT_EXTRACTORS: ContractExtractor[] = [
+    {
+        type: ApiContractType.OPENAPI,
+        supports: isOpenApiDocument,
+        extract: extractOpenApiSurface,
+    },
+    {
+        type: ApiContractType.GRAPHQL,
+        supports: isGraphQLSchema,
+        extract: extractGraphQLSurface,
+    },
+    {
+        type: ApiContractType.PROTOBUF,
+        supports: isProtobufFile,
+        extract: extractProtobufSurface,
+    },
+    {
+        type: ApiContractType.TYPESCRIPT,
+        supports: isTypeScriptApiFile,
+        extract: extractTypeScriptSurface,
+    },
+];
+
+const CHANGE_DETAILS: Record<
+    BreakingChangeKind,
+    { title: string; severity: SeverityLevel }
+> = {
+    [BreakingChangeKind.REMOVED_ENDPOINT]: {
+        title: 'Removed endpoint',
+        severity: SeverityLevel.CRITICAL,
+    },
+    [BreakingChangeKind.CHANGED_VALUE]: {
+        title: 'Changed wire value',
+        severity: SeverityLevel.CRITICAL,
+    },
+    [BreakingChangeKind.REMOVED_TYPE]: {
+        title: 'Removed type or export',
+        severity: SeverityLevel.HIGH,
+    },
+    [BreakingChangeKind.REMOVED_FIELD]: {
+        title: 'Removed field',
+        severity: SeverityLevel.HIGH,
+    },
+    [BreakingChangeKind.REMOVED_ENUM_MEMBER]: {
+        title: 'Removed enum member',
+        severity: SeverityLevel.HIGH,
+    },
+    [BreakingChangeKind.NARROWED_TYPE]: {
+        title: 'Narrowed type',
+        severity: SeverityLevel.HIGH,
+    },
+    [BreakingChangeKind.NEW_REQUIRED_PARAMETER]: {
+        title: 'New required parameter',
+        severity: SeverityLevel.HIGH,
+    },
+    [BreakingChangeKind.RENAMED_ENUM_MEMBER]: {
+        title: 'Renamed enum member',
+        severity: SeverityLevel.MEDIUM,
+    },
+    [BreakingChangeKind.WIDENED_TYPE]: {
+        title: 'Widened type',
+        severity: SeverityLevel.MEDIUM,
+    },
+};
+
+/**
+ * Detects breaking changes in API contracts (OpenAPI, GraphQL SDL, protobuf
+ * and exported TypeScript declarations) by extracting the public surface of
+ * both versions of the file and diffing them, without an LLM.
+ */
+@Injectable()
+export class BreakingChangeAnalysisService implements IBreakingChangeAnalysisService {
+    private readonly logger = createLogger(BreakingChangeAnalysisService.name);
+
+    async analyzeBreakingChanges(file: FileChange): Promise<BreakingChange[]> {
+        // A new file has no clients yet; without a patch there is no previous version
+        if (!file?.filename || !file.patch || file.status === 'added') {
+            return [];
+        }
+
+        const isRemoved = file.status === 'removed';
+        const content = isRemoved ? '' : (file.fileContent ?? file.content);
+
+        if (typeof content !== 'string') {
+            return [];
+        }
+
+        const previousContent = reconstructOriginalContent(content, file.patch);
+
+        if (previousContent === null) {
+            return [];
+        }
+
+        const extractor = CONTRACT_EXTRACTORS.find((candidate) =>
+            candidate.supports(file.filename, previousContent),
+        );
+
+        if (!extractor) {
+            return [];
+        }
+
+        try {
+            const previous = extractor.extract(previousContent, file.filename);
+
+            if (isRemoved) {
+                return this.describeRemovedContract(
+                    file.filename,
+                    extractor.type,
+                    previous,
+                );
+            }
+
+            const current = extractor.extract(content, file.filename);
+
+            return this.toBreakingChanges(
+                file,
+                extractor.type,
+                diffApiSurfaces(previous, current),
+            );
+        } catch (error) {
+            this.logger.warn({
+                message: `Could not compare the ${extractor.type} contract ${file.filename}`,
+                context: BreakingChangeAnalysisService.name,
+                error,
+                metadata: { filename: file.filename },
+            });
+
+            return [];
+        }
+    }
+
+    private toBreakingChanges(
+        file: FileChange,
+        contractType: ApiContractType,
+        changes: ApiSurfaceChange[],
+    ): BreakingChange[] {
+        const hunkRanges = extractHunkRangesFromPatch(file.patch);
+
+        if (!hunkRanges.length) {
+            return [];
+        }
+
+        return changes
+            .map((change) => ({
+                kind: change.kind,
+                contractType,
+                symbol: change.symbol,
+                ...CHANGE_DETAILS[change.kind],
+                description: change.description,
+                filename: file.filename,
+                line: this.snapToHunk(change.line, hunkRanges),
+                before: change.before,
+                after: change.after,
+            }))
+            .sort((a, b) => a.line - b.line);
+    }
+
+    /**
+     * Comments can only be placed on lines of the patch; removed elements
+     * point at their parent, which may be outside of it.
+     */
+    private snapToHunk(
+        line: number | undefined,
+        hunkRanges: { start: number; end: number }[],
+    ): number {
+        if (!line) {
+            return hunkRanges[0].start;
+        }
+
+        let closest = hunkRanges[0].start;
+
+        for (const { start, end } of hunkRanges) {
+            if (line >= start && line <= end) {
+                return line;
+            }
+
+            const candidate = line < start ? start : end;
+
+            if (Math.abs(candidate - line) < Math.abs(closest - line)) {
+                closest = candidate;
+            }
+        }
+
+        return closest;
+    }
+
+    private describeRemovedContract(
+        filename: string,
+        contractType: ApiContractType,
+        previous: ApiElement[],
+    ): BreakingChange[] {
+        const removed = previous.filter(
+            (element) => element.kind === 'endpoint' || !element.parent,
+        );
+
+        if (!removed.length) {
+            return [];
+        }
+
+        const shown = removed
+            .slice(0, 10)
+            .map(({ symbol }) => `\`${symbol}\``)
+            .join(', ');
+        const more =
+            removed.length > 10 ? ` and ${removed.length - 10} more` : '';
+
+        return [
+            {
+                kind: BreakingChangeKind.REMOVED_TYPE,
+                contractType,
+                symbol: filename,
+                ...CHANGE_DETAILS[BreakingChangeKind.REMOVED_TYPE],
+                description: `The contract was deleted, removing ${shown}${more}.`,
+                filename,
+            },
+        ];
+    }
+}
@@ -0,0 +1,349 @@
+import { ApiDirection, ApiElement } from './api-surface';
+
+type Token = {
+    value: string;
+    line: number;
+    isString?: boolean;
+};
+
+const TOKEN_PATTERN =
+    /("""[\s\S]*?"""|"(?:\\.|[^"\\\n])*")|(#[^\n]*)|(\.\.\.|[{}()[\]:=|!@&$])|([_A-Za-z][_0-9A-Za-z]*)|(-?\d[\d.eE+-]*)|(\n)/g;
+
+export function isGraphQLSchema(filename: string): boolean {
+    return /\.(graphqls?|gql)$/i.test(filename);
+}
+
+/**
+ * Types, fields, arguments, input fields and enum values of a GraphQL SDL
+ * document. Object and interface fields are outputs; arguments and input
+ * fields are inputs.
+ */
+export function extractGraphQLSurface(content: string): ApiElement[] {
+    return new GraphQLSurfaceParser(tokenize(content)).parse();
+}
+
+function tokenize(content: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+
+    for (const match of content.matchAll(TOKEN_PATTERN)) {
+        const [text, string, comment, , , , newline] = match;
+
+        if (newline) {
+            line++;
+            continue;
+        }
+
+        if (!comment) {
+            tokens.push({ value: text, line, isString: !!string });
+        }
+
+        // Block strings span lines
+        line += string ? (string.match(/\n/g)?.length ?? 0) : 0;
+    }
+
+    return tokens;
+}
+
+class GraphQLSurfaceParser {
+    private position = 0;
+    private readonly elements: ApiElement[] = [];
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): ApiElement[] {
+        while (this.peek()) {
+            const token = this.next();
+
+            if (token.isString || token.value === 'extend') {
+                continue;
+            }
+
+            switch (token.value) {
+                case 'type':
+                case 'interface':
+                    this.parseObject('output');
+                    break;
+                case 'input':
+                    this.parseObject('input');
+                    break;
+                case 'enum':
+                    this.parseEnum();
+                    break;
+                case 'union':
+                    this.parseUnion();
+                    break;
+                case 'scalar':
+                    this.addType(this.next());
+                    this.skipDirectives();
+                    break;
+                case 'directive':
+                    this.skipDirectiveDefinition();
+                    break;
+                case '{':
+                    // `schema { ... }` and anything unknown
+                    this.skipBlock('{', '}');
+                    break;
+                default:
+                    break;
+            }
+        }
+
+        return this.elements;
+    }
+
+    private parseObject(direction: ApiDirection): void {
+        const name = this.next();
+        const typeKey = this.addType(name);
+
+        // `implements A & B` and directives
+        while (this.peek() && this.peek().value !== '{') {
+            if (this.peek().isString || this.isDefinitionStart(this.peek())) {
+                return;
+            }
+
+            if (this.peek().value === '@') {
+                this.skipDirectives();
+            } else {
+                this.next();
+            }
+        }
+
+        if (!this.accept('{')) {
+            return;
+        }
+
+        while (this.peek() && !this.accept('}')) {
+            if (this.peek().isString) {
+                this.next();
+                continue;
+            }
+
+            const field = this.next();
+            const fieldKey = `${name.value}.${field.value}`;
+            const fieldArguments: ApiElement[] = [];
+
+            if (this.accept('(')) {
+                while (this.peek() && !this.accept(')')) {
+                    if (this.peek().isString) {
+                        this.next();
+                        continue;
+                    }
+
+                    const argument = this.next();
+                    this.accept(':');
+                    const { type, required } = this.parseInputType();
+
+                    fieldArguments.push({
+                        key: `${fieldKey}(${argument.value})`,
+                        kind: 'parameter',
+                        symbol: `${fieldKey}(${argument.value})`,
+                        parent: fieldKey,
+                        type,
+                        required,
+                        direction: 'input',
+                        line: argument.line,
+                    });
+                }
+            }
+
+            this.accept(':');
+            const { type, required } =
+                direction === 'input'
+                    ? this.parseInputType()
+                    : this.parseFieldType();
+
+            this.elements.push(
+                {
+                    key: fieldKey,
+                    kind: 'field',
+                    symbol: fieldKey,
+                    parent: typeKey,
+                    type,
+                    required,
+                    direction,
+                    line: field.line,
+                },
+                ...fieldArguments,
+            );
+        }
+    }
+
+    private parseEnum(): void {
+        const name = this.next();
+        const typeKey = this.addType(name);
+
+        this.skipDirectives();
+
+        if (!this.accept('{')) {
+            return;
+        }
+
+        let index = 0;
+        while (this.peek() && !this.accept('}')) {
+            const value = this.next();
+
+            if (value.isString) {
+                continue;
+            }
+
+            this.elements.push({
+                key: `${name.value}.${value.value}`,
+                kind: 'enum_member',
+                symbol: `${name.value}.${value.value}`,
+                parent: typeKey,
+                index: index++,
+                line: value.line,
+            });
+            this.skipDirectives();
+        }
+    }
+
+    private parseUnion(): void {
+        const name = this.next();
+        this.skipDirectives();
+
+        const members: string[] = [];
+
+        if (this.accept('=')) {
+            this.accept('|');
+            do {
+                members.push(this.next().value);
+            } while (this.accept('|'));
+        }
+
+        this.addType(name, members.join(' | '));
+    }
+
+    /** Arguments and input fields with a default value stay optional. */
+    private parseInputType(): { type: string; required: boolean } {
+        const { type, required } = this.parseFieldType();
+
+        const hasDefault = this.accept('=');
+        if (hasDefault) {
+            this.skipValue();
+        }
+
+        this.skipDirectives();
+
+        return { type, required: required && !hasDefault };
+    }
+
+    private parseFieldType(): { type: string; required: boolean } {
+        const type = this.readType();
+        this.skipDirectives();
+
+        return type.endsWith('!')
+            ? { type: type.slice(0, -1), required: true }
+            : { type, required: false };
+    }
+
+    private readType(): string {
+        let type: string;
+
+        if (this.accept('[')) {
+            type = `[${this.readType()}]`;
+            this.accept(']');
+        } else {
+            type = this.next()?.value ?? '';
+        }
+
+        return this.accept('!') ? `${type}!` : type;
+    }
+
+    private addType(name: Token, type?: string): string {
+        const key = `type ${name.value}`;
+
+        this.elements.push({
+            key,
+            kind: 'type',
+            symbol: name.value,
+            type,
+            line: name.line,
+        });
+
+        return key;
+    }
+
+    private skipDirectives(): void {
+        while (this.accept('@')) {
+            this.next();
+            if (this.peek()?.value === '(') {
+                this.next();
+                this.skipBlock('(', ')');
+            }
+        }
+    }
+
+    /** `directive @name(args) repeatable on LOCATION | LOCATION` */
+    private skipDirectiveDefinition(): void {
+        this.skipDirectives();
+
+        while (this.peek() && !this.accept('on')) {
+            this.next();
+        }
+
+        this.accept('|');
+        do {
+            this.next();
+        } while (this.accept('|'));
+    }
+
+    private skipValue(): void {
+        const token = this.next();
+
+        if (token?.value === '[') {
+            this.skipBlock('[', ']');
+        } else if (token?.value === '{') {
+            this.skipBlock('{', '}');
+        }
+    }
+
+    /** Skips to the closing token, the opening one was already consumed. */
+    private skipBlock(open: string, close: string): void {
+        let depth = 1;
+
+        while (this.peek() && depth > 0) {
+            const { value, isString } = this.next();
+
+            if (isString) {
+                continue;
+            }
+
+            depth += value === open ? 1 : value === close ? -1 : 0;
+        }
+    }
+
+    private isDefinitionStart(token: Token): boolean {
+        return [
+            'type',
+            'interface',
+            'input',
+            'enum',
+            'union',
+            'scalar',
+            'extend',
+            'schema',
+            'directive',
+        ].includes(token.value);
+    }
+
+    private accept(value: string): boolean {
+        const token = this.peek();
+
+        if (token && !token.isString && token.value === value) {
+            this.position++;
+            return true;
+        }
+
+        return false;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private next(): Token | undefined {
+        return this.tokens[this.position++];
+    }
+}
@@ -0,0 +1,294 @@
+import * as yaml from 'js-yaml';
+
+import { ApiDirection, ApiElement } from './api-surface';
+
+const HTTP_METHODS = [
+    'get',
+    'put',
+    'post',
+    'delete',
+    'options',
+    'head',
+    'patch',
+    'trace',
+];
+
+const OPENAPI_ROOT = /^\s*["']?(?:openapi|swagger)["']?\s*:/m;
+
+export function isOpenApiDocument(filename: string, content: string): boolean {
+    return /\.(ya?ml|json)$/i.test(filename) && OPENAPI_ROOT.test(content);
+}
+
+/**
+ * Endpoints, parameters, inline request/response properties and component
+ * schemas of an OpenAPI 3 or Swagger 2 document. Schemas referenced with
+ * `$ref` are compared once, as components, instead of at every usage.
+ */
+export function extractOpenApiSurface(content: string): ApiElement[] {
+    let document: any;
+
+    try {
+        document = yaml.load(content);
+    } catch {
+        return [];
+    }
+
+    if (!document || typeof document !== 'object') {
+        return [];
+    }
+
+    const locator = new KeyLocator(content);
+    const elements: ApiElement[] = [];
+
+    const componentsLine = locator.find(
+        document.components ? 'schemas' : 'definitions',
+        locator.find(document.components ? 'components' : 'definitions'),
+    );
+    const schemas = document.components?.schemas ?? document.definitions ?? {};
+    const sharedParameters =
+        document.components?.parameters ?? document.parameters ?? {};
+
+    for (const [name, schema] of Object.entries<any>(schemas)) {
+        const key = `schema ${name}`;
+        const line = locator.find(name, componentsLine);
+
+        elements.push({ key, kind: 'type', symbol: name, line });
+        addEnumMembers(elements, key, name, schema, line);
+        addProperties(elements, locator, key, name, schema, undefined, line);
+    }
+
+    for (const [path, pathItem] of Object.entries<any>(document.paths ?? {})) {
+        const pathLine = locator.find(path, locator.find('paths'));
+
+        for (const method of HTTP_METHODS) {
+            const operation = pathItem?.[method];
+
+            if (!operation) {
+                continue;
+            }
+
+            const endpoint = `${method.toUpperCase()} ${path}`;
+            const line = locator.find(method, pathLine);
+
+            elements.push({
+                key: endpoint,
+                kind: 'endpoint',
+                symbol: endpoint,
+                line,
+            });
+
+            const parameters = [
+                ...(pathItem.parameters ?? []),
+                ...(operation.parameters ?? []),
+            ].map((parameter) =>
+                parameter?.$ref
+                    ? sharedParameters[refName(parameter.$ref)]
+                    : parameter,
+            );
+
+            for (const parameter of parameters) {
+                if (!parameter?.name) {
+                    continue;
+                }
+
+                // Swagger 2 request bodies are `in: body` parameters
+                if (parameter.in === 'body') {
+                    addProperties(
+                        elements,
+                        locator,
+                        endpoint,
+                        `${endpoint} body`,
+                        parameter.schema,
+                        'input',
+                        line,
+                    );
+                    continue;
+                }
+
+                const key = `${endpoint} ${parameter.in}:${parameter.name}`;
+                const symbol = `${endpoint} (${parameter.in} ${parameter.name})`;
+                const schema = parameter.schema ?? parameter;
+                const parameterLine = locator.find(parameter.name, line);
+
+                elements.push({
+                    key,
+                    kind: 'parameter',
+                    symbol,
+                    parent: endpoint,
+                    type: describeSchema(schema),
+                    required: parameter.in === 'path' || !!parameter.required,
+                    direction: 'input',
+                    line: parameterLine,
+                });
+                addEnumMembers(elements, key, symbol, schema, parameterLine);
+            }
+
+            addProperties(
+                elements,
+                locator,
+                endpoint,
+                `${endpoint} body`,
+                getJsonSchema(operation.requestBody?.content),
+                'input',
+                line,
+            );
+
+            const successStatus = Object.keys(operation.responses ?? {}).find(
+                (status) => status.startsWith('2'),
+            );
+            const response = operation.responses?.[successStatus];
+
+            addProperties(
+                elements,
+                locator,
+                endpoint,
+                `${endpoint} response`,
+                getJsonSchema(response?.content) ?? response?.schema,
+                'output',
+                line,
+            );
+        }
+    }
+
+    return elements;
+}
+
+function addProperties(
+    elements: ApiElement[],
+    locator: KeyLocator,
+    parent: string,
+    symbolPrefix: string,
+    schema: any,
+    direction: ApiDirection | undefined,
+    fromLine: number,
+): void {
+    // Referenced schemas are compared as components
+    if (!schema?.properties || schema.$ref) {
+        return;
+    }
+
+    const required: string[] = Array.isArray(schema.required)
+        ? schema.required
+        : [];
+
+    for (const [name, property] of Object.entries<any>(schema.properties)) {
+        const symbol = `${symbolPrefix}.${name}`;
+        const line = locator.find(name, fromLine);
+
+        elements.push({
+            key: symbol,
+            kind: 'field',
+            symbol,
+            parent,
+            type: describeSchema(property),
+            required: required.includes(name),
+            direction,
+            line,
+        });
+        addEnumMembers(elements, symbol, symbol, property, line);
+    }
+}
+
+function addEnumMembers(
+    elements: ApiElement[],
+    parent: string,
+    parentSymbol: string,
+    schema: any,
+    line: number,
+): void {
+    const values = schema?.enum ?? schema?.items?.enum;
+
+    if (!Array.isArray(values)) {
+        return;
+    }
+
+    values.forEach((value, index) => {
+        elements.push({
+            key: `${parent} = ${JSON.stringify(value)}`,
+            kind: 'enum_member',
+            symbol: `${parentSymbol} = ${JSON.stringify(value)}`,
+            parent,
+            index,
+            line,
+        });
+    });
+}
+
+function describeSchema(schema: any): string {
+    if (!schema || typeof schema !== 'object') {
+        return 'any';
+    }
+
+    if (schema.$ref) {
+        return refName(schema.$ref);
+    }
+
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (Array.isArray(variants)) {
+        return variants.map(describeSchema).join(' | ');
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        return schema.allOf.map(describeSchema).join(' & ');
+    }
+
+    const types: string[] = Array.isArray(schema.type)
+        ? schema.type
+        : [schema.type ?? 'object'];
+
+    const described = types.map((type) => {
+        if (type === 'array') {
+            return `${describeSchema(schema.items)}[]`;
+        }
+        return schema.format ? `${type}(${schema.format})` : type;
+    });
+
+    if (schema.nullable || schema['x-nullable']) {
+        described.push('null');
+    }
+
+    return described.join(' | ');
+}
+
+function getJsonSchema(content: Record<string, any> | undefined): any {
+    if (!content) {
+        return undefined;
+    }
+
+    return (
+        content['application/json']?.schema ??
+        Object.values(content).find((media) => media?.schema)?.schema
+    );
+}
+
+function refName(ref: string): string {
+    return ref.split('/').pop();
+}
+
+/**
+ * js-yaml drops positions, so keys are located by searching the text after
+ * the line of their parent.
+ */
+class KeyLocator {
+    private readonly lines: string[];
+
+    constructor(content: string) {
+        this.lines = content.split('\n');
+    }
+
+    /** 1-based line of the first `key:` after `fromLine`, or `fromLine`. */
+    find(key: string, fromLine = 1): number {
+        const escaped = key.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        const pattern = new RegExp(
+            `^\\s*(?:-\\s*)?(?:["']?name["']?\\s*:\\s*)?["']?${escaped}["']?\\s*(?::|,|$)`,
+        );
+
+        for (let index = fromLine - 1; index < this.lines.length; index++) {
+            if (index >= 0 && pattern.test(this.lines[index])) {
+                return index + 1;
+            }
+        }
+
+        return Math.max(fromLine, 1);
+    }
+}
@@ -0,0 +1,304 @@
+import { ApiElement } from './api-surface';
+
+type Token = {
+    value: string;
+    line: number;
+};
+
+const TOKEN_PATTERN =
+    /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)|("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')|([{}()[\]<>;=,])|(\.?[A-Za-z_][\w.]*)|(-?\d[\w.+-]*)|(\n)/g;
+
+const FIELD_LABELS = ['repeated', 'optional', 'required'];
+
+export function isProtobufFile(filename: string): boolean {
+    return /\.proto$/i.test(filename);
+}
+
+/**
+ * Messages, fields, enums and RPCs of a `.proto` file. Messages are shared by
+ * requests and responses, so every change to a field is reported; field and
+ * enum numbers are compared too, since they are what goes on the wire.
+ */
+export function extractProtobufSurface(content: string): ApiElement[] {
+    return new ProtobufSurfaceParser(tokenize(content)).parse();
+}
+
+function tokenize(content: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+
+    for (const match of content.matchAll(TOKEN_PATTERN)) {
+        const [text, comment, , , , , newline] = match;
+
+        if (newline) {
+            line++;
+            continue;
+        }
+
+        if (comment) {
+            line += comment.match(/\n/g)?.length ?? 0;
+            continue;
+        }
+
+        tokens.push({ value: text, line });
+    }
+
+    return tokens;
+}
+
+class ProtobufSurfaceParser {
+    private position = 0;
+    private readonly elements: ApiElement[] = [];
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): ApiElement[] {
+        while (this.peek()) {
+            this.parseDefinition('');
+        }
+
+        return this.elements;
+    }
+
+    /** Parses one statement of a file or message body. */
+    private parseDefinition(scope: string, messageKey?: string): void {
+        const token = this.next();
+
+        switch (token.value) {
+            case 'message':
+                this.parseMessage(scope);
+                return;
+            case 'enum':
+                this.parseEnum(scope);
+                return;
+            case 'service':
+                this.parseService();
+                return;
+            case 'oneof':
+                this.next();
+                this.expect('{');
+                while (this.peek() && !this.accept('}')) {
+                    this.parseDefinition(scope, messageKey);
+                }
+                return;
+            case 'extend':
+                this.skipStatement();
+                return;
+            case 'syntax':
+            case 'edition':
+            case 'package':
+            case 'import':
+            case 'option':
+            case 'reserved':
+            case 'extensions':
+            case ';':
+                this.skipStatement(token.value);
+                return;
+            default:
+                if (messageKey) {
+                    this.parseField(token, scope, messageKey);
+                }
+        }
+    }
+
+    private parseMessage(scope: string): void {
+        const token = this.next();
+        const name = this.qualify(scope, token.value);
+        const key = `message ${name}`;
+
+        this.elements.push({
+            key,
+            kind: 'type',
+            symbol: name,
+            line: token.line,
+        });
+
+        this.expect('{');
+        while (this.peek() && !this.accept('}')) {
+            this.parseDefinition(name, key);
+        }
+    }
+
+    private parseField(first: Token, scope: string, messageKey: string): void {
+        const label = FIELD_LABELS.includes(first.value) ? first.value : null;
+        let type = label ? this.next().value : first.value;
+
+        if (type === 'map' && this.accept('<')) {
+            const keyType = this.next().value;
+            this.accept(',');
+            const valueType = this.next().value;
+            this.accept('>');
+            type = `map<${keyType}, ${valueType}>`;
+        }
+
+        const name = this.next();
+        this.accept('=');
+        const number = this.next()?.value;
+        this.skipStatement();
+
+        this.elements.push({
+            key: `${scope}.${name.value}`,
+            kind: 'field',
+            symbol: `${scope}.${name.value}`,
+            parent: messageKey,
+            type: label === 'repeated' ? `repeated ${type}` : type,
+            required: label === 'required',
+            value: number,
+            line: name.line,
+        });
+    }
+
+    private parseEnum(scope: string): void {
+        const token = this.next();
+        const name = this.qualify(scope, token.value);
+        const key = `enum ${name}`;
+
+        this.elements.push({
+            key,
+            kind: 'type',
+            symbol: name,
+            line: token.line,
+        });
+
+        this.expect('{');
+
+        let index = 0;
+        while (this.peek() && !this.accept('}')) {
+            const value = this.next();
+
+            if (['option', 'reserved', ';'].includes(value.value)) {
+                this.skipStatement(value.value);
+                continue;
+            }
+
+            this.accept('=');
+            const number = this.next()?.value;
+            this.skipStatement();
+
+            this.elements.push({
+                key: `${name}.${value.value}`,
+                kind: 'enum_member',
+                symbol: `${name}.${value.value}`,
+                parent: key,
+                value: number,
+                index: index++,
+                line: value.line,
+            });
+        }
+    }
+
+    private parseService(): void {
+        const name = this.next();
+        const key = `service ${name.value}`;
+
+        this.elements.push({
+            key,
+            kind: 'type',
+            symbol: name.value,
+            line: name.line,
+        });
+
+        this.expect('{');
+        while (this.peek() && !this.accept('}')) {
+            const token = this.next();
+
+            if (token.value !== 'rpc') {
+                this.skipStatement(token.value);
+                continue;
+            }
+
+            const method = this.next();
+            const request = this.readRpcType();
+            this.accept('returns');
+            const response = this.readRpcType();
+
+            if (this.accept('{')) {
+                this.skipBlock();
+            } else {
+                this.accept(';');
+            }
+
+            this.elements.push({
+                key: `${name.value}.${method.value}`,
+                kind: 'endpoint',
+                symbol: `${name.value}.${method.value}`,
+                parent: key,
+                type: `(${request}) returns (${response})`,
+                line: method.line,
+            });
+        }
+    }
+
+    /** `(stream Request)` */
+    private readRpcType(): string {
+        const parts: string[] = [];
+
+        this.expect('(');
+        while (this.peek() && !this.accept(')')) {
+            parts.push(this.next().value);
+        }
+
+        return parts.join(' ');
+    }
+
+    private qualify(scope: string, name: string): string {
+        return scope ? `${scope}.${name}` : name;
+    }
+
+    /**
+     * Skips to the end of the statement, including `[options]` and nested
+     * `{ ... }` blocks.
+     */
+    private skipStatement(current?: string): void {
+        if (current === ';') {
+            return;
+        }
+
+        while (this.peek()) {
+            const { value } = this.next();
+
+            if (value === ';') {
+                return;
+            }
+
+            if (value === '{') {
+                this.skipBlock();
+                return;
+            }
+        }
+    }
+
+    /** Skips to the closing brace, the opening one was already consumed. */
+    private skipBlock(): void {
+        let depth = 1;
+
+        while (this.peek() && depth > 0) {
+            const { value } = this.next();
+            depth += value === '{' ? 1 : value === '}' ? -1 : 0;
+        }
+    }
+
+    private expect(value: string): void {
+        if (!this.accept(value)) {
+            // Malformed input: stop instead of guessing the structure
+            this.position = this.tokens.length;
+        }
+    }
+
+    private accept(value: string): boolean {
+        if (this.peek()?.value === value) {
+            this.position++;
+            return true;
+        }
+
+        return false;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private next(): Token | undefined {
+        return this.tokens[this.position++];
+    }
+}
@@ -0,0 +1,303 @@
+import * as path from 'path';
+
+import * as ts from 'typescript';
+
+import { ApiElement } from './api-surface';
+
+/** Entry points whose exports are the public API of a package. */
+const ENTRY_POINT_NAMES = [
+    'index.ts',
+    'index.mts',
+    'index.cts',
+    'public-api.ts',
+    'public_api.ts',
+];
+
+export function isTypeScriptApiFile(filename: string): boolean {
+    const basename = path.basename(filename).toLowerCase();
+
+    return (
+        /\.d\.[mc]?ts$/.test(basename) || ENTRY_POINT_NAMES.includes(basename)
+    );
+}
+
+/**
+ * Exported declarations of a declaration file or package entry point:
+ * functions with their parameters and return types, interfaces, type
+ * aliases, classes with their public members, enums and re-exports.
+ */
+export function extractTypeScriptSurface(
+    content: string,
+    filename: string,
+): ApiElement[] {
+    const sourceFile = ts.createSourceFile(
+        filename,
+        content,
+        ts.ScriptTarget.Latest,
+        true,
+    );
+
+    return new TypeScriptSurfaceCollector(sourceFile).collect();
+}
+
+class TypeScriptSurfaceCollector {
+    private readonly elements: ApiElement[] = [];
+
+    constructor(private readonly sourceFile: ts.SourceFile) {}
+
+    collect(): ApiElement[] {
+        for (const statement of this.sourceFile.statements) {
+            if (ts.isExportDeclaration(statement)) {
+                this.addReExports(statement);
+                continue;
+            }
+
+            if (ts.isExportAssignment(statement)) {
+                this.addDeclaration('default', statement);
+                continue;
+            }
+
+            if (!this.isExported(statement)) {
+                continue;
+            }
+
+            const name = this.isDefaultExport(statement)
+                ? 'default'
+                : (statement as ts.DeclarationStatement).name?.getText();
+
+            if (ts.isFunctionDeclaration(statement)) {
+                this.addFunction(name, statement);
+            } else if (ts.isInterfaceDeclaration(statement)) {
+                this.addDeclaration(name, statement);
+                this.addMembers(name, statement.members);
+            } else if (ts.isTypeAliasDeclaration(statement)) {
+                this.addTypeAlias(name, statement);
+            } else if (ts.isClassDeclaration(statement)) {
+                this.addClass(name, statement);
+            } else if (ts.isEnumDeclaration(statement)) {
+                this.addEnum(name, statement);
+            } else if (ts.isVariableStatement(statement)) {
+                for (const declaration of statement.declarationList
+                    .declarations) {
+                    this.addDeclaration(
+                        declaration.name.getText(),
+                        declaration,
+                        declaration.type?.getText(),
+                    );
+                }
+            }
+        }
+
+        return this.elements;
+    }
+
+    private addFunction(name: string, node: ts.FunctionDeclaration): void {
+        this.addDeclaration(name, node);
+        this.addParameters(name, name, node.parameters);
+
+        if (node.type) {
+            this.elements.push({
+                key: `${name}()`,
+                kind: 'field',
+                symbol: `${name}() return type`,
+                parent: name,
+                type: node.type.getText(),
+                direction: 'output',
+                line: this.getLine(node.type),
+            });
+        }
+    }
+
+    private addTypeAlias(name: string, node: ts.TypeAliasDeclaration): void {
+        if (ts.isTypeLiteralNode(node.type)) {
+            this.addDeclaration(name, node);
+            this.addMembers(name, node.type.members);
+            return;
+        }
+
+        this.addDeclaration(name, node, node.type.getText());
+    }
+
+    private addClass(name: string, node: ts.ClassDeclaration): void {
+        this.addDeclaration(name, node);
+
+        for (const member of node.members) {
+            if (ts.isConstructorDeclaration(member)) {
+                this.addParameters(name, `new ${name}`, member.parameters);
+                continue;
+            }
+
+            if (!member.name || !this.isPublicMember(member)) {
+                continue;
+            }
+
+            if (
+                ts.isPropertyDeclaration(member) ||
+                ts.isMethodDeclaration(member) ||
+                ts.isGetAccessorDeclaration(member)
+            ) {
+                // Classes implement their own members, adding one is safe
+                this.addMember(name, member, false);
+            }
+        }
+    }
+
+    private addEnum(name: string, node: ts.EnumDeclaration): void {
+        this.addDeclaration(name, node);
+
+        node.members.forEach((member, index) => {
+            const memberName = `${name}.${member.name.getText()}`;
+
+            this.elements.push({
+                key: memberName,
+                kind: 'enum_member',
+                symbol: memberName,
+                parent: name,
+                value: member.initializer?.getText(),
+                index,
+                line: this.getLine(member),
+            });
+        });
+    }
+
+    private addReExports(node: ts.ExportDeclaration): void {
+        const from = node.moduleSpecifier?.getText();
+
+        if (!node.exportClause) {
+            this.addDeclaration(`* from ${from}`, node);
+            return;
+        }
+
+        if (ts.isNamespaceExport(node.exportClause)) {
+            this.addDeclaration(node.exportClause.name.getText(), node);
+            return;
+        }
+
+        for (const specifier of node.exportClause.elements) {
+            this.addDeclaration(specifier.name.getText(), specifier);
+        }
+    }
+
+    private addMembers(
+        parent: string,
+        members: ts.NodeArray<ts.TypeElement>,
+    ): void {
+        for (const member of members) {
+            if (
+                ts.isPropertySignature(member) ||
+                ts.isMethodSignature(member)
+            ) {
+                this.addMember(parent, member);
+            }
+        }
+    }
+
+    private addMember(
+        parent: string,
+        member:
+            | ts.PropertySignature
+            | ts.MethodSignature
+            | ts.PropertyDeclaration
+            | ts.MethodDeclaration
+            | ts.GetAccessorDeclaration,
+        trackRequired = true,
+    ): void {
+        const type =
+            ts.isMethodSignature(member) || ts.isMethodDeclaration(member)
+                ? `(${member.parameters.map((parameter) => parameter.getText()).join(', ')}) => ${member.type?.getText() ?? 'void'}`
+                : member.type?.getText();
+
+        this.elements.push({
+            key: `${parent}.${member.name.getText()}`,
+            kind: 'field',
+            symbol: `${parent}.${member.name.getText()}`,
+            parent,
+            type,
+            required: trackRequired
+                ? !('questionToken' in member && member.questionToken)
+                : undefined,
+            line: this.getLine(member),
+        });
+    }
+
+    /** Parameters are matched by position, renaming one does not break callers. */
+    private addParameters(
+        parent: string,
+        symbolPrefix: string,
+        parameters: ts.NodeArray<ts.ParameterDeclaration>,
+    ): void {
+        parameters.forEach((parameter, index) => {
+            this.elements.push({
+                key: `${parent}(#${index})`,
+                kind: 'parameter',
+                symbol: `${symbolPrefix}(${parameter.name.getText()})`,
+                parent,
+                type: parameter.type?.getText(),
+                required:
+                    !parameter.questionToken &&
+                    !parameter.initializer &&
+                    !parameter.dotDotDotToken,
+                direction: 'input',
+                line: this.getLine(parameter),
+            });
+        });
+    }
+
+    private addDeclaration(name: string, node: ts.Node, type?: string): void {
+        this.elements.push({
+            key: name,
+            kind: 'type',
+            symbol: name,
+            type,
+            line: this.getLine(node),
+        });
+    }
+
+    private isExported(node: ts.Statement): boolean {
+        return (
+            ts.canHaveModifiers(node) &&
+            !!ts
+                .getModifiers(node)
+                ?.some(
+                    (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword,
+                )
+        );
+    }
+
+    private isDefaultExport(node: ts.Statement): boolean {
+        return (
+            ts.canHaveModifiers(node) &&
+            !!ts
+                .getModifiers(node)
+                ?.some(
+                    (modifier) =>
+                        modifier.kind === ts.SyntaxKind.DefaultKeyword,
+                )
+        );
+    }
+
+    private isPublicMember(member: ts.ClassElement): boolean {
+        if (member.name && ts.isPrivateIdentifier(member.name)) {
+            return false;
+        }
+
+        return !(
+            ts.canHaveModifiers(member) &&
+            ts
+                .getModifiers(member)
+                ?.some(
+                    (modifier) =>
+                        modifier.kind === ts.SyntaxKind.PrivateKeyword ||
+                        modifier.kind === ts.SyntaxKind.ProtectedKeyword,
+                )
+        );
+    }
+
+    private getLine(node: ts.Node): number {
+        return (
+            this.sourceFile.getLineAndCharacterOfPosition(
+                node.getStart(this.sourceFile),
+            ).line + 1
+        );
+    }
+}
@@ -54,6 +54,16 @@ export class CodeReviewFeedbackService implements ICodeReviewFeedbackService {
         );
     }
 
+    findBySuggestionIds(
+        organizationId: string,
+        suggestionIds: string[],
+    ): Promise<CodeReviewFeedbackEntity[]> {
+        return this.codeReviewFeedbackRepository.findBySuggestionIds(
+            organizationId,
+            suggestionIds,
+        );
+    }
+
     getByOrganizationId(
         organizationId: string,
     ): Promise<CodeReviewFeedbackEntity[]> {
@@ -19,6 +19,7 @@ import {
     CodeSuggestion,
     Comment,
     CommentResult,
+    CustomCategory,
     FileChange,
     SummaryConfig,
 } from '@libs/core/infrastructure/config/types/general/codeReview.type';
@@ -719,6 +720,7 @@ export class CommentManagerService implements ICommentManagerService {
         language: string,
         dryRun: CodeReviewPipelineContext['dryRun'],
         suggestionCopyPrompt?: boolean,
+        customCategories?: CustomCategory[],
     ): Promise<{
         lastAnalyzedCommit: any;
         commits: any[];
@@ -787,6 +789,7 @@ export class CommentManagerService implements ICommentManagerService {
                                 language,
                                 dryRun,
                                 suggestionCopyPrompt,
+                                customCategories,
                             },
                             dryRun?.enabled ? PlatformType.INTERNAL : undefined,
                         );
@@ -178,6 +178,7 @@ export class CrossFileAnalysisService {
             model: provider,
             data: preparedFiles,
             usagePercentage: this.DEFAULT_USAGE_LLM_MODEL_PERCENTAGE,
+            byokConfig: context?.codeReviewConfig?.byokConfig,
         });
 
         this.logger.log({
@@ -0,0 +1,115 @@
+import { Injectable } from '@nestjs/common';
+import { Linter } from 'eslint';
+import { parser as tsParser } from 'typescript-eslint';
+
+import {
+    ILinterRunner,
+    LintFinding,
+} from '@libs/code-review/domain/contracts/LintingService.contract';
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+
+import {
+    getExtension,
+    isTypeScriptFile,
+    sliceLines,
+    TS_JS_EXTENSIONS,
+} from './linting.utils';
+
+/**
+ * Bundled rule set. Only rules that point at real defects and do not depend
+ * on project configuration (globals, tsconfig, plugins) are enabled, so the
+ * findings make sense on any repository.
+ */
+const BUNDLED_RULES: Linter.RulesRecord = {
+    'for-direction': 'error',
+    'no-async-promise-executor': 'error',
+    'no-compare-neg-zero': 'error',
+    'no-cond-assign': 'error',
+    'no-constant-binary-expression': 'error',
+    'no-debugger': 'error',
+    'no-dupe-else-if': 'error',
+    'no-dupe-keys': 'error',
+    'no-duplicate-case': 'error',
+    'no-empty-pattern': 'error',
+    'no-loss-of-precision': 'error',
+    'no-self-assign': 'error',
+    'no-self-compare': 'error',
+    'no-sparse-arrays': 'warn',
+    'no-unreachable': 'error',
+    'no-unsafe-finally': 'error',
+    'no-unsafe-negation': 'error',
+    'no-unsafe-optional-chaining': 'error',
+    'use-isnan': 'error',
+    'valid-typeof': 'error',
+    'eqeqeq': ['warn', 'always', { null: 'ignore' }],
+};
+
+@Injectable()
+export class EslintLinterRunner implements ILinterRunner {
+    readonly name = 'eslint';
+
+    private readonly linter = new Linter({ configType: 'flat' });
+
+    supports(filename: string): boolean {
+        return TS_JS_EXTENSIONS.includes(getExtension(filename));
+    }
+
+    async run(filename: string, content: string): Promise<LintFinding[]> {
+        const config: Linter.Config = {
+            files: TS_JS_EXTENSIONS.map((extension) => `**/*${extension}`),
+            languageOptions: {
+                ecmaVersion: 'latest',
+                sourceType: 'module',
+                parserOptions: { ecmaFeatures: { jsx: true } },
+                ...(isTypeScriptFile(filename) ? { parser: tsParser } : {}),
+            },
+            rules: BUNDLED_RULES,
+        };
+
+        const messages = this.linter.verify(content, config, { filename });
+
+        return (
+            messages
+                // Parse errors are reported by the tsc runner
+                .filter((message) => !message.fatal && message.ruleId)
+                .map((message) => {
+                    const line = message.line;
+                    const endLine = message.endLine ?? message.line;
+
+                    return {
+                        source: this.name,
+                        ruleId: message.ruleId,
+                        message: message.message,
+                        severity:
+                            message.severity === 2
+                                ? SeverityLevel.MEDIUM
+                                : SeverityLevel.LOW,
+                        filename,
+                        line,
+                        endLine,
+                        column: message.column,
+                        existingCode: sliceLines(content, line, endLine),
+                        fixedCode: message.fix
+                            ? this.applyFix(content, message.fix, line, endLine)
+                            : undefined,
+                    };
+                })
+        );
+    }
+
+    private applyFix(
+        content: string,
+        fix: Linter.LintMessage['fix'],
+        line: number,
+        endLine: number,
+    ): string {
+        const [start, end] = fix.range;
+        const replaced = content.slice(start, end);
+        const fixed = content.slice(0, start) + fix.text + content.slice(end);
+
+        const lineDelta =
+            fix.text.split('\n').length - replaced.split('\n').length;
+
+        return sliceLines(fixed, line, endLine + lineDelta);
+    }
+}
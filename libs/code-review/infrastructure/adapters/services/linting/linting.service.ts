@@ -0,0 +1,72 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+
+import {
+    ILinterRunner,
+    ILintingService,
+    LINTER_RUNNERS_TOKEN,
+    LintFinding,
+} from '@libs/code-review/domain/contracts/LintingService.contract';
+import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+@Injectable()
+export class LintingService implements ILintingService {
+    private readonly logger = createLogger(LintingService.name);
+
+    constructor(
+        @Inject(LINTER_RUNNERS_TOKEN)
+        private readonly runners: ILinterRunner[],
+    ) {}
+
+    async lintCode(file: FileChange): Promise<LintFinding[]> {
+        const content = file?.fileContent ?? file?.content;
+
+        if (!file?.filename || typeof content !== 'string' || !content) {
+            return [];
+        }
+
+        const runners = (this.runners ?? []).filter((runner) =>
+            runner.supports(file.filename),
+        );
+
+        const results = await Promise.allSettled(
+            runners.map((runner) => runner.run(file.filename, content)),
+        );
+
+        const findings: LintFinding[] = [];
+
+        results.forEach((result, index) => {
+            if (result.status === 'fulfilled') {
+                findings.push(...result.value);
+                return;
+            }
+
+            this.logger.warn({
+                message: `Linter "${runners[index].name}" failed for file ${file.filename}`,
+                context: LintingService.name,
+                error: result.reason,
+                metadata: {
+                    filename: file.filename,
+                    runner: runners[index].name,
+                },
+            });
+        });
+
+        return this.dedupe(findings);
+    }
+
+    private dedupe(findings: LintFinding[]): LintFinding[] {
+        const seen = new Set<string>();
+
+        return findings.filter((finding) => {
+            const key = `${finding.source}:${finding.ruleId}:${finding.line}:${finding.column ?? ''}`;
+
+            if (seen.has(key)) {
+                return false;
+            }
+
+            seen.add(key);
+            return true;
+        });
+    }
+}
@@ -0,0 +1,46 @@
+import { SUPPORTED_LANGUAGES } from '@libs/code-review/domain/contracts/SupportedLanguages';
+
+export const TS_JS_EXTENSIONS = [
+    ...SUPPORTED_LANGUAGES.typescript.extensions,
+    ...SUPPORTED_LANGUAGES.javascript.extensions,
+    '.mjs',
+    '.cjs',
+    '.mts',
+    '.cts',
+];
+
+export function getExtension(filename: string): string {
+    const index = filename?.lastIndexOf('.') ?? -1;
+    return index >= 0 ? filename.slice(index).toLowerCase() : '';
+}
+
+export function isTypeScriptFile(filename: string): boolean {
+    return ['.ts', '.tsx', '.mts', '.cts'].includes(getExtension(filename));
+}
+
+/**
+ * Returns lines `start..end` (1-based, inclusive) of `content`.
+ */
+export function sliceLines(content: string, start: number, end: number) {
+    return content
+        .split('\n')
+        .slice(start - 1, end)
+        .join('\n');
+}
+
+export function getLanguageFromFilename(filename: string): string {
+    const extension = getExtension(filename);
+
+    if (isTypeScriptFile(filename)) {
+        return SUPPORTED_LANGUAGES.typescript.name;
+    }
+
+    const language = Object.values(SUPPORTED_LANGUAGES).find((config) =>
+        config.extensions.includes(extension),
+    );
+
+    return (
+        language?.name ??
+        (TS_JS_EXTENSIONS.includes(extension) ? 'javascript' : '')
+    );
+}
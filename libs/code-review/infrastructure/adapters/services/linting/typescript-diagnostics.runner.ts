@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import * as ts from 'typescript';
+
+import {
+    ILinterRunner,
+    LintFinding,
+} from '@libs/code-review/domain/contracts/LintingService.contract';
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+
+import { getExtension, sliceLines, TS_JS_EXTENSIONS } from './linting.utils';
+
+/**
+ * Reports tsc syntactic diagnostics. Semantic diagnostics need the whole
+ * program (tsconfig, dependencies), which a single PR file does not give us.
+ */
+@Injectable()
+export class TypeScriptDiagnosticsRunner implements ILinterRunner {
+    readonly name = 'tsc';
+
+    supports(filename: string): boolean {
+        return TS_JS_EXTENSIONS.includes(getExtension(filename));
+    }
+
+    async run(filename: string, content: string): Promise<LintFinding[]> {
+        const { diagnostics } = ts.transpileModule(content, {
+            fileName: filename,
+            reportDiagnostics: true,
+            compilerOptions: {
+                target: ts.ScriptTarget.Latest,
+                jsx: ts.JsxEmit.Preserve,
+            },
+        });
+
+        return (diagnostics ?? [])
+            .filter((diagnostic) => diagnostic.start !== undefined)
+            .map((diagnostic) => {
+                const sourceFile =
+                    diagnostic.file ??
+                    ts.createSourceFile(
+                        filename,
+                        content,
+                        ts.ScriptTarget.Latest,
+                    );
+
+                const start = sourceFile.getLineAndCharacterOfPosition(
+                    diagnostic.start,
+                );
+                const end = sourceFile.getLineAndCharacterOfPosition(
+                    diagnostic.start + (diagnostic.length ?? 0),
+                );
+
+                return {
+                    source: this.name,
+                    ruleId: `TS${diagnostic.code}`,
+                    message: ts.flattenDiagnosticMessageText(
+                        diagnostic.messageText,
+                        '\n',
+                    ),
+                    severity:
+                        diagnostic.category === ts.DiagnosticCategory.Error
+                            ? SeverityLevel.HIGH
+                            : SeverityLevel.LOW,
+                    filename,
+                    line: start.line + 1,
+                    endLine: end.line + 1,
+                    column: start.character + 1,
+                    existingCode: sliceLines(
+                        content,
+                        start.line + 1,
+                        end.line + 1,
+                    ),
+                };
+            });
+    }
+}
@@ -393,6 +393,7 @@ ${JSON.stringify(context?.suggestions) || 'No suggestions provided'}
                 context?.activeOverrides ??
                 getOverridesFromPack(context?.sharedContextPack) ??
                 context?.codeReviewConfig?.v2PromptOverrides,
+            customCategories: context?.codeReviewConfig?.customCategories,
             // External prompt context (referenced files)
             externalPromptContext: context?.externalPromptContext,
             externalPromptLayers: context?.externalPromptLayers,
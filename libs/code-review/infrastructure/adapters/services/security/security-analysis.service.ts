@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+
+import {
+    ISecurityAnalysisService,
+    SecurityFinding,
+    SecurityRuleCategory,
+} from '@libs/code-review/domain/contracts/SecurityAnalysisService.contract';
+import { SupportedLanguage } from '@libs/code-review/domain/contracts/SupportedLanguages';
+import { getLanguageFromFilename } from '@libs/code-review/infrastructure/adapters/services/linting/linting.utils';
+import {
+    AddedLine,
+    extractAddedLinesFromPatch,
+} from '@libs/common/utils/patch';
+import { FileChange } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+import { SECURITY_RULES, SecurityRule } from './security-rules';
+
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*|#(?![[!])|--|<!--)/;
+
+/** Lines longer than this are minified/generated and not worth matching. */
+const MAX_LINE_LENGTH = 1000;
+
+/**
+ * Rule-based security scanner. Matches the added lines of a patch (or the
+ * whole file when no patch is available) against a fixed rule table, so the
+ * same input always produces the same findings and severities.
+ */
+@Injectable()
+export class SecurityAnalysisService implements ISecurityAnalysisService {
+    async analyzeSecurity(file: FileChange): Promise<SecurityFinding[]> {
+        if (!file?.filename || file.status === 'removed') {
+            return [];
+        }
+
+        const lines = this.getLinesToScan(file);
+
+        if (!lines.length) {
+            return [];
+        }
+
+        const language = getLanguageFromFilename(
+            file.filename,
+        ) as SupportedLanguage;
+
+        const rules = SECURITY_RULES.filter(
+            (rule) => !rule.languages || rule.languages.includes(language),
+        );
+
+        return lines.flatMap((line) =>
+            this.scanLine(file.filename, line, rules),
+        );
+    }
+
+    private getLinesToScan(file: FileChange): AddedLine[] {
+        if (file.patch) {
+            return extractAddedLinesFromPatch(file.patch);
+        }
+
+        const content = file.fileContent ?? file.content;
+
+        if (typeof content !== 'string' || !content) {
+            return [];
+        }
+
+        return content.split('\n').map((lineContent, index) => ({
+            line: index + 1,
+            content: lineContent,
+        }));
+    }
+
+    private scanLine(
+        filename: string,
+        { line, content }: AddedLine,
+        rules: SecurityRule[],
+    ): SecurityFinding[] {
+        if (!content.trim() || content.length > MAX_LINE_LENGTH) {
+            return [];
+        }
+
+        const isComment = COMMENT_LINE.test(content);
+        // One finding per category and line: the rule table lists the most
+        // specific rules first (e.g. AWS key before generic credential)
+        const reportedCategories = new Set<SecurityRuleCategory>();
+        const findings: SecurityFinding[] = [];
+
+        for (const rule of rules) {
+            if (reportedCategories.has(rule.category)) {
+                continue;
+            }
+
+            if (isComment && !rule.matchInComments) {
+                continue;
+            }
+
+            const match = content.match(rule.pattern);
+
+            if (!match || rule.exclude?.test(content)) {
+                continue;
+            }
+
+            reportedCategories.add(rule.category);
+            findings.push({
+                ruleId: rule.id,
+                category: rule.category,
+                title: rule.title,
+                description: rule.description,
+                severity: rule.severity,
+                filename,
+                line,
+                existingCode: rule.maskMatch
+                    ? content.replace(match[0], this.maskSecret(match[0]))
+                    : content,
+            });
+        }
+
+        return findings;
+    }
+
+    /**
+     * Keeps the first characters of the secret so the author can recognize
+     * it, and hides the rest. For `key = "value"` matches only the quoted
+     * value is masked.
+     */
+    private maskSecret(secret: string): string {
+        const quoted = secret.match(/(["'])([^"']+)\1\s*$/);
+
+        if (quoted) {
+            return secret.replace(
+                quoted[0],
+                `${quoted[1]}${this.mask(quoted[2])}${quoted[1]}`,
+            );
+        }
+
+        return this.mask(secret);
+    }
+
+    private mask(value: string): string {
+        const visible = Math.min(4, Math.floor(value.length / 4));
+        return `${value.slice(0, visible)}${'*'.repeat(8)}`;
+    }
+}
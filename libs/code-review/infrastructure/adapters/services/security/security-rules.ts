@@ -0,0 +1,410 @@
+import { SecurityRuleCategory } from '@libs/code-review/domain/contracts/SecurityAnalysisService.contract';
+import { SupportedLanguage } from '@libs/code-review/domain/contracts/SupportedLanguages';
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+
+export interface SecurityRule {
+    id: string;
+    category: SecurityRuleCategory;
+    title: string;
+    /** Why it matters and how to fix it; rendered as the suggestion body. */
+    description: string;
+    severity: SeverityLevel;
+    pattern: RegExp;
+    /** Restricts the rule to these languages. All files when omitted. */
+    languages?: SupportedLanguage[];
+    /** Lines matching this pattern are not reported (placeholders, env lookups). */
+    exclude?: RegExp;
+    /** Secrets must be masked before they are echoed back in a comment. */
+    maskMatch?: boolean;
+    /** Secrets leak from comments too; code sinks do not. */
+    matchInComments?: boolean;
+}
+
+const PLACEHOLDER_VALUES =
+    /process\.env|os\.environ|os\.getenv|getenv\(|System\.getenv|ENV\[|\$\{|<[^>]+>|\b(changeme|change_me|example|dummy|placeholder|your[_-]|xxx+|\*{3,}|todo|redacted)/i;
+
+const SECRET_RULES: SecurityRule[] = [
+    {
+        id: 'secret-private-key',
+        category: SecurityRuleCategory.HARDCODED_SECRET,
+        title: 'Private key committed to the repository',
+        description:
+            'A PEM private key block was added. Anyone with read access to the repository (and its history) can impersonate the key owner. Remove the key, rotate it, and load it from a secret manager or environment variable.',
+        severity: SeverityLevel.CRITICAL,
+        pattern:
+            /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/,
+        matchInComments: true,
+    },
+    {
+        id: 'secret-aws-access-key',
+        category: SecurityRuleCategory.HARDCODED_SECRET,
+        title: 'Hard-coded AWS access key',
+        description:
+            'An AWS access key id was added to the source. Revoke the key in IAM, and read credentials from the environment, an instance role or a secret manager instead.',
+        severity: SeverityLevel.CRITICAL,
+        pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+        maskMatch: true,
+        matchInComments: true,
+    },
+    {
+        id: 'secret-github-token',
+        category: SecurityRuleCategory.HARDCODED_SECRET,
+        title: 'Hard-coded GitHub token',
+        description:
+            'A GitHub token was added to the source. Revoke it in the GitHub settings and inject it at runtime through a secret.',
+        severity: SeverityLevel.CRITICAL,
+        pattern:
+            /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/,
+        maskMatch: true,
+        matchInComments: true,
+    },
+    {
+        id: 'secret-slack-token',
+        category: SecurityRuleCategory.HARDCODED_SECRET,
+        title: 'Hard-coded Slack token',
+        description:
+            'A Slack token was added to the source. Revoke it and load it from a secret store at runtime.',
+        severity: SeverityLevel.CRITICAL,
+        pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/,
+        maskMatch: true,
+        matchInComments: true,
+    },
+    {
+        id: 'secret-stripe-live-key',
+        category: SecurityRuleCategory.HARDCODED_SECRET,
+        title: 'Hard-coded Stripe live key',
+        description:
+            'A live Stripe secret key was added to the source. Roll the key in the Stripe dashboard and load it from the environment.',
+        severity: SeverityLevel.CRITICAL,
+        pattern: /\b[rs]k_live_[0-9a-zA-Z]{20,}\b/,
+        maskMatch: true,
+        matchInComments: true,
+    },
+    {
+        id: 'secret-google-api-key',
+        category: SecurityRuleCategory.HARDCODED_SECRET,
+        title: 'Hard-coded Google API key',
+        description:
+            'A Google API key was added to the source. Restrict or regenerate the key and load it from configuration.',
+        severity: SeverityLevel.HIGH,
+        pattern: /\bAIza[0-9A-Za-z_-]{35}\b/,
+        maskMatch: true,
+        matchInComments: true,
+    },
+    {
+        id: 'secret-generic-credential',
+        category: SecurityRuleCategory.HARDCODED_SECRET,
+        title: 'Hard-coded credential',
+        description:
+            'A password, token or API key literal is assigned in the source. Credentials in code end up in every clone and in the git history; read them from the environment or a secret manager.',
+        severity: SeverityLevel.HIGH,
+        pattern:
+            /\b[\w-]*(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)\b["']?\s*(?::=|=>|[:=])\s*["'][^"'\s]{8,}["']/i,
+        exclude: PLACEHOLDER_VALUES,
+        maskMatch: true,
+        matchInComments: true,
+    },
+];
+
+const SQL_INJECTION_RULES: SecurityRule[] = [
+    {
+        id: 'sqli-js-dynamic-query',
+        category: SecurityRuleCategory.SQL_INJECTION,
+        title: 'SQL query built from string concatenation or interpolation',
+        description:
+            'The query text passed to the database driver is built dynamically. If any part comes from user input this is a SQL injection. Use parameterized queries (placeholders + values array) or the query builder instead.',
+        severity: SeverityLevel.HIGH,
+        languages: ['typescript', 'javascript'],
+        pattern:
+            /\.(?:query|execute|raw|\$queryRawUnsafe|\$executeRawUnsafe)\s*\(\s*(?:`[^`]*\$\{|["'][^"']*["']\s*\+)/,
+    },
+    {
+        id: 'sqli-python-dynamic-query',
+        category: SecurityRuleCategory.SQL_INJECTION,
+        title: 'SQL query built with string formatting',
+        description:
+            'The SQL passed to `execute` is formatted in Python before reaching the driver. Pass the values as the second argument of `execute` so the driver escapes them.',
+        severity: SeverityLevel.HIGH,
+        languages: ['python'],
+        pattern:
+            /\b(?:execute|executemany|raw)\s*\(\s*(?:[fF]["']|["'][^"']*["']\s*(?:%|\+|\.format\s*\())/,
+    },
+    {
+        id: 'sqli-java-dynamic-query',
+        category: SecurityRuleCategory.SQL_INJECTION,
+        title: 'SQL query built from string concatenation',
+        description:
+            'A JDBC/JPA query is concatenated from strings. Use a `PreparedStatement` with `?` placeholders or named parameters.',
+        severity: SeverityLevel.HIGH,
+        languages: ['java'],
+        pattern:
+            /\b(?:executeQuery|executeUpdate|execute|addBatch|prepareStatement|createQuery|createNativeQuery)\s*\(\s*"[^"]*"\s*\+/,
+    },
+    {
+        id: 'sqli-go-dynamic-query',
+        category: SecurityRuleCategory.SQL_INJECTION,
+        title: 'SQL query built with fmt.Sprintf or concatenation',
+        description:
+            'The query passed to `database/sql` is formatted before execution. Pass the values as query arguments (`$1`, `?`) instead.',
+        severity: SeverityLevel.HIGH,
+        languages: ['go'],
+        pattern:
+            /\.(?:Query|QueryRow|Exec)(?:Context)?\s*\(\s*(?:ctx\s*,\s*)?(?:fmt\.Sprintf\s*\(|"[^"]*"\s*\+)/,
+    },
+    {
+        id: 'sqli-php-request-input',
+        category: SecurityRuleCategory.SQL_INJECTION,
+        title: 'Request input used directly in a SQL query',
+        description:
+            'Superglobal request data reaches a SQL query. Use PDO/mysqli prepared statements with bound parameters.',
+        severity: SeverityLevel.CRITICAL,
+        languages: ['php'],
+        pattern:
+            /\b(?:mysql_query|mysqli_query|pg_query|->query|->exec)\s*\(.*\$_(?:GET|POST|REQUEST|COOKIE)/,
+    },
+    {
+        id: 'sqli-ruby-dynamic-query',
+        category: SecurityRuleCategory.SQL_INJECTION,
+        title: 'SQL fragment built with string interpolation',
+        description:
+            'An ActiveRecord SQL fragment interpolates values. Use placeholders (`where("name = ?", name)`) or hash conditions.',
+        severity: SeverityLevel.HIGH,
+        languages: ['ruby'],
+        pattern:
+            /\.(?:where|find_by_sql|execute|order|joins|select)\s*\(\s*"[^"]*#\{/,
+    },
+];
+
+const COMMAND_INJECTION_RULES: SecurityRule[] = [
+    {
+        id: 'cmdi-js-exec',
+        category: SecurityRuleCategory.COMMAND_INJECTION,
+        title: 'Shell command built dynamically',
+        description:
+            '`exec`/`execSync` run the string through a shell. Interpolated values can inject extra commands. Use `execFile`/`spawn` with an argument array and no shell.',
+        severity: SeverityLevel.HIGH,
+        languages: ['typescript', 'javascript'],
+        pattern:
+            /\b(?:exec|execSync)\s*\(\s*(?:`[^`]*\$\{|["'][^"']*["']\s*\+|[A-Za-z_$][\w$.]*\s*\+)/,
+    },
+    {
+        id: 'cmdi-js-spawn-shell',
+        category: SecurityRuleCategory.COMMAND_INJECTION,
+        title: 'Process spawned with `shell: true`',
+        description:
+            'With `shell: true` the arguments are interpreted by a shell, which reintroduces command injection. Drop the option and pass arguments as an array.',
+        severity: SeverityLevel.MEDIUM,
+        languages: ['typescript', 'javascript'],
+        pattern:
+            /\b(?:spawn|spawnSync|execFile|execFileSync)\s*\(.*shell\s*:\s*true/,
+    },
+    {
+        id: 'cmdi-python-shell',
+        category: SecurityRuleCategory.COMMAND_INJECTION,
+        title: 'Command executed through the shell',
+        description:
+            '`os.system`, `os.popen` and `subprocess` with `shell=True` pass the command to a shell. Use `subprocess.run([...])` with an argument list and `shell=False`.',
+        severity: SeverityLevel.HIGH,
+        languages: ['python'],
+        pattern:
+            /\bos\.(?:system|popen)\s*\(|\bsubprocess\.\w+\s*\(.*shell\s*=\s*True/,
+    },
+    {
+        id: 'cmdi-java-runtime-exec',
+        category: SecurityRuleCategory.COMMAND_INJECTION,
+        title: 'Runtime.exec with a concatenated command',
+        description:
+            'The command passed to `Runtime.exec` is concatenated from strings. Use `ProcessBuilder` with a fixed executable and separate arguments.',
+        severity: SeverityLevel.HIGH,
+        languages: ['java'],
+        pattern:
+            /Runtime\.getRuntime\(\)\.exec\s*\(\s*(?:"[^"]*"\s*\+|\w+\s*\+)/,
+    },
+    {
+        id: 'cmdi-go-shell',
+        category: SecurityRuleCategory.COMMAND_INJECTION,
+        title: 'Command executed through `sh -c`',
+        description:
+            '`exec.Command("sh", "-c", ...)` hands the string to a shell. Call the binary directly with separate arguments.',
+        severity: SeverityLevel.HIGH,
+        languages: ['go'],
+        pattern:
+            /exec\.Command(?:Context)?\s*\([^)]*"(?:sh|bash|\/bin\/sh|\/bin\/bash)"\s*,\s*"-c"/,
+    },
+    {
+        id: 'cmdi-php-shell',
+        category: SecurityRuleCategory.COMMAND_INJECTION,
+        title: 'Shell function called with a variable',
+        description:
+            'A shell execution function receives a variable. Escape every argument with `escapeshellarg` or avoid the shell entirely.',
+        severity: SeverityLevel.HIGH,
+        languages: ['php'],
+        pattern:
+            /\b(?:shell_exec|system|passthru|exec|popen|proc_open)\s*\(\s*[^)]*\$/,
+        exclude: /escapeshellarg|escapeshellcmd/,
+    },
+    {
+        id: 'cmdi-ruby-interpolated-shell',
+        category: SecurityRuleCategory.COMMAND_INJECTION,
+        title: 'Shell command with string interpolation',
+        description:
+            'Backticks, `%x` and single-string `system` calls run through a shell. Use `system(cmd, arg1, arg2)` or `Open3` with separate arguments.',
+        severity: SeverityLevel.HIGH,
+        languages: ['ruby'],
+        pattern:
+            /`[^`]*#\{|%x[({[][^)}\]]*#\{|\b(?:system|exec|spawn)\s*\(?\s*"[^"]*#\{/,
+    },
+];
+
+const DESERIALIZATION_RULES: SecurityRule[] = [
+    {
+        id: 'deser-python-pickle',
+        category: SecurityRuleCategory.UNSAFE_DESERIALIZATION,
+        title: 'Unsafe deserialization with pickle/marshal',
+        description:
+            'Unpickling attacker-controlled data executes arbitrary code. Use a data-only format such as JSON, or sign and verify the payload before loading it.',
+        severity: SeverityLevel.HIGH,
+        languages: ['python'],
+        pattern:
+            /\b(?:c?[Pp]ickle|dill|shelve|marshal|jsonpickle)\.(?:loads?|Unpickler|decode|open)\s*\(/,
+    },
+    {
+        id: 'deser-python-yaml-load',
+        category: SecurityRuleCategory.UNSAFE_DESERIALIZATION,
+        title: '`yaml.load` without a safe loader',
+        description:
+            '`yaml.load` with the default/full loader can construct arbitrary Python objects. Use `yaml.safe_load` or pass `Loader=yaml.SafeLoader`.',
+        severity: SeverityLevel.HIGH,
+        languages: ['python'],
+        pattern: /\byaml\.(?:load|load_all|unsafe_load)\s*\(/,
+        exclude: /Loader\s*=\s*(?:yaml\.)?C?SafeLoader/,
+    },
+    {
+        id: 'deser-java-object-input-stream',
+        category: SecurityRuleCategory.UNSAFE_DESERIALIZATION,
+        title: 'Java native deserialization',
+        description:
+            '`ObjectInputStream`/`XMLDecoder` on untrusted input allows gadget-chain remote code execution. Prefer JSON, or install an `ObjectInputFilter` allow-list.',
+        severity: SeverityLevel.HIGH,
+        languages: ['java'],
+        pattern: /\bnew\s+(?:ObjectInputStream|XMLDecoder)\s*\(/,
+    },
+    {
+        id: 'deser-php-unserialize',
+        category: SecurityRuleCategory.UNSAFE_DESERIALIZATION,
+        title: '`unserialize` on request data',
+        description:
+            '`unserialize` on user input allows object injection. Use `json_decode`, or pass `["allowed_classes" => false]`.',
+        severity: SeverityLevel.CRITICAL,
+        languages: ['php'],
+        pattern: /\bunserialize\s*\(\s*\$_(?:GET|POST|REQUEST|COOKIE)/,
+    },
+    {
+        id: 'deser-ruby-marshal',
+        category: SecurityRuleCategory.UNSAFE_DESERIALIZATION,
+        title: 'Unsafe deserialization with Marshal/YAML',
+        description:
+            '`Marshal.load` and `YAML.load` (Psych < 4) can instantiate arbitrary objects. Use `JSON.parse` or `YAML.safe_load`.',
+        severity: SeverityLevel.HIGH,
+        languages: ['ruby'],
+        pattern:
+            /\b(?:Marshal\.(?:load|restore)|YAML\.(?:load|unsafe_load))\s*\(/,
+    },
+    {
+        id: 'deser-js-node-serialize',
+        category: SecurityRuleCategory.UNSAFE_DESERIALIZATION,
+        title: 'Unsafe deserialization or dynamic code evaluation',
+        description:
+            '`unserialize` from `node-serialize`/`serialize-javascript`, `eval` and `new Function` execute code embedded in the input. Parse data with `JSON.parse` instead.',
+        severity: SeverityLevel.HIGH,
+        languages: ['typescript', 'javascript'],
+        pattern: /\b(?:unserialize|eval)\s*\(|\bnew\s+Function\s*\(/,
+        exclude: /\.eval\s*\(|\beval\s*\(\s*["'`][^"'`]*["'`]\s*\)/,
+    },
+];
+
+const WEAK_CRYPTO_RULES: SecurityRule[] = [
+    {
+        id: 'crypto-js-weak-hash-or-cipher',
+        category: SecurityRuleCategory.WEAK_CRYPTO,
+        title: 'Weak hash or cipher algorithm',
+        description:
+            'MD5, SHA-1, DES, RC4 and ECB mode are broken for security purposes. Use SHA-256+ (or bcrypt/scrypt/argon2 for passwords) and AES-GCM.',
+        severity: SeverityLevel.MEDIUM,
+        languages: ['typescript', 'javascript'],
+        pattern:
+            /\bcreate(?:Hash|Hmac)\s*\(\s*["'`](?:md4|md5|sha1|sha-1)["'`]|\bcreateCipher(?:iv)?\s*\(\s*["'`](?:des|des-ede|des-ede3|rc2|rc4|bf|blowfish|[a-z0-9-]*-ecb)[a-z0-9-]*["'`]|\bcreateCipher\s*\(/i,
+    },
+    {
+        id: 'crypto-python-weak-hash-or-cipher',
+        category: SecurityRuleCategory.WEAK_CRYPTO,
+        title: 'Weak hash or cipher algorithm',
+        description:
+            'MD5, SHA-1, DES and RC4 are broken for security purposes. Use `hashlib.sha256` (or a password KDF) and AES-GCM from `cryptography`.',
+        severity: SeverityLevel.MEDIUM,
+        languages: ['python'],
+        pattern:
+            /\bhashlib\.(?:md5|sha1)\s*\(|\bhashlib\.new\s*\(\s*["'](?:md5|sha1)["']|\b(?:DES|DES3|ARC4|Blowfish)\.new\s*\(|modes\.ECB\s*\(/,
+        exclude: /usedforsecurity\s*=\s*False/,
+    },
+    {
+        id: 'crypto-java-weak-hash-or-cipher',
+        category: SecurityRuleCategory.WEAK_CRYPTO,
+        title: 'Weak hash or cipher algorithm',
+        description:
+            'MD5, SHA-1, DES, RC4 and ECB mode are broken for security purposes. Use SHA-256+ and `AES/GCM/NoPadding`.',
+        severity: SeverityLevel.MEDIUM,
+        languages: ['java'],
+        pattern:
+            /MessageDigest\.getInstance\s*\(\s*"(?:MD2|MD5|SHA-?1)"|Cipher\.getInstance\s*\(\s*"(?:DES|DESede|RC2|RC4|Blowfish|AES"|AES\/ECB|[^"]*\/ECB\/)/i,
+    },
+    {
+        id: 'crypto-go-weak-package',
+        category: SecurityRuleCategory.WEAK_CRYPTO,
+        title: 'Weak crypto package imported',
+        description:
+            '`crypto/md5`, `crypto/sha1`, `crypto/des` and `crypto/rc4` are broken for security purposes. Use `crypto/sha256` and `crypto/aes` with GCM.',
+        severity: SeverityLevel.MEDIUM,
+        languages: ['go'],
+        pattern: /"crypto\/(?:md5|sha1|des|rc4)"/,
+    },
+    {
+        id: 'crypto-php-weak-hash',
+        category: SecurityRuleCategory.WEAK_CRYPTO,
+        title: 'Weak hash used for a password or token',
+        description:
+            'MD5/SHA-1 are unsuitable for passwords or tokens. Use `password_hash`/`password_verify` or `hash("sha256", ...)`.',
+        severity: SeverityLevel.MEDIUM,
+        languages: ['php'],
+        pattern: /\b(?:md5|sha1)\s*\(\s*\$\w*(?:pass|pwd|token|secret)/i,
+    },
+    {
+        id: 'crypto-ruby-weak-hash',
+        category: SecurityRuleCategory.WEAK_CRYPTO,
+        title: 'Weak hash algorithm',
+        description:
+            '`Digest::MD5` and `Digest::SHA1` are broken for security purposes. Use `Digest::SHA256` or `BCrypt` for passwords.',
+        severity: SeverityLevel.MEDIUM,
+        languages: ['ruby'],
+        pattern:
+            /\bDigest::(?:MD5|SHA1)\b|OpenSSL::Cipher.new\s*\(\s*["'](?:des|rc4)/i,
+    },
+    {
+        id: 'crypto-tls-verification-disabled',
+        category: SecurityRuleCategory.WEAK_CRYPTO,
+        title: 'TLS certificate verification disabled',
+        description:
+            'Turning off certificate verification allows man-in-the-middle attacks. Keep verification on and configure the trusted CA instead.',
+        severity: SeverityLevel.HIGH,
+        pattern:
+            /rejectUnauthorized\s*:\s*false|NODE_TLS_REJECT_UNAUTHORIZED["']?\s*[\]=:]\s*["']?0|\bverify\s*=\s*False\b|InsecureSkipVerify\s*:\s*true|CURLOPT_SSL_VERIFYPEER\s*,\s*(?:false|0)|VERIFY_NONE/,
+    },
+];
+
+export const SECURITY_RULES: SecurityRule[] = [
+    ...SECRET_RULES,
+    ...SQL_INJECTION_RULES,
+    ...COMMAND_INJECTION_RULES,
+    ...DESERIALIZATION_RULES,
+    ...WEAK_CRYPTO_RULES,
+];
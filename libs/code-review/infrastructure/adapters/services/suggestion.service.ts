@@ -1007,6 +1007,7 @@ export class SuggestionService implements ISuggestionService {
             refactoring: 8,
             code_style: 9,
             documentation_and_comments: 10,
+            linting: 11,
         };
 
         const sortedSuggestions = [...suggestions].sort((a, b) => {
@@ -1534,6 +1535,7 @@ export class SuggestionService implements ISuggestionService {
             maintainability: 20,
             refactoring: 15,
             code_style: 10,
+            linting: 10,
             documentation_and_comments: 5,
         };
 
@@ -1636,6 +1638,10 @@ export class SuggestionService implements ISuggestionService {
                         label: suggestion.label as LabelType,
                         severity: suggestion.severity as SeverityLevel,
                         brokenKodyRulesIds: suggestion.brokenKodyRulesIds || [],
+                        ...(suggestion.brokenKodyRulesRevisions && {
+                            brokenKodyRulesRevisions:
+                                suggestion.brokenKodyRulesRevisions,
+                        }),
                         priorityStatus: PriorityStatus.PRIORITIZED, // Default para PR level
                         deliveryStatus: result.deliveryStatus as DeliveryStatus,
                         comment: result.codeReviewFeedbackData
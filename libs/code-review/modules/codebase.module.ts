@@ -29,6 +29,10 @@ import {
     KODY_RULES_ANALYSIS_SERVICE_TOKEN,
     KodyRulesAnalysisService,
 } from '@libs/ee/codeBase/kodyRulesAnalysis.service';
+import {
+    KODY_RULES_DETERMINISTIC_ANALYSIS_SERVICE_TOKEN,
+    KodyRulesDeterministicAnalysisService,
+} from '@libs/ee/codeBase/kodyRulesDeterministicAnalysis.service';
 import {
     KODY_RULES_PR_LEVEL_ANALYSIS_SERVICE_TOKEN,
     KodyRulesPrLevelAnalysisService,
@@ -45,6 +49,7 @@ import { CommentAnalysisService } from '../infrastructure/adapters/services/comm
 import { MessageTemplateProcessor } from '../infrastructure/adapters/services/messageTemplateProcessor.service';
 import { SuggestionEmbeddedModule } from '@libs/kodyFineTuning/suggestionEmbedded.module';
 import { KodyFineTuningContextModule } from '@libs/kodyFineTuning/kodyFineTuningContext.module';
+import { KodyFineTuningDecisionModule } from '@libs/kodyFineTuning/kodyFineTuningDecision.module';
 import { GlobalParametersModule } from '@libs/organization/modules/global-parameters.module';
 import { TokenChunkingModule } from '@libs/core/infrastructure/services/tokenChunking/tokenChunking.module';
 import { KodyRulesModule } from '@libs/kodyRules/modules/kodyRules.module';
@@ -59,6 +64,17 @@ import { codeReviewPipelineProvider } from '@libs/core/providers/code-review-pip
 import { AST_ANALYSIS_SERVICE_TOKEN } from '../domain/contracts/ASTAnalysisService.contract';
 import { CodeAstAnalysisService } from '@libs/ee/kodyAST/codeASTAnalysis.service';
 import { DryRunModule } from '@libs/dryRun/dry-run.module';
+import {
+    LINTER_RUNNERS_TOKEN,
+    LINTING_SERVICE_TOKEN,
+} from '../domain/contracts/LintingService.contract';
+import { LintingService } from '../infrastructure/adapters/services/linting/linting.service';
+import { EslintLinterRunner } from '../infrastructure/adapters/services/linting/eslint.runner';
+import { TypeScriptDiagnosticsRunner } from '../infrastructure/adapters/services/linting/typescript-diagnostics.runner';
+import { SECURITY_ANALYSIS_SERVICE_TOKEN } from '../domain/contracts/SecurityAnalysisService.contract';
+import { SecurityAnalysisService } from '../infrastructure/adapters/services/security/security-analysis.service';
+import { BREAKING_CHANGE_ANALYSIS_SERVICE_TOKEN } from '../domain/contracts/BreakingChangeAnalysisService.contract';
+import { BreakingChangeAnalysisService } from '../infrastructure/adapters/services/breaking-changes/breaking-change-analysis.service';
 
 @Module({
     imports: [
@@ -74,6 +90,7 @@ import { DryRunModule } from '@libs/dryRun/dry-run.module';
         forwardRef(() => FileReviewModule),
         forwardRef(() => CodeReviewPipelineModule),
         forwardRef(() => KodyFineTuningContextModule),
+        forwardRef(() => KodyFineTuningDecisionModule),
         forwardRef(() => KodyASTAnalyzeContextModule),
         forwardRef(() => GlobalParametersModule),
         forwardRef(() => TokenChunkingModule),
@@ -110,6 +127,10 @@ import { DryRunModule } from '@libs/dryRun/dry-run.module';
             provide: KODY_RULES_PR_LEVEL_ANALYSIS_SERVICE_TOKEN,
             useClass: KodyRulesPrLevelAnalysisService,
         },
+        {
+            provide: KODY_RULES_DETERMINISTIC_ANALYSIS_SERVICE_TOKEN,
+            useClass: KodyRulesDeterministicAnalysisService,
+        },
         {
             provide: CROSS_FILE_ANALYSIS_SERVICE_TOKEN,
             useClass: CrossFileAnalysisService,
@@ -129,6 +150,28 @@ import { DryRunModule } from '@libs/dryRun/dry-run.module';
             provide: AST_ANALYSIS_SERVICE_TOKEN,
             useClass: CodeAstAnalysisService,
         },
+        EslintLinterRunner,
+        TypeScriptDiagnosticsRunner,
+        {
+            provide: LINTER_RUNNERS_TOKEN,
+            useFactory: (
+                eslintRunner: EslintLinterRunner,
+                tscRunner: TypeScriptDiagnosticsRunner,
+            ) => [eslintRunner, tscRunner],
+            inject: [EslintLinterRunner, TypeScriptDiagnosticsRunner],
+        },
+        {
+            provide: LINTING_SERVICE_TOKEN,
+            useClass: LintingService,
+        },
+        {
+            provide: SECURITY_ANALYSIS_SERVICE_TOKEN,
+            useClass: SecurityAnalysisService,
+        },
+        {
+            provide: BREAKING_CHANGE_ANALYSIS_SERVICE_TOKEN,
+            useClass: BreakingChangeAnalysisService,
+        },
     ],
     exports: [
         PULL_REQUEST_MANAGER_SERVICE_TOKEN,
@@ -137,6 +180,7 @@ import { DryRunModule } from '@libs/dryRun/dry-run.module';
         CODE_BASE_CONFIG_SERVICE_TOKEN,
         KODY_RULES_ANALYSIS_SERVICE_TOKEN,
         KODY_RULES_PR_LEVEL_ANALYSIS_SERVICE_TOKEN,
+        KODY_RULES_DETERMINISTIC_ANALYSIS_SERVICE_TOKEN,
         CROSS_FILE_ANALYSIS_SERVICE_TOKEN,
         SUGGESTION_SERVICE_TOKEN,
         CodeAnalysisOrchestrator,
@@ -146,6 +190,9 @@ import { DryRunModule } from '@libs/dryRun/dry-run.module';
         MessageTemplateProcessor,
         pipelineProvider,
         AST_ANALYSIS_SERVICE_TOKEN,
+        LINTING_SERVICE_TOKEN,
+        SECURITY_ANALYSIS_SERVICE_TOKEN,
+        BREAKING_CHANGE_ANALYSIS_SERVICE_TOKEN,
     ],
 })
 export class CodebaseModule {}
@@ -11,6 +11,9 @@ import { FinalizeGithubCheckStage } from './stages/finalize-github-check.stage';
 import { UpdateCommentsAndGenerateSummaryStage } from './stages/finish-comments.stage';
 import { RequestChangesOrApproveStage } from './stages/finish-process-review.stage';
 import { InitialCommentStage } from './stages/initial-comment.stage';
+import { LintingStage } from './stages/linting.stage';
+import { SecurityScanStage } from './stages/security-scan.stage';
+import { BreakingChangesStage } from './stages/breaking-changes.stage';
 import { LoadExternalContextStage } from './stages/load-external-context.stage';
 import { ProcessFilesPrLevelReviewStage } from './stages/process-files-pr-level-review.stage';
 import { ProcessFilesReview } from './stages/process-files-review.stage';
@@ -94,6 +97,9 @@ import { CodeReviewPipelineObserver } from '../infrastructure/observers/code-rev
         InitialCommentStage,
         ProcessFilesPrLevelReviewStage,
         ProcessFilesReview,
+        LintingStage,
+        SecurityScanStage,
+        BreakingChangesStage,
         CreatePrLevelCommentsStage,
         CreateFileCommentsStage,
         AggregateResultsStage,
@@ -128,6 +134,9 @@ import { CodeReviewPipelineObserver } from '../infrastructure/observers/code-rev
         UpdateCommentsAndGenerateSummaryStage,
         ProcessFilesPrLevelReviewStage,
         ProcessFilesReview,
+        LintingStage,
+        SecurityScanStage,
+        BreakingChangesStage,
         ResolveConfigStage,
         ValidateConfigStage,
         ValidateNewCommitsStage,
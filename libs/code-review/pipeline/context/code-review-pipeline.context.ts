@@ -16,6 +16,7 @@ import {
 import { Commit } from '@libs/core/infrastructure/config/types/general/commit.type';
 import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
 import { PipelineContext } from '@libs/core/infrastructure/pipeline/interfaces/pipeline-context.interface';
+import { IDryRunConfigVariant } from '@libs/dryRun/domain/interfaces/dryRun.interface';
 import { TaskStatus } from '@libs/ee/kodyAST/interfaces/code-ast-analysis.interface';
 import { IClusterizedSuggestion } from '@libs/kodyFineTuning/domain/interfaces/kodyFineTuning.interface';
 import { ISuggestionByPR } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
@@ -49,6 +50,8 @@ export interface CodeReviewPipelineContext extends PipelineContext {
     dryRun: {
         enabled: boolean;
         id?: string;
+        // Config variant under test, applied on top of the resolved config
+        variant?: IDryRunConfigVariant;
     };
     organizationAndTeamData: OrganizationAndTeamData;
     repository: Repository;
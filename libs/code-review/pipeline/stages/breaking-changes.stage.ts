@@ -0,0 +1,243 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+import pLimit from 'p-limit';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+    BREAKING_CHANGE_ANALYSIS_SERVICE_TOKEN,
+    BreakingChange,
+    IBreakingChangeAnalysisService,
+} from '@libs/code-review/domain/contracts/BreakingChangeAnalysisService.contract';
+import {
+    ISuggestionService,
+    SUGGESTION_SERVICE_TOKEN,
+} from '@libs/code-review/domain/contracts/SuggestionService.contract';
+import { getLanguageFromFilename } from '@libs/code-review/infrastructure/adapters/services/linting/linting.utils';
+import { LabelType } from '@libs/common/utils/codeManagement/labels';
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import {
+    CodeSuggestion,
+    FileChange,
+} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import { BasePipelineStage } from '@libs/core/infrastructure/pipeline/abstracts/base-stage.abstract';
+import { StageVisibility } from '@libs/core/infrastructure/pipeline/enums/stage-visibility.enum';
+import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
+import { ISuggestionByPR } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
+import { CodeReviewPipelineContext } from '../context/code-review-pipeline.context';
+
+const SEVERITY_ORDER = [
+    SeverityLevel.CRITICAL,
+    SeverityLevel.HIGH,
+    SeverityLevel.MEDIUM,
+    SeverityLevel.LOW,
+];
+
+/** Rows of the PR-level summary; the file comments still cover every change. */
+const MAX_SUMMARY_ROWS = 30;
+
+/**
+ * Diffs the API contracts changed by the PR (OpenAPI, GraphQL, protobuf and
+ * exported TypeScript declarations). Each breaking change becomes a
+ * `breaking_changes` suggestion on its line, unless the LLM already flagged
+ * it, and the PR gets a summary of all of them.
+ */
+@Injectable()
+export class BreakingChangesStage extends BasePipelineStage<CodeReviewPipelineContext> {
+    readonly stageName = 'BreakingChangesStage';
+    readonly visibility = StageVisibility.SECONDARY;
+
+    private readonly concurrencyLimit = 10;
+    private readonly logger = createLogger(BreakingChangesStage.name);
+
+    constructor(
+        @Inject(BREAKING_CHANGE_ANALYSIS_SERVICE_TOKEN)
+        private readonly breakingChangeAnalysisService: IBreakingChangeAnalysisService,
+
+        @Inject(SUGGESTION_SERVICE_TOKEN)
+        private readonly suggestionService: ISuggestionService,
+    ) {
+        super();
+    }
+
+    protected async executeStage(
+        context: CodeReviewPipelineContext,
+    ): Promise<CodeReviewPipelineContext> {
+        if (!context.codeReviewConfig?.reviewOptions?.breaking_changes) {
+            return context;
+        }
+
+        if (!context.changedFiles?.length) {
+            return context;
+        }
+
+        try {
+            const limit = pLimit(this.concurrencyLimit);
+
+            const results = await Promise.all(
+                context.changedFiles.map((file) =>
+                    limit(() =>
+                        this.breakingChangeAnalysisService.analyzeBreakingChanges(
+                            file,
+                        ),
+                    ),
+                ),
+            );
+
+            const breakingChanges = results.flat();
+
+            this.logger.log({
+                message: `Found ${breakingChanges.length} breaking changes in API contracts for PR#${context.pullRequest.number}`,
+                context: this.stageName,
+                metadata: {
+                    organizationAndTeamData: context.organizationAndTeamData,
+                    prNumber: context.pullRequest.number,
+                    filesCount: context.changedFiles.length,
+                },
+            });
+
+            if (!breakingChanges.length) {
+                return context;
+            }
+
+            const fileSuggestions = await this.buildFileSuggestions(
+                context.changedFiles,
+                breakingChanges,
+            );
+
+            return this.updateContext(context, (draft) => {
+                const validSuggestions = draft.validSuggestions || [];
+
+                draft.validSuggestions = [
+                    ...validSuggestions,
+                    ...fileSuggestions.filter(
+                        (suggestion) =>
+                            !validSuggestions.some((current) =>
+                                this.overlaps(current, suggestion),
+                            ),
+                    ),
+                ];
+
+                draft.validSuggestionsByPR = [
+                    ...(draft.validSuggestionsByPR || []),
+                    this.buildSummary(breakingChanges),
+                ];
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Error detecting breaking changes for PR#${context.pullRequest.number}`,
+                error,
+                context: this.stageName,
+                metadata: {
+                    organizationAndTeamData: context.organizationAndTeamData,
+                    prNumber: context.pullRequest.number,
+                },
+            });
+
+            return context;
+        }
+    }
+
+    private async buildFileSuggestions(
+        files: FileChange[],
+        breakingChanges: BreakingChange[],
+    ): Promise<Partial<CodeSuggestion>[]> {
+        const suggestions = breakingChanges
+            .filter((change) => change.line)
+            .map((change) =>
+                this.toCodeSuggestion(
+                    change,
+                    files.find((file) => file.filename === change.filename),
+                ),
+            );
+
+        await Promise.all(
+            suggestions.map(async (suggestion) => {
+                suggestion.rankScore =
+                    await this.suggestionService.calculateSuggestionRankScore(
+                        suggestion,
+                    );
+            }),
+        );
+
+        return suggestions;
+    }
+
+    private toCodeSuggestion(
+        change: BreakingChange,
+        file: FileChange | undefined,
+    ): Partial<CodeSuggestion> {
+        const content = file?.fileContent ?? file?.content;
+        const existingCode =
+            typeof content === 'string'
+                ? (content.split('\n')[change.line - 1] ?? '')
+                : '';
+
+        return {
+            id: uuidv4(),
+            relevantFile: change.filename,
+            language: getLanguageFromFilename(change.filename),
+            suggestionContent: `**${change.title}** (\`${change.symbol}\`)\n\n${change.description}`,
+            oneSentenceSummary: `${change.title}: ${change.symbol}`,
+            existingCode,
+            improvedCode: '',
+            relevantLinesStart: change.line,
+            relevantLinesEnd: change.line,
+            label: LabelType.BREAKING_CHANGES,
+            severity: change.severity,
+        };
+    }
+
+    private buildSummary(breakingChanges: BreakingChange[]): ISuggestionByPR {
+        const sorted = [...breakingChanges].sort(
+            (a, b) =>
+                SEVERITY_ORDER.indexOf(a.severity) -
+                SEVERITY_ORDER.indexOf(b.severity),
+        );
+
+        const rows = sorted
+            .slice(0, MAX_SUMMARY_ROWS)
+            .map(
+                (change) =>
+                    `| ${change.severity} | ${change.title} | \`${this.escapeCell(change.symbol)}\` | \`${change.filename}${change.line ? `:${change.line}` : ''}\` |`,
+            );
+
+        const hidden = sorted.length - rows.length;
+
+        const suggestionContent = [
+            `This PR changes public API contracts in ${sorted.length} way(s) that can break existing clients:`,
+            '',
+            '| Severity | Change | Element | Location |',
+            '| --- | --- | --- | --- |',
+            ...rows,
+            ...(hidden > 0 ? ['', `_...and ${hidden} more._`] : []),
+            '',
+            'Version the contract or keep the previous shape available until clients migrate.',
+        ].join('\n');
+
+        return {
+            id: uuidv4(),
+            suggestionContent,
+            oneSentenceSummary: `${sorted.length} breaking change(s) in API contracts`,
+            label: LabelType.BREAKING_CHANGES,
+            severity: sorted[0].severity,
+            deliveryStatus: DeliveryStatus.NOT_SENT,
+        };
+    }
+
+    private overlaps(
+        current: Partial<CodeSuggestion>,
+        change: Partial<CodeSuggestion>,
+    ): boolean {
+        return (
+            current.label === LabelType.BREAKING_CHANGES &&
+            current.relevantFile === change.relevantFile &&
+            current.relevantLinesStart <= change.relevantLinesEnd &&
+            (current.relevantLinesEnd ?? current.relevantLinesStart) >=
+                change.relevantLinesStart
+        );
+    }
+
+    private escapeCell(value: string): string {
+        return value.replace(/\|/g, '\\|');
+    }
+}
@@ -327,6 +327,7 @@ export class CreateFileCommentsStage extends BasePipelineStage<CodeReviewPipelin
                     codeReviewConfig?.languageResultPrompt,
                     dryRun,
                     suggestionCopyPrompt,
+                    codeReviewConfig?.customCategories,
                 );
 
             return { lastAnalyzedCommit, commentResults };
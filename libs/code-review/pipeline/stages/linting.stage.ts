@@ -0,0 +1,156 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+import pLimit from 'p-limit';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+    ILintingService,
+    LINTING_SERVICE_TOKEN,
+    LintFinding,
+} from '@libs/code-review/domain/contracts/LintingService.contract';
+import {
+    ISuggestionService,
+    SUGGESTION_SERVICE_TOKEN,
+} from '@libs/code-review/domain/contracts/SuggestionService.contract';
+import { getLanguageFromFilename } from '@libs/code-review/infrastructure/adapters/services/linting/linting.utils';
+import { LabelType } from '@libs/common/utils/codeManagement/labels';
+import {
+    CodeSuggestion,
+    FileChange,
+} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import { BasePipelineStage } from '@libs/core/infrastructure/pipeline/abstracts/base-stage.abstract';
+import { StageVisibility } from '@libs/core/infrastructure/pipeline/enums/stage-visibility.enum';
+import { CodeReviewPipelineContext } from '../context/code-review-pipeline.context';
+
+/**
+ * Runs the bundled static-analysis linters on the changed files and appends
+ * their findings (restricted to changed lines) to `validSuggestions`, so they
+ * go through the same validation, severity and quantity filters as the LLM
+ * suggestions.
+ */
+@Injectable()
+export class LintingStage extends BasePipelineStage<CodeReviewPipelineContext> {
+    readonly stageName = 'LintingStage';
+    readonly visibility = StageVisibility.SECONDARY;
+
+    private readonly concurrencyLimit = 10;
+    private readonly logger = createLogger(LintingStage.name);
+
+    constructor(
+        @Inject(LINTING_SERVICE_TOKEN)
+        private readonly lintingService: ILintingService,
+
+        @Inject(SUGGESTION_SERVICE_TOKEN)
+        private readonly suggestionService: ISuggestionService,
+    ) {
+        super();
+    }
+
+    protected async executeStage(
+        context: CodeReviewPipelineContext,
+    ): Promise<CodeReviewPipelineContext> {
+        if (!context.codeReviewConfig?.reviewOptions?.linting) {
+            return context;
+        }
+
+        if (!context.changedFiles?.length) {
+            return context;
+        }
+
+        try {
+            const limit = pLimit(this.concurrencyLimit);
+
+            const results = await Promise.all(
+                context.changedFiles.map((file) =>
+                    limit(() => this.lintFile(file)),
+                ),
+            );
+
+            const lintingSuggestions = results.flat();
+
+            this.logger.log({
+                message: `Linting produced ${lintingSuggestions.length} suggestions for PR#${context.pullRequest.number}`,
+                context: this.stageName,
+                metadata: {
+                    organizationAndTeamData: context.organizationAndTeamData,
+                    prNumber: context.pullRequest.number,
+                    filesCount: context.changedFiles.length,
+                },
+            });
+
+            if (!lintingSuggestions.length) {
+                return context;
+            }
+
+            return this.updateContext(context, (draft) => {
+                draft.validSuggestions = [
+                    ...(draft.validSuggestions || []),
+                    ...lintingSuggestions,
+                ];
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Error running linters for PR#${context.pullRequest.number}`,
+                error,
+                context: this.stageName,
+                metadata: {
+                    organizationAndTeamData: context.organizationAndTeamData,
+                    prNumber: context.pullRequest.number,
+                },
+            });
+
+            return context;
+        }
+    }
+
+    private async lintFile(
+        file: FileChange,
+    ): Promise<Partial<CodeSuggestion>[]> {
+        if (file.status === 'removed' || !file.patchWithLinesStr) {
+            return [];
+        }
+
+        const findings = await this.lintingService.lintCode(file);
+
+        if (!findings?.length) {
+            return [];
+        }
+
+        const suggestions = findings.map((finding) =>
+            this.toCodeSuggestion(finding),
+        );
+
+        const suggestionsOnChangedLines =
+            this.suggestionService.filterSuggestionsCodeDiff(
+                file.patchWithLinesStr,
+                suggestions,
+            ) ?? [];
+
+        await Promise.all(
+            suggestionsOnChangedLines.map(async (suggestion) => {
+                suggestion.rankScore =
+                    await this.suggestionService.calculateSuggestionRankScore(
+                        suggestion,
+                    );
+            }),
+        );
+
+        return suggestionsOnChangedLines;
+    }
+
+    private toCodeSuggestion(finding: LintFinding): Partial<CodeSuggestion> {
+        return {
+            id: uuidv4(),
+            relevantFile: finding.filename,
+            language: getLanguageFromFilename(finding.filename),
+            suggestionContent: `**${finding.source}** \`${finding.ruleId}\`: ${finding.message}`,
+            oneSentenceSummary: finding.message,
+            existingCode: finding.existingCode,
+            improvedCode: finding.fixedCode ?? '',
+            relevantLinesStart: finding.line,
+            relevantLinesEnd: finding.endLine,
+            label: LabelType.LINTING,
+            severity: finding.severity,
+        };
+    }
+}
@@ -45,6 +45,7 @@ describe('ProcessFilesReview', () => {
         const mockCodeAnalysisOrchestrator = {
             executeStandardAnalysis: jest.fn(),
             executeKodyRulesAnalysis: jest.fn(),
+            executeDeterministicKodyRulesAnalysis: jest.fn(),
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -504,6 +504,15 @@ export class ProcessFilesReview extends BasePipelineStage<CodeReviewPipelineCont
                 },
             };
 
+            // Regex and structural Kody Rules don't need the LLM, so they run first
+            const deterministicKodyRulesResult =
+                await this.codeAnalysisOrchestrator.executeDeterministicKodyRulesAnalysis(
+                    context.organizationAndTeamData,
+                    context.pullRequest.number,
+                    { file, patchWithLinesStr },
+                    context,
+                );
+
             const standardAnalysisResult =
                 await this.codeAnalysisOrchestrator.executeStandardAnalysis(
                     context.organizationAndTeamData,
@@ -521,6 +530,7 @@ export class ProcessFilesReview extends BasePipelineStage<CodeReviewPipelineCont
             const finalResult = await this.processAnalysisResult(
                 standardAnalysisResult,
                 context,
+                deterministicKodyRulesResult,
             );
 
             return { ...finalResult, file };
@@ -560,6 +570,7 @@ export class ProcessFilesReview extends BasePipelineStage<CodeReviewPipelineCont
     private async processAnalysisResult(
         result: AIAnalysisResult,
         context: AnalysisContext,
+        deterministicKodyRulesResult?: AIAnalysisResult | null,
     ): Promise<IFinalAnalysisResult> {
         const { reviewModeResponse } = context;
         const { file, relevantContent, patchWithLinesStr } =
@@ -724,8 +735,14 @@ export class ProcessFilesReview extends BasePipelineStage<CodeReviewPipelineCont
             kodyASTSuggestions?.codeSuggestions || [],
         );
 
+        const deterministicKodyRulesSuggestionsWithId =
+            await this.addSuggestionsId(
+                deterministicKodyRulesResult?.codeSuggestions || [],
+            );
+
         mergedSuggestions = [
             ...mergedSuggestions,
+            ...deterministicKodyRulesSuggestionsWithId,
             ...kodyASTSuggestionsWithId,
             ...filteredCrossFileFinal,
         ];
@@ -863,6 +880,7 @@ export class ProcessFilesReview extends BasePipelineStage<CodeReviewPipelineCont
                 filteredSuggestions,
                 context?.codeReviewConfig?.kodyFineTuningConfig?.enabled,
                 context?.clusterizedSuggestions,
+                { dryRunId: context?.dryRunId },
             );
 
         const keepedSuggestions: Partial<CodeSuggestion>[] =
@@ -990,6 +1008,7 @@ export class ProcessFilesReview extends BasePipelineStage<CodeReviewPipelineCont
             externalPromptContext: context.externalPromptContext,
             externalPromptLayers: context.externalPromptLayers,
             correlationId: context.correlationId,
+            dryRunId: context.dryRun?.enabled ? context.dryRun.id : undefined,
             sharedContextPack: context.sharedContextPack,
             augmentationsByFile: context.augmentationsByFile,
             filePromptOverrides: this.buildFilePromptOverrides(
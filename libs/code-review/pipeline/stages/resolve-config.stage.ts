@@ -29,6 +29,9 @@ import {
 import { IPullRequestMessages } from '@libs/code-review/domain/pullRequestMessages/interfaces/pullRequestMessages.interface';
 import { ConfigLevel } from '@libs/core/infrastructure/config/types/general/pullRequestMessages.type';
 import { StageVisibility } from '@libs/core/infrastructure/pipeline/enums/stage-visibility.enum';
+import { applyReviewPreset } from '@libs/common/utils/codeReview/reviewPreset';
+import { deepMerge } from '@libs/common/utils/deep';
+import { CodeReviewConfig } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 import { CodeReviewPipelineContext } from '../context/code-review-pipeline.context';
 
 @Injectable()
@@ -88,12 +91,14 @@ export class ResolveConfigStage extends BasePipelineStage<CodeReviewPipelineCont
                 });
             }
 
-            const config = await this.codeBaseConfigService.getConfig(
+            const resolvedConfig = await this.codeBaseConfigService.getConfig(
                 context.organizationAndTeamData,
                 context.repository,
                 preliminaryFiles,
             );
 
+            const config = this.applyDryRunVariant(context, resolvedConfig);
+
             const pullRequestMessagesConfig =
                 await this.setPullRequestMessagesConfig(context);
 
@@ -141,6 +146,36 @@ export class ResolveConfigStage extends BasePipelineStage<CodeReviewPipelineCont
         }
     }
 
+    /**
+     * Dry-run comparisons review the same PR with a different config: the
+     * preset is applied first, then the explicit overrides.
+     */
+    private applyDryRunVariant(
+        context: CodeReviewPipelineContext,
+        config: CodeReviewConfig,
+    ): CodeReviewConfig {
+        const variant = context.dryRun?.enabled
+            ? context.dryRun?.variant
+            : undefined;
+
+        if (!variant) {
+            return config;
+        }
+
+        const withPreset = variant.preset
+            ? applyReviewPreset(config, variant.preset)
+            : config;
+
+        if (!variant.configOverrides) {
+            return withPreset;
+        }
+
+        return deepMerge<CodeReviewConfig>(
+            withPreset,
+            variant.configOverrides as CodeReviewConfig,
+        );
+    }
+
     private async setPullRequestMessagesConfig(
         context: CodeReviewPipelineContext,
     ): Promise<IPullRequestMessages | null> {
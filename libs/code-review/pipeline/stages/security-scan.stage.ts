@@ -0,0 +1,191 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+import pLimit from 'p-limit';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+    ISecurityAnalysisService,
+    SECURITY_ANALYSIS_SERVICE_TOKEN,
+    SecurityFinding,
+} from '@libs/code-review/domain/contracts/SecurityAnalysisService.contract';
+import {
+    ISuggestionService,
+    SUGGESTION_SERVICE_TOKEN,
+} from '@libs/code-review/domain/contracts/SuggestionService.contract';
+import { getLanguageFromFilename } from '@libs/code-review/infrastructure/adapters/services/linting/linting.utils';
+import { LabelType } from '@libs/common/utils/codeManagement/labels';
+import {
+    CodeSuggestion,
+    FileChange,
+} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import { BasePipelineStage } from '@libs/core/infrastructure/pipeline/abstracts/base-stage.abstract';
+import { StageVisibility } from '@libs/core/infrastructure/pipeline/enums/stage-visibility.enum';
+import { CodeReviewPipelineContext } from '../context/code-review-pipeline.context';
+
+/**
+ * Runs the deterministic security scanner on the changed files. Findings on
+ * lines already covered by an LLM security suggestion only pin that
+ * suggestion's severity; the others are appended to `validSuggestions` as
+ * `security` suggestions.
+ */
+@Injectable()
+export class SecurityScanStage extends BasePipelineStage<CodeReviewPipelineContext> {
+    readonly stageName = 'SecurityScanStage';
+    readonly visibility = StageVisibility.SECONDARY;
+
+    private readonly concurrencyLimit = 10;
+    private readonly logger = createLogger(SecurityScanStage.name);
+
+    constructor(
+        @Inject(SECURITY_ANALYSIS_SERVICE_TOKEN)
+        private readonly securityAnalysisService: ISecurityAnalysisService,
+
+        @Inject(SUGGESTION_SERVICE_TOKEN)
+        private readonly suggestionService: ISuggestionService,
+    ) {
+        super();
+    }
+
+    protected async executeStage(
+        context: CodeReviewPipelineContext,
+    ): Promise<CodeReviewPipelineContext> {
+        if (!context.codeReviewConfig?.reviewOptions?.security) {
+            return context;
+        }
+
+        if (!context.changedFiles?.length) {
+            return context;
+        }
+
+        try {
+            const limit = pLimit(this.concurrencyLimit);
+
+            const results = await Promise.all(
+                context.changedFiles.map((file) =>
+                    limit(() => this.scanFile(file)),
+                ),
+            );
+
+            const securitySuggestions = results.flat();
+
+            this.logger.log({
+                message: `Security scan produced ${securitySuggestions.length} suggestions for PR#${context.pullRequest.number}`,
+                context: this.stageName,
+                metadata: {
+                    organizationAndTeamData: context.organizationAndTeamData,
+                    prNumber: context.pullRequest.number,
+                    filesCount: context.changedFiles.length,
+                },
+            });
+
+            if (!securitySuggestions.length) {
+                return context;
+            }
+
+            return this.updateContext(context, (draft) => {
+                const validSuggestions = draft.validSuggestions || [];
+                const newSuggestions: Partial<CodeSuggestion>[] = [];
+
+                for (const suggestion of securitySuggestions) {
+                    const existing = validSuggestions.find((current) =>
+                        this.overlaps(current, suggestion),
+                    );
+
+                    if (existing) {
+                        existing.severity = suggestion.severity;
+                        continue;
+                    }
+
+                    newSuggestions.push(suggestion);
+                }
+
+                draft.validSuggestions = [
+                    ...validSuggestions,
+                    ...newSuggestions,
+                ];
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Error running security scan for PR#${context.pullRequest.number}`,
+                error,
+                context: this.stageName,
+                metadata: {
+                    organizationAndTeamData: context.organizationAndTeamData,
+                    prNumber: context.pullRequest.number,
+                },
+            });
+
+            return context;
+        }
+    }
+
+    private async scanFile(
+        file: FileChange,
+    ): Promise<Partial<CodeSuggestion>[]> {
+        if (file.status === 'removed') {
+            return [];
+        }
+
+        const findings =
+            await this.securityAnalysisService.analyzeSecurity(file);
+
+        if (!findings?.length) {
+            return [];
+        }
+
+        const suggestions = findings.map((finding) =>
+            this.toCodeSuggestion(finding),
+        );
+
+        // Without a patch the whole file was scanned; keep changed lines only
+        const suggestionsOnChangedLines =
+            !file.patch && file.patchWithLinesStr
+                ? (this.suggestionService.filterSuggestionsCodeDiff(
+                      file.patchWithLinesStr,
+                      suggestions,
+                  ) ?? [])
+                : suggestions;
+
+        await Promise.all(
+            suggestionsOnChangedLines.map(async (suggestion) => {
+                suggestion.rankScore =
+                    await this.suggestionService.calculateSuggestionRankScore(
+                        suggestion,
+                    );
+            }),
+        );
+
+        return suggestionsOnChangedLines;
+    }
+
+    private overlaps(
+        current: Partial<CodeSuggestion>,
+        finding: Partial<CodeSuggestion>,
+    ): boolean {
+        return (
+            current.label === LabelType.SECURITY &&
+            current.relevantFile === finding.relevantFile &&
+            current.relevantLinesStart <= finding.relevantLinesEnd &&
+            (current.relevantLinesEnd ?? current.relevantLinesStart) >=
+                finding.relevantLinesStart
+        );
+    }
+
+    private toCodeSuggestion(
+        finding: SecurityFinding,
+    ): Partial<CodeSuggestion> {
+        return {
+            id: uuidv4(),
+            relevantFile: finding.filename,
+            language: getLanguageFromFilename(finding.filename),
+            suggestionContent: `**${finding.title}** (\`${finding.ruleId}\`)\n\n${finding.description}`,
+            oneSentenceSummary: finding.title,
+            existingCode: finding.existingCode,
+            improvedCode: '',
+            relevantLinesStart: finding.line,
+            relevantLinesEnd: finding.line,
+            label: LabelType.SECURITY,
+            severity: finding.severity,
+        };
+    }
+}
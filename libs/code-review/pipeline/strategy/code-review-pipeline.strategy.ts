@@ -24,6 +24,9 @@ import { RequestChangesOrApproveStage } from '../stages/finish-process-review.st
 import { InitialCommentStage } from '../stages/initial-comment.stage';
 import { ProcessFilesPrLevelReviewStage } from '../stages/process-files-pr-level-review.stage';
 import { ProcessFilesReview } from '../stages/process-files-review.stage';
+import { LintingStage } from '../stages/linting.stage';
+import { SecurityScanStage } from '../stages/security-scan.stage';
+import { BreakingChangesStage } from '../stages/breaking-changes.stage';
 import { ResolveConfigStage } from '../stages/resolve-config.stage';
 import { ValidateNewCommitsStage } from '../stages/validate-new-commits.stage';
 import { ValidatePrerequisitesStage } from '../stages/validate-prerequisites.stage';
@@ -43,6 +46,9 @@ export class CodeReviewPipelineStrategy implements IPipelineStrategy<CodeReviewP
         private readonly initialCommentStage: InitialCommentStage,
         private readonly processFilesPrLevelReviewStage: ProcessFilesPrLevelReviewStage,
         private readonly processFilesReview: ProcessFilesReview,
+        private readonly lintingStage: LintingStage,
+        private readonly securityScanStage: SecurityScanStage,
+        private readonly breakingChangesStage: BreakingChangesStage,
         private readonly createPrLevelCommentsStage: CreatePrLevelCommentsStage,
         private readonly createFileCommentsStage: CreateFileCommentsStage,
         private readonly aggregateResultsStage: AggregateResultsStage,
@@ -66,6 +72,9 @@ export class CodeReviewPipelineStrategy implements IPipelineStrategy<CodeReviewP
             this.initialCommentStage,
             this.processFilesPrLevelReviewStage,
             this.processFilesReview,
+            this.lintingStage,
+            this.securityScanStage,
+            this.breakingChangesStage,
             this.createPrLevelCommentsStage,
             this.validateSuggestionsStage,
             this.createFileCommentsStage,
@@ -1,4 +1,5 @@
 import labels from '@libs/automation/infrastructure/adapters/services/processAutomation/config/codeReview/labels.json';
+import type { CustomCategory } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 
 export enum LabelType {
     PERFORMANCE_AND_OPTIMIZATION = 'performance_and_optimization',
@@ -14,6 +15,7 @@ export enum LabelType {
     BUG = 'bug',
     PERFORMANCE = 'performance',
     CROSS_FILE = 'cross_file',
+    LINTING = 'linting',
 }
 
 enum ShieldColor {
@@ -28,16 +30,46 @@ enum ShieldColor {
     INDIGO = '4527A0',
     YELLOW = 'FFD600',
     LIGHT_PURPLE = '9C27B0',
+    GREY = '607D8B',
 }
 
-const getLabelShield = (label: string) => {
+const isBuiltInLabel = (label: string): boolean =>
+    (Object.values(LabelType) as string[]).includes(label);
+
+/**
+ * `accessibility_audit` -> `Accessibility Audit`
+ */
+const getCustomCategoryDisplayName = (name: string): string =>
+    name
+        .split('_')
+        .filter(Boolean)
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+
+const getCustomLabelShield = (
+    label: string,
+    customCategories?: CustomCategory[],
+) => {
+    const category = customCategories?.find(
+        (category) => category.name === label,
+    );
+    if (!category) {
+        return '';
+    }
+
+    const name = getCustomCategoryDisplayName(category.name);
+
+    return `![${name}](https://img.shields.io/badge/${name.replace(/ /g, '_')}-${category.color || ShieldColor.GREY})`;
+};
+
+const getLabelShield = (label: string, customCategories?: CustomCategory[]) => {
     const labelData: {
         type: string;
         name: string;
         description: string;
     } = labels.find((labelData) => labelData.type === label);
     if (!labelData) {
-        return '';
+        return getCustomLabelShield(label, customCategories);
     }
 
     const shield = `![${labelData?.name}](https://img.shields.io/badge/${labelData?.name?.replace(/ /g, '\_')}-`;
@@ -69,9 +101,11 @@ const getLabelShield = (label: string) => {
             return `${shield}${ShieldColor.ORANGE})`;
         case LabelType.CROSS_FILE:
             return `${shield}${ShieldColor.LIGHT_PURPLE})`;
+        case LabelType.LINTING:
+            return `${shield}${ShieldColor.GREY})`;
         default:
             return '';
     }
 };
 
-export { getLabelShield };
+export { getCustomCategoryDisplayName, getLabelShield, isBuiltInLabel };
@@ -0,0 +1,111 @@
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import {
+    CodeReviewConfigWithoutLLMProvider,
+    LimitationType,
+    ReviewCadenceType,
+    ReviewPreset,
+    SuggestionControlConfig,
+} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import { DeepPartial } from 'typeorm';
+
+type PresetConfig = DeepPartial<CodeReviewConfigWithoutLLMProvider>;
+
+/**
+ * Returns a copy of `configs` with the review preset applied. Shared by the
+ * preset endpoint and dry-run comparisons so both resolve presets the same way.
+ */
+export function applyReviewPreset<T extends PresetConfig>(
+    configs: T,
+    preset: ReviewPreset,
+): T {
+    const reviewOptions = { ...(configs.reviewOptions || {}) };
+    const suggestionControl: SuggestionControlConfig = {
+        ...(configs.suggestionControl || ({} as any)),
+    } as SuggestionControlConfig;
+    const v2PromptOverrides = {
+        ...(configs.v2PromptOverrides || {}),
+    };
+
+    let reviewCadence: PresetConfig['reviewCadence'] = configs.reviewCadence;
+    let runOnDraft: boolean = configs.runOnDraft;
+
+    switch (preset) {
+        case ReviewPreset.SPEED: {
+            reviewOptions.bug = true;
+            reviewOptions.security = true;
+            reviewOptions.performance = false;
+            reviewOptions.cross_file = false;
+
+            suggestionControl.limitationType = LimitationType.PR;
+            suggestionControl.maxSuggestions = 6;
+            suggestionControl.severityLevelFilter = SeverityLevel.CRITICAL;
+            suggestionControl.applyFiltersToKodyRules = true;
+
+            reviewCadence = {
+                type: ReviewCadenceType.MANUAL,
+            };
+            runOnDraft = false;
+            break;
+        }
+
+        case ReviewPreset.SAFETY: {
+            Object.keys(reviewOptions).forEach((key) => {
+                (reviewOptions as any)[key] = true;
+            });
+            reviewOptions.bug = true;
+            reviewOptions.security = true;
+            reviewOptions.performance = true;
+            reviewOptions.cross_file = true;
+
+            suggestionControl.limitationType = LimitationType.PR;
+            suggestionControl.maxSuggestions = 20;
+            suggestionControl.severityLevelFilter = SeverityLevel.MEDIUM;
+            suggestionControl.applyFiltersToKodyRules = false;
+
+            reviewCadence = {
+                type: ReviewCadenceType.AUTOMATIC,
+            };
+            runOnDraft = false;
+            break;
+        }
+
+        case ReviewPreset.COACH: {
+            reviewOptions.bug = true;
+            reviewOptions.security = true;
+            reviewOptions.performance = true;
+            reviewOptions.cross_file = true;
+
+            suggestionControl.limitationType = LimitationType.PR;
+            suggestionControl.maxSuggestions = 12;
+            suggestionControl.severityLevelFilter = SeverityLevel.MEDIUM;
+            suggestionControl.applyFiltersToKodyRules = false;
+
+            reviewCadence = {
+                type: ReviewCadenceType.AUTOMATIC,
+            };
+            runOnDraft = true;
+
+            v2PromptOverrides.generation = {
+                ...v2PromptOverrides.generation,
+                main: [
+                    'Adopt a coaching tone:',
+                    '- Explain briefly the why behind each issue.',
+                    '- Suggest how to validate (tests/checks).',
+                    '- Prefer concise examples.',
+                    '- Avoid nitpicks and group by priority.',
+                ].join(' '),
+            };
+            break;
+        }
+    }
+
+    return {
+        ...configs,
+        reviewCadence,
+        runOnDraft,
+        automatedReviewActive: true,
+        reviewOptions,
+        suggestionControl: suggestionControl as any,
+        v2PromptOverrides,
+    } as T;
+}
@@ -6,10 +6,13 @@ import { SimpleLogger } from '@kodus/flow/dist/observability/logger';
 import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
 
 type CustomerIoEmailPayload = {
-    transactional_message_id: string | number;
+    // Optional when the message is not based on a template
+    transactional_message_id?: string | number;
     to: string;
     from?: string;
     subject?: string;
+    body?: string;
+    plaintext_body?: string;
     message_data?: Record<string, unknown>;
     identifiers?: Record<string, string | number>;
 };
@@ -292,6 +295,37 @@ export class EmailService {
             }
         }
     }
+
+    async sendIncidentNotification(
+        recipients: string[],
+        subject: string,
+        text: string,
+    ) {
+        const html = text
+            .split('\n')
+            .map((line) =>
+                line
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;'),
+            )
+            .join('<br/>');
+
+        // Failures are surfaced so the incident sink can report them
+        return await Promise.all(
+            recipients.map((email) =>
+                this.sendCustomerIoEmail(
+                    this.applyFromAddress({
+                        to: email,
+                        subject,
+                        body: `<div style="font-family: monospace">${html}</div>`,
+                        plaintext_body: text,
+                        identifiers: this.buildIdentifiers(email),
+                    }),
+                ),
+            ),
+        );
+    }
 }
 
 let emailServiceInstance: EmailService | null = null;
@@ -350,3 +384,12 @@ export async function sendConfirmationEmail(
         logger,
     );
 }
+
+export async function sendIncidentNotification(
+    recipients: string[],
+    subject: string,
+    text: string,
+) {
+    const emailService = getEmailServiceInstance();
+    return emailService.sendIncidentNotification(recipients, subject, text);
+}
@@ -1,5 +1,12 @@
-import { LimitationType } from '@libs/core/infrastructure/config/types/general/codeReview.type';
-import { getTextOrDefault, sanitizePromptText } from '../prompt.helpers';
+import {
+    CustomCategory,
+    LimitationType,
+} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import {
+    getTextOrDefault,
+    limitText,
+    sanitizePromptText,
+} from '../prompt.helpers';
 import { ContextPack } from '@kodus/flow';
 import { getDefaultKodusConfigFile } from '@libs/common/utils/validateCodeReviewConfigFile';
 
@@ -32,6 +39,8 @@ export interface CodeReviewPayload {
             main?: string;
         };
     };
+    // v2-only team-defined categories, reviewed next to bug/performance/security
+    customCategories?: CustomCategory[];
     // External prompt context (referenced files)
     externalPromptContext?: {
         customInstructions?: {
@@ -797,6 +806,7 @@ function processGenerationSection(
  * @param mediumText - Processed text for medium severity
  * @param lowText - Processed text for low severity
  * @param mainGenText - Processed text for generation main instructions
+ * @param customCategories - Team-defined categories reviewed next to the built-in ones
  * @returns Complete system prompt string ready for LLM consumption
  */
 function buildFinalPrompt(
@@ -809,7 +819,14 @@ function buildFinalPrompt(
     mediumText: string,
     lowText: string,
     mainGenText: string,
+    customCategories: CustomCategory[] = [],
 ): string {
+    const customCategoriesText = buildCustomCategoriesText(customCategories);
+    const customLabels = customCategories.map((category) => category.name);
+    const consideredCategories = customLabels.length
+        ? `bugs, performance, security, and ${customLabels.join(', ')}`
+        : 'bugs, performance, and security';
+
     return `You are Kody Bug-Hunter, a senior engineer specialized in identifying verifiable issues through mental code execution. Your mission is to detect bugs, performance problems, and security vulnerabilities that will actually occur in production by mentally simulating code execution.
 
 ## Core Method: Mental Simulation
@@ -867,7 +884,7 @@ ${perfText}
 ### SECURITY
 A security vulnerability exists when mental simulation reveals:
 ${secText}
-
+${customCategoriesText}
 ## Severity Assessment
 
 For each confirmed issue, evaluate severity based on impact and scope:
@@ -889,7 +906,7 @@ ${lowText}
 ### MUST DO:
 1. **Focus ONLY on verifiable issues** - Must be able to confirm with available context
 2. **Analyze ONLY added lines** - Lines prefixed with '+' in the diff
-3. **Consider ONLY bugs, performance, and security** - NO style, formatting, or preferences
+3. **Consider ONLY ${consideredCategories}** - NO style, formatting, or preferences
 4. **Simulate actual execution** - Trace through code paths mentally
 5. **Verify with concrete scenarios** - Use realistic inputs and conditions
 6. **Trace resource lifecycle** - For any stateful resource (caches, maps, collections), verify both creation AND cleanup
@@ -948,7 +965,7 @@ ${lowText}
 ## Output Requirements
 
 - Report ONLY issues you can definitively prove will occur
-- Focus ONLY on bugs, performance, and security categories
+- Focus ONLY on ${consideredCategories} categories
 - Use PR summary as auxiliary context, not absolute truth
 - Be precise and concise in descriptions
 - Always respond in ${languageNote} language
@@ -987,7 +1004,7 @@ Return only valid JSON, nothing more. Under no circumstances should there be any
             "oneSentenceSummary": "Concise issue description",
             "relevantLinesStart": "starting_line",
             "relevantLinesEnd": "ending_line",
-            "label": "bug|performance|security",
+            "label": "${['bug', 'performance', 'security', ...customLabels].join('|')}",
             "severity": "low|medium|high|critical",
             "llmPrompt": "Prompt for LLMs"
         }
@@ -997,6 +1014,31 @@ Return only valid JSON, nothing more. Under no circumstances should there be any
 `;
 }
 
+/**
+ * Builds one detection section per team-defined category. Returns an empty
+ * string when there are none, so the default prompt is unchanged.
+ * @param customCategories - Sanitized categories from the code review config
+ * @returns Markdown sections to append after the built-in categories
+ */
+function buildCustomCategoriesText(customCategories: CustomCategory[]): string {
+    return customCategories
+        .map((category) => {
+            const description = limitText(
+                sanitizePromptText(category.description),
+            );
+            const severityGuidance = limitText(
+                sanitizePromptText(category.severityGuidance),
+            );
+
+            return `
+### ${category.name.toUpperCase()} (label: \`${category.name}\`)
+A ${category.name} issue exists when mental simulation reveals:
+${description}
+${severityGuidance ? `\nSeverity guidance for ${category.name}:\n${severityGuidance}\n` : ''}`;
+        })
+        .join('');
+}
+
 export const prompt_codereview_system_main = () => {
     return `You are Kody PR-Reviewer, a senior engineer specialized in understanding and reviewing code, with deep knowledge of how LLMs function.
 
@@ -1440,6 +1482,7 @@ export const prompt_codereview_system_gemini_v2 = (
         mediumText,
         lowText,
         mainGenText,
+        payload?.customCategories,
     );
 
     const contextBlocks = Array.from(
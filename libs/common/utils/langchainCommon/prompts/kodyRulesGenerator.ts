@@ -9,9 +9,13 @@ import {
 
 export const kodyRulesGeneratorSchema = z.object({
     rules: z.array(
-        kodyRuleSchema.partial().extend({
-            tags: z.array(z.string()).optional(),
-        }),
+        kodyRuleSchema
+            .partial()
+            // Generated rules are always checked by the LLM
+            .omit({ type: true, matcher: true })
+            .extend({
+                tags: z.array(z.string()).optional(),
+            }),
     ),
 });
 
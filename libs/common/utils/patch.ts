@@ -264,3 +264,138 @@ export function extractLinesFromDiffHunk(diffHunk: string): ModifiedRange[] {
 
     return modifiedRanges;
 }
+
+export interface AddedLine {
+    line: number;
+    content: string;
+}
+
+/**
+ * Extracts the lines added by a raw unified diff patch, numbered as they
+ * appear in the new version of the file.
+ *
+ * @param patch The raw patch (as returned by the code management platform)
+ * @returns Added lines with their new line number and content (without the `+`)
+ */
+export function extractAddedLinesFromPatch(patch: string): AddedLine[] {
+    const RE_HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+    const addedLines: AddedLine[] = [];
+
+    let newLineNumber = 0;
+    let insideHunk = false;
+
+    for (const line of patch?.split('\n') ?? []) {
+        const match = line.match(RE_HUNK_HEADER);
+        if (match) {
+            newLineNumber = parseInt(match[1], 10);
+            insideHunk = true;
+            continue;
+        }
+
+        if (!insideHunk) {
+            continue;
+        }
+
+        if (line.startsWith('+')) {
+            if (!line.startsWith('+++ ')) {
+                addedLines.push({
+                    line: newLineNumber,
+                    content: line.slice(1),
+                });
+            }
+            newLineNumber++;
+        } else if (line.startsWith('-') || line.startsWith('\\')) {
+            continue;
+        } else {
+            newLineNumber++;
+        }
+    }
+
+    return addedLines;
+}
+
+/**
+ * Line ranges of the new version of the file covered by the hunks of a raw
+ * unified diff patch, i.e. the lines a review comment can be attached to.
+ */
+export function extractHunkRangesFromPatch(patch: string): ModifiedRange[] {
+    const RE_HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+    const ranges: ModifiedRange[] = [];
+
+    for (const line of patch?.split('\n') ?? []) {
+        const match = line.match(RE_HUNK_HEADER);
+        if (!match) {
+            continue;
+        }
+
+        const start = parseInt(match[1], 10);
+        const count = match[2] === undefined ? 1 : parseInt(match[2], 10);
+
+        if (count > 0) {
+            ranges.push({ start, end: start + count - 1 });
+        }
+    }
+
+    return ranges;
+}
+
+/**
+ * Rebuilds the previous version of a file by reverting a raw unified diff
+ * patch on its current content. Files removed by the patch have no current
+ * content, so pass an empty string.
+ *
+ * @returns The previous content, or null when the patch does not match the content
+ */
+export function reconstructOriginalContent(
+    content: string,
+    patch: string,
+): string | null {
+    const RE_HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+    const newLines = content ? content.split('\n') : [];
+    const originalLines: string[] = [];
+
+    let cursor = 0;
+    let insideHunk = false;
+
+    for (const line of patch?.replace(/\n$/, '').split('\n') ?? []) {
+        const match = line.match(RE_HUNK_HEADER);
+        if (match) {
+            // An empty new side (`+0,0`) starts before the first line
+            const hunkStart = Math.max(parseInt(match[1], 10) - 1, 0);
+
+            if (hunkStart < cursor || hunkStart > newLines.length) {
+                return null;
+            }
+
+            originalLines.push(...newLines.slice(cursor, hunkStart));
+            cursor = hunkStart;
+            insideHunk = true;
+            continue;
+        }
+
+        if (!insideHunk || line.startsWith('\\')) {
+            continue;
+        }
+
+        if (line.startsWith('-')) {
+            originalLines.push(line.slice(1));
+        } else if (line.startsWith('+')) {
+            cursor++;
+        } else {
+            if (newLines[cursor] !== line.slice(1)) {
+                return null;
+            }
+            originalLines.push(newLines[cursor]);
+            cursor++;
+        }
+    }
+
+    if (cursor > newLines.length) {
+        return null;
+    }
+
+    originalLines.push(...newLines.slice(cursor));
+
+    return originalLines.join('\n');
+}
@@ -2,4 +2,5 @@ export enum IntegrationCategory {
     CODE_MANAGEMENT = 'CODE_MANAGEMENT',
     PROJECT_MANAGEMENT = 'PROJECT_MANAGEMENT',
     COMMUNICATION = 'COMMUNICATION',
+    ISSUE_TRACKER = 'ISSUE_TRACKER',
 }
@@ -19,6 +19,7 @@ export interface IKodyFineTuningContextPreparationService {
      * @param suggestionsToAnalyze Suggestions to be analyzed
      * @param isFineTuningEnabled Whether fine tuning is enabled
      * @param clusterizedSuggestions Clusterized suggestions
+     * @param options.dryRunId Dry run the decisions are recorded under
      * @returns Array of analyzed suggestions
      */
     prepareKodyFineTuningContext(
@@ -31,6 +32,7 @@ export interface IKodyFineTuningContextPreparationService {
         suggestionsToAnalyze: CodeSuggestion[],
         isFineTuningEnabled: boolean,
         clusterizedSuggestions: IClusterizedSuggestion[],
+        options?: { dryRunId?: string },
     ): Promise<{
         keepedSuggestions: Partial<CodeSuggestion>[];
         discardedSuggestions: Partial<CodeSuggestion>[];
@@ -103,6 +103,8 @@ export type AnalysisContext<TPullRequest = any> = {
     action?: string;
     baseDir?: string;
     correlationId?: string;
+    /** Set when the review is a dry run, whose results are not the PR's own. */
+    dryRunId?: string;
     impactASTAnalysis?: GetImpactAnalysisResponse;
     reviewModeResponse?: ReviewModeResponse;
     kodyFineTuningConfig?: KodyFineTuningConfig;
@@ -175,6 +177,8 @@ export type CodeSuggestion = {
     deliveryStatus?: DeliveryStatus;
     implementationStatus?: ImplementationStatus;
     brokenKodyRulesIds?: string[];
+    /** Revision of each broken rule the suggestion was produced under */
+    brokenKodyRulesRevisions?: Record<string, number>;
     clusteringInformation?: {
         type?: ClusteringType;
         relatedSuggestionsIds?: string[];
@@ -277,6 +281,10 @@ export interface ReviewOptions {
     performance?: boolean;
     security?: boolean;
     cross_file?: boolean;
+    /** Runs the bundled static-analysis linters (ESLint / tsc) on changed lines. */
+    linting?: boolean;
+    /** Diffs the API contracts changed by the PR (OpenAPI, GraphQL, protobuf, exported TS types). */
+    breaking_changes?: boolean;
 }
 
 export interface SummaryConfig {
@@ -341,7 +349,8 @@ export type CodeReviewConfig = {
         categories?: {
             /**
              * Additional or replacement description bullets for each label.
-             * Labels are fixed to: bug, performance, security.
+             * Built-in labels are: bug, performance, security. Team-defined
+             * labels are declared in `customCategories`.
              */
             descriptions?: {
                 bug?: string;
@@ -365,6 +374,11 @@ export type CodeReviewConfig = {
             main?: string;
         };
     };
+    /**
+     * Team-defined suggestion categories (v2 only), injected into the
+     * v2 system prompt next to bug, performance and security.
+     */
+    customCategories?: CustomCategory[];
     contextReferenceId?: string;
     contextRequirementsHash?: string;
     enableCommittableSuggestions?: boolean;
@@ -399,6 +413,17 @@ export type KodusConfigFile = DeepPartial<
     >;
 };
 
+export type CustomCategory = {
+    /** Slug used as the suggestion label (e.g. `accessibility`). */
+    name: string;
+    /** What the model should look for in this category. */
+    description: string;
+    /** How findings in this category map to critical/high/medium/low. */
+    severityGuidance?: string;
+    /** Hex shield color for the comment badge, without `#`. */
+    color?: string;
+};
+
 export type KodyFineTuningConfig = {
     enabled: boolean;
 };
@@ -1,5 +1,64 @@
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+
 export enum IssueStatus {
     OPEN = 'open',
+    IN_PROGRESS = 'in_progress',
+    REOPENED = 'reopened',
     RESOLVED = 'resolved',
+    WONT_FIX = 'wont_fix',
     DISMISSED = 'dismissed',
 }
+
+/** Statuses of the issues that are still part of the backlog. */
+export const ACTIVE_ISSUE_STATUSES: IssueStatus[] = [
+    IssueStatus.OPEN,
+    IssueStatus.IN_PROGRESS,
+    IssueStatus.REOPENED,
+];
+
+const CLOSED_ISSUE_STATUSES: IssueStatus[] = [
+    IssueStatus.RESOLVED,
+    IssueStatus.WONT_FIX,
+    IssueStatus.DISMISSED,
+];
+
+const ISSUE_STATUS_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+    [IssueStatus.OPEN]: [IssueStatus.IN_PROGRESS, ...CLOSED_ISSUE_STATUSES],
+    [IssueStatus.IN_PROGRESS]: [IssueStatus.OPEN, ...CLOSED_ISSUE_STATUSES],
+    [IssueStatus.REOPENED]: [IssueStatus.IN_PROGRESS, ...CLOSED_ISSUE_STATUSES],
+    [IssueStatus.RESOLVED]: [IssueStatus.REOPENED],
+    [IssueStatus.WONT_FIX]: [IssueStatus.REOPENED],
+    [IssueStatus.DISMISSED]: [IssueStatus.REOPENED],
+};
+
+export function canTransitionIssueStatus(
+    from: IssueStatus | undefined,
+    to: IssueStatus,
+): boolean {
+    return ISSUE_STATUS_TRANSITIONS[from ?? IssueStatus.OPEN].includes(to);
+}
+
+/** Days to fix an issue, per severity, when the organization sets none. */
+export const DEFAULT_ISSUE_SLA_DAYS: Record<SeverityLevel, number> = {
+    [SeverityLevel.CRITICAL]: 7,
+    [SeverityLevel.HIGH]: 14,
+    [SeverityLevel.MEDIUM]: 30,
+    [SeverityLevel.LOW]: 90,
+};
+
+export function getIssueSlaDueDate(
+    severity: SeverityLevel,
+    from: Date = new Date(),
+    slaDays?: Partial<Record<SeverityLevel, number>>,
+): string | undefined {
+    const days = slaDays?.[severity] ?? DEFAULT_ISSUE_SLA_DAYS[severity];
+
+    if (days === undefined) {
+        return undefined;
+    }
+
+    const dueDate = new Date(from);
+    dueDate.setDate(dueDate.getDate() + days);
+
+    return dueDate.toISOString();
+}
@@ -7,8 +7,11 @@ import { CodeReviewExecutionModel } from '../../../../automation/infrastructure/
 import { TeamAutomationModel } from '../../../../automation/infrastructure/adapters/repositories/schemas/teamAutomation.model';
 import { DryRunModel } from '../../../../dryRun/infrastructure/adapters/repositories/schemas/dryRun.model';
 import { CodeReviewSettingsLogModel } from '../../../../ee/codeReviewSettingsLog/infrastructure/adapters/repository/schemas/codeReviewSettingsLog.model';
+import { ScimGroupModel } from '../../../../ee/sso/repositories/scimGroup.model';
+import { ScimTokenModel } from '../../../../ee/sso/repositories/scimToken.model';
 import { SSOConfigModel } from '../../../../ee/sso/repositories/ssoConfig.model';
 import { AuthModel } from '../../../../identity/infrastructure/adapters/repositories/schemas/auth.model';
+import { CustomRoleModel } from '../../../../identity/infrastructure/adapters/repositories/schemas/customRole.model';
 import { PermissionsModel } from '../../../../identity/infrastructure/adapters/repositories/schemas/permissions.model';
 import { ProfileModel } from '../../../../identity/infrastructure/adapters/repositories/schemas/profile.model';
 import { ProfileConfigModel } from '../../../../identity/infrastructure/adapters/repositories/schemas/profileConfig.model';
@@ -55,12 +58,15 @@ export const ENTITIES = [
     GlobalParametersModel,
     TeamAutomationModel,
     PermissionsModel,
+    CustomRoleModel,
     IssuesModel,
     AutomationExecutionModel,
     ProfileConfigModel,
     IntegrationModel,
     KodyRulesModel,
     SSOConfigModel,
+    ScimTokenModel,
+    ScimGroupModel,
     ProfileModel,
     CodeReviewExecutionModel,
     InteractionModel,
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCustomRoles1770100000000 implements MigrationInterface {
+    name = 'CreateCustomRoles1770100000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE "custom_roles" (
+                "uuid" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "createdAt" TIMESTAMP NOT NULL DEFAULT ('now'::text)::timestamp(6) with time zone,
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT ('now'::text)::timestamp(6) with time zone,
+                "name" character varying NOT NULL,
+                "description" character varying,
+                "grants" jsonb NOT NULL DEFAULT '[]',
+                "organization_id" uuid,
+                CONSTRAINT "PK_custom_roles_uuid" PRIMARY KEY ("uuid")
+            )
+        `);
+        await queryRunner.query(`
+            CREATE UNIQUE INDEX "UQ_custom_roles_organization_name" ON "custom_roles" ("organization_id", "name")
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "custom_roles"
+            ADD CONSTRAINT "FK_custom_roles_organization" FOREIGN KEY ("organization_id") REFERENCES "organizations"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "custom_roles" DROP CONSTRAINT "FK_custom_roles_organization"
+        `);
+        await queryRunner.query(`
+            DROP INDEX "public"."UQ_custom_roles_organization_name"
+        `);
+        await queryRunner.query(`
+            DROP TABLE "custom_roles"
+        `);
+    }
+}
@@ -0,0 +1,76 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddScimProvisioning1770200000000 implements MigrationInterface {
+    name = 'AddScimProvisioning1770200000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "sso_config" ADD "scim_config" jsonb
+        `);
+        await queryRunner.query(`
+            CREATE TABLE "scim_token" (
+                "uuid" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "createdAt" TIMESTAMP NOT NULL DEFAULT ('now'::text)::timestamp(6) with time zone,
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT ('now'::text)::timestamp(6) with time zone,
+                "name" character varying NOT NULL,
+                "tokenHash" character varying NOT NULL,
+                "tokenPrefix" character varying(16) NOT NULL,
+                "active" boolean NOT NULL DEFAULT true,
+                "lastUsedAt" TIMESTAMP,
+                "sso_config_id" uuid,
+                CONSTRAINT "UQ_scim_token_tokenHash" UNIQUE ("tokenHash"),
+                CONSTRAINT "PK_scim_token_uuid" PRIMARY KEY ("uuid")
+            )
+        `);
+        await queryRunner.query(`
+            CREATE INDEX "IDX_scim_token_tokenPrefix" ON "scim_token" ("tokenPrefix")
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "scim_token"
+            ADD CONSTRAINT "FK_scim_token_sso_config" FOREIGN KEY ("sso_config_id") REFERENCES "sso_config"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION
+        `);
+        await queryRunner.query(`
+            CREATE TABLE "scim_group" (
+                "uuid" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "createdAt" TIMESTAMP NOT NULL DEFAULT ('now'::text)::timestamp(6) with time zone,
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT ('now'::text)::timestamp(6) with time zone,
+                "displayName" character varying NOT NULL,
+                "externalId" character varying,
+                "members" text array NOT NULL DEFAULT '{}',
+                "sso_config_id" uuid,
+                CONSTRAINT "PK_scim_group_uuid" PRIMARY KEY ("uuid")
+            )
+        `);
+        await queryRunner.query(`
+            CREATE INDEX "IDX_scim_group_ssoConfig" ON "scim_group" ("sso_config_id")
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "scim_group"
+            ADD CONSTRAINT "FK_scim_group_sso_config" FOREIGN KEY ("sso_config_id") REFERENCES "sso_config"("uuid") ON DELETE CASCADE ON UPDATE NO ACTION
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "scim_group" DROP CONSTRAINT "FK_scim_group_sso_config"
+        `);
+        await queryRunner.query(`
+            DROP INDEX "public"."IDX_scim_group_ssoConfig"
+        `);
+        await queryRunner.query(`
+            DROP TABLE "scim_group"
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "scim_token" DROP CONSTRAINT "FK_scim_token_sso_config"
+        `);
+        await queryRunner.query(`
+            DROP INDEX "public"."IDX_scim_token_tokenPrefix"
+        `);
+        await queryRunner.query(`
+            DROP TABLE "scim_token"
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "sso_config" DROP COLUMN "scim_config"
+        `);
+    }
+}
@@ -52,6 +52,10 @@ export class BetterStackClient {
         });
     }
 
+    isEnabled(): boolean {
+        return this.client !== null;
+    }
+
     async createIncident(
         params: CreateIncidentParams,
     ): Promise<BetterStackIncident | null> {
@@ -1,9 +1,13 @@
-import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { Inject, Injectable, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { createLogger } from '@kodus/flow';
 import { BetterStackClient } from './betterstack.client';
-
-type IncidentSeverity = 'critical' | 'major' | 'minor';
+import {
+    INCIDENT_SINKS_TOKEN,
+    IncidentEvent,
+    IncidentSeverity,
+    IncidentSink,
+} from './interfaces/incident-sink.interface';
 
 interface ReportParams {
     key: string;
@@ -12,18 +16,37 @@ interface ReportParams {
     component?: string;
 }
 
+interface SinkRoute {
+    minSeverity: IncidentSeverity;
+    /** Empty means every component */
+    components: string[];
+}
+
+const SEVERITY_RANK: Record<IncidentSeverity, number> = {
+    minor: 0,
+    major: 1,
+    critical: 2,
+};
+
 @Injectable()
 export class IncidentManagerService implements OnModuleDestroy {
     private readonly logger = createLogger(IncidentManagerService.name);
     private readonly deduplicationMap = new Map<string, number>();
     private readonly cleanupInterval: ReturnType<typeof setInterval>;
+    private readonly routes = new Map<string, SinkRoute>();
 
     private static readonly DEDUP_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
 
     constructor(
         private readonly betterStackClient: BetterStackClient,
         private readonly configService: ConfigService,
+        @Inject(INCIDENT_SINKS_TOKEN)
+        private readonly sinks: IncidentSink[],
     ) {
+        for (const sink of this.sinks) {
+            this.routes.set(sink.name, this.loadRoute(sink.name));
+        }
+
         this.cleanupInterval = setInterval(
             () => this.cleanupExpiredEntries(),
             IncidentManagerService.DEDUP_WINDOW_MS,
@@ -74,13 +97,40 @@ export class IncidentManagerService implements OnModuleDestroy {
         await this.report('minor', params);
     }
 
+    /**
+     * Sends the incident to every enabled sink whose route accepts it. The
+     * deduplication window applies per sink and starts at a successful
+     * send, so a sink that was not routed (or was down) earlier still gets
+     * the next report.
+     */
     private async report(
         severity: IncidentSeverity,
         params: ReportParams,
     ): Promise<void> {
-        const deduplicationKey = `${severity}:${params.key}`;
+        const event: IncidentEvent = { ...params, severity };
 
-        if (this.isDuplicate(deduplicationKey)) {
+        const targets = this.sinks.filter(
+            (sink) => sink.isEnabled() && this.isRouted(sink, event),
+        );
+
+        if (!targets.length) {
+            this.logger.debug({
+                message: `No incident sink routed for [${severity.toUpperCase()}] ${params.title}`,
+                context: IncidentManagerService.name,
+                metadata: {
+                    key: params.key,
+                    severity,
+                    component: params.component,
+                },
+            });
+            return;
+        }
+
+        const pending = targets.filter(
+            (sink) => !this.isDuplicate(this.getDeduplicationKey(sink, event)),
+        );
+
+        if (!pending.length) {
             this.logger.debug({
                 message: `Incident deduplicated (already reported within window)`,
                 context: IncidentManagerService.name,
@@ -93,8 +143,6 @@ export class IncidentManagerService implements OnModuleDestroy {
             return;
         }
 
-        this.deduplicationMap.set(deduplicationKey, Date.now());
-
         this.logger.warn({
             message: `Incident reported: [${severity.toUpperCase()}] ${params.title}`,
             context: IncidentManagerService.name,
@@ -104,18 +152,93 @@ export class IncidentManagerService implements OnModuleDestroy {
                 title: params.title,
                 description: params.description,
                 component: params.component,
+                sinks: pending.map((sink) => sink.name),
             },
         });
 
-        const summary = params.component
-            ? `[${params.component}] ${params.description}`
-            : params.description;
+        await Promise.all(pending.map((sink) => this.sendToSink(sink, event)));
+    }
+
+    private async sendToSink(
+        sink: IncidentSink,
+        event: IncidentEvent,
+    ): Promise<void> {
+        try {
+            await sink.send(event);
 
-        await this.betterStackClient.createIncident({
-            name: params.title,
-            summary,
-            severity,
-        });
+            this.deduplicationMap.set(
+                this.getDeduplicationKey(sink, event),
+                Date.now(),
+            );
+        } catch (error) {
+            this.logger.error({
+                message: `Failed to send incident to ${sink.name}`,
+                context: IncidentManagerService.name,
+                error: error instanceof Error ? error : undefined,
+                metadata: {
+                    sink: sink.name,
+                    key: event.key,
+                    severity: event.severity,
+                },
+            });
+        }
+    }
+
+    private getDeduplicationKey(
+        sink: IncidentSink,
+        event: IncidentEvent,
+    ): string {
+        return `${sink.name}:${event.severity}:${event.key}`;
+    }
+
+    private isRouted(sink: IncidentSink, event: IncidentEvent): boolean {
+        const route = this.routes.get(sink.name);
+
+        if (!route) {
+            return true;
+        }
+
+        if (SEVERITY_RANK[event.severity] < SEVERITY_RANK[route.minSeverity]) {
+            return false;
+        }
+
+        return (
+            !route.components.length ||
+            route.components.includes(event.component?.toLowerCase())
+        );
+    }
+
+    /**
+     * `API_INCIDENT_<SINK>_MIN_SEVERITY` (critical, major or minor) and
+     * `API_INCIDENT_<SINK>_COMPONENTS` (comma-separated) narrow what a sink
+     * receives; by default it receives everything.
+     */
+    private loadRoute(sinkName: string): SinkRoute {
+        const prefix = `API_INCIDENT_${sinkName.toUpperCase()}`;
+
+        const minSeverity = (
+            this.configService.get<string>(`${prefix}_MIN_SEVERITY`) ?? ''
+        )
+            .trim()
+            .toLowerCase();
+        const isValid = minSeverity in SEVERITY_RANK;
+
+        if (minSeverity && !isValid) {
+            this.logger.warn({
+                message: `Invalid ${prefix}_MIN_SEVERITY "${minSeverity}", sending all severities`,
+                context: IncidentManagerService.name,
+            });
+        }
+
+        return {
+            minSeverity: isValid ? (minSeverity as IncidentSeverity) : 'minor',
+            components: (
+                this.configService.get<string>(`${prefix}_COMPONENTS`) ?? ''
+            )
+                .split(',')
+                .map((component) => component.trim().toLowerCase())
+                .filter(Boolean),
+        };
     }
 
     private isDuplicate(key: string): boolean {
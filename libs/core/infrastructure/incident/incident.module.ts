@@ -1,10 +1,38 @@
 import { Global, Module } from '@nestjs/common';
 import { BetterStackClient } from './betterstack.client';
 import { IncidentManagerService } from './incident-manager.service';
+import {
+    INCIDENT_SINKS_TOKEN,
+    IncidentSink,
+} from './interfaces/incident-sink.interface';
+import { BetterStackIncidentSink } from './sinks/betterstack.sink';
+import { EmailIncidentSink } from './sinks/email.sink';
+import { OpsgenieIncidentSink } from './sinks/opsgenie.sink';
+import { PagerDutyIncidentSink } from './sinks/pagerduty.sink';
+import { SlackIncidentSink } from './sinks/slack.sink';
+import { WebhookIncidentSink } from './sinks/webhook.sink';
+
+const INCIDENT_SINKS = [
+    BetterStackIncidentSink,
+    PagerDutyIncidentSink,
+    OpsgenieIncidentSink,
+    WebhookIncidentSink,
+    SlackIncidentSink,
+    EmailIncidentSink,
+];
 
 @Global()
 @Module({
-    providers: [BetterStackClient, IncidentManagerService],
+    providers: [
+        BetterStackClient,
+        ...INCIDENT_SINKS,
+        {
+            provide: INCIDENT_SINKS_TOKEN,
+            useFactory: (...sinks: IncidentSink[]) => sinks,
+            inject: INCIDENT_SINKS,
+        },
+        IncidentManagerService,
+    ],
     exports: [IncidentManagerService],
 })
 export class IncidentModule {}
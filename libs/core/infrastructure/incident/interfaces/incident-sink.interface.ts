@@ -0,0 +1,24 @@
+export const INCIDENT_SINKS_TOKEN = Symbol.for('IncidentSinks');
+
+export type IncidentSeverity = 'critical' | 'major' | 'minor';
+
+export interface IncidentEvent {
+    /** Stable identifier of the condition, used to deduplicate and group alerts. */
+    key: string;
+    title: string;
+    description: string;
+    severity: IncidentSeverity;
+    component?: string;
+}
+
+/**
+ * A destination for incidents (an on-call tool, a chat channel, an inbox).
+ * `send` throws when delivery fails; routing and deduplication are handled
+ * by `IncidentManagerService`.
+ */
+export interface IncidentSink {
+    /** Lowercase identifier, also used in the `API_INCIDENT_<NAME>_*` routing variables. */
+    readonly name: string;
+    isEnabled(): boolean;
+    send(event: IncidentEvent): Promise<void>;
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+
+import { BetterStackClient } from '../betterstack.client';
+import {
+    IncidentEvent,
+    IncidentSink,
+} from '../interfaces/incident-sink.interface';
+
+@Injectable()
+export class BetterStackIncidentSink implements IncidentSink {
+    readonly name = 'betterstack';
+
+    constructor(private readonly betterStackClient: BetterStackClient) {}
+
+    isEnabled(): boolean {
+        return this.betterStackClient.isEnabled();
+    }
+
+    async send(event: IncidentEvent): Promise<void> {
+        const summary = event.component
+            ? `[${event.component}] ${event.description}`
+            : event.description;
+
+        const incident = await this.betterStackClient.createIncident({
+            name: event.title,
+            summary,
+            severity: event.severity,
+        });
+
+        // The client logs the cause and handles its own circuit breaker
+        if (!incident) {
+            throw new Error('BetterStack incident was not created');
+        }
+    }
+}
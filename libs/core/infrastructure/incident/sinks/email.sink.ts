@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { sendIncidentNotification } from '@libs/common/utils/email/sendMail';
+
+import {
+    IncidentEvent,
+    IncidentSink,
+} from '../interfaces/incident-sink.interface';
+
+/** Emails the comma-separated `API_INCIDENT_EMAIL_TO` recipients through Customer.io. */
+@Injectable()
+export class EmailIncidentSink implements IncidentSink {
+    readonly name = 'email';
+
+    private readonly recipients: string[];
+
+    constructor(private readonly configService: ConfigService) {
+        this.recipients = (
+            this.configService.get<string>('API_INCIDENT_EMAIL_TO') ?? ''
+        )
+            .split(',')
+            .map((recipient) => recipient.trim())
+            .filter(Boolean);
+    }
+
+    isEnabled(): boolean {
+        return (
+            this.recipients.length > 0 &&
+            !!this.configService.get<string>('API_CUSTOMERIO_APP_API_TOKEN')
+        );
+    }
+
+    async send(event: IncidentEvent): Promise<void> {
+        const subject = `[Kodus ${event.severity.toUpperCase()}] ${event.title}`;
+        const body = [
+            event.description,
+            '',
+            event.component ? `Component: ${event.component}` : null,
+            `Severity: ${event.severity}`,
+            `Key: ${event.key}`,
+        ]
+            .filter((line) => line !== null)
+            .join('\n');
+
+        await sendIncidentNotification(this.recipients, subject, body);
+    }
+}
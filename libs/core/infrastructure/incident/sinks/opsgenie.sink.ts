@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+import {
+    IncidentEvent,
+    IncidentSeverity,
+    IncidentSink,
+} from '../interfaces/incident-sink.interface';
+
+const DEFAULT_API_URL = 'https://api.opsgenie.com';
+
+const OPSGENIE_PRIORITY: Record<IncidentSeverity, string> = {
+    critical: 'P1',
+    major: 'P2',
+    minor: 'P3',
+};
+
+/** Opsgenie Alert API; set the API URL to `https://api.eu.opsgenie.com` for EU accounts. */
+@Injectable()
+export class OpsgenieIncidentSink implements IncidentSink {
+    readonly name = 'opsgenie';
+
+    private readonly apiKey: string | undefined;
+    private readonly apiUrl: string;
+
+    constructor(private readonly configService: ConfigService) {
+        this.apiKey = this.configService.get<string>(
+            'API_INCIDENT_OPSGENIE_API_KEY',
+        );
+        this.apiUrl =
+            this.configService.get<string>('API_INCIDENT_OPSGENIE_API_URL') ||
+            DEFAULT_API_URL;
+    }
+
+    isEnabled(): boolean {
+        return !!this.apiKey;
+    }
+
+    async send(event: IncidentEvent): Promise<void> {
+        await axios.post(
+            `${this.apiUrl}/v2/alerts`,
+            {
+                message: event.title.slice(0, 130),
+                // Open alerts with the same alias are deduplicated by Opsgenie
+                alias: event.key.slice(0, 512),
+                description: event.description.slice(0, 15_000),
+                priority: OPSGENIE_PRIORITY[event.severity],
+                source: 'kodus',
+                tags: event.component ? [event.component] : [],
+            },
+            {
+                headers: {
+                    'Authorization': `GenieKey ${this.apiKey}`,
+                    'Content-Type': 'application/json',
+                },
+                timeout: 10_000,
+            },
+        );
+    }
+}
@@ -0,0 +1,62 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+import {
+    IncidentEvent,
+    IncidentSeverity,
+    IncidentSink,
+} from '../interfaces/incident-sink.interface';
+
+const DEFAULT_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue';
+
+const PAGERDUTY_SEVERITY: Record<IncidentSeverity, string> = {
+    critical: 'critical',
+    major: 'error',
+    minor: 'warning',
+};
+
+/** PagerDuty Events API v2, through the routing key of a service integration. */
+@Injectable()
+export class PagerDutyIncidentSink implements IncidentSink {
+    readonly name = 'pagerduty';
+
+    private readonly routingKey: string | undefined;
+    private readonly eventsUrl: string;
+
+    constructor(private readonly configService: ConfigService) {
+        this.routingKey = this.configService.get<string>(
+            'API_INCIDENT_PAGERDUTY_ROUTING_KEY',
+        );
+        this.eventsUrl =
+            this.configService.get<string>(
+                'API_INCIDENT_PAGERDUTY_EVENTS_URL',
+            ) || DEFAULT_EVENTS_URL;
+    }
+
+    isEnabled(): boolean {
+        return !!this.routingKey;
+    }
+
+    async send(event: IncidentEvent): Promise<void> {
+        await axios.post(
+            this.eventsUrl,
+            {
+                routing_key: this.routingKey,
+                event_action: 'trigger',
+                // Repeated triggers with the same key are grouped in one alert
+                dedup_key: event.key,
+                payload: {
+                    summary: event.title.slice(0, 1024),
+                    source: 'kodus',
+                    severity: PAGERDUTY_SEVERITY[event.severity],
+                    component: event.component,
+                    custom_details: {
+                        description: event.description,
+                    },
+                },
+            },
+            { timeout: 10_000 },
+        );
+    }
+}
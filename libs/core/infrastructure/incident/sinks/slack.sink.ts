@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+import {
+    IncidentEvent,
+    IncidentSeverity,
+    IncidentSink,
+} from '../interfaces/incident-sink.interface';
+
+const SEVERITY_EMOJI: Record<IncidentSeverity, string> = {
+    critical: ':red_circle:',
+    major: ':large_orange_circle:',
+    minor: ':large_yellow_circle:',
+};
+
+/** Slack incoming webhook. */
+@Injectable()
+export class SlackIncidentSink implements IncidentSink {
+    readonly name = 'slack';
+
+    private readonly webhookUrl: string | undefined;
+
+    constructor(private readonly configService: ConfigService) {
+        this.webhookUrl = this.configService.get<string>(
+            'API_INCIDENT_SLACK_WEBHOOK_URL',
+        );
+    }
+
+    isEnabled(): boolean {
+        return !!this.webhookUrl;
+    }
+
+    async send(event: IncidentEvent): Promise<void> {
+        const heading = `${SEVERITY_EMOJI[event.severity]} *[${event.severity.toUpperCase()}] ${event.title}*`;
+        const context = event.component
+            ? `Component: \`${event.component}\` · Key: \`${event.key}\``
+            : `Key: \`${event.key}\``;
+
+        await axios.post(
+            this.webhookUrl,
+            {
+                text: `[${event.severity.toUpperCase()}] ${event.title}`,
+                blocks: [
+                    {
+                        type: 'section',
+                        text: {
+                            type: 'mrkdwn',
+                            text: `${heading}\n${event.description}`,
+                        },
+                    },
+                    {
+                        type: 'context',
+                        elements: [{ type: 'mrkdwn', text: context }],
+                    },
+                ],
+            },
+            { timeout: 10_000 },
+        );
+    }
+}
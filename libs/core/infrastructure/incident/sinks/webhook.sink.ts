@@ -0,0 +1,60 @@
+import { createHmac } from 'crypto';
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+
+import {
+    IncidentEvent,
+    IncidentSink,
+} from '../interfaces/incident-sink.interface';
+
+/**
+ * Posts incidents as JSON to any HTTP endpoint. When a secret is configured,
+ * `X-Kodus-Signature` carries `sha256=<hex HMAC of "<timestamp>.<body>">`, with
+ * the timestamp sent in `X-Kodus-Timestamp` so receivers can reject replays.
+ */
+@Injectable()
+export class WebhookIncidentSink implements IncidentSink {
+    readonly name = 'webhook';
+
+    private readonly url: string | undefined;
+    private readonly secret: string | undefined;
+
+    constructor(private readonly configService: ConfigService) {
+        this.url = this.configService.get<string>('API_INCIDENT_WEBHOOK_URL');
+        this.secret = this.configService.get<string>(
+            'API_INCIDENT_WEBHOOK_SECRET',
+        );
+    }
+
+    isEnabled(): boolean {
+        return !!this.url;
+    }
+
+    async send(event: IncidentEvent): Promise<void> {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const body = JSON.stringify({
+            type: 'incident.triggered',
+            occurredAt: new Date().toISOString(),
+            incident: event,
+        });
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'X-Kodus-Timestamp': timestamp,
+        };
+
+        if (this.secret) {
+            headers['X-Kodus-Signature'] = `sha256=${createHmac(
+                'sha256',
+                this.secret,
+            )
+                .update(`${timestamp}.${body}`)
+                .digest('hex')}`;
+        }
+
+        // Send the exact bytes that were signed
+        await axios.post(this.url, body, { headers, timeout: 10_000 });
+    }
+}
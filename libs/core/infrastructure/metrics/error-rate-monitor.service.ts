@@ -72,10 +72,25 @@ export class ErrorRateMonitorService {
             );
 
             if (errorRate >= this.thresholdPercent) {
+                const description = `HTTP error rate is ${errorRate.toFixed(1)}% (threshold: ${this.thresholdPercent}%) over the last ${this.windowMinutes} minutes. Total errors: ${errorCounts}, total requests: ${requestCounts}.`;
+
                 await this.incidentManager.failHeartbeat(
                     'API_BETTERSTACK_HEARTBEAT_ERROR_RATE_URL',
-                    `HTTP error rate is ${errorRate.toFixed(1)}% (threshold: ${this.thresholdPercent}%) over the last ${this.windowMinutes} minutes. Total errors: ${errorCounts}, total requests: ${requestCounts}.`,
+                    description,
                 );
+
+                const incident = {
+                    key: 'http-error-rate',
+                    title: `High HTTP error rate (${errorRate.toFixed(1)}%)`,
+                    description,
+                    component: 'api',
+                };
+
+                if (errorRate >= this.criticalPercent) {
+                    await this.incidentManager.reportCritical(incident);
+                } else {
+                    await this.incidentManager.reportMajor(incident);
+                }
             } else {
                 await this.incidentManager.pingHeartbeat(
                     'API_BETTERSTACK_HEARTBEAT_ERROR_RATE_URL',
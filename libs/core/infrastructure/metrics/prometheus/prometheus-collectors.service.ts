@@ -0,0 +1,175 @@
+import { AmqpConnection } from '@golevelup/nestjs-rabbitmq';
+import { Injectable, OnModuleInit, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Channel } from 'amqplib';
+import { Repository } from 'typeorm';
+import { createLogger } from '@kodus/flow';
+
+import { JobStatus } from '@libs/core/workflow/domain/enums/job-status.enum';
+import { WorkflowJobModel } from '@libs/core/workflow/infrastructure/repositories/schemas/workflow-job.model';
+
+import {
+    rabbitmqQueueConsumers,
+    rabbitmqQueueMessages,
+    registerCollector,
+    workflowJobs,
+} from './prometheus.metrics';
+
+const DEFAULT_QUEUES = [
+    'workflow.jobs.webhook.queue',
+    'workflow.jobs.code_review.queue',
+    'workflow.jobs.check_implementation.queue',
+    'workflow.events.ast',
+    'workflow.jobs.dlq',
+    'workflow.events.dlq',
+];
+
+/**
+ * Refreshes the gauges read from RabbitMQ and Postgres when `/metrics` is
+ * scraped. Results are reused for a short interval so several scrapers (or
+ * several apps sharing the same broker) do not hammer them.
+ */
+@Injectable()
+export class PrometheusCollectorsService implements OnModuleInit {
+    private readonly logger = createLogger(PrometheusCollectorsService.name);
+
+    private readonly queues: string[];
+    private readonly minIntervalMs: number;
+    private lastCollectedAt = 0;
+    private inFlight: Promise<void> | null = null;
+
+    constructor(
+        private readonly configService: ConfigService,
+        @InjectRepository(WorkflowJobModel)
+        private readonly jobRepository: Repository<WorkflowJobModel>,
+        @Optional()
+        private readonly amqpConnection?: AmqpConnection,
+    ) {
+        const queues = this.configService.get<string>(
+            'API_METRICS_RABBITMQ_QUEUES',
+        );
+
+        this.queues = queues
+            ? queues
+                  .split(',')
+                  .map((queue) => queue.trim())
+                  .filter(Boolean)
+            : DEFAULT_QUEUES;
+
+        this.minIntervalMs = Number(
+            this.configService.get<number>(
+                'API_METRICS_COLLECT_INTERVAL_MS',
+                15_000,
+            ),
+        );
+    }
+
+    onModuleInit() {
+        registerCollector(() => this.collect());
+    }
+
+    collect(): Promise<void> {
+        if (Date.now() - this.lastCollectedAt < this.minIntervalMs) {
+            return Promise.resolve();
+        }
+
+        if (!this.inFlight) {
+            this.inFlight = Promise.all([
+                this.collectQueueDepth(),
+                this.collectWorkflowJobs(),
+            ])
+                .then(() => {
+                    this.lastCollectedAt = Date.now();
+                })
+                .finally(() => {
+                    this.inFlight = null;
+                });
+        }
+
+        return this.inFlight;
+    }
+
+    private async collectQueueDepth(): Promise<void> {
+        const connection = this.amqpConnection?.managedConnection?.connection;
+
+        if (!connection) {
+            return;
+        }
+
+        let channel: Channel | null = null;
+
+        try {
+            for (const queue of this.queues) {
+                if (!channel) {
+                    channel = await connection.createChannel();
+                    // checkQueue closes the channel when the queue does not
+                    // exist; without a listener that error would be thrown
+                    channel.on('error', () => undefined);
+                }
+
+                try {
+                    const { messageCount, consumerCount } =
+                        await channel.checkQueue(queue);
+
+                    rabbitmqQueueMessages.set({ queue }, messageCount);
+                    rabbitmqQueueConsumers.set({ queue }, consumerCount);
+                } catch {
+                    channel = null;
+                }
+            }
+        } catch (error) {
+            this.logger.warn({
+                message: 'Failed to collect RabbitMQ queue depth',
+                context: PrometheusCollectorsService.name,
+                error: error instanceof Error ? error : undefined,
+            });
+        } finally {
+            await channel?.close().catch(() => undefined);
+        }
+    }
+
+    private async collectWorkflowJobs(): Promise<void> {
+        try {
+            const rows: {
+                status: JobStatus;
+                workflowType: string;
+                count: string;
+            }[] = await this.jobRepository
+                .createQueryBuilder('job')
+                .select('job.status', 'status')
+                .addSelect('job.workflowType', 'workflowType')
+                .addSelect('COUNT(*)', 'count')
+                .groupBy('job.status')
+                .addGroupBy('job.workflowType')
+                .getRawMany();
+
+            workflowJobs.reset();
+
+            const workflowTypes = new Set(rows.map((row) => row.workflowType));
+
+            // Every status is exported, so a drained status reads 0 instead of disappearing
+            for (const workflowType of workflowTypes) {
+                for (const status of Object.values(JobStatus)) {
+                    workflowJobs.set(
+                        { status, workflow_type: workflowType },
+                        0,
+                    );
+                }
+            }
+
+            for (const row of rows) {
+                workflowJobs.set(
+                    { status: row.status, workflow_type: row.workflowType },
+                    parseInt(row.count, 10),
+                );
+            }
+        } catch (error) {
+            this.logger.warn({
+                message: 'Failed to collect workflow job counts',
+                context: PrometheusCollectorsService.name,
+                error: error instanceof Error ? error : undefined,
+            });
+        }
+    }
+}
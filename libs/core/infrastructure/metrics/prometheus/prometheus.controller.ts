@@ -0,0 +1,26 @@
+import { Controller, Get, HttpStatus, Req, Res } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+
+import { prometheusRegistry, renderMetrics } from './prometheus.metrics';
+import { isMetricsRequestAuthorized } from './prometheus.server';
+
+@Controller('metrics')
+export class PrometheusController {
+    constructor(private readonly configService: ConfigService) {}
+
+    @Get()
+    async scrape(@Req() req: Request, @Res() res: Response) {
+        if (
+            !isMetricsRequestAuthorized(
+                req.headers.authorization,
+                this.configService.get<string>('API_METRICS_BEARER_TOKEN'),
+            )
+        ) {
+            return res.status(HttpStatus.UNAUTHORIZED).send();
+        }
+
+        res.setHeader('Content-Type', prometheusRegistry.contentType);
+        return res.status(HttpStatus.OK).send(await renderMetrics());
+    }
+}
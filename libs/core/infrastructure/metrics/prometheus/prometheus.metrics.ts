@@ -0,0 +1,142 @@
+import { MODEL_STRATEGIES, ModelStrategy } from '@kodus/kodus-common/llm';
+import {
+    collectDefaultMetrics,
+    Counter,
+    Gauge,
+    Histogram,
+    Registry,
+} from 'prom-client';
+
+type Collector = () => Promise<void> | void;
+
+/**
+ * Process-wide registry, so code that is not created through Nest (such as
+ * `PipelineExecutor`) can record metrics too.
+ */
+export const prometheusRegistry = new Registry();
+
+collectDefaultMetrics({ register: prometheusRegistry });
+
+const collectors: Collector[] = [];
+
+/**
+ * Runs the collector before each scrape, to refresh gauges that are read
+ * from external systems (queues, database).
+ */
+export function registerCollector(collector: Collector): void {
+    collectors.push(collector);
+}
+
+/** Renders the registry in the Prometheus text format. */
+export async function renderMetrics(): Promise<string> {
+    // A failing collector keeps the previous values of its gauges
+    await Promise.allSettled(collectors.map(async (collector) => collector()));
+
+    return prometheusRegistry.metrics();
+}
+
+const DURATION_BUCKETS_SECONDS = [
+    0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600,
+];
+
+const TOKEN_BUCKETS = [
+    100, 500, 1_000, 2_500, 5_000, 10_000, 25_000, 50_000, 100_000, 250_000,
+    500_000,
+];
+
+export const pipelineStageDuration = new Histogram({
+    name: 'kodus_pipeline_stage_duration_seconds',
+    help: 'Duration of each pipeline stage',
+    labelNames: ['pipeline', 'stage', 'status'],
+    buckets: DURATION_BUCKETS_SECONDS,
+    registers: [prometheusRegistry],
+});
+
+export const llmRequestDuration = new Histogram({
+    name: 'kodus_llm_request_duration_seconds',
+    help: 'Latency of LLM calls',
+    labelNames: ['provider', 'model', 'status'],
+    buckets: DURATION_BUCKETS_SECONDS,
+    registers: [prometheusRegistry],
+});
+
+export const llmTokens = new Histogram({
+    name: 'kodus_llm_tokens',
+    help: 'Tokens used per LLM call',
+    labelNames: ['provider', 'model', 'type'],
+    buckets: TOKEN_BUCKETS,
+    registers: [prometheusRegistry],
+});
+
+export const webhooksReceived = new Counter({
+    name: 'kodus_webhooks_received_total',
+    help: 'Webhooks received from code management platforms',
+    labelNames: ['platform'],
+    registers: [prometheusRegistry],
+});
+
+export const webhooksEnqueued = new Counter({
+    name: 'kodus_webhooks_enqueued_total',
+    help: 'Webhooks enqueued for processing, by result',
+    labelNames: ['platform', 'status'],
+    registers: [prometheusRegistry],
+});
+
+export const rabbitmqQueueMessages = new Gauge({
+    name: 'kodus_rabbitmq_queue_messages',
+    help: 'Messages ready for delivery in a RabbitMQ queue',
+    labelNames: ['queue'],
+    registers: [prometheusRegistry],
+});
+
+export const rabbitmqQueueConsumers = new Gauge({
+    name: 'kodus_rabbitmq_queue_consumers',
+    help: 'Consumers attached to a RabbitMQ queue',
+    labelNames: ['queue'],
+    registers: [prometheusRegistry],
+});
+
+export const workflowJobs = new Gauge({
+    name: 'kodus_workflow_jobs',
+    help: 'Workflow jobs by status and workflow type',
+    labelNames: ['status', 'workflow_type'],
+    registers: [prometheusRegistry],
+});
+
+const PROVIDER_BY_MODEL = new Map(
+    Object.values<ModelStrategy>(MODEL_STRATEGIES).map((strategy) => [
+        strategy.modelName,
+        strategy.provider,
+    ]),
+);
+
+const PROVIDER_BY_MODEL_PREFIX: [RegExp, string][] = [
+    [/^(gpt-|o\d|chatgpt)/, 'openai'],
+    [/^claude/, 'anthropic'],
+    [/^gemini/, 'google'],
+    [/^deepseek/, 'deepseek'],
+    [/^(mistral|codestral)/, 'mistral'],
+];
+
+/**
+ * Provider of a model known to Kodus, falling back to well-known model name
+ * prefixes for BYOK models.
+ */
+export function resolveLLMProvider(model?: string): string {
+    if (!model) {
+        return 'unknown';
+    }
+
+    const known = PROVIDER_BY_MODEL.get(model);
+
+    if (known) {
+        return known;
+    }
+
+    const name = model.toLowerCase().split('/').pop();
+
+    return (
+        PROVIDER_BY_MODEL_PREFIX.find(([pattern]) => pattern.test(name))?.[1] ??
+        'unknown'
+    );
+}
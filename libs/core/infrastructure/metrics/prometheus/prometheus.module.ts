@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { WorkflowJobModel } from '@libs/core/workflow/infrastructure/repositories/schemas/workflow-job.model';
+
+import { PrometheusCollectorsService } from './prometheus-collectors.service';
+import { PrometheusController } from './prometheus.controller';
+
+/**
+ * Exposes `/metrics` in the Prometheus text format. The worker has no HTTP
+ * server and serves it through `startPrometheusServer` instead.
+ */
+@Module({
+    imports: [TypeOrmModule.forFeature([WorkflowJobModel])],
+    providers: [PrometheusCollectorsService],
+    controllers: [PrometheusController],
+})
+export class PrometheusModule {}
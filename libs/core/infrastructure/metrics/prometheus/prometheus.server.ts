@@ -0,0 +1,75 @@
+import { timingSafeEqual } from 'crypto';
+import { createServer, Server } from 'http';
+
+import { createLogger } from '@kodus/flow';
+
+import { prometheusRegistry, renderMetrics } from './prometheus.metrics';
+
+const logger = createLogger('PrometheusServer');
+
+/**
+ * Scrapes must send `API_METRICS_BEARER_TOKEN`; while it is not set every
+ * scrape is refused, so the metrics are never served unauthenticated.
+ */
+export function isMetricsRequestAuthorized(
+    authorization: string | undefined,
+    token: string | undefined,
+): boolean {
+    if (!token) {
+        return false;
+    }
+
+    const expected = Buffer.from(`Bearer ${token}`);
+    const received = Buffer.from(authorization ?? '');
+
+    return (
+        expected.length === received.length &&
+        timingSafeEqual(expected, received)
+    );
+}
+
+/**
+ * Serves `/metrics` for processes without an HTTP server, such as the
+ * worker.
+ */
+export function startPrometheusServer(
+    port: number,
+    host: string,
+    token: string,
+): Server {
+    const server = createServer((req, res) => {
+        if (req.method !== 'GET' || req.url?.split('?')[0] !== '/metrics') {
+            res.writeHead(404).end();
+            return;
+        }
+
+        if (!isMetricsRequestAuthorized(req.headers.authorization, token)) {
+            res.writeHead(401).end();
+            return;
+        }
+
+        renderMetrics()
+            .then((body) => {
+                res.writeHead(200, {
+                    'Content-Type': prometheusRegistry.contentType,
+                }).end(body);
+            })
+            .catch((error) => {
+                logger.error({
+                    message: 'Failed to render Prometheus metrics',
+                    context: 'PrometheusServer',
+                    error,
+                });
+                res.writeHead(500).end();
+            });
+    });
+
+    server.listen(port, host, () => {
+        logger.log({
+            message: `Prometheus metrics available on http://${host}:${port}/metrics`,
+            context: 'PrometheusServer',
+        });
+    });
+
+    return server;
+}
@@ -69,10 +69,25 @@ export class ReviewResponseMonitorService {
             this.metricsCollector.recordGauge('review_response_avg_ms', avg, {});
 
             if (p95 >= this.p95ThresholdMs) {
+                const description = `Code review p95 response time is ${this.formatDuration(p95)} (threshold: ${this.formatDuration(this.p95ThresholdMs)}). p50=${this.formatDuration(p50)}, avg=${this.formatDuration(avg)}, count=${values.length} in last 30 minutes.`;
+
                 await this.incidentManager.failHeartbeat(
                     'API_BETTERSTACK_HEARTBEAT_REVIEW_MONITOR_URL',
-                    `Code review p95 response time is ${this.formatDuration(p95)} (threshold: ${this.formatDuration(this.p95ThresholdMs)}). p50=${this.formatDuration(p50)}, avg=${this.formatDuration(avg)}, count=${values.length} in last 30 minutes.`,
+                    description,
                 );
+
+                const incident = {
+                    key: 'review-response-p95',
+                    title: `Code reviews are slow (p95 ${this.formatDuration(p95)})`,
+                    description,
+                    component: 'code-review',
+                };
+
+                if (p95 >= this.p95CriticalMs) {
+                    await this.incidentManager.reportCritical(incident);
+                } else {
+                    await this.incidentManager.reportMajor(incident);
+                }
             } else {
                 await this.incidentManager.pingHeartbeat(
                     'API_BETTERSTACK_HEARTBEAT_REVIEW_MONITOR_URL',
@@ -69,10 +69,18 @@ export class WebhookFailureMonitorService {
             const failureRate = (failed / total) * 100;
 
             if (failureRate >= this.thresholdPercent) {
+                const description = `Webhook failure rate is ${failureRate.toFixed(1)}% (threshold: ${this.thresholdPercent}%) over the last ${this.windowMinutes} minutes. Failed: ${failed}, Total: ${total}.`;
+
                 await this.incidentManager.failHeartbeat(
                     'API_BETTERSTACK_HEARTBEAT_WEBHOOK_URL',
-                    `Webhook failure rate is ${failureRate.toFixed(1)}% (threshold: ${this.thresholdPercent}%) over the last ${this.windowMinutes} minutes. Failed: ${failed}, Total: ${total}.`,
+                    description,
                 );
+                await this.incidentManager.reportMajor({
+                    key: 'webhook-failure-rate',
+                    title: `Webhook processing is failing (${failureRate.toFixed(1)}%)`,
+                    description,
+                    component: 'webhooks',
+                });
             } else {
                 await this.incidentManager.pingHeartbeat(
                     'API_BETTERSTACK_HEARTBEAT_WEBHOOK_URL',
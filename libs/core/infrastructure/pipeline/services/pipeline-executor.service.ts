@@ -5,6 +5,7 @@ import { createLogger } from '@kodus/flow';
 import { PipelineStage } from '../interfaces/pipeline.interface';
 import { AutomationStatus } from '@libs/automation/domain/automation/enum/automation-status';
 import { MetricsCollectorService } from '@libs/core/infrastructure/metrics/metrics-collector.service';
+import { pipelineStageDuration } from '@libs/core/infrastructure/metrics/prometheus/prometheus.metrics';
 import { IPipelineObserver } from '../interfaces/pipeline-observer.interface';
 
 type SkipDecision = 'EXECUTE_STAGE' | 'SKIP_STAGE' | 'ABORT_PIPELINE';
@@ -90,6 +91,14 @@ export class PipelineExecutor<TContext extends PipelineContext> {
                     stageDurationMs,
                     { pipeline: pipelineName, stage: stage.stageName },
                 );
+                pipelineStageDuration.observe(
+                    {
+                        pipeline: pipelineName,
+                        stage: stage.stageName,
+                        status: 'success',
+                    },
+                    stageDurationMs / 1000,
+                );
 
                 this.logger.log({
                     message: `Stage '${stage.stageName}' completed in ${stageDurationMs}ms: ${pipelineId}`,
@@ -120,6 +129,14 @@ export class PipelineExecutor<TContext extends PipelineContext> {
                     1,
                     { pipeline: pipelineName, stage: stage.stageName },
                 );
+                pipelineStageDuration.observe(
+                    {
+                        pipeline: pipelineName,
+                        stage: stage.stageName,
+                        status: 'error',
+                    },
+                    (Date.now() - start) / 1000,
+                );
 
                 this.logger.error({
                     message: `Stage '${stage.stageName}' failed: ${error.message}`,
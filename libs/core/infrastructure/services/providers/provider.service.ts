@@ -69,6 +69,24 @@ export class ProviderService {
             requiresApiKey: true,
             requiresBaseUrl: true,
         },
+        // Self-hosted servers: Ollama ignores the API key, so any placeholder
+        // works; vLLM checks it only when started with --api-key
+        [BYOKProvider.OLLAMA]: {
+            id: BYOKProvider.OLLAMA,
+            name: 'Ollama',
+            description: 'Local models served by Ollama',
+            supported: true,
+            requiresApiKey: true,
+            requiresBaseUrl: false,
+        },
+        [BYOKProvider.VLLM]: {
+            id: BYOKProvider.VLLM,
+            name: 'vLLM',
+            description: 'Self-hosted models served by vLLM',
+            supported: true,
+            requiresApiKey: true,
+            requiresBaseUrl: true,
+        },
     };
 
     /**
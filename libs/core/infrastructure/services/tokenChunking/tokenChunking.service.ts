@@ -1,5 +1,10 @@
 import { createLogger } from '@kodus/flow';
-import { LLMModelProvider, MODEL_STRATEGIES } from '@kodus/kodus-common/llm';
+import {
+    BYOKConfig,
+    getProviderCapabilities,
+    LLMModelProvider,
+    MODEL_STRATEGIES,
+} from '@kodus/kodus-common/llm';
 import { Injectable } from '@nestjs/common';
 import { encoding_for_model, TiktokenModel } from 'tiktoken';
 
@@ -10,6 +15,8 @@ export interface TokenChunkingOptions {
     data: any[];
     usagePercentage?: number;
     defaultMaxTokens?: number;
+    /** When set, the BYOK provider's context window bounds the chunks. */
+    byokConfig?: BYOKConfig;
 }
 
 export interface TokenChunkingResult {
@@ -40,6 +47,7 @@ export class TokenChunkingService {
             data,
             usagePercentage = 60,
             defaultMaxTokens = 64000,
+            byokConfig,
         } = options;
 
         // Validações de entrada
@@ -83,9 +91,9 @@ export class TokenChunkingService {
 
         try {
             // 1. Determine token limit
-            const maxTokens = this.getMaxTokensForModel(
-                model,
-                defaultMaxTokens,
+            const maxTokens = this.getMaxTokensForProvider(
+                byokConfig,
+                this.getMaxTokensForModel(model, defaultMaxTokens),
             );
             const tokenLimit = Math.floor(maxTokens * (usagePercentage / 100));
 
@@ -248,6 +256,36 @@ export class TokenChunkingService {
         return strategy.inputMaxTokens;
     }
 
+    /**
+     * Caps the limit to the input budget of the BYOK providers, if they have
+     * one. The fallback provider is included so a chunk still fits when the
+     * request falls back to it.
+     */
+    private getMaxTokensForProvider(
+        byokConfig: BYOKConfig | undefined,
+        maxTokens: number,
+    ): number {
+        return [byokConfig?.main, byokConfig?.fallback].reduce(
+            (limit, providerConfig) => {
+                if (!providerConfig) {
+                    return limit;
+                }
+
+                const { contextWindow, maxOutputTokens = 0 } =
+                    getProviderCapabilities(providerConfig.provider, {
+                        contextWindow: providerConfig.contextWindow,
+                    });
+
+                if (!contextWindow) {
+                    return limit;
+                }
+
+                return Math.min(limit, contextWindow - maxOutputTokens);
+            },
+            maxTokens,
+        );
+    }
+
     /**
      * Counts tokens for a specific item
      */
@@ -1,5 +1,7 @@
 import {
     BYOKConfig,
+    BYOKRoutingTable,
+    BYOKTaskRoute,
     LLMModelProvider,
     PromptBuilder,
     PromptRunnerService,
@@ -54,6 +56,7 @@ export class BYOKPromptRunnerService {
                     apiKey: apiKey,
                     model: this.byokConfig.main.model,
                     baseURL: this.byokConfig.main.baseURL,
+                    contextWindow: this.byokConfig.main.contextWindow,
                 })
                 .setBYOKFallbackConfig(
                     this.byokConfig?.fallback?.apiKey
@@ -62,14 +65,34 @@ export class BYOKPromptRunnerService {
                               apiKey: fallbackApiKey,
                               model: this.byokConfig.fallback.model,
                               baseURL: this.byokConfig.fallback.baseURL,
+                              contextWindow:
+                                  this.byokConfig.fallback.contextWindow,
                           }
                         : null,
-                );
+                )
+                .setBYOKRouting(this.decryptRouting(this.byokConfig.routing));
         }
 
         return analysisBuilder;
     }
 
+    private decryptRouting(routing?: BYOKRoutingTable): BYOKRoutingTable {
+        if (!routing) {
+            return null;
+        }
+
+        return Object.fromEntries(
+            Object.entries(routing).map(
+                ([task, route]: [string, BYOKTaskRoute]) => [
+                    task,
+                    route.apiKey
+                        ? { ...route, apiKey: decrypt(route.apiKey) }
+                        : route,
+                ],
+            ),
+        );
+    }
+
     /**
      * Convenience method to create a new instance of BYOKPromptRunnerService
      * with different configurations.
@@ -4,6 +4,11 @@ import { ConfigService } from '@nestjs/config';
 import { ConnectionString } from 'connection-string';
 
 import { DatabaseConnection } from '@libs/core/infrastructure/config/types';
+import {
+    llmRequestDuration,
+    llmTokens,
+    resolveLLMProvider,
+} from '@libs/core/infrastructure/metrics/prometheus/prometheus.metrics';
 
 import { createLogger } from '@kodus/flow';
 import { TokenTrackingHandler } from '@kodus/kodus-common/llm';
@@ -355,6 +360,7 @@ export class ObservabilityService implements OnModuleInit {
         const { spanName, runName, attrs, exec } = params;
         const obs = this.getObsInstance();
         const span = obs.startSpan(spanName);
+        const startedAt = Date.now();
 
         try {
             span?.setAttributes?.({
@@ -377,8 +383,15 @@ export class ObservabilityService implements OnModuleInit {
                 return { result, usage };
             });
 
+            this.recordLLMMetrics(usage.usages, Date.now() - startedAt);
+
             return { result, usage };
         } catch (error) {
+            llmRequestDuration.observe(
+                { provider: 'unknown', model: 'unknown', status: 'error' },
+                (Date.now() - startedAt) / 1000,
+            );
+
             // If error occurs BEFORE withSpan is called, we need to end the span
             // If error occurs INSIDE withSpan, it already called span.end()
             // So we check if span is still recording before calling end()
@@ -389,6 +402,41 @@ export class ObservabilityService implements OnModuleInit {
         }
     }
 
+    /**
+     * One run may call several models (fallbacks, sub-chains); the latency is
+     * attributed to each of them and tokens to the model that used them.
+     */
+    private recordLLMMetrics(usages: TokenUsage[], durationMs: number) {
+        const byModel = new Map<string, { input: number; output: number }>();
+
+        for (const usage of usages) {
+            const model = usage.model ?? 'unknown';
+            const totals = byModel.get(model) ?? { input: 0, output: 0 };
+
+            totals.input += usage.input_tokens ?? 0;
+            totals.output += usage.output_tokens ?? 0;
+            byModel.set(model, totals);
+        }
+
+        if (!byModel.size) {
+            byModel.set('unknown', { input: 0, output: 0 });
+        }
+
+        for (const [model, totals] of byModel) {
+            const provider = resolveLLMProvider(model);
+
+            llmRequestDuration.observe(
+                { provider, model, status: 'success' },
+                durationMs / 1000,
+            );
+            llmTokens.observe({ provider, model, type: 'input' }, totals.input);
+            llmTokens.observe(
+                { provider, model, type: 'output' },
+                totals.output,
+            );
+        }
+    }
+
     // ---------- Helpers privados ----------
 
     private createObservabilityConfig(
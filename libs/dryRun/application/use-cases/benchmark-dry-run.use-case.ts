@@ -0,0 +1,316 @@
+import { IdGenerator, createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+
+import {
+    CODE_REVIEW_FEEDBACK_SERVICE_TOKEN,
+    ICodeReviewFeedbackService,
+} from '@libs/code-review/domain/codeReviewFeedback/contracts/codeReviewFeedback.service.contract';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import {
+    DRY_RUN_SERVICE_TOKEN,
+    IDryRunService,
+} from '@libs/dryRun/domain/contracts/dryRun.service.contract';
+import {
+    DryRunStatus,
+    IDryRunBenchmarkPr,
+    IDryRunConfigVariant,
+    IDryRunData,
+} from '@libs/dryRun/domain/interfaces/dryRun.interface';
+import {
+    evaluateBenchmarkPr,
+    summarizeBenchmark,
+} from '@libs/dryRun/infrastructure/utils/dryRunBenchmark.utils';
+import {
+    IPullRequestsService,
+    PULL_REQUESTS_SERVICE_TOKEN,
+} from '@libs/platformData/domain/pullRequests/contracts/pullRequests.service.contracts';
+import { ISuggestion } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
+
+import { ExecuteDryRunUseCase } from './execute-dry-run.use-case';
+
+export const MAX_BENCHMARK_PRS = 50;
+
+@Injectable()
+export class BenchmarkDryRunUseCase {
+    private readonly logger = createLogger(BenchmarkDryRunUseCase.name);
+
+    constructor(
+        private readonly executeDryRunUseCase: ExecuteDryRunUseCase,
+        @Inject(DRY_RUN_SERVICE_TOKEN)
+        private readonly dryRunService: IDryRunService,
+        @Inject(PULL_REQUESTS_SERVICE_TOKEN)
+        private readonly pullRequestsService: IPullRequestsService,
+        @Inject(CODE_REVIEW_FEEDBACK_SERVICE_TOKEN)
+        private readonly codeReviewFeedbackService: ICodeReviewFeedbackService,
+    ) {}
+
+    async execute(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        prNumbers?: number[];
+        startDate?: Date;
+        endDate?: Date;
+        variant?: IDryRunConfigVariant;
+    }) {
+        const {
+            organizationAndTeamData,
+            repositoryId,
+            startDate,
+            endDate,
+            variant,
+        } = params;
+
+        try {
+            const repository = await this.executeDryRunUseCase.findRepository(
+                repositoryId,
+                organizationAndTeamData,
+            );
+
+            if (!repository) {
+                return null;
+            }
+
+            const prs = await this.resolvePullRequests({
+                organizationAndTeamData,
+                repositoryId: repository.id,
+                prNumbers: params.prNumbers,
+                startDate,
+                endDate,
+            });
+
+            if (!prs.length) {
+                this.logger.warn({
+                    message: 'No pull requests found for dry run benchmark',
+                    context: BenchmarkDryRunUseCase.name,
+                    metadata: params,
+                });
+
+                return null;
+            }
+
+            const limit = await this.executeDryRunUseCase.enforceLimit(
+                organizationAndTeamData,
+                prs.length,
+            );
+
+            if (limit) {
+                return limit;
+            }
+
+            const correlationId = IdGenerator.correlationId();
+
+            await this.dryRunService.initializeBenchmark({
+                id: correlationId,
+                organizationAndTeamData,
+                repositoryId: repository.id,
+                repositoryName: repository.name,
+                variant,
+                filters: {
+                    prNumbers: params.prNumbers,
+                    startDate,
+                    endDate,
+                },
+                prs,
+            });
+
+            this.runBenchmark({
+                correlationId,
+                organizationAndTeamData,
+                repositoryId: repository.id,
+                prs,
+                variant,
+            }).catch((error) => {
+                this.logger.error({
+                    message: 'Error finishing dry run benchmark',
+                    error,
+                    metadata: { correlationId, organizationAndTeamData },
+                    context: BenchmarkDryRunUseCase.name,
+                });
+            });
+
+            return correlationId;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error starting dry run benchmark',
+                error,
+                metadata: params,
+                context: BenchmarkDryRunUseCase.name,
+            });
+
+            return null;
+        }
+    }
+
+    private async resolvePullRequests(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        prNumbers?: number[];
+        startDate?: Date;
+        endDate?: Date;
+    }): Promise<Pick<IDryRunBenchmarkPr, 'prNumber' | 'prTitle'>[]> {
+        if (params.prNumbers?.length) {
+            return [...new Set(params.prNumbers)]
+                .slice(0, MAX_BENCHMARK_PRS)
+                .map((prNumber) => ({ prNumber }));
+        }
+
+        const pullRequests =
+            await this.pullRequestsService.findNumbersByRepositoryIdAndOpenedAt(
+                params.organizationAndTeamData.organizationId,
+                params.repositoryId,
+                { startDate: params.startDate, endDate: params.endDate },
+                MAX_BENCHMARK_PRS,
+            );
+
+        return pullRequests.map((pr) => ({
+            prNumber: pr.number,
+            prTitle: pr.title,
+        }));
+    }
+
+    private async runBenchmark(params: {
+        correlationId: string;
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        prs: Pick<IDryRunBenchmarkPr, 'prNumber' | 'prTitle'>[];
+        variant?: IDryRunConfigVariant;
+    }) {
+        const { correlationId, organizationAndTeamData } = params;
+        const results: IDryRunBenchmarkPr[] = [];
+
+        try {
+            // Sequential so a benchmark never floods the LLM providers
+            for (const pr of params.prs) {
+                const result = await this.benchmarkPullRequest({
+                    ...params,
+                    ...pr,
+                });
+
+                results.push(result);
+
+                await this.dryRunService.updateBenchmarkPr({
+                    organizationAndTeamData,
+                    id: correlationId,
+                    pr: result,
+                });
+            }
+
+            const completed = results.some(
+                (pr) => pr.status === DryRunStatus.COMPLETED,
+            );
+
+            await this.dryRunService.updateBenchmarkStatus({
+                organizationAndTeamData,
+                id: correlationId,
+                status: completed
+                    ? DryRunStatus.COMPLETED
+                    : DryRunStatus.FAILED,
+                report: summarizeBenchmark(results),
+            });
+        } catch (error) {
+            this.logger.error({
+                message: 'Error executing dry run benchmark',
+                error,
+                metadata: params,
+                context: BenchmarkDryRunUseCase.name,
+            });
+
+            await this.dryRunService.updateBenchmarkStatus({
+                organizationAndTeamData,
+                id: correlationId,
+                status: DryRunStatus.FAILED,
+                report: summarizeBenchmark(results),
+            });
+        }
+    }
+
+    private async benchmarkPullRequest(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        prNumber: number;
+        prTitle?: string;
+        variant?: IDryRunConfigVariant;
+    }): Promise<IDryRunBenchmarkPr> {
+        const { organizationAndTeamData, repositoryId, prNumber, variant } =
+            params;
+
+        const runId = IdGenerator.correlationId();
+
+        await this.executeDryRunUseCase.runDryRun({
+            correlationId: runId,
+            organizationAndTeamData,
+            repositoryId,
+            prNumber,
+            variant,
+        });
+
+        const dryRun = await this.dryRunService.findDryRunById({
+            organizationAndTeamData,
+            id: runId,
+        });
+
+        if (!dryRun || dryRun.status !== DryRunStatus.COMPLETED) {
+            return {
+                prNumber,
+                prTitle: dryRun?.prTitle ?? params.prTitle,
+                status: DryRunStatus.FAILED,
+                runId: dryRun?.id,
+                error: 'Dry run did not complete',
+            };
+        }
+
+        const historical =
+            await this.pullRequestsService.findByNumberAndRepositoryId(
+                prNumber,
+                repositoryId,
+                organizationAndTeamData,
+            );
+
+        const historicalSuggestions = (historical?.files || []).flatMap(
+            (file) => file.suggestions || [],
+        );
+
+        const feedbacks =
+            await this.codeReviewFeedbackService.findBySuggestionIds(
+                organizationAndTeamData.organizationId,
+                historicalSuggestions.map((suggestion) => suggestion.id),
+            );
+
+        return {
+            prNumber,
+            prTitle: dryRun.prTitle,
+            status: DryRunStatus.COMPLETED,
+            runId,
+            metrics: evaluateBenchmarkPr({
+                dryRunSuggestions: await this.getDryRunSuggestions(
+                    organizationAndTeamData,
+                    dryRun,
+                ),
+                historicalSuggestions,
+                feedbacks: feedbacks.map((feedback) => ({
+                    suggestionId: feedback.suggestionId,
+                    reactions: feedback.reactions,
+                })),
+            }),
+        };
+    }
+
+    private async getDryRunSuggestions(
+        organizationAndTeamData: OrganizationAndTeamData,
+        dryRun: IDryRunData,
+    ): Promise<Partial<ISuggestion>[]> {
+        let files = dryRun.files;
+
+        // Runs with an identical config point to the run holding the files
+        if (typeof files === 'string') {
+            const parent = await this.dryRunService.findDryRunById({
+                organizationAndTeamData,
+                id: files,
+            });
+
+            files = typeof parent?.files === 'string' ? [] : parent?.files;
+        }
+
+        return (files || []).flatMap((file) => file.suggestions || []);
+    }
+}
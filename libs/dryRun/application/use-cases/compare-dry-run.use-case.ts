@@ -0,0 +1,308 @@
+import { IdGenerator, createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+
+import {
+    addTokenCost,
+    TokenPricingUseCase,
+} from '@libs/analytics/application/use-cases/usage/token-pricing.use-case';
+import {
+    ITokenUsageService,
+    TOKEN_USAGE_SERVICE_TOKEN,
+} from '@libs/analytics/domain/token-usage/contracts/tokenUsage.service.contract';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import {
+    DRY_RUN_SERVICE_TOKEN,
+    IDryRunService,
+} from '@libs/dryRun/domain/contracts/dryRun.service.contract';
+import {
+    DryRunStatus,
+    IDryRunComparisonPr,
+    IDryRunConfigVariant,
+    IDryRunTokenUsage,
+} from '@libs/dryRun/domain/interfaces/dryRun.interface';
+import {
+    compareDryRunMessages,
+    summarizeComparison,
+} from '@libs/dryRun/infrastructure/utils/dryRunComparison.utils';
+
+import { ExecuteDryRunUseCase } from './execute-dry-run.use-case';
+
+@Injectable()
+export class CompareDryRunUseCase {
+    private readonly logger = createLogger(CompareDryRunUseCase.name);
+
+    constructor(
+        private readonly executeDryRunUseCase: ExecuteDryRunUseCase,
+        private readonly tokenPricingUseCase: TokenPricingUseCase,
+        @Inject(DRY_RUN_SERVICE_TOKEN)
+        private readonly dryRunService: IDryRunService,
+        @Inject(TOKEN_USAGE_SERVICE_TOKEN)
+        private readonly tokenUsageService: ITokenUsageService,
+    ) {}
+
+    async execute(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        prNumbers: number[];
+        variantA: IDryRunConfigVariant;
+        variantB: IDryRunConfigVariant;
+    }) {
+        const { organizationAndTeamData, repositoryId, variantA, variantB } =
+            params;
+        const prNumbers = [...new Set(params.prNumbers)];
+
+        try {
+            // Every PR is reviewed once per variant
+            const limit = await this.executeDryRunUseCase.enforceLimit(
+                organizationAndTeamData,
+                prNumbers.length * 2,
+            );
+
+            if (limit) {
+                return limit;
+            }
+
+            const repository = await this.executeDryRunUseCase.findRepository(
+                repositoryId,
+                organizationAndTeamData,
+            );
+
+            if (!repository) {
+                return null;
+            }
+
+            const correlationId = IdGenerator.correlationId();
+
+            await this.dryRunService.initializeComparison({
+                id: correlationId,
+                organizationAndTeamData,
+                repositoryId: repository.id,
+                repositoryName: repository.name,
+                variants: { a: variantA, b: variantB },
+                prNumbers,
+            });
+
+            this.runComparison({
+                correlationId,
+                organizationAndTeamData,
+                repositoryId: repository.id,
+                prNumbers,
+                variantA,
+                variantB,
+            }).catch((error) => {
+                this.logger.error({
+                    message: 'Error finishing dry run comparison',
+                    error,
+                    metadata: { correlationId, organizationAndTeamData },
+                    context: CompareDryRunUseCase.name,
+                });
+            });
+
+            return correlationId;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error starting dry run comparison',
+                error,
+                metadata: params,
+                context: CompareDryRunUseCase.name,
+            });
+
+            return null;
+        }
+    }
+
+    private async runComparison(params: {
+        correlationId: string;
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        prNumbers: number[];
+        variantA: IDryRunConfigVariant;
+        variantB: IDryRunConfigVariant;
+    }) {
+        const { correlationId, organizationAndTeamData } = params;
+        const prs: IDryRunComparisonPr[] = [];
+
+        try {
+            // Sequential on purpose: both variants share the daily limit and
+            // the LLM rate limits of the organization
+            for (const prNumber of params.prNumbers) {
+                const pr = await this.comparePullRequest({
+                    ...params,
+                    prNumber,
+                });
+
+                prs.push(pr);
+
+                await this.dryRunService.updateComparisonPr({
+                    organizationAndTeamData,
+                    id: correlationId,
+                    pr,
+                });
+            }
+
+            const completed = prs.some(
+                (pr) => pr.status === DryRunStatus.COMPLETED,
+            );
+
+            await this.dryRunService.updateComparisonStatus({
+                organizationAndTeamData,
+                id: correlationId,
+                status: completed
+                    ? DryRunStatus.COMPLETED
+                    : DryRunStatus.FAILED,
+                summary: summarizeComparison(prs),
+            });
+        } catch (error) {
+            this.logger.error({
+                message: 'Error executing dry run comparison',
+                error,
+                metadata: params,
+                context: CompareDryRunUseCase.name,
+            });
+
+            await this.dryRunService.updateComparisonStatus({
+                organizationAndTeamData,
+                id: correlationId,
+                status: DryRunStatus.FAILED,
+                summary: summarizeComparison(prs),
+            });
+        }
+    }
+
+    private async comparePullRequest(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        prNumber: number;
+        variantA: IDryRunConfigVariant;
+        variantB: IDryRunConfigVariant;
+    }): Promise<IDryRunComparisonPr> {
+        const {
+            organizationAndTeamData,
+            repositoryId,
+            prNumber,
+            variantA,
+            variantB,
+        } = params;
+
+        const runA = IdGenerator.correlationId();
+        const runB = IdGenerator.correlationId();
+
+        for (const [id, variant] of [
+            [runA, variantA],
+            [runB, variantB],
+        ] as const) {
+            await this.executeDryRunUseCase.runDryRun({
+                correlationId: id,
+                organizationAndTeamData,
+                repositoryId,
+                prNumber,
+                variant,
+            });
+        }
+
+        const [dryRunA, dryRunB] = await Promise.all(
+            [runA, runB].map((id) =>
+                this.dryRunService.findDryRunById({
+                    organizationAndTeamData,
+                    id,
+                }),
+            ),
+        );
+
+        const failed = [dryRunA, dryRunB].some(
+            (run) => !run || run.status !== DryRunStatus.COMPLETED,
+        );
+
+        if (failed) {
+            return {
+                prNumber,
+                prTitle: dryRunA?.prTitle ?? dryRunB?.prTitle,
+                status: DryRunStatus.FAILED,
+                runA: dryRunA?.id,
+                runB: dryRunB?.id,
+                error: 'One or both dry runs did not complete',
+            };
+        }
+
+        const tokenUsage = await this.getTokenUsage(organizationAndTeamData, [
+            runA,
+            runB,
+        ]);
+
+        return {
+            prNumber,
+            prTitle: dryRunA.prTitle,
+            status: DryRunStatus.COMPLETED,
+            runA,
+            runB,
+            result: {
+                ...compareDryRunMessages(dryRunA.messages, dryRunB.messages),
+                tokenUsage: {
+                    a: tokenUsage.get(runA) ?? null,
+                    b: tokenUsage.get(runB) ?? null,
+                },
+            },
+        };
+    }
+
+    private async getTokenUsage(
+        organizationAndTeamData: OrganizationAndTeamData,
+        correlationIds: string[],
+    ): Promise<Map<string, IDryRunTokenUsage>> {
+        const usageByRun = new Map<string, IDryRunTokenUsage>();
+
+        try {
+            const usages =
+                await this.tokenUsageService.getUsageByCorrelationIds({
+                    organizationId: organizationAndTeamData.organizationId,
+                    correlationIds,
+                });
+
+            const pricingByModel =
+                await this.tokenPricingUseCase.getPricingByModel(
+                    usages.map((usage) => usage.model),
+                );
+
+            for (const usage of usages) {
+                const current = usageByRun.get(usage.correlationId) ?? {
+                    input: 0,
+                    output: 0,
+                    total: 0,
+                    outputReasoning: 0,
+                    cost: 0,
+                    byModel: [],
+                };
+
+                const pricing = pricingByModel.get(usage.model);
+
+                usageByRun.set(usage.correlationId, {
+                    input: current.input + usage.input,
+                    output: current.output + usage.output,
+                    total: current.total + usage.total,
+                    outputReasoning:
+                        current.outputReasoning + usage.outputReasoning,
+                    cost: addTokenCost(current.cost, usage, pricing),
+                    byModel: [
+                        ...current.byModel,
+                        {
+                            model: usage.model,
+                            input: usage.input,
+                            output: usage.output,
+                            total: usage.total,
+                            outputReasoning: usage.outputReasoning,
+                        },
+                    ],
+                });
+            }
+        } catch (error) {
+            this.logger.warn({
+                message: 'Could not fetch token usage for dry run comparison',
+                error,
+                metadata: { organizationAndTeamData, correlationIds },
+                context: CompareDryRunUseCase.name,
+            });
+        }
+
+        return usageByRun;
+    }
+}
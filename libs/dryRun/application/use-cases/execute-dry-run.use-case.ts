@@ -13,7 +13,10 @@ import {
     DRY_RUN_SERVICE_TOKEN,
     IDryRunService,
 } from '@libs/dryRun/domain/contracts/dryRun.service.contract';
-import { DryRunStatus } from '@libs/dryRun/domain/interfaces/dryRun.interface';
+import {
+    DryRunStatus,
+    IDryRunConfigVariant,
+} from '@libs/dryRun/domain/interfaces/dryRun.interface';
 import {
     IIntegrationConfigService,
     INTEGRATION_CONFIG_SERVICE_TOKEN,
@@ -87,8 +90,13 @@ export class ExecuteDryRunUseCase {
         }
     }
 
-    private async enforceLimit(
+    /**
+     * Returns 'Limit.Reached' when starting `requestedRuns` more runs would
+     * exceed the organization's daily dry run limit.
+     */
+    async enforceLimit(
         organizationAndTeamData: OrganizationAndTeamData,
+        requestedRuns = 1,
     ): Promise<string | void> {
         const limit = await this.getLimit(organizationAndTeamData);
 
@@ -96,7 +104,7 @@ export class ExecuteDryRunUseCase {
             organizationAndTeamData,
         );
 
-        if (dailyRunCount >= limit) {
+        if (dailyRunCount + requestedRuns > limit) {
             this.logger.warn({
                 message: `Dry run limit of ${limit} reached for today`,
                 context: ExecuteDryRunUseCase.name,
@@ -105,6 +113,7 @@ export class ExecuteDryRunUseCase {
                     organizationAndTeamData,
                     limit,
                     dailyRunCount,
+                    requestedRuns,
                 },
             });
 
@@ -164,20 +173,19 @@ export class ExecuteDryRunUseCase {
         return runs.length;
     }
 
-    private async runDryRun(params: {
+    async runDryRun(params: {
         correlationId: string;
-        organizationAndTeamData: {
-            organizationId: string;
-            teamId: string;
-        };
+        organizationAndTeamData: OrganizationAndTeamData;
         repositoryId: string;
         prNumber: number;
+        variant?: IDryRunConfigVariant;
     }) {
         const {
             correlationId,
             organizationAndTeamData,
             prNumber,
             repositoryId,
+            variant,
         } = params;
 
         try {
@@ -218,6 +226,7 @@ export class ExecuteDryRunUseCase {
                 dryRun: {
                     enabled: true,
                     id: dryRun.id,
+                    variant,
                 },
                 statusInfo: {
                     status: AutomationStatus.IN_PROGRESS,
@@ -278,16 +287,19 @@ export class ExecuteDryRunUseCase {
         }
     }
 
-    private async getRepository(
+    /**
+     * Finds a repository configured for the team, `null` when there is none.
+     */
+    async findRepository(
         repositoryId: string,
         organizationAndTeamData: OrganizationAndTeamData,
-    ): Promise<Repositories> {
+    ): Promise<Repositories | null> {
         const repositories =
             await this.integrationConfigService.findIntegrationConfigFormatted<
                 Repositories[]
             >(IntegrationConfigKey.REPOSITORIES, organizationAndTeamData);
 
-        const repository = repositories.find(
+        const repository = repositories?.find(
             (repo) => repo.id === repositoryId,
         );
 
@@ -302,6 +314,22 @@ export class ExecuteDryRunUseCase {
                 },
             });
 
+            return null;
+        }
+
+        return repository;
+    }
+
+    private async getRepository(
+        repositoryId: string,
+        organizationAndTeamData: OrganizationAndTeamData,
+    ): Promise<Repositories> {
+        const repository = await this.findRepository(
+            repositoryId,
+            organizationAndTeamData,
+        );
+
+        if (!repository) {
             throw new Error('Repository not found');
         }
 
@@ -0,0 +1,60 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import {
+    DRY_RUN_SERVICE_TOKEN,
+    IDryRunService,
+} from '@libs/dryRun/domain/contracts/dryRun.service.contract';
+
+@Injectable()
+export class GetDryRunBenchmarkUseCase {
+    private readonly logger = createLogger(GetDryRunBenchmarkUseCase.name);
+    constructor(
+        @Inject(DRY_RUN_SERVICE_TOKEN)
+        private readonly dryRunService: IDryRunService,
+    ) {}
+
+    async execute(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        correlationId: string;
+    }) {
+        const { organizationAndTeamData, correlationId } = params;
+
+        try {
+            const benchmark = await this.dryRunService.findBenchmarkById({
+                organizationAndTeamData,
+                id: correlationId,
+            });
+
+            if (!benchmark) {
+                this.logger.warn({
+                    message: 'Dry run benchmark not found',
+                    context: GetDryRunBenchmarkUseCase.name,
+                    serviceName: GetDryRunBenchmarkUseCase.name,
+                    metadata: {
+                        organizationAndTeamData,
+                        correlationId,
+                    },
+                });
+
+                return null;
+            }
+
+            return benchmark;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error getting dry run benchmark',
+                context: GetDryRunBenchmarkUseCase.name,
+                serviceName: GetDryRunBenchmarkUseCase.name,
+                error,
+                metadata: {
+                    organizationAndTeamData,
+                    correlationId,
+                },
+            });
+
+            throw error;
+        }
+    }
+}
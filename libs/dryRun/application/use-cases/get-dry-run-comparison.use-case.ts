@@ -0,0 +1,60 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import {
+    DRY_RUN_SERVICE_TOKEN,
+    IDryRunService,
+} from '@libs/dryRun/domain/contracts/dryRun.service.contract';
+
+@Injectable()
+export class GetDryRunComparisonUseCase {
+    private readonly logger = createLogger(GetDryRunComparisonUseCase.name);
+    constructor(
+        @Inject(DRY_RUN_SERVICE_TOKEN)
+        private readonly dryRunService: IDryRunService,
+    ) {}
+
+    async execute(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        correlationId: string;
+    }) {
+        const { organizationAndTeamData, correlationId } = params;
+
+        try {
+            const comparison = await this.dryRunService.findComparisonById({
+                organizationAndTeamData,
+                id: correlationId,
+            });
+
+            if (!comparison) {
+                this.logger.warn({
+                    message: 'Dry run comparison not found',
+                    context: GetDryRunComparisonUseCase.name,
+                    serviceName: GetDryRunComparisonUseCase.name,
+                    metadata: {
+                        organizationAndTeamData,
+                        correlationId,
+                    },
+                });
+
+                return null;
+            }
+
+            return comparison;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error getting dry run comparison',
+                context: GetDryRunComparisonUseCase.name,
+                serviceName: GetDryRunComparisonUseCase.name,
+                error,
+                metadata: {
+                    organizationAndTeamData,
+                    correlationId,
+                },
+            });
+
+            throw error;
+        }
+    }
+}
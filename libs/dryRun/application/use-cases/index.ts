@@ -1,4 +1,8 @@
+import { BenchmarkDryRunUseCase } from './benchmark-dry-run.use-case';
+import { CompareDryRunUseCase } from './compare-dry-run.use-case';
 import { ExecuteDryRunUseCase } from './execute-dry-run.use-case';
+import { GetDryRunBenchmarkUseCase } from './get-dry-run-benchmark.use-case';
+import { GetDryRunComparisonUseCase } from './get-dry-run-comparison.use-case';
 import { GetDryRunUseCase } from './get-dry-run.use-case';
 import { GetStatusDryRunUseCase } from './get-status-dry-run.use-case';
 import { ListDryRunsUseCase } from './list-dry-runs.use-case';
@@ -10,4 +14,8 @@ export const UseCases = [
     SseDryRunUseCase,
     GetDryRunUseCase,
     ListDryRunsUseCase,
+    CompareDryRunUseCase,
+    GetDryRunComparisonUseCase,
+    BenchmarkDryRunUseCase,
+    GetDryRunBenchmarkUseCase,
 ];
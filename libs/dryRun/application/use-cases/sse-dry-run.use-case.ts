@@ -74,10 +74,20 @@ export class SseDryRunUseCase {
         const pastEvents: IDryRunEvent[] = [];
 
         try {
-            const details = await this.dryRunService.findDryRunById({
-                organizationAndTeamData,
-                id: correlationId,
-            });
+            // Comparisons and benchmarks stream events just like single runs
+            const details =
+                (await this.dryRunService.findDryRunById({
+                    organizationAndTeamData,
+                    id: correlationId,
+                })) ??
+                (await this.dryRunService.findComparisonById({
+                    organizationAndTeamData,
+                    id: correlationId,
+                })) ??
+                (await this.dryRunService.findBenchmarkById({
+                    organizationAndTeamData,
+                    id: correlationId,
+                }));
 
             if (!details) {
                 return pastEvents;
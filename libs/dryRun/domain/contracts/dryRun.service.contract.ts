@@ -12,7 +12,17 @@ import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/
 
 import { IDryRunRepository } from './dryRun.repository.contract';
 import { DryRunEntity } from '../entities/dryRun.entity';
-import { DryRunStatus, IDryRun } from '../interfaces/dryRun.interface';
+import {
+    DryRunStatus,
+    IDryRun,
+    IDryRunBenchmark,
+    IDryRunBenchmarkPr,
+    IDryRunBenchmarkReport,
+    IDryRunComparison,
+    IDryRunComparisonPr,
+    IDryRunComparisonSummary,
+    IDryRunConfigVariant,
+} from '../interfaces/dryRun.interface';
 
 export const DRY_RUN_SERVICE_TOKEN = Symbol.for('DRY_RUN_SERVICE_TOKEN');
 
@@ -114,4 +124,59 @@ export interface IDryRunService extends IDryRunRepository {
         prioritizedSuggestions?: ISuggestion[];
         unusedSuggestions?: ISuggestion[];
     }): Promise<IDryRun['runs'][number] | null>;
+
+    initializeComparison(params: {
+        id?: string;
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        repositoryName: string;
+        variants: { a: IDryRunConfigVariant; b: IDryRunConfigVariant };
+        prNumbers: number[];
+    }): Promise<IDryRunComparison>;
+
+    findComparisonById(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+    }): Promise<IDryRunComparison | null>;
+
+    updateComparisonPr(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+        pr: IDryRunComparisonPr;
+    }): Promise<IDryRunComparison | null>;
+
+    updateComparisonStatus(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+        status: DryRunStatus;
+        summary?: IDryRunComparisonSummary;
+    }): Promise<IDryRunComparison | null>;
+
+    initializeBenchmark(params: {
+        id?: string;
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        repositoryName: string;
+        variant?: IDryRunConfigVariant;
+        filters: IDryRunBenchmark['filters'];
+        prs: Pick<IDryRunBenchmarkPr, 'prNumber' | 'prTitle'>[];
+    }): Promise<IDryRunBenchmark>;
+
+    findBenchmarkById(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+    }): Promise<IDryRunBenchmark | null>;
+
+    updateBenchmarkPr(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+        pr: IDryRunBenchmarkPr;
+    }): Promise<IDryRunBenchmark | null>;
+
+    updateBenchmarkStatus(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+        status: DryRunStatus;
+        report?: IDryRunBenchmarkReport;
+    }): Promise<IDryRunBenchmark | null>;
 }
@@ -9,6 +9,8 @@ export class DryRunEntity implements Entity<IDryRun> {
     private readonly _organizationId: string;
     private readonly _teamId: string;
     private readonly _runs: IDryRun['runs'];
+    private readonly _comparisons: IDryRun['comparisons'];
+    private readonly _benchmarks: IDryRun['benchmarks'];
 
     constructor(dryRun: IDryRun) {
         this._uuid = dryRun.uuid;
@@ -17,6 +19,8 @@ export class DryRunEntity implements Entity<IDryRun> {
         this._organizationId = dryRun.organizationId;
         this._teamId = dryRun.teamId;
         this._runs = dryRun.runs;
+        this._comparisons = dryRun.comparisons;
+        this._benchmarks = dryRun.benchmarks;
     }
 
     toObject(): IDryRun {
@@ -27,6 +31,8 @@ export class DryRunEntity implements Entity<IDryRun> {
             organizationId: this.organizationId,
             teamId: this.teamId,
             runs: this.runs,
+            comparisons: this.comparisons,
+            benchmarks: this.benchmarks,
         };
     }
 
@@ -61,4 +67,12 @@ export class DryRunEntity implements Entity<IDryRun> {
     get runs(): IDryRun['runs'] {
         return [...this._runs];
     }
+
+    get comparisons(): IDryRun['comparisons'] {
+        return [...(this._comparisons || [])];
+    }
+
+    get benchmarks(): IDryRun['benchmarks'] {
+        return [...(this._benchmarks || [])];
+    }
 }
@@ -1,3 +1,5 @@
+import { ReviewPreset } from '@libs/core/domain/enums/code-review.enum';
+import { CodeReviewConfig } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 import { IPullRequests } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
 
 export enum DryRunStatus {
@@ -15,6 +17,8 @@ export interface IDryRun {
     teamId: string;
 
     runs: IDryRunData[];
+    comparisons?: IDryRunComparison[];
+    benchmarks?: IDryRunBenchmark[];
 }
 
 export interface IDryRunData {
@@ -65,12 +69,154 @@ export interface IDryRunMessage {
     improvedCode?: string;
 }
 
+/**
+ * A configuration to run in a comparison. The preset is applied first and
+ * the overrides are merged on top of the config resolved for the PR.
+ */
+export interface IDryRunConfigVariant {
+    label?: string;
+    preset?: ReviewPreset;
+    configOverrides?: Partial<CodeReviewConfig>;
+}
+
+export interface IDryRunTokenUsage {
+    input: number;
+    output: number;
+    total: number;
+    outputReasoning: number;
+    cost?: number; // USD, when every model used has a known price
+    byModel: {
+        model: string;
+        input: number;
+        output: number;
+        total: number;
+        outputReasoning: number;
+    }[];
+}
+
+export interface IDryRunSeverityShift {
+    path?: string;
+    lines?: IDryRunMessage['lines'];
+    category?: string;
+    from: string;
+    to: string;
+    direction: 'up' | 'down';
+}
+
+export interface IDryRunComparisonResult {
+    onlyInA: IDryRunMessage[];
+    onlyInB: IDryRunMessage[];
+    matched: { a: IDryRunMessage; b: IDryRunMessage }[];
+    severityShifts: IDryRunSeverityShift[];
+    tokenUsage: {
+        a: IDryRunTokenUsage | null;
+        b: IDryRunTokenUsage | null;
+    };
+}
+
+export interface IDryRunComparisonPr {
+    prNumber: number;
+    prTitle?: string;
+    status: DryRunStatus;
+    runA?: IDryRunData['id'];
+    runB?: IDryRunData['id'];
+    result?: IDryRunComparisonResult;
+    error?: string;
+}
+
+export interface IDryRunComparisonSummary {
+    prs: number;
+    completedPrs: number;
+    onlyInA: number;
+    onlyInB: number;
+    matched: number;
+    severityShifts: number;
+    tokens: { a: number; b: number };
+    cost: { a?: number; b?: number };
+}
+
+export interface IDryRunComparison {
+    id: string;
+    status: DryRunStatus;
+    events: IDryRunEvent[];
+    createdAt: Date;
+    updatedAt: Date;
+
+    repositoryId: string;
+    repositoryName: string;
+
+    variants: {
+        a: IDryRunConfigVariant;
+        b: IDryRunConfigVariant;
+    };
+    prs: IDryRunComparisonPr[];
+    summary?: IDryRunComparisonSummary;
+}
+
+export interface IDryRunBenchmarkMetrics {
+    generated: number; // Every suggestion the pipeline produced
+    suggestions: number; // Suggestions that survived prioritization and would be sent
+    byLabel: Record<string, number>;
+    bySeverity: Record<string, number>;
+    discardedBy: Record<string, number>; // Discarded suggestions by priority status
+    safeguardDiscardRate: number;
+
+    // What happened to the suggestions originally sent on the PR
+    historical: {
+        suggestions: number;
+        accepted: number; // Implemented or reacted to positively
+        rejected: number; // Reacted to negatively and not implemented
+    };
+    matched: number; // Suggestions that match an originally sent one
+    matchedAccepted: number;
+    matchedRejected: number;
+}
+
+export interface IDryRunBenchmarkPr {
+    prNumber: number;
+    prTitle?: string;
+    status: DryRunStatus;
+    runId?: IDryRunData['id'];
+    metrics?: IDryRunBenchmarkMetrics;
+    error?: string;
+}
+
+export interface IDryRunBenchmarkReport extends IDryRunBenchmarkMetrics {
+    prs: number;
+    completedPrs: number;
+    precision?: number; // matchedAccepted / suggestions
+    recall?: number; // matchedAccepted / historical.accepted
+    falsePositiveRate?: number; // matchedRejected / suggestions
+}
+
+export interface IDryRunBenchmark {
+    id: string;
+    status: DryRunStatus;
+    events: IDryRunEvent[];
+    createdAt: Date;
+    updatedAt: Date;
+
+    repositoryId: string;
+    repositoryName: string;
+
+    variant?: IDryRunConfigVariant;
+    filters: {
+        prNumbers?: number[];
+        startDate?: Date;
+        endDate?: Date;
+    };
+    prs: IDryRunBenchmarkPr[];
+    report?: IDryRunBenchmarkReport;
+}
+
 export enum DryRunEventType {
     MESSAGE_ADDED = 'MESSAGE_ADDED',
     MESSAGE_UPDATED = 'MESSAGE_UPDATED',
     DESCRIPTION_UPDATED = 'DESCRIPTION_UPDATED',
     STATUS_UPDATED = 'STATUS_UPDATED',
     REMOVED = 'REMOVED',
+    COMPARISON_UPDATED = 'COMPARISON_UPDATED',
+    BENCHMARK_UPDATED = 'BENCHMARK_UPDATED',
 }
 
 export interface IDryRunBaseEvent {
@@ -127,12 +273,32 @@ export interface IDryRunRemovedEvent extends IDryRunBaseEvent {
 
 export interface IDryRunRemovedPayload {}
 
+export interface IDryRunComparisonUpdatedEvent extends IDryRunBaseEvent {
+    type: DryRunEventType.COMPARISON_UPDATED;
+    payload: IDryRunComparisonUpdatedPayload;
+}
+
+export interface IDryRunComparisonUpdatedPayload {
+    pr: IDryRunComparisonPr;
+}
+
+export interface IDryRunBenchmarkUpdatedEvent extends IDryRunBaseEvent {
+    type: DryRunEventType.BENCHMARK_UPDATED;
+    payload: IDryRunBenchmarkUpdatedPayload;
+}
+
+export interface IDryRunBenchmarkUpdatedPayload {
+    pr: IDryRunBenchmarkPr;
+}
+
 export type IDryRunEvent =
     | IDryRunMessageAddedEvent
     | IDryRunMessageUpdatedEvent
     | IDryRunDescriptionUpdatedEvent
     | IDryRunStatusUpdatedEvent
-    | IDryRunRemovedEvent;
+    | IDryRunRemovedEvent
+    | IDryRunComparisonUpdatedEvent
+    | IDryRunBenchmarkUpdatedEvent;
 
 export type IDryRunPayloadMap = {
     [T in DryRunEventType]: Extract<IDryRunEvent, { type: T }>['payload'];
@@ -1,6 +1,10 @@
 import { Module, forwardRef } from '@nestjs/common';
 
+import { BenchmarkDryRunUseCase } from './application/use-cases/benchmark-dry-run.use-case';
+import { CompareDryRunUseCase } from './application/use-cases/compare-dry-run.use-case';
 import { ExecuteDryRunUseCase } from './application/use-cases/execute-dry-run.use-case';
+import { GetDryRunBenchmarkUseCase } from './application/use-cases/get-dry-run-benchmark.use-case';
+import { GetDryRunComparisonUseCase } from './application/use-cases/get-dry-run-comparison.use-case';
 import { GetDryRunUseCase } from './application/use-cases/get-dry-run.use-case';
 import { GetStatusDryRunUseCase } from './application/use-cases/get-status-dry-run.use-case';
 import { ListDryRunsUseCase } from './application/use-cases/list-dry-runs.use-case';
@@ -19,6 +23,9 @@ import { IntegrationConfigCoreModule } from '@libs/integrations/modules/config-c
 import { OrganizationParametersModule } from '@libs/organization/modules/organizationParameters.module';
 import { PlatformModule } from '@libs/platform/modules/platform.module';
 import { DryRunCoreModule } from './dry-run-core.module';
+import { AnalyticsModule } from '@libs/analytics/modules/analytics.module';
+import { PullRequestsModule } from '@libs/code-review/modules/pull-requests.module';
+import { CodeReviewFeedbackModule } from '@libs/code-review/modules/codeReviewFeedback.module';
 
 @Module({
     imports: [
@@ -30,6 +37,9 @@ import { DryRunCoreModule } from './dry-run-core.module';
         forwardRef(() => PlatformModule),
         forwardRef(() => IntegrationConfigCoreModule),
         forwardRef(() => OrganizationParametersModule),
+        forwardRef(() => AnalyticsModule),
+        forwardRef(() => PullRequestsModule),
+        forwardRef(() => CodeReviewFeedbackModule),
         EventEmitterModule.forRoot(),
     ],
     providers: [
@@ -40,6 +50,10 @@ import { DryRunCoreModule } from './dry-run-core.module';
         GetStatusDryRunUseCase,
         ListDryRunsUseCase,
         SseDryRunUseCase,
+        CompareDryRunUseCase,
+        GetDryRunComparisonUseCase,
+        BenchmarkDryRunUseCase,
+        GetDryRunBenchmarkUseCase,
     ],
     exports: [
         ExecuteDryRunUseCase,
@@ -47,6 +61,10 @@ import { DryRunCoreModule } from './dry-run-core.module';
         GetStatusDryRunUseCase,
         ListDryRunsUseCase,
         SseDryRunUseCase,
+        CompareDryRunUseCase,
+        GetDryRunComparisonUseCase,
+        BenchmarkDryRunUseCase,
+        GetDryRunBenchmarkUseCase,
         DryRunCodeReviewPipelineStrategy,
         DryRunCodeReviewPipeline,
     ],
@@ -1,7 +1,11 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 
 import { CoreDocument } from '@libs/core/infrastructure/repositories/model/mongodb';
-import { IDryRunData } from '@libs/dryRun/domain/interfaces/dryRun.interface';
+import {
+    IDryRunBenchmark,
+    IDryRunComparison,
+    IDryRunData,
+} from '@libs/dryRun/domain/interfaces/dryRun.interface';
 
 @Schema({
     collection: 'dryRun',
@@ -17,6 +21,12 @@ export class DryRunModel extends CoreDocument {
 
     @Prop({ type: Array, required: true })
     public runs: Array<IDryRunData>;
+
+    @Prop({ type: Array, default: [] })
+    public comparisons: Array<IDryRunComparison>;
+
+    @Prop({ type: Array, default: [] })
+    public benchmarks: Array<IDryRunBenchmark>;
 }
 
 export const DryRunSchema = SchemaFactory.createForClass(DryRunModel);
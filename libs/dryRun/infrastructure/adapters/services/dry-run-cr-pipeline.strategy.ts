@@ -11,6 +11,9 @@ import { UpdateCommentsAndGenerateSummaryStage } from '@libs/code-review/pipelin
 import { InitialCommentStage } from '@libs/code-review/pipeline/stages/initial-comment.stage';
 import { ProcessFilesPrLevelReviewStage } from '@libs/code-review/pipeline/stages/process-files-pr-level-review.stage';
 import { ProcessFilesReview } from '@libs/code-review/pipeline/stages/process-files-review.stage';
+import { LintingStage } from '@libs/code-review/pipeline/stages/linting.stage';
+import { SecurityScanStage } from '@libs/code-review/pipeline/stages/security-scan.stage';
+import { BreakingChangesStage } from '@libs/code-review/pipeline/stages/breaking-changes.stage';
 import { ResolveConfigStage } from '@libs/code-review/pipeline/stages/resolve-config.stage';
 import { ValidateConfigStage } from '@libs/code-review/pipeline/stages/validate-config.stage';
 import { ValidateSuggestionsStage } from '@libs/code-review/pipeline/stages/validate-suggestions.stage';
@@ -29,6 +32,9 @@ export class DryRunCodeReviewPipelineStrategy implements IPipelineStrategy<CodeR
         private readonly initialCommentStage: InitialCommentStage,
         private readonly processFilesPrLevelReviewStage: ProcessFilesPrLevelReviewStage,
         private readonly processFilesReview: ProcessFilesReview,
+        private readonly lintingStage: LintingStage,
+        private readonly securityScanStage: SecurityScanStage,
+        private readonly breakingChangesStage: BreakingChangesStage,
         private readonly createPrLevelCommentsStage: CreatePrLevelCommentsStage,
         private readonly createFileCommentsStage: CreateFileCommentsStage,
         private readonly aggregateResultsStage: AggregateResultsStage,
@@ -45,6 +51,9 @@ export class DryRunCodeReviewPipelineStrategy implements IPipelineStrategy<CodeR
             this.initialCommentStage,
             this.processFilesPrLevelReviewStage,
             this.processFilesReview,
+            this.lintingStage,
+            this.securityScanStage,
+            this.breakingChangesStage,
             this.createPrLevelCommentsStage,
             this.validateSuggestionsStage,
             this.createFileCommentsStage,
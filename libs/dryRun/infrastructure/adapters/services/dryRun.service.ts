@@ -37,6 +37,13 @@ import {
     DryRunEventType,
     DryRunStatus,
     IDryRun,
+    IDryRunBenchmark,
+    IDryRunBenchmarkPr,
+    IDryRunBenchmarkReport,
+    IDryRunComparison,
+    IDryRunComparisonPr,
+    IDryRunComparisonSummary,
+    IDryRunConfigVariant,
     IDryRunEvent,
     IDryRunPayloadMap,
 } from '@libs/dryRun/domain/interfaces/dryRun.interface';
@@ -751,6 +758,447 @@ export class DryRunService implements IDryRunService {
         }
     }
 
+    async initializeComparison(params: {
+        id?: string;
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        repositoryName: string;
+        variants: { a: IDryRunConfigVariant; b: IDryRunConfigVariant };
+        prNumbers: number[];
+    }): Promise<IDryRunComparison> {
+        const {
+            id = v4(),
+            organizationAndTeamData,
+            repositoryId,
+            repositoryName,
+            variants,
+            prNumbers,
+        } = params;
+
+        try {
+            const now = new Date();
+
+            const comparison: IDryRunComparison = {
+                id,
+                status: DryRunStatus.IN_PROGRESS,
+                events: [],
+                createdAt: now,
+                updatedAt: now,
+                repositoryId,
+                repositoryName,
+                variants,
+                prs: prNumbers.map((prNumber) => ({
+                    prNumber,
+                    status: DryRunStatus.IN_PROGRESS,
+                })),
+            };
+
+            const existing = await this.dryRunRepository.findOne({
+                organizationId: organizationAndTeamData.organizationId,
+                teamId: organizationAndTeamData.teamId,
+            });
+
+            if (!existing) {
+                await this.dryRunRepository.create({
+                    organizationId: organizationAndTeamData.organizationId,
+                    teamId: organizationAndTeamData.teamId,
+                    runs: [],
+                    comparisons: [comparison],
+                });
+                return comparison;
+            }
+
+            const nextState = produce(existing.toObject(), (draft) => {
+                draft.comparisons = draft.comparisons ?? [];
+                draft.comparisons.push(comparison);
+            });
+
+            await this.dryRunRepository.update(existing.uuid, {
+                comparisons: nextState.comparisons,
+            });
+
+            return comparison;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error initializing DryRun comparison',
+                context: DryRunService.name,
+                error,
+                metadata: { organizationAndTeamData, id, repositoryId },
+            });
+
+            throw error;
+        }
+    }
+
+    async findComparisonById(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+    }): Promise<IDryRunComparison | null> {
+        const { organizationAndTeamData, id } = params;
+
+        try {
+            const { existing, comparisonIndex } = await this.findComparison(
+                organizationAndTeamData,
+                id,
+            );
+
+            if (!existing || comparisonIndex === -1) {
+                return null;
+            }
+
+            return existing.comparisons[comparisonIndex];
+        } catch (error) {
+            this.logger.error({
+                message: 'Error finding DryRun comparison by ID',
+                error,
+                context: DryRunService.name,
+                metadata: { organizationAndTeamData, id },
+            });
+
+            throw error;
+        }
+    }
+
+    async updateComparisonPr(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+        pr: IDryRunComparisonPr;
+    }): Promise<IDryRunComparison | null> {
+        const { organizationAndTeamData, id, pr } = params;
+
+        try {
+            const { existing, comparisonIndex } = await this.findComparison(
+                organizationAndTeamData,
+                id,
+            );
+
+            if (!existing || comparisonIndex === -1) {
+                return null;
+            }
+
+            const event = this.createEvent(
+                id,
+                organizationAndTeamData,
+                DryRunEventType.COMPARISON_UPDATED,
+                { pr },
+            );
+
+            const nextState = produce(existing.toObject(), (draft) => {
+                const comparison = draft.comparisons[comparisonIndex];
+                const prIndex = comparison.prs.findIndex(
+                    (item) => item.prNumber === pr.prNumber,
+                );
+
+                if (prIndex === -1) {
+                    comparison.prs.push(pr);
+                } else {
+                    comparison.prs[prIndex] = pr;
+                }
+
+                comparison.events.push(event);
+                comparison.updatedAt = new Date();
+            });
+
+            const updated = await this.dryRunRepository.update(existing.uuid, {
+                comparisons: nextState.comparisons,
+            });
+
+            this.emitEvent(event);
+
+            return updated.comparisons[comparisonIndex];
+        } catch (error) {
+            this.logger.error({
+                message: 'Error updating DryRun comparison PR',
+                error,
+                context: DryRunService.name,
+                metadata: {
+                    organizationAndTeamData,
+                    id,
+                    prNumber: pr?.prNumber,
+                },
+            });
+
+            throw error;
+        }
+    }
+
+    async updateComparisonStatus(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+        status: DryRunStatus;
+        summary?: IDryRunComparisonSummary;
+    }): Promise<IDryRunComparison | null> {
+        const { organizationAndTeamData, id, status, summary } = params;
+
+        try {
+            const { existing, comparisonIndex } = await this.findComparison(
+                organizationAndTeamData,
+                id,
+            );
+
+            if (!existing || comparisonIndex === -1) {
+                return null;
+            }
+
+            const event = this.createEvent(
+                id,
+                organizationAndTeamData,
+                DryRunEventType.STATUS_UPDATED,
+                { status },
+            );
+
+            const nextState = produce(existing.toObject(), (draft) => {
+                const comparison = draft.comparisons[comparisonIndex];
+
+                comparison.status = status;
+                if (summary) {
+                    comparison.summary = summary;
+                }
+                comparison.events.push(event);
+                comparison.updatedAt = new Date();
+            });
+
+            const updated = await this.dryRunRepository.update(existing.uuid, {
+                comparisons: nextState.comparisons,
+            });
+
+            this.emitEvent(event);
+
+            return updated.comparisons[comparisonIndex];
+        } catch (error) {
+            this.logger.error({
+                message: 'Error updating DryRun comparison status',
+                error,
+                context: DryRunService.name,
+                metadata: { organizationAndTeamData, id, status },
+            });
+
+            throw error;
+        }
+    }
+
+    async initializeBenchmark(params: {
+        id?: string;
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        repositoryName: string;
+        variant?: IDryRunConfigVariant;
+        filters: IDryRunBenchmark['filters'];
+        prs: Pick<IDryRunBenchmarkPr, 'prNumber' | 'prTitle'>[];
+    }): Promise<IDryRunBenchmark> {
+        const {
+            id = v4(),
+            organizationAndTeamData,
+            repositoryId,
+            repositoryName,
+            variant,
+            filters,
+            prs,
+        } = params;
+
+        try {
+            const now = new Date();
+
+            const benchmark: IDryRunBenchmark = {
+                id,
+                status: DryRunStatus.IN_PROGRESS,
+                events: [],
+                createdAt: now,
+                updatedAt: now,
+                repositoryId,
+                repositoryName,
+                variant,
+                filters,
+                prs: prs.map((pr) => ({
+                    ...pr,
+                    status: DryRunStatus.IN_PROGRESS,
+                })),
+            };
+
+            const existing = await this.dryRunRepository.findOne({
+                organizationId: organizationAndTeamData.organizationId,
+                teamId: organizationAndTeamData.teamId,
+            });
+
+            if (!existing) {
+                await this.dryRunRepository.create({
+                    organizationId: organizationAndTeamData.organizationId,
+                    teamId: organizationAndTeamData.teamId,
+                    runs: [],
+                    benchmarks: [benchmark],
+                });
+                return benchmark;
+            }
+
+            const nextState = produce(existing.toObject(), (draft) => {
+                draft.benchmarks = draft.benchmarks ?? [];
+                draft.benchmarks.push(benchmark);
+            });
+
+            await this.dryRunRepository.update(existing.uuid, {
+                benchmarks: nextState.benchmarks,
+            });
+
+            return benchmark;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error initializing DryRun benchmark',
+                context: DryRunService.name,
+                error,
+                metadata: { organizationAndTeamData, id, repositoryId },
+            });
+
+            throw error;
+        }
+    }
+
+    async findBenchmarkById(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+    }): Promise<IDryRunBenchmark | null> {
+        const { organizationAndTeamData, id } = params;
+
+        try {
+            const { existing, benchmarkIndex } = await this.findBenchmark(
+                organizationAndTeamData,
+                id,
+            );
+
+            if (!existing || benchmarkIndex === -1) {
+                return null;
+            }
+
+            return existing.benchmarks[benchmarkIndex];
+        } catch (error) {
+            this.logger.error({
+                message: 'Error finding DryRun benchmark by ID',
+                error,
+                context: DryRunService.name,
+                metadata: { organizationAndTeamData, id },
+            });
+
+            throw error;
+        }
+    }
+
+    async updateBenchmarkPr(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+        pr: IDryRunBenchmarkPr;
+    }): Promise<IDryRunBenchmark | null> {
+        const { organizationAndTeamData, id, pr } = params;
+
+        try {
+            const { existing, benchmarkIndex } = await this.findBenchmark(
+                organizationAndTeamData,
+                id,
+            );
+
+            if (!existing || benchmarkIndex === -1) {
+                return null;
+            }
+
+            const event = this.createEvent(
+                id,
+                organizationAndTeamData,
+                DryRunEventType.BENCHMARK_UPDATED,
+                { pr },
+            );
+
+            const nextState = produce(existing.toObject(), (draft) => {
+                const benchmark = draft.benchmarks[benchmarkIndex];
+                const prIndex = benchmark.prs.findIndex(
+                    (item) => item.prNumber === pr.prNumber,
+                );
+
+                if (prIndex === -1) {
+                    benchmark.prs.push(pr);
+                } else {
+                    benchmark.prs[prIndex] = pr;
+                }
+
+                benchmark.events.push(event);
+                benchmark.updatedAt = new Date();
+            });
+
+            const updated = await this.dryRunRepository.update(existing.uuid, {
+                benchmarks: nextState.benchmarks,
+            });
+
+            this.emitEvent(event);
+
+            return updated.benchmarks[benchmarkIndex];
+        } catch (error) {
+            this.logger.error({
+                message: 'Error updating DryRun benchmark PR',
+                error,
+                context: DryRunService.name,
+                metadata: {
+                    organizationAndTeamData,
+                    id,
+                    prNumber: pr?.prNumber,
+                },
+            });
+
+            throw error;
+        }
+    }
+
+    async updateBenchmarkStatus(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        id: string;
+        status: DryRunStatus;
+        report?: IDryRunBenchmarkReport;
+    }): Promise<IDryRunBenchmark | null> {
+        const { organizationAndTeamData, id, status, report } = params;
+
+        try {
+            const { existing, benchmarkIndex } = await this.findBenchmark(
+                organizationAndTeamData,
+                id,
+            );
+
+            if (!existing || benchmarkIndex === -1) {
+                return null;
+            }
+
+            const event = this.createEvent(
+                id,
+                organizationAndTeamData,
+                DryRunEventType.STATUS_UPDATED,
+                { status },
+            );
+
+            const nextState = produce(existing.toObject(), (draft) => {
+                const benchmark = draft.benchmarks[benchmarkIndex];
+
+                benchmark.status = status;
+                if (report) {
+                    benchmark.report = report;
+                }
+                benchmark.events.push(event);
+                benchmark.updatedAt = new Date();
+            });
+
+            const updated = await this.dryRunRepository.update(existing.uuid, {
+                benchmarks: nextState.benchmarks,
+            });
+
+            this.emitEvent(event);
+
+            return updated.benchmarks[benchmarkIndex];
+        } catch (error) {
+            this.logger.error({
+                message: 'Error updating DryRun benchmark status',
+                error,
+                context: DryRunService.name,
+                metadata: { organizationAndTeamData, id, status },
+            });
+
+            throw error;
+        }
+    }
+
     private _transformFiles(
         files: FileChange[],
         prioritizedSuggestions: Array<ISuggestion>,
@@ -1067,6 +1515,40 @@ export class DryRunService implements IDryRunService {
         return { existing, runIndex, run: existing.runs[runIndex] };
     }
 
+    private async findComparison(
+        organizationAndTeamData: OrganizationAndTeamData,
+        id: string,
+    ) {
+        const existing = await this.dryRunRepository.findOne({
+            organizationId: organizationAndTeamData.organizationId,
+            teamId: organizationAndTeamData.teamId,
+        });
+
+        const comparisonIndex =
+            existing?.comparisons?.findIndex(
+                (comparison) => comparison.id === id,
+            ) ?? -1;
+
+        return { existing, comparisonIndex };
+    }
+
+    private async findBenchmark(
+        organizationAndTeamData: OrganizationAndTeamData,
+        id: string,
+    ) {
+        const existing = await this.dryRunRepository.findOne({
+            organizationId: organizationAndTeamData.organizationId,
+            teamId: organizationAndTeamData.teamId,
+        });
+
+        const benchmarkIndex =
+            existing?.benchmarks?.findIndex(
+                (benchmark) => benchmark.id === id,
+            ) ?? -1;
+
+        return { existing, benchmarkIndex };
+    }
+
     private createEvent<T extends DryRunEventType>(
         id: string,
         organizationAndTeamData: OrganizationAndTeamData,
@@ -0,0 +1,202 @@
+import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
+import { ImplementationStatus } from '@libs/platformData/domain/pullRequests/enums/implementationStatus.enum';
+import { PriorityStatus } from '@libs/platformData/domain/pullRequests/enums/priorityStatus.enum';
+import { ISuggestion } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
+import { ICodeReviewFeedback } from '@libs/code-review/domain/codeReviewFeedback/interfaces/codeReviewFeedback.interface';
+import {
+    IDryRunBenchmarkMetrics,
+    IDryRunBenchmarkPr,
+    IDryRunBenchmarkReport,
+    IDryRunMessage,
+} from '@libs/dryRun/domain/interfaces/dryRun.interface';
+
+import { compareDryRunMessages } from './dryRunComparison.utils';
+
+type BenchmarkSuggestion = Partial<ISuggestion>;
+type BenchmarkFeedback = Pick<
+    ICodeReviewFeedback,
+    'suggestionId' | 'reactions'
+>;
+
+const PRIORITIZED_STATUSES: string[] = [
+    PriorityStatus.PRIORITIZED,
+    PriorityStatus.PRIORITIZED_BY_CLUSTERING,
+];
+
+const IMPLEMENTED_STATUSES: string[] = [
+    ImplementationStatus.IMPLEMENTED,
+    ImplementationStatus.PARTIALLY_IMPLEMENTED,
+];
+
+type Verdict = 'accepted' | 'rejected' | 'unknown';
+
+const toMessage = (
+    suggestion: BenchmarkSuggestion,
+    index: number,
+): IDryRunMessage => ({
+    id: index,
+    content: suggestion.oneSentenceSummary || suggestion.suggestionContent,
+    path: suggestion.relevantFile,
+    lines:
+        suggestion.relevantLinesStart !== undefined &&
+        suggestion.relevantLinesStart !== null
+            ? {
+                  start: suggestion.relevantLinesStart,
+                  end:
+                      suggestion.relevantLinesEnd ??
+                      suggestion.relevantLinesStart,
+              }
+            : undefined,
+    category: suggestion.label,
+    severity: suggestion.severity,
+});
+
+const countBy = <T>(items: T[], key: (item: T) => string) =>
+    items.reduce<Record<string, number>>((acc, item) => {
+        const value = key(item) || 'unknown';
+        acc[value] = (acc[value] || 0) + 1;
+        return acc;
+    }, {});
+
+const mergeCounts = (target: Record<string, number>, source = {}) => {
+    for (const [key, value] of Object.entries<number>(source)) {
+        target[key] = (target[key] || 0) + value;
+    }
+    return target;
+};
+
+const ratio = (numerator: number, denominator: number) =>
+    denominator > 0 ? numerator / denominator : undefined;
+
+const verdictOf = (
+    suggestion: BenchmarkSuggestion,
+    feedbackBySuggestion: Map<string, BenchmarkFeedback>,
+): Verdict => {
+    if (IMPLEMENTED_STATUSES.includes(suggestion.implementationStatus)) {
+        return 'accepted';
+    }
+
+    const reactions = feedbackBySuggestion.get(suggestion.id)?.reactions;
+
+    if (!reactions || reactions.thumbsUp === reactions.thumbsDown) {
+        return 'unknown';
+    }
+
+    return reactions.thumbsUp > reactions.thumbsDown ? 'accepted' : 'rejected';
+};
+
+/**
+ * Scores a dry run of a PR against what the PR's original review got back:
+ * suggestions reproduced from an implemented or upvoted one count as
+ * accepted, the ones reproduced from a downvoted one as rejected.
+ */
+export const evaluateBenchmarkPr = (params: {
+    dryRunSuggestions: BenchmarkSuggestion[];
+    historicalSuggestions: BenchmarkSuggestion[];
+    feedbacks?: BenchmarkFeedback[];
+}): IDryRunBenchmarkMetrics => {
+    const generated = params.dryRunSuggestions || [];
+    const prioritized = generated.filter((s) =>
+        PRIORITIZED_STATUSES.includes(s.priorityStatus),
+    );
+    const discarded = generated.filter(
+        (s) =>
+            s.priorityStatus &&
+            !PRIORITIZED_STATUSES.includes(s.priorityStatus),
+    );
+
+    const sent = (params.historicalSuggestions || []).filter(
+        (s) => s.deliveryStatus === DeliveryStatus.SENT,
+    );
+
+    const feedbackBySuggestion = new Map(
+        (params.feedbacks || []).map((feedback) => [
+            feedback.suggestionId,
+            feedback,
+        ]),
+    );
+
+    const verdicts = sent.map((s) => verdictOf(s, feedbackBySuggestion));
+
+    const { matched } = compareDryRunMessages(
+        prioritized.map(toMessage),
+        sent.map(toMessage),
+    );
+
+    const matchedVerdicts = matched.map(({ b }) => verdicts[b.id]);
+
+    const discardedBy = countBy(discarded, (s) => s.priorityStatus);
+
+    return {
+        generated: generated.length,
+        suggestions: prioritized.length,
+        byLabel: countBy(prioritized, (s) => s.label),
+        bySeverity: countBy(prioritized, (s) => s.severity),
+        discardedBy,
+        safeguardDiscardRate:
+            ratio(
+                discardedBy[PriorityStatus.DISCARDED_BY_SAFEGUARD] || 0,
+                generated.length,
+            ) ?? 0,
+        historical: {
+            suggestions: sent.length,
+            accepted: verdicts.filter((v) => v === 'accepted').length,
+            rejected: verdicts.filter((v) => v === 'rejected').length,
+        },
+        matched: matched.length,
+        matchedAccepted: matchedVerdicts.filter((v) => v === 'accepted').length,
+        matchedRejected: matchedVerdicts.filter((v) => v === 'rejected').length,
+    };
+};
+
+/**
+ * Aggregates the benchmarked PRs. Precision is a lower bound: suggestions
+ * the original review never sent have no implementation or feedback signal.
+ */
+export const summarizeBenchmark = (
+    prs: IDryRunBenchmarkPr[],
+): IDryRunBenchmarkReport => {
+    const metrics = prs.map((pr) => pr.metrics).filter(Boolean);
+
+    const sum = (pick: (m: IDryRunBenchmarkMetrics) => number) =>
+        metrics.reduce((total, m) => total + (pick(m) || 0), 0);
+
+    const generated = sum((m) => m.generated);
+    const suggestions = sum((m) => m.suggestions);
+    const discardedBy = metrics.reduce(
+        (acc, m) => mergeCounts(acc, m.discardedBy),
+        {},
+    );
+    const historicalAccepted = sum((m) => m.historical.accepted);
+    const matchedAccepted = sum((m) => m.matchedAccepted);
+    const matchedRejected = sum((m) => m.matchedRejected);
+
+    return {
+        prs: prs.length,
+        completedPrs: metrics.length,
+        generated,
+        suggestions,
+        byLabel: metrics.reduce((acc, m) => mergeCounts(acc, m.byLabel), {}),
+        bySeverity: metrics.reduce(
+            (acc, m) => mergeCounts(acc, m.bySeverity),
+            {},
+        ),
+        discardedBy,
+        safeguardDiscardRate:
+            ratio(
+                discardedBy[PriorityStatus.DISCARDED_BY_SAFEGUARD] || 0,
+                generated,
+            ) ?? 0,
+        historical: {
+            suggestions: sum((m) => m.historical.suggestions),
+            accepted: historicalAccepted,
+            rejected: sum((m) => m.historical.rejected),
+        },
+        matched: sum((m) => m.matched),
+        matchedAccepted,
+        matchedRejected,
+        precision: ratio(matchedAccepted, suggestions),
+        recall: ratio(matchedAccepted, historicalAccepted),
+        falsePositiveRate: ratio(matchedRejected, suggestions),
+    };
+};
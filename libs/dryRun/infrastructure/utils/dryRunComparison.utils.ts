@@ -0,0 +1,139 @@
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import {
+    IDryRunComparisonPr,
+    IDryRunComparisonResult,
+    IDryRunComparisonSummary,
+    IDryRunMessage,
+    IDryRunSeverityShift,
+    IDryRunTokenUsage,
+} from '@libs/dryRun/domain/interfaces/dryRun.interface';
+
+const SEVERITY_RANK: Record<string, number> = {
+    [SeverityLevel.LOW]: 0,
+    [SeverityLevel.MEDIUM]: 1,
+    [SeverityLevel.HIGH]: 2,
+    [SeverityLevel.CRITICAL]: 3,
+};
+
+// Summary and start/end review comments carry no label, only suggestions do
+const isSuggestion = (message: IDryRunMessage) =>
+    !!message?.category || !!message?.path;
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+const linesOverlap = (a: IDryRunMessage, b: IDryRunMessage): boolean => {
+    if (!a.lines || !b.lines) {
+        return !a.lines && !b.lines;
+    }
+
+    return a.lines.start <= b.lines.end && b.lines.start <= a.lines.end;
+};
+
+const isSameSuggestion = (a: IDryRunMessage, b: IDryRunMessage) =>
+    normalize(a.path) === normalize(b.path) &&
+    normalize(a.category) === normalize(b.category) &&
+    linesOverlap(a, b);
+
+/**
+ * Diffs the suggestions of two dry runs over the same PR. Suggestions match
+ * when they point to the same file, overlapping lines and the same label;
+ * each suggestion is matched at most once, closest line range first.
+ */
+export const compareDryRunMessages = (
+    messagesA: IDryRunMessage[],
+    messagesB: IDryRunMessage[],
+): Omit<IDryRunComparisonResult, 'tokenUsage'> => {
+    const suggestionsA = (messagesA || []).filter(isSuggestion);
+    const remainingB = (messagesB || []).filter(isSuggestion);
+
+    const matched: IDryRunComparisonResult['matched'] = [];
+    const onlyInA: IDryRunMessage[] = [];
+
+    for (const a of suggestionsA) {
+        const candidates = remainingB
+            .map((b, index) => ({ b, index }))
+            .filter(({ b }) => isSameSuggestion(a, b))
+            .sort(
+                (x, y) =>
+                    Math.abs((x.b.lines?.start ?? 0) - (a.lines?.start ?? 0)) -
+                    Math.abs((y.b.lines?.start ?? 0) - (a.lines?.start ?? 0)),
+            );
+
+        if (!candidates.length) {
+            onlyInA.push(a);
+            continue;
+        }
+
+        const [{ b, index }] = candidates;
+        remainingB.splice(index, 1);
+        matched.push({ a, b });
+    }
+
+    const severityShifts = matched
+        .map(({ a, b }) => toSeverityShift(a, b))
+        .filter(Boolean);
+
+    return { onlyInA, onlyInB: remainingB, matched, severityShifts };
+};
+
+const toSeverityShift = (
+    a: IDryRunMessage,
+    b: IDryRunMessage,
+): IDryRunSeverityShift | null => {
+    const from = normalize(a.severity);
+    const to = normalize(b.severity);
+
+    if (!from || !to || from === to) {
+        return null;
+    }
+
+    return {
+        path: a.path,
+        lines: a.lines,
+        category: a.category,
+        from,
+        to,
+        direction:
+            (SEVERITY_RANK[to] ?? -1) > (SEVERITY_RANK[from] ?? -1)
+                ? 'up'
+                : 'down',
+    };
+};
+
+export const summarizeComparison = (
+    prs: IDryRunComparisonPr[],
+): IDryRunComparisonSummary => {
+    const results = prs.map((pr) => pr.result).filter(Boolean);
+
+    const sumTokens = (
+        pick: (r: IDryRunComparisonResult) => IDryRunTokenUsage,
+    ) => results.reduce((total, r) => total + (pick(r)?.total || 0), 0);
+
+    // Cost is only reported when known for every compared PR
+    const sumCost = (
+        pick: (r: IDryRunComparisonResult) => IDryRunTokenUsage,
+    ) =>
+        results.length && results.every((r) => pick(r)?.cost !== undefined)
+            ? results.reduce((total, r) => total + pick(r).cost, 0)
+            : undefined;
+
+    return {
+        prs: prs.length,
+        completedPrs: results.length,
+        onlyInA: results.reduce((total, r) => total + r.onlyInA.length, 0),
+        onlyInB: results.reduce((total, r) => total + r.onlyInB.length, 0),
+        matched: results.reduce((total, r) => total + r.matched.length, 0),
+        severityShifts: results.reduce(
+            (total, r) => total + r.severityShifts.length,
+            0,
+        ),
+        tokens: {
+            a: sumTokens((r) => r.tokenUsage.a),
+            b: sumTokens((r) => r.tokenUsage.b),
+        },
+        cost: {
+            a: sumCost((r) => r.tokenUsage.a),
+            b: sumCost((r) => r.tokenUsage.b),
+        },
+    };
+};
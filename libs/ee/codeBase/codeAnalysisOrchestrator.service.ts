@@ -14,6 +14,10 @@ import {
 import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
 
 import { KODY_RULES_ANALYSIS_SERVICE_TOKEN } from './kodyRulesAnalysis.service';
+import {
+    KODY_RULES_DETERMINISTIC_ANALYSIS_SERVICE_TOKEN,
+    KodyRulesDeterministicAnalysisService,
+} from './kodyRulesDeterministicAnalysis.service';
 
 @Injectable()
 export class CodeAnalysisOrchestrator {
@@ -23,6 +27,8 @@ export class CodeAnalysisOrchestrator {
         private readonly standardLLMAnalysisService: IAIAnalysisService,
         @Inject(KODY_RULES_ANALYSIS_SERVICE_TOKEN)
         private readonly kodyRulesAnalysisService: IAIAnalysisService,
+        @Inject(KODY_RULES_DETERMINISTIC_ANALYSIS_SERVICE_TOKEN)
+        private readonly kodyRulesDeterministicAnalysisService: KodyRulesDeterministicAnalysisService,
     ) {}
 
     async executeStandardAnalysis(
@@ -169,6 +175,52 @@ export class CodeAnalysisOrchestrator {
         }
     }
 
+    async executeDeterministicKodyRulesAnalysis(
+        organizationAndTeamData: OrganizationAndTeamData,
+        prNumber: number,
+        fileContext: FileChangeContext,
+        context: AnalysisContext,
+    ): Promise<AIAnalysisResult | null> {
+        try {
+            if (!context?.codeReviewConfig?.kodyRules?.length) {
+                return null;
+            }
+
+            const result =
+                await this.kodyRulesDeterministicAnalysisService.analyzeFile(
+                    fileContext,
+                    context,
+                );
+
+            if (result?.codeSuggestions?.length > 0) {
+                this.logger.log({
+                    message: `Deterministic Kody rules matched ${result.codeSuggestions.length} times in file: ${fileContext?.file?.filename} from PR#${prNumber}`,
+                    context: CodeAnalysisOrchestrator.name,
+                    metadata: {
+                        organizationAndTeamData,
+                        prNumber,
+                        filename: fileContext?.file?.filename,
+                    },
+                });
+            }
+
+            return result;
+        } catch (error) {
+            this.logger.error({
+                message: `Error executing deterministic Kody rules analysis for file: ${fileContext?.file?.filename} from PR#${prNumber}`,
+                context: CodeAnalysisOrchestrator.name,
+                error: error,
+                metadata: {
+                    organizationAndTeamData,
+                    prNumber,
+                    fileContext,
+                    error,
+                },
+            });
+            return null;
+        }
+    }
+
     private shouldExecuteKodyRules(
         context: AnalysisContext,
         organizationAndTeamData: OrganizationAndTeamData,
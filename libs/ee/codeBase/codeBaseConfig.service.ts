@@ -12,6 +12,7 @@ import { ParametersKey } from '@libs/core/domain/enums/parameters-key.enum';
 import {
     CodeReviewConfig,
     CodeReviewConfigWithoutLLMProvider,
+    CustomCategory,
     FileChange,
     KodusConfigFile,
     KodyFineTuningConfig,
@@ -26,6 +27,7 @@ import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/
 import { ConfigLevel } from '@libs/core/infrastructure/config/types/general/pullRequestMessages.type';
 import * as yaml from 'js-yaml';
 
+import { isBuiltInLabel } from '@libs/common/utils/codeManagement/labels';
 import { decrypt } from '@libs/common/utils/crypto';
 import { ValidateCodeManagementIntegration } from '@libs/common/utils/decorators/validate-code-management-integration.decorator';
 import { deepMerge } from '@libs/common/utils/deep';
@@ -58,6 +60,7 @@ import { KodyRulesValidationService } from '../kodyRules/service/kody-rules-vali
 export default class CodeBaseConfigService implements ICodeBaseConfigService {
     private readonly logger = createLogger(CodeBaseConfigService.name);
     private readonly DEFAULT_CONFIG: CodeReviewConfig;
+    private readonly MAX_CUSTOM_CATEGORIES = 10;
 
     constructor(
         @Inject(INTEGRATION_SERVICE_TOKEN)
@@ -138,6 +141,9 @@ export default class CodeBaseConfigService implements ICodeBaseConfigService {
                 v2PromptOverrides: this.sanitizeV2PromptOverrides(
                     mergedConfigs.v2PromptOverrides,
                 ),
+                customCategories: this.sanitizeCustomCategories(
+                    mergedConfigs.customCategories,
+                ),
             };
 
             return fullConfig;
@@ -206,6 +212,56 @@ export default class CodeBaseConfigService implements ICodeBaseConfigService {
         };
     }
 
+    private sanitizeCustomCategories(
+        categories: CodeReviewConfig['customCategories'],
+    ): CustomCategory[] {
+        if (!Array.isArray(categories)) {
+            return [];
+        }
+
+        const sanitizeString = (value: any): string | undefined => {
+            if (typeof value === 'string' && value.trim().length > 0) {
+                return value.trim();
+            }
+            return undefined;
+        };
+
+        const sanitized = new Map<string, CustomCategory>();
+
+        for (const category of categories) {
+            // Labels are stored and filtered as slugs: "Accessibility Audit" -> "accessibility_audit"
+            const name = sanitizeString(category?.name)
+                ?.toLowerCase()
+                .replace(/[^a-z0-9]+/g, '_')
+                .replace(/^_+|_+$/g, '');
+            const description = sanitizeString(category?.description);
+
+            // Built-in labels keep their own prompt section and shield
+            if (
+                !name ||
+                !description ||
+                isBuiltInLabel(name) ||
+                sanitized.has(name) ||
+                sanitized.size >= this.MAX_CUSTOM_CATEGORIES
+            ) {
+                continue;
+            }
+
+            const color = sanitizeString(category.color)?.replace(/^#/, '');
+
+            sanitized.set(name, {
+                name,
+                description,
+                severityGuidance: sanitizeString(category.severityGuidance),
+                color: /^[0-9a-fA-F]{6}$/.test(color ?? '')
+                    ? color.toUpperCase()
+                    : undefined,
+            });
+        }
+
+        return Array.from(sanitized.values());
+    }
+
     async getMergedCodeReviewConfigs(
         organizationAndTeamData: OrganizationAndTeamData,
         repository: { name: string; id: string },
@@ -64,6 +64,8 @@ import {
 } from '@libs/common/utils/langchainCommon/prompts/kodyRules';
 import { tryParseJSONObject } from '@libs/common/utils/transforms/json';
 import { KodyRulesService } from '../kodyRules/service/kodyRules.service';
+import { isDeterministicKodyRule } from '../kodyRules/utils/deterministicKodyRules.utils';
+import { getBrokenKodyRulesRevisions } from '../kodyRules/utils/kodyRuleRevisions.utils';
 
 interface KodyRulesExtendedContext {
     pullRequest: any;
@@ -950,6 +952,15 @@ export class KodyRulesAnalysisService implements IKodyRulesAnalysisService {
                     return suggestion;
                 }
 
+                const brokenKodyRulesRevisions = getBrokenKodyRulesRevisions(
+                    suggestion.brokenKodyRulesIds,
+                    kodyRules,
+                );
+
+                const withRevisions = brokenKodyRulesRevisions
+                    ? { ...suggestion, brokenKodyRulesRevisions }
+                    : suggestion;
+
                 // For each broken rule, find the severity in kodyRules
                 const severities = suggestion.brokenKodyRulesIds
                     .map((ruleId) => {
@@ -961,12 +972,12 @@ export class KodyRulesAnalysisService implements IKodyRulesAnalysisService {
                 // If there are severities, use the first one
                 if (severities && severities.length > 0) {
                     return {
-                        ...suggestion,
+                        ...withRevisions,
                         severity: severities[0]?.toLowerCase(),
                     };
                 }
 
-                return suggestion;
+                return withRevisions;
             },
         );
 
@@ -1004,7 +1015,9 @@ export class KodyRulesAnalysisService implements IKodyRulesAnalysisService {
                 },
             )
             ?.filter(
-                (rule) => !rule.scope || rule.scope === KodyRulesScope.FILE,
+                (rule) =>
+                    (!rule.scope || rule.scope === KodyRulesScope.FILE) &&
+                    !isDeterministicKodyRule(rule),
             )
             ?.map((rule) => ({
                 uuid: rule?.uuid,
@@ -0,0 +1,106 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+
+import {
+    CODE_BASE_CONFIG_SERVICE_TOKEN,
+    ICodeBaseConfigService,
+} from '@libs/code-review/domain/contracts/CodeBaseConfigService.contract';
+import {
+    AIAnalysisResult,
+    AnalysisContext,
+    CodeSuggestion,
+    FileChangeContext,
+} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+
+import { KodyRulesValidationService } from '../kodyRules/service/kody-rules-validation.service';
+import {
+    evaluateDeterministicKodyRule,
+    isDeterministicKodyRule,
+} from '../kodyRules/utils/deterministicKodyRules.utils';
+
+export const KODY_RULES_DETERMINISTIC_ANALYSIS_SERVICE_TOKEN = Symbol(
+    'KodyRulesDeterministicAnalysisService',
+);
+
+/**
+ * Evaluates regex and structural Kody Rules against the diff of each file,
+ * whatever their scope. These rules never reach the LLM.
+ */
+@Injectable()
+export class KodyRulesDeterministicAnalysisService {
+    private readonly logger = createLogger(
+        KodyRulesDeterministicAnalysisService.name,
+    );
+
+    constructor(
+        @Inject(CODE_BASE_CONFIG_SERVICE_TOKEN)
+        private readonly codeBaseConfigService: ICodeBaseConfigService,
+        private readonly kodyRulesValidationService: KodyRulesValidationService,
+    ) {}
+
+    async analyzeFile(
+        fileContext: FileChangeContext,
+        context: AnalysisContext,
+    ): Promise<AIAnalysisResult> {
+        const deterministicRules = (
+            context?.codeReviewConfig?.kodyRules || []
+        ).filter(isDeterministicKodyRule);
+
+        if (!deterministicRules.length || !fileContext?.file?.patch) {
+            return { codeSuggestions: [] };
+        }
+
+        let directoryId = context?.codeReviewConfig?.directoryId;
+        if (!directoryId) {
+            directoryId =
+                await this.codeBaseConfigService.getDirectoryIdForPath(
+                    context?.organizationAndTeamData,
+                    {
+                        id: context?.repository?.id || '',
+                        name: context?.repository?.name || '',
+                    },
+                    fileContext.file.filename || '',
+                );
+        }
+
+        const rules = this.kodyRulesValidationService.getKodyRulesForFile(
+            fileContext.file.filename,
+            deterministicRules,
+            {
+                ...(directoryId
+                    ? { directoryId }
+                    : { repositoryId: context?.repository?.id }),
+            },
+        );
+
+        const codeSuggestions: Partial<CodeSuggestion>[] = [];
+
+        for (const rule of rules || []) {
+            try {
+                codeSuggestions.push(
+                    ...evaluateDeterministicKodyRule(rule, {
+                        filename: fileContext.file.filename,
+                        patch: fileContext.file.patch,
+                        language: context?.repository?.language,
+                    }),
+                );
+            } catch (error) {
+                this.logger.error({
+                    message: `Error evaluating deterministic Kody Rule ${rule.uuid}`,
+                    error,
+                    context: KodyRulesDeterministicAnalysisService.name,
+                    metadata: {
+                        organizationAndTeamData:
+                            context?.organizationAndTeamData,
+                        prNumber: context?.pullRequest?.number,
+                        filename: fileContext.file.filename,
+                        ruleId: rule.uuid,
+                        type: rule.type,
+                    },
+                });
+            }
+        }
+
+        return { codeSuggestions };
+    }
+}
@@ -40,6 +40,8 @@ import { ExternalReferenceLoaderService } from '@libs/kodyRules/infrastructure/a
 import { KodyRuleDependencyService } from '@libs/kodyRules/infrastructure/adapters/services/kodyRulesDependency.service';
 import { tryParseJSONObject } from '@libs/common/utils/transforms/json';
 import { LabelType } from '@libs/common/utils/codeManagement/labels';
+import { isDeterministicKodyRule } from '@libs/ee/kodyRules/utils/deterministicKodyRules.utils';
+import { getBrokenKodyRulesRevisions } from '@libs/ee/kodyRules/utils/kodyRuleRevisions.utils';
 import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
 import {
     KodyRulesPrLevelPayload,
@@ -171,8 +173,11 @@ export class KodyRulesPrLevelAnalysisService implements IKodyRulesAnalysisServic
         const language =
             context.codeReviewConfig.languageResultPrompt || 'en-US';
 
+        // Deterministic rules are evaluated per file, against the diff
         const kodyRulesPrLevel = kodyRules.filter(
-            (rule) => rule?.scope === KodyRulesScope.PULL_REQUEST,
+            (rule) =>
+                rule?.scope === KodyRulesScope.PULL_REQUEST &&
+                !isDeterministicKodyRule(rule),
         );
 
         if (!kodyRulesPrLevel.length) {
@@ -635,6 +640,7 @@ export class KodyRulesPrLevelAnalysisService implements IKodyRulesAnalysisServic
             model: provider,
             data: preparedFiles,
             usagePercentage: this.DEFAULT_USAGE_LLM_MODEL_PERCENTAGE,
+            byokConfig: context?.codeReviewConfig?.byokConfig,
         });
 
         this.logger.log({
@@ -1674,6 +1680,15 @@ export class KodyRulesPrLevelAnalysisService implements IKodyRulesAnalysisServic
                     return suggestion;
                 }
 
+                const brokenKodyRulesRevisions = getBrokenKodyRulesRevisions(
+                    suggestion.brokenKodyRulesIds,
+                    kodyRules,
+                );
+
+                const withRevisions = brokenKodyRulesRevisions
+                    ? { ...suggestion, brokenKodyRulesRevisions }
+                    : suggestion;
+
                 const severities = suggestion.brokenKodyRulesIds
                     .map((ruleId) => {
                         const rule = kodyRules.find((kr) => kr.uuid === ruleId);
@@ -1685,14 +1700,14 @@ export class KodyRulesPrLevelAnalysisService implements IKodyRulesAnalysisServic
                     const firstSeverity = severities[0];
                     if (firstSeverity) {
                         return {
-                            ...suggestion,
+                            ...withRevisions,
                             severity:
                                 firstSeverity.toLowerCase() as SeverityLevel,
                         };
                     }
                 }
 
-                return suggestion;
+                return withRevisions;
             },
         );
 
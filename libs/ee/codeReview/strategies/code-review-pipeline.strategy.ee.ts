@@ -17,6 +17,9 @@ import { UpdateCommentsAndGenerateSummaryStage } from '@libs/code-review/pipelin
 import { RequestChangesOrApproveStage } from '@libs/code-review/pipeline/stages/finish-process-review.stage';
 import { InitialCommentStage } from '@libs/code-review/pipeline/stages/initial-comment.stage';
 import { ProcessFilesReview } from '@libs/code-review/pipeline/stages/process-files-review.stage';
+import { LintingStage } from '@libs/code-review/pipeline/stages/linting.stage';
+import { SecurityScanStage } from '@libs/code-review/pipeline/stages/security-scan.stage';
+import { BreakingChangesStage } from '@libs/code-review/pipeline/stages/breaking-changes.stage';
 import { ValidateConfigStage } from '@libs/code-review/pipeline/stages/validate-config.stage';
 import { IPipelineStrategy } from '@libs/core/infrastructure/pipeline/interfaces/pipeline-strategy.interface';
 import { PipelineStage } from '@libs/core/infrastructure/pipeline/interfaces/pipeline.interface';
@@ -50,6 +53,9 @@ export class CodeReviewPipelineStrategyEE implements IPipelineStrategy<CodeRevie
         private readonly codeAnalysisASTStage: CodeAnalysisASTStage,
         private readonly processFilesPrLevelReviewStage: ProcessFilesPrLevelReviewStage,
         private readonly processFilesReview: ProcessFilesReview,
+        private readonly lintingStage: LintingStage,
+        private readonly securityScanStage: SecurityScanStage,
+        private readonly breakingChangesStage: BreakingChangesStage,
         private readonly createPrLevelCommentsStage: CreatePrLevelCommentsStage,
         private readonly createFileCommentsStage: CreateFileCommentsStage,
         private readonly codeAnalysisASTCleanupStage: CodeAnalysisASTCleanupStage,
@@ -80,6 +86,9 @@ export class CodeReviewPipelineStrategyEE implements IPipelineStrategy<CodeRevie
             this.codeAnalysisASTStage,
             this.processFilesPrLevelReviewStage,
             this.processFilesReview,
+            this.lintingStage,
+            this.securityScanStage,
+            this.breakingChangesStage,
             this.createPrLevelCommentsStage,
             this.validateSuggestionsStage,
             this.codeAnalysisASTCleanupStage,
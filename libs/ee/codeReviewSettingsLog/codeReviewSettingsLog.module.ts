@@ -15,6 +15,7 @@ import {
 } from './infrastructure/adapters/repository/schemas/codeReviewSettingsLog.model';
 import { CodeReviewConfigLogHandler } from './infrastructure/adapters/services/codeReviewConfigLog.handler';
 import { CodeReviewSettingsLogService } from './infrastructure/adapters/services/codeReviewSettingsLog.service';
+import { CustomRoleLogHandler } from './infrastructure/adapters/services/customRoleLog.handler';
 import { IntegrationLogHandler } from './infrastructure/adapters/services/integrationLog.handler';
 import { KodyRulesLogHandler } from './infrastructure/adapters/services/kodyRulesLog.handler';
 import { PullRequestMessagesLogHandler } from './infrastructure/adapters/services/pullRequestMessageLog.handler';
@@ -44,6 +45,7 @@ import { UserStatusLogHandler } from './infrastructure/adapters/services/userSta
             useClass: CodeReviewSettingsLogService,
         },
         CodeReviewConfigLogHandler,
+        CustomRoleLogHandler,
         IntegrationLogHandler,
         KodyRulesLogHandler,
         PullRequestMessagesLogHandler,
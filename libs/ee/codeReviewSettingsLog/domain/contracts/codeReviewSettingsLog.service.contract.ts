@@ -1,4 +1,8 @@
 import { CodeReviewConfigLogParams } from '../../infrastructure/adapters/services/codeReviewConfigLog.handler';
+import {
+    CustomRoleAssignmentLogParams,
+    CustomRoleLogParams,
+} from '../../infrastructure/adapters/services/customRoleLog.handler';
 import { IntegrationLogParams } from '../../infrastructure/adapters/services/integrationLog.handler';
 import { KodyRuleLogParams } from '../../infrastructure/adapters/services/kodyRulesLog.handler';
 import { PullRequestMessagesLogParams } from '../../infrastructure/adapters/services/pullRequestMessageLog.handler';
@@ -31,4 +35,8 @@ export interface ICodeReviewSettingsLogService extends ICodeReviewSettingsLogRep
     registerPullRequestMessagesLog(
         params: PullRequestMessagesLogParams,
     ): Promise<void>;
+    registerCustomRoleLog(params: CustomRoleLogParams): Promise<void>;
+    registerCustomRoleAssignmentLog(
+        params: CustomRoleAssignmentLogParams,
+    ): Promise<void>;
 }
@@ -20,6 +20,11 @@ import {
     UserStatusLogHandler,
     UserStatusLogParams,
 } from './userStatusLog.handler';
+import {
+    CustomRoleAssignmentLogParams,
+    CustomRoleLogHandler,
+    CustomRoleLogParams,
+} from './customRoleLog.handler';
 import {
     PullRequestMessagesLogHandler,
     PullRequestMessagesLogParams,
@@ -47,6 +52,7 @@ export class CodeReviewSettingsLogService implements ICodeReviewSettingsLogServi
         private readonly integrationLogHandler: IntegrationLogHandler,
         private readonly userStatusLogHandler: UserStatusLogHandler,
         private readonly pullRequestMessagesLogHandler: PullRequestMessagesLogHandler,
+        private readonly customRoleLogHandler: CustomRoleLogHandler,
     ) {}
 
     /**
@@ -197,4 +203,31 @@ export class CodeReviewSettingsLogService implements ICodeReviewSettingsLogServi
             params,
         );
     }
+
+    // Custom Roles
+    public async registerCustomRoleLog(
+        params: CustomRoleLogParams,
+    ): Promise<void> {
+        const canAudit = await this.shouldAllowAuditLogs(
+            params.organizationAndTeamData,
+        );
+        if (!canAudit) {
+            return;
+        }
+
+        await this.customRoleLogHandler.logCustomRoleAction(params);
+    }
+
+    public async registerCustomRoleAssignmentLog(
+        params: CustomRoleAssignmentLogParams,
+    ): Promise<void> {
+        const canAudit = await this.shouldAllowAuditLogs(
+            params.organizationAndTeamData,
+        );
+        if (!canAudit) {
+            return;
+        }
+
+        await this.customRoleLogHandler.logCustomRoleAssignment(params);
+    }
 }
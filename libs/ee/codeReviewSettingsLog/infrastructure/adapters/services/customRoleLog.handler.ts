@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { BaseLogParams, UnifiedLogHandler } from './unifiedLog.handler';
+import { ConfigLevel } from '@libs/core/infrastructure/config/types/general/codeReviewSettingsLog.type';
+import { ICustomRole } from '@libs/identity/domain/permissions/types/customRole.types';
+
+export interface CustomRoleLogParams extends BaseLogParams {
+    oldRole?: Partial<ICustomRole> | null;
+    newRole?: Partial<ICustomRole> | null;
+}
+
+export interface CustomRoleAssignmentLogParams extends BaseLogParams {
+    targetUser: {
+        userId: string;
+        userEmail?: string;
+    };
+    oldCustomRoleIds: string[];
+    newCustomRoleIds: string[];
+}
+
+@Injectable()
+export class CustomRoleLogHandler {
+    constructor(private readonly unifiedLogHandler: UnifiedLogHandler) {}
+
+    public async logCustomRoleAction(
+        params: CustomRoleLogParams,
+    ): Promise<void> {
+        const { oldRole, newRole } = params;
+
+        await this.unifiedLogHandler.logAction({
+            ...params,
+            configLevel: ConfigLevel.GLOBAL,
+            entityType: 'customRole',
+            entityName: newRole?.name || oldRole?.name,
+            oldData: this.formatRole(oldRole),
+            newData: this.formatRole(newRole),
+        });
+    }
+
+    public async logCustomRoleAssignment(
+        params: CustomRoleAssignmentLogParams,
+    ): Promise<void> {
+        const { targetUser, oldCustomRoleIds, newCustomRoleIds, userInfo } =
+            params;
+
+        const target = targetUser.userEmail || targetUser.userId;
+
+        await this.unifiedLogHandler.saveLogEntry({
+            ...params,
+            configLevel: ConfigLevel.GLOBAL,
+            repository: undefined,
+            changedData: [
+                {
+                    actionDescription: 'Custom Roles Assigned',
+                    previousValue: oldCustomRoleIds,
+                    currentValue: newCustomRoleIds,
+                    description: `User ${userInfo.userEmail} changed custom roles of "${target}" from ${UnifiedLogHandler.formatValue(oldCustomRoleIds)} to ${UnifiedLogHandler.formatValue(newCustomRoleIds)}`,
+                },
+            ],
+        });
+    }
+
+    private formatRole(role?: Partial<ICustomRole> | null) {
+        if (!role) {
+            return null;
+        }
+
+        return {
+            uuid: role.uuid,
+            name: role.name,
+            description: role.description,
+            grants: role.grants,
+        };
+    }
+}
@@ -243,6 +243,7 @@ export class UnifiedLogHandler {
             repository: 'Repository',
             integration: 'Integration',
             user: 'User',
+            customRole: 'Custom Role',
         };
 
         const actionDisplayNames = {
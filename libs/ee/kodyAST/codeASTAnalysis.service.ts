@@ -57,7 +57,7 @@ export class CodeAstAnalysisService implements IASTAnalysisService {
     private readonly llmResponseProcessor: LLMResponseProcessor;
     private readonly astAxios: AxiosASTService;
 
-    private readonly logger = createLogger(CodeAstAnalysisService.name);
+    protected readonly logger = createLogger(CodeAstAnalysisService.name);
 
     constructor(
         private readonly codeManagementService: CodeManagementService,
@@ -415,7 +415,7 @@ export class CodeAstAnalysisService implements IASTAnalysisService {
         return response ?? { content: '' };
     }
 
-    private async getRepoParams(
+    protected async getRepoParams(
         repository: any,
         pullRequest: any,
         organizationAndTeamData: OrganizationAndTeamData,
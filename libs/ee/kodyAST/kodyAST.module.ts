@@ -3,6 +3,7 @@ import { Module, forwardRef } from '@nestjs/common';
 import { environment } from '../configs/environment';
 import { AST_ANALYSIS_SERVICE_TOKEN } from '@libs/code-review/domain/contracts/ASTAnalysisService.contract';
 import { CodeAstAnalysisService } from './codeASTAnalysis.service';
+import { LocalCodeAstAnalysisService } from './localCodeASTAnalysis.service';
 import { AIEngineModule } from '@libs/ai-engine/modules/ai-engine.module';
 import { PlatformModule } from '@libs/platform/modules/platform.module';
 import { SharedObservabilityModule } from '@libs/shared/infrastructure/shared-observability.module';
@@ -18,11 +19,15 @@ const moduleExports = [AST_ANALYSIS_SERVICE_TOKEN];
 
 // INTERNAL FORK: Always enable AST analysis (Enterprise Edition feature)
 // Note: Requires separate AST microservice to be deployed
-// Set API_ENABLE_CODE_REVIEW_AST=false in .env if you don't have AST service
+// Set API_ENABLE_CODE_REVIEW_AST=false in .env if you don't have AST service,
+// or API_AST_ENGINE=local to run the analysis in-process instead
 if (process.env.API_ENABLE_CODE_REVIEW_AST !== 'false') {
     providers.push({
         provide: AST_ANALYSIS_SERVICE_TOKEN,
-        useClass: CodeAstAnalysisService,
+        useClass:
+            process.env.API_AST_ENGINE === 'local'
+                ? LocalCodeAstAnalysisService
+                : CodeAstAnalysisService,
     });
 } else {
     // AST service disabled via env var
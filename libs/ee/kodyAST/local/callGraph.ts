@@ -0,0 +1,166 @@
+import {
+    FunctionAffect,
+    FunctionSimilarity,
+    GetImpactAnalysisResponse,
+} from '../interfaces/code-ast-analysis.interface';
+import { ParsedFunction } from './treeSitter.parser';
+
+const SIMILARITY_THRESHOLD = 0.75;
+const MAX_SIMILAR_FUNCTIONS = 3;
+/** Smaller bodies look alike too often to be worth reporting. */
+const MIN_TOKENS_FOR_SIMILARITY = 8;
+
+/**
+ * Call graph of a repository. Tree-sitter has no type information, so calls
+ * are linked to the definitions by name; a call to `save` points to every
+ * function named `save`.
+ */
+export class CallGraph {
+    private readonly functionsByFile = new Map<string, ParsedFunction[]>();
+    private readonly callersByName = new Map<string, ParsedFunction[]>();
+
+    constructor(private readonly functions: ParsedFunction[]) {
+        for (const fn of functions) {
+            const fileFunctions = this.functionsByFile.get(fn.filePath) ?? [];
+            fileFunctions.push(fn);
+            this.functionsByFile.set(fn.filePath, fileFunctions);
+
+            for (const callee of fn.calls) {
+                const callers = this.callersByName.get(callee) ?? [];
+                callers.push(fn);
+                this.callersByName.set(callee, callers);
+            }
+        }
+    }
+
+    get size(): number {
+        return this.functions.length;
+    }
+
+    getFileFunctions(filePath: string): ParsedFunction[] {
+        return this.functionsByFile.get(filePath) ?? [];
+    }
+
+    /** Innermost functions touching any of the given lines. */
+    findFunctionsAtLines(filePath: string, lines: number[]): ParsedFunction[] {
+        const candidates = this.getFileFunctions(filePath).filter((fn) =>
+            lines.some((line) => line >= fn.startLine && line <= fn.endLine),
+        );
+
+        return candidates.filter(
+            (fn) =>
+                !candidates.some(
+                    (other) =>
+                        other !== fn &&
+                        other.startLine >= fn.startLine &&
+                        other.endLine <= fn.endLine &&
+                        lines.some(
+                            (line) =>
+                                line >= other.startLine &&
+                                line <= other.endLine,
+                        ),
+                ),
+        );
+    }
+
+    findDefinitions(name: string): ParsedFunction[] {
+        return this.functions.filter((fn) => fn.name === name);
+    }
+
+    getCallers(name: string): ParsedFunction[] {
+        return this.callersByName.get(name) ?? [];
+    }
+
+    /**
+     * Functions that call the changed ones, directly or through other
+     * functions up to `depth` levels away.
+     */
+    getImpact(changed: ParsedFunction[], depth = 2): FunctionAffect[] {
+        const affects = new Map<ParsedFunction, FunctionAffect>();
+        const changedSet = new Set(changed);
+
+        let frontier = changed.map((fn) => ({ fn, origin: fn.name }));
+
+        for (let level = 1; level <= depth && frontier.length; level++) {
+            const next: typeof frontier = [];
+
+            for (const { fn, origin } of frontier) {
+                for (const caller of this.getCallers(fn.name)) {
+                    if (changedSet.has(caller)) {
+                        continue;
+                    }
+
+                    const affect = affects.get(caller);
+
+                    if (affect) {
+                        if (!affect.affectedBy.includes(origin)) {
+                            affect.affectedBy.push(origin);
+                        }
+                        continue;
+                    }
+
+                    affects.set(caller, {
+                        functionName: qualifiedName(caller),
+                        filePath: caller.filePath,
+                        impact:
+                            level === 1
+                                ? `Directly calls ${fn.name}`
+                                : `Calls ${fn.name}, which depends on ${origin}`,
+                        affectedBy: [origin],
+                    });
+                    next.push({ fn: caller, origin });
+                }
+            }
+
+            frontier = next;
+        }
+
+        return [...affects.values()];
+    }
+
+    getSimilarFunctions(changed: ParsedFunction[]): FunctionSimilarity[] {
+        return changed
+            .filter((fn) => fn.tokens.length >= MIN_TOKENS_FOR_SIMILARITY)
+            .map((fn) => ({
+                functionName: qualifiedName(fn),
+                filePath: fn.filePath,
+                similarTo: this.functions
+                    .filter(
+                        (other) =>
+                            other !== fn &&
+                            other.language === fn.language &&
+                            other.tokens.length >= MIN_TOKENS_FOR_SIMILARITY,
+                    )
+                    .map((other) => ({
+                        functionName: qualifiedName(other),
+                        filePath: other.filePath,
+                        similarity: jaccard(fn.tokens, other.tokens),
+                    }))
+                    .filter(
+                        ({ similarity }) => similarity >= SIMILARITY_THRESHOLD,
+                    )
+                    .sort((a, b) => b.similarity - a.similarity)
+                    .slice(0, MAX_SIMILAR_FUNCTIONS),
+            }))
+            .filter(({ similarTo }) => similarTo.length);
+    }
+
+    analyzeImpact(changed: ParsedFunction[]): GetImpactAnalysisResponse {
+        return {
+            functionsAffect: this.getImpact(changed),
+            functionSimilarity: this.getSimilarFunctions(changed),
+        };
+    }
+}
+
+export function qualifiedName(fn: ParsedFunction): string {
+    return fn.className ? `${fn.className}.${fn.name}` : fn.name;
+}
+
+function jaccard(a: string[], b: string[]): number {
+    const setB = new Set(b);
+    const intersection = a.filter((token) => setB.has(token)).length;
+    const union = new Set([...a, ...b]).size;
+
+    return union ? Number((intersection / union).toFixed(2)) : 0;
+}
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { simpleGit } from 'simple-git';
+
+import {
+    ProtoPlatformType,
+    RepositoryData,
+} from '../interfaces/code-ast-analysis.interface';
+import { getLanguageFromPath } from './treeSitter.parser';
+
+const IGNORED_DIRS = new Set([
+    '.git',
+    'node_modules',
+    'vendor',
+    'dist',
+    'build',
+    'target',
+    '__pycache__',
+    '.venv',
+    'venv',
+]);
+
+const MAX_FILE_SIZE = 512 * 1024;
+
+/** Username that goes with the token in the clone URL, per platform. */
+const TOKEN_USERNAMES: Record<ProtoPlatformType, string> = {
+    [ProtoPlatformType.GITHUB]: 'x-access-token',
+    [ProtoPlatformType.GITLAB]: 'oauth2',
+    [ProtoPlatformType.BITBUCKET]: 'x-token-auth',
+    [ProtoPlatformType.AZURE_REPOS]: 'kodus',
+};
+
+export function getWorkspaceRoot(): string {
+    return (
+        process.env.API_AST_WORKSPACE_DIR || path.join(os.tmpdir(), 'kodus-ast')
+    );
+}
+
+/** Shallow clones the branch into `dir`, replacing what was there. */
+export async function cloneRepository(
+    repository: RepositoryData,
+    dir: string,
+): Promise<void> {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(path.dirname(dir), { recursive: true });
+
+    await simpleGit().clone(getAuthenticatedUrl(repository), dir, [
+        '--depth',
+        '1',
+        '--single-branch',
+        ...(repository.branch ? ['--branch', repository.branch] : []),
+    ]);
+}
+
+export async function removeWorkspace(dir: string): Promise<void> {
+    await fs.rm(dir, { recursive: true, force: true });
+}
+
+/** Source files of the supported languages, relative to `dir`. */
+export async function listSourceFiles(
+    dir: string,
+    maxFiles: number,
+): Promise<string[]> {
+    const files: string[] = [];
+    const pending = [''];
+
+    while (pending.length && files.length < maxFiles) {
+        const current = pending.pop();
+        const entries = await fs.readdir(path.join(dir, current), {
+            withFileTypes: true,
+        });
+
+        for (const entry of entries) {
+            const relativePath = path.posix.join(current, entry.name);
+
+            if (entry.isDirectory()) {
+                if (!IGNORED_DIRS.has(entry.name)) {
+                    pending.push(relativePath);
+                }
+                continue;
+            }
+
+            if (entry.isFile() && getLanguageFromPath(entry.name)) {
+                const { size } = await fs.stat(path.join(dir, relativePath));
+
+                if (size <= MAX_FILE_SIZE) {
+                    files.push(relativePath);
+                }
+            }
+        }
+    }
+
+    return files.slice(0, maxFiles);
+}
+
+function getAuthenticatedUrl(repository: RepositoryData): string {
+    const url = new URL(repository.url);
+    const { auth } = repository;
+
+    if (auth?.username && auth?.password) {
+        url.username = auth.username;
+        url.password = auth.password;
+    } else if (auth?.token) {
+        url.username = TOKEN_USERNAMES[repository.provider] ?? 'oauth2';
+        url.password = auth.token;
+    }
+
+    return url.toString();
+}
@@ -0,0 +1,394 @@
+import { createRequire } from 'module';
+import * as path from 'path';
+
+import Parser from 'web-tree-sitter';
+
+import {
+    SUPPORTED_LANGUAGES,
+    SupportedLanguage,
+} from '@libs/code-review/domain/contracts/SupportedLanguages';
+
+type LanguageGrammar = {
+    /** Name of the grammar in `tree-sitter-wasms/out`. */
+    grammar: string;
+    functionTypes: string[];
+    /** Call node type → field holding the called expression. */
+    callTypes: Record<string, string>;
+    classTypes: string[];
+};
+
+const JS_GRAMMAR: Omit<LanguageGrammar, 'grammar'> = {
+    functionTypes: [
+        'function_declaration',
+        'generator_function_declaration',
+        'method_definition',
+        'arrow_function',
+        'function_expression',
+    ],
+    callTypes: { call_expression: 'function' },
+    classTypes: ['class_declaration', 'class', 'abstract_class_declaration'],
+};
+
+const GRAMMARS: Record<SupportedLanguage, LanguageGrammar> = {
+    typescript: { grammar: 'typescript', ...JS_GRAMMAR },
+    javascript: { grammar: 'javascript', ...JS_GRAMMAR },
+    python: {
+        grammar: 'python',
+        functionTypes: ['function_definition'],
+        callTypes: { call: 'function' },
+        classTypes: ['class_definition'],
+    },
+    java: {
+        grammar: 'java',
+        functionTypes: ['method_declaration', 'constructor_declaration'],
+        callTypes: { method_invocation: 'name' },
+        classTypes: [
+            'class_declaration',
+            'interface_declaration',
+            'enum_declaration',
+        ],
+    },
+    go: {
+        grammar: 'go',
+        functionTypes: ['function_declaration', 'method_declaration'],
+        callTypes: { call_expression: 'function' },
+        classTypes: [],
+    },
+    ruby: {
+        grammar: 'ruby',
+        functionTypes: ['method', 'singleton_method'],
+        callTypes: { call: 'method' },
+        classTypes: ['class', 'module'],
+    },
+    php: {
+        grammar: 'php',
+        functionTypes: ['function_definition', 'method_declaration'],
+        callTypes: {
+            function_call_expression: 'function',
+            member_call_expression: 'name',
+            scoped_call_expression: 'name',
+        },
+        classTypes: ['class_declaration', 'interface_declaration'],
+    },
+};
+
+/** Parents that give their name to an anonymous function, e.g. `const run = () => {}`. */
+const NAMING_PARENTS: Record<string, string> = {
+    variable_declarator: 'name',
+    public_field_definition: 'name',
+    field_definition: 'property',
+    pair: 'key',
+    assignment_expression: 'left',
+};
+
+/** Fields holding the last segment of a member call, e.g. `bar` in `foo.bar()`. */
+const MEMBER_FIELDS = ['property', 'attribute', 'field', 'name'];
+
+export type ParsedFunction = {
+    name: string;
+    className?: string;
+    filePath: string;
+    language: SupportedLanguage;
+    /** 1-based, inclusive. */
+    startLine: number;
+    endLine: number;
+    /** Names of the functions it calls. */
+    calls: string[];
+    /** Identifiers of the body, used to compare functions. */
+    tokens: string[];
+};
+
+export type SyntaxErrorLocation = {
+    line: number;
+    column: number;
+};
+
+export function getLanguageFromPath(
+    filePath: string,
+): SupportedLanguage | null {
+    const extension = path.extname(filePath).toLowerCase();
+
+    const language = Object.values(SUPPORTED_LANGUAGES).find((config) =>
+        config.extensions.includes(extension),
+    );
+
+    return language?.name ?? null;
+}
+
+/**
+ * Parses source files with the tree-sitter WASM grammars, so it runs in the
+ * same process without native bindings.
+ */
+export class TreeSitterParser {
+    private static initialization: Promise<void> | null = null;
+
+    private readonly languages = new Map<string, Promise<Parser.Language>>();
+
+    async extractFunctions(
+        filePath: string,
+        content: string,
+    ): Promise<ParsedFunction[]> {
+        const language = getLanguageFromPath(filePath);
+
+        if (!language) {
+            return [];
+        }
+
+        const config = GRAMMARS[language];
+        const tree = await this.parse(filePath, content);
+
+        try {
+            const functions: ParsedFunction[] = [];
+            this.collectFunctions(
+                tree.rootNode,
+                config,
+                language,
+                filePath,
+                functions,
+            );
+            return functions;
+        } finally {
+            tree.delete();
+        }
+    }
+
+    /** Returns null for files in languages without a grammar. */
+    async findSyntaxErrors(
+        filePath: string,
+        content: string,
+    ): Promise<SyntaxErrorLocation[] | null> {
+        if (!getLanguageFromPath(filePath)) {
+            return null;
+        }
+
+        const tree = await this.parse(filePath, content);
+
+        try {
+            if (!tree.rootNode.hasError) {
+                return [];
+            }
+
+            const errors: SyntaxErrorLocation[] = [];
+            const visit = (node: Parser.SyntaxNode) => {
+                if (node.isError || node.isMissing) {
+                    errors.push({
+                        line: node.startPosition.row + 1,
+                        column: node.startPosition.column + 1,
+                    });
+                    return;
+                }
+
+                if (node.hasError) {
+                    node.children.forEach(visit);
+                }
+            };
+            visit(tree.rootNode);
+
+            return errors;
+        } finally {
+            tree.delete();
+        }
+    }
+
+    private async parse(
+        filePath: string,
+        content: string,
+    ): Promise<Parser.Tree> {
+        const language = getLanguageFromPath(filePath);
+
+        // TSX needs its own grammar, plain TypeScript rejects JSX
+        const grammar =
+            path.extname(filePath).toLowerCase() === '.tsx'
+                ? 'tsx'
+                : GRAMMARS[language].grammar;
+
+        // Loading the grammar initializes the runtime the parser needs
+        const treeSitterLanguage = await this.loadLanguage(grammar);
+        const parser = new Parser();
+
+        try {
+            parser.setLanguage(treeSitterLanguage);
+            return parser.parse(content);
+        } finally {
+            parser.delete();
+        }
+    }
+
+    private collectFunctions(
+        node: Parser.SyntaxNode,
+        config: LanguageGrammar,
+        language: SupportedLanguage,
+        filePath: string,
+        functions: ParsedFunction[],
+    ): void {
+        for (const child of node.namedChildren) {
+            if (config.functionTypes.includes(child.type)) {
+                const name = this.getFunctionName(child);
+
+                // Anonymous callbacks belong to the function around them
+                if (name) {
+                    functions.push({
+                        name,
+                        className: this.getClassName(child, config),
+                        filePath,
+                        language,
+                        startLine: child.startPosition.row + 1,
+                        endLine: child.endPosition.row + 1,
+                        calls: this.collectCalls(child, config),
+                        tokens: this.collectTokens(child),
+                    });
+                }
+            }
+
+            this.collectFunctions(child, config, language, filePath, functions);
+        }
+    }
+
+    private collectCalls(
+        functionNode: Parser.SyntaxNode,
+        config: LanguageGrammar,
+    ): string[] {
+        const calls = new Set<string>();
+
+        const visit = (node: Parser.SyntaxNode) => {
+            for (const child of node.namedChildren) {
+                const isNestedFunction =
+                    config.functionTypes.includes(child.type) &&
+                    !!this.getFunctionName(child);
+
+                if (isNestedFunction) {
+                    continue;
+                }
+
+                const calleeField = config.callTypes[child.type];
+
+                if (calleeField) {
+                    const callee = this.getCalleeName(
+                        child.childForFieldName(calleeField),
+                    );
+
+                    if (callee) {
+                        calls.add(callee);
+                    }
+                }
+
+                visit(child);
+            }
+        };
+        visit(functionNode);
+
+        return [...calls];
+    }
+
+    private collectTokens(functionNode: Parser.SyntaxNode): string[] {
+        const body = functionNode.childForFieldName('body') ?? functionNode;
+        const tokens = new Set<string>();
+
+        const visit = (node: Parser.SyntaxNode) => {
+            if (node.childCount === 0) {
+                if (/identifier|name|constant/.test(node.type)) {
+                    tokens.add(node.text);
+                }
+                return;
+            }
+
+            node.children.forEach(visit);
+        };
+        visit(body);
+
+        return [...tokens];
+    }
+
+    private getFunctionName(node: Parser.SyntaxNode): string | null {
+        const name = node.childForFieldName('name');
+
+        if (name) {
+            return name.text;
+        }
+
+        const parentField = NAMING_PARENTS[node.parent?.type];
+        const parentName = parentField
+            ? node.parent.childForFieldName(parentField)
+            : null;
+
+        return parentName ? this.getCalleeName(parentName) : null;
+    }
+
+    private getCalleeName(node: Parser.SyntaxNode | null): string | null {
+        if (!node) {
+            return null;
+        }
+
+        if (node.namedChildCount === 0) {
+            return node.text;
+        }
+
+        for (const field of MEMBER_FIELDS) {
+            const member = node.childForFieldName(field);
+
+            if (member) {
+                return this.getCalleeName(member);
+            }
+        }
+
+        return null;
+    }
+
+    private getClassName(
+        node: Parser.SyntaxNode,
+        config: LanguageGrammar,
+    ): string | undefined {
+        // Go methods belong to the type of their receiver
+        const receiver = node.childForFieldName('receiver');
+        if (receiver) {
+            return receiver.text.match(/(\w+)\s*\)$/)?.[1];
+        }
+
+        for (let parent = node.parent; parent; parent = parent.parent) {
+            if (config.classTypes.includes(parent.type)) {
+                return parent.childForFieldName('name')?.text;
+            }
+        }
+
+        return undefined;
+    }
+
+    private loadLanguage(grammar: string): Promise<Parser.Language> {
+        if (!this.languages.has(grammar)) {
+            this.languages.set(
+                grammar,
+                TreeSitterParser.init().then(() =>
+                    Parser.Language.load(
+                        path.join(
+                            getGrammarsDir(),
+                            `tree-sitter-${grammar}.wasm`,
+                        ),
+                    ),
+                ),
+            );
+        }
+
+        return this.languages.get(grammar);
+    }
+
+    private static init(): Promise<void> {
+        TreeSitterParser.initialization ??= Parser.init();
+        return TreeSitterParser.initialization;
+    }
+}
+
+function getGrammarsDir(): string {
+    if (process.env.API_AST_GRAMMARS_DIR) {
+        return process.env.API_AST_GRAMMARS_DIR;
+    }
+
+    // Resolved at runtime, the bundle does not ship the .wasm files
+    const runtimeRequire = createRequire(
+        path.join(process.cwd(), 'package.json'),
+    );
+
+    return path.join(
+        path.dirname(runtimeRequire.resolve('tree-sitter-wasms/package.json')),
+        'out',
+    );
+}
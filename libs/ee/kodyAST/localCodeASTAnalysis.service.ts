@@ -0,0 +1,490 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { createLogger } from '@kodus/flow';
+import { PromptRunnerService } from '@kodus/kodus-common/llm';
+import { Injectable } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+    SyntaxCheckRequest,
+    SyntaxCheckResponse,
+    SyntaxCheckResult,
+    SyntaxValidationStatus,
+} from '@libs/code-review/domain/types/astValidate.type';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import { ObservabilityService } from '@libs/core/log/observability.service';
+import { CodeManagementService } from '@libs/platform/infrastructure/adapters/services/codeManagement.service';
+
+import { CodeAstAnalysisService } from './codeASTAnalysis.service';
+import {
+    GetImpactAnalysisResponse,
+    GetTaskInfoResponse,
+    InitializeImpactAnalysisResponse,
+    InitializeRepositoryResponse,
+    TaskStatus,
+} from './interfaces/code-ast-analysis.interface';
+import { CallGraph, qualifiedName } from './local/callGraph';
+import {
+    cloneRepository,
+    getWorkspaceRoot,
+    listSourceFiles,
+    removeWorkspace,
+} from './local/repositoryWorkspace';
+import { ParsedFunction, TreeSitterParser } from './local/treeSitter.parser';
+
+const DEFAULT_MAX_FILES = 5000;
+const MAX_RELATED_FUNCTIONS = 20;
+// Finished tasks the pipeline never deleted (failed runs, unread validations)
+// are dropped after this long, along with their cloned workspace
+const TASK_TTL_MS = 60 * 60 * 1000;
+
+type LocalTask = {
+    info: GetTaskInfoResponse['task'];
+    done: Promise<void>;
+    /** Graph task an impact analysis task was computed from. */
+    graphsTaskId?: string;
+    workspaceDir?: string;
+    graph?: CallGraph;
+    impact?: GetImpactAnalysisResponse;
+    validation?: SyntaxCheckResponse;
+};
+
+/**
+ * Runs the AST analysis in-process with tree-sitter, for deployments without
+ * the AST microservice. Tasks live in memory, so the graphs are only visible
+ * to the instance that built them. The LLM based methods are inherited.
+ */
+@Injectable()
+export class LocalCodeAstAnalysisService extends CodeAstAnalysisService {
+    protected readonly logger = createLogger(LocalCodeAstAnalysisService.name);
+
+    private readonly parser = new TreeSitterParser();
+    private readonly tasks = new Map<string, LocalTask>();
+
+    constructor(
+        codeManagementService: CodeManagementService,
+        promptRunnerService: PromptRunnerService,
+        observabilityService: ObservabilityService,
+    ) {
+        super(codeManagementService, promptRunnerService, observabilityService);
+    }
+
+    async initializeASTAnalysis(
+        repository: any,
+        pullRequest: any,
+        platformType: string,
+        organizationAndTeamData: OrganizationAndTeamData,
+    ): Promise<InitializeRepositoryResponse> {
+        // Only the head is cloned, the callers that matter are the ones after the change
+        return this.startTask(async (task, taskId) => {
+            const { headRepo } =
+                (await this.getRepoParams(
+                    repository,
+                    pullRequest,
+                    organizationAndTeamData,
+                    platformType,
+                )) ?? {};
+
+            if (!headRepo) {
+                throw new Error('Head repository parameters are missing');
+            }
+
+            task.workspaceDir = path.join(
+                getWorkspaceRoot(),
+                organizationAndTeamData.organizationId,
+                taskId,
+            );
+
+            await cloneRepository(headRepo, task.workspaceDir);
+
+            task.graph = await this.buildCallGraph(task.workspaceDir);
+
+            this.logger.log({
+                message: `Built call graph of ${task.graph.size} functions for PR#${pullRequest?.number}`,
+                context: LocalCodeAstAnalysisService.name,
+                metadata: { organizationAndTeamData, taskId },
+            });
+        });
+    }
+
+    async initializeImpactAnalysis(
+        repository: any,
+        pullRequest: any,
+        platformType: string,
+        organizationAndTeamData: OrganizationAndTeamData,
+        codeChunk: string,
+        fileName: string,
+        graphsTaskId: string,
+    ): Promise<InitializeImpactAnalysisResponse> {
+        return this.startTask(async (task) => {
+            task.graphsTaskId = graphsTaskId;
+
+            const { graph } = await this.getGraphTask(graphsTaskId);
+
+            task.impact = graph.analyzeImpact(
+                this.getChangedFunctions(graph, fileName, codeChunk),
+            );
+        });
+    }
+
+    async getImpactAnalysis(
+        repository: any,
+        pullRequest: any,
+        platformType: string,
+        organizationAndTeamData: OrganizationAndTeamData,
+        taskId: string,
+    ): Promise<GetImpactAnalysisResponse> {
+        const task = await this.getCompletedTask(taskId);
+
+        return (
+            task.impact ?? {
+                functionsAffect: [],
+                functionSimilarity: [],
+            }
+        );
+    }
+
+    async getRelatedContentFromDiff(
+        repository: any,
+        pullRequest: any,
+        platformType: string,
+        organizationAndTeamData: OrganizationAndTeamData,
+        diff: string,
+        filePath: string,
+        taskId: string,
+    ): Promise<{ content: string }> {
+        const { graph, workspaceDir } = await this.getGraphTask(taskId);
+        const changed = this.getChangedFunctions(graph, filePath, diff);
+
+        const related = new Set<ParsedFunction>();
+
+        for (const fn of changed) {
+            fn.calls
+                .flatMap((callee) => graph.findDefinitions(callee))
+                .forEach((callee) => related.add(callee));
+
+            graph.getCallers(fn.name).forEach((caller) => related.add(caller));
+        }
+
+        changed.forEach((fn) => related.delete(fn));
+
+        const snippets: string[] = [];
+
+        for (const fn of [...related].slice(0, MAX_RELATED_FUNCTIONS)) {
+            const lines = await this.readLines(workspaceDir, fn.filePath);
+
+            snippets.push(
+                [
+                    `// ${fn.filePath}:${fn.startLine}-${fn.endLine} (${qualifiedName(fn)})`,
+                    ...lines.slice(fn.startLine - 1, fn.endLine),
+                ].join('\n'),
+            );
+        }
+
+        return { content: snippets.join('\n\n') };
+    }
+
+    async awaitTask(
+        taskId: string,
+        organizationAndTeamData: OrganizationAndTeamData,
+        options: { timeout?: number } = {},
+    ): Promise<GetTaskInfoResponse> {
+        const task = this.tasks.get(taskId);
+
+        if (!task) {
+            this.logger.warn({
+                message: `Task ${taskId} not found`,
+                context: LocalCodeAstAnalysisService.name,
+                metadata: { taskId, organizationAndTeamData },
+            });
+            return null;
+        }
+
+        const timeout = options.timeout ?? 120000;
+        let timer: NodeJS.Timeout;
+
+        const timedOut = await Promise.race([
+            task.done.then(() => false),
+            new Promise<boolean>((resolve) => {
+                timer = setTimeout(() => resolve(true), timeout);
+            }),
+        ]);
+
+        clearTimeout(timer);
+
+        if (timedOut) {
+            throw new Error(`Task ${taskId} timed out after ${timeout}ms`);
+        }
+
+        return { task: { ...task.info } };
+    }
+
+    async deleteASTAnalysis(
+        repository: any,
+        pullRequest: any,
+        platformType: string,
+        organizationAndTeamData: OrganizationAndTeamData,
+        taskId: string,
+    ): Promise<void> {
+        const task = this.tasks.get(taskId);
+
+        if (!task) {
+            return;
+        }
+
+        // Let a clone in progress finish before removing its directory
+        await task.done;
+
+        if (task.workspaceDir) {
+            await removeWorkspace(task.workspaceDir);
+        }
+
+        for (const [id, other] of this.tasks) {
+            if (id === taskId || other.graphsTaskId === taskId) {
+                this.tasks.delete(id);
+            }
+        }
+    }
+
+    async startValidate(
+        payload: SyntaxCheckRequest,
+    ): Promise<{ taskId: string }> {
+        const { taskId } = await this.startTask(async (task) => {
+            const results: SyntaxCheckResult[] = [];
+
+            for (const file of payload.files ?? []) {
+                results.push(await this.checkSyntax(file));
+            }
+
+            task.validation = { results };
+        });
+
+        return { taskId };
+    }
+
+    async getValidate(taskId: string): Promise<SyntaxCheckResponse> {
+        const task = await this.getCompletedTask(taskId);
+
+        // Validation results are read once
+        this.tasks.delete(taskId);
+
+        return task.validation;
+    }
+
+    private async checkSyntax(
+        file: SyntaxCheckRequest['files'][number],
+    ): Promise<SyntaxCheckResult> {
+        try {
+            const code = Buffer.from(file.encodedData, 'base64').toString(
+                'utf-8',
+            );
+            const errors = await this.parser.findSyntaxErrors(
+                file.filePath,
+                code,
+            );
+
+            if (!errors) {
+                return {
+                    id: file.id,
+                    filePath: file.filePath,
+                    isValid: false,
+                    status: SyntaxValidationStatus.UNSUPPORTED_LANGUAGE,
+                };
+            }
+
+            return {
+                id: file.id,
+                filePath: file.filePath,
+                isValid: !errors.length,
+                status: errors.length
+                    ? SyntaxValidationStatus.INVALID_SYNTAX
+                    : SyntaxValidationStatus.VALID,
+                ...(errors.length && {
+                    error: errors
+                        .map(
+                            ({ line, column }) =>
+                                `Syntax error at ${line}:${column}`,
+                        )
+                        .join('\n'),
+                }),
+            };
+        } catch (error) {
+            return {
+                id: file.id,
+                filePath: file.filePath,
+                isValid: false,
+                status: SyntaxValidationStatus.ERROR,
+                error: error.message,
+            };
+        }
+    }
+
+    private startTask(
+        work: (task: LocalTask, taskId: string) => Promise<void>,
+    ): Promise<{ taskId: string; status: TaskStatus }> {
+        const taskId = uuidv4();
+
+        const task: LocalTask = {
+            info: { taskId, status: TaskStatus.TASK_STATUS_IN_PROGRESS },
+            done: Promise.resolve(),
+        };
+
+        task.done = work(task, taskId)
+            .then(() => {
+                task.info.status = TaskStatus.TASK_STATUS_COMPLETED;
+            })
+            .catch((error) => {
+                task.info.status = TaskStatus.TASK_STATUS_FAILED;
+                task.info.error = error.message;
+
+                this.logger.error({
+                    message: `Local AST task ${taskId} failed`,
+                    context: LocalCodeAstAnalysisService.name,
+                    error,
+                    metadata: { taskId },
+                });
+            })
+            .finally(() => this.scheduleExpiry(taskId, task));
+
+        this.tasks.set(taskId, task);
+
+        return Promise.resolve({ taskId, status: task.info.status });
+    }
+
+    private scheduleExpiry(taskId: string, task: LocalTask): void {
+        const timer = setTimeout(() => {
+            // Already deleted by the pipeline
+            if (this.tasks.get(taskId) !== task) {
+                return;
+            }
+
+            this.tasks.delete(taskId);
+
+            if (task.workspaceDir) {
+                removeWorkspace(task.workspaceDir).catch((error) => {
+                    this.logger.warn({
+                        message: `Could not remove workspace of expired task ${taskId}`,
+                        context: LocalCodeAstAnalysisService.name,
+                        error,
+                        metadata: { taskId },
+                    });
+                });
+            }
+        }, TASK_TTL_MS);
+
+        // Pending expiries must not keep the process alive
+        timer.unref();
+    }
+
+    private async getCompletedTask(taskId: string): Promise<LocalTask> {
+        const task = this.tasks.get(taskId);
+
+        if (!task) {
+            throw new Error(`Task ${taskId} not found`);
+        }
+
+        await task.done;
+
+        if (task.info.status !== TaskStatus.TASK_STATUS_COMPLETED) {
+            throw new Error(`Task ${taskId} failed: ${task.info.error}`);
+        }
+
+        return task;
+    }
+
+    private async getGraphTask(
+        taskId: string,
+    ): Promise<Required<Pick<LocalTask, 'graph' | 'workspaceDir'>>> {
+        const { graph, workspaceDir } = await this.getCompletedTask(taskId);
+
+        if (!graph) {
+            throw new Error(`Task ${taskId} has no call graph`);
+        }
+
+        return { graph, workspaceDir };
+    }
+
+    private async buildCallGraph(dir: string): Promise<CallGraph> {
+        const maxFiles =
+            Number(process.env.API_AST_LOCAL_MAX_FILES) || DEFAULT_MAX_FILES;
+
+        const files = await listSourceFiles(dir, maxFiles);
+        const functions: ParsedFunction[] = [];
+
+        for (const file of files) {
+            try {
+                const content = await fs.readFile(
+                    path.join(dir, file),
+                    'utf-8',
+                );
+                functions.push(
+                    ...(await this.parser.extractFunctions(file, content)),
+                );
+            } catch (error) {
+                this.logger.warn({
+                    message: `Skipping ${file} in the call graph`,
+                    context: LocalCodeAstAnalysisService.name,
+                    error,
+                });
+            }
+        }
+
+        return new CallGraph(functions);
+    }
+
+    /** Without hunks, e.g. a plain code chunk, every function of the file counts as changed. */
+    private getChangedFunctions(
+        graph: CallGraph,
+        filePath: string,
+        diff: string,
+    ): ParsedFunction[] {
+        const changedLines = getChangedLines(diff);
+
+        return changedLines.length
+            ? graph.findFunctionsAtLines(filePath, changedLines)
+            : graph.getFileFunctions(filePath);
+    }
+
+    private async readLines(dir: string, filePath: string): Promise<string[]> {
+        const content = await fs.readFile(path.join(dir, filePath), 'utf-8');
+        return content.split('\n');
+    }
+}
+
+/**
+ * Lines of the new file touched by a unified diff. A removal counts for the
+ * line that now takes its place.
+ */
+export function getChangedLines(diff: string): number[] {
+    const changed: number[] = [];
+    let newLine = 0;
+
+    for (const line of diff?.split('\n') ?? []) {
+        const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
+
+        if (hunk) {
+            newLine = parseInt(hunk[1], 10);
+            continue;
+        }
+
+        if (
+            !newLine ||
+            line.startsWith('+++') ||
+            line.startsWith('---') ||
+            line.startsWith('\\')
+        ) {
+            continue;
+        }
+
+        if (line.startsWith('+')) {
+            changed.push(newLine++);
+        } else if (line.startsWith('-')) {
+            changed.push(newLine);
+        } else {
+            newLine++;
+        }
+    }
+
+    return changed;
+}
@@ -1,8 +1,10 @@
 import {
     IKodyRuleExternalReference,
+    IKodyRuleMatcher,
     IKodyRuleReferenceSyncError,
     IKodyRulesExample,
     KodyRuleProcessingStatus,
+    KodyRuleType,
     KodyRulesOrigin,
     KodyRulesScope,
     KodyRulesStatus,
@@ -33,6 +35,20 @@ export class KodyRulesExampleDto implements IKodyRulesExample {
     isCorrect: boolean;
 }
 
+export class KodyRuleMatcherDto implements IKodyRuleMatcher {
+    @IsNotEmpty()
+    @IsString()
+    pattern: string;
+
+    @IsOptional()
+    @IsString()
+    flags?: string;
+
+    @IsOptional()
+    @IsString()
+    message?: string;
+}
+
 export class KodyRulesInheritanceDto {
     @IsBoolean()
     inheritable: boolean;
@@ -82,6 +98,15 @@ export class CreateKodyRuleDto {
     @IsString()
     path: string;
 
+    @IsOptional()
+    @IsEnum(KodyRuleType)
+    type?: KodyRuleType;
+
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => KodyRuleMatcherDto)
+    matcher?: KodyRuleMatcherDto;
+
     @IsOptional()
     @IsString()
     sourcePath?: string;
@@ -0,0 +1,92 @@
+import {
+    IKodyRuleTestSample,
+    IKodyRuleTestInput,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleTest.interface';
+import {
+    KodyRuleType,
+    KodyRulesScope,
+} from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import { Type } from 'class-transformer';
+import {
+    IsArray,
+    IsBoolean,
+    IsEnum,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    ValidateNested,
+} from 'class-validator';
+
+import {
+    KodyRuleMatcherDto,
+    KodyRulesExampleDto,
+    KodyRuleSeverity,
+} from './create-kody-rule.dto';
+
+export class KodyRuleTestSampleDto implements IKodyRuleTestSample {
+    @IsNotEmpty()
+    @IsString()
+    code: string;
+
+    @IsOptional()
+    @IsString()
+    filename?: string;
+
+    @IsOptional()
+    @IsString()
+    language?: string;
+
+    @IsOptional()
+    @IsBoolean()
+    expectViolation?: boolean;
+}
+
+export class KodyRuleDraftDto {
+    @IsOptional()
+    @IsString()
+    title?: string;
+
+    @IsOptional()
+    @IsString()
+    rule?: string;
+
+    @IsOptional()
+    @IsEnum(KodyRulesScope)
+    scope?: KodyRulesScope;
+
+    @IsOptional()
+    @IsEnum(KodyRuleSeverity)
+    severity?: KodyRuleSeverity;
+
+    @IsOptional()
+    @IsEnum(KodyRuleType)
+    type?: KodyRuleType;
+
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => KodyRuleMatcherDto)
+    matcher?: KodyRuleMatcherDto;
+
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => KodyRulesExampleDto)
+    examples?: KodyRulesExampleDto[];
+}
+
+export class TestKodyRuleDto implements Omit<IKodyRuleTestInput, 'ruleId'> {
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => KodyRuleDraftDto)
+    kodyRule?: KodyRuleDraftDto;
+
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => KodyRuleTestSampleDto)
+    samples?: KodyRuleTestSampleDto[];
+
+    @IsOptional()
+    @IsBoolean()
+    includeExamples?: boolean;
+}
@@ -188,6 +188,23 @@ export class KodyRulesRepository implements IKodyRulesRepository {
             ? mapSimpleModelToEntity(updated, KodyRulesEntity)
             : null;
     }
+
+    async updateRuleRevision(
+        uuid: string,
+        ruleId: string,
+        revision: number,
+    ): Promise<KodyRulesEntity | null> {
+        const updated = await this.kodyRulesModel
+            .findOneAndUpdate(
+                { '_id': uuid, 'rules.uuid': ruleId },
+                { $max: { 'rules.$.revision': revision } },
+                { new: true },
+            )
+            .exec();
+        return updated
+            ? mapSimpleModelToEntity(updated, KodyRulesEntity)
+            : null;
+    }
     //#endregion
 
     //#region Delete
@@ -0,0 +1,300 @@
+import { createLogger } from '@kodus/flow';
+import { BYOKConfig } from '@kodus/kodus-common/llm';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import pLimit from 'p-limit';
+import { v4 } from 'uuid';
+
+import {
+    AnalysisContext,
+    CodeReviewConfig,
+    CodeSuggestion,
+    FileChange,
+    FileChangeContext,
+    ReviewModeResponse,
+} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import {
+    KODY_RULES_ANALYSIS_SERVICE_TOKEN,
+    KodyRulesAnalysisService,
+} from '@libs/ee/codeBase/kodyRulesAnalysis.service';
+import {
+    KODY_RULES_PR_LEVEL_ANALYSIS_SERVICE_TOKEN,
+    KodyRulesPrLevelAnalysisService,
+} from '@libs/ee/codeBase/kodyRulesPrLevelAnalysis.service';
+import { PermissionValidationService } from '@libs/ee/shared/services/permissionValidation.service';
+import {
+    IKodyRulesService,
+    KODY_RULES_SERVICE_TOKEN,
+} from '@libs/kodyRules/domain/contracts/kodyRules.service.contract';
+import {
+    IKodyRuleTestCaseResult,
+    IKodyRuleTestInput,
+    IKodyRuleTestReport,
+    KodyRuleTestOutcome,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleTest.interface';
+import {
+    IKodyRule,
+    KodyRulesScope,
+    KodyRuleType,
+} from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+
+import {
+    evaluateDeterministicKodyRule,
+    isDeterministicKodyRule,
+    validateKodyRuleMatcher,
+} from '../utils/deterministicKodyRules.utils';
+import {
+    buildKodyRuleTestCases,
+    KodyRuleTestCase,
+    MAX_TEST_CASES,
+    summarizeKodyRuleTest,
+    toKodyRuleTestCaseResult,
+    toKodyRuleTestFile,
+} from '../utils/kodyRuleTest.utils';
+
+const TEST_CASES_CONCURRENCY = 3;
+
+/**
+ * Runs a single Kody Rule, saved or draft, against its own examples and
+ * code pasted by the author, through the same analysis used in reviews.
+ */
+@Injectable()
+export class KodyRulesTestService {
+    private readonly logger = createLogger(KodyRulesTestService.name);
+
+    constructor(
+        @Inject(KODY_RULES_SERVICE_TOKEN)
+        private readonly kodyRulesService: IKodyRulesService,
+
+        @Inject(KODY_RULES_ANALYSIS_SERVICE_TOKEN)
+        private readonly kodyRulesAnalysisService: KodyRulesAnalysisService,
+
+        @Inject(KODY_RULES_PR_LEVEL_ANALYSIS_SERVICE_TOKEN)
+        private readonly kodyRulesPrLevelAnalysisService: KodyRulesPrLevelAnalysisService,
+
+        private readonly permissionValidationService: PermissionValidationService,
+    ) {}
+
+    async testRule(
+        organizationAndTeamData: OrganizationAndTeamData,
+        input: IKodyRuleTestInput,
+    ): Promise<IKodyRuleTestReport> {
+        const rule = await this.resolveRule(
+            organizationAndTeamData.organizationId,
+            input,
+        );
+
+        const testCases = buildKodyRuleTestCases(
+            rule.examples,
+            input.samples,
+            input.includeExamples ?? true,
+        );
+
+        if (!testCases.length) {
+            throw new BadRequestException(
+                'Nothing to test: the rule has no examples and no samples were given',
+            );
+        }
+
+        if (testCases.length > MAX_TEST_CASES) {
+            throw new BadRequestException(
+                `A rule can be tested against at most ${MAX_TEST_CASES} examples and samples`,
+            );
+        }
+
+        const byokConfig = isDeterministicKodyRule(rule)
+            ? undefined
+            : await this.permissionValidationService.getBYOKConfig(
+                  organizationAndTeamData,
+              );
+
+        const limit = pLimit(TEST_CASES_CONCURRENCY);
+        const results = await Promise.all(
+            testCases.map((testCase) =>
+                limit(() =>
+                    this.runTestCase(
+                        organizationAndTeamData,
+                        rule,
+                        testCase,
+                        byokConfig,
+                    ),
+                ),
+            ),
+        );
+
+        return {
+            ruleId: input.ruleId,
+            title: rule.title,
+            type: rule.type ?? KodyRuleType.LLM,
+            scope: rule.scope ?? KodyRulesScope.FILE,
+            summary: summarizeKodyRuleTest(results),
+            results,
+        };
+    }
+
+    /**
+     * The tested copy has no path, so it applies to the synthetic files, and
+     * drafts get a temporary uuid to attribute the suggestions to.
+     */
+    private async resolveRule(
+        organizationId: string,
+        input: IKodyRuleTestInput,
+    ): Promise<Partial<IKodyRule>> {
+        let savedRule: Partial<IKodyRule> | undefined;
+
+        if (input.ruleId) {
+            const kodyRules =
+                await this.kodyRulesService.findByOrganizationId(
+                    organizationId,
+                );
+
+            savedRule = kodyRules?.rules?.find(
+                (rule) => rule.uuid === input.ruleId,
+            );
+
+            if (!savedRule) {
+                throw new NotFoundException(
+                    'Rule not found or does not belong to your organization',
+                );
+            }
+        } else if (!input.kodyRule) {
+            throw new BadRequestException(
+                'Either a rule ID or a draft rule is required',
+            );
+        }
+
+        // Fields left out of the draft keep the saved values
+        const draft = Object.fromEntries(
+            Object.entries(input.kodyRule ?? {}).filter(
+                ([, value]) => value !== undefined,
+            ),
+        ) as Partial<IKodyRule>;
+
+        const rule: Partial<IKodyRule> = {
+            ...savedRule,
+            ...draft,
+            uuid: savedRule?.uuid || draft.uuid || v4(),
+            path: undefined,
+        };
+
+        const matcherError = validateKodyRuleMatcher(rule.type, rule.matcher);
+        if (matcherError) {
+            throw new BadRequestException(matcherError);
+        }
+
+        if (!isDeterministicKodyRule(rule) && !rule.rule?.trim()) {
+            throw new BadRequestException('Rule text is required');
+        }
+
+        return rule;
+    }
+
+    private async runTestCase(
+        organizationAndTeamData: OrganizationAndTeamData,
+        rule: Partial<IKodyRule>,
+        testCase: KodyRuleTestCase,
+        byokConfig?: BYOKConfig,
+    ): Promise<IKodyRuleTestCaseResult> {
+        try {
+            const fileContext = toKodyRuleTestFile(testCase);
+
+            const suggestions = await this.findViolations(
+                organizationAndTeamData,
+                rule,
+                fileContext,
+                testCase.language,
+                byokConfig,
+            );
+
+            return toKodyRuleTestCaseResult(testCase, rule.uuid, suggestions);
+        } catch (error) {
+            this.logger.error({
+                message: `Error testing Kody Rule against ${testCase.source} ${testCase.index}`,
+                error,
+                context: KodyRulesTestService.name,
+                metadata: {
+                    organizationAndTeamData,
+                    ruleId: rule.uuid,
+                    type: rule.type,
+                    scope: rule.scope,
+                },
+            });
+
+            return {
+                source: testCase.source,
+                index: testCase.index,
+                filename: testCase.filename,
+                expectViolation: testCase.expectViolation,
+                flagged: false,
+                outcome: KodyRuleTestOutcome.ERROR,
+                findings: [],
+                error: error?.message,
+            };
+        }
+    }
+
+    private async findViolations(
+        organizationAndTeamData: OrganizationAndTeamData,
+        rule: Partial<IKodyRule>,
+        fileContext: FileChangeContext,
+        language: string | undefined,
+        byokConfig?: BYOKConfig,
+    ): Promise<Partial<CodeSuggestion>[]> {
+        if (isDeterministicKodyRule(rule)) {
+            return evaluateDeterministicKodyRule(rule, {
+                filename: fileContext.file.filename,
+                patch: fileContext.file.patch,
+                language,
+            });
+        }
+
+        const context: AnalysisContext = {
+            organizationAndTeamData,
+            platformType: '',
+            pullRequest: {
+                number: 0,
+                title: `Kody Rule test: ${rule.title ?? ''}`.trim(),
+                body: '',
+                tags: [],
+            },
+            repository: { language },
+            codeReviewConfig: {
+                kodyRules: [rule],
+                byokConfig,
+            } as CodeReviewConfig,
+        };
+
+        if (rule.scope === KodyRulesScope.PULL_REQUEST) {
+            // PR-level analysis reads the files from the pipeline context
+            const prLevelContext: AnalysisContext & {
+                changedFiles: FileChange[];
+            } = { ...context, changedFiles: [fileContext.file] };
+
+            const result =
+                await this.kodyRulesPrLevelAnalysisService.analyzeCodeWithAI(
+                    organizationAndTeamData,
+                    0,
+                    [fileContext.file],
+                    ReviewModeResponse.HEAVY_MODE,
+                    prLevelContext,
+                );
+
+            return result?.codeSuggestions ?? [];
+        }
+
+        const result = await this.kodyRulesAnalysisService.analyzeCodeWithAI(
+            organizationAndTeamData,
+            0,
+            fileContext,
+            ReviewModeResponse.HEAVY_MODE,
+            context,
+        );
+
+        return result?.codeSuggestions ?? [];
+    }
+}
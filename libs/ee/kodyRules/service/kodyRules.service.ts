@@ -40,11 +40,20 @@ import {
     KODY_RULES_REPOSITORY_TOKEN,
 } from '@libs/kodyRules/domain/contracts/kodyRules.repository.contract';
 import { IKodyRulesService } from '@libs/kodyRules/domain/contracts/kodyRules.service.contract';
+import {
+    IKodyRuleRevisionsService,
+    KODY_RULE_REVISIONS_SERVICE_TOKEN,
+} from '@libs/kodyRules/domain/contracts/kodyRuleRevisions.service.contract';
 import {
     IRuleLikeService,
     RULE_LIKE_SERVICE_TOKEN,
 } from '@libs/kodyRules/domain/contracts/ruleLike.service.contract';
 import { KodyRulesEntity } from '@libs/kodyRules/domain/entities/kodyRules.entity';
+import {
+    IKodyRuleRevisionContext,
+    KodyRuleRevisionAction,
+    KodyRuleRevisionOrigin,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
 import {
     IKodyRule,
     IKodyRules,
@@ -58,6 +67,14 @@ import {
     PULL_REQUESTS_REPOSITORY_TOKEN,
 } from '@libs/platformData/domain/pullRequests/contracts/pullRequests.repository';
 import { KodyRulesValidationService } from './kody-rules-validation.service';
+import { validateKodyRuleMatcher } from '../utils/deterministicKodyRules.utils';
+import {
+    getKodyRuleRevisionOrigin,
+    isSameKodyRuleSnapshot,
+    toKodyRuleSnapshot,
+} from '../utils/kodyRuleRevisions.utils';
+
+const MAX_REVISION_ATTEMPTS = 3;
 
 @Injectable()
 export class KodyRulesService implements IKodyRulesService {
@@ -73,6 +90,9 @@ export class KodyRulesService implements IKodyRulesService {
         @Inject(RULE_LIKE_SERVICE_TOKEN)
         private readonly ruleLikeService: IRuleLikeService,
 
+        @Inject(KODY_RULE_REVISIONS_SERVICE_TOKEN)
+        private readonly kodyRuleRevisionsService: IKodyRuleRevisionsService,
+
         @Inject(PULL_REQUESTS_REPOSITORY_TOKEN)
         private readonly pullRequestsRepository: IPullRequestsRepository,
 
@@ -459,11 +479,18 @@ export class KodyRulesService implements IKodyRulesService {
         organizationAndTeamData: OrganizationAndTeamData,
         kodyRule: CreateKodyRuleDto,
         userInfo: UserInfo,
+        revisionContext?: IKodyRuleRevisionContext,
     ): Promise<Partial<IKodyRule> | IKodyRule | null> {
         const existing = await this.findByOrganizationId(
             organizationAndTeamData.organizationId,
         );
 
+        const existingRule = kodyRule.uuid
+            ? existing?.rules?.find((rule) => rule.uuid === kodyRule.uuid)
+            : undefined;
+
+        this.ensureValidMatcher({ ...existingRule, ...kodyRule });
+
         // If no rules exist for the organization
         if (!existing) {
             if (kodyRule.uuid) {
@@ -477,6 +504,8 @@ export class KodyRulesService implements IKodyRulesService {
                 title: kodyRule?.title,
                 rule: kodyRule?.rule,
                 path: kodyRule?.path,
+                type: kodyRule?.type,
+                matcher: kodyRule?.matcher,
                 severity: kodyRule?.severity?.toLowerCase(),
                 status: kodyRule?.status ?? KodyRulesStatus.ACTIVE,
                 sourcePath: kodyRule?.sourcePath,
@@ -506,6 +535,15 @@ export class KodyRulesService implements IKodyRulesService {
                 );
             }
 
+            const revisedKodyRules = await this.recordRevision({
+                kodyRulesId: newKodyRules.uuid,
+                organizationId: organizationAndTeamData.organizationId,
+                rule: newRule,
+                action: KodyRuleRevisionAction.CREATE,
+                userInfo,
+                revisionContext,
+            });
+
             try {
                 this.codeReviewSettingsLogService.registerKodyRulesLog({
                     organizationAndTeamData,
@@ -528,7 +566,7 @@ export class KodyRulesService implements IKodyRulesService {
                 });
             }
 
-            return newKodyRules.rules[0];
+            return (revisedKodyRules ?? newKodyRules).rules[0];
         }
 
         // If there is no UUID, it is a new rule
@@ -543,6 +581,8 @@ export class KodyRulesService implements IKodyRulesService {
                 title: kodyRule.title,
                 rule: kodyRule.rule,
                 path: kodyRule.path,
+                type: kodyRule.type,
+                matcher: kodyRule.matcher,
                 sourcePath: kodyRule.sourcePath,
                 sourceAnchor: kodyRule.sourceAnchor,
                 severity: kodyRule.severity?.toLowerCase(),
@@ -567,6 +607,15 @@ export class KodyRulesService implements IKodyRulesService {
                 throw new Error('Could not add new rule');
             }
 
+            const revisedKodyRules = await this.recordRevision({
+                kodyRulesId: existing.uuid,
+                organizationId: organizationAndTeamData.organizationId,
+                rule: newRule,
+                action: KodyRuleRevisionAction.CREATE,
+                userInfo,
+                revisionContext,
+            });
+
             try {
                 this.codeReviewSettingsLogService.registerKodyRulesLog({
                     organizationAndTeamData,
@@ -593,16 +642,12 @@ export class KodyRulesService implements IKodyRulesService {
                 });
             }
 
-            return updatedKodyRules.rules.find(
+            return (revisedKodyRules ?? updatedKodyRules).rules.find(
                 (rule) => rule.uuid === newRule.uuid,
             );
         }
 
         // If there is a UUID, it is an update
-        const existingRule = existing?.rules?.find(
-            (rule) => rule.uuid === kodyRule.uuid,
-        );
-
         if (!existingRule) {
             throw new NotFoundException('Rule not found');
         }
@@ -650,7 +695,19 @@ export class KodyRulesService implements IKodyRulesService {
             throw new Error('Could not update rule');
         }
 
-        return updatedKodyRules.rules.find(
+        const revisedKodyRules = await this.recordRevision({
+            kodyRulesId: existing.uuid,
+            organizationId: organizationAndTeamData.organizationId,
+            previousRule: existingRule,
+            rule: updatedRule,
+            action: revisionContext?.restoredFromRevision
+                ? KodyRuleRevisionAction.RESTORE
+                : KodyRuleRevisionAction.UPDATE,
+            userInfo,
+            revisionContext,
+        });
+
+        return (revisedKodyRules ?? updatedKodyRules).rules.find(
             (rule) => rule.uuid === kodyRule.uuid,
         );
     }
@@ -728,6 +785,7 @@ export class KodyRulesService implements IKodyRulesService {
         organizationAndTeamData: OrganizationAndTeamData,
         kodyRule: CreateKodyRuleDto,
         userInfo?: UserInfo,
+        revisionContext?: IKodyRuleRevisionContext,
     ): Promise<Partial<IKodyRule> | IKodyRule | null> {
         const existing = await this.findByOrganizationId(
             organizationAndTeamData.organizationId,
@@ -788,11 +846,35 @@ export class KodyRulesService implements IKodyRulesService {
             throw new Error('Could not update rule');
         }
 
-        return updatedKodyRules.rules.find(
+        const revisedKodyRules = await this.recordRevision({
+            kodyRulesId: existing.uuid,
+            organizationId: organizationAndTeamData.organizationId,
+            previousRule: existingRule,
+            rule: updatedRule,
+            action: revisionContext?.restoredFromRevision
+                ? KodyRuleRevisionAction.RESTORE
+                : KodyRuleRevisionAction.UPDATE,
+            userInfo,
+            revisionContext,
+        });
+
+        return (revisedKodyRules ?? updatedKodyRules).rules.find(
             (rule) => rule.uuid === kodyRule.uuid,
         );
     }
 
+    async updateRuleRevision(
+        uuid: string,
+        ruleId: string,
+        revision: number,
+    ): Promise<KodyRulesEntity | null> {
+        return this.kodyRulesRepository.updateRuleRevision(
+            uuid,
+            ruleId,
+            revision,
+        );
+    }
+
     async deleteRule(uuid: string, ruleId: string): Promise<boolean> {
         return this.kodyRulesRepository.deleteRule(uuid, ruleId);
     }
@@ -853,6 +935,7 @@ export class KodyRulesService implements IKodyRulesService {
         organizationAndTeamData: OrganizationAndTeamData,
         ruleId: string,
         userInfo: UserInfo,
+        revisionContext?: IKodyRuleRevisionContext,
     ): Promise<boolean> {
         try {
             const existing = await this.findByOrganizationId(
@@ -870,7 +953,26 @@ export class KodyRulesService implements IKodyRulesService {
                 return false;
             }
 
-            const rule = await this.deleteRuleLogically(existing.uuid, ruleId);
+            const updatedKodyRules = await this.deleteRuleLogically(
+                existing.uuid,
+                ruleId,
+            );
+
+            if (!updatedKodyRules) {
+                return false;
+            }
+
+            await this.recordRevision({
+                kodyRulesId: existing.uuid,
+                organizationId: organizationAndTeamData.organizationId,
+                previousRule: deletedRule,
+                rule: updatedKodyRules.rules.find(
+                    (rule) => rule.uuid === ruleId,
+                ),
+                action: KodyRuleRevisionAction.DELETE,
+                userInfo,
+                revisionContext,
+            });
 
             try {
                 this.codeReviewSettingsLogService.registerKodyRulesLog({
@@ -895,7 +997,7 @@ export class KodyRulesService implements IKodyRulesService {
                 });
             }
 
-            return !!rule;
+            return true;
         } catch (error) {
             this.logger.error({
                 message: 'Error deleting rule with logging',
@@ -911,6 +1013,143 @@ export class KodyRulesService implements IKodyRulesService {
         }
     }
 
+    /**
+     * Records the state a rule was just saved with and raises the saved
+     * rule to that revision. Saves that change none of the versioned
+     * fields keep the current revision. Concurrent saves can pick the same
+     * revision number, so a duplicate one is retried against the new
+     * latest revision.
+     *
+     * The rule is already saved, so failures are logged and leave the
+     * rule on its previous revision.
+     */
+    private async recordRevision(params: {
+        kodyRulesId: string;
+        organizationId: string;
+        previousRule?: Partial<IKodyRule>;
+        rule: Partial<IKodyRule>;
+        action: KodyRuleRevisionAction;
+        userInfo?: UserInfo;
+        revisionContext?: IKodyRuleRevisionContext;
+    }): Promise<KodyRulesEntity | null> {
+        const { kodyRulesId, organizationId, rule, action } = params;
+
+        for (let attempt = 1; ; attempt += 1) {
+            try {
+                const revision = await this.createRevision(params);
+
+                return await this.kodyRulesRepository.updateRuleRevision(
+                    kodyRulesId,
+                    rule.uuid,
+                    revision,
+                );
+            } catch (error) {
+                if (error?.code === 11000 && attempt < MAX_REVISION_ATTEMPTS) {
+                    continue;
+                }
+
+                this.logger.error({
+                    message: 'Error recording Kody rule revision',
+                    error,
+                    context: KodyRulesService.name,
+                    metadata: {
+                        organizationId,
+                        ruleId: rule?.uuid,
+                        action,
+                        attempt,
+                    },
+                });
+
+                return null;
+            }
+        }
+    }
+
+    /**
+     * Returns the revision matching the rule's state, creating it when the
+     * latest one differs. A rule saved before revisions existed gets its
+     * previous state recorded first, so the first edit can still be rolled
+     * back.
+     */
+    private async createRevision(params: {
+        organizationId: string;
+        previousRule?: Partial<IKodyRule>;
+        rule: Partial<IKodyRule>;
+        action: KodyRuleRevisionAction;
+        userInfo?: UserInfo;
+        revisionContext?: IKodyRuleRevisionContext;
+    }): Promise<number> {
+        const {
+            organizationId,
+            previousRule,
+            rule,
+            action,
+            userInfo,
+            revisionContext,
+        } = params;
+
+        const snapshot = toKodyRuleSnapshot(rule);
+        const latest = await this.kodyRuleRevisionsService.findLatest(
+            organizationId,
+            rule.uuid,
+        );
+
+        if (latest && isSameKodyRuleSnapshot(latest.snapshot, snapshot)) {
+            return latest.revision;
+        }
+
+        let revision = latest?.revision ?? 0;
+
+        if (!latest && previousRule) {
+            revision = 1;
+
+            await this.kodyRuleRevisionsService.create({
+                organizationId,
+                ruleId: rule.uuid,
+                revision,
+                snapshot: toKodyRuleSnapshot(previousRule),
+                action: KodyRuleRevisionAction.CREATE,
+                origin: getKodyRuleRevisionOrigin(previousRule.origin),
+            });
+
+            if (isSameKodyRuleSnapshot(previousRule, snapshot)) {
+                return revision;
+            }
+        }
+
+        revision += 1;
+
+        await this.kodyRuleRevisionsService.create({
+            organizationId,
+            ruleId: rule.uuid,
+            revision,
+            snapshot,
+            action,
+            origin:
+                revisionContext?.origin ??
+                (action === KodyRuleRevisionAction.CREATE
+                    ? getKodyRuleRevisionOrigin(rule.origin)
+                    : KodyRuleRevisionOrigin.USER),
+            author: userInfo
+                ? {
+                      userId: userInfo.userId,
+                      userEmail: userInfo.userEmail,
+                  }
+                : undefined,
+            restoredFromRevision: revisionContext?.restoredFromRevision,
+        });
+
+        return revision;
+    }
+
+    private ensureValidMatcher(rule: Pick<IKodyRule, 'type' | 'matcher'>) {
+        const error = validateKodyRuleMatcher(rule.type, rule.matcher);
+
+        if (error) {
+            throw new BadRequestException(error);
+        }
+    }
+
     private async ensureFreePlanLimit(
         organizationAndTeamData: OrganizationAndTeamData,
         totalRulesAfterOperation: number,
@@ -0,0 +1,640 @@
+import { RE2JS } from 're2js';
+
+import { LabelType } from '@libs/common/utils/codeManagement/labels';
+import {
+    AddedLine,
+    extractAddedLinesFromPatch,
+} from '@libs/common/utils/patch';
+import { CodeSuggestion } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import {
+    IKodyRule,
+    IKodyRuleMatcher,
+    KodyRuleType,
+} from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+
+export const MAX_MATCHES_PER_RULE = 20;
+export const DEFAULT_MESSAGE_TEMPLATE = '{{rule}}';
+
+// Bounds the backtracking of a structural pattern over one block of lines
+const MAX_STRUCTURAL_STEPS = 100_000;
+
+// RE2 always matches code points, so `u` needs no flag of its own
+const REGEX_FLAGS: Record<string, number> = {
+    i: RE2JS.CASE_INSENSITIVE,
+    m: RE2JS.MULTILINE,
+    s: RE2JS.DOTALL,
+    u: 0,
+};
+
+// Regexes run on the shared worker: longer lines are only matched up to here
+export const MAX_REGEX_LINE_LENGTH = 2_000;
+
+// Characters two regex atoms are tested against to tell whether they overlap
+const OVERLAP_SAMPLE_CHARS = [
+    ...Array.from({ length: 128 }, (_, code) => String.fromCharCode(code)),
+    'é',
+    'ß',
+    'Ω',
+    '中',
+    '\u00a0',
+    '\u2028',
+];
+
+const REGEX_QUANTIFIER_RE = /^(?:([*+?])|\{(\d+)(?:(,)(\d*))?\})\??/;
+const REGEX_ESCAPE_RE =
+    /^\\(?:u\{[\da-f]+\}|u[\da-f]{4}|x[\da-f]{2}|c[a-z]|[pP]\{[^}]*\}|[\s\S])/i;
+const REGEX_GROUP_PREFIX_RE = /^\?(?::|=|!|<=|<!|<[^>]*>)/;
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set(Object.values(OPENERS));
+const SEPARATORS = new Set([',', ';']);
+
+const TOKEN_RE =
+    /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`|[A-Za-z_$][\w$]*|\d[\w.]*|\S/g;
+const MULTI_METAVARIABLE_RE = /^\$\$\$([A-Z_][A-Z0-9_]*)?$/;
+const SINGLE_METAVARIABLE_RE = /^\$([A-Z_][A-Z0-9_]*)$/;
+
+export interface DeterministicRuleMatch {
+    lineStart: number;
+    lineEnd: number;
+    text: string;
+    captures: Record<string, string>;
+}
+
+type Token = {
+    text: string;
+    line: number;
+    start: number;
+    end: number;
+};
+
+type PatternToken =
+    | { kind: 'literal'; text: string }
+    | { kind: 'single' | 'multi'; name?: string };
+
+type RegexTerm = {
+    // A single character matcher: a literal, an escape, a class or `.`
+    atom?: string;
+    alternatives?: RegexTerm[][];
+    min: number;
+    max: number;
+};
+
+export const isDeterministicKodyRule = (rule: Partial<IKodyRule>): boolean =>
+    rule?.type === KodyRuleType.REGEX || rule?.type === KodyRuleType.STRUCTURAL;
+
+const getRegexFlags = (matcher: IKodyRuleMatcher): string[] =>
+    [...new Set(matcher.flags ?? '')].filter((flag) => flag in REGEX_FLAGS);
+
+const buildRegex = (matcher: IKodyRuleMatcher): RE2JS =>
+    RE2JS.compile(
+        RE2JS.translateRegExp(matcher.pattern),
+        getRegexFlags(matcher).reduce(
+            (flags, flag) => flags | REGEX_FLAGS[flag],
+            0,
+        ),
+    );
+
+/**
+ * Splits a (valid) JavaScript regex into alternatives of quantified terms.
+ * Lookarounds and named groups are read as plain groups.
+ */
+const parseRegex = (pattern: string): RegexTerm[][] => {
+    let index = 0;
+
+    const parseAlternatives = (): RegexTerm[][] => {
+        const alternatives: RegexTerm[][] = [[]];
+
+        while (index < pattern.length && pattern[index] !== ')') {
+            const char = pattern[index];
+            let term: RegexTerm;
+
+            if (char === '|') {
+                alternatives.push([]);
+                index++;
+                continue;
+            }
+
+            if (char === '(') {
+                index++;
+                index +=
+                    pattern.slice(index).match(REGEX_GROUP_PREFIX_RE)?.[0]
+                        .length ?? 0;
+                term = { alternatives: parseAlternatives(), min: 1, max: 1 };
+                index++;
+            } else if (char === '[') {
+                const start = index++;
+                // Quantifiers inside a character class are literals
+                while (index < pattern.length && pattern[index] !== ']') {
+                    index += pattern[index] === '\\' ? 2 : 1;
+                }
+                term = { atom: pattern.slice(start, ++index), min: 1, max: 1 };
+            } else {
+                const atom =
+                    char === '\\'
+                        ? (pattern.slice(index).match(REGEX_ESCAPE_RE)?.[0] ??
+                          char)
+                        : char;
+                index += atom.length;
+                term = { atom, min: 1, max: 1 };
+            }
+
+            const quantifier = pattern.slice(index).match(REGEX_QUANTIFIER_RE);
+            if (quantifier) {
+                const [source, symbol, min, comma, max] = quantifier;
+
+                index += source.length;
+                term.min = symbol ? Number(symbol === '+') : Number(min);
+                term.max =
+                    symbol === '?'
+                        ? 1
+                        : symbol || (comma && !max)
+                          ? Infinity
+                          : Number(max || min);
+            }
+
+            alternatives[alternatives.length - 1].push(term);
+        }
+
+        return alternatives;
+    };
+
+    return parseAlternatives();
+};
+
+const canMatchEmpty = (sequence: RegexTerm[]): boolean =>
+    sequence.every(
+        (term) => term.min === 0 || !!term.alternatives?.some(canMatchEmpty),
+    );
+
+// The atoms a sequence can start with
+const firstAtoms = (sequence: RegexTerm[]): string[] => {
+    const atoms: string[] = [];
+
+    for (const term of sequence) {
+        atoms.push(
+            ...(term.atom
+                ? [term.atom]
+                : term.alternatives.flatMap(firstAtoms)),
+        );
+
+        if (!canMatchEmpty([term])) {
+            break;
+        }
+    }
+
+    return atoms;
+};
+
+const atomsOverlap = (left: string[], right: string[]): boolean =>
+    left.some((leftAtom) =>
+        right.some((rightAtom) => {
+            try {
+                const [leftRegex, rightRegex] = [leftAtom, rightAtom].map(
+                    (atom) => new RegExp(`^(?:${atom})$`, 'is'),
+                );
+
+                return OVERLAP_SAMPLE_CHARS.some(
+                    (char) => leftRegex.test(char) && rightRegex.test(char),
+                );
+            } catch {
+                return true;
+            }
+        }),
+    );
+
+const repeatsInside = (alternatives: RegexTerm[][]): boolean =>
+    alternatives.some((sequence) =>
+        sequence.some(
+            (term) =>
+                term.max > 1 ||
+                (!!term.alternatives && repeatsInside(term.alternatives)),
+        ),
+    );
+
+const alternativesOverlap = (alternatives: RegexTerm[][]): boolean =>
+    alternatives.some((sequence, index) =>
+        alternatives
+            .slice(index + 1)
+            .some((other) =>
+                atomsOverlap(firstAtoms(sequence), firstAtoms(other)),
+            ),
+    );
+
+const findInAlternatives = (
+    alternatives: RegexTerm[][],
+): string | undefined => {
+    for (const sequence of alternatives) {
+        for (const [index, term] of sequence.entries()) {
+            if (term.atom && /^\\([1-9]|k$)/.test(term.atom)) {
+                return 'backreferences are not supported';
+            }
+
+            if (term.alternatives) {
+                if (term.max > 1 && repeatsInside(term.alternatives)) {
+                    return 'nested quantifiers such as (a+)+ can take exponential time';
+                }
+
+                if (term.max > 1 && alternativesOverlap(term.alternatives)) {
+                    return 'repeated alternatives matching the same text, such as (a|aa)+, can take exponential time';
+                }
+
+                const nested = findInAlternatives(term.alternatives);
+                if (nested) {
+                    return nested;
+                }
+            }
+
+            const next = sequence[index + 1];
+            if (
+                term.max === Infinity &&
+                next?.max === Infinity &&
+                atomsOverlap(firstAtoms([term]), firstAtoms([next]))
+            ) {
+                return 'adjacent quantifiers matching the same text, such as \\w*\\w*, can take polynomial time';
+            }
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Finds the constructs that make a backtracking regex super-linear:
+ * backreferences, repeated groups that repeat something themselves, e.g.
+ * `(a+)+`, repeated alternatives that overlap, e.g. `(a|aa)+`, and adjacent
+ * unbounded quantifiers that overlap, e.g. `\w*\w*`. Returns a description
+ * of the first one, or undefined when the pattern has none.
+ */
+export const findSuperLinearRegexConstruct = (
+    pattern: string,
+): string | undefined => findInAlternatives(parseRegex(pattern));
+
+const tokenize = (text: string, firstLine = 1): Token[] => {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+
+    const tokens: Token[] = [];
+    let lineIndex = 0;
+
+    for (const match of text.matchAll(TOKEN_RE)) {
+        while (
+            lineIndex + 1 < lineStarts.length &&
+            lineStarts[lineIndex + 1] <= match.index
+        ) {
+            lineIndex++;
+        }
+
+        tokens.push({
+            text: match[0],
+            line: firstLine + lineIndex,
+            start: match.index,
+            end: match.index + match[0].length,
+        });
+    }
+
+    return tokens;
+};
+
+const parseStructuralPattern = (pattern: string): PatternToken[] =>
+    tokenize(pattern).map(({ text }) => {
+        const multi = text.match(MULTI_METAVARIABLE_RE);
+        if (multi) {
+            return { kind: 'multi', name: multi[1] };
+        }
+
+        const single = text.match(SINGLE_METAVARIABLE_RE);
+        if (single) {
+            return {
+                kind: 'single',
+                name: single[1] === '_' ? undefined : single[1],
+            };
+        }
+
+        return { kind: 'literal', text };
+    });
+
+const isBalanced = (tokens: { text: string }[]): boolean => {
+    const stack: string[] = [];
+
+    for (const { text } of tokens) {
+        if (OPENERS[text]) {
+            stack.push(OPENERS[text]);
+        } else if (CLOSERS.has(text) && stack.pop() !== text) {
+            return false;
+        }
+    }
+
+    return stack.length === 0;
+};
+
+/**
+ * Returns why the matcher of a deterministic rule can't be evaluated, or
+ * undefined when it's valid. LLM rules don't need a matcher.
+ */
+export const validateKodyRuleMatcher = (
+    type: KodyRuleType | undefined,
+    matcher: IKodyRuleMatcher | undefined,
+): string | undefined => {
+    if (!type || type === KodyRuleType.LLM) {
+        return undefined;
+    }
+
+    if (!matcher?.pattern?.trim()) {
+        return `A matcher pattern is required for ${type} rules`;
+    }
+
+    if (type === KodyRuleType.REGEX) {
+        try {
+            new RegExp(matcher.pattern, getRegexFlags(matcher).join(''));
+        } catch (error) {
+            return `Invalid regex pattern: ${error.message}`;
+        }
+
+        const superLinear = findSuperLinearRegexConstruct(matcher.pattern);
+
+        if (superLinear) {
+            return `Unsafe regex pattern: ${superLinear}`;
+        }
+
+        // Lookarounds have no linear-time equivalent
+        try {
+            buildRegex(matcher);
+        } catch (error) {
+            return `Unsupported regex pattern: ${error.message}`;
+        }
+
+        return undefined;
+    }
+
+    const literals = parseStructuralPattern(matcher.pattern).filter(
+        (token) => token.kind === 'literal',
+    );
+
+    if (!literals.length) {
+        return 'Structural pattern must contain at least one literal token';
+    }
+
+    if (!isBalanced(literals)) {
+        return 'Structural pattern has unbalanced brackets';
+    }
+
+    return undefined;
+};
+
+/**
+ * Groups consecutive added lines, so structural patterns can match
+ * statements spanning several lines of the same hunk.
+ */
+const groupConsecutiveLines = (lines: AddedLine[]): AddedLine[][] =>
+    lines.reduce<AddedLine[][]>((blocks, line) => {
+        const current = blocks[blocks.length - 1];
+
+        if (current && current[current.length - 1].line + 1 === line.line) {
+            current.push(line);
+        } else {
+            blocks.push([line]);
+        }
+
+        return blocks;
+    }, []);
+
+/**
+ * Runs on RE2, which matches in time linear in the line length whatever the
+ * pattern. Patterns saved before they had to compile on RE2 are skipped.
+ */
+export const matchRegex = (
+    matcher: IKodyRuleMatcher,
+    addedLines: AddedLine[],
+): DeterministicRuleMatch[] => {
+    let regex: RE2JS;
+
+    try {
+        regex = buildRegex(matcher);
+    } catch {
+        return [];
+    }
+
+    const matches: DeterministicRuleMatch[] = [];
+
+    for (const { line, content } of addedLines) {
+        const text = content.slice(0, MAX_REGEX_LINE_LENGTH);
+
+        for (const match of regex.matchAll(text)) {
+            if (!match[0]) {
+                continue;
+            }
+
+            const captures: Record<string, string> = { ...match.groups };
+            match
+                .slice(1)
+                .forEach((group, index) => (captures[index + 1] = group ?? ''));
+
+            matches.push({
+                lineStart: line,
+                lineEnd: line,
+                text: match[0],
+                captures,
+            });
+        }
+    }
+
+    return matches;
+};
+
+/**
+ * ast-grep-style matching over tokens instead of a syntax tree. `$NAME`
+ * matches one expression (a balanced run of tokens without a top-level `,`
+ * or `;`) and must match the same text everywhere it appears, `$_` does the
+ * same without binding, and `$$$`/`$$$NAME` match any balanced run of tokens,
+ * including none. Whitespace and line breaks are ignored.
+ */
+export const matchStructural = (
+    matcher: IKodyRuleMatcher,
+    addedLines: AddedLine[],
+): DeterministicRuleMatch[] => {
+    const pattern = parseStructuralPattern(matcher.pattern);
+    const matches: DeterministicRuleMatch[] = [];
+
+    for (const block of groupConsecutiveLines(addedLines)) {
+        const source = block.map(({ content }) => content).join('\n');
+        const tokens = tokenize(source, block[0].line);
+        const budget = { steps: 0 };
+
+        // Ends (exclusive) a metavariable starting at `from` can extend to
+        const candidateEnds = (from: number, multi: boolean): number[] => {
+            const ends = multi ? [from] : [];
+            let depth = 0;
+
+            for (let i = from; i < tokens.length; i++) {
+                const { text } = tokens[i];
+
+                if (depth === 0 && !multi && SEPARATORS.has(text)) {
+                    break;
+                }
+
+                if (OPENERS[text]) {
+                    depth++;
+                } else if (CLOSERS.has(text)) {
+                    if (depth === 0) {
+                        break;
+                    }
+                    depth--;
+                }
+
+                if (depth === 0) {
+                    ends.push(i + 1);
+                }
+            }
+
+            return ends;
+        };
+
+        const spanText = (from: number, to: number) =>
+            to > from
+                ? source.slice(tokens[from].start, tokens[to - 1].end)
+                : '';
+
+        const matchFrom = (
+            p: number,
+            t: number,
+            captures: Record<string, string>,
+        ): { end: number; captures: Record<string, string> } | null => {
+            if (++budget.steps > MAX_STRUCTURAL_STEPS) {
+                return null;
+            }
+
+            if (p === pattern.length) {
+                return { end: t, captures };
+            }
+
+            const token = pattern[p];
+
+            if (token.kind === 'literal') {
+                return tokens[t]?.text === token.text
+                    ? matchFrom(p + 1, t + 1, captures)
+                    : null;
+            }
+
+            for (const end of candidateEnds(t, token.kind === 'multi')) {
+                const text = spanText(t, end);
+
+                if (
+                    token.name &&
+                    captures[token.name] !== undefined &&
+                    captures[token.name] !== text
+                ) {
+                    continue;
+                }
+
+                const result = matchFrom(
+                    p + 1,
+                    end,
+                    token.name ? { ...captures, [token.name]: text } : captures,
+                );
+
+                if (result) {
+                    return result;
+                }
+            }
+
+            return null;
+        };
+
+        let t = 0;
+        while (t < tokens.length && budget.steps <= MAX_STRUCTURAL_STEPS) {
+            const result = matchFrom(0, t, {});
+
+            if (!result || result.end === t) {
+                t++;
+                continue;
+            }
+
+            matches.push({
+                lineStart: tokens[t].line,
+                lineEnd: tokens[result.end - 1].line,
+                text: spanText(t, result.end),
+                captures: result.captures,
+            });
+
+            t = result.end;
+        }
+    }
+
+    return matches;
+};
+
+/**
+ * Replaces `{{name}}` placeholders: `title`, `rule`, `file`, `line`,
+ * `match`, plus the regex groups or structural metavariables of the match.
+ * Unknown placeholders are left as they are.
+ */
+export const renderKodyRuleMessage = (
+    template: string,
+    variables: Record<string, string | number>,
+): string =>
+    template.replace(/\{\{\s*\$*([\w]+)\s*\}\}/g, (placeholder, key) =>
+        variables[key] !== undefined ? String(variables[key]) : placeholder,
+    );
+
+/**
+ * Evaluates a regex or structural rule against the lines a file's patch
+ * adds, returning one `kody_rules` suggestion per match.
+ */
+export const evaluateDeterministicKodyRule = (
+    rule: Partial<IKodyRule>,
+    file: { filename: string; patch?: string; language?: string },
+): Partial<CodeSuggestion>[] => {
+    if (!isDeterministicKodyRule(rule) || !rule.matcher?.pattern) {
+        return [];
+    }
+
+    const addedLines = extractAddedLinesFromPatch(file.patch);
+
+    if (!addedLines.length) {
+        return [];
+    }
+
+    const matches =
+        rule.type === KodyRuleType.REGEX
+            ? matchRegex(rule.matcher, addedLines)
+            : matchStructural(rule.matcher, addedLines);
+
+    const contentByLine = new Map(
+        addedLines.map(({ line, content }) => [line, content]),
+    );
+
+    return matches.slice(0, MAX_MATCHES_PER_RULE).map((match) => ({
+        relevantFile: file.filename,
+        language: file.language,
+        suggestionContent: renderKodyRuleMessage(
+            rule.matcher.message || DEFAULT_MESSAGE_TEMPLATE,
+            {
+                ...match.captures,
+                title: rule.title,
+                rule: rule.rule,
+                file: file.filename,
+                line: match.lineStart,
+                match: match.text,
+            },
+        ),
+        existingCode: Array.from(
+            { length: match.lineEnd - match.lineStart + 1 },
+            (_, index) => contentByLine.get(match.lineStart + index),
+        ).join('\n'),
+        improvedCode: '',
+        oneSentenceSummary: rule.title,
+        relevantLinesStart: match.lineStart,
+        relevantLinesEnd: match.lineEnd,
+        label: LabelType.KODY_RULES,
+        severity: rule.severity?.toLowerCase(),
+        brokenKodyRulesIds: [rule.uuid],
+        ...(typeof rule.revision === 'number' && {
+            brokenKodyRulesRevisions: { [rule.uuid]: rule.revision },
+        }),
+    }));
+};
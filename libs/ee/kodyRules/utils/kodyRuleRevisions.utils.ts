@@ -0,0 +1,142 @@
+import { createPatch } from 'diff';
+
+import {
+    IKodyRuleRevisionChange,
+    KodyRuleRevisionOrigin,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+import {
+    IKodyRule,
+    KodyRulesOrigin,
+} from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+
+/**
+ * Fields kept in a revision and put back by a restore. Everything else on
+ * the rule (ids, timestamps, origin, context reference) is bookkeeping.
+ */
+export const KODY_RULE_REVISION_FIELDS = [
+    'title',
+    'rule',
+    'severity',
+    'status',
+    'scope',
+    'type',
+    'matcher',
+    'examples',
+    'path',
+    'repositoryId',
+    'directoryId',
+    'inheritance',
+    'sourcePath',
+    'sourceAnchor',
+] as const satisfies ReadonlyArray<keyof IKodyRule>;
+
+const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+        return value.map(normalize);
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        return Object.keys(value)
+            .filter((key) => value[key] !== undefined)
+            .sort()
+            .reduce(
+                (acc, key) => ({ ...acc, [key]: normalize(value[key]) }),
+                {},
+            );
+    }
+
+    return value ?? undefined;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+    JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+export const toKodyRuleSnapshot = (
+    rule: Partial<IKodyRule>,
+): Partial<IKodyRule> =>
+    KODY_RULE_REVISION_FIELDS.reduce<Partial<IKodyRule>>((snapshot, field) => {
+        const value = rule?.[field];
+
+        if (value !== undefined && value !== null) {
+            (snapshot as Record<string, unknown>)[field] = value;
+        }
+
+        return snapshot;
+    }, {});
+
+export const isSameKodyRuleSnapshot = (
+    a: Partial<IKodyRule>,
+    b: Partial<IKodyRule>,
+): boolean => isSameValue(toKodyRuleSnapshot(a), toKodyRuleSnapshot(b));
+
+/**
+ * Field by field changes from one snapshot to the next, in the order of
+ * KODY_RULE_REVISION_FIELDS. The rule text also gets a unified diff.
+ */
+export const diffKodyRuleSnapshots = (
+    before: Partial<IKodyRule> = {},
+    after: Partial<IKodyRule> = {},
+): IKodyRuleRevisionChange[] =>
+    KODY_RULE_REVISION_FIELDS.filter(
+        (field) => !isSameValue(before?.[field], after?.[field]),
+    ).map((field) => ({
+        field,
+        before: before?.[field],
+        after: after?.[field],
+        ...(field === 'rule' && {
+            patch: createPatch('rule', before?.rule ?? '', after?.rule ?? ''),
+        }),
+    }));
+
+export const getKodyRuleRevisionOrigin = (
+    origin?: KodyRulesOrigin,
+): KodyRuleRevisionOrigin => {
+    switch (origin) {
+        case KodyRulesOrigin.LIBRARY:
+            return KodyRuleRevisionOrigin.LIBRARY;
+        case KodyRulesOrigin.GENERATED:
+            return KodyRuleRevisionOrigin.GENERATED;
+        default:
+            return KodyRuleRevisionOrigin.USER;
+    }
+};
+
+/**
+ * Revision of each broken rule at review time, keyed by rule id. Rules
+ * saved before revisions existed are left out.
+ */
+export const getBrokenKodyRulesRevisions = (
+    brokenKodyRulesIds: string[] = [],
+    kodyRules: Array<Partial<IKodyRule>> = [],
+): Record<string, number> | undefined => {
+    const revisions = brokenKodyRulesIds.reduce<Record<string, number>>(
+        (acc, ruleId) => {
+            const revision = kodyRules.find(
+                (rule) => rule?.uuid === ruleId,
+            )?.revision;
+
+            if (typeof revision === 'number') {
+                acc[ruleId] = revision;
+            }
+
+            return acc;
+        },
+        {},
+    );
+
+    return Object.keys(revisions).length ? revisions : undefined;
+};
+
+/**
+ * Rule update that puts a snapshot back. Fields missing from the snapshot
+ * are set to undefined so they're cleared rather than kept from the
+ * current version.
+ */
+export const fromKodyRuleSnapshot = (
+    ruleId: string,
+    snapshot: Partial<IKodyRule> = {},
+): Partial<IKodyRule> =>
+    KODY_RULE_REVISION_FIELDS.reduce<Partial<IKodyRule>>(
+        (rule, field) => ({ ...rule, [field]: snapshot[field] }),
+        { uuid: ruleId },
+    );
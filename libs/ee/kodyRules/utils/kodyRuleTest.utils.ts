@@ -0,0 +1,197 @@
+import { LabelType } from '@libs/common/utils/codeManagement/labels';
+import { convertToHunksWithLinesNumbers } from '@libs/common/utils/patch';
+import {
+    CodeSuggestion,
+    FileChangeContext,
+} from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import {
+    IKodyRuleTestCaseResult,
+    IKodyRuleTestSample,
+    IKodyRuleTestSummary,
+    KodyRuleTestOutcome,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleTest.interface';
+import { IKodyRulesExample } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+
+export const MAX_TEST_CASES = 20;
+
+export type KodyRuleTestCase = {
+    source: 'example' | 'sample';
+    index: number;
+    code: string;
+    filename: string;
+    language?: string;
+    expectViolation?: boolean;
+};
+
+type KodyRuleTestSuggestion = Partial<
+    Pick<
+        CodeSuggestion,
+        | 'label'
+        | 'brokenKodyRulesIds'
+        | 'suggestionContent'
+        | 'relevantLinesStart'
+        | 'relevantLinesEnd'
+        | 'severity'
+    >
+>;
+
+/**
+ * Examples marked as incorrect are expected to be flagged and the correct
+ * ones to pass. Samples come after the examples, and both keep the index
+ * they were given with, even when blank ones are skipped.
+ */
+export const buildKodyRuleTestCases = (
+    examples: IKodyRulesExample[] = [],
+    samples: IKodyRuleTestSample[] = [],
+    includeExamples = true,
+): KodyRuleTestCase[] => [
+    ...(includeExamples ? examples : [])
+        .map<KodyRuleTestCase>((example, index) => ({
+            source: 'example',
+            index,
+            code: example?.snippet,
+            filename: `kody-rule-test/example-${index + 1}`,
+            expectViolation: !example?.isCorrect,
+        }))
+        .filter((testCase) => testCase.code?.trim()),
+    ...samples
+        .map<KodyRuleTestCase>((sample, index) => ({
+            source: 'sample',
+            index,
+            code: sample?.code,
+            filename:
+                sample?.filename?.trim() ||
+                `kody-rule-test/sample-${index + 1}`,
+            language: sample?.language,
+            expectViolation: sample?.expectViolation,
+        }))
+        .filter((testCase) => testCase.code?.trim()),
+];
+
+/**
+ * Wraps the code of a test case in a patch adding it as a new file, the
+ * shape the review prompts expect.
+ */
+export const toKodyRuleTestFile = (
+    testCase: KodyRuleTestCase,
+): FileChangeContext => {
+    const lines = testCase.code.replace(/\r?\n$/, '').split(/\r?\n/);
+    const patch = [
+        `@@ -0,0 +1,${lines.length} @@`,
+        ...lines.map((line) => `+${line}`),
+    ].join('\n');
+
+    return {
+        file: {
+            content: testCase.code,
+            fileContent: testCase.code,
+            sha: '',
+            filename: testCase.filename,
+            status: 'added',
+            additions: lines.length,
+            deletions: 0,
+            changes: lines.length,
+            blob_url: '',
+            raw_url: '',
+            contents_url: '',
+            patch,
+        },
+        patchWithLinesStr: convertToHunksWithLinesNumbers(patch, {
+            filename: testCase.filename,
+        }),
+    };
+};
+
+export const getKodyRuleTestOutcome = (
+    expectViolation: boolean | undefined,
+    flagged: boolean,
+): KodyRuleTestOutcome => {
+    if (expectViolation === undefined) {
+        return flagged
+            ? KodyRuleTestOutcome.FLAGGED
+            : KodyRuleTestOutcome.NOT_FLAGGED;
+    }
+
+    if (expectViolation) {
+        return flagged
+            ? KodyRuleTestOutcome.TRUE_POSITIVE
+            : KodyRuleTestOutcome.FALSE_NEGATIVE;
+    }
+
+    return flagged
+        ? KodyRuleTestOutcome.FALSE_POSITIVE
+        : KodyRuleTestOutcome.TRUE_NEGATIVE;
+};
+
+/**
+ * Only suggestions pointing at the tested rule count as a flag. Suggestions
+ * without rule ids are attributed to it when labeled as Kody Rules, since it
+ * is the only rule in the run.
+ */
+export const toKodyRuleTestCaseResult = (
+    testCase: KodyRuleTestCase,
+    ruleId: string,
+    suggestions: KodyRuleTestSuggestion[] = [],
+): IKodyRuleTestCaseResult => {
+    const findings = suggestions
+        .filter((suggestion) =>
+            suggestion?.brokenKodyRulesIds?.length
+                ? suggestion.brokenKodyRulesIds.includes(ruleId)
+                : suggestion?.label === LabelType.KODY_RULES,
+        )
+        .map((suggestion) => ({
+            suggestionContent: suggestion.suggestionContent,
+            relevantLinesStart: suggestion.relevantLinesStart,
+            relevantLinesEnd: suggestion.relevantLinesEnd,
+            severity: suggestion.severity,
+        }));
+
+    return {
+        source: testCase.source,
+        index: testCase.index,
+        filename: testCase.filename,
+        expectViolation: testCase.expectViolation,
+        flagged: findings.length > 0,
+        outcome: getKodyRuleTestOutcome(
+            testCase.expectViolation,
+            findings.length > 0,
+        ),
+        findings,
+    };
+};
+
+export const summarizeKodyRuleTest = (
+    results: IKodyRuleTestCaseResult[],
+): IKodyRuleTestSummary => {
+    const count = (outcome: KodyRuleTestOutcome) =>
+        results.filter((result) => result.outcome === outcome).length;
+
+    const truePositives = count(KodyRuleTestOutcome.TRUE_POSITIVE);
+    const falsePositives = count(KodyRuleTestOutcome.FALSE_POSITIVE);
+    const trueNegatives = count(KodyRuleTestOutcome.TRUE_NEGATIVE);
+    const falseNegatives = count(KodyRuleTestOutcome.FALSE_NEGATIVE);
+    const errors = count(KodyRuleTestOutcome.ERROR);
+    const failed = falsePositives + falseNegatives;
+
+    return {
+        total: results.length,
+        truePositives,
+        falsePositives,
+        trueNegatives,
+        falseNegatives,
+        unlabeled:
+            count(KodyRuleTestOutcome.FLAGGED) +
+            count(KodyRuleTestOutcome.NOT_FLAGGED),
+        errors,
+        failed,
+        precision:
+            truePositives + falsePositives > 0
+                ? truePositives / (truePositives + falsePositives)
+                : null,
+        recall:
+            truePositives + falseNegatives > 0
+                ? truePositives / (truePositives + falseNegatives)
+                : null,
+        passed: failed === 0 && errors === 0,
+    };
+};
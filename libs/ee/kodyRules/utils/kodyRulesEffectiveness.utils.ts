@@ -0,0 +1,201 @@
+import { IKodyRule } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import {
+    IKodyRuleEffectiveness,
+    IKodyRuleTokenUsage,
+    KodyRuleEffectivenessFlag,
+} from '@libs/kodyRules/domain/interfaces/kodyRulesEffectiveness.interface';
+import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
+import { ImplementationStatus } from '@libs/platformData/domain/pullRequests/enums/implementationStatus.enum';
+import { PriorityStatus } from '@libs/platformData/domain/pullRequests/enums/priorityStatus.enum';
+import { IKodyRuleSuggestionRecord } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
+
+/** Sent suggestions needed before a rule can be flagged as rejected. */
+export const KODY_RULES_EFFECTIVENESS_MIN_SAMPLE = 5;
+
+const REJECTION_THRESHOLD = 0.5;
+
+export type KodyRuleSuggestionReactions = {
+    thumbsUp: number;
+    thumbsDown: number;
+};
+
+export const emptyKodyRuleTokenUsage = (): IKodyRuleTokenUsage => ({
+    input: 0,
+    output: 0,
+    outputReasoning: 0,
+    total: 0,
+    cost: 0,
+});
+
+const toRate = (count: number, total: number): number | null =>
+    total ? Math.round((count / total) * 10000) / 10000 : null;
+
+const isImplemented = (status?: ImplementationStatus): boolean =>
+    status === ImplementationStatus.IMPLEMENTED ||
+    status === ImplementationStatus.PARTIALLY_IMPLEMENTED;
+
+const isDiscarded = (status?: PriorityStatus): boolean =>
+    !!status?.startsWith('discarded');
+
+export const shareKodyRuleTokenUsage = (
+    tokens: IKodyRuleTokenUsage,
+    share: number,
+): IKodyRuleTokenUsage => ({
+    input: Math.round(tokens.input * share),
+    output: Math.round(tokens.output * share),
+    outputReasoning: Math.round(tokens.outputReasoning * share),
+    total: Math.round(tokens.total * share),
+    cost: tokens.cost === undefined ? undefined : tokens.cost * share,
+});
+
+const getFlags = (
+    rule: Partial<IKodyRule>,
+    metrics: Pick<
+        IKodyRuleEffectiveness,
+        'fired' | 'sent' | 'accepted' | 'rejected'
+    >,
+    startDate: Date,
+): KodyRuleEffectivenessFlag[] => {
+    const flags: KodyRuleEffectivenessFlag[] = [];
+    const { fired, sent, accepted, rejected } = metrics;
+
+    if (!fired) {
+        // Rules created during the window may just not have had a chance yet
+        if (!rule.createdAt || new Date(rule.createdAt) <= startDate) {
+            flags.push(KodyRuleEffectivenessFlag.NEVER_FIRED);
+        }
+
+        return flags;
+    }
+
+    if (fired >= KODY_RULES_EFFECTIVENESS_MIN_SAMPLE && !sent) {
+        flags.push(KodyRuleEffectivenessFlag.ALWAYS_DISCARDED);
+    }
+
+    if (
+        sent >= KODY_RULES_EFFECTIVENESS_MIN_SAMPLE &&
+        (!accepted || rejected / sent >= REJECTION_THRESHOLD)
+    ) {
+        flags.push(KodyRuleEffectivenessFlag.CONSISTENTLY_REJECTED);
+    }
+
+    return flags;
+};
+
+/**
+ * Per-rule metrics for `rules` from the suggestions created in the window.
+ * Every run evaluates the rules that apply together, so `tokens` is split
+ * evenly between `rules` and must cover the same scope.
+ */
+export const buildKodyRulesEffectiveness = (params: {
+    rules: Partial<IKodyRule>[];
+    suggestions: IKodyRuleSuggestionRecord[];
+    reactions: Map<string, KodyRuleSuggestionReactions>;
+    tokens: IKodyRuleTokenUsage;
+    startDate: Date;
+}): IKodyRuleEffectiveness[] => {
+    const { rules, suggestions, reactions, tokens, startDate } = params;
+
+    const suggestionsByRule = new Map<string, IKodyRuleSuggestionRecord[]>();
+    const evaluatedRules = rules.filter((rule) => rule?.uuid);
+    const tokensPerRule = shareKodyRuleTokenUsage(
+        tokens,
+        evaluatedRules.length ? 1 / evaluatedRules.length : 0,
+    );
+
+    for (const suggestion of suggestions) {
+        for (const ruleId of new Set(suggestion.brokenKodyRulesIds ?? [])) {
+            if (!suggestionsByRule.has(ruleId)) {
+                suggestionsByRule.set(ruleId, []);
+            }
+
+            suggestionsByRule.get(ruleId).push(suggestion);
+        }
+    }
+
+    return evaluatedRules
+        .map((rule) => {
+            const fired = suggestionsByRule.get(rule.uuid) ?? [];
+            const sent = fired.filter(
+                (suggestion) =>
+                    suggestion.deliveryStatus === DeliveryStatus.SENT,
+            );
+
+            let implemented = 0;
+            let accepted = 0;
+            let rejected = 0;
+            let positiveReactions = 0;
+            let negativeReactions = 0;
+
+            for (const suggestion of sent) {
+                const { thumbsUp = 0, thumbsDown = 0 } =
+                    reactions.get(suggestion.id) ?? {};
+                const wasImplemented = isImplemented(
+                    suggestion.implementationStatus,
+                );
+
+                positiveReactions += thumbsUp;
+                negativeReactions += thumbsDown;
+
+                if (wasImplemented) {
+                    implemented++;
+                }
+
+                if (wasImplemented || thumbsUp > thumbsDown) {
+                    accepted++;
+                } else if (thumbsDown > thumbsUp) {
+                    rejected++;
+                }
+            }
+
+            const discarded = fired.filter((suggestion) =>
+                isDiscarded(suggestion.priorityStatus),
+            );
+            const bySeverity = discarded.filter(
+                (suggestion) =>
+                    suggestion.priorityStatus ===
+                    PriorityStatus.DISCARDED_BY_SEVERITY,
+            ).length;
+            const bySafeguard = discarded.filter(
+                (suggestion) =>
+                    suggestion.priorityStatus ===
+                    PriorityStatus.DISCARDED_BY_SAFEGUARD,
+            ).length;
+
+            const metrics = {
+                fired: fired.length,
+                sent: sent.length,
+                accepted,
+                rejected,
+            };
+
+            return {
+                ruleId: rule.uuid,
+                title: rule.title,
+                repositoryId: rule.repositoryId,
+                directoryId: rule.directoryId,
+                severity: rule.severity,
+                type: rule.type,
+                ...metrics,
+                implemented,
+                positiveReactions,
+                negativeReactions,
+                discarded: {
+                    total: discarded.length,
+                    bySeverity,
+                    bySafeguard,
+                    other: discarded.length - bySeverity - bySafeguard,
+                },
+                acceptanceRate: toRate(accepted, sent.length),
+                rejectionRate: toRate(rejected, sent.length),
+                discardRate: toRate(discarded.length, fired.length),
+                tokens: { ...tokensPerRule },
+                flags: getFlags(rule, metrics, startDate),
+            };
+        })
+        .sort(
+            (a, b) =>
+                b.fired - a.fired ||
+                (a.title ?? '').localeCompare(b.title ?? ''),
+        );
+};
@@ -0,0 +1,261 @@
+import { CommitFileChange } from '@libs/platform/domain/platformIntegrations/types/codeManagement/commit.type';
+import { IKodyRule } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import {
+    IKodyRulesExportFile,
+    KodyRulesExportFormat,
+} from '@libs/kodyRules/domain/interfaces/kodyRulesExport.interface';
+
+export const KODY_RULES_EXPORT_BRANCH = 'kody/rules-export';
+
+export const KODY_RULES_EXPORT_DIRECTORIES: Record<
+    KodyRulesExportFormat,
+    string
+> = {
+    [KodyRulesExportFormat.CURSOR]: '.cursor/rules/kody',
+    [KodyRulesExportFormat.COPILOT]: '.github/instructions/kody',
+    [KodyRulesExportFormat.KODY]: '.kody/rules',
+};
+
+const FILE_EXTENSIONS: Record<KodyRulesExportFormat, string> = {
+    [KodyRulesExportFormat.CURSOR]: '.mdc',
+    [KodyRulesExportFormat.COPILOT]: '.instructions.md',
+    [KodyRulesExportFormat.KODY]: '.md',
+};
+
+const MAX_SLUG_LENGTH = 60;
+
+const MARKER_PATTERN =
+    /<!--\s*kody-rule-id:\s*([\w-]+)(?:\s*\|\s*severity:\s*(\w+))?\s*-->/;
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const EXAMPLES_HEADING_PATTERN = /^##[ \t]+Examples[ \t]*$/m;
+
+export type KodyRuleExportChange = CommitFileChange & { ruleId?: string };
+
+export type ParsedKodyRuleExportFile = {
+    ruleId: string;
+    severity?: string;
+    title?: string;
+    rule?: string;
+};
+
+const toSlug = (title: string): string =>
+    title
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+/, '')
+        .slice(0, MAX_SLUG_LENGTH)
+        .replace(/-+$/, '');
+
+/** Quotes a value so YAML reads it back as the same single-line string. */
+const toYamlString = (value: string): string =>
+    JSON.stringify(value.replace(/\s*\r?\n\s*/g, ' '));
+
+const toFence = (snippet: string): string => {
+    const longestRun = Math.max(
+        0,
+        ...(snippet.match(/`+/g) ?? []).map((run) => run.length),
+    );
+
+    return '`'.repeat(Math.max(3, longestRun + 1));
+};
+
+/**
+ * The id suffix keeps two rules with the same title apart and lets a
+ * renamed rule be found by the next export.
+ */
+export const getKodyRuleExportPath = (
+    rule: Pick<IKodyRule, 'uuid' | 'title'>,
+    format: KodyRulesExportFormat,
+): string => {
+    const name = [toSlug(rule.title ?? ''), rule.uuid.slice(0, 8)]
+        .filter(Boolean)
+        .join('-');
+
+    return `${KODY_RULES_EXPORT_DIRECTORIES[format]}/${name}${FILE_EXTENSIONS[format]}`;
+};
+
+export const isKodyRuleExportPath = (filePath?: string): boolean =>
+    !!filePath &&
+    Object.values(KODY_RULES_EXPORT_DIRECTORIES).some((directory) =>
+        filePath.startsWith(`${directory}/`),
+    );
+
+/**
+ * Glob the exported file applies to. Rule paths are already relative to
+ * the repository root; directory rules without one cover their directory.
+ */
+export const getKodyRuleExportGlob = (
+    rule: Pick<IKodyRule, 'path'>,
+    directoryPath?: string,
+): string | undefined => {
+    const rulePath = rule.path?.trim();
+
+    if (rulePath) {
+        return rulePath;
+    }
+
+    const directory = directoryPath?.replace(/^\/+|\/+$/g, '');
+
+    return directory ? `${directory}/**` : undefined;
+};
+
+const renderFrontmatter = (
+    rule: Partial<IKodyRule>,
+    format: KodyRulesExportFormat,
+    glob?: string,
+): string => {
+    switch (format) {
+        case KodyRulesExportFormat.CURSOR:
+            return [
+                '---',
+                `description: ${toYamlString(rule.title ?? '')}`,
+                `globs: ${glob ?? ''}`,
+                `alwaysApply: ${!glob}`,
+                '---',
+                '',
+            ].join('\n');
+        case KodyRulesExportFormat.COPILOT:
+            return [
+                '---',
+                `applyTo: ${toYamlString(glob ?? '**')}`,
+                '---',
+                '',
+            ].join('\n');
+        default:
+            return glob
+                ? ['---', `path: ${toYamlString(glob)}`, '---', ''].join('\n')
+                : '';
+    }
+};
+
+const renderBody = (rule: Partial<IKodyRule>): string => {
+    const lines = [
+        `<!-- kody-rule-id: ${rule.uuid} | severity: ${rule.severity?.toLowerCase() ?? 'medium'} -->`,
+        '',
+        `# ${(rule.title ?? '').replace(/\s*\r?\n\s*/g, ' ')}`,
+        '',
+        (rule.rule ?? '').trim(),
+    ];
+
+    const examples = (rule.examples ?? []).filter((example) =>
+        example?.snippet?.trim(),
+    );
+
+    if (examples.length) {
+        lines.push('', '## Examples');
+
+        for (const example of examples) {
+            const snippet = example.snippet.trim();
+            const fence = toFence(snippet);
+
+            lines.push(
+                '',
+                example.isCorrect ? 'Do:' : "Don't:",
+                '',
+                fence,
+                snippet,
+                fence,
+            );
+        }
+    }
+
+    return `${lines.join('\n')}\n`;
+};
+
+export const renderKodyRuleExportFile = (
+    rule: Partial<IKodyRule>,
+    format: KodyRulesExportFormat,
+    directoryPath?: string,
+): IKodyRulesExportFile => ({
+    ruleId: rule.uuid,
+    format,
+    path: getKodyRuleExportPath({ uuid: rule.uuid, title: rule.title }, format),
+    content: `${renderFrontmatter(rule, format, getKodyRuleExportGlob(rule, directoryPath))}${renderBody(rule)}`,
+});
+
+/**
+ * Reads back a file written by {@link renderKodyRuleExportFile}, or returns
+ * null when the file carries no rule id and was written by hand.
+ */
+export const parseKodyRuleExportFile = (
+    content: string,
+): ParsedKodyRuleExportFile | null => {
+    const body = (content ?? '').replace(FRONTMATTER_PATTERN, '');
+    const marker = body.match(MARKER_PATTERN);
+
+    if (!marker) {
+        return null;
+    }
+
+    const rest = body.slice(marker.index + marker[0].length);
+    const heading = rest.match(/^#[ \t]+(.+)$/m);
+    const text = (
+        heading ? rest.slice(heading.index + heading[0].length) : rest
+    )
+        .split(EXAMPLES_HEADING_PATTERN)[0]
+        .trim();
+
+    return {
+        ruleId: marker[1],
+        severity: marker[2]?.toLowerCase(),
+        title: heading?.[1].trim() || undefined,
+        rule: text || undefined,
+    };
+};
+
+/**
+ * Changes that bring `existing`, the files currently in the export
+ * directories, in line with `files`. Only files left by an earlier export
+ * are deleted; hand-written rule files next to them are kept.
+ */
+export const planKodyRulesExport = (
+    files: IKodyRulesExportFile[],
+    existing: { path: string; content: string }[],
+): KodyRuleExportChange[] => {
+    const existingByPath = new Map(
+        existing.map((file) => [file.path, file.content]),
+    );
+    const paths = new Set(files.map((file) => file.path));
+    const changes: KodyRuleExportChange[] = [];
+
+    for (const file of files) {
+        if (!existingByPath.has(file.path)) {
+            changes.push({
+                path: file.path,
+                content: file.content,
+                action: 'create',
+                ruleId: file.ruleId,
+            });
+        } else if (existingByPath.get(file.path) !== file.content) {
+            changes.push({
+                path: file.path,
+                content: file.content,
+                action: 'update',
+                ruleId: file.ruleId,
+            });
+        }
+    }
+
+    for (const file of existing) {
+        if (paths.has(file.path)) {
+            continue;
+        }
+
+        const parsed = parseKodyRuleExportFile(file.content);
+
+        if (parsed) {
+            changes.push({
+                path: file.path,
+                content: '',
+                action: 'delete',
+                ruleId: parsed.ruleId,
+            });
+        }
+    }
+
+    return changes;
+};
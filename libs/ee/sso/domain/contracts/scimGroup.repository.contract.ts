@@ -0,0 +1,15 @@
+import { IScimGroup } from '../interfaces/scim.interface';
+
+export const SCIM_GROUP_REPOSITORY_TOKEN = Symbol.for('ScimGroupRepository');
+
+export interface IScimGroupRepository {
+    create(group: Omit<IScimGroup, 'uuid'>): Promise<IScimGroup>;
+    update(
+        uuid: string,
+        group: Partial<Omit<IScimGroup, 'uuid' | 'ssoConfig'>>,
+    ): Promise<IScimGroup | null>;
+    delete(uuid: string): Promise<void>;
+    find(filter: Partial<IScimGroup>): Promise<IScimGroup[]>;
+    findOne(filter: Partial<IScimGroup>): Promise<IScimGroup | null>;
+    findByMember(ssoConfigId: string, userId: string): Promise<IScimGroup[]>;
+}
@@ -0,0 +1,13 @@
+import { IScimToken } from '../interfaces/scim.interface';
+
+export const SCIM_TOKEN_REPOSITORY_TOKEN = Symbol.for('ScimTokenRepository');
+
+export interface IScimTokenRepository {
+    create(token: Omit<IScimToken, 'uuid'>): Promise<IScimToken>;
+    update(
+        uuid: string,
+        token: Partial<Omit<IScimToken, 'uuid'>>,
+    ): Promise<void>;
+    find(filter: Partial<IScimToken>): Promise<IScimToken[]>;
+    findOne(filter: Partial<IScimToken>): Promise<IScimToken | null>;
+}
@@ -1,6 +1,7 @@
 import { Entity } from '@libs/core/domain/interfaces/entity';
 import { IOrganization } from '@libs/organization/domain/organization/interfaces/organization.interface';
 
+import { SCIMConfig } from '../interfaces/scim.interface';
 import {
     SSOConfig,
     SSOProtocol,
@@ -16,6 +17,7 @@ export class SSOConfigEntity<P extends SSOProtocol> implements Entity<
     private _active: boolean;
     private _providerConfig: SSOProtocolConfigMap[P];
     private _domains: string[];
+    private _scimConfig?: SCIMConfig | null;
     private _createdAt: Date;
     private _updatedAt: Date;
 
@@ -26,6 +28,7 @@ export class SSOConfigEntity<P extends SSOProtocol> implements Entity<
         this._active = sso.active;
         this._providerConfig = sso.providerConfig;
         this._domains = sso.domains;
+        this._scimConfig = sso.scimConfig;
         this._createdAt = sso.createdAt;
         this._updatedAt = sso.updatedAt;
     }
@@ -44,6 +47,7 @@ export class SSOConfigEntity<P extends SSOProtocol> implements Entity<
             active: this.active,
             providerConfig: this.providerConfig,
             domains: this.domains,
+            scimConfig: this.scimConfig,
             createdAt: this.createdAt,
             updatedAt: this.updatedAt,
         };
@@ -77,6 +81,10 @@ export class SSOConfigEntity<P extends SSOProtocol> implements Entity<
         return this._domains;
     }
 
+    public get scimConfig() {
+        return this._scimConfig;
+    }
+
     public get createdAt() {
         return this._createdAt;
     }
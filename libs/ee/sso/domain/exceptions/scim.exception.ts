@@ -0,0 +1,26 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+import { SCIM_SCHEMAS } from '../interfaces/scim.interface';
+
+export type ScimErrorType =
+    | 'invalidFilter'
+    | 'invalidSyntax'
+    | 'invalidPath'
+    | 'invalidValue'
+    | 'uniqueness'
+    | 'mutability'
+    | 'noTarget';
+
+export class ScimException extends HttpException {
+    constructor(status: HttpStatus, detail: string, scimType?: ScimErrorType) {
+        super(
+            {
+                schemas: [SCIM_SCHEMAS.ERROR],
+                status: String(status),
+                ...(scimType ? { scimType } : {}),
+                detail,
+            },
+            status,
+        );
+    }
+}
@@ -0,0 +1,34 @@
+export interface OidcDiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint?: string;
+    jwks_uri: string;
+    code_challenge_methods_supported?: string[];
+    token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcJwks {
+    keys: Array<
+        Record<string, any> & { kty: string; kid?: string; use?: string }
+    >;
+}
+
+/**
+ * Pending authorization request, kept server side between the redirect to
+ * the IdP and the callback.
+ */
+export interface OidcAuthorizationState {
+    organizationId: string;
+    codeVerifier: string;
+    nonce: string;
+    redirectUri: string;
+}
+
+export interface OidcProfile {
+    sub: string;
+    email?: string;
+    firstName: string;
+    lastName: string;
+    name?: string;
+}
@@ -0,0 +1,114 @@
+import { Role } from '@libs/identity/domain/permissions/enums/permissions.enum';
+
+export const SCIM_SCHEMAS = {
+    USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+    GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+    LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+    PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+    ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+    SERVICE_PROVIDER_CONFIG:
+        'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+    RESOURCE_TYPE: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+} as const;
+
+/**
+ * Maps an IdP group to Kodus access. Groups are matched by `displayName`
+ * or `externalId`, case-insensitively.
+ */
+export interface SCIMGroupMapping {
+    group: string;
+    role?: Role;
+    repositoryIds?: string[];
+    customRoleIds?: string[];
+}
+
+export interface SCIMConfig {
+    enabled: boolean;
+    defaultRole?: Role;
+    groupMappings?: SCIMGroupMapping[];
+}
+
+export interface IScimToken {
+    uuid: string;
+    name: string;
+    tokenHash: string;
+    tokenPrefix: string;
+    active: boolean;
+    lastUsedAt?: Date;
+    ssoConfig: { uuid: string; organization?: { uuid: string } };
+    createdAt?: Date;
+}
+
+export interface IScimGroup {
+    uuid: string;
+    displayName: string;
+    externalId?: string;
+    members: string[];
+    ssoConfig: { uuid: string };
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface ScimContext {
+    organizationId: string;
+    ssoConfigId: string;
+    scimConfig: SCIMConfig;
+    baseUrl: string;
+}
+
+export interface ScimMeta {
+    resourceType: 'User' | 'Group';
+    created?: string;
+    lastModified?: string;
+    location: string;
+}
+
+export interface ScimUserResource {
+    schemas: string[];
+    id?: string;
+    externalId?: string;
+    userName: string;
+    name?: {
+        formatted?: string;
+        givenName?: string;
+        familyName?: string;
+    };
+    displayName?: string;
+    active?: boolean;
+    emails?: Array<{ value: string; primary?: boolean; type?: string }>;
+    groups?: Array<{ value: string; display?: string }>;
+    meta?: ScimMeta;
+}
+
+export interface ScimGroupResource {
+    schemas: string[];
+    id?: string;
+    externalId?: string;
+    displayName: string;
+    members?: Array<{ value: string; display?: string }>;
+    meta?: ScimMeta;
+}
+
+export interface ScimListResponse<T> {
+    schemas: string[];
+    totalResults: number;
+    startIndex: number;
+    itemsPerPage: number;
+    Resources: T[];
+}
+
+export interface ScimPatchOperation {
+    op: string;
+    path?: string;
+    value?: any;
+}
+
+export interface ScimPatchRequest {
+    schemas: string[];
+    Operations: ScimPatchOperation[];
+}
+
+export interface ScimFilterClause {
+    attribute: string;
+    value: string;
+}
@@ -1,5 +1,7 @@
 import { IOrganization } from '@libs/organization/domain/organization/interfaces/organization.interface';
 
+import { SCIMConfig } from './scim.interface';
+
 export enum SSOProtocol {
     SAML = 'saml',
     OIDC = 'oidc',
@@ -12,6 +14,7 @@ export interface SSOConfig<P extends SSOProtocol> {
     active: boolean;
     domains: string[];
     providerConfig: SSOProtocolConfigMap[P];
+    scimConfig?: SCIMConfig | null;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -33,10 +36,13 @@ export interface OIDCConfig {
     issuerUrl: string;
     clientId: string;
     clientSecret: string;
-    callbackUrl: string;
-    authorizationUrl: string;
-    tokenUrl: string;
-    userInfoUrl: string;
+    // Defaults to `${API_URL}/auth/sso/oidc/callback/:organizationId`
+    callbackUrl?: string;
+    // Endpoints are read from the issuer discovery document when omitted
+    authorizationUrl?: string;
+    tokenUrl?: string;
+    userInfoUrl?: string;
     scope?: string;
+    // Kodus attribute (email, firstName, lastName, name) -> claim name
     attributeMap?: Record<string, string>;
 }
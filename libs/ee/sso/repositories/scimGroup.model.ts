@@ -0,0 +1,21 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+
+import { CoreModel } from '@libs/core/infrastructure/repositories/model/typeOrm';
+import { SSOConfigModel } from './ssoConfig.model';
+
+@Entity('scim_group')
+@Index('IDX_scim_group_ssoConfig', ['ssoConfig'])
+export class ScimGroupModel extends CoreModel {
+    @Column()
+    displayName: string;
+
+    @Column({ nullable: true })
+    externalId?: string;
+
+    @Column({ type: 'text', array: true, default: [] })
+    members: string[];
+
+    @ManyToOne(() => SSOConfigModel, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'sso_config_id', referencedColumnName: 'uuid' })
+    ssoConfig: SSOConfigModel;
+}
@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ArrayContains, FindOptionsWhere, Repository } from 'typeorm';
+
+import { IScimGroupRepository } from '../domain/contracts/scimGroup.repository.contract';
+import { IScimGroup } from '../domain/interfaces/scim.interface';
+import { ScimGroupModel } from './scimGroup.model';
+
+@Injectable()
+export class ScimGroupRepository implements IScimGroupRepository {
+    constructor(
+        @InjectRepository(ScimGroupModel)
+        private readonly scimGroupRepository: Repository<ScimGroupModel>,
+    ) {}
+
+    async create(group: Omit<IScimGroup, 'uuid'>): Promise<IScimGroup> {
+        const model = this.scimGroupRepository.create(group);
+
+        return this.scimGroupRepository.save(model);
+    }
+
+    async update(
+        uuid: string,
+        group: Partial<Omit<IScimGroup, 'uuid' | 'ssoConfig'>>,
+    ): Promise<IScimGroup | null> {
+        await this.scimGroupRepository.update({ uuid }, group);
+
+        return this.findOne({ uuid });
+    }
+
+    async delete(uuid: string): Promise<void> {
+        await this.scimGroupRepository.delete({ uuid });
+    }
+
+    async find(filter: Partial<IScimGroup>): Promise<IScimGroup[]> {
+        return this.scimGroupRepository.find({
+            where: this.getFilterConditions(filter),
+            relations: ['ssoConfig'],
+            order: { displayName: 'ASC' },
+        });
+    }
+
+    async findOne(filter: Partial<IScimGroup>): Promise<IScimGroup | null> {
+        const group = await this.scimGroupRepository.findOne({
+            where: this.getFilterConditions(filter),
+            relations: ['ssoConfig'],
+        });
+
+        return group || null;
+    }
+
+    async findByMember(
+        ssoConfigId: string,
+        userId: string,
+    ): Promise<IScimGroup[]> {
+        return this.scimGroupRepository.find({
+            where: {
+                ssoConfig: { uuid: ssoConfigId },
+                members: ArrayContains([userId]),
+            },
+        });
+    }
+
+    private getFilterConditions(
+        filter: Partial<IScimGroup>,
+    ): FindOptionsWhere<ScimGroupModel> {
+        const { ssoConfig, members, ...rest } = filter;
+
+        return {
+            ...rest,
+            ...(ssoConfig?.uuid ? { ssoConfig: { uuid: ssoConfig.uuid } } : {}),
+            ...(members?.length ? { members: ArrayContains(members) } : {}),
+        };
+    }
+}
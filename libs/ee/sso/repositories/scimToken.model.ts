@@ -0,0 +1,27 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+
+import { CoreModel } from '@libs/core/infrastructure/repositories/model/typeOrm';
+import { SSOConfigModel } from './ssoConfig.model';
+
+@Entity('scim_token')
+@Index('IDX_scim_token_tokenPrefix', ['tokenPrefix'])
+export class ScimTokenModel extends CoreModel {
+    @Column()
+    name: string;
+
+    @Column({ unique: true })
+    tokenHash: string;
+
+    @Column({ length: 16 })
+    tokenPrefix: string;
+
+    @Column({ default: true })
+    active: boolean;
+
+    @Column({ nullable: true })
+    lastUsedAt?: Date;
+
+    @ManyToOne(() => SSOConfigModel, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'sso_config_id', referencedColumnName: 'uuid' })
+    ssoConfig: SSOConfigModel;
+}
@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
+
+import { IScimTokenRepository } from '../domain/contracts/scimToken.repository.contract';
+import { IScimToken } from '../domain/interfaces/scim.interface';
+import { ScimTokenModel } from './scimToken.model';
+
+@Injectable()
+export class ScimTokenRepository implements IScimTokenRepository {
+    constructor(
+        @InjectRepository(ScimTokenModel)
+        private readonly scimTokenRepository: Repository<ScimTokenModel>,
+    ) {}
+
+    async create(token: Omit<IScimToken, 'uuid'>): Promise<IScimToken> {
+        const model = this.scimTokenRepository.create(token);
+
+        return this.scimTokenRepository.save(model);
+    }
+
+    async update(
+        uuid: string,
+        token: Partial<Omit<IScimToken, 'uuid'>>,
+    ): Promise<void> {
+        const { ssoConfig: _ssoConfig, ...rest } = token;
+
+        await this.scimTokenRepository.update({ uuid }, rest);
+    }
+
+    async find(filter: Partial<IScimToken>): Promise<IScimToken[]> {
+        return this.scimTokenRepository.find({
+            where: this.getFilterConditions(filter),
+            relations: ['ssoConfig', 'ssoConfig.organization'],
+            order: { createdAt: 'DESC' },
+        });
+    }
+
+    async findOne(filter: Partial<IScimToken>): Promise<IScimToken | null> {
+        const token = await this.scimTokenRepository.findOne({
+            where: this.getFilterConditions(filter),
+            relations: ['ssoConfig', 'ssoConfig.organization'],
+        });
+
+        return token || null;
+    }
+
+    private getFilterConditions(
+        filter: Partial<IScimToken>,
+    ): FindOptionsWhere<ScimTokenModel> {
+        const { ssoConfig, ...rest } = filter;
+
+        return {
+            ...rest,
+            ...(ssoConfig?.uuid ? { ssoConfig: { uuid: ssoConfig.uuid } } : {}),
+        };
+    }
+}
@@ -1,6 +1,7 @@
 import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
 
 import { CoreModel } from '@libs/core/infrastructure/repositories/model/typeOrm';
+import { SCIMConfig } from '@libs/ee/sso/domain/interfaces/scim.interface';
 import {
     SSOProtocol,
     SSOProtocolConfigMap,
@@ -34,4 +35,7 @@ export class SSOConfigModel extends CoreModel {
 
     @Column({ name: 'provider_config', type: 'jsonb' })
     providerConfig: SSOProtocolConfigMap[SSOProtocol];
+
+    @Column({ name: 'scim_config', type: 'jsonb', nullable: true })
+    scimConfig?: SCIMConfig | null;
 }
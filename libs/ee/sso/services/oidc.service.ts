@@ -0,0 +1,393 @@
+import * as crypto from 'crypto';
+
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+    UnauthorizedException,
+} from '@nestjs/common';
+import axios from 'axios';
+
+import { createLogger } from '@kodus/flow';
+import { CacheService } from '@libs/core/cache/cache.service';
+
+import {
+    ISSOConfigService,
+    SSO_CONFIG_SERVICE_TOKEN,
+} from '../domain/contracts/ssoConfig.service.contract';
+import {
+    OidcAuthorizationState,
+    OidcDiscoveryDocument,
+    OidcJwks,
+    OidcProfile,
+} from '../domain/interfaces/oidc.interface';
+import {
+    OIDCConfig,
+    SSOProtocol,
+} from '../domain/interfaces/ssoConfig.interface';
+import {
+    createPkcePair,
+    decodeJwt,
+    isEmailDomainAllowed,
+    mapOidcClaims,
+    normalizeIssuer,
+    verifyIdToken,
+} from '../utils/oidc.utils';
+
+const STATE_CACHE_PREFIX = 'sso:oidc:state:';
+const STATE_TTL_MS = 10 * 60 * 1000;
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10000;
+
+/**
+ * OpenID Connect authorization code flow with PKCE. Provider endpoints come
+ * from the issuer discovery document, explicit URLs in the SSO config take
+ * precedence so providers without discovery can still be used.
+ */
+@Injectable()
+export class OidcService {
+    private readonly logger = createLogger(OidcService.name);
+
+    private readonly metadataCache = new Map<
+        string,
+        { value: unknown; expiresAt: number }
+    >();
+
+    constructor(
+        @Inject(SSO_CONFIG_SERVICE_TOKEN)
+        private readonly ssoConfigService: ISSOConfigService,
+        private readonly cacheService: CacheService,
+    ) {}
+
+    async getAuthorizationUrl(organizationId: string): Promise<string> {
+        const config = await this.getProviderConfig(organizationId);
+        const discovery = await this.discover(config.issuerUrl);
+
+        const authorizationEndpoint =
+            config.authorizationUrl || discovery.authorization_endpoint;
+
+        if (
+            discovery.code_challenge_methods_supported &&
+            !discovery.code_challenge_methods_supported.includes('S256')
+        ) {
+            throw new BadRequestException(
+                'OIDC provider does not support PKCE with S256',
+            );
+        }
+
+        const { codeVerifier, codeChallenge } = createPkcePair();
+        const state = crypto.randomBytes(32).toString('base64url');
+        const nonce = crypto.randomBytes(32).toString('base64url');
+        const redirectUri = this.getRedirectUri(organizationId, config);
+
+        await this.cacheService.addToCache<OidcAuthorizationState>(
+            `${STATE_CACHE_PREFIX}${state}`,
+            { organizationId, codeVerifier, nonce, redirectUri },
+            STATE_TTL_MS,
+        );
+
+        const url = new URL(authorizationEndpoint);
+        url.searchParams.set('response_type', 'code');
+        url.searchParams.set('client_id', config.clientId);
+        url.searchParams.set('redirect_uri', redirectUri);
+        url.searchParams.set('scope', config.scope || 'openid email profile');
+        url.searchParams.set('state', state);
+        url.searchParams.set('nonce', nonce);
+        url.searchParams.set('code_challenge', codeChallenge);
+        url.searchParams.set('code_challenge_method', 'S256');
+
+        return url.toString();
+    }
+
+    /**
+     * Exchanges the authorization code, validates the ID token and returns
+     * the mapped user profile. The state is single use.
+     */
+    async handleCallback(params: {
+        organizationId: string;
+        code?: string;
+        state?: string;
+        error?: string;
+        errorDescription?: string;
+    }): Promise<OidcProfile & { organizationId: string }> {
+        const { organizationId, code, state } = params;
+
+        if (params.error) {
+            throw new UnauthorizedException(
+                `OIDC provider returned an error: ${params.errorDescription || params.error}`,
+            );
+        }
+
+        if (!code || !state) {
+            throw new BadRequestException('Missing code or state');
+        }
+
+        const stateKey = `${STATE_CACHE_PREFIX}${state}`;
+        const pending =
+            await this.cacheService.getFromCache<OidcAuthorizationState>(
+                stateKey,
+            );
+        await this.cacheService.removeFromCache(stateKey);
+
+        if (!pending || pending.organizationId !== organizationId) {
+            throw new UnauthorizedException('Invalid or expired OIDC state');
+        }
+
+        const ssoConfig = await this.getSSOConfig(organizationId);
+        const config = ssoConfig.providerConfig;
+        const discovery = await this.discover(config.issuerUrl);
+
+        const tokens = await this.exchangeCode(
+            config,
+            discovery,
+            code,
+            pending,
+        );
+
+        const claims = await this.validateIdToken(
+            tokens.id_token,
+            config,
+            discovery,
+            pending.nonce,
+        );
+
+        // The claims the profile is read from, verification included
+        let profileClaims = claims;
+        let profile = mapOidcClaims(profileClaims, config.attributeMap);
+
+        if (!profile.email && tokens.access_token) {
+            const userInfo = await this.fetchUserInfo(
+                config,
+                discovery,
+                tokens.access_token,
+            );
+
+            if (userInfo?.sub !== claims.sub) {
+                throw new UnauthorizedException(
+                    'UserInfo subject does not match ID token',
+                );
+            }
+
+            profileClaims = { ...userInfo, ...claims };
+            profile = mapOidcClaims(profileClaims, config.attributeMap);
+        }
+
+        if (
+            !profile.email ||
+            !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(profile.email)
+        ) {
+            throw new UnauthorizedException('Invalid email in OIDC claims');
+        }
+
+        if (profileClaims.email_verified === false) {
+            throw new UnauthorizedException('OIDC email is not verified');
+        }
+
+        if (!isEmailDomainAllowed(profile.email, ssoConfig.domains)) {
+            this.logger.warn({
+                message: 'OIDC login rejected, email domain not allowed',
+                context: OidcService.name,
+                metadata: { organizationId, email: profile.email },
+            });
+
+            throw new UnauthorizedException(
+                'Email domain is not allowed for this organization',
+            );
+        }
+
+        return { ...profile, organizationId };
+    }
+
+    private async getSSOConfig(organizationId: string) {
+        const ssoConfig = await this.ssoConfigService.findOne({
+            protocol: SSOProtocol.OIDC,
+            organization: { uuid: organizationId },
+        });
+
+        if (!ssoConfig || !ssoConfig.active) {
+            throw new NotFoundException('SSO config not found');
+        }
+
+        return ssoConfig;
+    }
+
+    private async getProviderConfig(
+        organizationId: string,
+    ): Promise<OIDCConfig> {
+        const ssoConfig = await this.getSSOConfig(organizationId);
+
+        return ssoConfig.providerConfig;
+    }
+
+    private getRedirectUri(organizationId: string, config: OIDCConfig) {
+        return (
+            config.callbackUrl ||
+            `${process.env.API_URL}/auth/sso/oidc/callback/${organizationId}`
+        );
+    }
+
+    private async discover(issuerUrl: string): Promise<OidcDiscoveryDocument> {
+        const issuer = normalizeIssuer(issuerUrl);
+
+        const discovery = await this.getCachedMetadata<OidcDiscoveryDocument>(
+            `discovery:${issuer}`,
+            `${issuer}/.well-known/openid-configuration`,
+        );
+
+        if (normalizeIssuer(discovery?.issuer) !== issuer) {
+            throw new UnauthorizedException(
+                'OIDC discovery issuer does not match the configured issuer',
+            );
+        }
+
+        return discovery;
+    }
+
+    private async exchangeCode(
+        config: OIDCConfig,
+        discovery: OidcDiscoveryDocument,
+        code: string,
+        pending: OidcAuthorizationState,
+    ): Promise<{ id_token: string; access_token?: string }> {
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: pending.redirectUri,
+            code_verifier: pending.codeVerifier,
+            client_id: config.clientId,
+        });
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json',
+        };
+
+        // client_secret_basic is the spec default, fall back to post only
+        // when the provider explicitly does not support basic
+        const authMethods = discovery.token_endpoint_auth_methods_supported;
+        if (!authMethods || authMethods.includes('client_secret_basic')) {
+            const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+            headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        } else {
+            body.set('client_secret', config.clientSecret);
+        }
+
+        try {
+            const { data } = await axios.post(
+                config.tokenUrl || discovery.token_endpoint,
+                body.toString(),
+                { headers, timeout: HTTP_TIMEOUT_MS },
+            );
+
+            if (!data?.id_token) {
+                throw new UnauthorizedException(
+                    'OIDC token response has no ID token',
+                );
+            }
+
+            return data;
+        } catch (error) {
+            if (error instanceof UnauthorizedException) {
+                throw error;
+            }
+
+            this.logger.error({
+                message: 'Error exchanging OIDC authorization code',
+                error,
+                context: OidcService.name,
+                metadata: {
+                    organizationId: pending.organizationId,
+                    response: error?.response?.data,
+                },
+            });
+
+            throw new UnauthorizedException(
+                'Failed to exchange OIDC authorization code',
+            );
+        }
+    }
+
+    private async validateIdToken(
+        idToken: string,
+        config: OIDCConfig,
+        discovery: OidcDiscoveryDocument,
+        nonce: string,
+    ): Promise<Record<string, any>> {
+        const verify = (jwks: OidcJwks) =>
+            verifyIdToken(idToken, {
+                jwks,
+                issuer: discovery.issuer,
+                clientId: config.clientId,
+                nonce,
+            });
+
+        const jwksKey = `jwks:${discovery.jwks_uri}`;
+        const jwks = await this.getCachedMetadata<OidcJwks>(
+            jwksKey,
+            discovery.jwks_uri,
+        );
+
+        const { kid } = decodeJwt(idToken).header;
+        if (!kid || jwks.keys?.some((key) => key.kid === kid)) {
+            return verify(jwks);
+        }
+
+        // Unknown key id, the provider probably rotated its keys
+        this.metadataCache.delete(jwksKey);
+        return verify(
+            await this.getCachedMetadata<OidcJwks>(jwksKey, discovery.jwks_uri),
+        );
+    }
+
+    private async fetchUserInfo(
+        config: OIDCConfig,
+        discovery: OidcDiscoveryDocument,
+        accessToken: string,
+    ): Promise<Record<string, any> | null> {
+        const userInfoUrl = config.userInfoUrl || discovery.userinfo_endpoint;
+
+        if (!userInfoUrl) {
+            return null;
+        }
+
+        const { data } = await axios.get(userInfoUrl, {
+            headers: { Authorization: `Bearer ${accessToken}` },
+            timeout: HTTP_TIMEOUT_MS,
+        });
+
+        return data;
+    }
+
+    private async getCachedMetadata<T>(key: string, url: string): Promise<T> {
+        const cached = this.metadataCache.get(key);
+
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.value as T;
+        }
+
+        try {
+            const { data } = await axios.get<T>(url, {
+                timeout: HTTP_TIMEOUT_MS,
+            });
+
+            this.metadataCache.set(key, {
+                value: data,
+                expiresAt: Date.now() + METADATA_TTL_MS,
+            });
+
+            return data;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error fetching OIDC provider metadata',
+                error,
+                context: OidcService.name,
+                metadata: { url },
+            });
+
+            throw new UnauthorizedException(
+                'Unable to reach the OIDC provider',
+            );
+        }
+    }
+}
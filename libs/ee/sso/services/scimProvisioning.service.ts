@@ -0,0 +1,819 @@
+import { randomBytes } from 'crypto';
+
+import { HttpStatus, Inject, Injectable } from '@nestjs/common';
+
+import { createLogger } from '@kodus/flow';
+import { IntegrationConfigKey } from '@libs/core/domain/enums/Integration-config-key.enum';
+import { STATUS } from '@libs/core/infrastructure/config/types/database/status.type';
+import { SignUpUseCase } from '@libs/identity/application/use-cases/auth/signup.use-case';
+import {
+    CUSTOM_ROLE_SERVICE_TOKEN,
+    ICustomRoleService,
+} from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
+import {
+    IPermissionsService,
+    PERMISSIONS_SERVICE_TOKEN,
+} from '@libs/identity/domain/permissions/contracts/permissions.service.contract';
+import { Role } from '@libs/identity/domain/permissions/enums/permissions.enum';
+import {
+    IUsersService,
+    USER_SERVICE_TOKEN,
+} from '@libs/identity/domain/user/contracts/user.service.contract';
+import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
+import {
+    IIntegrationConfigService,
+    INTEGRATION_CONFIG_SERVICE_TOKEN,
+} from '@libs/integrations/domain/integrationConfigs/contracts/integration-config.service.contracts';
+import {
+    ITeamMemberService,
+    TEAM_MEMBERS_SERVICE_TOKEN,
+} from '@libs/organization/domain/teamMembers/contracts/teamMembers.service.contracts';
+import { Repositories } from '@libs/platform/domain/platformIntegrations/types/codeManagement/repositories.type';
+
+import {
+    IScimGroupRepository,
+    SCIM_GROUP_REPOSITORY_TOKEN,
+} from '../domain/contracts/scimGroup.repository.contract';
+import { ScimException } from '../domain/exceptions/scim.exception';
+import {
+    IScimGroup,
+    SCIM_SCHEMAS,
+    SCIMConfig,
+    ScimContext,
+    ScimGroupResource,
+    ScimListResponse,
+    ScimPatchRequest,
+    ScimUserResource,
+} from '../domain/interfaces/scim.interface';
+import {
+    applyGroupPatch,
+    applyUserPatch,
+    paginate,
+    parseScimFilter,
+    resolveGroupAccess,
+} from '../utils/scim.utils';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type UserChanges = {
+    email?: string;
+    active?: boolean;
+    name?: string;
+};
+
+@Injectable()
+export class ScimProvisioningService {
+    private readonly logger = createLogger(ScimProvisioningService.name);
+
+    constructor(
+        @Inject(USER_SERVICE_TOKEN)
+        private readonly usersService: IUsersService,
+        @Inject(PERMISSIONS_SERVICE_TOKEN)
+        private readonly permissionsService: IPermissionsService,
+        @Inject(TEAM_MEMBERS_SERVICE_TOKEN)
+        private readonly teamMembersService: ITeamMemberService,
+        @Inject(CUSTOM_ROLE_SERVICE_TOKEN)
+        private readonly customRoleService: ICustomRoleService,
+        @Inject(INTEGRATION_CONFIG_SERVICE_TOKEN)
+        private readonly integrationConfigService: IIntegrationConfigService,
+        @Inject(SCIM_GROUP_REPOSITORY_TOKEN)
+        private readonly scimGroupRepository: IScimGroupRepository,
+        private readonly signUpUseCase: SignUpUseCase,
+    ) {}
+
+    //#region Users
+    async listUsers(
+        ctx: ScimContext,
+        query: { filter?: string; startIndex?: number; count?: number },
+    ): Promise<ScimListResponse<ScimUserResource>> {
+        const clauses = parseScimFilter(query.filter);
+
+        const users = await this.usersService.find(
+            { organization: { uuid: ctx.organizationId } },
+            [STATUS.ACTIVE, STATUS.INACTIVE, STATUS.PENDING],
+        );
+
+        const filtered = users.filter((user) =>
+            clauses.every(({ attribute, value }) => {
+                switch (attribute) {
+                    case 'username':
+                    case 'emails.value':
+                        return (
+                            user.email?.toLowerCase() === value.toLowerCase()
+                        );
+                    case 'id':
+                        return user.uuid === value;
+                    case 'externalid':
+                        // externalId is not persisted, IdPs fall back to userName
+                        return false;
+                    default:
+                        throw new ScimException(
+                            HttpStatus.BAD_REQUEST,
+                            `Unsupported filter attribute: ${attribute}`,
+                            'invalidFilter',
+                        );
+                }
+            }),
+        );
+
+        const { page, startIndex } = paginate(
+            filtered,
+            query.startIndex,
+            query.count,
+        );
+
+        return this.toListResponse(
+            page.map((user) => this.toScimUser(ctx, user)),
+            filtered.length,
+            startIndex,
+        );
+    }
+
+    async getUser(ctx: ScimContext, id: string): Promise<ScimUserResource> {
+        const user = await this.findOrganizationUser(ctx, id);
+
+        const groups = await this.scimGroupRepository.findByMember(
+            ctx.ssoConfigId,
+            user.uuid,
+        );
+
+        return this.toScimUser(ctx, user, groups);
+    }
+
+    async createUser(
+        ctx: ScimContext,
+        resource: ScimUserResource,
+    ): Promise<ScimUserResource> {
+        const email = this.getEmail(resource);
+        const name = this.getDisplayName(resource) || email;
+        const active = resource.active ?? true;
+
+        const existing = await this.usersService.findOne({ email });
+
+        if (existing) {
+            const sameOrganization =
+                existing.organization?.uuid === ctx.organizationId;
+
+            // users deleted through SCIM come back when the IdP re-assigns them
+            if (!sameOrganization || existing.status !== STATUS.REMOVED) {
+                throw new ScimException(
+                    HttpStatus.CONFLICT,
+                    `User ${email} already exists`,
+                    'uniqueness',
+                );
+            }
+
+            await this.updateUser(ctx, existing, { active, name });
+            await this.syncUserAccess(ctx, [existing.uuid]);
+
+            return this.getUser(ctx, existing.uuid);
+        }
+
+        const created = await this.signUpUseCase.execute({
+            email,
+            name,
+            password: randomBytes(32).toString('base64').slice(0, 32),
+            organizationId: ctx.organizationId,
+        });
+
+        await this.usersService.update(
+            { uuid: created.uuid },
+            {
+                status: active ? STATUS.ACTIVE : STATUS.INACTIVE,
+                role: this.getDefaultRole(ctx),
+            },
+        );
+
+        this.logger.log({
+            message: 'User provisioned through SCIM',
+            context: ScimProvisioningService.name,
+            metadata: {
+                organizationId: ctx.organizationId,
+                userId: created.uuid,
+            },
+        });
+
+        return this.getUser(ctx, created.uuid);
+    }
+
+    async replaceUser(
+        ctx: ScimContext,
+        id: string,
+        resource: ScimUserResource,
+    ): Promise<ScimUserResource> {
+        const user = await this.findOrganizationUser(ctx, id);
+
+        await this.updateUser(ctx, user, {
+            email: this.getEmail(resource),
+            active: resource.active ?? true,
+            name: this.getDisplayName(resource),
+        });
+
+        return this.getUser(ctx, id);
+    }
+
+    async patchUser(
+        ctx: ScimContext,
+        id: string,
+        patch: ScimPatchRequest,
+    ): Promise<ScimUserResource> {
+        const user = await this.findOrganizationUser(ctx, id);
+        const changes = applyUserPatch(patch?.Operations);
+
+        const composedName = [changes.givenName, changes.familyName]
+            .filter(Boolean)
+            .join(' ');
+
+        await this.updateUser(ctx, user, {
+            email:
+                changes.email !== undefined
+                    ? this.normalizeEmail(changes.email)
+                    : undefined,
+            active: changes.active,
+            name: changes.displayName || composedName || undefined,
+        });
+
+        return this.getUser(ctx, id);
+    }
+
+    async deleteUser(ctx: ScimContext, id: string): Promise<void> {
+        const user = await this.findOrganizationUser(ctx, id);
+
+        await this.assertNotLastOwner(ctx, user);
+
+        await this.usersService.delete(user.uuid);
+
+        const groups = await this.scimGroupRepository.findByMember(
+            ctx.ssoConfigId,
+            user.uuid,
+        );
+        for (const group of groups) {
+            await this.scimGroupRepository.update(group.uuid, {
+                members: group.members.filter((m) => m !== user.uuid),
+            });
+        }
+
+        this.logger.log({
+            message: 'User deprovisioned through SCIM',
+            context: ScimProvisioningService.name,
+            metadata: { organizationId: ctx.organizationId, userId: id },
+        });
+    }
+    //#endregion
+
+    //#region Groups
+    async listGroups(
+        ctx: ScimContext,
+        query: { filter?: string; startIndex?: number; count?: number },
+    ): Promise<ScimListResponse<ScimGroupResource>> {
+        const clauses = parseScimFilter(query.filter);
+
+        const groups = await this.scimGroupRepository.find({
+            ssoConfig: { uuid: ctx.ssoConfigId },
+        });
+
+        const filtered = groups.filter((group) =>
+            clauses.every(({ attribute, value }) => {
+                switch (attribute) {
+                    case 'displayname':
+                        return (
+                            group.displayName?.toLowerCase() ===
+                            value.toLowerCase()
+                        );
+                    case 'externalid':
+                        return group.externalId === value;
+                    case 'id':
+                        return group.uuid === value;
+                    case 'members.value':
+                        return group.members?.includes(value);
+                    default:
+                        throw new ScimException(
+                            HttpStatus.BAD_REQUEST,
+                            `Unsupported filter attribute: ${attribute}`,
+                            'invalidFilter',
+                        );
+                }
+            }),
+        );
+
+        const { page, startIndex } = paginate(
+            filtered,
+            query.startIndex,
+            query.count,
+        );
+
+        return this.toListResponse(
+            page.map((group) => this.toScimGroup(ctx, group)),
+            filtered.length,
+            startIndex,
+        );
+    }
+
+    async getGroup(ctx: ScimContext, id: string): Promise<ScimGroupResource> {
+        const group = await this.findGroup(ctx, id);
+
+        return this.toScimGroup(ctx, group);
+    }
+
+    async createGroup(
+        ctx: ScimContext,
+        resource: ScimGroupResource,
+    ): Promise<ScimGroupResource> {
+        if (!resource?.displayName) {
+            throw new ScimException(
+                HttpStatus.BAD_REQUEST,
+                'displayName is required',
+                'invalidValue',
+            );
+        }
+
+        const existing = await this.scimGroupRepository.findOne({
+            displayName: resource.displayName,
+            ssoConfig: { uuid: ctx.ssoConfigId },
+        });
+        if (existing) {
+            throw new ScimException(
+                HttpStatus.CONFLICT,
+                `Group ${resource.displayName} already exists`,
+                'uniqueness',
+            );
+        }
+
+        const members = await this.filterOrganizationMembers(
+            ctx,
+            (resource.members || []).map((member) => member.value),
+        );
+
+        const group = await this.scimGroupRepository.create({
+            displayName: resource.displayName,
+            externalId: resource.externalId,
+            members,
+            ssoConfig: { uuid: ctx.ssoConfigId },
+        });
+
+        await this.syncUserAccess(ctx, members);
+
+        return this.toScimGroup(ctx, group);
+    }
+
+    async replaceGroup(
+        ctx: ScimContext,
+        id: string,
+        resource: ScimGroupResource,
+    ): Promise<ScimGroupResource> {
+        const group = await this.findGroup(ctx, id);
+
+        const members = await this.filterOrganizationMembers(
+            ctx,
+            (resource.members || []).map((member) => member.value),
+        );
+
+        const updated = await this.scimGroupRepository.update(group.uuid, {
+            displayName: resource.displayName || group.displayName,
+            externalId: resource.externalId ?? group.externalId,
+            members,
+        });
+
+        await this.syncUserAccess(ctx, [...group.members, ...members]);
+
+        return this.toScimGroup(ctx, updated);
+    }
+
+    async patchGroup(
+        ctx: ScimContext,
+        id: string,
+        patch: ScimPatchRequest,
+    ): Promise<ScimGroupResource> {
+        const group = await this.findGroup(ctx, id);
+
+        const { displayName, members } = applyGroupPatch(
+            group,
+            patch?.Operations,
+        );
+        const validMembers = await this.filterOrganizationMembers(ctx, members);
+
+        const updated = await this.scimGroupRepository.update(group.uuid, {
+            displayName,
+            members: validMembers,
+        });
+
+        await this.syncUserAccess(ctx, [...group.members, ...validMembers]);
+
+        return this.toScimGroup(ctx, updated);
+    }
+
+    async deleteGroup(ctx: ScimContext, id: string): Promise<void> {
+        const group = await this.findGroup(ctx, id);
+
+        await this.scimGroupRepository.delete(group.uuid);
+
+        await this.syncUserAccess(ctx, group.members);
+    }
+    //#endregion
+
+    /**
+     * Recomputes role, assigned repositories and custom roles of the given
+     * users from the IdP groups they belong to. No-op when the organization
+     * has no group mappings. Owners are never downgraded automatically.
+     */
+    private async syncUserAccess(
+        ctx: ScimContext,
+        userIds: string[],
+    ): Promise<void> {
+        if (!ctx.scimConfig?.groupMappings?.length) {
+            return;
+        }
+
+        const scimConfig = await this.getOrganizationGroupMappings(ctx);
+
+        for (const userId of [...new Set(userIds)]) {
+            try {
+                const user = await this.usersService.findOne({
+                    uuid: userId,
+                    organization: { uuid: ctx.organizationId },
+                });
+                if (!user || user.status === STATUS.REMOVED) {
+                    continue;
+                }
+
+                const groups = await this.scimGroupRepository.findByMember(
+                    ctx.ssoConfigId,
+                    userId,
+                );
+                const access = resolveGroupAccess(groups, scimConfig);
+                if (!access) {
+                    continue;
+                }
+
+                const keepOwner =
+                    user.role === Role.OWNER && access.role !== Role.OWNER;
+
+                if (access.role && access.role !== user.role && !keepOwner) {
+                    await this.usersService.update(
+                        { uuid: userId },
+                        { role: access.role },
+                    );
+                }
+
+                if (access.repositoryIds || access.customRoleIds) {
+                    await this.updatePermissions(userId, access);
+                }
+            } catch (error) {
+                this.logger.error({
+                    message: 'Error syncing SCIM group access for user',
+                    error,
+                    context: ScimProvisioningService.name,
+                    metadata: { organizationId: ctx.organizationId, userId },
+                });
+            }
+        }
+    }
+
+    /**
+     * Role of newly provisioned users. The SCIM config is edited by hand, so
+     * an unknown role falls back to the least privileged one.
+     */
+    private getDefaultRole(ctx: ScimContext): Role {
+        const defaultRole = ctx.scimConfig?.defaultRole;
+
+        if (Object.values(Role).includes(defaultRole)) {
+            return defaultRole;
+        }
+
+        if (defaultRole) {
+            this.logger.warn({
+                message: `Ignoring unknown SCIM default role ${defaultRole}`,
+                context: ScimProvisioningService.name,
+                metadata: { organizationId: ctx.organizationId },
+            });
+        }
+
+        return Role.CONTRIBUTOR;
+    }
+
+    /**
+     * Drops mapping targets that do not belong to the organization: custom
+     * roles of other organizations, repositories not configured in any of
+     * its teams and unknown roles. Mappings are edited by hand, so a typo or
+     * a copied id must never grant access outside the organization.
+     */
+    private async getOrganizationGroupMappings(
+        ctx: ScimContext,
+    ): Promise<SCIMConfig> {
+        const mappings = ctx.scimConfig.groupMappings;
+        const roles = Object.values(Role);
+
+        const customRoles = await this.customRoleService.findByIds(
+            [...new Set(mappings.flatMap((m) => m.customRoleIds || []))],
+            ctx.organizationId,
+        );
+        const customRoleIds = new Set(customRoles.map((role) => role.uuid));
+
+        const repositoryConfigs = await this.integrationConfigService.find({
+            configKey: IntegrationConfigKey.REPOSITORIES,
+            integration: {
+                organization: { uuid: ctx.organizationId },
+                status: true,
+            },
+        });
+        const repositoryIds = new Set(
+            repositoryConfigs.flatMap((config) =>
+                ((config.configValue as Repositories[]) || []).map(
+                    (repository) => repository.id,
+                ),
+            ),
+        );
+
+        const ignoredGroups: string[] = [];
+        const groupMappings = mappings.map((mapping) => {
+            const valid = {
+                ...mapping,
+                role: roles.includes(mapping.role) ? mapping.role : undefined,
+                repositoryIds: mapping.repositoryIds?.filter((id) =>
+                    repositoryIds.has(id),
+                ),
+                customRoleIds: mapping.customRoleIds?.filter((id) =>
+                    customRoleIds.has(id),
+                ),
+            };
+
+            if (
+                valid.role !== mapping.role ||
+                valid.repositoryIds?.length !== mapping.repositoryIds?.length ||
+                valid.customRoleIds?.length !== mapping.customRoleIds?.length
+            ) {
+                ignoredGroups.push(mapping.group);
+            }
+
+            return valid;
+        });
+
+        if (ignoredGroups.length) {
+            this.logger.warn({
+                message:
+                    'Ignoring SCIM group mapping targets outside the organization',
+                context: ScimProvisioningService.name,
+                metadata: {
+                    organizationId: ctx.organizationId,
+                    groups: ignoredGroups,
+                },
+            });
+        }
+
+        return {
+            ...ctx.scimConfig,
+            defaultRole: roles.includes(ctx.scimConfig.defaultRole)
+                ? ctx.scimConfig.defaultRole
+                : undefined,
+            groupMappings,
+        };
+    }
+
+    private async updatePermissions(
+        userId: string,
+        access: { repositoryIds?: string[]; customRoleIds?: string[] },
+    ): Promise<void> {
+        const permissions = await this.permissionsService.findOne({
+            user: { uuid: userId },
+        });
+
+        const next = {
+            assignedRepositoryIds:
+                access.repositoryIds ??
+                permissions?.permissions?.assignedRepositoryIds ??
+                [],
+            customRoleIds:
+                access.customRoleIds ?? permissions?.permissions?.customRoleIds,
+        };
+
+        if (!permissions) {
+            await this.permissionsService.create({
+                user: { uuid: userId },
+                permissions: next,
+            });
+            return;
+        }
+
+        await this.permissionsService.update(permissions.uuid, {
+            permissions: { ...permissions.permissions, ...next },
+        });
+    }
+
+    private async updateUser(
+        ctx: ScimContext,
+        user: IUser,
+        changes: UserChanges,
+    ): Promise<void> {
+        const data: Partial<IUser> = {};
+
+        if (changes.active !== undefined) {
+            if (!changes.active) {
+                await this.assertNotLastOwner(ctx, user);
+            }
+            data.status = changes.active ? STATUS.ACTIVE : STATUS.INACTIVE;
+        }
+
+        if (changes.email && changes.email !== user.email) {
+            const taken = await this.usersService.findOne({
+                email: changes.email,
+            });
+            if (taken) {
+                throw new ScimException(
+                    HttpStatus.CONFLICT,
+                    `User ${changes.email} already exists`,
+                    'uniqueness',
+                );
+            }
+            data.email = changes.email;
+        }
+
+        if (Object.keys(data).length) {
+            await this.usersService.update({ uuid: user.uuid }, data);
+        }
+
+        if (changes.name) {
+            for (const teamMember of user.teamMember || []) {
+                if (teamMember?.uuid && teamMember.name !== changes.name) {
+                    await this.teamMembersService.update(
+                        { uuid: teamMember.uuid },
+                        { name: changes.name },
+                    );
+                }
+            }
+        }
+    }
+
+    private async assertNotLastOwner(
+        ctx: ScimContext,
+        user: IUser,
+    ): Promise<void> {
+        if (user.role !== Role.OWNER) {
+            return;
+        }
+
+        const owners = await this.usersService.count({
+            role: Role.OWNER,
+            status: STATUS.ACTIVE,
+            organization: { uuid: ctx.organizationId },
+        });
+
+        if (owners <= 1) {
+            throw new ScimException(
+                HttpStatus.BAD_REQUEST,
+                'Cannot deactivate the last owner of the organization',
+                'mutability',
+            );
+        }
+    }
+
+    private async findOrganizationUser(
+        ctx: ScimContext,
+        id: string,
+    ): Promise<IUser> {
+        const user = await this.usersService.findOne({
+            uuid: id,
+            organization: { uuid: ctx.organizationId },
+        });
+
+        if (!user || user.status === STATUS.REMOVED) {
+            throw new ScimException(
+                HttpStatus.NOT_FOUND,
+                `User ${id} not found`,
+            );
+        }
+
+        return user;
+    }
+
+    private async findGroup(ctx: ScimContext, id: string): Promise<IScimGroup> {
+        const group = await this.scimGroupRepository.findOne({
+            uuid: id,
+            ssoConfig: { uuid: ctx.ssoConfigId },
+        });
+
+        if (!group) {
+            throw new ScimException(
+                HttpStatus.NOT_FOUND,
+                `Group ${id} not found`,
+            );
+        }
+
+        return group;
+    }
+
+    private async filterOrganizationMembers(
+        ctx: ScimContext,
+        userIds: string[],
+    ): Promise<string[]> {
+        const ids = [...new Set(userIds.filter(Boolean))];
+        if (!ids.length) {
+            return [];
+        }
+
+        const users = await this.usersService.find(
+            { organization: { uuid: ctx.organizationId } },
+            [STATUS.ACTIVE, STATUS.INACTIVE, STATUS.PENDING],
+        );
+        const known = new Set(users.map((user) => user.uuid));
+
+        return ids.filter((id) => known.has(id));
+    }
+
+    private getEmail(resource: ScimUserResource): string {
+        return this.normalizeEmail(
+            resource?.userName ||
+                resource?.emails?.find((e) => e.primary)?.value ||
+                resource?.emails?.[0]?.value,
+        );
+    }
+
+    private normalizeEmail(value: unknown): string {
+        const email = (typeof value === 'string' ? value : '')
+            .trim()
+            .toLowerCase();
+
+        if (!EMAIL_REGEX.test(email)) {
+            throw new ScimException(
+                HttpStatus.BAD_REQUEST,
+                'userName must be a valid email address',
+                'invalidValue',
+            );
+        }
+
+        return email;
+    }
+
+    private getDisplayName(resource: ScimUserResource): string | undefined {
+        return (
+            resource?.displayName ||
+            resource?.name?.formatted ||
+            [resource?.name?.givenName, resource?.name?.familyName]
+                .filter(Boolean)
+                .join(' ') ||
+            undefined
+        );
+    }
+
+    private toScimUser(
+        ctx: ScimContext,
+        user: IUser,
+        groups?: IScimGroup[],
+    ): ScimUserResource {
+        const displayName = user.teamMember?.[0]?.name || user.email;
+
+        return {
+            schemas: [SCIM_SCHEMAS.USER],
+            id: user.uuid,
+            userName: user.email,
+            displayName,
+            name: { formatted: displayName },
+            active: user.status === STATUS.ACTIVE,
+            emails: [{ value: user.email, primary: true, type: 'work' }],
+            ...(groups
+                ? {
+                      groups: groups.map((group) => ({
+                          value: group.uuid,
+                          display: group.displayName,
+                      })),
+                  }
+                : {}),
+            meta: {
+                resourceType: 'User',
+                location: `${ctx.baseUrl}/Users/${user.uuid}`,
+            },
+        };
+    }
+
+    private toScimGroup(
+        ctx: ScimContext,
+        group: IScimGroup,
+    ): ScimGroupResource {
+        return {
+            schemas: [SCIM_SCHEMAS.GROUP],
+            id: group.uuid,
+            externalId: group.externalId,
+            displayName: group.displayName,
+            members: (group.members || []).map((value) => ({ value })),
+            meta: {
+                resourceType: 'Group',
+                created: group.createdAt?.toISOString?.(),
+                lastModified: group.updatedAt?.toISOString?.(),
+                location: `${ctx.baseUrl}/Groups/${group.uuid}`,
+            },
+        };
+    }
+
+    private toListResponse<T>(
+        resources: T[],
+        totalResults: number,
+        startIndex: number,
+    ): ScimListResponse<T> {
+        return {
+            schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+            totalResults,
+            startIndex,
+            itemsPerPage: resources.length,
+            Resources: resources,
+        };
+    }
+}
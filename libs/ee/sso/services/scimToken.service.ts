@@ -0,0 +1,164 @@
+import { Inject, Injectable } from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+
+import { createLogger } from '@kodus/flow';
+
+import {
+    IScimTokenRepository,
+    SCIM_TOKEN_REPOSITORY_TOKEN,
+} from '../domain/contracts/scimToken.repository.contract';
+import {
+    ISSOConfigService,
+    SSO_CONFIG_SERVICE_TOKEN,
+} from '../domain/contracts/ssoConfig.service.contract';
+import { IScimToken, ScimContext } from '../domain/interfaces/scim.interface';
+
+const TOKEN_PREFIX = 'kodus_scim_';
+
+@Injectable()
+export class ScimTokenService {
+    private readonly logger = createLogger(ScimTokenService.name);
+
+    constructor(
+        @Inject(SCIM_TOKEN_REPOSITORY_TOKEN)
+        private readonly scimTokenRepository: IScimTokenRepository,
+        @Inject(SSO_CONFIG_SERVICE_TOKEN)
+        private readonly ssoConfigService: ISSOConfigService,
+    ) {}
+
+    /**
+     * Generates a bearer token for the IdP. The raw value is only returned
+     * here, we keep a bcrypt hash plus a short SHA-256 prefix for lookup.
+     */
+    async generateToken(params: {
+        organizationId: string;
+        ssoConfigId: string;
+        name: string;
+    }): Promise<{ uuid: string; token: string } | null> {
+        const ssoConfig = await this.ssoConfigService.findOne({
+            uuid: params.ssoConfigId,
+            organization: { uuid: params.organizationId },
+        });
+
+        if (!ssoConfig) {
+            return null;
+        }
+
+        const rawToken = crypto.randomBytes(32).toString('base64url');
+
+        const created = await this.scimTokenRepository.create({
+            name: params.name,
+            tokenHash: await bcrypt.hash(rawToken, 10),
+            tokenPrefix: this.getTokenPrefix(rawToken),
+            active: true,
+            ssoConfig: { uuid: ssoConfig.uuid },
+        });
+
+        return { uuid: created.uuid, token: `${TOKEN_PREFIX}${rawToken}` };
+    }
+
+    async validateToken(
+        authorization?: string,
+    ): Promise<Omit<ScimContext, 'baseUrl'> | null> {
+        try {
+            const [scheme, value] = (authorization || '').split(' ');
+
+            if (scheme?.toLowerCase() !== 'bearer' || !value) {
+                return null;
+            }
+
+            const rawToken = value.startsWith(TOKEN_PREFIX)
+                ? value.slice(TOKEN_PREFIX.length)
+                : value;
+
+            const tokenRecord = await this.scimTokenRepository.findOne({
+                tokenPrefix: this.getTokenPrefix(rawToken),
+                active: true,
+            });
+
+            if (!tokenRecord) {
+                return null;
+            }
+
+            const match = await bcrypt.compare(rawToken, tokenRecord.tokenHash);
+            if (!match) {
+                return null;
+            }
+
+            const ssoConfig = await this.ssoConfigService.findOne({
+                uuid: tokenRecord.ssoConfig?.uuid,
+            });
+
+            if (!ssoConfig?.active || !ssoConfig.scimConfig?.enabled) {
+                return null;
+            }
+
+            this.scimTokenRepository
+                .update(tokenRecord.uuid, { lastUsedAt: new Date() })
+                .catch((error) => {
+                    this.logger.error({
+                        message: 'Error updating lastUsedAt for SCIM token',
+                        error,
+                        context: ScimTokenService.name,
+                        metadata: { tokenId: tokenRecord.uuid },
+                    });
+                });
+
+            return {
+                organizationId: ssoConfig.organization?.uuid,
+                ssoConfigId: ssoConfig.uuid,
+                scimConfig: ssoConfig.scimConfig,
+            };
+        } catch (error) {
+            this.logger.error({
+                message: 'Error validating SCIM token',
+                error,
+                context: ScimTokenService.name,
+            });
+
+            return null;
+        }
+    }
+
+    async listTokens(
+        organizationId: string,
+    ): Promise<Omit<IScimToken, 'tokenHash'>[]> {
+        const ssoConfigs = await this.ssoConfigService.find({
+            organization: { uuid: organizationId },
+        });
+
+        const tokens = await Promise.all(
+            ssoConfigs.map((ssoConfig) =>
+                this.scimTokenRepository.find({
+                    ssoConfig: { uuid: ssoConfig.uuid },
+                }),
+            ),
+        );
+
+        return tokens.flat().map(({ tokenHash: _tokenHash, ...token }) => ({
+            ...token,
+            ssoConfig: { uuid: token.ssoConfig?.uuid },
+        }));
+    }
+
+    async revokeToken(organizationId: string, uuid: string): Promise<boolean> {
+        const token = await this.scimTokenRepository.findOne({ uuid });
+
+        if (token?.ssoConfig?.organization?.uuid !== organizationId) {
+            return false;
+        }
+
+        await this.scimTokenRepository.update(uuid, { active: false });
+
+        return true;
+    }
+
+    private getTokenPrefix(rawToken: string): string {
+        return crypto
+            .createHash('sha256')
+            .update(rawToken)
+            .digest('hex')
+            .substring(0, 16);
+    }
+}
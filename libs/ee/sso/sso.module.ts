@@ -1,16 +1,40 @@
+import { GlobalCacheModule } from '@libs/core/cache/cache.module';
 import { AuthModule } from '@libs/identity/modules/auth.module';
-import { Module } from '@nestjs/common';
+import { PermissionsModule } from '@libs/identity/modules/permissions.module';
+import { UserModule } from '@libs/identity/modules/user.module';
+import { TeamMembersModule } from '@libs/organization/modules/teamMembers.module';
+import { forwardRef, Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { SCIM_GROUP_REPOSITORY_TOKEN } from './domain/contracts/scimGroup.repository.contract';
+import { SCIM_TOKEN_REPOSITORY_TOKEN } from './domain/contracts/scimToken.repository.contract';
 import { SSO_CONFIG_REPOSITORY_TOKEN } from './domain/contracts/ssoConfig.repository.contract';
 import { SSO_CONFIG_SERVICE_TOKEN } from './domain/contracts/ssoConfig.service.contract';
+import { ScimGroupModel } from './repositories/scimGroup.model';
+import { ScimGroupRepository } from './repositories/scimGroup.repository';
+import { ScimTokenModel } from './repositories/scimToken.model';
+import { ScimTokenRepository } from './repositories/scimToken.repository';
 import { SSOConfigModel } from './repositories/ssoConfig.model';
 import { SSOConfigRepository } from './repositories/ssoConfig.repository';
+import { OidcService } from './services/oidc.service';
+import { ScimProvisioningService } from './services/scimProvisioning.service';
+import { ScimTokenService } from './services/scimToken.service';
 import { SSOConfigService } from './services/ssoConfig.service';
 import { SamlStrategy } from './strategies/saml-auth.strategy';
 import { UseCases } from './use-cases';
 
 @Module({
-    imports: [TypeOrmModule.forFeature([SSOConfigModel]), AuthModule],
+    imports: [
+        TypeOrmModule.forFeature([
+            SSOConfigModel,
+            ScimTokenModel,
+            ScimGroupModel,
+        ]),
+        AuthModule,
+        forwardRef(() => UserModule),
+        forwardRef(() => PermissionsModule),
+        TeamMembersModule,
+        forwardRef(() => GlobalCacheModule),
+    ],
     providers: [
         SamlStrategy,
         ...UseCases,
@@ -22,7 +46,24 @@ import { UseCases } from './use-cases';
             provide: SSO_CONFIG_SERVICE_TOKEN,
             useClass: SSOConfigService,
         },
+        {
+            provide: SCIM_TOKEN_REPOSITORY_TOKEN,
+            useClass: ScimTokenRepository,
+        },
+        {
+            provide: SCIM_GROUP_REPOSITORY_TOKEN,
+            useClass: ScimGroupRepository,
+        },
+        ScimTokenService,
+        ScimProvisioningService,
+        OidcService,
+    ],
+    exports: [
+        ...UseCases,
+        SSO_CONFIG_SERVICE_TOKEN,
+        ScimTokenService,
+        ScimProvisioningService,
+        OidcService,
     ],
-    exports: [...UseCases, SSO_CONFIG_SERVICE_TOKEN],
 })
 export class SSOModule {}
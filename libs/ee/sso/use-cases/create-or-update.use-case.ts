@@ -5,10 +5,12 @@ import {
     ISSOConfigService,
     SSO_CONFIG_SERVICE_TOKEN,
 } from '../domain/contracts/ssoConfig.service.contract';
+import { SCIMConfig } from '../domain/interfaces/scim.interface';
 import {
     SSOProtocol,
     SSOProtocolConfigMap,
 } from '../domain/interfaces/ssoConfig.interface';
+import { normalizeSSODomains } from '../utils/oidc.utils';
 
 @Injectable()
 export class CreateOrUpdateSSOConfigUseCase {
@@ -26,6 +28,7 @@ export class CreateOrUpdateSSOConfigUseCase {
         providerConfig?: SSOProtocolConfigMap[SSOProtocol];
         active?: boolean;
         domains?: string[];
+        scimConfig?: SCIMConfig;
     }) {
         const {
             organizationId,
@@ -33,8 +36,9 @@ export class CreateOrUpdateSSOConfigUseCase {
             protocol,
             providerConfig,
             active,
-            domains,
+            scimConfig,
         } = params;
+        const domains = params.domains && normalizeSSODomains(params.domains);
 
         if (uuid) {
             const ssoConfig = await this.ssoConfigService.findOne({
@@ -53,11 +57,17 @@ export class CreateOrUpdateSSOConfigUseCase {
                 throw new Error('SSOConfig not found');
             }
 
+            this.assertDomains(
+                active ?? ssoConfig.active,
+                domains ?? ssoConfig.domains,
+            );
+
             const updated = await this.ssoConfigService.update(ssoConfig.uuid, {
                 protocol,
                 providerConfig,
                 active,
                 domains,
+                scimConfig,
             });
 
             this.logger.log({
@@ -78,6 +88,8 @@ export class CreateOrUpdateSSOConfigUseCase {
             throw new Error('Missing required fields');
         }
 
+        this.assertDomains(active ?? true, domains);
+
         const created = await this.ssoConfigService.create({
             protocol,
             providerConfig,
@@ -86,6 +98,7 @@ export class CreateOrUpdateSSOConfigUseCase {
                 uuid: organizationId,
             },
             domains,
+            scimConfig,
         });
 
         this.logger.log({
@@ -96,4 +109,12 @@ export class CreateOrUpdateSSOConfigUseCase {
 
         return created.toJson();
     }
+
+    // Logins are only accepted for these domains, an active config without
+    // any would lock everyone out
+    private assertDomains(active: boolean, domains: string[]) {
+        if (active && !normalizeSSODomains(domains).length) {
+            throw new Error('At least one domain is required to enable SSO');
+        }
+    }
 }
@@ -1,7 +1,6 @@
 import { Inject, Injectable } from '@nestjs/common';
 
 import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
-import { SSOProtocol } from '@libs/ee/sso/domain/interfaces/ssoConfig.interface';
 import {
     ISSOConfigService,
     SSO_CONFIG_SERVICE_TOKEN,
@@ -15,21 +14,26 @@ export class SSOCheckUseCase implements IUseCase {
     ) {}
 
     async execute(domain: string) {
-        const ssoConfig = await this.ssoConfigService.findOne({
-            protocol: SSOProtocol.SAML,
+        const ssoConfigs = await this.ssoConfigService.find({
             domains: [domain],
         });
 
+        // an organization may keep both protocols configured, prefer the active one
+        const ssoConfig =
+            ssoConfigs.find((config) => config.active) ?? ssoConfigs[0];
+
         if (!ssoConfig) {
             return {
                 active: false,
                 organizationId: null,
+                protocol: null,
             };
         }
 
         return {
             active: ssoConfig.active,
             organizationId: ssoConfig.toJson().organization.uuid,
+            protocol: ssoConfig.protocol,
         };
     }
 }
@@ -0,0 +1,234 @@
+import * as crypto from 'crypto';
+
+import { UnauthorizedException } from '@nestjs/common';
+
+import { OidcJwks, OidcProfile } from '../domain/interfaces/oidc.interface';
+
+// Tolerated drift between our clock and the IdP's when checking exp/nbf/iat
+const CLOCK_SKEW_SECONDS = 60;
+
+const DEFAULT_ATTRIBUTE_MAP: Record<keyof Omit<OidcProfile, 'sub'>, string> = {
+    email: 'email',
+    firstName: 'given_name',
+    lastName: 'family_name',
+    name: 'name',
+};
+
+const SIGNATURE_ALGORITHMS: Record<
+    string,
+    {
+        hash: string;
+        kty: string;
+        dsaEncoding?: 'ieee-p1363';
+        padding?: number;
+    }
+> = {
+    RS256: { hash: 'sha256', kty: 'RSA' },
+    RS384: { hash: 'sha384', kty: 'RSA' },
+    RS512: { hash: 'sha512', kty: 'RSA' },
+    PS256: {
+        hash: 'sha256',
+        kty: 'RSA',
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+    },
+    ES256: { hash: 'sha256', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+    ES384: { hash: 'sha384', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+};
+
+export const createPkcePair = (): {
+    codeVerifier: string;
+    codeChallenge: string;
+} => {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto
+        .createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url');
+
+    return { codeVerifier, codeChallenge };
+};
+
+export const decodeJwt = (
+    token: string,
+): { header: Record<string, any>; payload: Record<string, any> } => {
+    const [header, payload, signature] = (token || '').split('.');
+
+    if (!header || !payload || !signature) {
+        throw new UnauthorizedException('Malformed ID token');
+    }
+
+    try {
+        return {
+            header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+            payload: JSON.parse(Buffer.from(payload, 'base64url').toString()),
+        };
+    } catch {
+        throw new UnauthorizedException('Malformed ID token');
+    }
+};
+
+/**
+ * Validates an OIDC ID token (OpenID Connect Core §3.1.3.7): signature
+ * against the IdP JWKS, issuer, audience, authorized party, expiry and nonce.
+ * Returns the token claims.
+ */
+export const verifyIdToken = (
+    idToken: string,
+    params: {
+        jwks: OidcJwks;
+        issuer: string;
+        clientId: string;
+        nonce: string;
+        now?: number;
+    },
+): Record<string, any> => {
+    const { header, payload } = decodeJwt(idToken);
+
+    const algorithm = SIGNATURE_ALGORITHMS[header.alg];
+    if (!algorithm) {
+        throw new UnauthorizedException(
+            `Unsupported ID token algorithm: ${header.alg}`,
+        );
+    }
+
+    const candidates = (params.jwks?.keys || []).filter(
+        (key) =>
+            key.kty === algorithm.kty &&
+            (!key.use || key.use === 'sig') &&
+            (!header.kid || key.kid === header.kid),
+    );
+
+    if (!candidates.length) {
+        throw new UnauthorizedException('No matching key found for ID token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] =
+        idToken.split('.');
+    const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    const validSignature = candidates.some((jwk) => {
+        try {
+            return crypto.verify(
+                algorithm.hash,
+                signedData,
+                {
+                    key: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+                    dsaEncoding: algorithm.dsaEncoding,
+                    padding: algorithm.padding,
+                },
+                signature,
+            );
+        } catch {
+            return false;
+        }
+    });
+
+    if (!validSignature) {
+        throw new UnauthorizedException('Invalid ID token signature');
+    }
+
+    const now = Math.floor((params.now ?? Date.now()) / 1000);
+
+    if (normalizeIssuer(payload.iss) !== normalizeIssuer(params.issuer)) {
+        throw new UnauthorizedException('Invalid ID token issuer');
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(params.clientId)) {
+        throw new UnauthorizedException('Invalid ID token audience');
+    }
+
+    if (
+        (audiences.length > 1 || payload.azp) &&
+        payload.azp !== params.clientId
+    ) {
+        throw new UnauthorizedException('Invalid ID token authorized party');
+    }
+
+    if (
+        typeof payload.exp !== 'number' ||
+        payload.exp + CLOCK_SKEW_SECONDS < now
+    ) {
+        throw new UnauthorizedException('ID token expired');
+    }
+
+    if (
+        typeof payload.nbf === 'number' &&
+        payload.nbf - CLOCK_SKEW_SECONDS > now
+    ) {
+        throw new UnauthorizedException('ID token not yet valid');
+    }
+
+    if (!params.nonce || payload.nonce !== params.nonce) {
+        throw new UnauthorizedException('Invalid ID token nonce');
+    }
+
+    if (!payload.sub) {
+        throw new UnauthorizedException('ID token has no subject');
+    }
+
+    return payload;
+};
+
+export const normalizeIssuer = (issuer?: string): string =>
+    (issuer || '').replace(/\/+$/, '');
+
+const getClaim = (claims: Record<string, any>, path: string): any =>
+    path
+        .split('.')
+        .reduce(
+            (value, key) =>
+                value && typeof value === 'object' ? value[key] : undefined,
+            claims,
+        );
+
+/**
+ * Maps IdP claims to the profile used for login. `attributeMap` keys are
+ * Kodus attributes (`email`, `firstName`, `lastName`, `name`) and values are
+ * claim names, dot paths allowed for nested claims.
+ */
+export const mapOidcClaims = (
+    claims: Record<string, any>,
+    attributeMap?: Record<string, string>,
+): OidcProfile => {
+    const map = { ...DEFAULT_ATTRIBUTE_MAP, ...(attributeMap || {}) };
+
+    const read = (attribute: keyof typeof DEFAULT_ATTRIBUTE_MAP) => {
+        const value = getClaim(claims, map[attribute]);
+        const first = Array.isArray(value) ? value[0] : value;
+
+        return typeof first === 'string' ? first.trim() : undefined;
+    };
+
+    const name = read('name');
+    const [nameFirst, ...nameRest] = (name || '').split(' ');
+
+    return {
+        sub: claims.sub,
+        email: read('email')?.toLowerCase(),
+        firstName: read('firstName') || nameFirst || '',
+        lastName: read('lastName') || nameRest.join(' ') || '',
+        name,
+    };
+};
+
+export const normalizeSSODomains = (domains?: string[]): string[] =>
+    (domains || [])
+        .map((domain) => domain?.trim().toLowerCase().replace(/^@/, ''))
+        .filter(Boolean);
+
+/**
+ * A config without domains allows no one: logging in through the IdP of an
+ * organization must never be open to any email the IdP vouches for.
+ */
+export const isEmailDomainAllowed = (
+    email: string,
+    domains?: string[],
+): boolean => {
+    const allowed = normalizeSSODomains(domains);
+
+    const emailDomain = email?.split('@')[1]?.toLowerCase();
+
+    return !!emailDomain && allowed.includes(emailDomain);
+};
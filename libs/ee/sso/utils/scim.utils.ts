@@ -0,0 +1,305 @@
+import { HttpStatus } from '@nestjs/common';
+
+import { Role } from '@libs/identity/domain/permissions/enums/permissions.enum';
+
+import { ScimException } from '../domain/exceptions/scim.exception';
+import {
+    IScimGroup,
+    SCIMConfig,
+    ScimFilterClause,
+    ScimPatchOperation,
+} from '../domain/interfaces/scim.interface';
+
+// Highest privilege first, used when a user belongs to several mapped groups
+const ROLE_PRECEDENCE: Role[] = [
+    Role.OWNER,
+    Role.REPO_ADMIN,
+    Role.BILLING_MANAGER,
+    Role.CONTRIBUTOR,
+];
+
+// Entra ID targets the work email with `emails[type eq "work"].value`
+const EMAIL_VALUE_PATH_REGEX = /^emails\[.*\]\.value$/;
+
+const FILTER_CLAUSE_REGEX = /^([\w.]+)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i;
+
+/**
+ * Parses the subset of SCIM filters IdPs actually send for provisioning:
+ * `eq` comparisons joined by `and`, e.g. `userName eq "jane@acme.com"`.
+ */
+export const parseScimFilter = (filter?: string): ScimFilterClause[] => {
+    if (!filter?.trim()) {
+        return [];
+    }
+
+    return filter
+        .trim()
+        .split(/\s+and\s+/i)
+        .map((clause) => {
+            const match = clause.trim().match(FILTER_CLAUSE_REGEX);
+
+            if (!match) {
+                throw new ScimException(
+                    HttpStatus.BAD_REQUEST,
+                    `Unsupported filter: ${clause}`,
+                    'invalidFilter',
+                );
+            }
+
+            return {
+                attribute: match[1].toLowerCase(),
+                value: match[2].replace(/\\(.)/g, '$1'),
+            };
+        });
+};
+
+export const paginate = <T>(
+    items: T[],
+    startIndex?: number,
+    count?: number,
+): { page: T[]; startIndex: number } => {
+    const start = Math.max(Number(startIndex) || 1, 1);
+    const size =
+        count === undefined || count === null || isNaN(Number(count))
+            ? items.length
+            : Math.max(Number(count), 0);
+
+    return {
+        page: items.slice(start - 1, start - 1 + size),
+        startIndex: start,
+    };
+};
+
+/**
+ * IdPs send booleans as `true`, `"True"` or `"false"` depending on vendor.
+ */
+export const toScimBoolean = (value: unknown): boolean => {
+    if (typeof value === 'string') {
+        return value.toLowerCase() === 'true';
+    }
+
+    return Boolean(value);
+};
+
+const normalizeOp = (operation: ScimPatchOperation): string => {
+    const op = operation?.op?.toLowerCase();
+
+    if (!['add', 'replace', 'remove'].includes(op)) {
+        throw new ScimException(
+            HttpStatus.BAD_REQUEST,
+            `Unsupported patch operation: ${operation?.op}`,
+            'invalidSyntax',
+        );
+    }
+
+    return op;
+};
+
+/**
+ * Flattens a user PATCH into the attributes we store. Operations without a
+ * path carry an object value (Okta style), operations with a path carry the
+ * attribute value directly (Entra ID style). `userName` wins over `emails`
+ * as it is the login of the user.
+ */
+export const applyUserPatch = (
+    operations: ScimPatchOperation[],
+): {
+    email?: string;
+    active?: boolean;
+    displayName?: string;
+    givenName?: string;
+    familyName?: string;
+} => {
+    const changes: ReturnType<typeof applyUserPatch> = {};
+
+    const assign = (path: string, value: any) => {
+        const attribute = path.toLowerCase();
+
+        if (EMAIL_VALUE_PATH_REGEX.test(attribute)) {
+            changes.email ??= value;
+            return;
+        }
+
+        switch (attribute) {
+            case 'username':
+                changes.email = value;
+                break;
+            case 'emails': {
+                const emails = Array.isArray(value) ? value : [value];
+                changes.email ??= (
+                    emails.find((email) => email?.primary) ?? emails[0]
+                )?.value;
+                break;
+            }
+            case 'active':
+                changes.active = toScimBoolean(value);
+                break;
+            case 'displayname':
+                changes.displayName = value;
+                break;
+            case 'name.givenname':
+                changes.givenName = value;
+                break;
+            case 'name.familyname':
+                changes.familyName = value;
+                break;
+            case 'name':
+                changes.givenName = value?.givenName ?? changes.givenName;
+                changes.familyName = value?.familyName ?? changes.familyName;
+                break;
+            default:
+                // unknown attributes (phone numbers, titles...) are not stored
+                break;
+        }
+    };
+
+    for (const operation of operations || []) {
+        const op = normalizeOp(operation);
+
+        if (op === 'remove') {
+            continue;
+        }
+
+        if (operation.path) {
+            assign(operation.path, operation.value);
+            continue;
+        }
+
+        if (operation.value && typeof operation.value === 'object') {
+            for (const [key, value] of Object.entries(operation.value)) {
+                assign(key, value);
+            }
+        }
+    }
+
+    return changes;
+};
+
+const MEMBER_FILTER_PATH_REGEX = /^members\[value\s+eq\s+"([^"]+)"\]$/i;
+
+/**
+ * Applies a group PATCH on top of the current group state and returns the
+ * resulting display name and member list.
+ */
+export const applyGroupPatch = (
+    group: Pick<IScimGroup, 'displayName' | 'members'>,
+    operations: ScimPatchOperation[],
+): { displayName: string; members: string[] } => {
+    let displayName = group.displayName;
+    const members = new Set(group.members || []);
+
+    const memberIds = (value: any): string[] =>
+        (Array.isArray(value) ? value : value ? [value] : [])
+            .map((member) =>
+                typeof member === 'string' ? member : member?.value,
+            )
+            .filter(Boolean);
+
+    for (const operation of operations || []) {
+        const op = normalizeOp(operation);
+        const path = operation.path?.trim();
+
+        if (!path) {
+            if (operation.value?.displayName) {
+                displayName = operation.value.displayName;
+            }
+            if (operation.value?.members) {
+                if (op === 'replace') members.clear();
+                memberIds(operation.value.members).forEach((id) =>
+                    members.add(id),
+                );
+            }
+            continue;
+        }
+
+        const filteredMember = path.match(MEMBER_FILTER_PATH_REGEX);
+        if (filteredMember) {
+            if (op !== 'remove') {
+                throw new ScimException(
+                    HttpStatus.BAD_REQUEST,
+                    `Unsupported path for ${op}: ${path}`,
+                    'invalidPath',
+                );
+            }
+            members.delete(filteredMember[1]);
+            continue;
+        }
+
+        switch (path.toLowerCase()) {
+            case 'displayname':
+                if (op !== 'remove') displayName = operation.value;
+                break;
+            case 'members':
+                if (op === 'replace') members.clear();
+                if (op === 'remove' && !operation.value) {
+                    members.clear();
+                    break;
+                }
+                memberIds(operation.value).forEach((id) =>
+                    op === 'remove' ? members.delete(id) : members.add(id),
+                );
+                break;
+            default:
+                throw new ScimException(
+                    HttpStatus.BAD_REQUEST,
+                    `Unsupported path: ${path}`,
+                    'invalidPath',
+                );
+        }
+    }
+
+    return { displayName, members: [...members] };
+};
+
+/**
+ * Resolves the access a user gets from the groups they belong to. Returns
+ * `null` when the organization has no group mappings, meaning SCIM does not
+ * manage roles and assigned repositories.
+ */
+export const resolveGroupAccess = (
+    groups: Pick<IScimGroup, 'displayName' | 'externalId'>[],
+    scimConfig: SCIMConfig,
+): {
+    role?: Role;
+    repositoryIds?: string[];
+    customRoleIds?: string[];
+} | null => {
+    const mappings = scimConfig?.groupMappings || [];
+
+    if (!mappings.length) {
+        return null;
+    }
+
+    const groupKeys = new Set(
+        groups
+            .flatMap((group) => [group.displayName, group.externalId])
+            .filter(Boolean)
+            .map((key) => key.toLowerCase()),
+    );
+
+    const matched = mappings.filter((mapping) =>
+        groupKeys.has(mapping.group?.toLowerCase()),
+    );
+
+    const mappedRoles = matched.map((mapping) => mapping.role).filter(Boolean);
+    const role =
+        ROLE_PRECEDENCE.find((candidate) => mappedRoles.includes(candidate)) ??
+        scimConfig.defaultRole;
+
+    const manageRepositories = mappings.some(
+        (mapping) => mapping.repositoryIds !== undefined,
+    );
+    const manageCustomRoles = mappings.some(
+        (mapping) => mapping.customRoleIds !== undefined,
+    );
+
+    return {
+        role,
+        repositoryIds: manageRepositories
+            ? [...new Set(matched.flatMap((m) => m.repositoryIds || []))]
+            : undefined,
+        customRoleIds: manageCustomRoles
+            ? [...new Set(matched.flatMap((m) => m.customRoleIds || []))]
+            : undefined,
+    };
+};
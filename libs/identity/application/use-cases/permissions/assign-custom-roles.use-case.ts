@@ -0,0 +1,124 @@
+import { createLogger } from '@kodus/flow';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { ActionType } from '@libs/core/infrastructure/config/types/general/codeReviewSettingsLog.type';
+import {
+    CODE_REVIEW_SETTINGS_LOG_SERVICE_TOKEN,
+    ICodeReviewSettingsLogService,
+} from '@libs/ee/codeReviewSettingsLog/domain/contracts/codeReviewSettingsLog.service.contract';
+import {
+    CUSTOM_ROLE_SERVICE_TOKEN,
+    ICustomRoleService,
+} from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
+import {
+    IPermissionsService,
+    PERMISSIONS_SERVICE_TOKEN,
+} from '@libs/identity/domain/permissions/contracts/permissions.service.contract';
+import {
+    IUsersService,
+    USER_SERVICE_TOKEN,
+} from '@libs/identity/domain/user/contracts/user.service.contract';
+import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
+
+@Injectable()
+export class AssignCustomRolesUseCase implements IUseCase {
+    private readonly logger = createLogger(AssignCustomRolesUseCase.name);
+
+    constructor(
+        @Inject(USER_SERVICE_TOKEN)
+        private readonly userService: IUsersService,
+        @Inject(PERMISSIONS_SERVICE_TOKEN)
+        private readonly permissionsService: IPermissionsService,
+        @Inject(CUSTOM_ROLE_SERVICE_TOKEN)
+        private readonly customRoleService: ICustomRoleService,
+        @Inject(CODE_REVIEW_SETTINGS_LOG_SERVICE_TOKEN)
+        private readonly codeReviewSettingsLogService: ICodeReviewSettingsLogService,
+    ) {}
+
+    async execute(params: {
+        user: Partial<IUser>;
+        userId: string;
+        customRoleIds: string[];
+    }): Promise<string[]> {
+        const { user, userId } = params;
+        const organizationId = user?.organization?.uuid;
+        const requestedIds = [...new Set(params.customRoleIds || [])];
+
+        const targetUser = await this.userService.findOne({ uuid: userId });
+        if (
+            !organizationId ||
+            !targetUser ||
+            targetUser.organization?.uuid !== organizationId
+        ) {
+            throw new NotFoundException('User not found');
+        }
+
+        const customRoles = await this.customRoleService.findByIds(
+            requestedIds,
+            organizationId,
+        );
+        if (customRoles.length !== requestedIds.length) {
+            throw new BadRequestException(
+                'One or more custom roles do not exist in this organization',
+            );
+        }
+
+        const customRoleIds = customRoles.map((role) => role.uuid);
+
+        const permissions = await this.permissionsService.findOne({
+            user: { uuid: userId },
+        });
+        const previousIds = permissions?.permissions?.customRoleIds || [];
+
+        if (!permissions) {
+            await this.permissionsService.create({
+                user: { uuid: userId },
+                permissions: { assignedRepositoryIds: [], customRoleIds },
+            });
+        } else {
+            await this.permissionsService.update(permissions.uuid, {
+                permissions: { ...permissions.permissions, customRoleIds },
+            });
+        }
+
+        this.logger.log({
+            message: `Assigned custom roles to user with UUID: ${userId}`,
+            context: AssignCustomRolesUseCase.name,
+            metadata: { customRoleIds },
+        });
+
+        try {
+            await this.codeReviewSettingsLogService.registerCustomRoleAssignmentLog(
+                {
+                    organizationAndTeamData: { organizationId },
+                    userInfo: {
+                        userId: user.uuid,
+                        userEmail: user.email,
+                    },
+                    actionType: ActionType.EDIT,
+                    targetUser: {
+                        userId,
+                        userEmail: targetUser.email,
+                    },
+                    oldCustomRoleIds: previousIds,
+                    newCustomRoleIds: customRoleIds,
+                },
+            );
+        } catch (error) {
+            this.logger.error({
+                message: 'Error in registerCustomRoleAssignmentLog',
+                error,
+                context: AssignCustomRolesUseCase.name,
+                metadata: { organizationId, userId },
+            });
+        }
+
+        return customRoleIds;
+    }
+}
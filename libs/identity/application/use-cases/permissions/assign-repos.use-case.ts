@@ -94,7 +94,10 @@ export class AssignReposUseCase implements IUseCase {
             }
 
             await this.permissionsService.update(permissions.uuid, {
-                permissions: { assignedRepositoryIds: validRepoIds },
+                permissions: {
+                    ...permissions.permissions,
+                    assignedRepositoryIds: validRepoIds,
+                },
             });
 
             this.logger.log({
@@ -0,0 +1,99 @@
+import { createLogger } from '@kodus/flow';
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { ActionType } from '@libs/core/infrastructure/config/types/general/codeReviewSettingsLog.type';
+import { DuplicateRecordException } from '@libs/core/infrastructure/filters/duplicate-record.exception';
+import {
+    CODE_REVIEW_SETTINGS_LOG_SERVICE_TOKEN,
+    ICodeReviewSettingsLogService,
+} from '@libs/ee/codeReviewSettingsLog/domain/contracts/codeReviewSettingsLog.service.contract';
+import {
+    CUSTOM_ROLE_SERVICE_TOKEN,
+    ICustomRoleService,
+} from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
+import { ResourceType } from '@libs/identity/domain/permissions/enums/permissions.enum';
+import {
+    CustomRoleGrant,
+    ICustomRole,
+} from '@libs/identity/domain/permissions/types/customRole.types';
+import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
+
+@Injectable()
+export class CreateCustomRoleUseCase implements IUseCase {
+    private readonly logger = createLogger(CreateCustomRoleUseCase.name);
+
+    constructor(
+        @Inject(CUSTOM_ROLE_SERVICE_TOKEN)
+        private readonly customRoleService: ICustomRoleService,
+        @Inject(CODE_REVIEW_SETTINGS_LOG_SERVICE_TOKEN)
+        private readonly codeReviewSettingsLogService: ICodeReviewSettingsLogService,
+    ) {}
+
+    async execute(params: {
+        user: Partial<IUser>;
+        name: string;
+        description?: string;
+        grants: CustomRoleGrant[];
+    }): Promise<ICustomRole> {
+        const { user, description, grants } = params;
+        const organizationId = user?.organization?.uuid;
+        const name = params.name?.trim();
+
+        if (!organizationId) {
+            throw new BadRequestException('Organization not found for user');
+        }
+
+        if (!name) {
+            throw new BadRequestException('Custom role name is required');
+        }
+
+        if (grants.some((grant) => grant.resource === ResourceType.All)) {
+            throw new BadRequestException(
+                `Custom roles cannot grant access to "${ResourceType.All}"`,
+            );
+        }
+
+        const existing = await this.customRoleService.findOne({
+            name,
+            organization: { uuid: organizationId },
+        });
+        if (existing) {
+            throw new DuplicateRecordException(
+                `Custom role "${name}" already exists`,
+            );
+        }
+
+        const customRole = await this.customRoleService.create({
+            name,
+            description,
+            grants,
+            organization: { uuid: organizationId },
+        });
+        if (!customRole) {
+            throw new Error('Could not create custom role');
+        }
+
+        try {
+            await this.codeReviewSettingsLogService.registerCustomRoleLog({
+                organizationAndTeamData: { organizationId },
+                userInfo: {
+                    userId: user.uuid,
+                    userEmail: user.email,
+                },
+                actionType: ActionType.CREATE,
+                oldRole: null,
+                newRole: customRole,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: 'Error in registerCustomRoleLog',
+                error,
+                context: CreateCustomRoleUseCase.name,
+                metadata: { organizationId, customRoleId: customRole.uuid },
+            });
+        }
+
+        return customRole;
+    }
+}
@@ -0,0 +1,66 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { ActionType } from '@libs/core/infrastructure/config/types/general/codeReviewSettingsLog.type';
+import {
+    CODE_REVIEW_SETTINGS_LOG_SERVICE_TOKEN,
+    ICodeReviewSettingsLogService,
+} from '@libs/ee/codeReviewSettingsLog/domain/contracts/codeReviewSettingsLog.service.contract';
+import {
+    CUSTOM_ROLE_SERVICE_TOKEN,
+    ICustomRoleService,
+} from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
+import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
+
+@Injectable()
+export class DeleteCustomRoleUseCase implements IUseCase {
+    private readonly logger = createLogger(DeleteCustomRoleUseCase.name);
+
+    constructor(
+        @Inject(CUSTOM_ROLE_SERVICE_TOKEN)
+        private readonly customRoleService: ICustomRoleService,
+        @Inject(CODE_REVIEW_SETTINGS_LOG_SERVICE_TOKEN)
+        private readonly codeReviewSettingsLogService: ICodeReviewSettingsLogService,
+    ) {}
+
+    async execute(params: {
+        user: Partial<IUser>;
+        uuid: string;
+    }): Promise<void> {
+        const { user, uuid } = params;
+        const organizationId = user?.organization?.uuid;
+
+        const existing = await this.customRoleService.findOne({
+            uuid,
+            organization: { uuid: organizationId },
+        });
+        if (!organizationId || !existing) {
+            throw new NotFoundException('Custom role not found');
+        }
+
+        // users still referencing this role simply stop resolving it, see
+        // PermissionsAbilityFactory
+        await this.customRoleService.delete(uuid);
+
+        try {
+            await this.codeReviewSettingsLogService.registerCustomRoleLog({
+                organizationAndTeamData: { organizationId },
+                userInfo: {
+                    userId: user.uuid,
+                    userEmail: user.email,
+                },
+                actionType: ActionType.DELETE,
+                oldRole: existing,
+                newRole: null,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: 'Error in registerCustomRoleLog',
+                error,
+                context: DeleteCustomRoleUseCase.name,
+                metadata: { organizationId, customRoleId: uuid },
+            });
+        }
+    }
+}
@@ -1,11 +1,21 @@
+import { AssignCustomRolesUseCase } from './assign-custom-roles.use-case';
 import { AssignReposUseCase } from './assign-repos.use-case';
 import { CanAccessUseCase } from './can-access.use-case';
+import { CreateCustomRoleUseCase } from './create-custom-role.use-case';
+import { DeleteCustomRoleUseCase } from './delete-custom-role.use-case';
 import { GetAssignedReposUseCase } from './get-assigned-repos.use-case';
 import { GetPermissionsUseCase } from './get-permissions.use-case';
+import { ListCustomRolesUseCase } from './list-custom-roles.use-case';
+import { UpdateCustomRoleUseCase } from './update-custom-role.use-case';
 
 export const UseCases = [
     GetPermissionsUseCase,
     CanAccessUseCase,
     GetAssignedReposUseCase,
     AssignReposUseCase,
+    ListCustomRolesUseCase,
+    CreateCustomRoleUseCase,
+    UpdateCustomRoleUseCase,
+    DeleteCustomRoleUseCase,
+    AssignCustomRolesUseCase,
 ];
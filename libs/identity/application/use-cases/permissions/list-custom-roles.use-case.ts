@@ -0,0 +1,29 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import {
+    CUSTOM_ROLE_SERVICE_TOKEN,
+    ICustomRoleService,
+} from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
+import { ICustomRole } from '@libs/identity/domain/permissions/types/customRole.types';
+import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
+
+@Injectable()
+export class ListCustomRolesUseCase implements IUseCase {
+    constructor(
+        @Inject(CUSTOM_ROLE_SERVICE_TOKEN)
+        private readonly customRoleService: ICustomRoleService,
+    ) {}
+
+    async execute(params: { user: Partial<IUser> }): Promise<ICustomRole[]> {
+        const organizationId = params.user?.organization?.uuid;
+
+        if (!organizationId) {
+            return [];
+        }
+
+        return this.customRoleService.find({
+            organization: { uuid: organizationId },
+        });
+    }
+}
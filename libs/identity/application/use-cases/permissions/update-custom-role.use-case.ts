@@ -0,0 +1,106 @@
+import { createLogger } from '@kodus/flow';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { ActionType } from '@libs/core/infrastructure/config/types/general/codeReviewSettingsLog.type';
+import { DuplicateRecordException } from '@libs/core/infrastructure/filters/duplicate-record.exception';
+import {
+    CODE_REVIEW_SETTINGS_LOG_SERVICE_TOKEN,
+    ICodeReviewSettingsLogService,
+} from '@libs/ee/codeReviewSettingsLog/domain/contracts/codeReviewSettingsLog.service.contract';
+import {
+    CUSTOM_ROLE_SERVICE_TOKEN,
+    ICustomRoleService,
+} from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
+import { ResourceType } from '@libs/identity/domain/permissions/enums/permissions.enum';
+import {
+    CustomRoleGrant,
+    ICustomRole,
+} from '@libs/identity/domain/permissions/types/customRole.types';
+import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
+
+@Injectable()
+export class UpdateCustomRoleUseCase implements IUseCase {
+    private readonly logger = createLogger(UpdateCustomRoleUseCase.name);
+
+    constructor(
+        @Inject(CUSTOM_ROLE_SERVICE_TOKEN)
+        private readonly customRoleService: ICustomRoleService,
+        @Inject(CODE_REVIEW_SETTINGS_LOG_SERVICE_TOKEN)
+        private readonly codeReviewSettingsLogService: ICodeReviewSettingsLogService,
+    ) {}
+
+    async execute(params: {
+        user: Partial<IUser>;
+        uuid: string;
+        name?: string;
+        description?: string;
+        grants?: CustomRoleGrant[];
+    }): Promise<ICustomRole> {
+        const { user, uuid, description, grants } = params;
+        const organizationId = user?.organization?.uuid;
+        const name = params.name?.trim();
+
+        const existing = await this.customRoleService.findOne({
+            uuid,
+            organization: { uuid: organizationId },
+        });
+        if (!organizationId || !existing) {
+            throw new NotFoundException('Custom role not found');
+        }
+
+        if (grants?.some((grant) => grant.resource === ResourceType.All)) {
+            throw new BadRequestException(
+                `Custom roles cannot grant access to "${ResourceType.All}"`,
+            );
+        }
+
+        if (name && name !== existing.name) {
+            const sameName = await this.customRoleService.findOne({
+                name,
+                organization: { uuid: organizationId },
+            });
+            if (sameName) {
+                throw new DuplicateRecordException(
+                    `Custom role "${name}" already exists`,
+                );
+            }
+        }
+
+        const updated = await this.customRoleService.update(uuid, {
+            ...(name ? { name } : {}),
+            ...(description !== undefined ? { description } : {}),
+            ...(grants ? { grants } : {}),
+        });
+        if (!updated) {
+            throw new Error('Could not update custom role');
+        }
+
+        try {
+            await this.codeReviewSettingsLogService.registerCustomRoleLog({
+                organizationAndTeamData: { organizationId },
+                userInfo: {
+                    userId: user.uuid,
+                    userEmail: user.email,
+                },
+                actionType: ActionType.EDIT,
+                oldRole: existing,
+                newRole: updated,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: 'Error in registerCustomRoleLog',
+                error,
+                context: UpdateCustomRoleUseCase.name,
+                metadata: { organizationId, customRoleId: uuid },
+            });
+        }
+
+        return updated;
+    }
+}
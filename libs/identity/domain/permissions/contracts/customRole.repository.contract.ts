@@ -0,0 +1,15 @@
+import { ICustomRole } from '../types/customRole.types';
+
+export const CUSTOM_ROLE_REPOSITORY_TOKEN = Symbol.for('CustomRoleRepository');
+
+export interface ICustomRoleRepository {
+    find(filter: Partial<ICustomRole>): Promise<ICustomRole[]>;
+    findOne(filter: Partial<ICustomRole>): Promise<ICustomRole | null>;
+    findByIds(uuids: string[], organizationId: string): Promise<ICustomRole[]>;
+    create(customRole: Omit<ICustomRole, 'uuid'>): Promise<ICustomRole | null>;
+    update(
+        uuid: string,
+        customRole: Omit<Partial<ICustomRole>, 'uuid'>,
+    ): Promise<ICustomRole | null>;
+    delete(uuid: string): Promise<void>;
+}
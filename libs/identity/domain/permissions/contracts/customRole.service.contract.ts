@@ -0,0 +1,5 @@
+import { ICustomRoleRepository } from './customRole.repository.contract';
+
+export const CUSTOM_ROLE_SERVICE_TOKEN = Symbol.for('CustomRoleService');
+
+export interface ICustomRoleService extends ICustomRoleRepository {}
@@ -0,0 +1,73 @@
+import { Entity } from '@libs/core/domain/interfaces/entity';
+
+import { CustomRoleGrant, ICustomRole } from '../types/customRole.types';
+
+export class CustomRoleEntity implements Entity<ICustomRole> {
+    private _uuid: string;
+    private _name: string;
+    private _description?: string;
+    private _grants: CustomRoleGrant[];
+    private _organization: ICustomRole['organization'];
+    private _createdAt?: Date;
+    private _updatedAt?: Date;
+
+    private constructor(customRole: ICustomRole | Partial<ICustomRole>) {
+        this._uuid = customRole.uuid;
+        this._name = customRole.name;
+        this._description = customRole.description;
+        this._grants = customRole.grants || [];
+        this._organization = customRole.organization;
+        this._createdAt = customRole.createdAt;
+        this._updatedAt = customRole.updatedAt;
+    }
+
+    public static create(
+        customRole: ICustomRole | Partial<ICustomRole>,
+    ): CustomRoleEntity {
+        return new CustomRoleEntity(customRole);
+    }
+
+    public toObject(): ICustomRole {
+        return {
+            uuid: this.uuid,
+            name: this.name,
+            description: this.description,
+            grants: this.grants,
+            organization: this.organization,
+            createdAt: this.createdAt,
+            updatedAt: this.updatedAt,
+        };
+    }
+
+    public toJson(): ICustomRole {
+        return this.toObject();
+    }
+
+    public get uuid() {
+        return this._uuid;
+    }
+
+    public get name() {
+        return this._name;
+    }
+
+    public get description() {
+        return this._description;
+    }
+
+    public get grants() {
+        return [...this._grants];
+    }
+
+    public get organization() {
+        return this._organization;
+    }
+
+    public get createdAt() {
+        return this._createdAt;
+    }
+
+    public get updatedAt() {
+        return this._updatedAt;
+    }
+}
@@ -0,0 +1,25 @@
+import { IOrganization } from '@libs/organization/domain/organization/interfaces/organization.interface';
+
+import { Action, ResourceType } from '../enums/permissions.enum';
+
+/**
+ * A single `Action` × `ResourceType` grant. When `repositoryIds` is set the
+ * grant only applies to those repositories (use 'global' for the global
+ * config), and `directoryIds` narrows it further to those directories.
+ */
+export type CustomRoleGrant = {
+    action: Action;
+    resource: ResourceType;
+    repositoryIds?: string[];
+    directoryIds?: string[];
+};
+
+export type ICustomRole = {
+    uuid: string;
+    name: string;
+    description?: string;
+    grants: CustomRoleGrant[];
+    organization: Partial<IOrganization>;
+    createdAt?: Date;
+    updatedAt?: Date;
+};
@@ -11,6 +11,7 @@ export type IPermissions<TUser = any> = {
     uuid: string;
     permissions: {
         assignedRepositoryIds: string[]; // list of repository IDs assigned to the user
+        customRoleIds?: string[]; // custom roles granted on top of the user's base role
     };
     user: Partial<TUser>;
 };
@@ -0,0 +1,171 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { FindOptionsWhere, In, Repository } from 'typeorm';
+
+import { createLogger } from '@kodus/flow';
+
+import { ICustomRoleRepository } from '@libs/identity/domain/permissions/contracts/customRole.repository.contract';
+import { ICustomRole } from '@libs/identity/domain/permissions/types/customRole.types';
+import { CustomRoleModel } from './schemas/customRole.model';
+
+@Injectable()
+export class CustomRoleRepository implements ICustomRoleRepository {
+    private readonly logger = createLogger(CustomRoleRepository.name);
+
+    constructor(
+        @InjectRepository(CustomRoleModel)
+        private readonly customRoleRepository: Repository<CustomRoleModel>,
+    ) {}
+
+    async create(
+        customRole: Omit<ICustomRole, 'uuid'>,
+    ): Promise<ICustomRole | null> {
+        try {
+            const newCustomRole = this.customRoleRepository.create(customRole);
+
+            const savedCustomRole =
+                await this.customRoleRepository.save(newCustomRole);
+
+            return savedCustomRole;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error creating custom role',
+                error,
+                metadata: { customRole },
+                context: CustomRoleRepository.name,
+            });
+
+            return null;
+        }
+    }
+
+    async delete(uuid: string): Promise<void> {
+        try {
+            await this.customRoleRepository.delete({ uuid });
+        } catch (error) {
+            this.logger.error({
+                message: 'Error deleting custom role',
+                error,
+                metadata: { uuid },
+                context: CustomRoleRepository.name,
+            });
+
+            return;
+        }
+    }
+
+    async find(filter: Partial<ICustomRole>): Promise<ICustomRole[]> {
+        try {
+            const customRoles = await this.customRoleRepository.find({
+                where: this.getFilterConditions(filter),
+                relations: ['organization'],
+                order: { name: 'ASC' },
+            });
+
+            return customRoles;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error finding custom roles',
+                error,
+                metadata: { filter },
+                context: CustomRoleRepository.name,
+            });
+
+            return [];
+        }
+    }
+
+    async findOne(filter: Partial<ICustomRole>): Promise<ICustomRole | null> {
+        try {
+            const customRole = await this.customRoleRepository.findOne({
+                where: this.getFilterConditions(filter),
+                relations: ['organization'],
+            });
+
+            return customRole || null;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error finding one custom role',
+                error,
+                metadata: { filter },
+                context: CustomRoleRepository.name,
+            });
+
+            return null;
+        }
+    }
+
+    async findByIds(
+        uuids: string[],
+        organizationId: string,
+    ): Promise<ICustomRole[]> {
+        if (!uuids?.length || !organizationId) {
+            return [];
+        }
+
+        try {
+            const customRoles = await this.customRoleRepository.find({
+                where: {
+                    uuid: In(uuids),
+                    organization: { uuid: organizationId },
+                },
+            });
+
+            return customRoles;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error finding custom roles by ids',
+                error,
+                metadata: { uuids, organizationId },
+                context: CustomRoleRepository.name,
+            });
+
+            return [];
+        }
+    }
+
+    async update(
+        uuid: string,
+        customRole: Omit<Partial<ICustomRole>, 'uuid'>,
+    ): Promise<ICustomRole | null> {
+        try {
+            // organization is immutable once the role is created
+            const { organization: _organization, ...rest } = customRole;
+
+            await this.customRoleRepository.update({ uuid }, rest);
+
+            const updatedCustomRole = await this.customRoleRepository.findOne({
+                where: { uuid },
+                relations: ['organization'],
+            });
+
+            if (!updatedCustomRole) {
+                throw new Error('Custom role not found after update');
+            }
+
+            return updatedCustomRole;
+        } catch (error) {
+            this.logger.error({
+                message: 'Error updating custom role',
+                error,
+                metadata: { uuid, customRole },
+                context: CustomRoleRepository.name,
+            });
+
+            return null;
+        }
+    }
+
+    private getFilterConditions(
+        filter: Partial<ICustomRole>,
+    ): FindOptionsWhere<CustomRoleModel> {
+        const { organization, grants: _grants, ...restFilter } = filter || {};
+
+        return {
+            ...restFilter,
+            ...(organization?.uuid
+                ? { organization: { uuid: organization.uuid } }
+                : {}),
+        };
+    }
+}
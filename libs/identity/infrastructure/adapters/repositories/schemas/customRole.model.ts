@@ -0,0 +1,24 @@
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+
+import type { OrganizationModel } from '@libs/organization/infrastructure/adapters/repositories/schemas/organization.model';
+import { CoreModel } from '@libs/core/infrastructure/repositories/model/typeOrm';
+import { CustomRoleGrant } from '@libs/identity/domain/permissions/types/customRole.types';
+
+@Entity('custom_roles')
+@Index('UQ_custom_roles_organization_name', ['organization', 'name'], {
+    unique: true,
+})
+export class CustomRoleModel extends CoreModel {
+    @Column()
+    name: string;
+
+    @Column({ nullable: true })
+    description?: string;
+
+    @Column({ type: 'jsonb', default: [] })
+    grants: CustomRoleGrant[];
+
+    @ManyToOne('OrganizationModel', { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'organization_id', referencedColumnName: 'uuid' })
+    organization: OrganizationModel;
+}
@@ -32,6 +32,7 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
             '/health/ready',
             '/health/simple',
             '/health/live',
+            '/metrics',
             '/auth/refresh',
             '/auth/login',
             '/auth/signup',
@@ -94,6 +95,9 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
 
         const wildCardExcludePaths = [
             '/auth/sso/',
+            // SCIM endpoints authenticate with their own bearer tokens
+            '/scim/v2/',
+            '/api/scim/v2/',
         ];
 
         // Allow access to public routes
@@ -20,6 +20,8 @@ export class AuthorizationService {
         action: Action;
         resource: ResourceType;
         repoIds?: string[];
+        /** Directory of the repositories the check is about, for directory-scoped grants. */
+        directoryId?: string;
         status?: STATUS[];
     }): Promise<boolean> {
         const {
@@ -27,6 +29,7 @@ export class AuthorizationService {
             action,
             resource,
             repoIds = [undefined],
+            directoryId,
             status = [STATUS.ACTIVE],
         } = params;
 
@@ -46,6 +49,7 @@ export class AuthorizationService {
             const subject = caslSubject(resource, {
                 organizationId: user.organization.uuid,
                 ...(repoId ? { repoId } : {}),
+                ...(directoryId ? { directoryId } : {}),
             });
 
             if (!ability.can(action, subject as any)) {
@@ -61,15 +65,17 @@ export class AuthorizationService {
         action: Action;
         resource: ResourceType;
         repoIds?: string[];
+        directoryId?: string;
         status?: STATUS[];
     }): Promise<void> {
-        const { user, action, resource, repoIds, status } = params;
+        const { user, action, resource, repoIds, directoryId, status } = params;
 
         const isAllowed = await this.check({
             user,
             action,
             resource,
             repoIds,
+            directoryId,
             status,
         });
 
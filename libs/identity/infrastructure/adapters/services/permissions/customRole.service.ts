@@ -0,0 +1,42 @@
+import {
+    CUSTOM_ROLE_REPOSITORY_TOKEN,
+    ICustomRoleRepository,
+} from '@libs/identity/domain/permissions/contracts/customRole.repository.contract';
+import { ICustomRoleService } from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
+import { ICustomRole } from '@libs/identity/domain/permissions/types/customRole.types';
+import { Inject, Injectable } from '@nestjs/common';
+
+@Injectable()
+export class CustomRoleService implements ICustomRoleService {
+    constructor(
+        @Inject(CUSTOM_ROLE_REPOSITORY_TOKEN)
+        private readonly customRoleRepository: ICustomRoleRepository,
+    ) {}
+
+    create(customRole: Omit<ICustomRole, 'uuid'>): Promise<ICustomRole | null> {
+        return this.customRoleRepository.create(customRole);
+    }
+
+    delete(uuid: string): Promise<void> {
+        return this.customRoleRepository.delete(uuid);
+    }
+
+    find(filter: Partial<ICustomRole>): Promise<ICustomRole[]> {
+        return this.customRoleRepository.find(filter);
+    }
+
+    findOne(filter: Partial<ICustomRole>): Promise<ICustomRole | null> {
+        return this.customRoleRepository.findOne(filter);
+    }
+
+    findByIds(uuids: string[], organizationId: string): Promise<ICustomRole[]> {
+        return this.customRoleRepository.findByIds(uuids, organizationId);
+    }
+
+    update(
+        uuid: string,
+        customRole: Omit<Partial<ICustomRole>, 'uuid'>,
+    ): Promise<ICustomRole | null> {
+        return this.customRoleRepository.update(uuid, customRole);
+    }
+}
@@ -1,4 +1,8 @@
 import { AbilityBuilder, createMongoAbility, Subject } from '@casl/ability';
+import {
+    CUSTOM_ROLE_SERVICE_TOKEN,
+    ICustomRoleService,
+} from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
 import {
     IPermissionsService,
     PERMISSIONS_SERVICE_TOKEN,
@@ -8,6 +12,7 @@ import {
     ResourceType,
     Role,
 } from '@libs/identity/domain/permissions/enums/permissions.enum';
+import { CustomRoleGrant } from '@libs/identity/domain/permissions/types/customRole.types';
 import { AppAbility } from '@libs/identity/domain/permissions/types/permissions.types';
 import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
 import { Inject, Injectable } from '@nestjs/common';
@@ -17,6 +22,8 @@ export class PermissionsAbilityFactory {
     constructor(
         @Inject(PERMISSIONS_SERVICE_TOKEN)
         private readonly permissionsService: IPermissionsService,
+        @Inject(CUSTOM_ROLE_SERVICE_TOKEN)
+        private readonly customRoleService: ICustomRoleService,
     ) {}
 
     async createForUser(
@@ -34,16 +41,14 @@ export class PermissionsAbilityFactory {
             return build() as AppAbility;
         }
 
-        let assignedRepoUuids: string[] = [];
-        if (repositoryIds) {
-            assignedRepoUuids = repositoryIds;
-        } else {
-            const permissionsEntity = await this.permissionsService.findOne({
-                user: { uuid: user.uuid },
-            });
-            assignedRepoUuids =
-                permissionsEntity?.permissions?.assignedRepositoryIds || [];
-        }
+        const permissionsEntity = await this.permissionsService.findOne({
+            user: { uuid: user.uuid },
+        });
+
+        const assignedRepoUuids: string[] =
+            repositoryIds ??
+            permissionsEntity?.permissions?.assignedRepositoryIds ??
+            [];
 
         const canInOrg = <S extends Subject, C>(
             action: Action,
@@ -57,15 +62,12 @@ export class PermissionsAbilityFactory {
             can(action, subject, finalConditions);
         };
 
-        const canInRepo = <S extends Subject, C>(
+        const canInRepoList = <S extends Subject, C>(
             action: Action,
             subject: S,
+            repos: string[],
             conditions?: C,
-            global?: boolean,
         ) => {
-            const repos = [...assignedRepoUuids];
-            if (global) repos.push('global');
-
             const finalConditions = {
                 ...conditions,
                 organizationId: userOrganizationId,
@@ -77,10 +79,24 @@ export class PermissionsAbilityFactory {
             can(action, subject, finalConditions);
         };
 
+        const canInRepo = <S extends Subject, C>(
+            action: Action,
+            subject: S,
+            conditions?: C,
+            global?: boolean,
+        ) => {
+            const repos = [...assignedRepoUuids];
+            if (global) repos.push('global');
+
+            canInRepoList(action, subject, repos, conditions);
+        };
+
         switch (userRole) {
             case Role.OWNER:
                 canInOrg(Action.Manage, ResourceType.All);
-                break;
+
+                // owners already manage everything, custom roles add nothing
+                return build() as AppAbility;
 
             case Role.REPO_ADMIN:
                 canInRepo(
@@ -153,6 +169,63 @@ export class PermissionsAbilityFactory {
                 break;
         }
 
+        const customRoleIds = permissionsEntity?.permissions?.customRoleIds;
+        if (customRoleIds?.length) {
+            const customRoles = await this.customRoleService.findByIds(
+                customRoleIds,
+                userOrganizationId,
+            );
+
+            for (const grant of customRoles.flatMap(
+                (role) => role.grants || [],
+            )) {
+                this.applyGrant(grant, canInOrg, canInRepoList);
+            }
+        }
+
         return build() as AppAbility;
     }
+
+    /**
+     * Custom role grants are additive: they can only widen what the base role
+     * allows. Grants without repositories apply to the whole organization,
+     * directory-scoped grants only match subjects carrying a `directoryId`
+     * (`checkRepoPermissions` with `directory`, or `AuthorizationService`
+     * with `directoryId`).
+     */
+    private applyGrant(
+        grant: CustomRoleGrant,
+        canInOrg: (
+            action: Action,
+            subject: ResourceType,
+            conditions?: Record<string, unknown>,
+        ) => void,
+        canInRepoList: (
+            action: Action,
+            subject: ResourceType,
+            repos: string[],
+            conditions?: Record<string, unknown>,
+        ) => void,
+    ): void {
+        if (!grant?.action || !grant?.resource) return;
+
+        // wildcard resources are reserved for owners
+        if (grant.resource === ResourceType.All) return;
+
+        const conditions = grant.directoryIds?.length
+            ? { directoryId: { $in: grant.directoryIds } }
+            : {};
+
+        if (grant.repositoryIds?.length) {
+            canInRepoList(
+                grant.action,
+                grant.resource,
+                grant.repositoryIds,
+                conditions,
+            );
+            return;
+        }
+
+        canInOrg(grant.action, grant.resource, conditions);
+    }
 }
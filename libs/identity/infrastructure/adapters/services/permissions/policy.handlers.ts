@@ -82,6 +82,8 @@ export const checkPermissions = (params: {
  * @param resource The resource type to check (e.g., 'Issues', 'PullRequests').
  * @param repo An object defining where to find the repository ID in the request.
  * It can have keys for params, query, body, or a custom function/value.
+ * @param directory Where to find the directory ID in the request, for routes acting on a
+ * directory of the repository. Directory-scoped grants only match when it is present.
  * @returns
  */
 export const checkRepoPermissions = (params: {
@@ -95,9 +97,22 @@ export const checkRepoPermissions = (params: {
         };
         custom?: string | number | (() => string | number) | null;
     };
+    directory?: {
+        key?: {
+            params?: string;
+            query?: string;
+            body?: string;
+        };
+    };
     status?: STATUS[];
 }): PolicyHandler => {
-    const { action, resource, repo, status = [STATUS.ACTIVE] } = params;
+    const {
+        action,
+        resource,
+        repo,
+        directory,
+        status = [STATUS.ACTIVE],
+    } = params;
 
     return (ability, request) => {
         if (!request.user?.organization?.uuid) {
@@ -119,9 +134,16 @@ export const checkRepoPermissions = (params: {
             return false;
         }
 
+        const directoryId =
+            getNestedValue(request?.params, directory?.key?.params || '') ||
+            getNestedValue(request?.query, directory?.key?.query || '') ||
+            getNestedValue(request?.body, directory?.key?.body || '') ||
+            null;
+
         const subject = caslSubject(resource, {
             organizationId: request.user.organization.uuid,
             repoId,
+            ...(directoryId ? { directoryId } : {}),
         });
 
         return ability.can(action, subject as any);
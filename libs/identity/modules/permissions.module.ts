@@ -1,22 +1,29 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { CUSTOM_ROLE_REPOSITORY_TOKEN } from '../domain/permissions/contracts/customRole.repository.contract';
+import { CUSTOM_ROLE_SERVICE_TOKEN } from '../domain/permissions/contracts/customRole.service.contract';
 import { PERMISSIONS_REPOSITORY_TOKEN } from '../domain/permissions/contracts/permissions.repository.contract';
 import { PERMISSIONS_SERVICE_TOKEN } from '../domain/permissions/contracts/permissions.service.contract';
+import { CustomRoleRepository } from '../infrastructure/adapters/repositories/customRole.repository';
 import { PermissionsRepository } from '../infrastructure/adapters/repositories/permissions.repository';
+import { CustomRoleModel } from '../infrastructure/adapters/repositories/schemas/customRole.model';
 import { PermissionsModel } from '../infrastructure/adapters/repositories/schemas/permissions.model';
 import { AuthorizationService } from '../infrastructure/adapters/services/permissions/authorization.service';
+import { CustomRoleService } from '../infrastructure/adapters/services/permissions/customRole.service';
 import { PermissionsService } from '../infrastructure/adapters/services/permissions/permissions.service';
 import { PermissionsAbilityFactory } from '../infrastructure/adapters/services/permissions/permissionsAbility.factory';
 import { UseCases } from '../application/use-cases/permissions';
 import { UserModule } from './user.module';
 import { IntegrationConfigModule } from '@libs/integrations/modules/config.module';
+import { CodeReviewSettingsLogModule } from '@libs/ee/codeReviewSettingsLog/codeReviewSettingsLog.module';
 
 @Module({
     imports: [
-        TypeOrmModule.forFeature([PermissionsModel]),
+        TypeOrmModule.forFeature([PermissionsModel, CustomRoleModel]),
         forwardRef(() => UserModule),
         forwardRef(() => IntegrationConfigModule),
+        forwardRef(() => CodeReviewSettingsLogModule),
     ],
     providers: [
         {
@@ -27,6 +34,14 @@ import { IntegrationConfigModule } from '@libs/integrations/modules/config.modul
             provide: PERMISSIONS_SERVICE_TOKEN,
             useClass: PermissionsService,
         },
+        {
+            provide: CUSTOM_ROLE_REPOSITORY_TOKEN,
+            useClass: CustomRoleRepository,
+        },
+        {
+            provide: CUSTOM_ROLE_SERVICE_TOKEN,
+            useClass: CustomRoleService,
+        },
         PermissionsAbilityFactory,
         AuthorizationService,
         ...UseCases,
@@ -34,6 +49,7 @@ import { IntegrationConfigModule } from '@libs/integrations/modules/config.modul
     exports: [
         PERMISSIONS_REPOSITORY_TOKEN,
         PERMISSIONS_SERVICE_TOKEN,
+        CUSTOM_ROLE_SERVICE_TOKEN,
         PermissionsAbilityFactory,
         AuthorizationService,
         ...UseCases,
@@ -0,0 +1,187 @@
+import { randomBytes } from 'crypto';
+
+import { createLogger } from '@kodus/flow';
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import { v4 as uuidv4 } from 'uuid';
+
+import { encrypt } from '@libs/common/utils/crypto';
+import { IntegrationCategory } from '@libs/core/domain/enums/integration-category.enum';
+import { IntegrationConfigKey } from '@libs/core/domain/enums/Integration-config-key.enum';
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import {
+    AUTH_INTEGRATION_SERVICE_TOKEN,
+    IAuthIntegrationService,
+} from '@libs/integrations/domain/authIntegrations/contracts/auth-integration.service.contracts';
+import {
+    IIntegrationConfigService,
+    INTEGRATION_CONFIG_SERVICE_TOKEN,
+} from '@libs/integrations/domain/integrationConfigs/contracts/integration-config.service.contracts';
+import {
+    IIntegrationService,
+    INTEGRATION_SERVICE_TOKEN,
+} from '@libs/integrations/domain/integrations/contracts/integration.service.contracts';
+import {
+    AzureBoardsAuthDetail,
+    IssueTrackerAuthDetail,
+    IssueTrackerSyncConfig,
+    JiraAuthDetail,
+} from '@libs/integrations/domain/issueTracker/types/issue-tracker.type';
+import { IssueTrackerAdapterFactory } from '@libs/integrations/infrastructure/adapters/services/issueTracker/issueTrackerAdapter.factory';
+
+export type ConnectIssueTrackerParams = {
+    teamId: string;
+    platform: PlatformType;
+    authDetails: IssueTrackerAuthDetail;
+    config: Omit<IssueTrackerSyncConfig, 'webhookToken'>;
+};
+
+/**
+ * Connects a team to Jira or Azure Boards. Returns the token to append to the
+ * webhook URL configured on the tracker.
+ */
+@Injectable()
+export class ConnectIssueTrackerUseCase implements IUseCase {
+    private readonly logger = createLogger(ConnectIssueTrackerUseCase.name);
+
+    constructor(
+        @Inject(INTEGRATION_SERVICE_TOKEN)
+        private readonly integrationService: IIntegrationService,
+
+        @Inject(AUTH_INTEGRATION_SERVICE_TOKEN)
+        private readonly authIntegrationService: IAuthIntegrationService,
+
+        @Inject(INTEGRATION_CONFIG_SERVICE_TOKEN)
+        private readonly integrationConfigService: IIntegrationConfigService,
+
+        private readonly issueTrackerAdapterFactory: IssueTrackerAdapterFactory,
+
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: { organization: { uuid: string } };
+        },
+    ) {}
+
+    async execute(
+        params: ConnectIssueTrackerParams,
+    ): Promise<{ status: boolean; webhookToken: string }> {
+        const organizationAndTeamData: OrganizationAndTeamData = {
+            organizationId: this.request.user.organization.uuid,
+            teamId: params.teamId,
+        };
+
+        if (!this.issueTrackerAdapterFactory.isSupported(params.platform)) {
+            throw new BadRequestException(
+                `Issue tracker '${params.platform}' is not supported.`,
+            );
+        }
+
+        const adapter = this.issueTrackerAdapterFactory.getAdapter(
+            params.platform,
+        );
+
+        const isValid = await adapter.validateCredentials(params.authDetails);
+
+        if (!isValid) {
+            throw new BadRequestException(
+                `Could not authenticate on ${params.platform} with the given credentials.`,
+            );
+        }
+
+        const integrationId = await this.saveIntegration(
+            organizationAndTeamData,
+            params.platform,
+            this.encryptAuthDetails(params.platform, params.authDetails),
+        );
+
+        const currentConfig =
+            await this.integrationConfigService.findIntegrationConfigFormatted<IssueTrackerSyncConfig>(
+                IntegrationConfigKey.ISSUE_TRACKER_SYNC,
+                organizationAndTeamData,
+            );
+
+        // Keep the token on reconnects so the webhooks set on the tracker keep working
+        const webhookToken =
+            currentConfig?.webhookToken ?? randomBytes(24).toString('hex');
+
+        await this.integrationConfigService.createOrUpdateConfig(
+            IntegrationConfigKey.ISSUE_TRACKER_SYNC,
+            { ...params.config, webhookToken },
+            integrationId,
+            organizationAndTeamData,
+        );
+
+        this.logger.log({
+            message: `Connected ${params.platform} issue tracker`,
+            context: ConnectIssueTrackerUseCase.name,
+            metadata: { organizationAndTeamData },
+        });
+
+        return { status: true, webhookToken };
+    }
+
+    private async saveIntegration(
+        organizationAndTeamData: OrganizationAndTeamData,
+        platform: PlatformType,
+        authDetails: IssueTrackerAuthDetail,
+    ): Promise<string> {
+        const organization = { uuid: organizationAndTeamData.organizationId };
+        const team = { uuid: organizationAndTeamData.teamId };
+
+        const integration = await this.integrationService.findOne({
+            organization,
+            team,
+            integrationCategory: IntegrationCategory.ISSUE_TRACKER,
+        });
+
+        // A team syncs with a single tracker, switching replaces the previous one
+        if (integration) {
+            await this.authIntegrationService.update(
+                { uuid: integration.authIntegration?.uuid, organization, team },
+                { status: true, authDetails },
+            );
+
+            await this.integrationService.update(
+                { uuid: integration.uuid, organization, team },
+                { status: true, platform },
+            );
+
+            return integration.uuid;
+        }
+
+        const authIntegration = await this.authIntegrationService.create({
+            uuid: uuidv4(),
+            status: true,
+            authDetails,
+            organization,
+            team,
+        });
+
+        const created = await this.integrationService.create({
+            uuid: uuidv4(),
+            platform,
+            integrationCategory: IntegrationCategory.ISSUE_TRACKER,
+            status: true,
+            organization,
+            team,
+            authIntegration: { uuid: authIntegration?.uuid },
+        });
+
+        return created?.uuid;
+    }
+
+    private encryptAuthDetails(
+        platform: PlatformType,
+        authDetails: IssueTrackerAuthDetail,
+    ): IssueTrackerAuthDetail {
+        if (platform === PlatformType.JIRA) {
+            const jira = authDetails as JiraAuthDetail;
+            return { ...jira, apiToken: encrypt(jira.apiToken) };
+        }
+
+        const azureBoards = authDetails as AzureBoardsAuthDetail;
+        return { ...azureBoards, token: encrypt(azureBoards.token) };
+    }
+}
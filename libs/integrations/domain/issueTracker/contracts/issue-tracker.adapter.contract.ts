@@ -0,0 +1,38 @@
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+
+import {
+    IssueTrackerAuthDetail,
+    IssueTrackerStatusEvent,
+    IssueTrackerTicket,
+    IssueTrackerTicketInput,
+} from '../types/issue-tracker.type';
+
+/**
+ * Talks to an external issue tracker. Adapters are stateless, the
+ * credentials of the organization are passed on every call.
+ */
+export interface IIssueTrackerAdapter {
+    readonly platform: PlatformType;
+
+    /** Tracker status used when the organization maps none. */
+    readonly defaultStatusMapping: Record<IssueStatus, string>;
+
+    validateCredentials(auth: IssueTrackerAuthDetail): Promise<boolean>;
+
+    createTicket(
+        auth: IssueTrackerAuthDetail,
+        input: IssueTrackerTicketInput,
+    ): Promise<IssueTrackerTicket>;
+
+    updateTicketStatus(
+        auth: IssueTrackerAuthDetail,
+        ticketId: string,
+        status: string,
+    ): Promise<void>;
+
+    /** Returns null for events that are not a status change. */
+    parseStatusEvent(
+        payload: Record<string, any>,
+    ): IssueTrackerStatusEvent | null;
+}
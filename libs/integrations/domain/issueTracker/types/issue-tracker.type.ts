@@ -0,0 +1,61 @@
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+
+export type JiraAuthDetail = {
+    /** e.g. https://acme.atlassian.net */
+    baseUrl: string;
+    email: string;
+    apiToken: string;
+};
+
+export type AzureBoardsAuthDetail = {
+    /** e.g. https://dev.azure.com/acme */
+    orgUrl: string;
+    project: string;
+    token: string;
+};
+
+export type IssueTrackerAuthDetail = JiraAuthDetail | AzureBoardsAuthDetail;
+
+export type IssueTrackerSyncConfig = {
+    enabled: boolean;
+    /** Jira project key. Azure Boards uses the project from the auth details. */
+    projectKey?: string;
+    /** e.g. `Bug` or `Task`. */
+    issueType: string;
+    /** Tracker priority per Kody Issue severity, e.g. `High` on Jira or `1` on Azure Boards. */
+    priorityMapping?: Partial<Record<SeverityLevel, string>>;
+    /** Tracker status per Kody Issue status. Missing ones use the platform defaults. */
+    statusMapping?: Partial<Record<IssueStatus, string>>;
+    labels?: string[];
+    /** Expected in the `token` query param of the tracker webhooks. */
+    webhookToken?: string;
+};
+
+export type IssueTrackerTicketInput = {
+    title: string;
+    description: string;
+    issueType: string;
+    projectKey?: string;
+    priority?: string;
+    labels?: string[];
+};
+
+export type IssueTrackerTicket = {
+    id: string;
+    key: string;
+    url: string;
+};
+
+/** Status change reported by a tracker webhook. */
+export type IssueTrackerStatusEvent = {
+    ticketId: string;
+    status: string;
+    changedBy?: string;
+};
+
+/** Body enqueued by the tracker webhook endpoints. */
+export type IssueTrackerWebhookPayload = {
+    token?: string;
+    data: Record<string, any>;
+};
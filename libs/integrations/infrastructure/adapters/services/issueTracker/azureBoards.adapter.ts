@@ -0,0 +1,139 @@
+import { Injectable } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import { IIssueTrackerAdapter } from '@libs/integrations/domain/issueTracker/contracts/issue-tracker.adapter.contract';
+import {
+    AzureBoardsAuthDetail,
+    IssueTrackerAuthDetail,
+    IssueTrackerStatusEvent,
+    IssueTrackerTicket,
+    IssueTrackerTicketInput,
+} from '@libs/integrations/domain/issueTracker/types/issue-tracker.type';
+
+const API_VERSION = '7.1';
+
+@Injectable()
+export class AzureBoardsIssueTrackerAdapter implements IIssueTrackerAdapter {
+    readonly platform = PlatformType.AZURE_BOARDS;
+
+    // States of the Agile process, the default one on Azure Boards
+    readonly defaultStatusMapping: Record<IssueStatus, string> = {
+        [IssueStatus.OPEN]: 'New',
+        [IssueStatus.IN_PROGRESS]: 'Active',
+        [IssueStatus.REOPENED]: 'New',
+        [IssueStatus.RESOLVED]: 'Closed',
+        [IssueStatus.WONT_FIX]: 'Removed',
+        [IssueStatus.DISMISSED]: 'Removed',
+    };
+
+    async validateCredentials(auth: IssueTrackerAuthDetail): Promise<boolean> {
+        try {
+            const { project } = auth as AzureBoardsAuthDetail;
+            const { data } = await this.client(auth).get(
+                `/_apis/projects/${encodeURIComponent(project)}`,
+                { params: { 'api-version': API_VERSION } },
+            );
+            return !!data?.id;
+        } catch {
+            return false;
+        }
+    }
+
+    async createTicket(
+        auth: IssueTrackerAuthDetail,
+        input: IssueTrackerTicketInput,
+    ): Promise<IssueTrackerTicket> {
+        const { project } = auth as AzureBoardsAuthDetail;
+
+        const operations = [
+            { op: 'add', path: '/fields/System.Title', value: input.title },
+            {
+                op: 'add',
+                path: '/fields/System.Description',
+                value: input.description,
+            },
+            ...(input.priority
+                ? [
+                      {
+                          op: 'add',
+                          path: '/fields/Microsoft.VSTS.Common.Priority',
+                          value: input.priority,
+                      },
+                  ]
+                : []),
+            ...(input.labels?.length
+                ? [
+                      {
+                          op: 'add',
+                          path: '/fields/System.Tags',
+                          value: input.labels.join('; '),
+                      },
+                  ]
+                : []),
+        ];
+
+        const { data } = await this.client(auth).post(
+            `/${encodeURIComponent(project)}/_apis/wit/workitems/$${encodeURIComponent(input.issueType)}`,
+            operations,
+            {
+                params: { 'api-version': API_VERSION },
+                headers: { 'Content-Type': 'application/json-patch+json' },
+            },
+        );
+
+        return {
+            id: String(data.id),
+            key: String(data.id),
+            url: data._links?.html?.href ?? data.url,
+        };
+    }
+
+    async updateTicketStatus(
+        auth: IssueTrackerAuthDetail,
+        ticketId: string,
+        status: string,
+    ): Promise<void> {
+        await this.client(auth).patch(
+            `/_apis/wit/workitems/${encodeURIComponent(ticketId)}`,
+            [{ op: 'add', path: '/fields/System.State', value: status }],
+            {
+                params: { 'api-version': API_VERSION },
+                headers: { 'Content-Type': 'application/json-patch+json' },
+            },
+        );
+    }
+
+    parseStatusEvent(
+        payload: Record<string, any>,
+    ): IssueTrackerStatusEvent | null {
+        if (payload?.eventType !== 'workitem.updated') {
+            return null;
+        }
+
+        const resource = payload.resource;
+        const stateChange = resource?.fields?.['System.State'];
+
+        if (!stateChange?.newValue || !resource?.workItemId) {
+            return null;
+        }
+
+        return {
+            ticketId: String(resource.workItemId),
+            status: stateChange.newValue,
+            changedBy: resource.revisedBy?.displayName,
+        };
+    }
+
+    private client(auth: IssueTrackerAuthDetail): AxiosInstance {
+        const { orgUrl, token } = auth as AzureBoardsAuthDetail;
+
+        return axios.create({
+            baseURL: orgUrl.replace(/\/+$/, ''),
+            auth: { username: '', password: token },
+            headers: { Accept: 'application/json' },
+            timeout: 30000,
+        });
+    }
+}
@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IIssueTrackerAdapter } from '@libs/integrations/domain/issueTracker/contracts/issue-tracker.adapter.contract';
+
+import { AzureBoardsIssueTrackerAdapter } from './azureBoards.adapter';
+import { JiraIssueTrackerAdapter } from './jira.adapter';
+
+@Injectable()
+export class IssueTrackerAdapterFactory {
+    private readonly adapters: Map<PlatformType, IIssueTrackerAdapter>;
+
+    constructor(
+        jiraAdapter: JiraIssueTrackerAdapter,
+        azureBoardsAdapter: AzureBoardsIssueTrackerAdapter,
+    ) {
+        this.adapters = new Map<PlatformType, IIssueTrackerAdapter>([
+            [PlatformType.JIRA, jiraAdapter],
+            [PlatformType.AZURE_BOARDS, azureBoardsAdapter],
+        ]);
+    }
+
+    isSupported(platform: PlatformType | string): boolean {
+        return this.adapters.has(platform as PlatformType);
+    }
+
+    getAdapter(platform: PlatformType | string): IIssueTrackerAdapter {
+        const adapter = this.adapters.get(platform as PlatformType);
+
+        if (!adapter) {
+            throw new Error(`Issue tracker '${platform}' is not supported.`);
+        }
+
+        return adapter;
+    }
+}
@@ -0,0 +1,125 @@
+import { Injectable } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import { IIssueTrackerAdapter } from '@libs/integrations/domain/issueTracker/contracts/issue-tracker.adapter.contract';
+import {
+    IssueTrackerAuthDetail,
+    IssueTrackerStatusEvent,
+    IssueTrackerTicket,
+    IssueTrackerTicketInput,
+    JiraAuthDetail,
+} from '@libs/integrations/domain/issueTracker/types/issue-tracker.type';
+
+@Injectable()
+export class JiraIssueTrackerAdapter implements IIssueTrackerAdapter {
+    readonly platform = PlatformType.JIRA;
+
+    readonly defaultStatusMapping: Record<IssueStatus, string> = {
+        [IssueStatus.OPEN]: 'To Do',
+        [IssueStatus.IN_PROGRESS]: 'In Progress',
+        [IssueStatus.REOPENED]: 'To Do',
+        [IssueStatus.RESOLVED]: 'Done',
+        [IssueStatus.WONT_FIX]: "Won't Do",
+        [IssueStatus.DISMISSED]: "Won't Do",
+    };
+
+    async validateCredentials(auth: IssueTrackerAuthDetail): Promise<boolean> {
+        try {
+            const { data } = await this.client(auth).get('/rest/api/2/myself');
+            return !!data?.accountId;
+        } catch {
+            return false;
+        }
+    }
+
+    async createTicket(
+        auth: IssueTrackerAuthDetail,
+        input: IssueTrackerTicketInput,
+    ): Promise<IssueTrackerTicket> {
+        const { data } = await this.client(auth).post('/rest/api/2/issue', {
+            fields: {
+                project: { key: input.projectKey },
+                summary: input.title,
+                description: input.description,
+                issuetype: { name: input.issueType },
+                ...(input.priority && { priority: { name: input.priority } }),
+                ...(input.labels?.length && { labels: input.labels }),
+            },
+        });
+
+        return {
+            id: String(data.id),
+            key: data.key,
+            url: `${this.baseUrl(auth)}/browse/${data.key}`,
+        };
+    }
+
+    async updateTicketStatus(
+        auth: IssueTrackerAuthDetail,
+        ticketId: string,
+        status: string,
+    ): Promise<void> {
+        const client = this.client(auth);
+
+        // Jira moves tickets through the transitions of the workflow, not by status name
+        const { data } = await client.get(
+            `/rest/api/2/issue/${encodeURIComponent(ticketId)}/transitions`,
+        );
+
+        const transition = (data?.transitions ?? []).find(
+            (t: { name: string; to?: { name: string } }) =>
+                t.to?.name?.toLowerCase() === status.toLowerCase() ||
+                t.name?.toLowerCase() === status.toLowerCase(),
+        );
+
+        if (!transition) {
+            throw new Error(
+                `No Jira transition to status "${status}" for ticket ${ticketId}`,
+            );
+        }
+
+        await client.post(
+            `/rest/api/2/issue/${encodeURIComponent(ticketId)}/transitions`,
+            { transition: { id: transition.id } },
+        );
+    }
+
+    parseStatusEvent(
+        payload: Record<string, any>,
+    ): IssueTrackerStatusEvent | null {
+        if (payload?.webhookEvent !== 'jira:issue_updated') {
+            return null;
+        }
+
+        const statusChange = payload.changelog?.items?.find(
+            (item: { field: string }) => item.field === 'status',
+        );
+
+        if (!statusChange || !payload.issue?.id) {
+            return null;
+        }
+
+        return {
+            ticketId: String(payload.issue.id),
+            status: statusChange.toString,
+            changedBy: payload.user?.displayName,
+        };
+    }
+
+    private client(auth: IssueTrackerAuthDetail): AxiosInstance {
+        const { email, apiToken } = auth as JiraAuthDetail;
+
+        return axios.create({
+            baseURL: this.baseUrl(auth),
+            auth: { username: email, password: apiToken },
+            headers: { Accept: 'application/json' },
+            timeout: 30000,
+        });
+    }
+
+    private baseUrl(auth: IssueTrackerAuthDetail): string {
+        return (auth as JiraAuthDetail).baseUrl.replace(/\/+$/, '');
+    }
+}
@@ -10,18 +10,23 @@ import { IntegrationConfigCoreModule } from './config-core.module';
 import { INTEGRATION_REPOSITORY_TOKEN } from '../domain/integrations/contracts/integration.repository.contracts';
 import { INTEGRATION_SERVICE_TOKEN } from '../domain/integrations/contracts/integration.service.contracts';
 import { IntegrationService } from '../infrastructure/adapters/services/integration.service';
+import { AzureBoardsIssueTrackerAdapter } from '../infrastructure/adapters/services/issueTracker/azureBoards.adapter';
+import { IssueTrackerAdapterFactory } from '../infrastructure/adapters/services/issueTracker/issueTrackerAdapter.factory';
+import { JiraIssueTrackerAdapter } from '../infrastructure/adapters/services/issueTracker/jira.adapter';
 
 // Use Cases
 import { CloneIntegrationUseCase } from '../application/use-cases/clone-integration.use-case';
 import { GetOrganizationIdUseCase } from '../application/use-cases/get-organization-id.use-case';
 import { GetIntegrationConfigsByIntegrationCategoryUseCase } from '../application/use-cases/integrationConfig/getIntegrationConfigsByIntegrationCategory.use-case';
 import { CheckHasIntegrationByPlatformUseCase } from '../application/use-cases/check-has-connection.use-case';
+import { ConnectIssueTrackerUseCase } from '../application/use-cases/issueTracker/connect-issue-tracker.use-case';
 
 const UseCases = [
     CloneIntegrationUseCase,
     GetOrganizationIdUseCase,
     GetIntegrationConfigsByIntegrationCategoryUseCase,
     CheckHasIntegrationByPlatformUseCase,
+    ConnectIssueTrackerUseCase,
 ];
 
 @Module({
@@ -33,6 +38,9 @@ const UseCases = [
     ],
     providers: [
         ...UseCases,
+        JiraIssueTrackerAdapter,
+        AzureBoardsIssueTrackerAdapter,
+        IssueTrackerAdapterFactory,
         {
             provide: INTEGRATION_SERVICE_TOKEN,
             useClass: IntegrationService,
@@ -45,6 +53,7 @@ const UseCases = [
     exports: [
         INTEGRATION_SERVICE_TOKEN,
         INTEGRATION_REPOSITORY_TOKEN,
+        IssueTrackerAdapterFactory,
         ...UseCases,
     ],
 })
@@ -0,0 +1,74 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import { KODY_ISSUES_MANAGEMENT_SERVICE_TOKEN } from '@libs/code-review/domain/contracts/KodyIssuesManagement.contract';
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import {
+    Action,
+    ResourceType,
+} from '@libs/identity/domain/permissions/enums/permissions.enum';
+import { AuthorizationService } from '@libs/identity/infrastructure/adapters/services/permissions/authorization.service';
+import {
+    IIssuesService,
+    ISSUES_SERVICE_TOKEN,
+} from '@libs/issues/domain/contracts/issues.service.contract';
+import { IssuesEntity } from '@libs/issues/domain/entities/issues.entity';
+import { IIssueAssignment } from '@libs/issues/domain/interfaces/issues.interface';
+import { KodyIssuesManagementService } from '@libs/issues/infrastructure/adapters/service/kodyIssuesManagement.service';
+
+@Injectable()
+export class AssignIssueUseCase implements IUseCase {
+    constructor(
+        @Inject(ISSUES_SERVICE_TOKEN)
+        private readonly issuesService: IIssuesService,
+
+        @Inject(KODY_ISSUES_MANAGEMENT_SERVICE_TOKEN)
+        private readonly kodyIssuesManagementService: KodyIssuesManagementService,
+
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: {
+                uuid: string;
+                organization: { uuid: string };
+            };
+        },
+
+        private readonly authorizationService: AuthorizationService,
+    ) {}
+
+    /** A `null` assignee leaves the issue unassigned. */
+    async execute(
+        uuid: string,
+        assignee: IIssueAssignment['assignee'],
+    ): Promise<IssuesEntity | null> {
+        const issue = await this.issuesService.findById(uuid);
+
+        if (!issue || !issue.repository?.id) {
+            throw new NotFoundException('Issue not found');
+        }
+
+        await this.authorizationService.ensure({
+            user: this.request.user,
+            action: Action.Update,
+            resource: ResourceType.Issues,
+            repoIds: [issue.repository.id],
+        });
+
+        const updated = await this.issuesService.assign(
+            uuid,
+            assignee
+                ? {
+                      gitId: assignee.gitId.toString(),
+                      username: assignee.username,
+                  }
+                : null,
+            this.request.user.uuid,
+        );
+
+        await this.kodyIssuesManagementService.clearIssuesCache(
+            issue.organizationId,
+        );
+
+        return updated;
+    }
+}
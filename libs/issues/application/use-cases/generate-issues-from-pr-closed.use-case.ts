@@ -15,6 +15,10 @@ import {
     IIntegrationConfigService,
     INTEGRATION_CONFIG_SERVICE_TOKEN,
 } from '@libs/integrations/domain/integrationConfigs/contracts/integration-config.service.contracts';
+import {
+    IIssueTrackerSyncService,
+    ISSUE_TRACKER_SYNC_SERVICE_TOKEN,
+} from '@libs/issues/domain/contracts/issue-tracker-sync.service.contract';
 import {
     contextToGenerateIssues,
     IRepositoryToIssues,
@@ -38,6 +42,8 @@ export class GenerateIssuesFromPrClosedUseCase implements IUseCase {
         private readonly pullRequestService: IPullRequestsService,
         @Inject(INTEGRATION_CONFIG_SERVICE_TOKEN)
         private readonly integrationConfigService: IIntegrationConfigService,
+        @Inject(ISSUE_TRACKER_SYNC_SERVICE_TOKEN)
+        private readonly issueTrackerSyncService: IIssueTrackerSyncService,
     ) {}
 
     async execute(params: any): Promise<void> {
@@ -87,6 +93,11 @@ export class GenerateIssuesFromPrClosedUseCase implements IUseCase {
             await this.kodyIssuesManagementService.clearIssuesCache(
                 prData.context?.organizationAndTeamData?.organizationId,
             );
+
+            await this.exportToIssueTracker(
+                prData.context.organizationAndTeamData,
+                prData.context.repository.id,
+            );
         } catch (error) {
             this.logger.error({
                 context: GenerateIssuesFromPrClosedUseCase.name,
@@ -103,6 +114,26 @@ export class GenerateIssuesFromPrClosedUseCase implements IUseCase {
         }
     }
 
+    private async exportToIssueTracker(
+        organizationAndTeamData: OrganizationAndTeamData,
+        repositoryId: string,
+    ): Promise<void> {
+        try {
+            await this.issueTrackerSyncService.exportPendingIssues(
+                organizationAndTeamData,
+                repositoryId,
+            );
+        } catch (error) {
+            this.logger.error({
+                context: GenerateIssuesFromPrClosedUseCase.name,
+                serviceName: GenerateIssuesFromPrClosedUseCase.name,
+                message: `Error exporting issues to the issue tracker: ${error.message}`,
+                metadata: { organizationAndTeamData, repositoryId },
+                error,
+            });
+        }
+    }
+
     private async normalizePayload(params: any): Promise<{
         pullRequest: IMappedPullRequest;
         repository: IMappedRepository;
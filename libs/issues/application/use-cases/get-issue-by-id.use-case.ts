@@ -116,6 +116,11 @@ export class GetIssueByIdUseCase implements IUseCase {
             label: issue.label,
             severity: issue.severity,
             status: issue.status,
+            owner: issue.owner,
+            wontFixReason: issue.wontFixReason,
+            slaDueDate: issue.slaDueDate,
+            statusHistory: issue.statusHistory ?? [],
+            assignmentHistory: issue.assignmentHistory ?? [],
             contributingSuggestions: enrichedContributingSuggestions.map(
                 (suggestion) => ({
                     id: suggestion.id,
@@ -1,8 +1,11 @@
+import { AssignIssueUseCase } from './assign-issue.use-case';
 import { GenerateIssuesFromPrClosedUseCase } from './generate-issues-from-pr-closed.use-case';
 import { GetIssueByIdUseCase } from './get-issue-by-id.use-case';
 import { GetIssuesUseCase } from './get-issues.use-case';
 import { GetTotalIssuesUseCase } from './get-total-issues.use-case';
+import { SyncIssueFromTrackerUseCase } from './sync-issue-from-tracker.use-case';
 import { UpdateIssuePropertyUseCase } from './update-issue-property.use-case';
+import { UpdateIssueStatusUseCase } from './update-issue-status.use-case';
 
 export const UseCases = [
     GenerateIssuesFromPrClosedUseCase,
@@ -10,4 +13,7 @@ export const UseCases = [
     GetTotalIssuesUseCase,
     GetIssueByIdUseCase,
     UpdateIssuePropertyUseCase,
+    UpdateIssueStatusUseCase,
+    AssignIssueUseCase,
+    SyncIssueFromTrackerUseCase,
 ];
@@ -0,0 +1,44 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import { KODY_ISSUES_MANAGEMENT_SERVICE_TOKEN } from '@libs/code-review/domain/contracts/KodyIssuesManagement.contract';
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { IssueTrackerWebhookPayload } from '@libs/integrations/domain/issueTracker/types/issue-tracker.type';
+import {
+    IIssueTrackerSyncService,
+    ISSUE_TRACKER_SYNC_SERVICE_TOKEN,
+} from '@libs/issues/domain/contracts/issue-tracker-sync.service.contract';
+import { IssuesEntity } from '@libs/issues/domain/entities/issues.entity';
+import { KodyIssuesManagementService } from '@libs/issues/infrastructure/adapters/service/kodyIssuesManagement.service';
+
+/**
+ * Applies the status changes made on the ticket of an exported issue.
+ */
+@Injectable()
+export class SyncIssueFromTrackerUseCase implements IUseCase {
+    constructor(
+        @Inject(ISSUE_TRACKER_SYNC_SERVICE_TOKEN)
+        private readonly issueTrackerSyncService: IIssueTrackerSyncService,
+
+        @Inject(KODY_ISSUES_MANAGEMENT_SERVICE_TOKEN)
+        private readonly kodyIssuesManagementService: KodyIssuesManagementService,
+    ) {}
+
+    async execute(
+        platform: PlatformType,
+        payload: IssueTrackerWebhookPayload,
+    ): Promise<IssuesEntity | null> {
+        const issue = await this.issueTrackerSyncService.applyStatusEvent(
+            platform,
+            payload,
+        );
+
+        if (issue) {
+            await this.kodyIssuesManagementService.clearIssuesCache(
+                issue.organizationId,
+            );
+        }
+
+        return issue;
+    }
+}
@@ -70,9 +70,10 @@ export class UpdateIssuePropertyUseCase implements IUseCase {
                     value as LabelType,
                 );
             case 'status':
-                return await this.issuesService.updateStatus(
+                return await this.issuesService.changeStatus(
                     uuid,
                     value as IssueStatus,
+                    { changedBy: this.request.user.uuid },
                 );
             default:
                 throw new Error(`Invalid field: ${field}`);
@@ -0,0 +1,79 @@
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import { KODY_ISSUES_MANAGEMENT_SERVICE_TOKEN } from '@libs/code-review/domain/contracts/KodyIssuesManagement.contract';
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import {
+    Action,
+    ResourceType,
+} from '@libs/identity/domain/permissions/enums/permissions.enum';
+import { AuthorizationService } from '@libs/identity/infrastructure/adapters/services/permissions/authorization.service';
+import {
+    IIssuesService,
+    ISSUES_SERVICE_TOKEN,
+} from '@libs/issues/domain/contracts/issues.service.contract';
+import { IssuesEntity } from '@libs/issues/domain/entities/issues.entity';
+import { KodyIssuesManagementService } from '@libs/issues/infrastructure/adapters/service/kodyIssuesManagement.service';
+
+@Injectable()
+export class UpdateIssueStatusUseCase implements IUseCase {
+    constructor(
+        @Inject(ISSUES_SERVICE_TOKEN)
+        private readonly issuesService: IIssuesService,
+
+        @Inject(KODY_ISSUES_MANAGEMENT_SERVICE_TOKEN)
+        private readonly kodyIssuesManagementService: KodyIssuesManagementService,
+
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: {
+                uuid: string;
+                organization: { uuid: string };
+            };
+        },
+
+        private readonly authorizationService: AuthorizationService,
+    ) {}
+
+    async execute(
+        uuid: string,
+        status: IssueStatus,
+        reason?: string,
+    ): Promise<IssuesEntity | null> {
+        const issue = await this.issuesService.findById(uuid);
+
+        if (!issue || !issue.repository?.id) {
+            throw new NotFoundException('Issue not found');
+        }
+
+        await this.authorizationService.ensure({
+            user: this.request.user,
+            action: Action.Update,
+            resource: ResourceType.Issues,
+            repoIds: [issue.repository.id],
+        });
+
+        let updated: IssuesEntity | null;
+
+        try {
+            updated = await this.issuesService.changeStatus(uuid, status, {
+                reason,
+                changedBy: this.request.user.uuid,
+            });
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+
+        await this.kodyIssuesManagementService.clearIssuesCache(
+            issue.organizationId,
+        );
+
+        return updated;
+    }
+}
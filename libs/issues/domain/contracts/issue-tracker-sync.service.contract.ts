@@ -0,0 +1,25 @@
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import { IssueTrackerWebhookPayload } from '@libs/integrations/domain/issueTracker/types/issue-tracker.type';
+
+import { IssuesEntity } from '../entities/issues.entity';
+import { IIssueStatusChange } from '../interfaces/issues.interface';
+
+export const ISSUE_TRACKER_SYNC_SERVICE_TOKEN = Symbol.for(
+    'IssueTrackerSyncService',
+);
+
+export interface IIssueTrackerSyncService {
+    /** Creates a ticket for every active issue of the repository not exported yet. */
+    exportPendingIssues(
+        organizationAndTeamData: OrganizationAndTeamData,
+        repositoryId: string,
+    ): Promise<void>;
+
+    pushStatus(issue: IssuesEntity, change: IIssueStatusChange): Promise<void>;
+
+    applyStatusEvent(
+        platform: PlatformType,
+        payload: IssueTrackerWebhookPayload,
+    ): Promise<IssuesEntity | null>;
+}
@@ -1,9 +1,14 @@
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
 import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
 import { LabelType } from '@libs/common/utils/codeManagement/labels';
 import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
 
 import { IssuesEntity } from '../entities/issues.entity';
-import { IIssue } from '../interfaces/issues.interface';
+import {
+    IIssue,
+    IIssueAssignment,
+    IIssueStatusChange,
+} from '../interfaces/issues.interface';
 
 export const ISSUES_REPOSITORY_TOKEN = Symbol.for('IssuesRepository');
 
@@ -18,9 +23,19 @@ export interface IIssuesRepository {
         organizationId: string,
         repositoryId: string,
         filePath: string,
-        status?: IssueStatus,
+        status?: IssueStatus | IssueStatus[],
     ): Promise<IssuesEntity[] | null>;
     find(organizationId: string): Promise<IssuesEntity[]>;
+    findByExternalTicket(
+        organizationId: string,
+        platform: PlatformType,
+        ticketId: string,
+    ): Promise<IssuesEntity | null>;
+    /** Active issues of the repository not yet exported to a tracker. */
+    findNotExported(
+        organizationId: string,
+        repositoryId: string,
+    ): Promise<IssuesEntity[]>;
     findByFilters(filter?: Partial<IIssue>): Promise<IssuesEntity[]>;
 
     count(filter?: Partial<IIssue>): Promise<number>;
@@ -45,8 +60,20 @@ export interface IIssuesRepository {
     updateStatusByIds(
         uuids: string[],
         status: IssueStatus,
+        change?: Omit<IIssueStatusChange, 'from' | 'to'>,
     ): Promise<IssuesEntity[] | null>;
 
+    updateStatusWithHistory(
+        uuid: string,
+        change: IIssueStatusChange,
+        updateData?: Pick<Partial<IIssue>, 'wontFixReason' | 'slaDueDate'>,
+    ): Promise<IssuesEntity | null>;
+
+    updateAssignee(
+        uuid: string,
+        assignment: IIssueAssignment,
+    ): Promise<IssuesEntity | null>;
+
     addSuggestionIds(
         uuid: string,
         suggestionIds: string[],
@@ -1,5 +1,34 @@
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+
+import { IssuesEntity } from '../entities/issues.entity';
+import { IIssueAssignment } from '../interfaces/issues.interface';
 import { IIssuesRepository } from './issues.repository';
 
 export const ISSUES_SERVICE_TOKEN = Symbol.for('IssuesService');
 
-export interface IIssuesService extends IIssuesRepository {}
+export type IssueStatusChangeOptions = {
+    /** Required when moving to `wont_fix`. */
+    reason?: string;
+    changedBy?: string;
+    /** Tracker the change came from, so it is not synced back to it. */
+    origin?: PlatformType;
+};
+
+export interface IIssuesService extends IIssuesRepository {
+    /**
+     * Moves the issue through the workflow, recording the change in its
+     * status history. Throws when the transition is not allowed.
+     */
+    changeStatus(
+        uuid: string,
+        status: IssueStatus,
+        options?: IssueStatusChangeOptions,
+    ): Promise<IssuesEntity | null>;
+
+    assign(
+        uuid: string,
+        assignee: IIssueAssignment['assignee'],
+        assignedBy?: string,
+    ): Promise<IssuesEntity | null>;
+}
@@ -10,6 +10,8 @@ export interface IssueCreationConfig {
         minimumSeverity: SeverityLevel;
         allowedSeverities: SeverityLevel[];
     };
+    /** Days to fix an issue, per severity. Missing ones use the defaults. */
+    slaDays?: Partial<Record<SeverityLevel, number>>;
     organizationId: string;
     teamId?: string;
 }
@@ -7,7 +7,12 @@ import {
     IRepositoryToIssues,
 } from '@libs/issues/domain/interfaces/kodyIssuesManagement.interface';
 
-import { IIssue } from '../interfaces/issues.interface';
+import {
+    IIssue,
+    IIssueAssignment,
+    IIssueExternalTicket,
+    IIssueStatusChange,
+} from '../interfaces/issues.interface';
 
 export class IssuesEntity implements Entity<IIssue> {
     public uuid?: string;
@@ -31,6 +36,11 @@ export class IssuesEntity implements Entity<IIssue> {
         gitId: string;
         username: string;
     };
+    public wontFixReason?: string;
+    public statusHistory?: IIssueStatusChange[];
+    public assignmentHistory?: IIssueAssignment[];
+    public slaDueDate?: string;
+    public externalTicket?: IIssueExternalTicket;
 
     constructor(issue: IIssue) {
         this.uuid = issue.uuid;
@@ -48,6 +58,11 @@ export class IssuesEntity implements Entity<IIssue> {
         this.updatedAt = issue.updatedAt;
         this.owner = issue.owner;
         this.reporter = issue.reporter;
+        this.wontFixReason = issue.wontFixReason;
+        this.statusHistory = issue.statusHistory;
+        this.assignmentHistory = issue.assignmentHistory;
+        this.slaDueDate = issue.slaDueDate;
+        this.externalTicket = issue.externalTicket;
     }
 
     public static create(issue: IIssue): IssuesEntity {
@@ -71,6 +86,11 @@ export class IssuesEntity implements Entity<IIssue> {
             updatedAt: this.updatedAt,
             owner: this.owner,
             reporter: this.reporter,
+            wontFixReason: this.wontFixReason,
+            statusHistory: this.statusHistory,
+            assignmentHistory: this.assignmentHistory,
+            slaDueDate: this.slaDueDate,
+            externalTicket: this.externalTicket,
         };
     }
 
@@ -91,6 +111,11 @@ export class IssuesEntity implements Entity<IIssue> {
             updatedAt: this.updatedAt,
             owner: this.owner,
             reporter: this.reporter,
+            wontFixReason: this.wontFixReason,
+            statusHistory: this.statusHistory,
+            assignmentHistory: this.assignmentHistory,
+            slaDueDate: this.slaDueDate,
+            externalTicket: this.externalTicket,
         };
     }
 }
@@ -0,0 +1,11 @@
+import { IssuesEntity } from '../entities/issues.entity';
+import { IIssueStatusChange } from '../interfaces/issues.interface';
+
+export const ISSUE_STATUS_CHANGED_EVENT = 'issue.status.changed';
+
+export class IssueStatusChangedEvent {
+    constructor(
+        public readonly issue: IssuesEntity,
+        public readonly change: IIssueStatusChange,
+    ) {}
+}
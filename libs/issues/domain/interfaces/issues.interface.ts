@@ -1,3 +1,4 @@
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
 import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
 import { LabelType } from '@libs/common/utils/codeManagement/labels';
 import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
@@ -6,6 +7,36 @@ import {
     IRepositoryToIssues,
 } from '@libs/issues/domain/interfaces/kodyIssuesManagement.interface';
 
+export interface IIssueStatusChange {
+    from?: IssueStatus;
+    to: IssueStatus;
+    reason?: string;
+    /** User id or username of who changed it, `kodus` for automatic changes. */
+    changedBy?: string;
+    /** Set when the change came from an external issue tracker. */
+    origin?: PlatformType;
+    changedAt: string;
+}
+
+export interface IIssueAssignment {
+    assignee: {
+        gitId: string;
+        username: string;
+    } | null;
+    assignedBy?: string;
+    assignedAt: string;
+}
+
+/** Ticket the issue was exported to on an external issue tracker. */
+export interface IIssueExternalTicket {
+    platform: PlatformType;
+    teamId: string;
+    id: string;
+    key: string;
+    url: string;
+    exportedAt: string;
+}
+
 export interface IIssue {
     uuid?: string;
     title: string;
@@ -30,4 +61,9 @@ export interface IIssue {
         gitId: string;
         username: string;
     };
+    wontFixReason?: string;
+    statusHistory?: IIssueStatusChange[];
+    assignmentHistory?: IIssueAssignment[];
+    slaDueDate?: string;
+    externalTicket?: IIssueExternalTicket;
 }
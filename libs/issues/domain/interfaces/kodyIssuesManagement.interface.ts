@@ -4,6 +4,8 @@ import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/
 import { LabelType } from '@libs/common/utils/codeManagement/labels';
 import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
 
+import { IIssueAssignment, IIssueStatusChange } from './issues.interface';
+
 export interface IIssueDetails {
     id: string;
     title: string;
@@ -12,6 +14,14 @@ export interface IIssueDetails {
     label: LabelType;
     severity: SeverityLevel;
     status: IssueStatus;
+    owner?: {
+        gitId: string;
+        username: string;
+    };
+    wontFixReason?: string;
+    slaDueDate?: string;
+    statusHistory?: IIssueStatusChange[];
+    assignmentHistory?: IIssueAssignment[];
     contributingSuggestions: IContributingSuggestion[];
     fileLink: {
         label: string;
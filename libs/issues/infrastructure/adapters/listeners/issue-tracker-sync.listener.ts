@@ -0,0 +1,42 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+
+import {
+    IIssueTrackerSyncService,
+    ISSUE_TRACKER_SYNC_SERVICE_TOKEN,
+} from '@libs/issues/domain/contracts/issue-tracker-sync.service.contract';
+import {
+    ISSUE_STATUS_CHANGED_EVENT,
+    IssueStatusChangedEvent,
+} from '@libs/issues/domain/events/issue-status-changed.event';
+
+@Injectable()
+export class IssueTrackerSyncListener {
+    private readonly logger = createLogger(IssueTrackerSyncListener.name);
+
+    constructor(
+        @Inject(ISSUE_TRACKER_SYNC_SERVICE_TOKEN)
+        private readonly issueTrackerSyncService: IIssueTrackerSyncService,
+    ) {}
+
+    @OnEvent(ISSUE_STATUS_CHANGED_EVENT, { async: true })
+    async handleIssueStatusChangedEvent(event: IssueStatusChangedEvent) {
+        if (!event.issue.externalTicket) {
+            return;
+        }
+
+        try {
+            await this.issueTrackerSyncService.pushStatus(
+                event.issue,
+                event.change,
+            );
+        } catch (error) {
+            this.logger.error({
+                message: `Error syncing status of issue ${event.issue.uuid}`,
+                context: IssueTrackerSyncListener.name,
+                error,
+            });
+        }
+    }
+}
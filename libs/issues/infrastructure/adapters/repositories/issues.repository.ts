@@ -2,14 +2,22 @@ import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 
-import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import {
+    ACTIVE_ISSUE_STATUSES,
+    IssueStatus,
+} from '@libs/core/infrastructure/config/types/general/issues.type';
 import {
     mapSimpleModelsToEntities,
     mapSimpleModelToEntity,
 } from '@libs/core/infrastructure/repositories/mappers';
 import { IIssuesRepository } from '@libs/issues/domain/contracts/issues.repository';
 import { IssuesEntity } from '@libs/issues/domain/entities/issues.entity';
-import { IIssue } from '@libs/issues/domain/interfaces/issues.interface';
+import {
+    IIssue,
+    IIssueAssignment,
+    IIssueStatusChange,
+} from '@libs/issues/domain/interfaces/issues.interface';
 
 import { IssuesModel } from './schemas/issues.model';
 import { LabelType } from '@libs/common/utils/codeManagement/labels';
@@ -45,13 +53,19 @@ export class IssuesRepository implements IIssuesRepository {
         organizationId: string,
         repositoryId: string,
         filePath: string,
-        status?: IssueStatus,
+        status?: IssueStatus | IssueStatus[],
     ): Promise<IssuesEntity[] | null> {
+        const statusFilter = Array.isArray(status)
+            ? { $in: status }
+            : status
+              ? status
+              : { $ne: IssueStatus.OPEN };
+
         const issues = await this.issuesModel.find({
             'organizationId': organizationId,
             'repository.id': repositoryId,
             'filePath': filePath,
-            'status': status ? status : { $ne: IssueStatus.OPEN },
+            'status': statusFilter,
         });
 
         return issues ? mapSimpleModelsToEntities(issues, IssuesEntity) : null;
@@ -76,6 +90,8 @@ export class IssuesRepository implements IIssuesRepository {
                 'label': 1,
                 'severity': 1,
                 'status': 1,
+                'owner': 1,
+                'slaDueDate': 1,
                 'repository.id': 1,
                 'repository.name': 1,
                 'contributingSuggestions': 1,
@@ -86,6 +102,38 @@ export class IssuesRepository implements IIssuesRepository {
         return mapSimpleModelsToEntities(docs, IssuesEntity);
     }
 
+    async findByExternalTicket(
+        organizationId: string,
+        platform: PlatformType,
+        ticketId: string,
+    ): Promise<IssuesEntity | null> {
+        const doc = await this.issuesModel
+            .findOne({
+                'organizationId': organizationId,
+                'externalTicket.platform': platform,
+                'externalTicket.id': ticketId,
+            })
+            .exec();
+
+        return doc ? mapSimpleModelToEntity(doc, IssuesEntity) : null;
+    }
+
+    async findNotExported(
+        organizationId: string,
+        repositoryId: string,
+    ): Promise<IssuesEntity[]> {
+        const docs = await this.issuesModel
+            .find({
+                'organizationId': organizationId,
+                'repository.id': repositoryId,
+                'status': { $in: ACTIVE_ISSUE_STATUSES },
+                'externalTicket': { $exists: false },
+            })
+            .exec();
+
+        return mapSimpleModelsToEntities(docs, IssuesEntity);
+    }
+
     async count(filter?: Partial<IIssue>): Promise<number> {
         return await this.issuesModel.countDocuments(filter).exec();
     }
@@ -164,15 +212,52 @@ export class IssuesRepository implements IIssuesRepository {
     async updateStatusByIds(
         uuids: string[],
         status: IssueStatus,
+        change?: Omit<IIssueStatusChange, 'from' | 'to'>,
     ): Promise<IssuesEntity[] | null> {
         await this.issuesModel.updateMany(
             { _id: { $in: uuids } },
-            { $set: { status: status } },
+            {
+                $set: { status: status },
+                ...(change && {
+                    $push: { statusHistory: { ...change, to: status } },
+                }),
+            },
         );
 
         const docs = await this.issuesModel.find({ _id: { $in: uuids } });
         return mapSimpleModelsToEntities(docs, IssuesEntity);
     }
+
+    async updateStatusWithHistory(
+        uuid: string,
+        change: IIssueStatusChange,
+        updateData: Pick<Partial<IIssue>, 'wontFixReason' | 'slaDueDate'> = {},
+    ): Promise<IssuesEntity | null> {
+        const doc = await this.issuesModel.findByIdAndUpdate(
+            uuid,
+            {
+                $set: { ...updateData, status: change.to },
+                $push: { statusHistory: change },
+            },
+            { new: true },
+        );
+        return doc ? mapSimpleModelToEntity(doc, IssuesEntity) : null;
+    }
+
+    async updateAssignee(
+        uuid: string,
+        assignment: IIssueAssignment,
+    ): Promise<IssuesEntity | null> {
+        const doc = await this.issuesModel.findByIdAndUpdate(
+            uuid,
+            {
+                $set: { owner: assignment.assignee },
+                $push: { assignmentHistory: assignment },
+            },
+            { new: true },
+        );
+        return doc ? mapSimpleModelToEntity(doc, IssuesEntity) : null;
+    }
     //#endregion
 
     async addSuggestionIds(
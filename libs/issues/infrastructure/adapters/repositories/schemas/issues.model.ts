@@ -2,6 +2,11 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 
 import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
 import { CoreDocument } from '@libs/core/infrastructure/repositories/model/mongodb';
+import {
+    IIssueAssignment,
+    IIssueExternalTicket,
+    IIssueStatusChange,
+} from '@libs/issues/domain/interfaces/issues.interface';
 import {
     IContributingSuggestion,
     IRepositoryToIssues,
@@ -56,6 +61,21 @@ export class IssuesModel extends CoreDocument {
         gitId: string;
         username: string;
     };
+
+    @Prop({ type: String, required: false })
+    public wontFixReason?: string;
+
+    @Prop({ type: Array, required: false, default: [] })
+    public statusHistory?: IIssueStatusChange[];
+
+    @Prop({ type: Array, required: false, default: [] })
+    public assignmentHistory?: IIssueAssignment[];
+
+    @Prop({ type: String, required: false })
+    public slaDueDate?: string;
+
+    @Prop({ type: Object, required: false })
+    public externalTicket?: IIssueExternalTicket;
 }
 
 export const IssuesSchema = SchemaFactory.createForClass(IssuesModel);
@@ -98,3 +118,16 @@ IssuesSchema.index(
         name: 'organization_label_severity_open',
     },
 );
+
+// 5. Issues linked to an external tracker ticket
+IssuesSchema.index(
+    {
+        'organizationId': 1,
+        'externalTicket.platform': 1,
+        'externalTicket.id': 1,
+    },
+    {
+        partialFilterExpression: { externalTicket: { $exists: true } },
+        name: 'external_ticket',
+    },
+);
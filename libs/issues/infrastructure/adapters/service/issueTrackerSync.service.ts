@@ -0,0 +1,378 @@
+import { timingSafeEqual } from 'crypto';
+
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+
+import { decrypt } from '@libs/common/utils/crypto';
+import { IntegrationCategory } from '@libs/core/domain/enums/integration-category.enum';
+import { IntegrationConfigKey } from '@libs/core/domain/enums/Integration-config-key.enum';
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import {
+    ACTIVE_ISSUE_STATUSES,
+    IssueStatus,
+} from '@libs/core/infrastructure/config/types/general/issues.type';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import {
+    IIntegrationConfigService,
+    INTEGRATION_CONFIG_SERVICE_TOKEN,
+} from '@libs/integrations/domain/integrationConfigs/contracts/integration-config.service.contracts';
+import {
+    IIntegrationService,
+    INTEGRATION_SERVICE_TOKEN,
+} from '@libs/integrations/domain/integrations/contracts/integration.service.contracts';
+import { IIssueTrackerAdapter } from '@libs/integrations/domain/issueTracker/contracts/issue-tracker.adapter.contract';
+import {
+    AzureBoardsAuthDetail,
+    IssueTrackerAuthDetail,
+    IssueTrackerSyncConfig,
+    IssueTrackerWebhookPayload,
+    JiraAuthDetail,
+} from '@libs/integrations/domain/issueTracker/types/issue-tracker.type';
+import { IssueTrackerAdapterFactory } from '@libs/integrations/infrastructure/adapters/services/issueTracker/issueTrackerAdapter.factory';
+import { IIssueTrackerSyncService } from '@libs/issues/domain/contracts/issue-tracker-sync.service.contract';
+import {
+    IIssuesService,
+    ISSUES_SERVICE_TOKEN,
+} from '@libs/issues/domain/contracts/issues.service.contract';
+import { IssuesEntity } from '@libs/issues/domain/entities/issues.entity';
+import { IIssueStatusChange } from '@libs/issues/domain/interfaces/issues.interface';
+
+type IssueTrackerConnection = {
+    adapter: IIssueTrackerAdapter;
+    auth: IssueTrackerAuthDetail;
+    config: IssueTrackerSyncConfig;
+};
+
+type IssueTrackerWebhookTarget = {
+    organizationAndTeamData: OrganizationAndTeamData;
+    config: IssueTrackerSyncConfig;
+};
+
+@Injectable()
+export class IssueTrackerSyncService implements IIssueTrackerSyncService {
+    private readonly logger = createLogger(IssueTrackerSyncService.name);
+
+    constructor(
+        @Inject(ISSUES_SERVICE_TOKEN)
+        private readonly issuesService: IIssuesService,
+
+        @Inject(INTEGRATION_SERVICE_TOKEN)
+        private readonly integrationService: IIntegrationService,
+
+        @Inject(INTEGRATION_CONFIG_SERVICE_TOKEN)
+        private readonly integrationConfigService: IIntegrationConfigService,
+
+        private readonly issueTrackerAdapterFactory: IssueTrackerAdapterFactory,
+    ) {}
+
+    async exportPendingIssues(
+        organizationAndTeamData: OrganizationAndTeamData,
+        repositoryId: string,
+    ): Promise<void> {
+        const connection = await this.getConnection(organizationAndTeamData);
+
+        if (!connection) {
+            return;
+        }
+
+        const { adapter, auth, config } = connection;
+
+        const issues = await this.issuesService.findNotExported(
+            organizationAndTeamData.organizationId,
+            repositoryId,
+        );
+
+        for (const issue of issues ?? []) {
+            try {
+                const ticket = await adapter.createTicket(auth, {
+                    title: issue.title,
+                    description: this.buildTicketDescription(issue),
+                    issueType: config.issueType,
+                    projectKey: config.projectKey,
+                    priority: config.priorityMapping?.[issue.severity],
+                    labels: config.labels,
+                });
+
+                await this.issuesService.update(issue, {
+                    externalTicket: {
+                        platform: adapter.platform,
+                        teamId: organizationAndTeamData.teamId,
+                        ...ticket,
+                        exportedAt: new Date().toISOString(),
+                    },
+                });
+            } catch (error) {
+                this.logger.error({
+                    message: `Error exporting issue ${issue.uuid} to ${adapter.platform}`,
+                    context: IssueTrackerSyncService.name,
+                    error,
+                    metadata: { organizationAndTeamData, repositoryId },
+                });
+            }
+        }
+    }
+
+    async pushStatus(
+        issue: IssuesEntity,
+        change: IIssueStatusChange,
+    ): Promise<void> {
+        const ticket = issue.externalTicket;
+
+        // Changes that came from the tracker are already there
+        if (!ticket || change.origin === ticket.platform) {
+            return;
+        }
+
+        const connection = await this.getConnection({
+            organizationId: issue.organizationId,
+            teamId: ticket.teamId,
+        });
+
+        if (!connection || connection.adapter.platform !== ticket.platform) {
+            return;
+        }
+
+        const { adapter, auth, config } = connection;
+
+        const status =
+            config.statusMapping?.[change.to] ??
+            adapter.defaultStatusMapping[change.to];
+
+        try {
+            await adapter.updateTicketStatus(auth, ticket.id, status);
+        } catch (error) {
+            this.logger.error({
+                message: `Error syncing status of issue ${issue.uuid} to ${ticket.platform} ticket ${ticket.key}`,
+                context: IssueTrackerSyncService.name,
+                error,
+                metadata: { status, change },
+            });
+        }
+    }
+
+    async applyStatusEvent(
+        platform: PlatformType,
+        payload: IssueTrackerWebhookPayload,
+    ): Promise<IssuesEntity | null> {
+        if (!this.issueTrackerAdapterFactory.isSupported(platform)) {
+            return null;
+        }
+
+        const adapter = this.issueTrackerAdapterFactory.getAdapter(platform);
+        const event = adapter.parseStatusEvent(payload?.data);
+
+        if (!event) {
+            return null;
+        }
+
+        // The token identifies the connection, so the ticket is only
+        // looked up in the organization that owns it
+        const target = await this.findWebhookTarget(platform, payload?.token);
+
+        if (!target) {
+            this.logger.warn({
+                message: `Rejected ${platform} webhook for ticket ${event.ticketId}`,
+                context: IssueTrackerSyncService.name,
+            });
+            return null;
+        }
+
+        const { organizationAndTeamData, config } = target;
+
+        // A disabled sync neither exports issues nor takes tracker changes
+        if (!config.enabled) {
+            return null;
+        }
+
+        const issue = await this.issuesService.findByExternalTicket(
+            organizationAndTeamData.organizationId,
+            platform,
+            event.ticketId,
+        );
+
+        if (
+            !issue ||
+            issue.externalTicket.teamId !== organizationAndTeamData.teamId
+        ) {
+            return null;
+        }
+
+        const status = this.toIssueStatus(
+            issue,
+            event.status,
+            config.statusMapping,
+            adapter.defaultStatusMapping,
+        );
+
+        if (!status || status === issue.status) {
+            return issue;
+        }
+
+        try {
+            return await this.issuesService.changeStatus(issue.uuid, status, {
+                changedBy: event.changedBy,
+                origin: platform,
+                ...(status === IssueStatus.WONT_FIX && {
+                    reason: `Closed as "${event.status}" on ${platform}`,
+                }),
+            });
+        } catch (error) {
+            this.logger.warn({
+                message: `Ignored ${platform} status "${event.status}" for issue ${issue.uuid}`,
+                context: IssueTrackerSyncService.name,
+                error,
+            });
+            return issue;
+        }
+    }
+
+    private toIssueStatus(
+        issue: IssuesEntity,
+        trackerStatus: string,
+        statusMapping: IssueTrackerSyncConfig['statusMapping'],
+        defaultStatusMapping: Record<IssueStatus, string>,
+    ): IssueStatus | null {
+        const mapping = { ...defaultStatusMapping, ...statusMapping };
+
+        // Several Kody statuses can share a tracker status, the current one wins
+        const candidates = (Object.keys(mapping) as IssueStatus[]).filter(
+            (status) =>
+                mapping[status]?.toLowerCase() === trackerStatus?.toLowerCase(),
+        );
+
+        if (!candidates.length) {
+            return null;
+        }
+
+        if (candidates.includes(issue.status)) {
+            return issue.status;
+        }
+
+        const isClosed = !ACTIVE_ISSUE_STATUSES.includes(issue.status);
+        const isReopening = candidates.some((status) =>
+            ACTIVE_ISSUE_STATUSES.includes(status),
+        );
+
+        if (isClosed && isReopening) {
+            return IssueStatus.REOPENED;
+        }
+
+        return candidates[0];
+    }
+
+    private isValidWebhookToken(
+        config: IssueTrackerSyncConfig,
+        token?: string,
+    ): boolean {
+        if (!config.webhookToken || !token) {
+            return false;
+        }
+
+        const expected = Buffer.from(config.webhookToken);
+        const received = Buffer.from(token);
+
+        return (
+            expected.length === received.length &&
+            timingSafeEqual(expected, received)
+        );
+    }
+
+    private async findWebhookTarget(
+        platform: PlatformType,
+        token?: string,
+    ): Promise<IssueTrackerWebhookTarget | null> {
+        if (!token) {
+            return null;
+        }
+
+        const integrationConfig = await this.integrationConfigService.findOne({
+            configKey: IntegrationConfigKey.ISSUE_TRACKER_SYNC,
+            configValue: { webhookToken: token },
+        });
+
+        const config = integrationConfig?.configValue as
+            IssueTrackerSyncConfig | undefined;
+        const organizationId =
+            integrationConfig?.integration?.organization?.uuid;
+        const teamId = integrationConfig?.team?.uuid;
+
+        if (
+            !config ||
+            !organizationId ||
+            !teamId ||
+            integrationConfig.integration.platform !== platform ||
+            !this.isValidWebhookToken(config, token)
+        ) {
+            return null;
+        }
+
+        return { organizationAndTeamData: { organizationId, teamId }, config };
+    }
+
+    private async getConnection(
+        organizationAndTeamData: OrganizationAndTeamData,
+    ): Promise<IssueTrackerConnection | null> {
+        const config = await this.getSyncConfig(organizationAndTeamData);
+
+        if (!config?.enabled) {
+            return null;
+        }
+
+        const integration = await this.integrationService.findOne({
+            organization: { uuid: organizationAndTeamData.organizationId },
+            team: { uuid: organizationAndTeamData.teamId },
+            integrationCategory: IntegrationCategory.ISSUE_TRACKER,
+            status: true,
+        });
+
+        const authDetails = integration?.authIntegration?.authDetails;
+
+        if (
+            !authDetails ||
+            !this.issueTrackerAdapterFactory.isSupported(integration.platform)
+        ) {
+            return null;
+        }
+
+        return {
+            adapter: this.issueTrackerAdapterFactory.getAdapter(
+                integration.platform,
+            ),
+            auth: this.decryptAuthDetails(integration.platform, authDetails),
+            config,
+        };
+    }
+
+    private async getSyncConfig(
+        organizationAndTeamData: OrganizationAndTeamData,
+    ): Promise<IssueTrackerSyncConfig | null> {
+        return this.integrationConfigService.findIntegrationConfigFormatted<IssueTrackerSyncConfig>(
+            IntegrationConfigKey.ISSUE_TRACKER_SYNC,
+            organizationAndTeamData,
+        );
+    }
+
+    private decryptAuthDetails(
+        platform: PlatformType,
+        authDetails: IssueTrackerAuthDetail,
+    ): IssueTrackerAuthDetail {
+        if (platform === PlatformType.JIRA) {
+            const jira = authDetails as JiraAuthDetail;
+            return { ...jira, apiToken: decrypt(jira.apiToken) };
+        }
+
+        const azureBoards = authDetails as AzureBoardsAuthDetail;
+        return { ...azureBoards, token: decrypt(azureBoards.token) };
+    }
+
+    private buildTicketDescription(issue: IssuesEntity): string {
+        return [
+            issue.description,
+            '',
+            `Repository: ${issue.repository?.name}`,
+            `File: ${issue.filePath}`,
+            `Severity: ${issue.severity}`,
+            `Kody Issue: ${issue.uuid}`,
+        ].join('\n');
+    }
+}
@@ -1,15 +1,32 @@
 import { Injectable, Inject } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 
 import { GetIssuesByFiltersDto } from '@libs/core/domain/dtos/get-issues-by-filters.dto';
-import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import {
+    canTransitionIssueStatus,
+    getIssueSlaDueDate,
+    IssueStatus,
+} from '@libs/core/infrastructure/config/types/general/issues.type';
 
 import {
     IIssuesRepository,
     ISSUES_REPOSITORY_TOKEN,
 } from '@libs/issues/domain/contracts/issues.repository';
-import { IIssuesService } from '@libs/issues/domain/contracts/issues.service.contract';
+import {
+    IIssuesService,
+    IssueStatusChangeOptions,
+} from '@libs/issues/domain/contracts/issues.service.contract';
 import { IssuesEntity } from '@libs/issues/domain/entities/issues.entity';
-import { IIssue } from '@libs/issues/domain/interfaces/issues.interface';
+import {
+    ISSUE_STATUS_CHANGED_EVENT,
+    IssueStatusChangedEvent,
+} from '@libs/issues/domain/events/issue-status-changed.event';
+import {
+    IIssue,
+    IIssueAssignment,
+    IIssueStatusChange,
+} from '@libs/issues/domain/interfaces/issues.interface';
 import { LabelType } from '@libs/common/utils/codeManagement/labels';
 import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
 
@@ -18,6 +35,8 @@ export class IssuesService implements IIssuesService {
     constructor(
         @Inject(ISSUES_REPOSITORY_TOKEN)
         private readonly issuesRepository: IIssuesRepository,
+
+        private readonly eventEmitter: EventEmitter2,
     ) {}
 
     getNativeCollection() {
@@ -33,7 +52,7 @@ export class IssuesService implements IIssuesService {
         organizationId: string,
         repositoryId: string,
         filePath: string,
-        status?: IssueStatus,
+        status?: IssueStatus | IssueStatus[],
     ): Promise<IssuesEntity[] | null> {
         return this.issuesRepository.findByFileAndStatus(
             organizationId,
@@ -55,6 +74,28 @@ export class IssuesService implements IIssuesService {
         return await this.issuesRepository.find(organizationId);
     }
 
+    async findByExternalTicket(
+        organizationId: string,
+        platform: PlatformType,
+        ticketId: string,
+    ): Promise<IssuesEntity | null> {
+        return this.issuesRepository.findByExternalTicket(
+            organizationId,
+            platform,
+            ticketId,
+        );
+    }
+
+    async findNotExported(
+        organizationId: string,
+        repositoryId: string,
+    ): Promise<IssuesEntity[]> {
+        return this.issuesRepository.findNotExported(
+            organizationId,
+            repositoryId,
+        );
+    }
+
     async findByFilters(
         filter?: GetIssuesByFiltersDto,
     ): Promise<IssuesEntity[]> {
@@ -97,8 +138,107 @@ export class IssuesService implements IIssuesService {
     async updateStatusByIds(
         uuids: string[],
         status: IssueStatus,
+        change?: Omit<IIssueStatusChange, 'from' | 'to'>,
     ): Promise<IssuesEntity[] | null> {
-        return this.issuesRepository.updateStatusByIds(uuids, status);
+        return this.issuesRepository.updateStatusByIds(uuids, status, change);
+    }
+
+    async updateStatusWithHistory(
+        uuid: string,
+        change: IIssueStatusChange,
+        updateData?: Pick<Partial<IIssue>, 'wontFixReason' | 'slaDueDate'>,
+    ): Promise<IssuesEntity | null> {
+        return this.issuesRepository.updateStatusWithHistory(
+            uuid,
+            change,
+            updateData,
+        );
+    }
+
+    async updateAssignee(
+        uuid: string,
+        assignment: IIssueAssignment,
+    ): Promise<IssuesEntity | null> {
+        return this.issuesRepository.updateAssignee(uuid, assignment);
+    }
+
+    async changeStatus(
+        uuid: string,
+        status: IssueStatus,
+        options: IssueStatusChangeOptions = {},
+    ): Promise<IssuesEntity | null> {
+        const issue = await this.issuesRepository.findById(uuid);
+
+        if (!issue) {
+            return null;
+        }
+
+        if (issue.status === status) {
+            return issue;
+        }
+
+        if (!canTransitionIssueStatus(issue.status, status)) {
+            throw new Error(
+                `Cannot change issue status from ${issue.status} to ${status}`,
+            );
+        }
+
+        const reason = options.reason?.trim();
+
+        if (status === IssueStatus.WONT_FIX && !reason) {
+            throw new Error(
+                "A reason is required to mark an issue as won't fix",
+            );
+        }
+
+        const updateData: Pick<
+            Partial<IIssue>,
+            'wontFixReason' | 'slaDueDate'
+        > = {};
+
+        if (status === IssueStatus.WONT_FIX) {
+            updateData.wontFixReason = reason;
+        }
+
+        if (status === IssueStatus.REOPENED) {
+            updateData.slaDueDate = this.getReopenedSlaDueDate(issue);
+        }
+
+        const change: IIssueStatusChange = {
+            from: issue.status,
+            to: status,
+            ...(reason && { reason }),
+            ...(options.changedBy && { changedBy: options.changedBy }),
+            ...(options.origin && { origin: options.origin }),
+            changedAt: new Date().toISOString(),
+        };
+
+        const updated = await this.issuesRepository.updateStatusWithHistory(
+            uuid,
+            change,
+            updateData,
+        );
+
+        if (updated) {
+            this.eventEmitter.emit(
+                ISSUE_STATUS_CHANGED_EVENT,
+                new IssueStatusChangedEvent(updated, change),
+            );
+        }
+
+        return updated;
+    }
+
+    async assign(
+        uuid: string,
+        assignee: IIssueAssignment['assignee'],
+        assignedBy?: string,
+    ): Promise<IssuesEntity | null> {
+        return this.issuesRepository.updateAssignee(uuid, {
+            assignee,
+            ...(assignedBy && { assignedBy }),
+            assignedAt: new Date().toISOString(),
+        });
     }
     //#endregion
 
@@ -108,4 +248,19 @@ export class IssuesService implements IIssuesService {
     ): Promise<IssuesEntity | null> {
         return this.issuesRepository.addSuggestionIds(uuid, suggestionIds);
     }
+
+    /** A reopened issue gets the same time window it had when created. */
+    private getReopenedSlaDueDate(issue: IssuesEntity): string | undefined {
+        const now = new Date();
+
+        if (!issue.slaDueDate || !issue.createdAt) {
+            return getIssueSlaDueDate(issue.severity, now);
+        }
+
+        const window =
+            new Date(issue.slaDueDate).getTime() -
+            new Date(issue.createdAt).getTime();
+
+        return new Date(now.getTime() + window).toISOString();
+    }
 }
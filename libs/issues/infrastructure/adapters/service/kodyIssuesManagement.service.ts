@@ -33,7 +33,12 @@ import {
     PARAMETERS_SERVICE_TOKEN,
 } from '@libs/organization/domain/parameters/contracts/parameters.service.contract';
 import { PermissionValidationService } from '@libs/ee/shared/services/permissionValidation.service';
-import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import {
+    ACTIVE_ISSUE_STATUSES,
+    getIssueSlaDueDate,
+    IssueStatus,
+} from '@libs/core/infrastructure/config/types/general/issues.type';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
 import { CodeSuggestion } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 
 import { IssueCreationConfig } from '@libs/issues/domain/entities/issue-creation-config.entity';
@@ -45,6 +50,8 @@ import {
 import { LabelType } from '@libs/common/utils/codeManagement/labels';
 import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
 
+const KODUS_ACTOR = 'kodus';
+
 @Injectable()
 export class KodyIssuesManagementService implements IKodyIssuesManagementService {
     private readonly logger = createLogger(KodyIssuesManagementService.name);
@@ -180,12 +187,17 @@ export class KodyIssuesManagementService implements IKodyIssuesManagementService
         const { organizationAndTeamData, repository, pullRequest } = context;
 
         try {
-            // 1. Buscar issues abertas para o arquivo
+            // 1. Buscar issues ativas do arquivo, e também as resolvidas (para reabrir as que voltaram)
+            // e as marcadas como wont_fix (para não recriá-las)
             const existingIssues = await this.issuesService.findByFileAndStatus(
                 organizationAndTeamData.organizationId,
                 repository.id,
                 filePath,
-                IssueStatus.OPEN,
+                [
+                    ...ACTIVE_ISSUE_STATUSES,
+                    IssueStatus.RESOLVED,
+                    IssueStatus.WONT_FIX,
+                ],
             );
 
             if (!existingIssues || existingIssues?.length === 0) {
@@ -278,7 +290,13 @@ export class KodyIssuesManagementService implements IKodyIssuesManagementService
                     context.organizationAndTeamData,
                 );
 
+            const slaDays = await this.getIssueSlaDays(
+                context.organizationAndTeamData,
+            );
+
             for (const suggestion of unmatchedSuggestions) {
+                const now = new Date();
+
                 await this.issuesService.create({
                     title: suggestion.oneSentenceSummary,
                     description: suggestion.suggestionContent,
@@ -319,8 +337,13 @@ export class KodyIssuesManagementService implements IKodyIssuesManagementService
                         gitId: 'kodus',
                         username: 'Kodus',
                     },
-                    createdAt: new Date().toISOString(),
-                    updatedAt: new Date().toISOString(),
+                    slaDueDate: getIssueSlaDueDate(
+                        suggestion?.severity as SeverityLevel,
+                        now,
+                        slaDays,
+                    ),
+                    createdAt: now.toISOString(),
+                    updatedAt: now.toISOString(),
                 });
             }
         } catch (error) {
@@ -369,12 +392,12 @@ export class KodyIssuesManagementService implements IKodyIssuesManagementService
                 const fileData = file;
                 if (!fileData) continue;
 
-                // Buscar issues abertas para o arquivo
+                // Buscar issues ativas para o arquivo
                 const openIssues = await this.issuesService.findByFileAndStatus(
                     context.organizationAndTeamData.organizationId,
                     context.repository.id,
                     file.path,
-                    IssueStatus.OPEN,
+                    ACTIVE_ISSUE_STATUSES,
                 );
 
                 if (!openIssues?.length) continue;
@@ -384,6 +407,11 @@ export class KodyIssuesManagementService implements IKodyIssuesManagementService
                         this.issuesService.updateStatusByIds(
                             openIssues.map((issue) => issue.uuid),
                             IssueStatus.DISMISSED,
+                            {
+                                reason: `File removed in PR#${context.pullRequest.number}`,
+                                changedBy: KODUS_ACTOR,
+                                changedAt: new Date().toISOString(),
+                            },
                         ),
                     );
                     continue;
@@ -414,9 +442,13 @@ export class KodyIssuesManagementService implements IKodyIssuesManagementService
                 if (llmResult?.issueVerificationResults) {
                     for (const resolution of llmResult.issueVerificationResults) {
                         if (!resolution.isIssuePresentInCode) {
-                            await this.issuesService.updateStatus(
+                            await this.issuesService.changeStatus(
                                 resolution.issueId,
                                 IssueStatus.RESOLVED,
+                                {
+                                    reason: `Fixed in PR#${context.pullRequest.number}`,
+                                    changedBy: KODUS_ACTOR,
+                                },
                             );
                         }
                     }
@@ -518,6 +550,18 @@ export class KodyIssuesManagementService implements IKodyIssuesManagementService
                         match.existingIssueId,
                         [suggestion.id],
                     );
+
+                    // The problem came back after being fixed
+                    if (existingIssue.status === IssueStatus.RESOLVED) {
+                        await this.issuesService.changeStatus(
+                            existingIssue.uuid,
+                            IssueStatus.REOPENED,
+                            {
+                                reason: `Reintroduced in PR#${context.pullRequest.number}`,
+                                changedBy: KODUS_ACTOR,
+                            },
+                        );
+                    }
                 }
             } else {
                 unmatchedSuggestions.push(suggestion);
@@ -529,6 +573,21 @@ export class KodyIssuesManagementService implements IKodyIssuesManagementService
         }
     }
 
+    private async getIssueSlaDays(
+        organizationAndTeamData: OrganizationAndTeamData,
+    ): Promise<IssueCreationConfig['slaDays']> {
+        try {
+            const issuesConfig = await this.parametersService.findByKey(
+                ParametersKey.ISSUE_CREATION_CONFIG,
+                organizationAndTeamData,
+            );
+
+            return issuesConfig?.configValue?.slaDays;
+        } catch {
+            return undefined;
+        }
+    }
+
     private async getChangedFiles(context: contextToGenerateIssues) {
         const files = await this.pullRequestHandlerService.getChangedFiles(
             context.organizationAndTeamData,
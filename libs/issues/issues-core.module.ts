@@ -5,6 +5,7 @@ import { UseCases } from './application/use-cases';
 import { IssuesRepository } from './infrastructure/adapters/repositories/issues.repository';
 import { ISSUES_REPOSITORY_TOKEN } from './domain/contracts/issues.repository';
 import { ISSUES_SERVICE_TOKEN } from './domain/contracts/issues.service.contract';
+import { ISSUE_TRACKER_SYNC_SERVICE_TOKEN } from './domain/contracts/issue-tracker-sync.service.contract';
 import { KodyIssuesManagementService } from './infrastructure/adapters/service/kodyIssuesManagement.service';
 import {
     KODY_ISSUES_ANALYSIS_SERVICE_TOKEN,
@@ -17,6 +18,7 @@ import {
 } from './infrastructure/adapters/repositories/schemas/issues.model';
 import { PullRequestsModule } from '@libs/code-review/modules/pull-requests.module';
 import { IntegrationConfigModule } from '@libs/integrations/modules/config.module';
+import { IntegrationModule } from '@libs/integrations/modules/integrations.module';
 import { ParametersModule } from '@libs/organization/modules/parameters.module';
 import { CodeReviewFeedbackModule } from '@libs/code-review/modules/codeReviewFeedback.module';
 import { CodebaseModule } from '@libs/code-review/modules/codebase.module';
@@ -25,6 +27,8 @@ import { GlobalCacheModule } from '@libs/core/cache/cache.module';
 import { LicenseModule } from '@libs/ee/license/license.module';
 import { PermissionValidationModule } from '@libs/ee/shared/permission-validation.module';
 import { IssuesService } from './infrastructure/adapters/service/issues.service';
+import { IssueTrackerSyncService } from './infrastructure/adapters/service/issueTrackerSync.service';
+import { IssueTrackerSyncListener } from './infrastructure/adapters/listeners/issue-tracker-sync.listener';
 import { UserModule } from '@libs/identity/modules/user.module';
 import { PermissionsModule } from '@libs/identity/modules/permissions.module';
 
@@ -38,6 +42,7 @@ import { PermissionsModule } from '@libs/identity/modules/permissions.module';
         ]),
         forwardRef(() => PullRequestsModule),
         forwardRef(() => IntegrationConfigModule),
+        forwardRef(() => IntegrationModule),
         forwardRef(() => ParametersModule),
         forwardRef(() => CodeReviewFeedbackModule),
         forwardRef(() => CodebaseModule),
@@ -67,12 +72,18 @@ import { PermissionsModule } from '@libs/identity/modules/permissions.module';
             provide: KODY_ISSUES_ANALYSIS_SERVICE_TOKEN,
             useClass: KodyIssuesAnalysisService,
         },
+        {
+            provide: ISSUE_TRACKER_SYNC_SERVICE_TOKEN,
+            useClass: IssueTrackerSyncService,
+        },
+        IssueTrackerSyncListener,
     ],
     exports: [
         ISSUES_REPOSITORY_TOKEN,
         ISSUES_SERVICE_TOKEN,
         KODY_ISSUES_MANAGEMENT_SERVICE_TOKEN,
         KODY_ISSUES_ANALYSIS_SERVICE_TOKEN,
+        ISSUE_TRACKER_SYNC_SERVICE_TOKEN,
         ...UseCases,
     ],
 })
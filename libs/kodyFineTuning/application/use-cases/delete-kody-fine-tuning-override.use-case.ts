@@ -0,0 +1,33 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import {
+    IKodyFineTuningOverrideService,
+    KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/contracts/kodyFineTuningOverride.service.contract';
+
+@Injectable()
+export class DeleteKodyFineTuningOverrideUseCase implements IUseCase {
+    constructor(
+        @Inject(KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN)
+        private readonly kodyFineTuningOverrideService: IKodyFineTuningOverrideService,
+    ) {}
+
+    async execute(params: {
+        organizationId: string;
+        uuid: string;
+    }): Promise<void> {
+        const existing = await this.kodyFineTuningOverrideService.findById(
+            params.uuid,
+        );
+
+        if (
+            !params.organizationId ||
+            existing?.organizationId !== params.organizationId
+        ) {
+            throw new NotFoundException('Fine-tuning override not found');
+        }
+
+        await this.kodyFineTuningOverrideService.delete(params.uuid);
+    }
+}
@@ -0,0 +1,9 @@
+import { DeleteKodyFineTuningOverrideUseCase } from './delete-kody-fine-tuning-override.use-case';
+import { ListKodyFineTuningDecisionsUseCase } from './list-kody-fine-tuning-decisions.use-case';
+import { OverrideKodyFineTuningClusterUseCase } from './override-kody-fine-tuning-cluster.use-case';
+
+export const UseCases = [
+    ListKodyFineTuningDecisionsUseCase,
+    OverrideKodyFineTuningClusterUseCase,
+    DeleteKodyFineTuningOverrideUseCase,
+];
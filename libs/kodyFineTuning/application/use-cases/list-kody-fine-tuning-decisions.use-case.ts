@@ -0,0 +1,55 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { FineTuningDecision } from '@libs/kodyFineTuning/domain/enums/fineTuningDecision.enum';
+import {
+    IKodyFineTuningDecisionService,
+    KODY_FINE_TUNING_DECISION_SERVICE_TOKEN,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/contracts/kodyFineTuningDecision.service.contract';
+import { IKodyFineTuningDecision } from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/interfaces/kodyFineTuningDecision.interface';
+
+@Injectable()
+export class ListKodyFineTuningDecisionsUseCase implements IUseCase {
+    private readonly logger = createLogger(
+        ListKodyFineTuningDecisionsUseCase.name,
+    );
+
+    constructor(
+        @Inject(KODY_FINE_TUNING_DECISION_SERVICE_TOKEN)
+        private readonly kodyFineTuningDecisionService: IKodyFineTuningDecisionService,
+    ) {}
+
+    async execute(params: {
+        organizationId: string;
+        repositoryId: string;
+        prNumber: number;
+        dryRunId?: string;
+        // Defaults to the discarded suggestions, the ones users ask about
+        decisions?: FineTuningDecision[];
+    }): Promise<IKodyFineTuningDecision[]> {
+        try {
+            const decisions =
+                await this.kodyFineTuningDecisionService.findByPullRequest({
+                    organizationId: params.organizationId,
+                    repositoryId: params.repositoryId,
+                    pullRequestNumber: params.prNumber,
+                    dryRunId: params.dryRunId,
+                    decisions: params.decisions?.length
+                        ? params.decisions
+                        : [FineTuningDecision.DISCARD],
+                });
+
+            return decisions.map((decision) => decision.toObject());
+        } catch (error) {
+            this.logger.error({
+                message: 'Error listing fine-tuning decisions',
+                context: ListKodyFineTuningDecisionsUseCase.name,
+                error,
+                metadata: params,
+            });
+
+            throw error;
+        }
+    }
+}
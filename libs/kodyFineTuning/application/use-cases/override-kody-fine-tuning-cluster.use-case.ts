@@ -0,0 +1,98 @@
+import { createLogger } from '@kodus/flow';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
+import {
+    IKodyFineTuningDecisionService,
+    KODY_FINE_TUNING_DECISION_SERVICE_TOKEN,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/contracts/kodyFineTuningDecision.service.contract';
+import {
+    IKodyFineTuningOverrideService,
+    KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/contracts/kodyFineTuningOverride.service.contract';
+import { IKodyFineTuningOverride } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/interfaces/kodyFineTuningOverride.interface';
+
+/**
+ * Pins the decision for the cluster a past fine-tuning decision was based
+ * on. Later reviews apply it to suggestions landing in the same cluster.
+ */
+@Injectable()
+export class OverrideKodyFineTuningClusterUseCase implements IUseCase {
+    private readonly logger = createLogger(
+        OverrideKodyFineTuningClusterUseCase.name,
+    );
+
+    constructor(
+        @Inject(KODY_FINE_TUNING_DECISION_SERVICE_TOKEN)
+        private readonly kodyFineTuningDecisionService: IKodyFineTuningDecisionService,
+        @Inject(KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN)
+        private readonly kodyFineTuningOverrideService: IKodyFineTuningOverrideService,
+    ) {}
+
+    async execute(params: {
+        user: Partial<IUser>;
+        decisionId: string;
+        decision: IKodyFineTuningOverride['decision'];
+    }): Promise<IKodyFineTuningOverride> {
+        const { user, decisionId, decision } = params;
+        const organizationId = user?.organization?.uuid;
+
+        const source =
+            await this.kodyFineTuningDecisionService.findById(decisionId);
+
+        if (!organizationId || source?.organizationId !== organizationId) {
+            throw new NotFoundException('Fine-tuning decision not found');
+        }
+
+        const memberSuggestionIds =
+            source.explanation?.cluster?.memberSuggestionIds?.filter(Boolean);
+
+        if (!memberSuggestionIds?.length) {
+            throw new BadRequestException(
+                'The decision was not based on a cluster and cannot be overridden',
+            );
+        }
+
+        // Overriding the same decision again replaces the previous override
+        const previous = await this.kodyFineTuningOverrideService.find({
+            organizationId,
+            sourceDecisionId: decisionId,
+        });
+
+        for (const override of previous) {
+            await this.kodyFineTuningOverrideService.delete(override.uuid);
+        }
+
+        const override = await this.kodyFineTuningOverrideService.create({
+            organizationId,
+            repositoryId: source.repository.id,
+            decision,
+            memberSuggestionIds,
+            sourceDecisionId: decisionId,
+            createdBy: {
+                userId: user.uuid,
+                email: user.email,
+            },
+        });
+
+        this.logger.log({
+            message: 'Fine-tuning cluster decision overridden',
+            context: OverrideKodyFineTuningClusterUseCase.name,
+            metadata: {
+                organizationId,
+                decisionId,
+                decision,
+                overrideId: override.uuid,
+                userId: user.uuid,
+            },
+        });
+
+        return override.toObject();
+    }
+}
@@ -0,0 +1,10 @@
+export enum FineTuningDecisionReason {
+    // Kody Rules and breaking changes are never filtered by learning
+    PROTECTED_LABEL = 'protectedLabel',
+    INSUFFICIENT_HISTORY = 'insufficientHistory',
+    LOW_CLUSTER_SIMILARITY = 'lowClusterSimilarity',
+    UNANIMOUS_CLUSTER_FEEDBACK = 'unanimousClusterFeedback',
+    SIMILARITY_VOTE = 'similarityVote',
+    CLUSTER_OVERRIDE = 'clusterOverride',
+    ERROR = 'error',
+}
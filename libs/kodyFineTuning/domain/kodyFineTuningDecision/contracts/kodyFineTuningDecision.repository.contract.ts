@@ -0,0 +1,21 @@
+import { FineTuningDecision } from '../../enums/fineTuningDecision.enum';
+import { KodyFineTuningDecisionEntity } from '../entities/kodyFineTuningDecision.entity';
+import { IKodyFineTuningDecision } from '../interfaces/kodyFineTuningDecision.interface';
+
+export const KODY_FINE_TUNING_DECISION_REPOSITORY_TOKEN = Symbol.for(
+    'KODY_FINE_TUNING_DECISION_REPOSITORY_TOKEN',
+);
+
+export interface IKodyFineTuningDecisionRepository {
+    bulkCreate(
+        decisions: Omit<IKodyFineTuningDecision, 'uuid'>[],
+    ): Promise<KodyFineTuningDecisionEntity[]>;
+    findById(uuid: string): Promise<KodyFineTuningDecisionEntity | null>;
+    findByPullRequest(params: {
+        organizationId: string;
+        repositoryId: string;
+        pullRequestNumber: number;
+        dryRunId?: string;
+        decisions?: FineTuningDecision[];
+    }): Promise<KodyFineTuningDecisionEntity[]>;
+}
@@ -0,0 +1,7 @@
+import { IKodyFineTuningDecisionRepository } from './kodyFineTuningDecision.repository.contract';
+
+export const KODY_FINE_TUNING_DECISION_SERVICE_TOKEN = Symbol.for(
+    'KODY_FINE_TUNING_DECISION_SERVICE_TOKEN',
+);
+
+export interface IKodyFineTuningDecisionService extends IKodyFineTuningDecisionRepository {}
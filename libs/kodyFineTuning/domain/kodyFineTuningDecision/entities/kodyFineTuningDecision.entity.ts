@@ -0,0 +1,98 @@
+import { Entity } from '@libs/core/domain/interfaces/entity';
+
+import { FineTuningDecision } from '../../enums/fineTuningDecision.enum';
+import {
+    IFineTuningExplanation,
+    IKodyFineTuningDecision,
+} from '../interfaces/kodyFineTuningDecision.interface';
+
+export class KodyFineTuningDecisionEntity implements Entity<IKodyFineTuningDecision> {
+    private readonly _uuid: string;
+    private readonly _organizationId: string;
+    private readonly _repository: IKodyFineTuningDecision['repository'];
+    private readonly _pullRequestNumber: number;
+    private readonly _dryRunId?: string;
+    private readonly _suggestion: IKodyFineTuningDecision['suggestion'];
+    private readonly _decision: FineTuningDecision;
+    private readonly _explanation: IFineTuningExplanation;
+    private readonly _createdAt: Date;
+    private readonly _updatedAt: Date;
+
+    constructor(decision: IKodyFineTuningDecision) {
+        this._uuid = decision.uuid;
+        this._organizationId = decision.organizationId;
+        this._repository = decision.repository;
+        this._pullRequestNumber = decision.pullRequestNumber;
+        this._dryRunId = decision.dryRunId;
+        this._suggestion = decision.suggestion;
+        this._decision = decision.decision;
+        this._explanation = decision.explanation;
+        this._createdAt = decision.createdAt;
+        this._updatedAt = decision.updatedAt;
+    }
+
+    toObject(): IKodyFineTuningDecision {
+        return {
+            uuid: this.uuid,
+            organizationId: this.organizationId,
+            repository: this.repository,
+            pullRequestNumber: this.pullRequestNumber,
+            dryRunId: this.dryRunId,
+            suggestion: this.suggestion,
+            decision: this.decision,
+            explanation: this.explanation,
+            createdAt: this.createdAt,
+            updatedAt: this.updatedAt,
+        };
+    }
+
+    toJson(): IKodyFineTuningDecision | Partial<IKodyFineTuningDecision> {
+        return this.toObject();
+    }
+
+    public static create(
+        decision: IKodyFineTuningDecision,
+    ): KodyFineTuningDecisionEntity {
+        return new KodyFineTuningDecisionEntity(decision);
+    }
+
+    get uuid(): string {
+        return this._uuid;
+    }
+
+    get organizationId(): string {
+        return this._organizationId;
+    }
+
+    get repository(): IKodyFineTuningDecision['repository'] {
+        return this._repository;
+    }
+
+    get pullRequestNumber(): number {
+        return this._pullRequestNumber;
+    }
+
+    get dryRunId(): string | undefined {
+        return this._dryRunId;
+    }
+
+    get suggestion(): IKodyFineTuningDecision['suggestion'] {
+        return this._suggestion;
+    }
+
+    get decision(): FineTuningDecision {
+        return this._decision;
+    }
+
+    get explanation(): IFineTuningExplanation {
+        return this._explanation;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+}
@@ -0,0 +1,76 @@
+import { FineTuningDecision } from '../../enums/fineTuningDecision.enum';
+import { FineTuningDecisionReason } from '../../enums/fineTuningDecisionReason.enum';
+import { IClusterAnalysis } from '../../interfaces/kodyFineTuning.interface';
+
+export interface IFineTuningThresholds {
+    cluster: number;
+    positive: number;
+    negative: number;
+    minClusterizedSuggestions: number;
+}
+
+export interface IFineTuningSimilarSuggestion {
+    suggestionId: string;
+    similarity: number;
+    feedbackType: string;
+    // Whether the suggestion passed its threshold and voted in the decision
+    voted: boolean;
+    label?: string;
+    oneSentenceSummary?: string;
+    suggestionContent?: string;
+    pullRequestNumber?: number;
+    repositoryFullName?: string;
+}
+
+export interface IFineTuningCluster {
+    id: number;
+    similarity: number;
+    size: number;
+    distribution: IClusterAnalysis;
+    memberSuggestionIds: string[];
+}
+
+/**
+ * Why fine-tuning kept or discarded a suggestion, as computed at the time.
+ */
+export interface IFineTuningExplanation {
+    reason: FineTuningDecisionReason;
+    thresholds: IFineTuningThresholds;
+    clusterizedSuggestions?: number;
+    cluster?: IFineTuningCluster;
+    votes?: {
+        keep: number;
+        discard: number;
+    };
+    similarSuggestions?: IFineTuningSimilarSuggestion[];
+    overrideId?: string;
+    // The decision the feedback pointed to before an override replaced it
+    originalDecision?: FineTuningDecision;
+}
+
+export interface IKodyFineTuningDecision {
+    uuid?: string;
+    organizationId: string;
+    repository: {
+        id: string;
+        fullName: string;
+    };
+    pullRequestNumber: number;
+    // Set when the decision was taken during a dry run of the PR
+    dryRunId?: string;
+    suggestion: {
+        id: string;
+        relevantFile?: string;
+        relevantLinesStart?: number;
+        relevantLinesEnd?: number;
+        label?: string;
+        severity?: string;
+        language?: string;
+        oneSentenceSummary?: string;
+        suggestionContent?: string;
+    };
+    decision: FineTuningDecision;
+    explanation: IFineTuningExplanation;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
@@ -0,0 +1,17 @@
+import { KodyFineTuningOverrideEntity } from '../entities/kodyFineTuningOverride.entity';
+import { IKodyFineTuningOverride } from '../interfaces/kodyFineTuningOverride.interface';
+
+export const KODY_FINE_TUNING_OVERRIDE_REPOSITORY_TOKEN = Symbol.for(
+    'KODY_FINE_TUNING_OVERRIDE_REPOSITORY_TOKEN',
+);
+
+export interface IKodyFineTuningOverrideRepository {
+    create(
+        override: Omit<IKodyFineTuningOverride, 'uuid'>,
+    ): Promise<KodyFineTuningOverrideEntity>;
+    findById(uuid: string): Promise<KodyFineTuningOverrideEntity | null>;
+    find(
+        filter: Partial<IKodyFineTuningOverride>,
+    ): Promise<KodyFineTuningOverrideEntity[]>;
+    delete(uuid: string): Promise<void>;
+}
@@ -0,0 +1,7 @@
+import { IKodyFineTuningOverrideRepository } from './kodyFineTuningOverride.repository.contract';
+
+export const KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN = Symbol.for(
+    'KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN',
+);
+
+export interface IKodyFineTuningOverrideService extends IKodyFineTuningOverrideRepository {}
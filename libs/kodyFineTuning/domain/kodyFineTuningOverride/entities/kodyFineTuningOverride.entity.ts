@@ -0,0 +1,87 @@
+import { Entity } from '@libs/core/domain/interfaces/entity';
+
+import { IKodyFineTuningOverride } from '../interfaces/kodyFineTuningOverride.interface';
+
+export class KodyFineTuningOverrideEntity implements Entity<IKodyFineTuningOverride> {
+    private readonly _uuid: string;
+    private readonly _organizationId: string;
+    private readonly _repositoryId: string;
+    private readonly _decision: IKodyFineTuningOverride['decision'];
+    private readonly _memberSuggestionIds: string[];
+    private readonly _sourceDecisionId: string;
+    private readonly _createdBy?: IKodyFineTuningOverride['createdBy'];
+    private readonly _createdAt: Date;
+    private readonly _updatedAt: Date;
+
+    constructor(override: IKodyFineTuningOverride) {
+        this._uuid = override.uuid;
+        this._organizationId = override.organizationId;
+        this._repositoryId = override.repositoryId;
+        this._decision = override.decision;
+        this._memberSuggestionIds = override.memberSuggestionIds;
+        this._sourceDecisionId = override.sourceDecisionId;
+        this._createdBy = override.createdBy;
+        this._createdAt = override.createdAt;
+        this._updatedAt = override.updatedAt;
+    }
+
+    toObject(): IKodyFineTuningOverride {
+        return {
+            uuid: this.uuid,
+            organizationId: this.organizationId,
+            repositoryId: this.repositoryId,
+            decision: this.decision,
+            memberSuggestionIds: this.memberSuggestionIds,
+            sourceDecisionId: this.sourceDecisionId,
+            createdBy: this.createdBy,
+            createdAt: this.createdAt,
+            updatedAt: this.updatedAt,
+        };
+    }
+
+    toJson(): IKodyFineTuningOverride | Partial<IKodyFineTuningOverride> {
+        return this.toObject();
+    }
+
+    public static create(
+        override: IKodyFineTuningOverride,
+    ): KodyFineTuningOverrideEntity {
+        return new KodyFineTuningOverrideEntity(override);
+    }
+
+    get uuid(): string {
+        return this._uuid;
+    }
+
+    get organizationId(): string {
+        return this._organizationId;
+    }
+
+    get repositoryId(): string {
+        return this._repositoryId;
+    }
+
+    get decision(): IKodyFineTuningOverride['decision'] {
+        return this._decision;
+    }
+
+    get memberSuggestionIds(): string[] {
+        return [...(this._memberSuggestionIds || [])];
+    }
+
+    get sourceDecisionId(): string {
+        return this._sourceDecisionId;
+    }
+
+    get createdBy(): IKodyFineTuningOverride['createdBy'] {
+        return this._createdBy;
+    }
+
+    get createdAt(): Date {
+        return this._createdAt;
+    }
+
+    get updatedAt(): Date {
+        return this._updatedAt;
+    }
+}
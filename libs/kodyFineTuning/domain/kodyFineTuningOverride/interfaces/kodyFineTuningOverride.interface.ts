@@ -0,0 +1,22 @@
+import { FineTuningDecision } from '../../enums/fineTuningDecision.enum';
+
+/**
+ * A manual decision for a cluster of past suggestions. Clusters are rebuilt
+ * on every review, so the override is keyed by the suggestions that formed
+ * the cluster rather than by its id.
+ */
+export interface IKodyFineTuningOverride {
+    uuid?: string;
+    organizationId: string;
+    // Repository of the PR the override was made from
+    repositoryId: string;
+    decision: FineTuningDecision.KEEP | FineTuningDecision.DISCARD;
+    memberSuggestionIds: string[];
+    sourceDecisionId: string;
+    createdBy?: {
+        userId: string;
+        email?: string;
+    };
+    createdAt?: Date;
+    updatedAt?: Date;
+}
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import {
+    mapSimpleModelsToEntities,
+    mapSimpleModelToEntity,
+} from '@libs/core/infrastructure/repositories/mappers';
+import { FineTuningDecision } from '@libs/kodyFineTuning/domain/enums/fineTuningDecision.enum';
+import { IKodyFineTuningDecisionRepository } from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/contracts/kodyFineTuningDecision.repository.contract';
+import { KodyFineTuningDecisionEntity } from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/entities/kodyFineTuningDecision.entity';
+import { IKodyFineTuningDecision } from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/interfaces/kodyFineTuningDecision.interface';
+
+import { KodyFineTuningDecisionModel } from './schemas/kodyFineTuningDecision.model';
+
+@Injectable()
+export class KodyFineTuningDecisionRepository implements IKodyFineTuningDecisionRepository {
+    constructor(
+        @InjectModel(KodyFineTuningDecisionModel.name)
+        private readonly kodyFineTuningDecisionModel: Model<KodyFineTuningDecisionModel>,
+    ) {}
+
+    async bulkCreate(
+        decisions: Omit<IKodyFineTuningDecision, 'uuid'>[],
+    ): Promise<KodyFineTuningDecisionEntity[]> {
+        const saved =
+            await this.kodyFineTuningDecisionModel.insertMany(decisions);
+
+        return mapSimpleModelsToEntities(saved, KodyFineTuningDecisionEntity);
+    }
+
+    async findById(uuid: string): Promise<KodyFineTuningDecisionEntity | null> {
+        const decision = await this.kodyFineTuningDecisionModel
+            .findById(uuid)
+            .exec();
+
+        if (!decision) {
+            return null;
+        }
+
+        return mapSimpleModelToEntity(decision, KodyFineTuningDecisionEntity);
+    }
+
+    async findByPullRequest(params: {
+        organizationId: string;
+        repositoryId: string;
+        pullRequestNumber: number;
+        dryRunId?: string;
+        decisions?: FineTuningDecision[];
+    }): Promise<KodyFineTuningDecisionEntity[]> {
+        const decisions = await this.kodyFineTuningDecisionModel
+            .find({
+                'organizationId': params.organizationId,
+                'repository.id': params.repositoryId,
+                'pullRequestNumber': params.pullRequestNumber,
+                // Dry runs never mix with the decisions of the real reviews
+                'dryRunId': params.dryRunId ?? { $exists: false },
+                ...(params.decisions?.length
+                    ? { decision: { $in: params.decisions } }
+                    : {}),
+            })
+            .sort({ createdAt: -1 })
+            .exec();
+
+        return mapSimpleModelsToEntities(
+            decisions,
+            KodyFineTuningDecisionEntity,
+        );
+    }
+}
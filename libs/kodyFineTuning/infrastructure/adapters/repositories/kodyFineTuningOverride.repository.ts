@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import {
+    mapSimpleModelsToEntities,
+    mapSimpleModelToEntity,
+} from '@libs/core/infrastructure/repositories/mappers';
+import { IKodyFineTuningOverrideRepository } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/contracts/kodyFineTuningOverride.repository.contract';
+import { KodyFineTuningOverrideEntity } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/entities/kodyFineTuningOverride.entity';
+import { IKodyFineTuningOverride } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/interfaces/kodyFineTuningOverride.interface';
+
+import { KodyFineTuningOverrideModel } from './schemas/kodyFineTuningOverride.model';
+
+@Injectable()
+export class KodyFineTuningOverrideRepository implements IKodyFineTuningOverrideRepository {
+    constructor(
+        @InjectModel(KodyFineTuningOverrideModel.name)
+        private readonly kodyFineTuningOverrideModel: Model<KodyFineTuningOverrideModel>,
+    ) {}
+
+    async create(
+        override: Omit<IKodyFineTuningOverride, 'uuid'>,
+    ): Promise<KodyFineTuningOverrideEntity> {
+        const created = await this.kodyFineTuningOverrideModel.create(override);
+
+        return mapSimpleModelToEntity(created, KodyFineTuningOverrideEntity);
+    }
+
+    async findById(uuid: string): Promise<KodyFineTuningOverrideEntity | null> {
+        const override = await this.kodyFineTuningOverrideModel
+            .findById(uuid)
+            .exec();
+
+        if (!override) {
+            return null;
+        }
+
+        return mapSimpleModelToEntity(override, KodyFineTuningOverrideEntity);
+    }
+
+    async find(
+        filter: Partial<IKodyFineTuningOverride>,
+    ): Promise<KodyFineTuningOverrideEntity[]> {
+        const overrides = await this.kodyFineTuningOverrideModel
+            .find(filter)
+            .sort({ createdAt: -1 })
+            .exec();
+
+        return mapSimpleModelsToEntities(
+            overrides,
+            KodyFineTuningOverrideEntity,
+        );
+    }
+
+    async delete(uuid: string): Promise<void> {
+        await this.kodyFineTuningOverrideModel.deleteOne({ _id: uuid }).exec();
+    }
+}
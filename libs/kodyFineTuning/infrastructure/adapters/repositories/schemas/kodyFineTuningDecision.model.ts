@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { CoreDocument } from '@libs/core/infrastructure/repositories/model/mongodb';
+import { FineTuningDecision } from '@libs/kodyFineTuning/domain/enums/fineTuningDecision.enum';
+import {
+    IFineTuningExplanation,
+    IKodyFineTuningDecision,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/interfaces/kodyFineTuningDecision.interface';
+
+@Schema({
+    collection: 'kodyFineTuningDecisions',
+    timestamps: true,
+    autoIndex: true,
+})
+export class KodyFineTuningDecisionModel extends CoreDocument {
+    @Prop({ type: String, required: true })
+    public organizationId: string;
+
+    @Prop({ type: Object, required: true })
+    public repository: IKodyFineTuningDecision['repository'];
+
+    @Prop({ type: Number, required: true })
+    public pullRequestNumber: number;
+
+    @Prop({ type: String, required: false })
+    public dryRunId?: string;
+
+    @Prop({ type: Object, required: true })
+    public suggestion: IKodyFineTuningDecision['suggestion'];
+
+    @Prop({ type: String, enum: FineTuningDecision, required: true })
+    public decision: FineTuningDecision;
+
+    @Prop({ type: Object, required: true })
+    public explanation: IFineTuningExplanation;
+}
+
+export const KodyFineTuningDecisionSchema = SchemaFactory.createForClass(
+    KodyFineTuningDecisionModel,
+);
+
+KodyFineTuningDecisionSchema.index({
+    'organizationId': 1,
+    'repository.id': 1,
+    'pullRequestNumber': 1,
+});
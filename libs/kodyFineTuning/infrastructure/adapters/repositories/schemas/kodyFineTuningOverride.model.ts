@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+import { CoreDocument } from '@libs/core/infrastructure/repositories/model/mongodb';
+import { FineTuningDecision } from '@libs/kodyFineTuning/domain/enums/fineTuningDecision.enum';
+import { IKodyFineTuningOverride } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/interfaces/kodyFineTuningOverride.interface';
+
+@Schema({
+    collection: 'kodyFineTuningOverrides',
+    timestamps: true,
+    autoIndex: true,
+})
+export class KodyFineTuningOverrideModel extends CoreDocument {
+    @Prop({ type: String, required: true, index: true })
+    public organizationId: string;
+
+    @Prop({ type: String, required: true })
+    public repositoryId: string;
+
+    @Prop({
+        type: String,
+        enum: [FineTuningDecision.KEEP, FineTuningDecision.DISCARD],
+        required: true,
+    })
+    public decision: IKodyFineTuningOverride['decision'];
+
+    @Prop({ type: [String], required: true })
+    public memberSuggestionIds: string[];
+
+    @Prop({ type: String, required: true })
+    public sourceDecisionId: string;
+
+    @Prop({ type: Object, required: false })
+    public createdBy?: IKodyFineTuningOverride['createdBy'];
+}
+
+export const KodyFineTuningOverrideSchema = SchemaFactory.createForClass(
+    KodyFineTuningOverrideModel,
+);
@@ -31,6 +31,7 @@ export class KodyFineTuningContextPreparationService implements IKodyFineTuningC
         suggestionsToAnalyze: CodeSuggestion[],
         isFineTuningEnabled: boolean,
         clusterizedSuggestions: IClusterizedSuggestion[],
+        options?: { dryRunId?: string },
     ): Promise<{
         keepedSuggestions: Partial<CodeSuggestion>[];
         discardedSuggestions: Partial<CodeSuggestion>[];
@@ -42,6 +43,7 @@ export class KodyFineTuningContextPreparationService implements IKodyFineTuningC
             suggestionsToAnalyze,
             isFineTuningEnabled,
             clusterizedSuggestions,
+            options,
         );
     }
 
@@ -53,6 +55,7 @@ export class KodyFineTuningContextPreparationService implements IKodyFineTuningC
      * @param suggestionsToAnalyze Suggestions to be analyzed
      * @param clusterizedSuggestions Clusterized suggestions
      * @param isFineTuningEnabled Whether fine tuning is enabled
+     * @param options.dryRunId Dry run the decisions are recorded under
      * @returns Array of analyzed suggestions
      * @override
      */
@@ -66,6 +69,7 @@ export class KodyFineTuningContextPreparationService implements IKodyFineTuningC
         suggestionsToAnalyze: CodeSuggestion[],
         isFineTuningEnabled: boolean,
         mainClusterizedSuggestions: IClusterizedSuggestion[],
+        options?: { dryRunId?: string },
     ): Promise<{
         keepedSuggestions: Partial<CodeSuggestion>[];
         discardedSuggestions: Partial<CodeSuggestion>[];
@@ -106,6 +110,7 @@ export class KodyFineTuningContextPreparationService implements IKodyFineTuningC
                 },
                 suggestionsToAnalyze,
                 mainClusterizedSuggestions,
+                options,
             );
 
             return {
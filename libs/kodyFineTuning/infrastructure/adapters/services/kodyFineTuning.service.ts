@@ -36,6 +36,31 @@ import { FeedbackType } from '@libs/kodyFineTuning/domain/enums/feedbackType.enu
 import { FineTuningType } from '@libs/kodyFineTuning/domain/enums/fineTuningType.enum';
 import { FineTuningDecision } from '@libs/kodyFineTuning/domain/enums/fineTuningDecision.enum';
 import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import { FineTuningDecisionReason } from '@libs/kodyFineTuning/domain/enums/fineTuningDecisionReason.enum';
+import {
+    IKodyFineTuningDecisionService,
+    KODY_FINE_TUNING_DECISION_SERVICE_TOKEN,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/contracts/kodyFineTuningDecision.service.contract';
+import {
+    IFineTuningExplanation,
+    IFineTuningThresholds,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/interfaces/kodyFineTuningDecision.interface';
+import {
+    IKodyFineTuningOverrideService,
+    KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/contracts/kodyFineTuningOverride.service.contract';
+import { IKodyFineTuningOverride } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/interfaces/kodyFineTuningOverride.interface';
+import {
+    findClusterOverride,
+    summarizeClusterFeedback,
+    toSimilarSuggestions,
+} from '@libs/kodyFineTuning/infrastructure/utils/fineTuningExplanation.utils';
+
+type FineTuningAnalysisResult = {
+    analyzedSuggestion: Partial<CodeSuggestion>;
+    fineTuningDecision: FineTuningDecision;
+    explanation: IFineTuningExplanation;
+};
 
 @Injectable()
 export class KodyFineTuningService {
@@ -45,6 +70,7 @@ export class KodyFineTuningService {
     private readonly SIMILARITY_THRESHOLD_NEGATIVE = 0.6;
     private readonly SIMILARITY_THRESHOLD_POSITIVE = 0.6;
     private readonly SIMILARITY_THRESHOLD_CLUSTER = 0.6;
+    private readonly MIN_CLUSTERIZED_SUGGESTIONS = 50;
 
     constructor(
         @Inject(PULL_REQUESTS_SERVICE_TOKEN)
@@ -55,6 +81,10 @@ export class KodyFineTuningService {
         private readonly suggestionEmbeddedService: ISuggestionEmbeddedService,
         @Inject(GLOBAL_PARAMETERS_SERVICE_TOKEN)
         private readonly globalParametersService: IGlobalParametersService,
+        @Inject(KODY_FINE_TUNING_DECISION_SERVICE_TOKEN)
+        private readonly kodyFineTuningDecisionService: IKodyFineTuningDecisionService,
+        @Inject(KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN)
+        private readonly kodyFineTuningOverrideService: IKodyFineTuningOverrideService,
     ) {}
 
     public async startAnalysis(
@@ -102,6 +132,7 @@ export class KodyFineTuningService {
         repository: { id: string; full_name: string; language: string },
         suggestionsToAnalyze: Partial<CodeSuggestion>[],
         mainClusterizedSuggestions: IClusterizedSuggestion[],
+        options?: { dryRunId?: string },
     ) {
         if (
             !suggestionsToAnalyze?.length ||
@@ -122,7 +153,7 @@ export class KodyFineTuningService {
                 repository.full_name,
             );
 
-        const { keepedSuggestions, discardedSuggestions } =
+        const { keepedSuggestions, discardedSuggestions, results } =
             await this.analyzeWithClusterization(
                 organizationId,
                 repository,
@@ -131,6 +162,14 @@ export class KodyFineTuningService {
                 mainClusterizedSuggestions,
             );
 
+        await this.saveDecisions(
+            organizationId,
+            prNumber,
+            repository,
+            results,
+            options?.dryRunId,
+        );
+
         return {
             keepedSuggestions,
             discardedSuggestions,
@@ -665,10 +704,9 @@ export class KodyFineTuningService {
     private async compareSuggestionsWithClusters(
         newSuggestion: Partial<ISuggestionEmbedded>,
         existingClusterizedSuggestions: IClusterizedSuggestion[],
-    ): Promise<{
-        analyzedSuggestion: Partial<CodeSuggestion>;
-        fineTuningDecision: FineTuningDecision;
-    }> {
+        thresholds: IFineTuningThresholds,
+        overrides: IKodyFineTuningOverride[],
+    ): Promise<FineTuningAnalysisResult> {
         try {
             // 1. Calculate cluster centroids
             const clusters = this.calculateClusterCentroids(
@@ -692,23 +730,69 @@ export class KodyFineTuningService {
             );
             const mostSimilarCluster = sortedClusters[0]?.clusterId || 0;
 
-            if (
-                sortedClusters[0]?.similarity <
-                this.SIMILARITY_THRESHOLD_CLUSTER
-            ) {
+            const clusterSuggestions = existingClusterizedSuggestions.filter(
+                (s) => s.cluster === mostSimilarCluster,
+            );
+
+            const cluster = {
+                id: mostSimilarCluster,
+                similarity: sortedClusters[0]?.similarity,
+                size: clusterSuggestions.length,
+                distribution: summarizeClusterFeedback(clusterSuggestions),
+                memberSuggestionIds: clusterSuggestions.map(
+                    (s) => s.originalSuggestion?.suggestionId,
+                ),
+            };
+
+            const baseExplanation = {
+                thresholds,
+                clusterizedSuggestions: existingClusterizedSuggestions.length,
+                cluster,
+            };
+
+            if (sortedClusters[0]?.similarity < thresholds.cluster) {
                 return {
                     analyzedSuggestion: newSuggestion,
                     fineTuningDecision: FineTuningDecision.UNCERTAIN,
+                    explanation: {
+                        ...baseExplanation,
+                        reason: FineTuningDecisionReason.LOW_CLUSTER_SIMILARITY,
+                    },
+                };
+            }
+
+            const analysis = await this.analyzeClusterFeedback(
+                clusterSuggestions,
+                newSuggestion?.suggestionEmbed,
+                thresholds,
+            );
+
+            const override = findClusterOverride(
+                cluster.memberSuggestionIds,
+                overrides,
+            );
+
+            if (override) {
+                return {
+                    analyzedSuggestion: newSuggestion,
+                    fineTuningDecision: override.decision,
+                    explanation: {
+                        ...baseExplanation,
+                        ...analysis.explanation,
+                        reason: FineTuningDecisionReason.CLUSTER_OVERRIDE,
+                        overrideId: override.uuid,
+                        originalDecision: analysis.fineTuningDecision,
+                    },
                 };
             }
 
             return {
                 analyzedSuggestion: newSuggestion,
-                fineTuningDecision: await this.analyzeClusterFeedback(
-                    existingClusterizedSuggestions,
-                    mostSimilarCluster,
-                    newSuggestion?.suggestionEmbed,
-                ),
+                fineTuningDecision: analysis.fineTuningDecision,
+                explanation: {
+                    ...baseExplanation,
+                    ...analysis.explanation,
+                },
             };
         } catch (error) {
             this.logger.error({
@@ -723,6 +807,10 @@ export class KodyFineTuningService {
             return {
                 analyzedSuggestion: newSuggestion,
                 fineTuningDecision: FineTuningDecision.UNCERTAIN,
+                explanation: {
+                    reason: FineTuningDecisionReason.ERROR,
+                    thresholds,
+                },
             };
         }
     }
@@ -805,7 +893,10 @@ export class KodyFineTuningService {
         }[],
         positiveThreshold: number,
         negativeThreshold: number,
-    ): Promise<FineTuningDecision> {
+    ): Promise<{
+        fineTuningDecision: FineTuningDecision;
+        votes: { keep: number; discard: number };
+    }> {
         let keepDecision = 0;
         let discardDecision = 0;
 
@@ -823,65 +914,88 @@ export class KodyFineTuningService {
             }
         }
 
+        const votes = { keep: keepDecision, discard: discardDecision };
+
         if (keepDecision > 0 && keepDecision > discardDecision) {
-            return FineTuningDecision.KEEP;
+            return { fineTuningDecision: FineTuningDecision.KEEP, votes };
         } else if (discardDecision > 0 && discardDecision > keepDecision) {
-            return FineTuningDecision.DISCARD;
+            return { fineTuningDecision: FineTuningDecision.DISCARD, votes };
         } else {
-            return FineTuningDecision.UNCERTAIN;
+            return { fineTuningDecision: FineTuningDecision.UNCERTAIN, votes };
         }
     }
 
     private async analyzeClusterFeedback(
-        existingClusterizedSuggestions: IClusterizedSuggestion[],
-        clusterId: number,
+        clusterSuggestions: IClusterizedSuggestion[],
         newSuggestionEmbedded: number[],
-    ): Promise<FineTuningDecision> {
+        thresholds: IFineTuningThresholds,
+    ): Promise<{
+        fineTuningDecision: FineTuningDecision;
+        explanation: Omit<IFineTuningExplanation, 'thresholds'>;
+    }> {
         try {
-            // Obter os thresholds configurados
-            const { positiveThreshold, negativeThreshold } =
-                await this.defineFineTuningThresholds();
+            if (clusterSuggestions.length === 0) {
+                return {
+                    fineTuningDecision: FineTuningDecision.UNCERTAIN,
+                    explanation: {
+                        reason: FineTuningDecisionReason.INSUFFICIENT_HISTORY,
+                    },
+                };
+            }
 
-            // Filtrar sugestões do cluster específico
-            const clusterSuggestions = existingClusterizedSuggestions.filter(
-                (s) => s.cluster === clusterId,
+            // Computed even for unanimous clusters so the decision can be
+            // traced back to the past suggestions closest to the new one
+            const sortedSuggestions = await this.analyzeSuggestionsSimilarity(
+                clusterSuggestions,
+                newSuggestionEmbedded,
             );
 
-            if (clusterSuggestions.length === 0) {
-                return FineTuningDecision.UNCERTAIN;
-            }
+            const similarSuggestions = toSimilarSuggestions(
+                sortedSuggestions,
+                thresholds,
+            );
 
             const feedbackTypeUnanimous =
                 await this.unanimousFeedbackInCluster(clusterSuggestions);
 
             if (feedbackTypeUnanimous !== FineTuningDecision.UNCERTAIN) {
-                return feedbackTypeUnanimous;
+                return {
+                    fineTuningDecision: feedbackTypeUnanimous,
+                    explanation: {
+                        reason: FineTuningDecisionReason.UNANIMOUS_CLUSTER_FEEDBACK,
+                        similarSuggestions,
+                    },
+                };
             }
 
-            const sortedSuggestions = await this.analyzeSuggestionsSimilarity(
-                clusterSuggestions,
-                newSuggestionEmbedded,
-            );
-
-            const fineTuningDecision =
+            const { fineTuningDecision, votes } =
                 await this.defineFineTuningDecisionBySimilarity(
                     sortedSuggestions,
-                    positiveThreshold,
-                    negativeThreshold,
+                    thresholds.positive,
+                    thresholds.negative,
                 );
 
-            return fineTuningDecision;
+            return {
+                fineTuningDecision,
+                explanation: {
+                    reason: FineTuningDecisionReason.SIMILARITY_VOTE,
+                    votes,
+                    similarSuggestions,
+                },
+            };
         } catch (error) {
             this.logger.error({
                 message: 'Error in analyzeClusterFeedback',
                 error,
                 context: KodyFineTuningService.name,
                 metadata: {
-                    clusterId,
-                    existingClusterizedSuggestions,
+                    clusterSuggestions: clusterSuggestions?.length,
                 },
             });
-            return FineTuningDecision.UNCERTAIN;
+            return {
+                fineTuningDecision: FineTuningDecision.UNCERTAIN,
+                explanation: { reason: FineTuningDecisionReason.ERROR },
+            };
         }
     }
 
@@ -956,15 +1070,29 @@ export class KodyFineTuningService {
     ): Promise<{
         keepedSuggestions: Partial<CodeSuggestion>[];
         discardedSuggestions: Partial<CodeSuggestion>[];
+        results: FineTuningAnalysisResult[];
     }> {
         if (!mainClusterizedSuggestions?.length) {
             return {
                 keepedSuggestions: suggestionsToAnalyze,
                 discardedSuggestions: [],
+                results: [],
             };
         }
 
-        const results = [];
+        const { positiveThreshold, negativeThreshold } =
+            await this.defineFineTuningThresholds();
+
+        const thresholds: IFineTuningThresholds = {
+            cluster: this.SIMILARITY_THRESHOLD_CLUSTER,
+            positive: positiveThreshold,
+            negative: negativeThreshold,
+            minClusterizedSuggestions: this.MIN_CLUSTERIZED_SUGGESTIONS,
+        };
+
+        const overrides = await this.getClusterOverrides(organizationId);
+
+        const results: FineTuningAnalysisResult[] = [];
 
         for (const newSuggestion of suggestionsToAnalyze) {
             if (
@@ -974,6 +1102,10 @@ export class KodyFineTuningService {
                 results.push({
                     analyzedSuggestion: newSuggestion,
                     fineTuningDecision: FineTuningDecision.KEEP,
+                    explanation: {
+                        reason: FineTuningDecisionReason.PROTECTED_LABEL,
+                        thresholds,
+                    },
                 });
 
                 continue;
@@ -990,11 +1122,18 @@ export class KodyFineTuningService {
 
             if (
                 !clusterizedSuggestions?.length ||
-                clusterizedSuggestions?.length < 50
+                clusterizedSuggestions?.length <
+                    this.MIN_CLUSTERIZED_SUGGESTIONS
             ) {
                 results.push({
                     analyzedSuggestion: newSuggestion,
                     fineTuningDecision: FineTuningDecision.KEEP,
+                    explanation: {
+                        reason: FineTuningDecisionReason.INSUFFICIENT_HISTORY,
+                        thresholds,
+                        clusterizedSuggestions:
+                            clusterizedSuggestions?.length ?? 0,
+                    },
                 });
 
                 continue;
@@ -1003,6 +1142,8 @@ export class KodyFineTuningService {
             const comparison = await this.compareSuggestionsWithClusters(
                 newSuggestion,
                 clusterizedSuggestions,
+                thresholds,
+                overrides,
             );
             results.push(comparison);
         }
@@ -1025,8 +1166,92 @@ export class KodyFineTuningService {
             discardedSuggestions: discardedSuggestions.map(
                 (suggestion) => suggestion.analyzedSuggestion,
             ),
+            results,
         };
     }
+
+    private async getClusterOverrides(
+        organizationId: string,
+    ): Promise<IKodyFineTuningOverride[]> {
+        try {
+            const overrides = await this.kodyFineTuningOverrideService.find({
+                organizationId,
+            });
+
+            return overrides.map((override) => override.toObject());
+        } catch (error) {
+            this.logger.warn({
+                message: 'Could not load fine-tuning cluster overrides',
+                error,
+                context: KodyFineTuningService.name,
+                metadata: { organizationId },
+            });
+            return [];
+        }
+    }
+
+    private async saveDecisions(
+        organizationId: string,
+        prNumber: number,
+        repository: { id: string; full_name: string },
+        results: FineTuningAnalysisResult[],
+        dryRunId?: string,
+    ): Promise<void> {
+        if (!results?.length) {
+            return;
+        }
+
+        try {
+            await this.kodyFineTuningDecisionService.bulkCreate(
+                results.map(
+                    ({
+                        analyzedSuggestion,
+                        fineTuningDecision,
+                        explanation,
+                    }) => ({
+                        organizationId,
+                        repository: {
+                            id: repository.id,
+                            fullName: repository.full_name,
+                        },
+                        pullRequestNumber: prNumber,
+                        dryRunId,
+                        suggestion: {
+                            id: analyzedSuggestion?.id,
+                            relevantFile: analyzedSuggestion?.relevantFile,
+                            relevantLinesStart:
+                                analyzedSuggestion?.relevantLinesStart,
+                            relevantLinesEnd:
+                                analyzedSuggestion?.relevantLinesEnd,
+                            label: analyzedSuggestion?.label,
+                            severity: analyzedSuggestion?.severity,
+                            language: analyzedSuggestion?.language,
+                            oneSentenceSummary:
+                                analyzedSuggestion?.oneSentenceSummary,
+                            suggestionContent:
+                                analyzedSuggestion?.suggestionContent,
+                        },
+                        decision: fineTuningDecision,
+                        explanation,
+                    }),
+                ),
+            );
+        } catch (error) {
+            // Explainability must never block the review itself
+            this.logger.warn({
+                message: 'Could not save fine-tuning decisions',
+                error,
+                context: KodyFineTuningService.name,
+                metadata: {
+                    organizationId,
+                    prNumber,
+                    repositoryId: repository.id,
+                    dryRunId,
+                },
+            });
+        }
+    }
+
     //#endregion
 
     private async defineFineTuningThresholds(): Promise<{
@@ -0,0 +1,38 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import { FineTuningDecision } from '@libs/kodyFineTuning/domain/enums/fineTuningDecision.enum';
+import {
+    IKodyFineTuningDecisionRepository,
+    KODY_FINE_TUNING_DECISION_REPOSITORY_TOKEN,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/contracts/kodyFineTuningDecision.repository.contract';
+import { IKodyFineTuningDecisionService } from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/contracts/kodyFineTuningDecision.service.contract';
+import { KodyFineTuningDecisionEntity } from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/entities/kodyFineTuningDecision.entity';
+import { IKodyFineTuningDecision } from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/interfaces/kodyFineTuningDecision.interface';
+
+@Injectable()
+export class KodyFineTuningDecisionService implements IKodyFineTuningDecisionService {
+    constructor(
+        @Inject(KODY_FINE_TUNING_DECISION_REPOSITORY_TOKEN)
+        private readonly kodyFineTuningDecisionRepository: IKodyFineTuningDecisionRepository,
+    ) {}
+
+    bulkCreate(
+        decisions: Omit<IKodyFineTuningDecision, 'uuid'>[],
+    ): Promise<KodyFineTuningDecisionEntity[]> {
+        return this.kodyFineTuningDecisionRepository.bulkCreate(decisions);
+    }
+
+    findById(uuid: string): Promise<KodyFineTuningDecisionEntity | null> {
+        return this.kodyFineTuningDecisionRepository.findById(uuid);
+    }
+
+    findByPullRequest(params: {
+        organizationId: string;
+        repositoryId: string;
+        pullRequestNumber: number;
+        dryRunId?: string;
+        decisions?: FineTuningDecision[];
+    }): Promise<KodyFineTuningDecisionEntity[]> {
+        return this.kodyFineTuningDecisionRepository.findByPullRequest(params);
+    }
+}
@@ -0,0 +1,37 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import {
+    IKodyFineTuningOverrideRepository,
+    KODY_FINE_TUNING_OVERRIDE_REPOSITORY_TOKEN,
+} from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/contracts/kodyFineTuningOverride.repository.contract';
+import { IKodyFineTuningOverrideService } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/contracts/kodyFineTuningOverride.service.contract';
+import { KodyFineTuningOverrideEntity } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/entities/kodyFineTuningOverride.entity';
+import { IKodyFineTuningOverride } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/interfaces/kodyFineTuningOverride.interface';
+
+@Injectable()
+export class KodyFineTuningOverrideService implements IKodyFineTuningOverrideService {
+    constructor(
+        @Inject(KODY_FINE_TUNING_OVERRIDE_REPOSITORY_TOKEN)
+        private readonly kodyFineTuningOverrideRepository: IKodyFineTuningOverrideRepository,
+    ) {}
+
+    create(
+        override: Omit<IKodyFineTuningOverride, 'uuid'>,
+    ): Promise<KodyFineTuningOverrideEntity> {
+        return this.kodyFineTuningOverrideRepository.create(override);
+    }
+
+    findById(uuid: string): Promise<KodyFineTuningOverrideEntity | null> {
+        return this.kodyFineTuningOverrideRepository.findById(uuid);
+    }
+
+    find(
+        filter: Partial<IKodyFineTuningOverride>,
+    ): Promise<KodyFineTuningOverrideEntity[]> {
+        return this.kodyFineTuningOverrideRepository.find(filter);
+    }
+
+    delete(uuid: string): Promise<void> {
+        return this.kodyFineTuningOverrideRepository.delete(uuid);
+    }
+}
@@ -0,0 +1,102 @@
+import { FeedbackType } from '@libs/kodyFineTuning/domain/enums/feedbackType.enum';
+import {
+    IClusterAnalysis,
+    IClusterizedSuggestion,
+} from '@libs/kodyFineTuning/domain/interfaces/kodyFineTuning.interface';
+import { IFineTuningSimilarSuggestion } from '@libs/kodyFineTuning/domain/kodyFineTuningDecision/interfaces/kodyFineTuningDecision.interface';
+import { IKodyFineTuningOverride } from '@libs/kodyFineTuning/domain/kodyFineTuningOverride/interfaces/kodyFineTuningOverride.interface';
+
+export const MIN_OVERRIDE_OVERLAP = 0.5;
+export const MAX_SIMILAR_SUGGESTIONS = 10;
+
+export const summarizeClusterFeedback = (
+    clusterSuggestions: IClusterizedSuggestion[],
+): IClusterAnalysis =>
+    clusterSuggestions.reduce<IClusterAnalysis>(
+        (acc, { originalSuggestion }) => {
+            acc.total += 1;
+
+            switch (originalSuggestion?.feedbackType) {
+                case FeedbackType.POSITIVE_REACTION:
+                    acc.positiveReactions += 1;
+                    break;
+                case FeedbackType.NEGATIVE_REACTION:
+                    acc.negativeReactions += 1;
+                    break;
+                case FeedbackType.SUGGESTION_IMPLEMENTED:
+                    acc.implemented += 1;
+                    break;
+                default:
+                    acc.neutral += 1;
+            }
+
+            return acc;
+        },
+        {
+            total: 0,
+            positiveReactions: 0,
+            negativeReactions: 0,
+            implemented: 0,
+            neutral: 0,
+        },
+    );
+
+/**
+ * Clusters are rebuilt with k-means on every review, so an override matches
+ * the cluster holding at least half of the suggestions it was created from.
+ * When several match, the one with the largest overlap wins.
+ */
+export const findClusterOverride = <
+    T extends Pick<IKodyFineTuningOverride, 'memberSuggestionIds'>,
+>(
+    memberSuggestionIds: string[],
+    overrides: T[],
+): T | undefined => {
+    const members = new Set(memberSuggestionIds);
+
+    let best: { override: T; overlap: number } | undefined;
+
+    for (const override of overrides || []) {
+        const ids = override.memberSuggestionIds || [];
+
+        if (!ids.length) {
+            continue;
+        }
+
+        const overlap = ids.filter((id) => members.has(id)).length / ids.length;
+
+        if (overlap >= MIN_OVERRIDE_OVERLAP && overlap > (best?.overlap ?? 0)) {
+            best = { override, overlap };
+        }
+    }
+
+    return best?.override;
+};
+
+export const toSimilarSuggestions = (
+    sortedSuggestions: {
+        suggestion: IClusterizedSuggestion;
+        similarity: number;
+        isPositive: boolean;
+    }[],
+    thresholds: { positive: number; negative: number },
+): IFineTuningSimilarSuggestion[] =>
+    sortedSuggestions
+        .slice(0, MAX_SIMILAR_SUGGESTIONS)
+        .map(({ suggestion, similarity, isPositive }) => {
+            const original = suggestion.originalSuggestion;
+
+            return {
+                suggestionId: original?.suggestionId,
+                similarity,
+                feedbackType: original?.feedbackType,
+                voted:
+                    similarity >=
+                    (isPositive ? thresholds.positive : thresholds.negative),
+                label: original?.label,
+                oneSentenceSummary: original?.oneSentenceSummary,
+                suggestionContent: original?.suggestionContent,
+                pullRequestNumber: original?.pullRequestNumber,
+                repositoryFullName: original?.repositoryFullName,
+            };
+        });
@@ -1,6 +1,7 @@
 import { Module, forwardRef } from '@nestjs/common';
 
 import { SuggestionEmbeddedModule } from './suggestionEmbedded.module';
+import { KodyFineTuningDecisionModule } from './kodyFineTuningDecision.module';
 import { GlobalParametersModule } from '@libs/organization/modules/global-parameters.module';
 import { PlatformDataModule } from '@libs/platformData/platformData.module';
 import { CodeReviewFeedbackModule } from '@libs/code-review/modules/codeReviewFeedback.module';
@@ -12,6 +13,7 @@ import { KODY_FINE_TUNING_CONTEXT_PREPARATION_TOKEN } from '@libs/core/domain/in
 @Module({
     imports: [
         SuggestionEmbeddedModule,
+        KodyFineTuningDecisionModule,
         GlobalParametersModule,
         forwardRef(() => PlatformDataModule),
         forwardRef(() => CodeReviewFeedbackModule),
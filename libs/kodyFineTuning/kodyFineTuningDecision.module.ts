@@ -0,0 +1,60 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import { UseCases } from './application/use-cases';
+import { KODY_FINE_TUNING_DECISION_REPOSITORY_TOKEN } from './domain/kodyFineTuningDecision/contracts/kodyFineTuningDecision.repository.contract';
+import { KODY_FINE_TUNING_DECISION_SERVICE_TOKEN } from './domain/kodyFineTuningDecision/contracts/kodyFineTuningDecision.service.contract';
+import { KODY_FINE_TUNING_OVERRIDE_REPOSITORY_TOKEN } from './domain/kodyFineTuningOverride/contracts/kodyFineTuningOverride.repository.contract';
+import { KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN } from './domain/kodyFineTuningOverride/contracts/kodyFineTuningOverride.service.contract';
+import { KodyFineTuningDecisionRepository } from './infrastructure/adapters/repositories/kodyFineTuningDecision.repository';
+import { KodyFineTuningOverrideRepository } from './infrastructure/adapters/repositories/kodyFineTuningOverride.repository';
+import {
+    KodyFineTuningDecisionModel,
+    KodyFineTuningDecisionSchema,
+} from './infrastructure/adapters/repositories/schemas/kodyFineTuningDecision.model';
+import {
+    KodyFineTuningOverrideModel,
+    KodyFineTuningOverrideSchema,
+} from './infrastructure/adapters/repositories/schemas/kodyFineTuningOverride.model';
+import { KodyFineTuningDecisionService } from './infrastructure/adapters/services/kodyFineTuningDecision/kodyFineTuningDecision.service';
+import { KodyFineTuningOverrideService } from './infrastructure/adapters/services/kodyFineTuningOverride/kodyFineTuningOverride.service';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            {
+                name: KodyFineTuningDecisionModel.name,
+                schema: KodyFineTuningDecisionSchema,
+            },
+            {
+                name: KodyFineTuningOverrideModel.name,
+                schema: KodyFineTuningOverrideSchema,
+            },
+        ]),
+    ],
+    providers: [
+        ...UseCases,
+        {
+            provide: KODY_FINE_TUNING_DECISION_REPOSITORY_TOKEN,
+            useClass: KodyFineTuningDecisionRepository,
+        },
+        {
+            provide: KODY_FINE_TUNING_DECISION_SERVICE_TOKEN,
+            useClass: KodyFineTuningDecisionService,
+        },
+        {
+            provide: KODY_FINE_TUNING_OVERRIDE_REPOSITORY_TOKEN,
+            useClass: KodyFineTuningOverrideRepository,
+        },
+        {
+            provide: KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN,
+            useClass: KodyFineTuningOverrideService,
+        },
+    ],
+    exports: [
+        ...UseCases,
+        KODY_FINE_TUNING_DECISION_SERVICE_TOKEN,
+        KODY_FINE_TUNING_OVERRIDE_SERVICE_TOKEN,
+    ],
+})
+export class KodyFineTuningDecisionModule {}
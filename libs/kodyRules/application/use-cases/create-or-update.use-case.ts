@@ -1,5 +1,6 @@
 import { createLogger } from '@kodus/flow';
 import {
+    BadRequestException,
     Inject,
     Injectable,
     NotFoundException,
@@ -11,6 +12,7 @@ import { PromptSourceType } from '@libs/ai-engine/domain/prompt/interfaces/promp
 import { ContextReferenceDetectionService } from '@libs/ai-engine/infrastructure/adapters/services/context/context-reference-detection.service';
 import type { ContextDetectionField } from '@libs/ai-engine/infrastructure/adapters/services/context/context-reference-detection.service';
 import { CreateKodyRuleDto } from '@libs/ee/kodyRules/dtos/create-kody-rule.dto';
+import { KodyRulesTestService } from '@libs/ee/kodyRules/service/kody-rules-test.service';
 import {
     CONTEXT_RESOLUTION_SERVICE_TOKEN,
     IContextResolutionService,
@@ -25,6 +27,7 @@ import {
     IKodyRulesService,
     KODY_RULES_SERVICE_TOKEN,
 } from '@libs/kodyRules/domain/contracts/kodyRules.service.contract';
+import { IKodyRuleRevisionContext } from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
 
 @Injectable()
 export class CreateOrUpdateKodyRulesUseCase {
@@ -47,12 +50,21 @@ export class CreateOrUpdateKodyRulesUseCase {
 
         private readonly authorizationService: AuthorizationService,
         private readonly contextReferenceDetectionService: ContextReferenceDetectionService,
+        private readonly kodyRulesTestService: KodyRulesTestService,
     ) {}
 
+    /**
+     * With `validateExamples`, the rule is tested against its own examples
+     * first and isn't saved if any of them gets the wrong result or errors.
+     */
     async execute(
         kodyRule: CreateKodyRuleDto,
         organizationId: string,
         userInfo?: { userId: string; userEmail: string },
+        options?: {
+            validateExamples?: boolean;
+            revisionContext?: IKodyRuleRevisionContext;
+        },
     ) {
         try {
             const organizationAndTeamData: OrganizationAndTeamData = {
@@ -75,13 +87,22 @@ export class CreateOrUpdateKodyRulesUseCase {
                     repoIds: kodyRule.repositoryId
                         ? [kodyRule.repositoryId]
                         : undefined,
+                    directoryId: kodyRule.directoryId,
                 });
             }
 
+            if (options?.validateExamples) {
+                await this.ensureRulePassesExamples(
+                    organizationAndTeamData,
+                    kodyRule,
+                );
+            }
+
             const result = await this.kodyRulesService.createOrUpdate(
                 organizationAndTeamData,
                 kodyRule,
                 userInfoData,
+                options?.revisionContext,
             );
 
             if (!result) {
@@ -156,6 +177,42 @@ export class CreateOrUpdateKodyRulesUseCase {
         }
     }
 
+    /**
+     * Tests the rule as it will be saved: an update keeps the saved fields,
+     * examples included, that the request leaves out.
+     */
+    private async ensureRulePassesExamples(
+        organizationAndTeamData: OrganizationAndTeamData,
+        kodyRule: CreateKodyRuleDto,
+    ): Promise<void> {
+        const savedRule = kodyRule.uuid
+            ? (
+                  await this.kodyRulesService.findByOrganizationId(
+                      organizationAndTeamData.organizationId,
+                  )
+              )?.rules?.find((rule) => rule.uuid === kodyRule.uuid)
+            : undefined;
+
+        if (!(kodyRule.examples ?? savedRule?.examples)?.length) {
+            return;
+        }
+
+        const report = await this.kodyRulesTestService.testRule(
+            organizationAndTeamData,
+            { ruleId: savedRule?.uuid, kodyRule, includeExamples: true },
+        );
+
+        // An example whose analysis errored is not known to pass either
+        if (!report.summary.passed) {
+            const { failed, errors } = report.summary;
+
+            throw new BadRequestException({
+                message: `Kody rule fails ${failed + errors} of its own examples`,
+                report,
+            });
+        }
+    }
+
     private async detectAndSaveReferencesAsync(
         ruleId: string,
         ruleText: string,
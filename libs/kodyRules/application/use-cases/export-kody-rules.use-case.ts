@@ -0,0 +1,69 @@
+import { createLogger } from '@kodus/flow';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import { IKodyRulesExportResult } from '@libs/kodyRules/domain/interfaces/kodyRulesExport.interface';
+import { ExportKodyRulesDto } from '@libs/kodyRules/dtos/export-kody-rules.dto';
+import { KodyRulesExportService } from '@libs/kodyRules/infrastructure/adapters/services/kodyRulesExport.service';
+
+@Injectable()
+export class ExportKodyRulesUseCase {
+    private readonly logger = createLogger(ExportKodyRulesUseCase.name);
+    constructor(
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: {
+                organization: { uuid: string };
+                uuid: string;
+                email: string;
+            };
+        },
+        private readonly kodyRulesExportService: KodyRulesExportService,
+    ) {}
+
+    async execute(dto: ExportKodyRulesDto): Promise<IKodyRulesExportResult> {
+        const organizationId = this.request.user?.organization?.uuid;
+
+        try {
+            if (!organizationId) {
+                throw new BadRequestException('Organization ID not found');
+            }
+
+            return await this.kodyRulesExportService.exportRules(
+                { organizationId, teamId: dto.teamId },
+                { repositoryId: dto.repositoryId, formats: dto.formats },
+                {
+                    userId: this.request.user.uuid,
+                    userEmail: this.request.user.email,
+                },
+            );
+        } catch (error) {
+            if (
+                error instanceof NotFoundException ||
+                error instanceof BadRequestException
+            ) {
+                throw error;
+            }
+
+            this.logger.error({
+                message: 'Error exporting Kody Rules',
+                context: ExportKodyRulesUseCase.name,
+                error,
+                metadata: {
+                    repositoryId: dto?.repositoryId,
+                    formats: dto?.formats,
+                    organizationAndTeamData: {
+                        organizationId,
+                        teamId: dto?.teamId,
+                    },
+                },
+            });
+            throw error;
+        }
+    }
+}
@@ -57,6 +57,7 @@ export class FindRulesInOrganizationByRuleFilterKodyRulesUseCase implements IUse
                     action: Action.Read,
                     resource: ResourceType.KodyRules,
                     repoIds: [repositoryId],
+                    directoryId,
                 });
             }
 
@@ -0,0 +1,250 @@
+import { createLogger } from '@kodus/flow';
+import { getLLMTask, LLMTask } from '@kodus/kodus-common/llm';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import {
+    addTokenCost,
+    TokenPricingUseCase,
+} from '@libs/analytics/application/use-cases/usage/token-pricing.use-case';
+import {
+    ITokenUsageService,
+    TOKEN_USAGE_SERVICE_TOKEN,
+} from '@libs/analytics/domain/token-usage/contracts/tokenUsage.service.contract';
+import {
+    CODE_REVIEW_FEEDBACK_SERVICE_TOKEN,
+    ICodeReviewFeedbackService,
+} from '@libs/code-review/domain/codeReviewFeedback/contracts/codeReviewFeedback.service.contract';
+import {
+    buildKodyRulesEffectiveness,
+    emptyKodyRuleTokenUsage,
+    KodyRuleSuggestionReactions,
+    shareKodyRuleTokenUsage,
+} from '@libs/ee/kodyRules/utils/kodyRulesEffectiveness.utils';
+import {
+    IKodyRulesService,
+    KODY_RULES_SERVICE_TOKEN,
+} from '@libs/kodyRules/domain/contracts/kodyRules.service.contract';
+import { KodyRulesStatus } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import {
+    IKodyRulesEffectivenessQuery,
+    IKodyRulesEffectivenessReport,
+    IKodyRuleTokenUsage,
+} from '@libs/kodyRules/domain/interfaces/kodyRulesEffectiveness.interface';
+import {
+    IPullRequestsRepository,
+    PULL_REQUESTS_REPOSITORY_TOKEN,
+} from '@libs/platformData/domain/pullRequests/contracts/pullRequests.repository';
+import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
+
+@Injectable()
+export class GetKodyRulesEffectivenessUseCase {
+    private readonly logger = createLogger(
+        GetKodyRulesEffectivenessUseCase.name,
+    );
+    constructor(
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: { organization: { uuid: string } };
+        },
+
+        @Inject(KODY_RULES_SERVICE_TOKEN)
+        private readonly kodyRulesService: IKodyRulesService,
+
+        @Inject(PULL_REQUESTS_REPOSITORY_TOKEN)
+        private readonly pullRequestsRepository: IPullRequestsRepository,
+
+        @Inject(CODE_REVIEW_FEEDBACK_SERVICE_TOKEN)
+        private readonly codeReviewFeedbackService: ICodeReviewFeedbackService,
+
+        @Inject(TOKEN_USAGE_SERVICE_TOKEN)
+        private readonly tokenUsageService: ITokenUsageService,
+
+        private readonly tokenPricingUseCase: TokenPricingUseCase,
+    ) {}
+
+    async execute(
+        query: IKodyRulesEffectivenessQuery,
+    ): Promise<IKodyRulesEffectivenessReport> {
+        const organizationId = this.request.user?.organization?.uuid;
+        const { startDate, endDate, repositoryId } = query;
+
+        try {
+            if (!organizationId) {
+                throw new BadRequestException('Organization ID not found');
+            }
+
+            if (startDate >= endDate) {
+                throw new BadRequestException(
+                    'startDate must be before endDate',
+                );
+            }
+
+            const entity =
+                await this.kodyRulesService.findByOrganizationId(
+                    organizationId,
+                );
+
+            if (!entity) {
+                throw new NotFoundException(
+                    'No Kody rules found for the given organization ID',
+                );
+            }
+
+            const activeRules = (entity.rules ?? []).filter(
+                (rule) => rule?.status === KodyRulesStatus.ACTIVE,
+            );
+            const rules = activeRules.filter(
+                (rule) =>
+                    !repositoryId ||
+                    rule.repositoryId === repositoryId ||
+                    rule.repositoryId === 'global',
+            );
+
+            const suggestions =
+                await this.pullRequestsRepository.findKodyRuleSuggestionsByPeriod(
+                    organizationId,
+                    { startDate, endDate },
+                );
+
+            const scopedSuggestions = repositoryId
+                ? suggestions.filter(
+                      (suggestion) => suggestion.repositoryId === repositoryId,
+                  )
+                : suggestions;
+
+            const [reactions, tokens] = await Promise.all([
+                this.getReactions(
+                    organizationId,
+                    scopedSuggestions
+                        .filter(
+                            (suggestion) =>
+                                suggestion.deliveryStatus ===
+                                DeliveryStatus.SENT,
+                        )
+                        .map((suggestion) => suggestion.id),
+                ),
+                this.getTokenUsage(organizationId, startDate, endDate),
+            ]);
+
+            return {
+                startDate: startDate.toISOString(),
+                endDate: endDate.toISOString(),
+                repositoryId,
+                tokens,
+                rules: buildKodyRulesEffectiveness({
+                    rules,
+                    suggestions: scopedSuggestions,
+                    reactions,
+                    // The reported rules' part of the organization's usage
+                    tokens: shareKodyRuleTokenUsage(
+                        tokens,
+                        activeRules.length
+                            ? rules.length / activeRules.length
+                            : 0,
+                    ),
+                    startDate,
+                }),
+            };
+        } catch (error) {
+            if (
+                error instanceof NotFoundException ||
+                error instanceof BadRequestException
+            ) {
+                throw error;
+            }
+
+            this.logger.error({
+                message: 'Error building Kody Rules effectiveness report',
+                context: GetKodyRulesEffectivenessUseCase.name,
+                error,
+                metadata: {
+                    query,
+                    organizationAndTeamData: { organizationId },
+                },
+            });
+            throw error;
+        }
+    }
+
+    private async getReactions(
+        organizationId: string,
+        suggestionIds: string[],
+    ): Promise<Map<string, KodyRuleSuggestionReactions>> {
+        const reactions = new Map<string, KodyRuleSuggestionReactions>();
+
+        if (!suggestionIds.length) {
+            return reactions;
+        }
+
+        const feedbacks =
+            await this.codeReviewFeedbackService.findBySuggestionIds(
+                organizationId,
+                suggestionIds,
+            );
+
+        for (const feedback of feedbacks) {
+            const current = reactions.get(feedback.suggestionId);
+            const { thumbsUp = 0, thumbsDown = 0 } = feedback.reactions ?? {};
+
+            // A comment synced more than once keeps its highest counts
+            reactions.set(feedback.suggestionId, {
+                thumbsUp: Math.max(current?.thumbsUp ?? 0, thumbsUp),
+                thumbsDown: Math.max(current?.thumbsDown ?? 0, thumbsDown),
+            });
+        }
+
+        return reactions;
+    }
+
+    private async getTokenUsage(
+        organizationId: string,
+        start: Date,
+        end: Date,
+    ): Promise<IKodyRuleTokenUsage> {
+        const tokens = emptyKodyRuleTokenUsage();
+
+        try {
+            const usages = (
+                await this.tokenUsageService.getUsageByRunName({
+                    organizationId,
+                    start,
+                    end,
+                    // Kody Rules runs are never excluded from the non-BYOK view
+                    byok: false,
+                })
+            ).filter(
+                (usage) => getLLMTask(usage.runName) === LLMTask.KODY_RULES,
+            );
+
+            const pricingByModel =
+                await this.tokenPricingUseCase.getPricingByModel(
+                    usages.map((usage) => usage.model),
+                );
+
+            for (const usage of usages) {
+                const pricing = pricingByModel.get(usage.model);
+
+                tokens.input += usage.input;
+                tokens.output += usage.output;
+                tokens.outputReasoning += usage.outputReasoning;
+                tokens.total += usage.total;
+                tokens.cost = addTokenCost(tokens.cost, usage, pricing);
+            }
+        } catch (error) {
+            this.logger.warn({
+                message: 'Could not fetch token usage for Kody Rules',
+                context: GetKodyRulesEffectivenessUseCase.name,
+                error,
+                metadata: { organizationId, start, end },
+            });
+        }
+
+        return tokens;
+    }
+}
@@ -16,8 +16,14 @@ import { FastSyncIdeRulesUseCase } from './fast-sync-ide-rules.use-case';
 import { ResyncRulesFromIdeUseCase } from './resync-rules-from-ide.use-case';
 import { SendRulesNotificationUseCase } from './send-rules-notification.use-case';
 import { SyncSelectedRepositoriesKodyRulesUseCase } from './sync-selected-repositories.use-case';
+import { TestKodyRuleUseCase } from './test-kody-rule.use-case';
 import { ImportFastKodyRulesUseCase } from './import-fast-kody-rules.use-case';
 import { FindRecommendedKodyRulesUseCase } from './find-recommended-kody-rules.use-case';
+import { FindKodyRuleRevisionsUseCase } from './revisions/find-kody-rule-revisions.use-case';
+import { GetKodyRuleRevisionDiffUseCase } from './revisions/get-kody-rule-revision-diff.use-case';
+import { RestoreKodyRuleRevisionUseCase } from './revisions/restore-kody-rule-revision.use-case';
+import { ExportKodyRulesUseCase } from './export-kody-rules.use-case';
+import { GetKodyRulesEffectivenessUseCase } from './get-kody-rules-effectiveness.use-case';
 
 export const UseCases = [
     CreateOrUpdateKodyRulesUseCase,
@@ -40,4 +46,10 @@ export const UseCases = [
     ResyncRulesFromIdeUseCase,
     FastSyncIdeRulesUseCase,
     ImportFastKodyRulesUseCase,
+    TestKodyRuleUseCase,
+    FindKodyRuleRevisionsUseCase,
+    GetKodyRuleRevisionDiffUseCase,
+    RestoreKodyRuleRevisionUseCase,
+    ExportKodyRulesUseCase,
+    GetKodyRulesEffectivenessUseCase,
 ];
@@ -0,0 +1,69 @@
+import { createLogger } from '@kodus/flow';
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import { diffKodyRuleSnapshots } from '@libs/ee/kodyRules/utils/kodyRuleRevisions.utils';
+import {
+    IKodyRuleRevisionsService,
+    KODY_RULE_REVISIONS_SERVICE_TOKEN,
+} from '@libs/kodyRules/domain/contracts/kodyRuleRevisions.service.contract';
+import {
+    IKodyRuleRevision,
+    IKodyRuleRevisionChange,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+
+@Injectable()
+export class FindKodyRuleRevisionsUseCase {
+    private readonly logger = createLogger(FindKodyRuleRevisionsUseCase.name);
+    constructor(
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: { organization: { uuid: string } };
+        },
+        @Inject(KODY_RULE_REVISIONS_SERVICE_TOKEN)
+        private readonly kodyRuleRevisionsService: IKodyRuleRevisionsService,
+    ) {}
+
+    /**
+     * Newest first, each with the changes from the revision before it.
+     */
+    async execute(
+        ruleId: string,
+    ): Promise<
+        Array<IKodyRuleRevision & { changes: IKodyRuleRevisionChange[] }>
+    > {
+        const organizationId = this.request.user?.organization?.uuid;
+
+        try {
+            if (!organizationId) {
+                throw new BadRequestException('Organization ID not found');
+            }
+
+            const revisions = (
+                await this.kodyRuleRevisionsService.findByRuleId(
+                    organizationId,
+                    ruleId,
+                )
+            ).map((revision) => revision.toObject());
+
+            return revisions.map((revision, index) => ({
+                ...revision,
+                changes: diffKodyRuleSnapshots(
+                    revisions[index + 1]?.snapshot,
+                    revision.snapshot,
+                ),
+            }));
+        } catch (error) {
+            this.logger.error({
+                message: 'Error finding Kody Rule revisions',
+                context: FindKodyRuleRevisionsUseCase.name,
+                error,
+                metadata: {
+                    ruleId,
+                    organizationAndTeamData: { organizationId },
+                },
+            });
+            throw error;
+        }
+    }
+}
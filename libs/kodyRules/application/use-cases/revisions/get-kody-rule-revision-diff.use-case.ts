@@ -0,0 +1,95 @@
+import { createLogger } from '@kodus/flow';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import { diffKodyRuleSnapshots } from '@libs/ee/kodyRules/utils/kodyRuleRevisions.utils';
+import {
+    IKodyRuleRevisionsService,
+    KODY_RULE_REVISIONS_SERVICE_TOKEN,
+} from '@libs/kodyRules/domain/contracts/kodyRuleRevisions.service.contract';
+import { IKodyRuleRevisionDiff } from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+
+@Injectable()
+export class GetKodyRuleRevisionDiffUseCase {
+    private readonly logger = createLogger(GetKodyRuleRevisionDiffUseCase.name);
+    constructor(
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: { organization: { uuid: string } };
+        },
+        @Inject(KODY_RULE_REVISIONS_SERVICE_TOKEN)
+        private readonly kodyRuleRevisionsService: IKodyRuleRevisionsService,
+    ) {}
+
+    /**
+     * Changes from `fromRevision` to `toRevision`. Without `fromRevision`
+     * it compares against the revision right before; revision 1 is compared
+     * against nothing.
+     */
+    async execute(
+        ruleId: string,
+        toRevision: number,
+        fromRevision?: number,
+    ): Promise<IKodyRuleRevisionDiff> {
+        const organizationId = this.request.user?.organization?.uuid;
+
+        try {
+            if (!organizationId) {
+                throw new BadRequestException('Organization ID not found');
+            }
+
+            const baseRevision = fromRevision ?? toRevision - 1;
+
+            const [to, from] = await Promise.all([
+                this.kodyRuleRevisionsService.findByRevision(
+                    organizationId,
+                    ruleId,
+                    toRevision,
+                ),
+                baseRevision > 0
+                    ? this.kodyRuleRevisionsService.findByRevision(
+                          organizationId,
+                          ruleId,
+                          baseRevision,
+                      )
+                    : Promise.resolve(null),
+            ]);
+
+            if (!to || (baseRevision > 0 && !from)) {
+                throw new NotFoundException('Kody Rule revision not found');
+            }
+
+            return {
+                ruleId,
+                fromRevision: from?.revision ?? null,
+                toRevision: to.revision,
+                changes: diffKodyRuleSnapshots(from?.snapshot, to.snapshot),
+            };
+        } catch (error) {
+            if (
+                error instanceof NotFoundException ||
+                error instanceof BadRequestException
+            ) {
+                throw error;
+            }
+
+            this.logger.error({
+                message: 'Error comparing Kody Rule revisions',
+                context: GetKodyRuleRevisionDiffUseCase.name,
+                error,
+                metadata: {
+                    ruleId,
+                    toRevision,
+                    fromRevision,
+                    organizationAndTeamData: { organizationId },
+                },
+            });
+            throw error;
+        }
+    }
+}
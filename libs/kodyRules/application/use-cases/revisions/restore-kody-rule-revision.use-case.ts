@@ -0,0 +1,90 @@
+import { createLogger } from '@kodus/flow';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import { CreateKodyRuleDto } from '@libs/ee/kodyRules/dtos/create-kody-rule.dto';
+import { fromKodyRuleSnapshot } from '@libs/ee/kodyRules/utils/kodyRuleRevisions.utils';
+import {
+    IKodyRuleRevisionsService,
+    KODY_RULE_REVISIONS_SERVICE_TOKEN,
+} from '@libs/kodyRules/domain/contracts/kodyRuleRevisions.service.contract';
+import { KodyRuleRevisionOrigin } from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+
+import { CreateOrUpdateKodyRulesUseCase } from '../create-or-update.use-case';
+
+@Injectable()
+export class RestoreKodyRuleRevisionUseCase {
+    private readonly logger = createLogger(RestoreKodyRuleRevisionUseCase.name);
+    constructor(
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: { organization: { uuid: string } };
+        },
+        @Inject(KODY_RULE_REVISIONS_SERVICE_TOKEN)
+        private readonly kodyRuleRevisionsService: IKodyRuleRevisionsService,
+        private readonly createOrUpdateKodyRulesUseCase: CreateOrUpdateKodyRulesUseCase,
+    ) {}
+
+    /**
+     * Saves the rule as it was in `revision`. The restore is recorded as a
+     * new revision, so it can be rolled back too.
+     */
+    async execute(ruleId: string, revision: number) {
+        const organizationId = this.request.user?.organization?.uuid;
+
+        try {
+            if (!organizationId) {
+                throw new BadRequestException('Organization ID not found');
+            }
+
+            const target = await this.kodyRuleRevisionsService.findByRevision(
+                organizationId,
+                ruleId,
+                revision,
+            );
+
+            if (!target) {
+                throw new NotFoundException('Kody Rule revision not found');
+            }
+
+            return await this.createOrUpdateKodyRulesUseCase.execute(
+                fromKodyRuleSnapshot(
+                    ruleId,
+                    target.snapshot,
+                ) as CreateKodyRuleDto,
+                organizationId,
+                undefined,
+                {
+                    revisionContext: {
+                        origin: KodyRuleRevisionOrigin.USER,
+                        restoredFromRevision: target.revision,
+                    },
+                },
+            );
+        } catch (error) {
+            if (
+                error instanceof NotFoundException ||
+                error instanceof BadRequestException
+            ) {
+                throw error;
+            }
+
+            this.logger.error({
+                message: 'Error restoring Kody Rule revision',
+                context: RestoreKodyRuleRevisionUseCase.name,
+                error,
+                metadata: {
+                    ruleId,
+                    revision,
+                    organizationAndTeamData: { organizationId },
+                },
+            });
+            throw error;
+        }
+    }
+}
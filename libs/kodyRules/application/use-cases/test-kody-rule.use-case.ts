@@ -0,0 +1,59 @@
+import { createLogger } from '@kodus/flow';
+import {
+    BadRequestException,
+    Inject,
+    Injectable,
+    NotFoundException,
+} from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+
+import { KodyRulesTestService } from '@libs/ee/kodyRules/service/kody-rules-test.service';
+import {
+    IKodyRuleTestInput,
+    IKodyRuleTestReport,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleTest.interface';
+
+@Injectable()
+export class TestKodyRuleUseCase {
+    private readonly logger = createLogger(TestKodyRuleUseCase.name);
+    constructor(
+        @Inject(REQUEST)
+        private readonly request: Request & {
+            user: { organization: { uuid: string } };
+        },
+        private readonly kodyRulesTestService: KodyRulesTestService,
+    ) {}
+
+    async execute(input: IKodyRuleTestInput): Promise<IKodyRuleTestReport> {
+        const organizationId = this.request.user?.organization?.uuid;
+
+        try {
+            if (!organizationId) {
+                throw new BadRequestException('Organization ID not found');
+            }
+
+            return await this.kodyRulesTestService.testRule(
+                { organizationId },
+                input,
+            );
+        } catch (error) {
+            if (
+                error instanceof NotFoundException ||
+                error instanceof BadRequestException
+            ) {
+                throw error;
+            }
+
+            this.logger.error({
+                message: 'Error testing Kody Rule',
+                context: TestKodyRuleUseCase.name,
+                error,
+                metadata: {
+                    ruleId: input?.ruleId,
+                    organizationAndTeamData: { organizationId },
+                },
+            });
+            throw error;
+        }
+    }
+}
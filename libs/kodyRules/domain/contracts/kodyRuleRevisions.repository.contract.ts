@@ -0,0 +1,29 @@
+import { KodyRuleRevisionEntity } from '../entities/kodyRuleRevision.entity';
+import { IKodyRuleRevision } from '../interfaces/kodyRuleRevision.interface';
+
+export const KODY_RULE_REVISIONS_REPOSITORY_TOKEN = Symbol.for(
+    'KodyRuleRevisionsRepository',
+);
+
+export interface IKodyRuleRevisionsRepository {
+    create(
+        revision: Omit<IKodyRuleRevision, 'uuid'>,
+    ): Promise<KodyRuleRevisionEntity | null>;
+
+    findLatest(
+        organizationId: string,
+        ruleId: string,
+    ): Promise<KodyRuleRevisionEntity | null>;
+
+    findByRevision(
+        organizationId: string,
+        ruleId: string,
+        revision: number,
+    ): Promise<KodyRuleRevisionEntity | null>;
+
+    /** Newest first */
+    findByRuleId(
+        organizationId: string,
+        ruleId: string,
+    ): Promise<KodyRuleRevisionEntity[]>;
+}
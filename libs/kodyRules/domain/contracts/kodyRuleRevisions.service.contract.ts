@@ -0,0 +1,6 @@
+import { IKodyRuleRevisionsRepository } from './kodyRuleRevisions.repository.contract';
+
+export const KODY_RULE_REVISIONS_SERVICE_TOKEN =
+    'KODY_RULE_REVISIONS_SERVICE_TOKEN';
+
+export interface IKodyRuleRevisionsService extends IKodyRuleRevisionsRepository {}
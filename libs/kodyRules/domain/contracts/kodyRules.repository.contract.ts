@@ -37,6 +37,12 @@ export interface IKodyRulesRepository {
         ruleId: string,
         updateData: Partial<IKodyRule>,
     ): Promise<KodyRulesEntity | null>;
+    /** Never lowers the revision the rule already has */
+    updateRuleRevision(
+        uuid: string,
+        ruleId: string,
+        revision: number,
+    ): Promise<KodyRulesEntity | null>;
     deleteRule(uuid: string, ruleId: string): Promise<boolean>;
     deleteRuleLogically(
         uuid: string,
@@ -1,5 +1,6 @@
 import { IKodyRulesRepository } from './kodyRules.repository.contract';
 import { IKodyRule, KodyRulesStatus } from '../interfaces/kodyRules.interface';
+import { IKodyRuleRevisionContext } from '../interfaces/kodyRuleRevision.interface';
 import { KodyRulesEntity } from '../entities/kodyRules.entity';
 import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
 import { CreateKodyRuleDto } from '@libs/ee/kodyRules/dtos/create-kody-rule.dto';
@@ -17,6 +18,7 @@ export interface IKodyRulesService extends IKodyRulesRepository {
         organizationAndTeamData: OrganizationAndTeamData,
         kodyRule: CreateKodyRuleDto,
         userInfo?: UserInfo,
+        revisionContext?: IKodyRuleRevisionContext,
     ): Promise<Partial<IKodyRule> | IKodyRule | null>;
 
     getLibraryKodyRules(
@@ -46,12 +48,14 @@ export interface IKodyRulesService extends IKodyRulesRepository {
         organizationAndTeamData: OrganizationAndTeamData,
         ruleId: string,
         userInfo: UserInfo,
+        revisionContext?: IKodyRuleRevisionContext,
     ): Promise<boolean>;
 
     updateRuleWithLogging(
         organizationAndTeamData: OrganizationAndTeamData,
         kodyRule: CreateKodyRuleDto,
         userInfo?: UserInfo,
+        revisionContext?: IKodyRuleRevisionContext,
     ): Promise<Partial<IKodyRule> | IKodyRule | null>;
 
     updateRuleReferences(
@@ -0,0 +1,95 @@
+import { Entity } from '@libs/core/domain/interfaces/entity';
+
+import {
+    IKodyRuleRevision,
+    IKodyRuleRevisionAuthor,
+    KodyRuleRevisionAction,
+    KodyRuleRevisionOrigin,
+} from '../interfaces/kodyRuleRevision.interface';
+import { IKodyRule } from '../interfaces/kodyRules.interface';
+
+export class KodyRuleRevisionEntity implements Entity<IKodyRuleRevision> {
+    private readonly _uuid?: string;
+    private readonly _organizationId: string;
+    private readonly _ruleId: string;
+    private readonly _revision: number;
+    private readonly _snapshot: Partial<IKodyRule>;
+    private readonly _action: KodyRuleRevisionAction;
+    private readonly _origin: KodyRuleRevisionOrigin;
+    private readonly _author?: IKodyRuleRevisionAuthor;
+    private readonly _restoredFromRevision?: number;
+    private readonly _createdAt?: Date;
+    private readonly _updatedAt?: Date;
+
+    constructor(props: IKodyRuleRevision) {
+        this._uuid = props.uuid;
+        this._organizationId = props.organizationId;
+        this._ruleId = props.ruleId;
+        this._revision = props.revision;
+        this._snapshot = props.snapshot;
+        this._action = props.action;
+        this._origin = props.origin;
+        this._author = props.author;
+        this._restoredFromRevision = props.restoredFromRevision;
+        this._createdAt = props.createdAt;
+        this._updatedAt = props.updatedAt;
+    }
+
+    static create(props: IKodyRuleRevision): KodyRuleRevisionEntity {
+        return new KodyRuleRevisionEntity(props);
+    }
+
+    toJson(): IKodyRuleRevision {
+        return this.toObject();
+    }
+
+    toObject(): IKodyRuleRevision {
+        return {
+            uuid: this._uuid,
+            organizationId: this._organizationId,
+            ruleId: this._ruleId,
+            revision: this._revision,
+            snapshot: this._snapshot,
+            action: this._action,
+            origin: this._origin,
+            author: this._author,
+            restoredFromRevision: this._restoredFromRevision,
+            createdAt: this._createdAt,
+            updatedAt: this._updatedAt,
+        };
+    }
+
+    get uuid(): string | undefined {
+        return this._uuid;
+    }
+    get organizationId(): string {
+        return this._organizationId;
+    }
+    get ruleId(): string {
+        return this._ruleId;
+    }
+    get revision(): number {
+        return this._revision;
+    }
+    get snapshot(): Partial<IKodyRule> {
+        return this._snapshot;
+    }
+    get action(): KodyRuleRevisionAction {
+        return this._action;
+    }
+    get origin(): KodyRuleRevisionOrigin {
+        return this._origin;
+    }
+    get author(): IKodyRuleRevisionAuthor | undefined {
+        return this._author;
+    }
+    get restoredFromRevision(): number | undefined {
+        return this._restoredFromRevision;
+    }
+    get createdAt(): Date | undefined {
+        return this._createdAt;
+    }
+    get updatedAt(): Date | undefined {
+        return this._updatedAt;
+    }
+}
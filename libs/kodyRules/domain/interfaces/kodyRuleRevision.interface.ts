@@ -0,0 +1,62 @@
+import { IKodyRule } from './kodyRules.interface';
+
+export enum KodyRuleRevisionOrigin {
+    USER = 'user',
+    IDE_SYNC = 'ide-sync',
+    LIBRARY = 'library',
+    GENERATED = 'generated',
+}
+
+export enum KodyRuleRevisionAction {
+    CREATE = 'create',
+    UPDATE = 'update',
+    DELETE = 'delete',
+    RESTORE = 'restore',
+}
+
+export interface IKodyRuleRevisionAuthor {
+    userId?: string;
+    userEmail?: string;
+}
+
+/**
+ * A saved state of one rule. `snapshot` holds the versioned fields only;
+ * ids, timestamps and the context reference are left out.
+ */
+export interface IKodyRuleRevision {
+    uuid?: string;
+    organizationId: string;
+    ruleId: string;
+    revision: number;
+    snapshot: Partial<IKodyRule>;
+    action: KodyRuleRevisionAction;
+    origin: KodyRuleRevisionOrigin;
+    author?: IKodyRuleRevisionAuthor;
+    restoredFromRevision?: number;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * Where a save comes from, when the caller knows better than the rule's
+ * own `origin` (e.g. the IDE sync, or a restore).
+ */
+export interface IKodyRuleRevisionContext {
+    origin?: KodyRuleRevisionOrigin;
+    restoredFromRevision?: number;
+}
+
+export interface IKodyRuleRevisionChange {
+    field: keyof IKodyRule;
+    before: unknown;
+    after: unknown;
+    /** Unified diff, for the rule text */
+    patch?: string;
+}
+
+export interface IKodyRuleRevisionDiff {
+    ruleId: string;
+    fromRevision: number | null;
+    toRevision: number;
+    changes: IKodyRuleRevisionChange[];
+}
@@ -0,0 +1,72 @@
+import { IKodyRule, KodyRulesScope, KodyRuleType } from './kodyRules.interface';
+
+export enum KodyRuleTestOutcome {
+    TRUE_POSITIVE = 'true_positive',
+    FALSE_POSITIVE = 'false_positive',
+    TRUE_NEGATIVE = 'true_negative',
+    FALSE_NEGATIVE = 'false_negative',
+    FLAGGED = 'flagged',
+    NOT_FLAGGED = 'not_flagged',
+    ERROR = 'error',
+}
+
+/**
+ * Code pasted by the rule author. Samples without `expectViolation` are
+ * reported as flagged or not, and don't count towards precision and recall.
+ */
+export interface IKodyRuleTestSample {
+    code: string;
+    filename?: string;
+    language?: string;
+    expectViolation?: boolean;
+}
+
+export interface IKodyRuleTestInput {
+    /** Saved rule to test. `kodyRule` fields, when also given, override it. */
+    ruleId?: string;
+    kodyRule?: Partial<IKodyRule>;
+    samples?: IKodyRuleTestSample[];
+    includeExamples?: boolean;
+}
+
+export interface IKodyRuleTestFinding {
+    suggestionContent?: string;
+    relevantLinesStart?: number;
+    relevantLinesEnd?: number;
+    severity?: string;
+}
+
+export interface IKodyRuleTestCaseResult {
+    source: 'example' | 'sample';
+    index: number;
+    filename: string;
+    expectViolation?: boolean;
+    flagged: boolean;
+    outcome: KodyRuleTestOutcome;
+    findings: IKodyRuleTestFinding[];
+    error?: string;
+}
+
+export interface IKodyRuleTestSummary {
+    total: number;
+    truePositives: number;
+    falsePositives: number;
+    trueNegatives: number;
+    falseNegatives: number;
+    unlabeled: number;
+    errors: number;
+    /** Labeled cases the rule got wrong (false positives and negatives) */
+    failed: number;
+    precision: number | null;
+    recall: number | null;
+    passed: boolean;
+}
+
+export interface IKodyRuleTestReport {
+    ruleId?: string;
+    title?: string;
+    type: KodyRuleType;
+    scope: KodyRulesScope;
+    summary: IKodyRuleTestSummary;
+    results: IKodyRuleTestCaseResult[];
+}
@@ -38,7 +38,8 @@ export interface IKodyRule {
     status: KodyRulesStatus;
     severity: string;
     label?: string;
-    type?: string;
+    type?: KodyRuleType;
+    matcher?: IKodyRuleMatcher;
     extendedContext?: IKodyRulesExtendedContext;
     examples?: IKodyRulesExample[];
     repositoryId: string;
@@ -50,6 +51,19 @@ export interface IKodyRule {
     directoryId?: string;
     inheritance?: IKodyRulesInheritance;
     contextReferenceId?: string;
+    /** Latest entry in the rule's revision history */
+    revision?: number;
+}
+
+/**
+ * Pattern checked against the added lines of the diff by deterministic
+ * (regex or structural) rules. `message` is a template rendered for every
+ * match, e.g. "Avoid {{match}} in {{file}}".
+ */
+export interface IKodyRuleMatcher {
+    pattern: string;
+    flags?: string;
+    message?: string;
 }
 
 export interface IKodyRulesExtendedContext {
@@ -104,10 +118,22 @@ export enum KodyRulesScope {
     FILE = 'file',
 }
 
+export enum KodyRuleType {
+    LLM = 'llm',
+    REGEX = 'regex',
+    STRUCTURAL = 'structural',
+}
+
 export const kodyRulesExtendedContextSchema = z.object({
     todo: z.string(),
 });
 
+export const kodyRuleMatcherSchema = z.object({
+    pattern: z.string(),
+    flags: z.string().optional(),
+    message: z.string().optional(),
+});
+
 export const kodyRulesExampleSchema = z.object({
     snippet: z.string(),
     isCorrect: z.boolean(),
@@ -171,6 +197,11 @@ const kodyRulesScopeSchema = z.enum([...Object.values(KodyRulesScope)] as [
     ...KodyRulesScope[],
 ]);
 
+const kodyRuleTypeSchema = z.enum([...Object.values(KodyRuleType)] as [
+    KodyRuleType,
+    ...KodyRuleType[],
+]);
+
 export const kodyRuleSchema = z.object({
     uuid: z.string().optional(),
     title: z.string(),
@@ -181,7 +212,8 @@ export const kodyRuleSchema = z.object({
     status: kodyRulesStatusSchema,
     severity: z.string(),
     label: z.string().optional(),
-    type: z.string().optional(),
+    type: kodyRuleTypeSchema.optional(),
+    matcher: kodyRuleMatcherSchema.optional(),
     extendedContext: kodyRulesExtendedContextSchema.optional(),
     examples: z.array(kodyRulesExampleSchema).optional(),
     repositoryId: z.string(),
@@ -193,4 +225,5 @@ export const kodyRuleSchema = z.object({
     inheritance: kodyRulesInheritanceSchema.optional(),
     directoryId: z.string().optional(),
     contextReferenceId: z.string().optional(),
+    revision: z.number().optional(),
 });
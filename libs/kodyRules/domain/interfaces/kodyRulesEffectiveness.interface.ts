@@ -0,0 +1,74 @@
+import { KodyRuleType } from './kodyRules.interface';
+
+export enum KodyRuleEffectivenessFlag {
+    /** Active for the whole window without producing a suggestion. */
+    NEVER_FIRED = 'never_fired',
+    /** Fired, but none of its suggestions got past the filters. */
+    ALWAYS_DISCARDED = 'always_discarded',
+    /** Its delivered suggestions are rarely adopted or mostly thumbed down. */
+    CONSISTENTLY_REJECTED = 'consistently_rejected',
+}
+
+export interface IKodyRulesEffectivenessQuery {
+    startDate: Date;
+    endDate: Date;
+    /** Limits the report to the repository's rules and the global ones. */
+    repositoryId?: string;
+}
+
+export interface IKodyRuleTokenUsage {
+    input: number;
+    output: number;
+    outputReasoning: number;
+    total: number;
+    /** In USD, unknown when any of the models has no public price. */
+    cost?: number;
+}
+
+export interface IKodyRuleEffectiveness {
+    ruleId: string;
+    title: string;
+    repositoryId: string;
+    directoryId?: string;
+    severity: string;
+    type?: KodyRuleType;
+    /** Suggestions the rule produced, delivered or not. */
+    fired: number;
+    sent: number;
+    /** Sent suggestions implemented, fully or partially. */
+    implemented: number;
+    /** Sent suggestions implemented or with more thumbs up than down. */
+    accepted: number;
+    /** Sent suggestions not implemented and with more thumbs down than up. */
+    rejected: number;
+    positiveReactions: number;
+    negativeReactions: number;
+    discarded: {
+        total: number;
+        bySeverity: number;
+        bySafeguard: number;
+        other: number;
+    };
+    /** `accepted / sent`, null when nothing was sent. */
+    acceptanceRate: number | null;
+    /** `rejected / sent`, null when nothing was sent. */
+    rejectionRate: number | null;
+    /** `discarded / fired`, null when the rule never fired. */
+    discardRate: number | null;
+    /**
+     * Share of the Kody Rules LLM usage in the window, split evenly between
+     * the active rules, fired or not. An estimate: runs aren't tagged with
+     * the rules they evaluated.
+     */
+    tokens: IKodyRuleTokenUsage;
+    flags: KodyRuleEffectivenessFlag[];
+}
+
+export interface IKodyRulesEffectivenessReport {
+    startDate: string;
+    endDate: string;
+    repositoryId?: string;
+    /** Kody Rules LLM usage of the whole organization in the window. */
+    tokens: IKodyRuleTokenUsage;
+    rules: IKodyRuleEffectiveness[];
+}
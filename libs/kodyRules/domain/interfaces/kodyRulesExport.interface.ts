@@ -0,0 +1,44 @@
+import { CommitFileAction } from '@libs/platform/domain/platformIntegrations/types/codeManagement/commit.type';
+
+export enum KodyRulesExportFormat {
+    /** `.cursor/rules/kody/*.mdc`, scoped through `globs`. */
+    CURSOR = 'cursor',
+    /** `.github/instructions/kody/*.instructions.md`, scoped through `applyTo`. */
+    COPILOT = 'copilot',
+    /** `.kody/rules/*.md`, read by Kody itself and most agents. */
+    KODY = 'kody',
+}
+
+export interface IKodyRulesExportInput {
+    repositoryId: string;
+    /** Defaults to every format. */
+    formats?: KodyRulesExportFormat[];
+}
+
+/** One rule rendered for one format. */
+export interface IKodyRulesExportFile {
+    ruleId: string;
+    format: KodyRulesExportFormat;
+    path: string;
+    content: string;
+}
+
+export interface IKodyRulesExportChange {
+    path: string;
+    action: CommitFileAction;
+    ruleId?: string;
+}
+
+export interface IKodyRulesExportResult {
+    repositoryId: string;
+    branch: string;
+    /** Rules rendered in this export, whether their files changed or not. */
+    ruleIds: string[];
+    changes: IKodyRulesExportChange[];
+    commitSha?: string;
+    pullRequest?: {
+        number: number;
+        url?: string;
+        created: boolean;
+    };
+}
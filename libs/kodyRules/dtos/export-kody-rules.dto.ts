@@ -0,0 +1,26 @@
+import {
+    IsArray,
+    IsEnum,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+} from 'class-validator';
+import {
+    IKodyRulesExportInput,
+    KodyRulesExportFormat,
+} from '@libs/kodyRules/domain/interfaces/kodyRulesExport.interface';
+
+export class ExportKodyRulesDto implements IKodyRulesExportInput {
+    @IsString()
+    @IsNotEmpty()
+    teamId: string;
+
+    @IsString()
+    @IsNotEmpty()
+    repositoryId: string;
+
+    @IsOptional()
+    @IsArray()
+    @IsEnum(KodyRulesExportFormat, { each: true })
+    formats?: KodyRulesExportFormat[];
+}
@@ -0,0 +1,13 @@
+import { IsISO8601, IsOptional, IsString } from 'class-validator';
+
+export class KodyRulesEffectivenessQueryDto {
+    @IsISO8601()
+    startDate: string;
+
+    @IsISO8601()
+    endDate: string;
+
+    @IsOptional()
+    @IsString()
+    repositoryId?: string;
+}
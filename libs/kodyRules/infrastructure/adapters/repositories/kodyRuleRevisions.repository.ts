@@ -0,0 +1,60 @@
+import {
+    mapSimpleModelsToEntities,
+    mapSimpleModelToEntity,
+} from '@libs/core/infrastructure/repositories/mappers';
+import { IKodyRuleRevisionsRepository } from '@libs/kodyRules/domain/contracts/kodyRuleRevisions.repository.contract';
+import { KodyRuleRevisionEntity } from '@libs/kodyRules/domain/entities/kodyRuleRevision.entity';
+import { IKodyRuleRevision } from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+
+import { KodyRuleRevisionModel } from './schemas/mongoose/kodyRuleRevisions.model';
+
+@Injectable()
+export class KodyRuleRevisionsRepository implements IKodyRuleRevisionsRepository {
+    constructor(
+        @InjectModel(KodyRuleRevisionModel.name)
+        private readonly kodyRuleRevisionModel: Model<KodyRuleRevisionModel>,
+    ) {}
+
+    async create(
+        revision: Omit<IKodyRuleRevision, 'uuid'>,
+    ): Promise<KodyRuleRevisionEntity | null> {
+        const saved = await this.kodyRuleRevisionModel.create(revision);
+        return mapSimpleModelToEntity(saved, KodyRuleRevisionEntity);
+    }
+
+    async findLatest(
+        organizationId: string,
+        ruleId: string,
+    ): Promise<KodyRuleRevisionEntity | null> {
+        const doc = await this.kodyRuleRevisionModel
+            .findOne({ organizationId, ruleId })
+            .sort({ revision: -1 })
+            .exec();
+        return doc ? mapSimpleModelToEntity(doc, KodyRuleRevisionEntity) : null;
+    }
+
+    async findByRevision(
+        organizationId: string,
+        ruleId: string,
+        revision: number,
+    ): Promise<KodyRuleRevisionEntity | null> {
+        const doc = await this.kodyRuleRevisionModel
+            .findOne({ organizationId, ruleId, revision })
+            .exec();
+        return doc ? mapSimpleModelToEntity(doc, KodyRuleRevisionEntity) : null;
+    }
+
+    async findByRuleId(
+        organizationId: string,
+        ruleId: string,
+    ): Promise<KodyRuleRevisionEntity[]> {
+        const docs = await this.kodyRuleRevisionModel
+            .find({ organizationId, ruleId })
+            .sort({ revision: -1 })
+            .exec();
+        return mapSimpleModelsToEntities(docs, KodyRuleRevisionEntity) ?? [];
+    }
+}
@@ -0,0 +1,58 @@
+import { CoreDocument } from '@libs/core/infrastructure/repositories/model/mongodb';
+import {
+    IKodyRuleRevisionAuthor,
+    KodyRuleRevisionAction,
+    KodyRuleRevisionOrigin,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+import { IKodyRule } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+@Schema({
+    collection: 'kodyRuleRevisions',
+    timestamps: true,
+    autoIndex: true,
+})
+export class KodyRuleRevisionModel extends CoreDocument {
+    @Prop({ type: String, required: true, index: true })
+    public organizationId: string;
+
+    @Prop({ type: String, required: true, index: true })
+    public ruleId: string;
+
+    @Prop({ type: Number, required: true })
+    public revision: number;
+
+    @Prop({ type: Object, required: true })
+    public snapshot: Partial<IKodyRule>;
+
+    @Prop({
+        type: String,
+        required: true,
+        enum: Object.values(KodyRuleRevisionAction),
+    })
+    public action: KodyRuleRevisionAction;
+
+    @Prop({
+        type: String,
+        required: true,
+        enum: Object.values(KodyRuleRevisionOrigin),
+    })
+    public origin: KodyRuleRevisionOrigin;
+
+    @Prop({ type: Object, required: false })
+    public author?: IKodyRuleRevisionAuthor;
+
+    @Prop({ type: Number, required: false })
+    public restoredFromRevision?: number;
+}
+
+export type KodyRuleRevisionDocument = KodyRuleRevisionModel & Document;
+export const KodyRuleRevisionSchema = SchemaFactory.createForClass(
+    KodyRuleRevisionModel,
+);
+
+KodyRuleRevisionSchema.index(
+    { organizationId: 1, ruleId: 1, revision: -1 },
+    { unique: true },
+);
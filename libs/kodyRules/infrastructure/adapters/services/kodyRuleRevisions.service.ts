@@ -0,0 +1,54 @@
+import {
+    IKodyRuleRevisionsRepository,
+    KODY_RULE_REVISIONS_REPOSITORY_TOKEN,
+} from '@libs/kodyRules/domain/contracts/kodyRuleRevisions.repository.contract';
+import { IKodyRuleRevisionsService } from '@libs/kodyRules/domain/contracts/kodyRuleRevisions.service.contract';
+import { KodyRuleRevisionEntity } from '@libs/kodyRules/domain/entities/kodyRuleRevision.entity';
+import { IKodyRuleRevision } from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+import { Inject, Injectable } from '@nestjs/common';
+
+@Injectable()
+export class KodyRuleRevisionsService implements IKodyRuleRevisionsService {
+    constructor(
+        @Inject(KODY_RULE_REVISIONS_REPOSITORY_TOKEN)
+        private readonly kodyRuleRevisionsRepository: IKodyRuleRevisionsRepository,
+    ) {}
+
+    async create(
+        revision: Omit<IKodyRuleRevision, 'uuid'>,
+    ): Promise<KodyRuleRevisionEntity | null> {
+        return this.kodyRuleRevisionsRepository.create(revision);
+    }
+
+    async findLatest(
+        organizationId: string,
+        ruleId: string,
+    ): Promise<KodyRuleRevisionEntity | null> {
+        return this.kodyRuleRevisionsRepository.findLatest(
+            organizationId,
+            ruleId,
+        );
+    }
+
+    async findByRevision(
+        organizationId: string,
+        ruleId: string,
+        revision: number,
+    ): Promise<KodyRuleRevisionEntity | null> {
+        return this.kodyRuleRevisionsRepository.findByRevision(
+            organizationId,
+            ruleId,
+            revision,
+        );
+    }
+
+    async findByRuleId(
+        organizationId: string,
+        ruleId: string,
+    ): Promise<KodyRuleRevisionEntity[]> {
+        return this.kodyRuleRevisionsRepository.findByRuleId(
+            organizationId,
+            ruleId,
+        );
+    }
+}
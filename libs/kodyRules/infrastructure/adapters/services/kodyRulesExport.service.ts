@@ -0,0 +1,463 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+
+import { ParametersKey } from '@libs/core/domain/enums';
+import {
+    CONTEXT_RESOLUTION_SERVICE_TOKEN,
+    IContextResolutionService,
+} from '@libs/core/context-resolution/domain/contracts/context-resolution.service.contract';
+import { UserInfo } from '@libs/core/infrastructure/config/types/general/codeReviewSettingsLog.type';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import { CreateKodyRuleDto } from '@libs/ee/kodyRules/dtos/create-kody-rule.dto';
+import { KodyRulesValidationService } from '@libs/ee/kodyRules/service/kody-rules-validation.service';
+import {
+    isKodyRuleExportPath,
+    KODY_RULES_EXPORT_BRANCH,
+    KODY_RULES_EXPORT_DIRECTORIES,
+    planKodyRulesExport,
+    renderKodyRuleExportFile,
+} from '@libs/ee/kodyRules/utils/kodyRulesExport.utils';
+import {
+    IKodyRulesService,
+    KODY_RULES_SERVICE_TOKEN,
+} from '@libs/kodyRules/domain/contracts/kodyRules.service.contract';
+import { KodyRuleRevisionOrigin } from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+import {
+    IKodyRule,
+    KodyRulesStatus,
+} from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import {
+    IKodyRulesExportFile,
+    IKodyRulesExportInput,
+    IKodyRulesExportResult,
+    KodyRulesExportFormat,
+} from '@libs/kodyRules/domain/interfaces/kodyRulesExport.interface';
+import {
+    IParametersService,
+    PARAMETERS_SERVICE_TOKEN,
+} from '@libs/organization/domain/parameters/contracts/parameters.service.contract';
+import { CodeManagementService } from '@libs/platform/infrastructure/adapters/services/codeManagement.service';
+
+type ExportedRule = {
+    rule: Partial<IKodyRule>;
+    /** Set for directory rules, whose files are scoped to the directory. */
+    directoryPath?: string;
+};
+
+/**
+ * Reverse of `KodyRulesSyncService`: writes the rules that apply to a
+ * repository as IDE agent rule files and proposes them in a pull request.
+ */
+@Injectable()
+export class KodyRulesExportService {
+    private readonly logger = createLogger(KodyRulesExportService.name);
+
+    constructor(
+        @Inject(KODY_RULES_SERVICE_TOKEN)
+        private readonly kodyRulesService: IKodyRulesService,
+
+        @Inject(PARAMETERS_SERVICE_TOKEN)
+        private readonly parametersService: IParametersService,
+
+        @Inject(CONTEXT_RESOLUTION_SERVICE_TOKEN)
+        private readonly contextResolutionService: IContextResolutionService,
+
+        private readonly kodyRulesValidationService: KodyRulesValidationService,
+        private readonly codeManagementService: CodeManagementService,
+    ) {}
+
+    /**
+     * Commits the rendered files to `kody/rules-export`, creating it from the
+     * default branch when needed, and opens a pull request unless one is
+     * already open. Nothing is committed when the files are up to date.
+     * Without an open pull request the branch is left over from a merged or
+     * closed export, so it is deleted and the diff planned against the
+     * default branch.
+     */
+    async exportRules(
+        organizationAndTeamData: OrganizationAndTeamData,
+        input: IKodyRulesExportInput,
+        userInfo: UserInfo,
+    ): Promise<IKodyRulesExportResult> {
+        const { repositoryId } = input;
+        const formats = input.formats?.length
+            ? [...new Set(input.formats)]
+            : Object.values(KodyRulesExportFormat);
+
+        try {
+            const repository = {
+                id: repositoryId,
+                name: await this.contextResolutionService.getRepositoryNameByOrganizationAndRepository(
+                    organizationAndTeamData.organizationId,
+                    repositoryId,
+                ),
+            };
+
+            if (!repository.name) {
+                throw new NotFoundException('Repository not found');
+            }
+
+            const entity = await this.kodyRulesService.findByOrganizationId(
+                organizationAndTeamData.organizationId,
+            );
+            const rules = entity?.rules ?? [];
+
+            const exported = this.selectRules(
+                rules,
+                repositoryId,
+                await this.getDirectories(
+                    organizationAndTeamData,
+                    repositoryId,
+                ),
+            );
+
+            const files = exported.flatMap(({ rule, directoryPath }) =>
+                formats.map((format) =>
+                    renderKodyRuleExportFile(rule, format, directoryPath),
+                ),
+            );
+
+            const defaultBranch =
+                await this.codeManagementService.getDefaultBranch({
+                    organizationAndTeamData,
+                    repository,
+                });
+
+            const exportHead = await this.getExportBranchHead(
+                organizationAndTeamData,
+                repository,
+                defaultBranch,
+            );
+
+            const baseBranch = exportHead
+                ? KODY_RULES_EXPORT_BRANCH
+                : defaultBranch;
+
+            const changes = planKodyRulesExport(
+                files,
+                await this.getExportedFiles(
+                    organizationAndTeamData,
+                    repository,
+                    baseBranch,
+                    formats,
+                ),
+            );
+
+            const result: IKodyRulesExportResult = {
+                repositoryId,
+                branch: KODY_RULES_EXPORT_BRANCH,
+                ruleIds: exported.map(({ rule }) => rule.uuid),
+                changes: changes.map(({ path, action, ruleId }) => ({
+                    path,
+                    action,
+                    ruleId,
+                })),
+            };
+
+            if (changes.length) {
+                const parentSha =
+                    exportHead ??
+                    (await this.codeManagementService.getBranchHead({
+                        organizationAndTeamData,
+                        repository,
+                        branch: defaultBranch,
+                    }));
+
+                if (!parentSha) {
+                    throw new Error(
+                        `Could not resolve the head of ${defaultBranch} in ${repository.name}`,
+                    );
+                }
+
+                if (!exportHead) {
+                    await this.codeManagementService.createBranch({
+                        organizationAndTeamData,
+                        repository,
+                        branch: KODY_RULES_EXPORT_BRANCH,
+                        fromSha: parentSha,
+                    });
+                }
+
+                const commit = await this.codeManagementService.createCommit({
+                    organizationAndTeamData,
+                    repository,
+                    branch: KODY_RULES_EXPORT_BRANCH,
+                    message: `chore(kody): export ${exported.length} Kody Rules to IDE rule files`,
+                    files: changes.map(({ path, content, action }) => ({
+                        path,
+                        content,
+                        action,
+                    })),
+                    parentSha,
+                });
+
+                result.commitSha = commit?.sha;
+
+                result.pullRequest =
+                    await this.codeManagementService.createPullRequest({
+                        organizationAndTeamData,
+                        repository,
+                        sourceBranch: KODY_RULES_EXPORT_BRANCH,
+                        targetBranch: defaultBranch,
+                        title: 'Sync Kody Rules to IDE agent rule files',
+                        body: this.buildPullRequestBody(exported, formats),
+                    });
+            }
+
+            await this.trackSourcePaths(
+                organizationAndTeamData,
+                rules,
+                repositoryId,
+                files,
+                userInfo,
+            );
+
+            this.logger.log({
+                message: `Exported ${exported.length} Kody Rules to ${repository.name}`,
+                context: KodyRulesExportService.name,
+                metadata: {
+                    organizationAndTeamData,
+                    repositoryId,
+                    formats,
+                    changes: result.changes,
+                    pullRequest: result.pullRequest,
+                },
+            });
+
+            return result;
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw error;
+            }
+
+            this.logger.error({
+                message: 'Error exporting Kody Rules to the repository',
+                context: KodyRulesExportService.name,
+                error,
+                metadata: {
+                    organizationAndTeamData,
+                    repositoryId,
+                    formats,
+                },
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Head of the export branch while its pull request is open, null
+     * otherwise. A branch without an open pull request is deleted, it may be
+     * far behind the default branch.
+     */
+    private async getExportBranchHead(
+        organizationAndTeamData: OrganizationAndTeamData,
+        repository: { id: string; name: string },
+        defaultBranch: string,
+    ): Promise<string | null> {
+        const head = await this.codeManagementService.getBranchHead({
+            organizationAndTeamData,
+            repository,
+            branch: KODY_RULES_EXPORT_BRANCH,
+        });
+
+        if (!head) {
+            return null;
+        }
+
+        const pullRequest =
+            await this.codeManagementService.findOpenPullRequest({
+                organizationAndTeamData,
+                repository,
+                sourceBranch: KODY_RULES_EXPORT_BRANCH,
+                targetBranch: defaultBranch,
+            });
+
+        if (pullRequest) {
+            return head;
+        }
+
+        await this.codeManagementService.deleteBranch({
+            organizationAndTeamData,
+            repository,
+            branch: KODY_RULES_EXPORT_BRANCH,
+        });
+
+        return null;
+    }
+
+    /**
+     * The repository's own rules, its directories' rules and the global rules
+     * it inherits. Rules read from a hand-written file in the repository are
+     * left out, the agents already see that file.
+     */
+    private selectRules(
+        rules: Partial<IKodyRule>[],
+        repositoryId: string,
+        directories: { id: string; path: string }[],
+    ): ExportedRule[] {
+        const active = rules.filter(
+            (rule) => rule?.uuid && rule.status === KodyRulesStatus.ACTIVE,
+        );
+
+        const isHandWritten = (rule: Partial<IKodyRule>) =>
+            !!rule.sourcePath && !isKodyRuleExportPath(rule.sourcePath);
+
+        const globalRules = this.kodyRulesValidationService
+            .getKodyRulesForFile(
+                null,
+                active.filter((rule) => rule.repositoryId === 'global'),
+                { repositoryId },
+            )
+            .map((rule) => ({ rule }));
+
+        const repositoryRules = active
+            .filter(
+                (rule) =>
+                    rule.repositoryId === repositoryId &&
+                    !rule.directoryId &&
+                    !isHandWritten(rule),
+            )
+            .map((rule) => ({ rule }));
+
+        const directoryRules = directories.flatMap((directory) =>
+            active
+                .filter(
+                    (rule) =>
+                        rule.repositoryId === repositoryId &&
+                        rule.directoryId === directory.id &&
+                        !isHandWritten(rule),
+                )
+                .map((rule) => ({ rule, directoryPath: directory.path })),
+        );
+
+        return [...repositoryRules, ...directoryRules, ...globalRules];
+    }
+
+    private async getDirectories(
+        organizationAndTeamData: OrganizationAndTeamData,
+        repositoryId: string,
+    ): Promise<{ id: string; path: string }[]> {
+        const config = await this.parametersService.findByKey(
+            ParametersKey.CODE_REVIEW_CONFIG,
+            organizationAndTeamData,
+        );
+
+        const repositoryConfig = config?.configValue?.repositories?.find(
+            (repository) => repository.id === repositoryId,
+        );
+
+        return (repositoryConfig?.directories ?? []).filter(
+            (directory) => directory?.id && directory?.path,
+        );
+    }
+
+    private async getExportedFiles(
+        organizationAndTeamData: OrganizationAndTeamData,
+        repository: { id: string; name: string },
+        branch: string,
+        formats: KodyRulesExportFormat[],
+    ): Promise<{ path: string; content: string }[]> {
+        const files = await this.codeManagementService.getRepositoryAllFiles({
+            organizationAndTeamData,
+            repository,
+            filters: {
+                branch,
+                filePatterns: formats.map(
+                    (format) => `${KODY_RULES_EXPORT_DIRECTORIES[format]}/**`,
+                ),
+            },
+        });
+
+        const exported: { path: string; content: string }[] = [];
+
+        for (const file of files ?? []) {
+            const contentResp =
+                await this.codeManagementService.getRepositoryContentFile({
+                    organizationAndTeamData,
+                    repository,
+                    file: { filename: file.path },
+                    pullRequest: {
+                        head: { ref: branch },
+                        base: { ref: branch },
+                    },
+                });
+
+            const rawContent = contentResp?.data?.content;
+
+            if (!rawContent) {
+                continue;
+            }
+
+            exported.push({
+                path: file.path,
+                content:
+                    contentResp?.data?.encoding === 'base64'
+                        ? Buffer.from(rawContent, 'base64').toString('utf-8')
+                        : rawContent,
+            });
+        }
+
+        return exported;
+    }
+
+    /**
+     * Points each exported rule of the repository at its first file, so the
+     * next import updates it instead of creating a copy, and releases the
+     * files of rules that are no longer exported.
+     */
+    private async trackSourcePaths(
+        organizationAndTeamData: OrganizationAndTeamData,
+        rules: Partial<IKodyRule>[],
+        repositoryId: string,
+        files: IKodyRulesExportFile[],
+        userInfo: UserInfo,
+    ): Promise<void> {
+        const sourcePaths = new Map<string, string>();
+
+        for (const file of files) {
+            if (!sourcePaths.has(file.ruleId)) {
+                sourcePaths.set(file.ruleId, file.path);
+            }
+        }
+
+        for (const rule of rules) {
+            if (rule?.repositoryId !== repositoryId) {
+                continue;
+            }
+
+            const exportedPath = sourcePaths.get(rule.uuid);
+            const sourcePath =
+                exportedPath ??
+                (isKodyRuleExportPath(rule.sourcePath)
+                    ? undefined
+                    : rule.sourcePath);
+
+            if (sourcePath === rule.sourcePath) {
+                continue;
+            }
+
+            await this.kodyRulesService.updateRuleWithLogging(
+                organizationAndTeamData,
+                { uuid: rule.uuid, sourcePath } as CreateKodyRuleDto,
+                userInfo,
+                { origin: KodyRuleRevisionOrigin.USER },
+            );
+        }
+    }
+
+    private buildPullRequestBody(
+        exported: ExportedRule[],
+        formats: KodyRulesExportFormat[],
+    ): string {
+        return [
+            `Exports the ${exported.length} active Kody Rules that apply to this repository, so IDE agents follow the same rules as code review.`,
+            '',
+            ...formats.map(
+                (format) =>
+                    `- \`${KODY_RULES_EXPORT_DIRECTORIES[format]}/\` (${format})`,
+            ),
+            '',
+            'Each file carries the id of its rule. Edits to the title, text or severity of a repository rule are synced back after merge, and deleting its file deletes the rule. Files of global rules are read-only.',
+        ].join('\n');
+    }
+}
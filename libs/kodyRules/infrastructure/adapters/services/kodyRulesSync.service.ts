@@ -21,11 +21,16 @@ import {
     CreateKodyRuleDto,
     KodyRuleSeverity,
 } from '@libs/ee/kodyRules/dtos/create-kody-rule.dto';
+import { parseKodyRuleExportFile } from '@libs/ee/kodyRules/utils/kodyRulesExport.utils';
 import {
     KodyRulesOrigin,
     KodyRulesScope,
     KodyRulesStatus,
 } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import {
+    IKodyRuleRevisionContext,
+    KodyRuleRevisionOrigin,
+} from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
 import {
     IParametersService,
     PARAMETERS_SERVICE_TOKEN,
@@ -113,6 +118,10 @@ export class KodyRulesSyncService {
         userEmail: 'kody@kodus.io',
     };
 
+    private readonly ideSyncRevisionContext: IKodyRuleRevisionContext = {
+        origin: KodyRuleRevisionOrigin.IDE_SYNC,
+    };
+
     private readonly logger = createLogger(KodyRulesSyncService.name);
     constructor(
         @Inject(KODY_RULES_SERVICE_TOKEN)
@@ -256,9 +265,11 @@ export class KodyRulesSyncService {
             );
             if (!toDelete?.uuid) return;
 
-            await this.kodyRulesService.deleteRuleLogically(
-                entity.uuid,
+            await this.kodyRulesService.deleteRuleWithLogging(
+                organizationAndTeamData,
                 toDelete.uuid,
+                this.systemUserInfo,
+                this.ideSyncRevisionContext,
             );
         } catch (error) {
             this.logger.error({
@@ -270,6 +281,110 @@ export class KodyRulesSyncService {
         }
     }
 
+    /**
+     * Files written by the Kody Rules export carry the id of their rule, so
+     * they are matched to it directly instead of going through the LLM.
+     * Returns false for any other file.
+     */
+    private async syncExportedRuleFile(params: {
+        organizationAndTeamData: OrganizationAndTeamData;
+        repositoryId: string;
+        filePath: string;
+        content: string;
+    }): Promise<boolean> {
+        const exported = parseKodyRuleExportFile(params.content);
+
+        if (!exported) {
+            return false;
+        }
+
+        const { organizationAndTeamData, repositoryId, filePath } = params;
+
+        try {
+            const entity = await this.kodyRulesService.findByOrganizationId(
+                organizationAndTeamData.organizationId,
+            );
+            const rule = entity?.rules?.find(
+                (r) => r?.uuid === exported.ruleId,
+            );
+
+            // Inherited rules are exported along with the repository's own,
+            // but they are edited where they are defined
+            if (
+                !rule ||
+                rule.repositoryId !== repositoryId ||
+                rule.status === KodyRulesStatus.DELETED
+            ) {
+                this.logger.log({
+                    message:
+                        'Exported rule file skipped, rule not owned by the repository',
+                    context: KodyRulesSyncService.name,
+                    metadata: {
+                        file: filePath,
+                        ruleId: exported.ruleId,
+                        repositoryId,
+                        organizationAndTeamData,
+                    },
+                });
+                return true;
+            }
+
+            const severity = Object.values(KodyRuleSeverity).includes(
+                exported.severity as KodyRuleSeverity,
+            )
+                ? exported.severity
+                : undefined;
+
+            const changes: Partial<CreateKodyRuleDto> = {};
+
+            if (exported.title && exported.title !== rule.title) {
+                changes.title = exported.title;
+            }
+
+            if (exported.rule && exported.rule !== rule.rule?.trim()) {
+                changes.rule = exported.rule;
+            }
+
+            if (severity && severity !== rule.severity?.toLowerCase()) {
+                changes.severity = severity as KodyRuleSeverity;
+            }
+
+            if (!Object.keys(changes).length) {
+                return true;
+            }
+
+            await this.kodyRulesService.createOrUpdate(
+                organizationAndTeamData,
+                { uuid: rule.uuid, ...changes } as CreateKodyRuleDto,
+                this.systemUserInfo,
+                this.ideSyncRevisionContext,
+            );
+
+            if (changes.rule) {
+                await this.processContextReferences({
+                    ruleId: rule.uuid,
+                    ruleText: changes.rule,
+                    repositoryId,
+                    organizationAndTeamData,
+                });
+            }
+        } catch (error) {
+            this.logger.error({
+                message: 'Failed to sync exported Kody Rule file',
+                context: KodyRulesSyncService.name,
+                error,
+                metadata: {
+                    file: filePath,
+                    ruleId: exported.ruleId,
+                    repositoryId,
+                    organizationAndTeamData,
+                },
+            });
+        }
+
+        return true;
+    }
+
     async syncFromChangedFiles(params: {
         organizationAndTeamData: OrganizationAndTeamData;
         repository: { id: string; name: string; fullName?: string };
@@ -542,6 +657,17 @@ export class KodyRulesSyncService {
                     continue;
                 }
 
+                if (
+                    await this.syncExportedRuleFile({
+                        organizationAndTeamData,
+                        repositoryId: repository.id,
+                        filePath: f.filename,
+                        content: decoded,
+                    })
+                ) {
+                    continue;
+                }
+
                 const rules = await this.convertFileToKodyRules({
                     filePath: f.filename,
                     repositoryId: repository.id,
@@ -606,6 +732,7 @@ export class KodyRulesSyncService {
                     organizationAndTeamData,
                     dto,
                     this.systemUserInfo,
+                    this.ideSyncRevisionContext,
                 );
 
                 await this.processContextReferences({
@@ -784,6 +911,17 @@ export class KodyRulesSyncService {
                     continue;
                 }
 
+                if (
+                    await this.syncExportedRuleFile({
+                        organizationAndTeamData,
+                        repositoryId: repository.id,
+                        filePath: file.path,
+                        content: decoded,
+                    })
+                ) {
+                    continue;
+                }
+
                 const rules = await this.convertFileToKodyRules({
                     filePath: file.path,
                     repositoryId: repository.id,
@@ -838,6 +976,7 @@ export class KodyRulesSyncService {
                     organizationAndTeamData,
                     dto,
                     this.systemUserInfo,
+                    this.ideSyncRevisionContext,
                 );
 
                 await this.processContextReferences({
@@ -1177,6 +1316,7 @@ export class KodyRulesSyncService {
                                 organizationAndTeamData,
                                 dto,
                                 this.systemUserInfo,
+                                this.ideSyncRevisionContext,
                             );
                         response.rules.push(created as any);
                     } catch (err) {
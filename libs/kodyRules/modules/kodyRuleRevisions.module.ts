@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+
+import {
+    KodyRuleRevisionModel,
+    KodyRuleRevisionSchema,
+} from '../infrastructure/adapters/repositories/schemas/mongoose/kodyRuleRevisions.model';
+import { KODY_RULE_REVISIONS_REPOSITORY_TOKEN } from '../domain/contracts/kodyRuleRevisions.repository.contract';
+import { KODY_RULE_REVISIONS_SERVICE_TOKEN } from '../domain/contracts/kodyRuleRevisions.service.contract';
+import { KodyRuleRevisionsRepository } from '../infrastructure/adapters/repositories/kodyRuleRevisions.repository';
+import { KodyRuleRevisionsService } from '../infrastructure/adapters/services/kodyRuleRevisions.service';
+
+@Module({
+    imports: [
+        MongooseModule.forFeature([
+            {
+                name: KodyRuleRevisionModel.name,
+                schema: KodyRuleRevisionSchema,
+            },
+        ]),
+    ],
+    providers: [
+        {
+            provide: KODY_RULE_REVISIONS_REPOSITORY_TOKEN,
+            useClass: KodyRuleRevisionsRepository,
+        },
+        {
+            provide: KODY_RULE_REVISIONS_SERVICE_TOKEN,
+            useClass: KodyRuleRevisionsService,
+        },
+    ],
+    exports: [
+        KODY_RULE_REVISIONS_REPOSITORY_TOKEN,
+        KODY_RULE_REVISIONS_SERVICE_TOKEN,
+    ],
+})
+export class KodyRuleRevisionsModule {}
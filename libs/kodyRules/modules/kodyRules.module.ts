@@ -8,6 +8,7 @@ import { ContextReferenceModule } from '@libs/code-review/modules/contextReferen
 import { PromptsModule } from '@libs/code-review/modules/prompts.module';
 import { PullRequestsModule } from '@libs/code-review/modules/pull-requests.module';
 import { KodyRulesRepository } from '@libs/ee/kodyRules/repository/kodyRules.repository';
+import { KodyRulesTestService } from '@libs/ee/kodyRules/service/kody-rules-test.service';
 import { KodyRulesValidationService } from '@libs/ee/kodyRules/service/kody-rules-validation.service';
 import { KodyRulesService } from '@libs/ee/kodyRules/service/kodyRules.service';
 import { LicenseModule } from '@libs/ee/license/license.module';
@@ -26,10 +27,12 @@ import { UserModule } from '@libs/identity/modules/user.module';
 import { KODY_RULES_REPOSITORY_TOKEN } from '../domain/contracts/kodyRules.repository.contract';
 import { KODY_RULES_SERVICE_TOKEN } from '../domain/contracts/kodyRules.service.contract';
 import { RuleLikeModule } from './ruleLike.module';
+import { KodyRuleRevisionsModule } from './kodyRuleRevisions.module';
 import { SyncSelectedRepositoriesKodyRulesUseCase } from '../application/use-cases/sync-selected-repositories.use-case';
 import { ExternalReferenceLoaderService } from '../infrastructure/adapters/services/externalReferenceLoader.service';
 import { KodyRuleDependencyService } from '../infrastructure/adapters/services/kodyRulesDependency.service';
 import { KodyRulesSyncService } from '../infrastructure/adapters/services/kodyRulesSync.service';
+import { KodyRulesExportService } from '../infrastructure/adapters/services/kodyRulesExport.service';
 import { SendRulesNotificationUseCase } from '../application/use-cases/send-rules-notification.use-case';
 import { ChangeStatusKodyRulesUseCase } from '../application/use-cases/change-status-kody-rules.use-case';
 import { CreateOrUpdateKodyRulesUseCase } from '../application/use-cases/create-or-update.use-case';
@@ -50,11 +53,19 @@ import { ImportFastKodyRulesUseCase } from '../application/use-cases/import-fast
 import { ResyncRulesFromIdeUseCase } from '../application/use-cases/resync-rules-from-ide.use-case';
 import { RemoveRuleLikeUseCase } from '../application/use-cases/rule-like/remove-rule-like.use-case';
 import { SetRuleLikeUseCase } from '../application/use-cases/rule-like/set-rule-like.use-case';
+import { TestKodyRuleUseCase } from '../application/use-cases/test-kody-rule.use-case';
+import { FindKodyRuleRevisionsUseCase } from '../application/use-cases/revisions/find-kody-rule-revisions.use-case';
+import { GetKodyRuleRevisionDiffUseCase } from '../application/use-cases/revisions/get-kody-rule-revision-diff.use-case';
+import { RestoreKodyRuleRevisionUseCase } from '../application/use-cases/revisions/restore-kody-rule-revision.use-case';
+import { ExportKodyRulesUseCase } from '../application/use-cases/export-kody-rules.use-case';
+import { GetKodyRulesEffectivenessUseCase } from '../application/use-cases/get-kody-rules-effectiveness.use-case';
 import { FindRecommendedKodyRulesUseCase } from '../application/use-cases/find-recommended-kody-rules.use-case'; // Added
 
 import { PermissionsModule } from '@libs/identity/modules/permissions.module';
 import { KodyRulesSyncListener } from '../infrastructure/adapters/listeners/kody-rules-sync.listener';
 import { McpCoreModule } from '@libs/mcp-server/mcp-core.module';
+import { CodeReviewFeedbackModule } from '@libs/code-review/modules/codeReviewFeedback.module';
+import { AnalyticsModule } from '@libs/analytics/modules/analytics.module';
 
 @Module({
     imports: [
@@ -73,6 +84,7 @@ import { McpCoreModule } from '@libs/mcp-server/mcp-core.module';
         forwardRef(() => OrganizationModule),
         forwardRef(() => CodeReviewSettingsLogModule),
         forwardRef(() => RuleLikeModule),
+        KodyRuleRevisionsModule,
         forwardRef(() => LicenseModule),
         forwardRef(() => PullRequestsModule),
         forwardRef(() => PromptsModule),
@@ -81,6 +93,8 @@ import { McpCoreModule } from '@libs/mcp-server/mcp-core.module';
         forwardRef(() => PermissionValidationModule),
         PermissionsModule,
         forwardRef(() => McpCoreModule),
+        forwardRef(() => CodeReviewFeedbackModule),
+        forwardRef(() => AnalyticsModule),
     ],
     providers: [
         {
@@ -99,7 +113,9 @@ import { McpCoreModule } from '@libs/mcp-server/mcp-core.module';
         SendRulesNotificationUseCase,
         SyncSelectedRepositoriesKodyRulesUseCase,
         KodyRulesValidationService,
+        KodyRulesTestService,
         KodyRulesSyncService,
+        KodyRulesExportService,
         KodyRuleDependencyService,
         ExternalReferenceLoaderService,
         AddLibraryKodyRulesUseCase,
@@ -118,6 +134,12 @@ import { McpCoreModule } from '@libs/mcp-server/mcp-core.module';
         SetRuleLikeUseCase,
         KodyRulesSyncListener,
         FindRecommendedKodyRulesUseCase, // Added
+        TestKodyRuleUseCase,
+        FindKodyRuleRevisionsUseCase,
+        GetKodyRuleRevisionDiffUseCase,
+        RestoreKodyRuleRevisionUseCase,
+        ExportKodyRulesUseCase,
+        GetKodyRulesEffectivenessUseCase,
     ],
     exports: [
         KODY_RULES_REPOSITORY_TOKEN,
@@ -129,7 +151,9 @@ import { McpCoreModule } from '@libs/mcp-server/mcp-core.module';
         CreateOrUpdateKodyRulesUseCase,
         SendRulesNotificationUseCase,
         KodyRulesValidationService,
+        KodyRulesTestService,
         KodyRulesSyncService,
+        KodyRulesExportService,
         KodyRuleDependencyService,
         ExternalReferenceLoaderService,
         SyncSelectedRepositoriesKodyRulesUseCase,
@@ -148,6 +172,12 @@ import { McpCoreModule } from '@libs/mcp-server/mcp-core.module';
         RemoveRuleLikeUseCase,
         SetRuleLikeUseCase,
         FindRecommendedKodyRulesUseCase, // Added
+        TestKodyRuleUseCase,
+        FindKodyRuleRevisionsUseCase,
+        GetKodyRuleRevisionDiffUseCase,
+        RestoreKodyRuleRevisionUseCase,
+        ExportKodyRulesUseCase,
+        GetKodyRulesEffectivenessUseCase,
     ],
 })
 export class KodyRulesModule {}
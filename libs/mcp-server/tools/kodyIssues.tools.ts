@@ -8,7 +8,10 @@ import {
 } from '@libs/platformData/domain/pullRequests/contracts/pullRequests.service.contracts';
 import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
 import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
-import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import {
+    getIssueSlaDueDate,
+    IssueStatus,
+} from '@libs/core/infrastructure/config/types/general/issues.type';
 import { LabelType } from '@libs/common/utils/codeManagement/labels';
 import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
 import {
@@ -151,6 +154,7 @@ export class KodyIssuesTools {
                             username: reporterInput.username,
                         },
                         contributingSuggestions: [],
+                        slaDueDate: getIssueSlaDueDate(args.severity),
                         createdAt: now,
                         updatedAt: now,
                     };
@@ -283,20 +287,57 @@ export class KodyIssuesTools {
         const inputSchema = z.object({
             issueId: z.string(),
             status: z.enum(IssueStatus),
+            reason: z
+                .string()
+                .optional()
+                .describe('Why the status changed. Required for wont_fix'),
+            changedBy: z
+                .string()
+                .optional()
+                .describe('Username of who is changing the status'),
+            assignee: z
+                .object({
+                    gitId: z
+                        .union([z.string(), z.number()])
+                        .describe('userId of user from git provider'),
+                    username: z
+                        .string()
+                        .describe('username of user from git provider'),
+                })
+                .nullable()
+                .optional()
+                .describe(
+                    'Assigns the issue along with the status change, null unassigns it',
+                ),
         });
         type InputType = z.infer<typeof inputSchema>;
         return {
             name: 'KODUS_UPDATE_KODY_ISSUE_STATUS',
-            description: 'Update issue status',
+            description:
+                'Update issue status (open, in_progress, reopened, resolved, wont_fix, dismissed) and optionally its assignee',
             inputSchema,
             outputSchema: z.object({
                 success: z.boolean(),
                 data: z.looseObject({}).nullable(),
             }),
             execute: wrapToolHandler(async (args: InputType) => {
-                const updated = await this.issuesService.updateStatus(
+                if (args.assignee !== undefined) {
+                    await this.issuesService.assign(
+                        args.issueId,
+                        args.assignee
+                            ? {
+                                  gitId: args.assignee.gitId.toString(),
+                                  username: args.assignee.username,
+                              }
+                            : null,
+                        args.changedBy,
+                    );
+                }
+
+                const updated = await this.issuesService.changeStatus(
                     args.issueId,
                     args.status,
+                    { reason: args.reason, changedBy: args.changedBy },
                 );
                 return {
                     success: !!updated,
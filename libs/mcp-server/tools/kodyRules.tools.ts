@@ -21,6 +21,8 @@ import {
     IKodyRulesService,
     KODY_RULES_SERVICE_TOKEN,
 } from '@libs/kodyRules/domain/contracts/kodyRules.service.contract';
+import { IKodyRuleTestReport } from '@libs/kodyRules/domain/interfaces/kodyRuleTest.interface';
+import { KodyRulesTestService } from '@libs/ee/kodyRules/service/kody-rules-test.service';
 
 type KodyRuleInput = Required<
     Omit<
@@ -29,6 +31,7 @@ type KodyRuleInput = Required<
         | 'createdAt'
         | 'updatedAt'
         | 'type'
+        | 'matcher'
         | 'label'
         | 'extendedContext'
         | 'reason'
@@ -40,6 +43,7 @@ type KodyRuleInput = Required<
         | 'syncErrors'
         | 'referenceProcessingStatus'
         | 'lastReferenceProcessedAt'
+        | 'revision'
         | 'ruleHash'
     >
 > & {
@@ -54,12 +58,17 @@ interface CreateKodyRuleResponse extends BaseResponse {
     data: Partial<IKodyRule>;
 }
 
+interface TestKodyRuleResponse extends BaseResponse {
+    data: IKodyRuleTestReport;
+}
+
 @Injectable()
 export class KodyRulesTools {
     private readonly logger = createLogger(KodyRulesTools.name);
     constructor(
         @Inject(KODY_RULES_SERVICE_TOKEN)
         private readonly kodyRulesService: IKodyRulesService,
+        private readonly kodyRulesTestService: KodyRulesTestService,
     ) {}
 
     getKodyRules(): McpToolDefinition {
@@ -620,6 +629,143 @@ export class KodyRulesTools {
         };
     }
 
+    testKodyRule(): McpToolDefinition {
+        const inputSchema = z.object({
+            organizationId: z
+                .string()
+                .describe(
+                    'Organization UUID - unique identifier for the organization in the system',
+                ),
+            ruleId: z
+                .string()
+                .optional()
+                .describe(
+                    'Rule UUID - saved rule to test. Omit it to test the draft given in kodyRule',
+                ),
+            kodyRule: z
+                .object({
+                    title: z.string().optional().describe('Rule title'),
+                    rule: z
+                        .string()
+                        .optional()
+                        .describe(
+                            'Detailed description of the coding rule/standard to enforce',
+                        ),
+                    severity: z
+                        .enum(KodyRuleSeverity)
+                        .optional()
+                        .describe('Rule severity level'),
+                    scope: z
+                        .enum(KodyRulesScope)
+                        .optional()
+                        .describe(
+                            'Rule scope: pull_request (analyzes entire PR context), file (analyzes individual files one by one)',
+                        ),
+                    examples: z
+                        .array(
+                            z.object({
+                                snippet: z
+                                    .string()
+                                    .describe(
+                                        'Code example snippet demonstrating the rule',
+                                    ),
+                                isCorrect: z
+                                    .boolean()
+                                    .describe(
+                                        'Whether this snippet follows the rule (true) or violates it (false)',
+                                    ),
+                            }),
+                        )
+                        .optional()
+                        .describe('Code examples the rule is tested against'),
+                })
+                .optional()
+                .describe(
+                    'Draft rule to test, or fields overriding the saved rule given in ruleId',
+                ),
+            samples: z
+                .array(
+                    z.object({
+                        code: z.string().describe('Code to run the rule on'),
+                        filename: z
+                            .string()
+                            .optional()
+                            .describe('File name shown to the reviewer'),
+                        language: z
+                            .string()
+                            .optional()
+                            .describe('Programming language of the code'),
+                        expectViolation: z
+                            .boolean()
+                            .optional()
+                            .describe(
+                                'Whether the code breaks the rule. Leave it out to only see what gets flagged',
+                            ),
+                    }),
+                )
+                .optional()
+                .describe('Extra code to test the rule against'),
+            includeExamples: z
+                .boolean()
+                .optional()
+                .describe(
+                    'Whether to test the rule examples too (default: true)',
+                ),
+        });
+
+        type InputType = z.infer<typeof inputSchema>;
+
+        return {
+            name: 'KODUS_TEST_KODY_RULE',
+            description:
+                'Test a saved or draft Kody Rule against its own examples and pasted code, using the same analysis as code reviews. Returns whether each case was flagged, true/false positives and negatives, precision and recall. Nothing is saved.',
+            inputSchema,
+            outputSchema: z.object({
+                success: z.boolean(),
+                count: z.number(),
+                data: z.looseObject({
+                    ruleId: z.string().optional(),
+                    title: z.string().optional(),
+                    summary: z.looseObject({
+                        total: z.number(),
+                        failed: z.number(),
+                        errors: z.number(),
+                        precision: z.number().nullable(),
+                        recall: z.number().nullable(),
+                        passed: z.boolean(),
+                    }),
+                    results: z.array(
+                        z.looseObject({
+                            source: z.string(),
+                            index: z.number(),
+                            flagged: z.boolean(),
+                            outcome: z.string(),
+                        }),
+                    ),
+                }),
+            }),
+            execute: wrapToolHandler(
+                async (args: InputType): Promise<TestKodyRuleResponse> => {
+                    const report = await this.kodyRulesTestService.testRule(
+                        { organizationId: args.organizationId },
+                        {
+                            ruleId: args.ruleId,
+                            kodyRule: args.kodyRule as Partial<IKodyRule>,
+                            samples: args.samples,
+                            includeExamples: args.includeExamples,
+                        },
+                    );
+
+                    return {
+                        success: true,
+                        count: report.results.length,
+                        data: report,
+                    };
+                },
+            ),
+        };
+    }
+
     getAllTools(): McpToolDefinition[] {
         return [
             this.getKodyRules(),
@@ -627,6 +773,7 @@ export class KodyRulesTools {
             this.createKodyRule(),
             this.updateKodyRule(),
             this.deleteKodyRule(),
+            this.testKodyRule(),
         ];
     }
 }
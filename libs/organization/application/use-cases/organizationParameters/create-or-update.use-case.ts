@@ -1,4 +1,4 @@
-import { BYOKConfig } from '@kodus/kodus-common/llm';
+import { BYOKConfig, BYOKTaskRoute } from '@kodus/kodus-common/llm';
 import { encrypt } from '@libs/common/utils/crypto';
 import { OrganizationParametersKey } from '@libs/core/domain/enums';
 import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
@@ -97,8 +97,10 @@ export class CreateOrUpdateOrganizationParametersUseCase implements IUseCase {
 
         const byokConfig = configValue as BYOKConfig;
 
-        if (!byokConfig.main && !byokConfig.fallback) {
-            throw new Error('At least main or fallback config is required');
+        if (!byokConfig.main && !byokConfig.fallback && !byokConfig.routing) {
+            throw new Error(
+                'At least main, fallback or routing config is required',
+            );
         }
 
         let encryptedMain = null;
@@ -123,9 +125,32 @@ export class CreateOrUpdateOrganizationParametersUseCase implements IUseCase {
             };
         }
 
+        let encryptedRouting: BYOKConfig['routing'] = null;
+        if (byokConfig.routing) {
+            encryptedRouting = Object.fromEntries(
+                Object.entries(byokConfig.routing).map(
+                    ([task, route]: [string, BYOKTaskRoute]) => {
+                        if (!route?.provider || !route?.model) {
+                            throw new Error(
+                                `provider and model are required for the ${task} route`,
+                            );
+                        }
+
+                        return [
+                            task,
+                            route.apiKey
+                                ? { ...route, apiKey: encrypt(route.apiKey) }
+                                : route,
+                        ];
+                    },
+                ),
+            );
+        }
+
         return {
             ...(encryptedMain && { main: encryptedMain }),
             ...(encryptedFallback && { fallback: encryptedFallback }),
+            ...(encryptedRouting && { routing: encryptedRouting }),
         };
     }
 }
@@ -83,6 +83,24 @@ export class FindByKeyOrganizationParametersUseCase implements IUseCase {
                             processedConfig.fallback = null;
                         }
 
+                        if (configValue.routing) {
+                            processedConfig.routing = Object.fromEntries(
+                                Object.entries(configValue.routing).map(
+                                    ([task, route]: [string, any]) => [
+                                        task,
+                                        route?.apiKey
+                                            ? {
+                                                  ...route,
+                                                  apiKey: this.maskApiKey(
+                                                      decrypt(route.apiKey),
+                                                  ),
+                                              }
+                                            : route,
+                                    ],
+                                ),
+                            );
+                        }
+
                         return {
                             uuid: parameter.uuid,
                             configKey: parameter.configKey,
@@ -117,6 +117,20 @@ export class GetModelsByProviderUseCase {
                         'https://api.openai.com',
                 );
 
+            case BYOKProvider.OLLAMA:
+                return this.getOpenAICompatibleModels(
+                    process.env.API_OLLAMA_API_KEY,
+                    process.env.API_OLLAMA_BASE_URL || 'http://localhost:11434',
+                    BYOKProvider.OLLAMA,
+                );
+
+            case BYOKProvider.VLLM:
+                return this.getOpenAICompatibleModels(
+                    process.env.API_VLLM_API_KEY,
+                    process.env.API_VLLM_BASE_URL,
+                    BYOKProvider.VLLM,
+                );
+
             default:
                 throw new BadRequestException(
                     `Unsupported provider: ${provider}`,
@@ -307,10 +321,13 @@ export class GetModelsByProviderUseCase {
     private async getOpenAICompatibleModels(
         apiKey?: string,
         baseUrl?: string,
+        provider: BYOKProvider = BYOKProvider.OPENAI_COMPATIBLE,
     ): Promise<ModelResponse> {
+        const providerName = this.providerService.getProvider(provider)?.name;
+
         if (!baseUrl) {
             throw new BadRequestException(
-                'baseUrl is required for OpenAI Compatible',
+                `baseUrl is required for ${providerName}`,
             );
         }
 
@@ -327,7 +344,7 @@ export class GetModelsByProviderUseCase {
             });
 
             return {
-                provider: BYOKProvider.OPENAI_COMPATIBLE,
+                provider,
                 models: response.data.data.map((model: OpenAIModel) => ({
                     id: model.id,
                     name: model.id,
@@ -335,7 +352,7 @@ export class GetModelsByProviderUseCase {
             };
         } catch (error) {
             throw new BadRequestException(
-                `Error fetching OpenAI Compatible models: ${(error as Error).message}`,
+                `Error fetching ${providerName} models: ${(error as Error).message}`,
             );
         }
     }
@@ -74,6 +74,10 @@ class ReviewOptionsDto {
     @IsOptional()
     @IsBoolean()
     cross_file?: boolean;
+
+    @IsOptional()
+    @IsBoolean()
+    linting?: boolean;
 }
 
 class SummaryConfigDto {
@@ -223,6 +227,24 @@ class V2PromptOverridesDto {
     generation?: V2PromptOverridesGenerationDto;
 }
 
+class CustomCategoryDto {
+    @IsOptional()
+    @IsString()
+    name?: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    @IsOptional()
+    @IsString()
+    severityGuidance?: string;
+
+    @IsOptional()
+    @IsString()
+    color?: string;
+}
+
 class CustomMessagesGlobalSettingsDto {
     @IsOptional()
     @IsBoolean()
@@ -352,6 +374,12 @@ class CodeReviewConfigWithoutLLMProviderDto {
     @Type(() => V2PromptOverridesDto)
     v2PromptOverrides?: V2PromptOverridesDto;
 
+    @IsOptional()
+    @IsArray()
+    @ValidateNested({ each: true })
+    @Type(() => CustomCategoryDto)
+    customCategories?: CustomCategoryDto[];
+
     @IsOptional()
     @IsString()
     contextReferenceId?: string;
@@ -0,0 +1,331 @@
+import { createLogger } from '@kodus/flow';
+import { Inject, Injectable } from '@nestjs/common';
+import { applyPatch } from 'diff';
+
+import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+import { CodeManagementService } from '@libs/platform/infrastructure/adapters/services/codeManagement.service';
+import {
+    IPullRequestsService,
+    PULL_REQUESTS_SERVICE_TOKEN,
+} from '@libs/platformData/domain/pullRequests/contracts/pullRequests.service.contracts';
+import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
+import { ImplementationStatus } from '@libs/platformData/domain/pullRequests/enums/implementationStatus.enum';
+import { ISuggestion } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
+
+export const ALL_SUGGESTIONS = 'all';
+
+export enum ApplySuggestionsFixRejection {
+    /** The author of the command cannot push to the repository. */
+    MISSING_PERMISSION = 'missing_permission',
+    /** The PR branch lives in a fork, or another repository. */
+    CROSS_REPOSITORY = 'cross_repository',
+}
+
+export type ApplySuggestionsFixParams = {
+    organizationAndTeamData: OrganizationAndTeamData;
+    repository: { id: string; name: string };
+    prNumber: number;
+    /** Suggestion ids, or `all` for every open committable suggestion. */
+    suggestionIds: string[] | typeof ALL_SUGGESTIONS;
+    /** Author of the command, who must be able to push to the repository. */
+    requestedBy: { id?: string; login?: string };
+};
+
+export type ApplySuggestionsFixResult = {
+    /** Set when the command was refused before anything was committed. */
+    rejection?: ApplySuggestionsFixRejection;
+    commitSha?: string;
+    /** Suggestions included in the commit. */
+    applied: ISuggestion[];
+    /** Suggestions whose diff no longer applies to the current head. */
+    conflicts: ISuggestion[];
+    /** Suggestions without a validated diff, or already implemented. */
+    skipped: ISuggestion[];
+    notFound: string[];
+};
+
+/**
+ * Applies the validated diffs of PR suggestions on top of the current head
+ * of the PR branch and pushes them as a single commit.
+ *
+ * Only runs for users who can push to the repository, and only on PRs whose
+ * branch lives in that repository: the commit goes to the branch of the same
+ * name there, which for a fork PR would be another branch entirely.
+ */
+@Injectable()
+export class ApplySuggestionsFixUseCase implements IUseCase {
+    private readonly logger = createLogger(ApplySuggestionsFixUseCase.name);
+
+    constructor(
+        private readonly codeManagementService: CodeManagementService,
+
+        @Inject(PULL_REQUESTS_SERVICE_TOKEN)
+        private readonly pullRequestsService: IPullRequestsService,
+    ) {}
+
+    async execute(
+        params: ApplySuggestionsFixParams,
+    ): Promise<ApplySuggestionsFixResult> {
+        const { organizationAndTeamData, repository, prNumber } = params;
+
+        const result: ApplySuggestionsFixResult = {
+            applied: [],
+            conflicts: [],
+            skipped: [],
+            notFound: [],
+        };
+
+        const hasWriteAccess = await this.codeManagementService.hasWriteAccess({
+            organizationAndTeamData,
+            repository,
+            user: params.requestedBy,
+        });
+
+        if (!hasWriteAccess) {
+            result.rejection = ApplySuggestionsFixRejection.MISSING_PERMISSION;
+            return result;
+        }
+
+        const storedPullRequest =
+            await this.pullRequestsService.findByNumberAndRepositoryIdOptimized(
+                prNumber,
+                repository.id,
+                organizationAndTeamData,
+            );
+
+        const prSuggestions =
+            storedPullRequest?.files?.flatMap(
+                (file) => file.suggestions ?? [],
+            ) ?? [];
+
+        const selected = this.selectSuggestions(
+            prSuggestions,
+            params.suggestionIds,
+            result,
+        );
+
+        if (!selected.length) {
+            return result;
+        }
+
+        const pullRequest = await this.codeManagementService.getPullRequest({
+            organizationAndTeamData,
+            repository,
+            prNumber,
+        });
+
+        const branch = pullRequest?.head?.ref;
+        const headSha = pullRequest?.head?.sha;
+
+        if (!branch || !headSha) {
+            throw new Error(
+                `Could not resolve the head of PR#${prNumber} in ${repository.name}`,
+            );
+        }
+
+        const headRepositoryId = pullRequest.head.repo?.id;
+
+        if (
+            !headRepositoryId ||
+            headRepositoryId !== pullRequest.base?.repo?.id
+        ) {
+            result.rejection = ApplySuggestionsFixRejection.CROSS_REPOSITORY;
+            return result;
+        }
+
+        const files: { path: string; content: string }[] = [];
+
+        for (const [filename, suggestions] of this.groupByFile(selected)) {
+            const original = await this.getFileContent(
+                organizationAndTeamData,
+                repository,
+                filename,
+                headSha,
+            );
+
+            if (original === null) {
+                result.conflicts.push(...suggestions);
+                continue;
+            }
+
+            let content = original;
+
+            // Suggestions on the same file are applied one after the other,
+            // the patch offsets absorb the lines shifted by earlier ones
+            for (const suggestion of suggestions) {
+                const patched = applyPatch(
+                    content,
+                    suggestion.validatedData.diff,
+                );
+
+                if (patched === false) {
+                    result.conflicts.push(suggestion);
+                    continue;
+                }
+
+                content = patched;
+                result.applied.push(suggestion);
+            }
+
+            if (content !== original) {
+                files.push({ path: filename, content });
+            }
+        }
+
+        if (!files.length) {
+            return result;
+        }
+
+        const commit = await this.codeManagementService.createCommit({
+            organizationAndTeamData,
+            repository,
+            branch,
+            message: this.buildCommitMessage(
+                result.applied,
+                params.requestedBy.login,
+            ),
+            files,
+            parentSha: headSha,
+        });
+
+        if (!commit) {
+            throw new Error(
+                `Could not create the commit on ${branch} for PR#${prNumber}`,
+            );
+        }
+
+        result.commitSha = commit.sha;
+
+        await Promise.all(
+            result.applied.map((suggestion) =>
+                this.pullRequestsService.updateSuggestion(suggestion.id, {
+                    implementationStatus: ImplementationStatus.IMPLEMENTED,
+                }),
+            ),
+        );
+
+        this.logger.log({
+            message: `Committed ${result.applied.length} suggestions to PR#${prNumber}`,
+            context: ApplySuggestionsFixUseCase.name,
+            metadata: {
+                organizationAndTeamData,
+                repository,
+                prNumber,
+                commitSha: result.commitSha,
+                conflicts: result.conflicts.map((s) => s.id),
+            },
+        });
+
+        return result;
+    }
+
+    private selectSuggestions(
+        prSuggestions: ISuggestion[],
+        suggestionIds: ApplySuggestionsFixParams['suggestionIds'],
+        result: ApplySuggestionsFixResult,
+    ): ISuggestion[] {
+        let candidates: ISuggestion[];
+
+        if (suggestionIds === ALL_SUGGESTIONS) {
+            candidates = prSuggestions.filter(
+                (suggestion) =>
+                    suggestion.deliveryStatus === DeliveryStatus.SENT &&
+                    suggestion.implementationStatus !==
+                        ImplementationStatus.IMPLEMENTED,
+            );
+        } else {
+            const byId = new Map(prSuggestions.map((s) => [s.id, s]));
+
+            candidates = [];
+
+            for (const id of suggestionIds) {
+                const suggestion = byId.get(id);
+
+                if (suggestion) {
+                    candidates.push(suggestion);
+                } else {
+                    result.notFound.push(id);
+                }
+            }
+        }
+
+        return candidates.filter((suggestion) => {
+            const isApplicable =
+                suggestion.isCommittable &&
+                !!suggestion.validatedData?.diff &&
+                suggestion.implementationStatus !==
+                    ImplementationStatus.IMPLEMENTED;
+
+            if (!isApplicable) {
+                result.skipped.push(suggestion);
+            }
+
+            return isApplicable;
+        });
+    }
+
+    private groupByFile(
+        suggestions: ISuggestion[],
+    ): Map<string, ISuggestion[]> {
+        const byFile = new Map<string, ISuggestion[]>();
+
+        for (const suggestion of suggestions) {
+            const fileSuggestions = byFile.get(suggestion.relevantFile) ?? [];
+            fileSuggestions.push(suggestion);
+            byFile.set(suggestion.relevantFile, fileSuggestions);
+        }
+
+        return byFile;
+    }
+
+    /**
+     * Reads the file at the head commit the new commit is built on, never at
+     * the branch, which may have moved since.
+     */
+    private async getFileContent(
+        organizationAndTeamData: OrganizationAndTeamData,
+        repository: { id: string; name: string },
+        filename: string,
+        headSha: string,
+    ): Promise<string | null> {
+        const file = await this.codeManagementService.getRepositoryContentFile({
+            organizationAndTeamData,
+            repository,
+            file: { filename },
+            pullRequest: {
+                head: { ref: headSha, sha: headSha },
+                base: { ref: headSha, sha: headSha },
+            },
+        });
+
+        const content = file?.data?.content;
+
+        if (typeof content !== 'string') {
+            return null;
+        }
+
+        return file.data.encoding === 'base64'
+            ? Buffer.from(content, 'base64').toString('utf-8')
+            : content;
+    }
+
+    private buildCommitMessage(
+        applied: ISuggestion[],
+        requestedBy?: string,
+    ): string {
+        const title =
+            applied.length === 1
+                ? 'fix: apply Kody suggestion'
+                : `fix: apply ${applied.length} Kody suggestions`;
+
+        const details = applied.map(
+            (suggestion) =>
+                `- ${suggestion.oneSentenceSummary || suggestion.relevantFile} (${suggestion.id})`,
+        );
+
+        const footer = requestedBy ? ['', `Requested by ${requestedBy}`] : [];
+
+        return [title, '', ...details, ...footer].join('\n');
+    }
+}
@@ -8,11 +8,18 @@ import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/
 import { IntegrationConfigEntity } from '@libs/integrations/domain/integrationConfigs/entities/integration-config.entity';
 import { CodeManagementService } from '@libs/platform/infrastructure/adapters/services/codeManagement.service';
 
+import {
+    ALL_SUGGESTIONS,
+    ApplySuggestionsFixRejection,
+    ApplySuggestionsFixResult,
+    ApplySuggestionsFixUseCase,
+} from './apply-suggestions-fix.use-case';
 import { PlatformResponsePolicyFactory } from './policies/platform-response.policy';
 
 // Constants
 const KODY_COMMANDS = {
     BUSINESS_LOGIC_VALIDATION: '@kody -v business-logic',
+    FIX: 'fix',
     KODY_MENTION: '@kody',
     KODUS_MENTION: '@kodus',
 } as const;
@@ -30,11 +37,18 @@ const ACKNOWLEDGMENT_MESSAGES = {
     MARKDOWN_SUFFIX: '<!-- kody-codereview -->\n&#8203;',
     BUSINESS_LOGIC_INVALID_CONTEXT:
         'The "@kody -v business-logic" command can only be used in the general PR conversation, not in code suggestions or inline comments. Please use it in the main PR discussion thread.',
+    FIX_USAGE:
+        'Usage: `@kody fix <suggestion-id|all>`. Pass one or more suggestion ids separated by spaces, or `all` to commit every open suggestion that can be applied automatically.',
+    FIX_MISSING_PERMISSION:
+        'Only users with write access to this repository can use `@kody fix`.',
+    FIX_CROSS_REPOSITORY:
+        '`@kody fix` is not available for pull requests opened from a fork or another repository.',
 } as const;
 
 enum CommandType {
     BUSINESS_LOGIC_VALIDATION = 'business_logic_validation',
     BUSINESS_LOGIC_INVALID_CONTEXT = 'business_logic_invalid_context',
+    FIX = 'fix',
     CONVERSATION = 'conversation',
     UNKNOWN = 'unknown',
 }
@@ -57,6 +71,40 @@ class BusinessLogicValidationCommandHandler implements CommandHandler {
     }
 }
 
+class FixCommandHandler implements CommandHandler {
+    canHandle(userQuestion: string): boolean {
+        return parseFixCommand(userQuestion) !== null;
+    }
+
+    getCommandType(): CommandType {
+        return CommandType.FIX;
+    }
+}
+
+/**
+ * Parses `@kody fix <suggestion-id|all>`. Returns null when the comment is
+ * not a fix command, and an empty list when it has no arguments.
+ */
+export function parseFixCommand(
+    userQuestion: string,
+): string[] | typeof ALL_SUGGESTIONS | null {
+    const [mention, command, ...args] = userQuestion.trim().split(/[\s,]+/);
+
+    const isMention =
+        mention?.toLowerCase() === KODY_COMMANDS.KODY_MENTION ||
+        mention?.toLowerCase() === KODY_COMMANDS.KODUS_MENTION;
+
+    if (!isMention || command?.toLowerCase() !== KODY_COMMANDS.FIX) {
+        return null;
+    }
+
+    const suggestionIds = args.filter(Boolean);
+
+    return suggestionIds.some((id) => id.toLowerCase() === ALL_SUGGESTIONS)
+        ? ALL_SUGGESTIONS
+        : suggestionIds;
+}
+
 class ConversationCommandHandler implements CommandHandler {
     canHandle(userQuestion: string): boolean {
         const trimmedQuestion = userQuestion.toLowerCase().trim();
@@ -87,6 +135,7 @@ class CommandManager {
     constructor() {
         this.handlers = [
             new BusinessLogicValidationCommandHandler(),
+            new FixCommandHandler(),
             new ConversationCommandHandler(),
         ];
     }
@@ -156,6 +205,7 @@ export class ChatWithKodyFromGitUseCase {
         private readonly codeManagementService: CodeManagementService,
         private readonly conversationAgentUseCase: ConversationAgentUseCase,
         private readonly businessRulesValidationAgentUseCase: BusinessRulesValidationAgentUseCase,
+        private readonly applySuggestionsFixUseCase: ApplySuggestionsFixUseCase,
     ) {}
 
     async execute(params: WebhookParams): Promise<void> {
@@ -244,6 +294,15 @@ export class ChatWithKodyFromGitUseCase {
                 );
             }
 
+            if (commandType === CommandType.FIX) {
+                await this.handleFixFlow(
+                    params,
+                    repository,
+                    pullRequestNumber,
+                    organizationAndTeamData,
+                );
+            }
+
             if (commandType === CommandType.CONVERSATION) {
                 await this.handleConversationFlow(
                     params,
@@ -875,6 +934,105 @@ export class ChatWithKodyFromGitUseCase {
         }
     }
 
+    private async handleFixFlow(
+        params: WebhookParams,
+        repository: Repository,
+        pullRequestNumber: number,
+        organizationAndTeamData: OrganizationAndTeamData,
+    ): Promise<void> {
+        const suggestionIds = parseFixCommand(this.getCommentBody(params));
+
+        let body: string;
+
+        if (!suggestionIds?.length) {
+            body = ACKNOWLEDGMENT_MESSAGES.FIX_USAGE;
+        } else {
+            try {
+                const result = await this.applySuggestionsFixUseCase.execute({
+                    organizationAndTeamData,
+                    repository,
+                    prNumber: pullRequestNumber,
+                    suggestionIds,
+                    requestedBy: this.getSender(params),
+                });
+
+                body = this.buildFixResponse(result);
+            } catch (error) {
+                this.logger.error({
+                    message: 'Failed to apply suggestions with @kody fix',
+                    context: ChatWithKodyFromGitUseCase.name,
+                    error,
+                    metadata: {
+                        organizationAndTeamData,
+                        repository: repository.name,
+                        pullRequestNumber,
+                        suggestionIds,
+                    },
+                });
+
+                body =
+                    'Could not commit the suggestions. If new commits were pushed to this branch in the meantime, run the command again.';
+            }
+        }
+
+        await this.codeManagementService.createIssueComment({
+            organizationAndTeamData,
+            repository,
+            prNumber: pullRequestNumber,
+            body: `${body}\n\n${ACKNOWLEDGMENT_MESSAGES.MARKDOWN_SUFFIX}`,
+        });
+    }
+
+    private buildFixResponse(result: ApplySuggestionsFixResult): string {
+        if (
+            result.rejection === ApplySuggestionsFixRejection.MISSING_PERMISSION
+        ) {
+            return ACKNOWLEDGMENT_MESSAGES.FIX_MISSING_PERMISSION;
+        }
+
+        if (
+            result.rejection === ApplySuggestionsFixRejection.CROSS_REPOSITORY
+        ) {
+            return ACKNOWLEDGMENT_MESSAGES.FIX_CROSS_REPOSITORY;
+        }
+
+        const lines: string[] = [];
+
+        if (result.commitSha) {
+            lines.push(
+                `Committed ${result.applied.length} suggestion(s) in ${result.commitSha}.`,
+            );
+        } else {
+            lines.push('No suggestions were committed.');
+        }
+
+        if (result.conflicts.length) {
+            lines.push(
+                `Conflicts with the current head, apply manually: ${result.conflicts
+                    .map((s) => `\`${s.id}\``)
+                    .join(', ')}`,
+            );
+        }
+
+        if (result.skipped.length) {
+            lines.push(
+                `Skipped (no validated fix or already implemented): ${result.skipped
+                    .map((s) => `\`${s.id}\``)
+                    .join(', ')}`,
+            );
+        }
+
+        if (result.notFound.length) {
+            lines.push(
+                `Not found on this PR: ${result.notFound
+                    .map((id) => `\`${id}\``)
+                    .join(', ')}`,
+            );
+        }
+
+        return lines.join('\n\n');
+    }
+
     private async handleBusinessLogicInvalidContextFlow(
         params: WebhookParams,
         repository: Repository,
@@ -1455,6 +1613,23 @@ export class ChatWithKodyFromGitUseCase {
         }
     }
 
+    private getCommentBody(params: WebhookParams): string {
+        switch (params.platformType) {
+            case PlatformType.GITLAB:
+                return params.payload?.object_attributes?.note || '';
+            case PlatformType.BITBUCKET:
+                return params.payload?.comment?.content?.raw || '';
+            case PlatformType.AZURE_REPOS:
+                return params.payload?.resource?.comment?.content || '';
+            default:
+                return (
+                    params.payload?.comment?.body ||
+                    params.payload?.issue?.body ||
+                    ''
+                );
+        }
+    }
+
     private getSender(params: WebhookParams): Sender {
         switch (params.platformType) {
             case PlatformType.GITHUB:
@@ -1,3 +1,4 @@
+import { ApplySuggestionsFixUseCase } from './apply-suggestions-fix.use-case';
 import { ChatWithKodyFromGitUseCase } from './chatWithKodyFromGit.use-case';
 import { CreateIntegrationUseCase } from './create-integration.use-case';
 import { CreatePRCodeReviewUseCase } from './create-prs-code-review.use-case';
@@ -24,6 +25,7 @@ export default [
     GetRepositoriesUseCase,
     GetSelectedRepositoriesUseCase,
     ChatWithKodyFromGitUseCase,
+    ApplySuggestionsFixUseCase,
     ReceiveWebhookUseCase,
     GetPRsUseCase,
     CreatePRCodeReviewUseCase,
@@ -3,6 +3,7 @@ import { IdGenerator } from '@kodus/flow';
 
 import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
 import { IUseCase } from '@libs/core/domain/interfaces/use-case.interface';
+import { webhooksEnqueued } from '@libs/core/infrastructure/metrics/prometheus/prometheus.metrics';
 import { createLogger } from '@kodus/flow';
 import {
     IJobQueueService,
@@ -78,7 +79,14 @@ export class EnqueueWebhookUseCase implements IUseCase {
                 retryCount: 0,
                 maxRetries: 1,
             });
+
+            webhooksEnqueued.inc({ platform: platformType, status: 'success' });
         } catch (error) {
+            webhooksEnqueued.inc({
+                platform: String(input.platformType),
+                status: 'error',
+            });
+
             this.logger.error({
                 message: 'Failed to enqueue raw webhook payload',
                 context: EnqueueWebhookUseCase.name,
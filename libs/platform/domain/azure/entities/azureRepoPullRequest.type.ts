@@ -48,4 +48,9 @@ export interface AzureRepoPullRequest {
     reviewers: AzureRepoIdentity[];
     url: string;
     supportsIterations: boolean;
+    /** Set when the source branch lives in a fork. */
+    forkSource?: {
+        name: string;
+        repository: Partial<AzureReposRepository>;
+    };
 }
@@ -10,9 +10,21 @@ import { TreeItem } from '@libs/core/infrastructure/config/types/general/tree.ty
 import { IntegrationConfigEntity } from '@libs/integrations/domain/integrationConfigs/entities/integration-config.entity';
 
 import { ICommonPlatformIntegrationService } from './common.interface';
+import {
+    CreateBranchParams,
+    GetBranchHeadParams,
+} from '../types/codeManagement/branch.type';
+import {
+    CreateCommitParams,
+    CreatedCommit,
+    HasWriteAccessParams,
+} from '../types/codeManagement/commit.type';
 import { GitCloneParams } from '../types/codeManagement/gitCloneParams.type';
 import { Organization } from '../types/codeManagement/organization.type';
 import {
+    CreatedPullRequest,
+    CreatePullRequestParams,
+    FindOpenPullRequestParams,
     PullRequest,
     PullRequestAuthor,
     PullRequestCodeReviewTime,
@@ -252,6 +264,41 @@ export interface ICodeManagementService extends ICommonPlatformIntegrationServic
         prNumber: number;
     }): Promise<PullRequestReviewState | null>;
 
+    /**
+     * Commits the given file contents on top of `params.parentSha`. Throws
+     * when the branch head has moved past it.
+     */
+    createCommit(params: CreateCommitParams): Promise<CreatedCommit | null>;
+
+    /**
+     * Whether `params.user` can push to the repository. False when the
+     * permission cannot be verified.
+     */
+    hasWriteAccess(params: HasWriteAccessParams): Promise<boolean>;
+
+    /** Sha the branch points to, or null when the branch does not exist. */
+    getBranchHead(params: GetBranchHeadParams): Promise<string | null>;
+
+    createBranch(params: CreateBranchParams): Promise<void>;
+
+    deleteBranch(params: GetBranchHeadParams): Promise<void>;
+
+    /**
+     * The pull request open from `params.sourceBranch` into
+     * `params.targetBranch`, or null when there is none.
+     */
+    findOpenPullRequest(
+        params: FindOpenPullRequestParams,
+    ): Promise<CreatedPullRequest | null>;
+
+    /**
+     * Opens a pull request from `params.sourceBranch`, or returns the one
+     * already open from it.
+     */
+    createPullRequest(
+        params: CreatePullRequestParams,
+    ): Promise<CreatedPullRequest | null>;
+
     addReactionToPR?(params: {
         organizationAndTeamData: OrganizationAndTeamData;
         repository: { id?: string; name?: string };
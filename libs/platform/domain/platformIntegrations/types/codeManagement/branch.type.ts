@@ -0,0 +1,12 @@
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+
+export type GetBranchHeadParams = {
+    organizationAndTeamData: OrganizationAndTeamData;
+    repository: { id: string; name: string };
+    branch: string;
+};
+
+export type CreateBranchParams = GetBranchHeadParams & {
+    /** Commit the new branch points to. */
+    fromSha: string;
+};
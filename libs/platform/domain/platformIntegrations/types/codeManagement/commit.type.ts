@@ -0,0 +1,36 @@
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
+
+export type CommitFileAction = 'create' | 'update' | 'delete';
+
+export type CommitFileChange = {
+    path: string;
+    /** Full new content of the file (utf-8). Ignored when deleting. */
+    content: string;
+    /** Defaults to `update`, the file must already exist on the branch. */
+    action?: CommitFileAction;
+};
+
+export type CreateCommitParams = {
+    organizationAndTeamData: OrganizationAndTeamData;
+    repository: { id: string; name: string };
+    branch: string;
+    message: string;
+    files: CommitFileChange[];
+    /**
+     * Commit the file contents were read from. The commit is rejected when
+     * the branch no longer points to it, so changes pushed in the meantime
+     * are never overwritten.
+     */
+    parentSha: string;
+};
+
+export type CreatedCommit = {
+    sha: string;
+};
+
+export type HasWriteAccessParams = {
+    organizationAndTeamData: OrganizationAndTeamData;
+    repository: { id: string; name: string };
+    /** The platform user id, and the login on GitHub. */
+    user: { id?: string; login?: string };
+};
@@ -1,5 +1,6 @@
 import { PullRequestState } from '@libs/core/domain/enums/pullRequestState.enum';
 import { Repository } from '@libs/core/infrastructure/config/types/general/codeReview.type';
+import { OrganizationAndTeamData } from '@libs/core/infrastructure/config/types/general/organizationAndTeamData';
 
 export type PullRequest = {
     id: string;
@@ -58,6 +59,25 @@ export type PullRequest = {
     isDraft: boolean;
 };
 
+export type FindOpenPullRequestParams = {
+    organizationAndTeamData: OrganizationAndTeamData;
+    repository: { id: string; name: string };
+    sourceBranch: string;
+    targetBranch: string;
+};
+
+export type CreatePullRequestParams = FindOpenPullRequestParams & {
+    title: string;
+    body: string;
+};
+
+export type CreatedPullRequest = {
+    number: number;
+    url?: string;
+    /** False when an open pull request from the branch already existed. */
+    created: boolean;
+};
+
 export type PullRequestFile = {
     additions?: number;
     changes: number;
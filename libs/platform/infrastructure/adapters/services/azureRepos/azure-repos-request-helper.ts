@@ -20,6 +20,11 @@ import {
 import { AzureReposProject } from '@libs/platform/domain/azure/entities/azureReposProject.type';
 import { AzureReposRepository } from '@libs/platform/domain/azure/entities/azureReposRepository.type';
 import { decrypt } from '@libs/common/utils/crypto';
+import { CommitFileChange } from '@libs/platform/domain/platformIntegrations/types/codeManagement/commit.type';
+
+// Git Repositories security namespace and its GenericContribute bit
+const AZURE_GIT_SECURITY_NAMESPACE = '2e9eb7ed-3c0a-47d4-87c1-0ffdcd708f1f';
+const AZURE_GIT_CONTRIBUTE_PERMISSION = 4;
 
 @Injectable()
 export class AzureReposRequestHelper {
@@ -273,6 +278,217 @@ export class AzureReposRequestHelper {
         return data;
     }
 
+    async createPush(params: {
+        orgName: string;
+        token: string;
+        projectId: string;
+        repositoryId: string;
+        branch: string;
+        oldObjectId: string;
+        message: string;
+        files: CommitFileChange[];
+    }): Promise<{ commitId: string } | null> {
+        const instance = await this.azureRequest(params);
+
+        const payload = {
+            refUpdates: [
+                {
+                    name: `refs/heads/${params.branch.replace(/^refs\/heads\//, '')}`,
+                    oldObjectId: params.oldObjectId,
+                },
+            ],
+            commits: [
+                {
+                    comment: params.message,
+                    changes: params.files.map((file) => ({
+                        changeType:
+                            file.action === 'delete'
+                                ? 'delete'
+                                : file.action === 'create'
+                                  ? 'add'
+                                  : 'edit',
+                        item: {
+                            path: file.path.startsWith('/')
+                                ? file.path
+                                : `/${file.path}`,
+                        },
+                        ...(file.action === 'delete'
+                            ? {}
+                            : {
+                                  newContent: {
+                                      content: file.content,
+                                      contentType: 'rawtext',
+                                  },
+                              }),
+                    })),
+                },
+            ],
+        };
+
+        const { data } = await instance.post(
+            `/${params.projectId}/_apis/git/repositories/${params.repositoryId}/pushes?api-version=7.1`,
+            payload,
+        );
+
+        const commitId = data?.commits?.[0]?.commitId;
+
+        return commitId ? { commitId } : null;
+    }
+
+    /**
+     * Whether the identity has the Contribute permission on the repository,
+     * through its own grants or those of its groups.
+     */
+    async canContributeToRepository(params: {
+        orgName: string;
+        token: string;
+        projectId: string;
+        repositoryId: string;
+        identityId: string;
+    }): Promise<boolean> {
+        const identities = await this.azureRequest({
+            ...params,
+            useGraphApi: true,
+        });
+
+        const { data: identity } = await identities.get(
+            `/_apis/identities?identityIds=${encodeURIComponent(params.identityId)}&api-version=7.1`,
+        );
+
+        const descriptor: string | undefined = identity?.value?.[0]?.descriptor;
+
+        if (!descriptor) {
+            return false;
+        }
+
+        const instance = await this.azureRequest(params);
+
+        const { data } = await instance.get(
+            `/_apis/accesscontrollists/${AZURE_GIT_SECURITY_NAMESPACE}?token=${encodeURIComponent(`repoV2/${params.projectId}/${params.repositoryId}`)}&descriptors=${encodeURIComponent(descriptor)}&includeExtendedInfo=true&api-version=7.1`,
+        );
+
+        const effectiveAllow: number =
+            data?.value?.[0]?.acesDictionary?.[descriptor]?.extendedInfo
+                ?.effectiveAllow ?? 0;
+
+        return (effectiveAllow & AZURE_GIT_CONTRIBUTE_PERMISSION) !== 0;
+    }
+
+    async getBranchRef(params: {
+        orgName: string;
+        token: string;
+        projectId: string;
+        repositoryId: string;
+        branch: string;
+    }): Promise<{ name: string; objectId: string } | null> {
+        const instance = await this.azureRequest(params);
+        const name = `refs/heads/${params.branch.replace(/^refs\/heads\//, '')}`;
+
+        const { data } = await instance.get(
+            `/${params.projectId}/_apis/git/repositories/${params.repositoryId}/refs`,
+            {
+                params: {
+                    'filter': name.replace(/^refs\//, ''),
+                    'api-version': '7.1',
+                },
+            },
+        );
+
+        // The filter is a prefix match, so feature/a also returns feature/ab
+        return (
+            data?.value?.find((ref: { name: string }) => ref.name === name) ??
+            null
+        );
+    }
+
+    async createBranchRef(params: {
+        orgName: string;
+        token: string;
+        projectId: string;
+        repositoryId: string;
+        branch: string;
+        objectId: string;
+    }): Promise<void> {
+        const instance = await this.azureRequest(params);
+
+        const { data } = await instance.post(
+            `/${params.projectId}/_apis/git/repositories/${params.repositoryId}/refs?api-version=7.1`,
+            [
+                {
+                    name: `refs/heads/${params.branch.replace(/^refs\/heads\//, '')}`,
+                    oldObjectId: '0000000000000000000000000000000000000000',
+                    newObjectId: params.objectId,
+                },
+            ],
+        );
+
+        const result = data?.value?.[0];
+
+        if (result && !result.success) {
+            throw new Error(
+                `Could not create branch ${params.branch}: ${result.updateStatus}`,
+            );
+        }
+    }
+
+    /** `objectId` must be the current head of the branch. */
+    async deleteBranchRef(params: {
+        orgName: string;
+        token: string;
+        projectId: string;
+        repositoryId: string;
+        branch: string;
+        objectId: string;
+    }): Promise<void> {
+        const instance = await this.azureRequest(params);
+
+        const { data } = await instance.post(
+            `/${params.projectId}/_apis/git/repositories/${params.repositoryId}/refs?api-version=7.1`,
+            [
+                {
+                    name: `refs/heads/${params.branch.replace(/^refs\/heads\//, '')}`,
+                    oldObjectId: params.objectId,
+                    newObjectId: '0000000000000000000000000000000000000000',
+                },
+            ],
+        );
+
+        const result = data?.value?.[0];
+
+        if (result && !result.success) {
+            throw new Error(
+                `Could not delete branch ${params.branch}: ${result.updateStatus}`,
+            );
+        }
+    }
+
+    async createPullRequest(params: {
+        orgName: string;
+        token: string;
+        projectId: string;
+        repositoryId: string;
+        sourceBranch: string;
+        targetBranch: string;
+        title: string;
+        description: string;
+    }): Promise<AzureRepoPullRequest> {
+        const instance = await this.azureRequest(params);
+        const toRef = (branch: string) =>
+            `refs/heads/${branch.replace(/^refs\/heads\//, '')}`;
+
+        const { data } = await instance.post(
+            `/${params.projectId}/_apis/git/repositories/${params.repositoryId}/pullrequests?api-version=7.1`,
+            {
+                sourceRefName: toRef(params.sourceBranch),
+                targetRefName: toRef(params.targetBranch),
+                title: params.title,
+                description: params.description,
+            },
+        );
+
+        return data;
+    }
+
     async listSubscriptionsByProject(params: {
         orgName: string;
         token: string;
@@ -14,6 +14,7 @@ import {
 import {
     Comment,
     CommentResult,
+    CustomCategory,
     FileChange,
     Repository,
 } from '@libs/core/infrastructure/config/types/general/codeReview.type';
@@ -34,8 +35,20 @@ import {
 } from '@libs/integrations/domain/integrations/contracts/integration.service.contracts';
 import { ICodeManagementService } from '@libs/platform/domain/platformIntegrations/interfaces/code-management.interface';
 
+import {
+    CreateBranchParams,
+    GetBranchHeadParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/branch.type';
+import {
+    CreateCommitParams,
+    CreatedCommit,
+    HasWriteAccessParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/commit.type';
 import { GitCloneParams } from '@libs/platform/domain/platformIntegrations/types/codeManagement/gitCloneParams.type';
 import {
+    CreatedPullRequest,
+    CreatePullRequestParams,
+    FindOpenPullRequestParams,
     OneSentenceSummaryItem,
     PullRequest,
     PullRequestAuthor,
@@ -1083,6 +1096,7 @@ export class AzureReposService implements Omit<
         lineComment: Comment;
         language: LanguageValue;
         suggestionCopyPrompt?: boolean;
+        customCategories?: CustomCategory[];
     }): Promise<AzureRepoPRThread | null> {
         try {
             const {
@@ -1092,6 +1106,7 @@ export class AzureReposService implements Omit<
                 lineComment,
                 language,
                 suggestionCopyPrompt = true,
+                customCategories,
             } = params;
             const { orgName, token } = await this.getAuthDetails(
                 organizationAndTeamData,
@@ -1112,6 +1127,7 @@ export class AzureReposService implements Omit<
                 repository,
                 translations,
                 suggestionCopyPrompt,
+                customCategories,
             );
 
             const thread =
@@ -1195,6 +1211,26 @@ export class AzureReposService implements Omit<
                 }
             }
 
+            const headSha: string | undefined = (pullRequest as any)?.head?.sha;
+
+            if (!content && headSha) {
+                try {
+                    content =
+                        await this.azureReposRequestHelper.getRepositoryContentFile(
+                            {
+                                orgName,
+                                token,
+                                projectId,
+                                repositoryId: repository.id,
+                                commitId: headSha,
+                                filePath: file.filename,
+                            },
+                        );
+                } catch {
+                    // Unknown commit, try the branch below
+                }
+            }
+
             if (!content) {
                 let branch: string | undefined =
                     (pullRequest as any)?.head?.ref ||
@@ -1582,6 +1618,325 @@ export class AzureReposService implements Omit<
         }
     }
 
+    async createCommit(
+        params: CreateCommitParams,
+    ): Promise<CreatedCommit | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            branch,
+            message,
+            files,
+            parentSha,
+        } = params;
+
+        try {
+            const { orgName, token } = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const projectId = await this.getProjectIdFromRepository(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            // Azure rejects the push when the ref is no longer at oldObjectId
+            const push = await this.azureReposRequestHelper.createPush({
+                orgName,
+                token,
+                projectId,
+                repositoryId: repository.id,
+                branch,
+                oldObjectId: parentSha,
+                message,
+                files,
+            });
+
+            return push ? { sha: push.commitId } : null;
+        } catch (error) {
+            this.logger.error({
+                message: `Failed to create commit on branch ${branch}`,
+                context: AzureReposService.name,
+                serviceName: 'AzureReposService createCommit',
+                error,
+                metadata: {
+                    organizationAndTeamData,
+                    repository,
+                    branch,
+                    parentSha,
+                    files: files.map((file) => file.path),
+                },
+            });
+            throw error;
+        }
+    }
+
+    async hasWriteAccess(params: HasWriteAccessParams): Promise<boolean> {
+        const { organizationAndTeamData, repository, user } = params;
+
+        if (!user?.id) {
+            return false;
+        }
+
+        try {
+            const { orgName, token } = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const projectId = await this.getProjectIdFromRepository(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            return await this.azureReposRequestHelper.canContributeToRepository(
+                {
+                    orgName,
+                    token,
+                    projectId,
+                    repositoryId: repository.id,
+                    identityId: user.id,
+                },
+            );
+        } catch (error) {
+            this.logger.error({
+                message: `Failed to check the permission of user ${user.id} on ${repository.name}`,
+                context: AzureReposService.name,
+                serviceName: 'AzureReposService hasWriteAccess',
+                error,
+                metadata: { organizationAndTeamData, repository, user },
+            });
+            return false;
+        }
+    }
+
+    async getBranchHead(params: GetBranchHeadParams): Promise<string | null> {
+        const { organizationAndTeamData, repository, branch } = params;
+
+        try {
+            const { orgName, token } = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const projectId = await this.getProjectIdFromRepository(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const ref = await this.azureReposRequestHelper.getBranchRef({
+                orgName,
+                token,
+                projectId,
+                repositoryId: repository.id,
+                branch,
+            });
+
+            return ref?.objectId ?? null;
+        } catch (error) {
+            this.logger.error({
+                message: `Failed to get the head of branch ${branch}`,
+                context: AzureReposService.name,
+                serviceName: 'AzureReposService getBranchHead',
+                error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async createBranch(params: CreateBranchParams): Promise<void> {
+        const { organizationAndTeamData, repository, branch, fromSha } = params;
+
+        try {
+            const { orgName, token } = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const projectId = await this.getProjectIdFromRepository(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            await this.azureReposRequestHelper.createBranchRef({
+                orgName,
+                token,
+                projectId,
+                repositoryId: repository.id,
+                branch,
+                objectId: fromSha,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Failed to create branch ${branch}`,
+                context: AzureReposService.name,
+                serviceName: 'AzureReposService createBranch',
+                error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async deleteBranch(params: GetBranchHeadParams): Promise<void> {
+        const { organizationAndTeamData, repository, branch } = params;
+
+        try {
+            const head = await this.getBranchHead(params);
+
+            if (!head) {
+                return;
+            }
+
+            const { orgName, token } = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const projectId = await this.getProjectIdFromRepository(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            await this.azureReposRequestHelper.deleteBranchRef({
+                orgName,
+                token,
+                projectId,
+                repositoryId: repository.id,
+                branch,
+                objectId: head,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Failed to delete branch ${branch}`,
+                context: AzureReposService.name,
+                serviceName: 'AzureReposService deleteBranch',
+                error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async findOpenPullRequest(
+        params: FindOpenPullRequestParams,
+    ): Promise<CreatedPullRequest | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            sourceBranch,
+            targetBranch,
+        } = params;
+
+        try {
+            const { orgName, token } = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const projectId = await this.getProjectIdFromRepository(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const open =
+                await this.azureReposRequestHelper.getPullRequestsByRepo({
+                    orgName,
+                    token,
+                    projectId,
+                    repositoryId: repository.id,
+                    filters: {
+                        status: AzurePRStatus.ACTIVE,
+                        branch: `refs/heads/${sourceBranch}`,
+                    },
+                });
+
+            const existing = open?.find(
+                (pullRequest) =>
+                    pullRequest.targetRefName === `refs/heads/${targetBranch}`,
+            );
+
+            return existing
+                ? {
+                      number: existing.pullRequestId,
+                      url: existing.repository?.webUrl
+                          ? `${existing.repository.webUrl}/pullrequest/${existing.pullRequestId}`
+                          : undefined,
+                      created: false,
+                  }
+                : null;
+        } catch (error) {
+            this.logger.error({
+                message: `Failed to find the open pull request from ${sourceBranch}`,
+                context: AzureReposService.name,
+                serviceName: 'AzureReposService findOpenPullRequest',
+                error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async createPullRequest(
+        params: CreatePullRequestParams,
+    ): Promise<CreatedPullRequest | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            sourceBranch,
+            targetBranch,
+            title,
+            body,
+        } = params;
+
+        try {
+            const existing = await this.findOpenPullRequest(params);
+
+            if (existing) {
+                return existing;
+            }
+
+            const { orgName, token } = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const projectId = await this.getProjectIdFromRepository(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const pullRequest =
+                await this.azureReposRequestHelper.createPullRequest({
+                    orgName,
+                    token,
+                    projectId,
+                    repositoryId: repository.id,
+                    sourceBranch,
+                    targetBranch,
+                    title,
+                    description: body,
+                });
+
+            return {
+                number: pullRequest.pullRequestId,
+                url: pullRequest.repository?.webUrl
+                    ? `${pullRequest.repository.webUrl}/pullrequest/${pullRequest.pullRequestId}`
+                    : undefined,
+                created: true,
+            };
+        } catch (error) {
+            this.logger.error({
+                message: `Failed to create pull request from ${sourceBranch}`,
+                context: AzureReposService.name,
+                serviceName: 'AzureReposService createPullRequest',
+                error,
+                metadata: {
+                    organizationAndTeamData,
+                    repository,
+                    sourceBranch,
+                    targetBranch,
+                },
+            });
+            throw error;
+        }
+    }
+
     async getDefaultBranch(params: any): Promise<string> {
         const { organizationAndTeamData, repository } = params;
 
@@ -3686,6 +4041,7 @@ ${copyPrompt}
         repository: any,
         translations: any,
         suggestionCopyPrompt?: boolean,
+        customCategories?: CustomCategory[],
     ) {
         const severityShield = lineComment?.suggestion
             ? getSeverityLevelShield(lineComment.suggestion.severity)
@@ -3705,7 +4061,10 @@ ${copyPrompt}
             [
                 getCodeReviewBadge(),
                 lineComment?.suggestion
-                    ? getLabelShield(lineComment.suggestion.label)
+                    ? getLabelShield(
+                          lineComment.suggestion.label,
+                          customCategories,
+                      )
                     : '',
                 severityShield,
             ].join(' ') + '\n\n';
@@ -4635,8 +4994,12 @@ ${copyPrompt}
             sourceRefName: pr?.sourceRefName ?? '', // TODO: remove, legacy, use head.ref
             head: {
                 ref: pr?.sourceRefName?.replace('refs/heads/', ''),
+                sha: pr?.lastMergeSourceCommit?.commitId ?? '',
                 repo: {
-                    id: pr?.repository?.id ?? '',
+                    id:
+                        pr?.forkSource?.repository?.id ??
+                        pr?.repository?.id ??
+                        '',
                     name: pr?.repository?.name ?? '',
                     defaultBranch: pr?.repository?.defaultBranch ?? '',
                     fullName: `${pr?.repository?.name ?? ''}/${pr?.sourceRefName?.replace('refs/heads/', '')}`,
@@ -47,8 +47,20 @@ import { MCPManagerService } from '@libs/mcp-server/services/mcp-manager.service
 
 import { AuthMode } from '@libs/platform/domain/platformIntegrations/enums/codeManagement/authMode.enum';
 import { ICodeManagementService } from '@libs/platform/domain/platformIntegrations/interfaces/code-management.interface';
+import {
+    CreateBranchParams,
+    GetBranchHeadParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/branch.type';
+import {
+    CreateCommitParams,
+    CreatedCommit,
+    HasWriteAccessParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/commit.type';
 import { GitCloneParams } from '@libs/platform/domain/platformIntegrations/types/codeManagement/gitCloneParams.type';
 import {
+    CreatedPullRequest,
+    CreatePullRequestParams,
+    FindOpenPullRequestParams,
     PullRequestAuthor,
     PullRequestsWithChangesRequested,
     PullRequestReviewState,
@@ -3392,6 +3404,371 @@ export class BitbucketService implements Omit<
         }
     }
 
+    async createCommit(
+        params: CreateCommitParams,
+    ): Promise<CreatedCommit | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            branch,
+            message,
+            files,
+            parentSha,
+        } = params;
+
+        try {
+            const bitbucketAuthDetails = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            if (!bitbucketAuthDetails) {
+                return null;
+            }
+
+            const repo = await this.getRepoById(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const bitbucketAPI =
+                this.instanceBitbucketApi(bitbucketAuthDetails);
+
+            const deleted = files
+                .filter((file) => file.action === 'delete')
+                .map((file) => file.path);
+
+            // With both branch and parents set, Bitbucket rejects the commit
+            // when the branch head is not parentSha
+            const response = await bitbucketAPI.source.createFileCommit({
+                repo_slug: `{${repo.id}}`,
+                workspace: `{${repo.workspaceId}}`,
+                _body: {
+                    message,
+                    branch,
+                    parents: parentSha,
+                    // Paths listed in `files` without content are removed
+                    ...(deleted.length ? { files: deleted } : {}),
+                    ...Object.fromEntries(
+                        files
+                            .filter((file) => file.action !== 'delete')
+                            .map((file) => [file.path, file.content]),
+                    ),
+                },
+            });
+
+            // The new commit is only returned in the Location header
+            const location: string = response?.headers?.location ?? '';
+            const sha = location.split('/').pop();
+
+            return sha ? { sha } : null;
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating commit on branch ${branch}`,
+                context: BitbucketService.name,
+                serviceName: 'BitbucketService createCommit',
+                error: error,
+                metadata: {
+                    organizationAndTeamData,
+                    repository,
+                    branch,
+                    parentSha,
+                    files: files.map((file) => file.path),
+                },
+            });
+            throw error;
+        }
+    }
+
+    async hasWriteAccess(params: HasWriteAccessParams): Promise<boolean> {
+        const { organizationAndTeamData, repository, user } = params;
+
+        if (!user?.id) {
+            return false;
+        }
+
+        try {
+            const bitbucketAuthDetails = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            if (!bitbucketAuthDetails) {
+                return false;
+            }
+
+            const repo = await this.getRepoById(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const bitbucketAPI =
+                this.instanceBitbucketApi(bitbucketAuthDetails);
+
+            // Senders are identified by uuid, or by account id when the
+            // webhook has no uuid
+            const userId = this.sanitizeUUID(user.id);
+            const query = /^[0-9a-f-]{36}$/i.test(userId)
+                ? `user.uuid="{${userId}}"`
+                : `user.account_id="${userId}"`;
+
+            // The effective permission, including the one granted by groups
+            const { data } =
+                await bitbucketAPI.workspaces.listPermissionsForRepository({
+                    workspace: `{${repo.workspaceId}}`,
+                    repo_slug: `{${repo.id}}`,
+                    q: query,
+                });
+
+            return (data?.values ?? []).some((entry) =>
+                ['admin', 'write'].includes(entry?.permission),
+            );
+        } catch (error) {
+            this.logger.error({
+                message: `Error checking the permission of user ${user.id} on ${repository.name}`,
+                context: BitbucketService.name,
+                serviceName: 'BitbucketService hasWriteAccess',
+                error: error,
+                metadata: { organizationAndTeamData, repository, user },
+            });
+            return false;
+        }
+    }
+
+    async getBranchHead(params: GetBranchHeadParams): Promise<string | null> {
+        const { organizationAndTeamData, repository, branch } = params;
+
+        try {
+            const bitbucketAuthDetails = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            if (!bitbucketAuthDetails) {
+                return null;
+            }
+
+            const repo = await this.getRepoById(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const bitbucketAPI =
+                this.instanceBitbucketApi(bitbucketAuthDetails);
+
+            const { data } = await bitbucketAPI.refs.getBranch({
+                repo_slug: `{${repo.id}}`,
+                workspace: `{${repo.workspaceId}}`,
+                name: branch,
+            });
+
+            return data?.target?.hash ?? null;
+        } catch (error) {
+            if (error?.status === 404) {
+                return null;
+            }
+
+            this.logger.error({
+                message: `Error getting the head of branch ${branch}`,
+                context: BitbucketService.name,
+                serviceName: 'BitbucketService getBranchHead',
+                error: error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async createBranch(params: CreateBranchParams): Promise<void> {
+        const { organizationAndTeamData, repository, branch, fromSha } = params;
+
+        try {
+            const bitbucketAuthDetails = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const repo = await this.getRepoById(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const bitbucketAPI =
+                this.instanceBitbucketApi(bitbucketAuthDetails);
+
+            await bitbucketAPI.refs.createBranch({
+                repo_slug: `{${repo.id}}`,
+                workspace: `{${repo.workspaceId}}`,
+                _body: {
+                    name: branch,
+                    target: { hash: fromSha },
+                } as Schema.Branch,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating branch ${branch}`,
+                context: BitbucketService.name,
+                serviceName: 'BitbucketService createBranch',
+                error: error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async deleteBranch(params: GetBranchHeadParams): Promise<void> {
+        const { organizationAndTeamData, repository, branch } = params;
+
+        try {
+            const bitbucketAuthDetails = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const repo = await this.getRepoById(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const bitbucketAPI =
+                this.instanceBitbucketApi(bitbucketAuthDetails);
+
+            await bitbucketAPI.refs.deleteBranch({
+                repo_slug: `{${repo.id}}`,
+                workspace: `{${repo.workspaceId}}`,
+                name: branch,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Error deleting branch ${branch}`,
+                context: BitbucketService.name,
+                serviceName: 'BitbucketService deleteBranch',
+                error: error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async findOpenPullRequest(
+        params: FindOpenPullRequestParams,
+    ): Promise<CreatedPullRequest | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            sourceBranch,
+            targetBranch,
+        } = params;
+
+        try {
+            const bitbucketAuthDetails = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            if (!bitbucketAuthDetails) {
+                return null;
+            }
+
+            const repo = await this.getRepoById(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const bitbucketAPI =
+                this.instanceBitbucketApi(bitbucketAuthDetails);
+
+            const { data: open } = await bitbucketAPI.pullrequests.list({
+                repo_slug: `{${repo.id}}`,
+                workspace: `{${repo.workspaceId}}`,
+                q: `state = "OPEN" AND source.branch.name = "${sourceBranch}" AND destination.branch.name = "${targetBranch}"`,
+            });
+
+            const existing = open?.values?.[0];
+
+            return existing
+                ? {
+                      number: existing.id,
+                      url: existing.links?.html?.href,
+                      created: false,
+                  }
+                : null;
+        } catch (error) {
+            this.logger.error({
+                message: `Error finding the open pull request from ${sourceBranch}`,
+                context: BitbucketService.name,
+                serviceName: 'BitbucketService findOpenPullRequest',
+                error: error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async createPullRequest(
+        params: CreatePullRequestParams,
+    ): Promise<CreatedPullRequest | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            sourceBranch,
+            targetBranch,
+            title,
+            body,
+        } = params;
+
+        try {
+            const bitbucketAuthDetails = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            if (!bitbucketAuthDetails) {
+                return null;
+            }
+
+            const existing = await this.findOpenPullRequest(params);
+
+            if (existing) {
+                return existing;
+            }
+
+            const repo = await this.getRepoById(
+                organizationAndTeamData,
+                repository.id,
+            );
+
+            const bitbucketAPI =
+                this.instanceBitbucketApi(bitbucketAuthDetails);
+
+            const { data: pullRequest } =
+                await bitbucketAPI.pullrequests.create({
+                    repo_slug: `{${repo.id}}`,
+                    workspace: `{${repo.workspaceId}}`,
+                    _body: {
+                        type: 'pullrequest',
+                        title,
+                        description: body,
+                        source: { branch: { name: sourceBranch } },
+                        destination: { branch: { name: targetBranch } },
+                    } as Schema.Pullrequest,
+                });
+
+            return {
+                number: pullRequest.id,
+                url: pullRequest.links?.html?.href,
+                created: true,
+            };
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating pull request from ${sourceBranch}`,
+                context: BitbucketService.name,
+                serviceName: 'BitbucketService createPullRequest',
+                error: error,
+                metadata: {
+                    organizationAndTeamData,
+                    repository,
+                    sourceBranch,
+                    targetBranch,
+                },
+            });
+            throw error;
+        }
+    }
+
     async getReviewStatusByPullRequest(params: {
         organizationAndTeamData: OrganizationAndTeamData;
         repository: Partial<Repository>;
@@ -10,6 +10,7 @@ import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
 import { PullRequestState } from '@libs/core/domain/enums/pullRequestState.enum';
 import {
     CommentResult,
+    CustomCategory,
     Repository,
 } from '@libs/core/infrastructure/config/types/general/codeReview.type';
 import { Commit } from '@libs/core/infrastructure/config/types/general/commit.type';
@@ -27,6 +28,9 @@ import {
 import { PlatformIntegrationFactory } from './platformIntegration.factory';
 import { Repositories } from '@libs/platform/domain/platformIntegrations/types/codeManagement/repositories.type';
 import {
+    CreatedPullRequest,
+    CreatePullRequestParams,
+    FindOpenPullRequestParams,
     PullRequest,
     PullRequestAuthor,
     PullRequestReviewComment,
@@ -36,6 +40,15 @@ import {
 import { CodeReviewPipelineContext } from '@libs/code-review/pipeline/context/code-review-pipeline.context';
 import { GitCloneParams } from '@libs/platform/domain/platformIntegrations/types/codeManagement/gitCloneParams.type';
 import { RepositoryFile } from '@libs/platform/domain/platformIntegrations/types/codeManagement/repositoryFile.type';
+import {
+    CreateCommitParams,
+    CreatedCommit,
+    HasWriteAccessParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/commit.type';
+import {
+    CreateBranchParams,
+    GetBranchHeadParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/branch.type';
 
 @Injectable()
 export class CodeManagementService implements ICodeManagementService {
@@ -420,6 +433,7 @@ export class CodeManagementService implements ICodeManagementService {
             language: string;
             dryRun?: CodeReviewPipelineContext['dryRun'];
             suggestionCopyPrompt?: boolean;
+            customCategories?: CustomCategory[];
         },
         type?: PlatformType,
     ) {
@@ -1238,6 +1252,118 @@ export class CodeManagementService implements ICodeManagementService {
         return codeManagementService.getReviewStatusByPullRequest(params);
     }
 
+    async createCommit(
+        params: CreateCommitParams,
+        type?: PlatformType,
+    ): Promise<CreatedCommit | null> {
+        if (!type) {
+            type = await this.getTypeIntegration(
+                params.organizationAndTeamData,
+            );
+        }
+
+        const codeManagementService =
+            this.platformIntegrationFactory.getCodeManagementService(type);
+
+        return codeManagementService.createCommit(params);
+    }
+
+    async hasWriteAccess(
+        params: HasWriteAccessParams,
+        type?: PlatformType,
+    ): Promise<boolean> {
+        if (!type) {
+            type = await this.getTypeIntegration(
+                params.organizationAndTeamData,
+            );
+        }
+
+        const codeManagementService =
+            this.platformIntegrationFactory.getCodeManagementService(type);
+
+        return codeManagementService.hasWriteAccess(params);
+    }
+
+    async getBranchHead(
+        params: GetBranchHeadParams,
+        type?: PlatformType,
+    ): Promise<string | null> {
+        if (!type) {
+            type = await this.getTypeIntegration(
+                params.organizationAndTeamData,
+            );
+        }
+
+        const codeManagementService =
+            this.platformIntegrationFactory.getCodeManagementService(type);
+
+        return codeManagementService.getBranchHead(params);
+    }
+
+    async createBranch(
+        params: CreateBranchParams,
+        type?: PlatformType,
+    ): Promise<void> {
+        if (!type) {
+            type = await this.getTypeIntegration(
+                params.organizationAndTeamData,
+            );
+        }
+
+        const codeManagementService =
+            this.platformIntegrationFactory.getCodeManagementService(type);
+
+        return codeManagementService.createBranch(params);
+    }
+
+    async deleteBranch(
+        params: GetBranchHeadParams,
+        type?: PlatformType,
+    ): Promise<void> {
+        if (!type) {
+            type = await this.getTypeIntegration(
+                params.organizationAndTeamData,
+            );
+        }
+
+        const codeManagementService =
+            this.platformIntegrationFactory.getCodeManagementService(type);
+
+        return codeManagementService.deleteBranch(params);
+    }
+
+    async findOpenPullRequest(
+        params: FindOpenPullRequestParams,
+        type?: PlatformType,
+    ): Promise<CreatedPullRequest | null> {
+        if (!type) {
+            type = await this.getTypeIntegration(
+                params.organizationAndTeamData,
+            );
+        }
+
+        const codeManagementService =
+            this.platformIntegrationFactory.getCodeManagementService(type);
+
+        return codeManagementService.findOpenPullRequest(params);
+    }
+
+    async createPullRequest(
+        params: CreatePullRequestParams,
+        type?: PlatformType,
+    ): Promise<CreatedPullRequest | null> {
+        if (!type) {
+            type = await this.getTypeIntegration(
+                params.organizationAndTeamData,
+            );
+        }
+
+        const codeManagementService =
+            this.platformIntegrationFactory.getCodeManagementService(type);
+
+        return codeManagementService.createPullRequest(params);
+    }
+
     async addReactionToPR(params: {
         organizationAndTeamData: OrganizationAndTeamData;
         repository: { id?: string; name?: string };
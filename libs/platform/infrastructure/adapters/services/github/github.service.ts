@@ -47,6 +47,7 @@ import {
 } from '@libs/core/domain/enums';
 import {
     CommentResult,
+    CustomCategory,
     Repository,
     ReviewComment,
 } from '@libs/core/infrastructure/config/types/general/codeReview.type';
@@ -75,8 +76,20 @@ import {
     CodeManagementConnectionStatus,
     ICodeManagementService,
 } from '@libs/platform/domain/platformIntegrations/interfaces/code-management.interface';
+import {
+    CreateBranchParams,
+    GetBranchHeadParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/branch.type';
+import {
+    CreateCommitParams,
+    CreatedCommit,
+    HasWriteAccessParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/commit.type';
 import { GitCloneParams } from '@libs/platform/domain/platformIntegrations/types/codeManagement/gitCloneParams.type';
 import {
+    CreatedPullRequest,
+    CreatePullRequestParams,
+    FindOpenPullRequestParams,
     OneSentenceSummaryItem,
     PullRequest,
     PullRequestAuthor,
@@ -120,6 +133,12 @@ interface GitHubInstallationData {
     target_id: number;
 }
 
+type GitTreeEntry =
+    RestEndpointMethodTypes['git']['getTree']['response']['data']['tree'][number];
+
+type GitTreeEntryMode =
+    RestEndpointMethodTypes['git']['createTree']['parameters']['tree'][number]['mode'];
+
 @Injectable()
 @IntegrationServiceDecorator(PlatformType.GITHUB, 'codeManagement')
 export class GithubService
@@ -2809,6 +2828,7 @@ ${copyPrompt}
         translations: any,
         suggestionCopyPrompt: boolean,
         isCommittableSuggestion?: boolean,
+        customCategories?: CustomCategory[],
     ) {
         const improvedCode = isCommittableSuggestion
             ? lineComment?.suggestion?.validatedData?.code
@@ -2835,7 +2855,10 @@ ${copyPrompt}
             [
                 getCodeReviewBadge(),
                 lineComment?.suggestion
-                    ? getLabelShield(lineComment.suggestion.label)
+                    ? getLabelShield(
+                          lineComment.suggestion.label,
+                          customCategories,
+                      )
                     : '',
                 severityShield,
             ].join(' ') + '\n\n';
@@ -2878,6 +2901,7 @@ This is an experimental feature that generates committable changes. Review the d
             commit,
             language,
             suggestionCopyPrompt = true,
+            customCategories,
         } = params;
 
         const githubAuthDetail = await this.getGithubAuthDetails(
@@ -2913,6 +2937,7 @@ This is an experimental feature that generates committable changes. Review the d
             translations,
             suggestionCopyPrompt,
             isCommittableSuggestion,
+            customCategories,
         );
 
         try {
@@ -4450,6 +4475,392 @@ This is an experimental feature that generates committable changes. Review the d
         }
     }
 
+    async createCommit(
+        params: CreateCommitParams,
+    ): Promise<CreatedCommit | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            branch,
+            message,
+            files,
+            parentSha,
+        } = params;
+
+        try {
+            const githubAuthDetail = await this.getGithubAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const octokit = await this.instanceOctokit(organizationAndTeamData);
+
+            const owner = githubAuthDetail.org;
+            const repo = repository.name;
+
+            const { data: parentCommit } = await octokit.rest.git.getCommit({
+                owner,
+                repo,
+                commit_sha: parentSha,
+            });
+
+            const modes = await this.getTreeEntryModes(
+                octokit,
+                owner,
+                repo,
+                parentCommit.tree.sha,
+                files.map((file) => file.path),
+            );
+
+            const { data: tree } = await octokit.rest.git.createTree({
+                owner,
+                repo,
+                base_tree: parentCommit.tree.sha,
+                // A null sha removes the path from the tree
+                tree: files.map((file) => ({
+                    path: file.path,
+                    // Keeps executables and symlinks as they are
+                    mode: modes.get(file.path) ?? '100644',
+                    type: 'blob' as const,
+                    ...(file.action === 'delete'
+                        ? { sha: null }
+                        : { content: file.content }),
+                })),
+            });
+
+            const { data: commit } = await octokit.rest.git.createCommit({
+                owner,
+                repo,
+                message,
+                tree: tree.sha,
+                parents: [parentSha],
+            });
+
+            // Not forced: fails when the branch has moved past parentSha
+            await octokit.rest.git.updateRef({
+                owner,
+                repo,
+                ref: `heads/${branch}`,
+                sha: commit.sha,
+                force: false,
+            });
+
+            return { sha: commit.sha };
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating commit on branch ${branch}`,
+                context: GithubService.name,
+                serviceName: 'GithubService createCommit',
+                error: error.message,
+                metadata: {
+                    organizationAndTeamData,
+                    repository,
+                    branch,
+                    parentSha,
+                    files: files.map((file) => file.path),
+                },
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Reads the modes of the given paths in a tree, walking only the
+     * directories that contain them. Paths not in the tree are left out.
+     */
+    private async getTreeEntryModes(
+        octokit: Octokit,
+        owner: string,
+        repo: string,
+        rootTreeSha: string,
+        paths: string[],
+    ): Promise<Map<string, GitTreeEntryMode>> {
+        const trees = new Map<string, GitTreeEntry[]>();
+
+        const listDirectory = async (
+            directory: string,
+        ): Promise<GitTreeEntry[]> => {
+            if (trees.has(directory)) {
+                return trees.get(directory);
+            }
+
+            let treeSha = rootTreeSha;
+
+            if (directory) {
+                const separator = directory.lastIndexOf('/');
+                const parent = await listDirectory(
+                    directory.slice(0, Math.max(separator, 0)),
+                );
+
+                treeSha = parent.find(
+                    (item) =>
+                        item.type === 'tree' &&
+                        item.path === directory.slice(separator + 1),
+                )?.sha;
+            }
+
+            let entries: GitTreeEntry[] = [];
+
+            if (treeSha) {
+                const { data } = await octokit.rest.git.getTree({
+                    owner,
+                    repo,
+                    tree_sha: treeSha,
+                });
+
+                entries = data.tree;
+            }
+
+            trees.set(directory, entries);
+
+            return entries;
+        };
+
+        const modes = new Map<string, GitTreeEntryMode>();
+
+        for (const path of paths) {
+            const separator = path.lastIndexOf('/');
+            const entries = await listDirectory(
+                path.slice(0, Math.max(separator, 0)),
+            );
+            const entry = entries.find(
+                (item) =>
+                    item.type !== 'tree' &&
+                    item.path === path.slice(separator + 1),
+            );
+
+            if (entry?.mode) {
+                modes.set(path, entry.mode as GitTreeEntryMode);
+            }
+        }
+
+        return modes;
+    }
+
+    async hasWriteAccess(params: HasWriteAccessParams): Promise<boolean> {
+        const { organizationAndTeamData, repository, user } = params;
+
+        if (!user?.login) {
+            return false;
+        }
+
+        try {
+            const githubAuthDetail = await this.getGithubAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const octokit = await this.instanceOctokit(organizationAndTeamData);
+
+            const { data } =
+                await octokit.rest.repos.getCollaboratorPermissionLevel({
+                    owner: githubAuthDetail.org,
+                    repo: repository.name,
+                    username: user.login,
+                });
+
+            // `permission` folds maintain into write and triage into read
+            return ['admin', 'maintain', 'write'].includes(
+                data?.role_name ?? data?.permission,
+            );
+        } catch (error) {
+            this.logger.error({
+                message: `Error checking the permission of ${user.login} on ${repository.name}`,
+                context: GithubService.name,
+                serviceName: 'GithubService hasWriteAccess',
+                error: error.message,
+                metadata: { organizationAndTeamData, repository, user },
+            });
+            return false;
+        }
+    }
+
+    async getBranchHead(params: GetBranchHeadParams): Promise<string | null> {
+        const { organizationAndTeamData, repository, branch } = params;
+
+        try {
+            const githubAuthDetail = await this.getGithubAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const octokit = await this.instanceOctokit(organizationAndTeamData);
+
+            const { data: ref } = await octokit.rest.git.getRef({
+                owner: githubAuthDetail.org,
+                repo: repository.name,
+                ref: `heads/${branch}`,
+            });
+
+            return ref?.object?.sha ?? null;
+        } catch (error) {
+            if (error?.status === 404) {
+                return null;
+            }
+
+            this.logger.error({
+                message: `Error getting the head of branch ${branch}`,
+                context: GithubService.name,
+                serviceName: 'GithubService getBranchHead',
+                error: error.message,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async createBranch(params: CreateBranchParams): Promise<void> {
+        const { organizationAndTeamData, repository, branch, fromSha } = params;
+
+        try {
+            const githubAuthDetail = await this.getGithubAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const octokit = await this.instanceOctokit(organizationAndTeamData);
+
+            await octokit.rest.git.createRef({
+                owner: githubAuthDetail.org,
+                repo: repository.name,
+                ref: `refs/heads/${branch}`,
+                sha: fromSha,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating branch ${branch}`,
+                context: GithubService.name,
+                serviceName: 'GithubService createBranch',
+                error: error.message,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async deleteBranch(params: GetBranchHeadParams): Promise<void> {
+        const { organizationAndTeamData, repository, branch } = params;
+
+        try {
+            const githubAuthDetail = await this.getGithubAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const octokit = await this.instanceOctokit(organizationAndTeamData);
+
+            await octokit.rest.git.deleteRef({
+                owner: githubAuthDetail.org,
+                repo: repository.name,
+                ref: `heads/${branch}`,
+            });
+        } catch (error) {
+            this.logger.error({
+                message: `Error deleting branch ${branch}`,
+                context: GithubService.name,
+                serviceName: 'GithubService deleteBranch',
+                error: error.message,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async findOpenPullRequest(
+        params: FindOpenPullRequestParams,
+    ): Promise<CreatedPullRequest | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            sourceBranch,
+            targetBranch,
+        } = params;
+
+        try {
+            const githubAuthDetail = await this.getGithubAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const octokit = await this.instanceOctokit(organizationAndTeamData);
+
+            const { data: open } = await octokit.rest.pulls.list({
+                owner: githubAuthDetail.org,
+                repo: repository.name,
+                state: 'open',
+                head: `${githubAuthDetail.org}:${sourceBranch}`,
+                base: targetBranch,
+            });
+
+            return open?.length
+                ? {
+                      number: open[0].number,
+                      url: open[0].html_url,
+                      created: false,
+                  }
+                : null;
+        } catch (error) {
+            this.logger.error({
+                message: `Error finding the open pull request from ${sourceBranch}`,
+                context: GithubService.name,
+                serviceName: 'GithubService findOpenPullRequest',
+                error: error.message,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async createPullRequest(
+        params: CreatePullRequestParams,
+    ): Promise<CreatedPullRequest | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            sourceBranch,
+            targetBranch,
+            title,
+            body,
+        } = params;
+
+        try {
+            const existing = await this.findOpenPullRequest(params);
+
+            if (existing) {
+                return existing;
+            }
+
+            const githubAuthDetail = await this.getGithubAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const octokit = await this.instanceOctokit(organizationAndTeamData);
+
+            const { data: pullRequest } = await octokit.rest.pulls.create({
+                owner: githubAuthDetail.org,
+                repo: repository.name,
+                head: sourceBranch,
+                base: targetBranch,
+                title,
+                body,
+            });
+
+            return {
+                number: pullRequest.number,
+                url: pullRequest.html_url,
+                created: true,
+            };
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating pull request from ${sourceBranch}`,
+                context: GithubService.name,
+                serviceName: 'GithubService createPullRequest',
+                error: error.message,
+                metadata: {
+                    organizationAndTeamData,
+                    repository,
+                    sourceBranch,
+                    targetBranch,
+                },
+            });
+            throw error;
+        }
+    }
+
     async getReviewStatusByPullRequest(params: {
         organizationAndTeamData: OrganizationAndTeamData;
         repository: Partial<Repository>;
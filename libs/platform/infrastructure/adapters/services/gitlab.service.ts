@@ -1,4 +1,5 @@
 import {
+    AccessLevel,
     CommitSchema,
     Gitlab,
     MergeRequestSchema,
@@ -25,6 +26,7 @@ import {
     PullRequestState,
 } from '@libs/core/domain/enums';
 import {
+    CustomCategory,
     Repository,
     ReviewComment,
 } from '@libs/core/infrastructure/config/types/general/codeReview.type';
@@ -48,8 +50,20 @@ import {
     IAuthIntegrationService,
 } from '@libs/integrations/domain/authIntegrations/contracts/auth-integration.service.contracts';
 
+import {
+    CreateBranchParams,
+    GetBranchHeadParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/branch.type';
+import {
+    CreateCommitParams,
+    CreatedCommit,
+    HasWriteAccessParams,
+} from '@libs/platform/domain/platformIntegrations/types/codeManagement/commit.type';
 import { GitCloneParams } from '@libs/platform/domain/platformIntegrations/types/codeManagement/gitCloneParams.type';
 import {
+    CreatedPullRequest,
+    CreatePullRequestParams,
+    FindOpenPullRequestParams,
     PullRequest,
     PullRequestAuthor,
     PullRequestCodeReviewTime,
@@ -1557,6 +1571,7 @@ export class GitlabService implements Omit<
         repository: any,
         translations: any,
         suggestionCopyPrompt: boolean,
+        customCategories?: CustomCategory[],
     ) {
         const severityShield = lineComment?.suggestion
             ? getSeverityLevelShield(lineComment.suggestion.severity)
@@ -1576,7 +1591,10 @@ export class GitlabService implements Omit<
             [
                 getCodeReviewBadge(),
                 lineComment?.suggestion
-                    ? getLabelShield(lineComment.suggestion.label)
+                    ? getLabelShield(
+                          lineComment.suggestion.label,
+                          customCategories,
+                      )
                     : '',
                 severityShield,
             ].join(' ') + '\n\n';
@@ -1608,6 +1626,7 @@ export class GitlabService implements Omit<
             commit,
             language,
             suggestionCopyPrompt = true,
+            customCategories,
         } = params;
 
         const gitlabAuthDetail = await this.getAuthDetails(
@@ -1638,6 +1657,7 @@ export class GitlabService implements Omit<
                 repository,
                 translations,
                 suggestionCopyPrompt,
+                customCategories,
             );
 
             const discussion = await gitlabAPI.MergeRequestDiscussions.create(
@@ -2664,6 +2684,281 @@ export class GitlabService implements Omit<
         }
     }
 
+    async createCommit(
+        params: CreateCommitParams,
+    ): Promise<CreatedCommit | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            branch,
+            message,
+            files,
+            parentSha,
+        } = params;
+
+        try {
+            const gitlabAuthDetail = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const gitlabAPI = this.instanceGitlabApi(gitlabAuthDetail);
+
+            // The commits API has no parent precondition, so check the head
+            // right before committing
+            const currentBranch = await gitlabAPI.Branches.show(
+                repository.id,
+                branch,
+            );
+
+            if (currentBranch?.commit?.id !== parentSha) {
+                throw new Error(
+                    `Branch ${branch} has moved from ${parentSha} to ${currentBranch?.commit?.id}`,
+                );
+            }
+
+            const commit = await gitlabAPI.Commits.create(
+                repository.id,
+                branch,
+                message,
+                files.map((file) =>
+                    file.action === 'delete'
+                        ? { action: 'delete' as const, filePath: file.path }
+                        : {
+                              action: file.action ?? ('update' as const),
+                              filePath: file.path,
+                              content: file.content,
+                          },
+                ),
+            );
+
+            return { sha: commit.id };
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating commit on branch ${branch}`,
+                context: GitlabService.name,
+                serviceName: 'GitlabService createCommit',
+                error: error,
+                metadata: {
+                    organizationAndTeamData,
+                    repository,
+                    branch,
+                    parentSha,
+                    files: files.map((file) => file.path),
+                },
+            });
+            throw error;
+        }
+    }
+
+    async hasWriteAccess(params: HasWriteAccessParams): Promise<boolean> {
+        const { organizationAndTeamData, repository, user } = params;
+
+        if (!user?.id) {
+            return false;
+        }
+
+        try {
+            const gitlabAuthDetail = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const gitlabAPI = this.instanceGitlabApi(gitlabAuthDetail);
+
+            // Inherited: members of the parent groups count too
+            const member = await gitlabAPI.ProjectMembers.show(
+                repository.id,
+                Number(user.id),
+                { includeInherited: true },
+            );
+
+            return (member?.access_level ?? 0) >= AccessLevel.DEVELOPER;
+        } catch (error) {
+            if (error?.cause?.response?.status !== 404) {
+                this.logger.error({
+                    message: `Error checking the permission of user ${user.id} on ${repository.name}`,
+                    context: GitlabService.name,
+                    serviceName: 'GitlabService hasWriteAccess',
+                    error: error,
+                    metadata: { organizationAndTeamData, repository, user },
+                });
+            }
+            return false;
+        }
+    }
+
+    async getBranchHead(params: GetBranchHeadParams): Promise<string | null> {
+        const { organizationAndTeamData, repository, branch } = params;
+
+        try {
+            const gitlabAuthDetail = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const gitlabAPI = this.instanceGitlabApi(gitlabAuthDetail);
+
+            const found = await gitlabAPI.Branches.show(repository.id, branch);
+
+            return found?.commit?.id ?? null;
+        } catch (error) {
+            if (error?.cause?.response?.status === 404) {
+                return null;
+            }
+
+            this.logger.error({
+                message: `Error getting the head of branch ${branch}`,
+                context: GitlabService.name,
+                serviceName: 'GitlabService getBranchHead',
+                error: error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async createBranch(params: CreateBranchParams): Promise<void> {
+        const { organizationAndTeamData, repository, branch, fromSha } = params;
+
+        try {
+            const gitlabAuthDetail = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const gitlabAPI = this.instanceGitlabApi(gitlabAuthDetail);
+
+            await gitlabAPI.Branches.create(repository.id, branch, fromSha);
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating branch ${branch}`,
+                context: GitlabService.name,
+                serviceName: 'GitlabService createBranch',
+                error: error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async deleteBranch(params: GetBranchHeadParams): Promise<void> {
+        const { organizationAndTeamData, repository, branch } = params;
+
+        try {
+            const gitlabAuthDetail = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const gitlabAPI = this.instanceGitlabApi(gitlabAuthDetail);
+
+            await gitlabAPI.Branches.remove(repository.id, branch);
+        } catch (error) {
+            this.logger.error({
+                message: `Error deleting branch ${branch}`,
+                context: GitlabService.name,
+                serviceName: 'GitlabService deleteBranch',
+                error: error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async findOpenPullRequest(
+        params: FindOpenPullRequestParams,
+    ): Promise<CreatedPullRequest | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            sourceBranch,
+            targetBranch,
+        } = params;
+
+        try {
+            const gitlabAuthDetail = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const gitlabAPI = this.instanceGitlabApi(gitlabAuthDetail);
+
+            const open = await gitlabAPI.MergeRequests.all({
+                projectId: repository.id,
+                sourceBranch,
+                targetBranch,
+                state: 'opened',
+            });
+
+            return open?.length
+                ? {
+                      number: open[0].iid,
+                      url: open[0].web_url,
+                      created: false,
+                  }
+                : null;
+        } catch (error) {
+            this.logger.error({
+                message: `Error finding the open merge request from ${sourceBranch}`,
+                context: GitlabService.name,
+                serviceName: 'GitlabService findOpenPullRequest',
+                error: error,
+                metadata: params,
+            });
+            throw error;
+        }
+    }
+
+    async createPullRequest(
+        params: CreatePullRequestParams,
+    ): Promise<CreatedPullRequest | null> {
+        const {
+            organizationAndTeamData,
+            repository,
+            sourceBranch,
+            targetBranch,
+            title,
+            body,
+        } = params;
+
+        try {
+            const existing = await this.findOpenPullRequest(params);
+
+            if (existing) {
+                return existing;
+            }
+
+            const gitlabAuthDetail = await this.getAuthDetails(
+                organizationAndTeamData,
+            );
+
+            const gitlabAPI = this.instanceGitlabApi(gitlabAuthDetail);
+
+            const mergeRequest = await gitlabAPI.MergeRequests.create(
+                repository.id,
+                sourceBranch,
+                targetBranch,
+                title,
+                { description: body },
+            );
+
+            return {
+                number: mergeRequest.iid,
+                url: mergeRequest.web_url,
+                created: true,
+            };
+        } catch (error) {
+            this.logger.error({
+                message: `Error creating merge request from ${sourceBranch}`,
+                context: GitlabService.name,
+                serviceName: 'GitlabService createPullRequest',
+                error: error,
+                metadata: {
+                    organizationAndTeamData,
+                    repository,
+                    sourceBranch,
+                    targetBranch,
+                },
+            });
+            throw error;
+        }
+    }
+
     async getCloneParams(params: {
         repository: Pick<
             Repository,
@@ -3983,6 +4278,7 @@ export class GitlabService implements Omit<
             sourceRefName: mergeRequest?.source_branch ?? '', // TODO: remove, legacy, use head.ref
             head: {
                 ref: mergeRequest?.source_branch ?? '',
+                sha: mergeRequest?.sha ?? '',
                 repo: {
                     id: mergeRequest?.source_project_id?.toString() ?? '',
                     name: '',
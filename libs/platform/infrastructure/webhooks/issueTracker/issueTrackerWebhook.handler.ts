@@ -0,0 +1,49 @@
+import { createLogger } from '@kodus/flow';
+import { Injectable } from '@nestjs/common';
+
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { SyncIssueFromTrackerUseCase } from '@libs/issues/application/use-cases/sync-issue-from-tracker.use-case';
+import {
+    IWebhookEventHandler,
+    IWebhookEventParams,
+} from '@libs/platform/domain/platformIntegrations/interfaces/webhook-event-handler.interface';
+
+const SUPPORTED_EVENTS: Partial<Record<PlatformType, string>> = {
+    [PlatformType.JIRA]: 'jira:issue_updated',
+    [PlatformType.AZURE_BOARDS]: 'workitem.updated',
+};
+
+/**
+ * Handler for Jira and Azure Boards webhook events.
+ * Syncs the status of the tickets back to the exported Kody Issues.
+ */
+@Injectable()
+export class IssueTrackerWebhookHandler implements IWebhookEventHandler {
+    private readonly logger = createLogger(IssueTrackerWebhookHandler.name);
+
+    constructor(
+        private readonly syncIssueFromTrackerUseCase: SyncIssueFromTrackerUseCase,
+    ) {}
+
+    public canHandle(params: IWebhookEventParams): boolean {
+        return SUPPORTED_EVENTS[params.platformType] === params.event;
+    }
+
+    public async execute(params: IWebhookEventParams): Promise<void> {
+        const issue = await this.syncIssueFromTrackerUseCase.execute(
+            params.platformType,
+            params.payload,
+        );
+
+        this.logger.log({
+            message: issue
+                ? `Synced issue ${issue.uuid} from ${params.platformType}`
+                : `No issue synced from ${params.platformType} event`,
+            context: IssueTrackerWebhookHandler.name,
+            metadata: {
+                event: params.event,
+                correlationId: params.correlationId,
+            },
+        });
+    }
+}
@@ -22,6 +22,7 @@ import { AzureReposPullRequestHandler } from '../infrastructure/webhooks/azure/a
 import { GitHubPullRequestHandler } from '../infrastructure/webhooks/github/githubPullRequest.handler';
 import { GitLabMergeRequestHandler } from '../infrastructure/webhooks/gitlab/gitlabPullRequest.handler';
 import { BitbucketPullRequestHandler } from '../infrastructure/webhooks/bitbucket/bitbucketPullRequest.handler';
+import { IssueTrackerWebhookHandler } from '../infrastructure/webhooks/issueTracker/issueTrackerWebhook.handler';
 
 import { PlatformCoreModule } from './platform-core.module';
 import { GetConnectionsUseCase } from '../application/use-cases/integrations/get-connections.use-case';
@@ -66,6 +67,7 @@ import { WorkflowModule } from '@libs/core/workflow/modules/workflow.module';
         GitHubPullRequestHandler,
         GitLabMergeRequestHandler,
         BitbucketPullRequestHandler,
+        IssueTrackerWebhookHandler,
         {
             provide: 'AZURE_REPOS_WEBHOOK_HANDLER',
             useExisting: AzureReposPullRequestHandler,
@@ -82,6 +84,10 @@ import { WorkflowModule } from '@libs/core/workflow/modules/workflow.module';
             provide: 'BITBUCKET_WEBHOOK_HANDLER',
             useExisting: BitbucketPullRequestHandler,
         },
+        {
+            provide: 'ISSUE_TRACKER_WEBHOOK_HANDLER',
+            useExisting: IssueTrackerWebhookHandler,
+        },
     ],
     exports: [
         PlatformCoreModule,
@@ -93,6 +99,7 @@ import { WorkflowModule } from '@libs/core/workflow/modules/workflow.module';
         'GITHUB_WEBHOOK_HANDLER',
         'GITLAB_WEBHOOK_HANDLER',
         'BITBUCKET_WEBHOOK_HANDLER',
+        'ISSUE_TRACKER_WEBHOOK_HANDLER',
     ],
 })
 export class PlatformModule {}
@@ -9,6 +9,7 @@ import {
     IFile,
     ISuggestion,
     IPullRequestWithDeliveredSuggestions,
+    IKodyRuleSuggestionRecord,
 } from '../interfaces/pullRequests.interface';
 
 export const PULL_REQUESTS_REPOSITORY_TOKEN = Symbol.for(
@@ -94,6 +95,10 @@ export interface IPullRequestsRepository {
         ruleId: string,
         organizationId: string,
     ): Promise<ISuggestion[]>;
+    findKodyRuleSuggestionsByPeriod(
+        organizationId: string,
+        range: { startDate: Date; endDate: Date },
+    ): Promise<IKodyRuleSuggestionRecord[]>;
     findPullRequestsWithDeliveredSuggestions(
         organizationId: string,
         prNumbers: number[],
@@ -128,6 +133,12 @@ export interface IPullRequestsRepository {
         repositoryId: string,
         limit?: number,
     ): Promise<PullRequestsEntity[]>;
+    findNumbersByRepositoryIdAndOpenedAt(
+        organizationId: string,
+        repositoryId: string,
+        range: { startDate?: Date; endDate?: Date },
+        limit?: number,
+    ): Promise<Array<{ number: number; title: string }>>;
 
     update(
         pullRequest: PullRequestsEntity,
@@ -78,6 +78,7 @@ export interface ISuggestion {
     severity: string;
     rankScore?: number;
     brokenKodyRulesIds?: string[];
+    brokenKodyRulesRevisions?: Record<string, number>;
     clusteringInformation?: {
         type?: ClusteringType;
         relatedSuggestionsIds?: string[];
@@ -93,6 +94,13 @@ export interface ISuggestion {
         pullRequestReviewId: number;
     };
     type?: SuggestionType;
+    isCommittable?: boolean;
+    validatedData?: {
+        code: string;
+        diff: string;
+        lineStart: number;
+        lineEnd: number;
+    };
     createdAt: string;
     updatedAt: string;
     prNumber?: number;
@@ -168,6 +176,7 @@ export interface ISuggestionByPR {
     label: LabelType;
     severity?: SeverityLevel;
     brokenKodyRulesIds?: string[];
+    brokenKodyRulesRevisions?: Record<string, number>;
     priorityStatus?: PriorityStatus;
     deliveryStatus: DeliveryStatus;
     comment?: {
@@ -203,3 +212,15 @@ export interface IPullRequestWithDeliveredSuggestions {
     };
     suggestions: IDeliveredSuggestion[];
 }
+
+/** A suggestion that broke Kody Rules, reduced to what rule analytics need. */
+export interface IKodyRuleSuggestionRecord {
+    id: string;
+    brokenKodyRulesIds: string[];
+    severity: string;
+    priorityStatus: PriorityStatus;
+    deliveryStatus: DeliveryStatus;
+    implementationStatus?: ImplementationStatus;
+    prNumber: number;
+    repositoryId: string;
+}
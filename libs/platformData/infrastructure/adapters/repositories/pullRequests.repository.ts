@@ -14,6 +14,7 @@ import { PullRequestState } from '@libs/core/domain/enums';
 import { IPullRequestsRepository } from '@libs/platformData/domain/pullRequests/contracts/pullRequests.repository';
 import {
     IFile,
+    IKodyRuleSuggestionRecord,
     IPullRequests,
     IPullRequestWithDeliveredSuggestions,
     ISuggestion,
@@ -468,6 +469,64 @@ export class PullRequestsRepository implements IPullRequestsRepository {
         return [...fileSuggestions, ...prLevelSuggestions];
     }
 
+    /**
+     * File and PR-level suggestions that broke at least one Kody Rule,
+     * created within the range, whatever their priority or delivery status.
+     */
+    async findKodyRuleSuggestionsByPeriod(
+        organizationId: string,
+        range: { startDate: Date; endDate: Date },
+    ): Promise<IKodyRuleSuggestionRecord[]> {
+        const pullRequestMatch = {
+            organizationId,
+            createdAt: { $lte: range.endDate },
+            updatedAt: { $gte: range.startDate },
+        };
+
+        // Suggestion dates are stored as ISO strings, so ranges compare lexically
+        const suggestionMatch = (field: string) => ({
+            [`${field}.brokenKodyRulesIds.0`]: { $exists: true },
+            [`${field}.createdAt`]: {
+                $gte: range.startDate.toISOString(),
+                $lte: range.endDate.toISOString(),
+            },
+        });
+
+        const project = (field: string) => ({
+            _id: 0,
+            id: `$${field}.id`,
+            brokenKodyRulesIds: `$${field}.brokenKodyRulesIds`,
+            severity: `$${field}.severity`,
+            priorityStatus: `$${field}.priorityStatus`,
+            deliveryStatus: `$${field}.deliveryStatus`,
+            implementationStatus: `$${field}.implementationStatus`,
+            prNumber: '$number',
+            repositoryId: '$repository.id',
+        });
+
+        const [fileSuggestions, prLevelSuggestions] = await Promise.all([
+            this.pullRequestsModel
+                .aggregate<IKodyRuleSuggestionRecord>([
+                    { $match: pullRequestMatch },
+                    { $unwind: '$files' },
+                    { $unwind: '$files.suggestions' },
+                    { $match: suggestionMatch('files.suggestions') },
+                    { $project: project('files.suggestions') },
+                ])
+                .exec(),
+            this.pullRequestsModel
+                .aggregate<IKodyRuleSuggestionRecord>([
+                    { $match: pullRequestMatch },
+                    { $unwind: '$prLevelSuggestions' },
+                    { $match: suggestionMatch('prLevelSuggestions') },
+                    { $project: project('prLevelSuggestions') },
+                ])
+                .exec(),
+        ]);
+
+        return [...fileSuggestions, ...prLevelSuggestions];
+    }
+
     async findPullRequestsWithDeliveredSuggestions(
         organizationId: string,
         prNumbers: number[],
@@ -845,6 +904,37 @@ export class PullRequestsRepository implements IPullRequestsRepository {
 
         return mapSimpleModelsToEntities(docs, PullRequestsEntity);
     }
+
+    async findNumbersByRepositoryIdAndOpenedAt(
+        organizationId: string,
+        repositoryId: string,
+        range: { startDate?: Date; endDate?: Date },
+        limit: number = 50,
+    ): Promise<Array<{ number: number; title: string }>> {
+        const filter: any = {
+            'organizationId': organizationId,
+            'repository.id': repositoryId,
+        };
+
+        // openedAt is stored as an ISO string, so ranges compare lexically
+        if (range?.startDate || range?.endDate) {
+            filter.openedAt = {
+                ...(range.startDate && {
+                    $gte: range.startDate.toISOString(),
+                }),
+                ...(range.endDate && { $lte: range.endDate.toISOString() }),
+            };
+        }
+
+        const docs = await this.pullRequestsModel
+            .find(filter, { number: 1, title: 1 })
+            .sort({ openedAt: -1 })
+            .limit(limit)
+            .lean()
+            .exec();
+
+        return docs.map((doc) => ({ number: doc.number, title: doc.title }));
+    }
     //#endregion
 
     //#region Update
@@ -152,6 +152,7 @@ export class PullRequestsModel extends CoreDocument {
         label: LabelType;
         severity?: SeverityLevel;
         brokenKodyRulesIds?: string[];
+        brokenKodyRulesRevisions?: Record<string, number>;
         priorityStatus?: PriorityStatus;
         deliveryStatus: DeliveryStatus;
         comment?: {
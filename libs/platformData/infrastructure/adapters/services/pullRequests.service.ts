@@ -7,6 +7,7 @@ import { PullRequestsEntity } from '@libs/platformData/domain/pullRequests/entit
 import {
     ICommit,
     IFile,
+    IKodyRuleSuggestionRecord,
     IPullRequests,
     IPullRequestUser,
     IPullRequestWithDeliveredSuggestions,
@@ -175,6 +176,16 @@ export class PullRequestsService implements IPullRequestsService {
         );
     }
 
+    async findKodyRuleSuggestionsByPeriod(
+        organizationId: string,
+        range: { startDate: Date; endDate: Date },
+    ): Promise<IKodyRuleSuggestionRecord[]> {
+        return this.pullRequestsRepository.findKodyRuleSuggestionsByPeriod(
+            organizationId,
+            range,
+        );
+    }
+
     async findPullRequestsWithDeliveredSuggestions(
         organizationId: string,
         prNumbers: number[],
@@ -268,6 +279,20 @@ export class PullRequestsService implements IPullRequestsService {
         );
     }
 
+    async findNumbersByRepositoryIdAndOpenedAt(
+        organizationId: string,
+        repositoryId: string,
+        range: { startDate?: Date; endDate?: Date },
+        limit?: number,
+    ): Promise<Array<{ number: number; title: string }>> {
+        return this.pullRequestsRepository.findNumbersByRepositoryIdAndOpenedAt(
+            organizationId,
+            repositoryId,
+            range,
+            limit,
+        );
+    }
+
     async addPrLevelSuggestions(
         pullRequestNumber: number,
         repositoryName: string,
@@ -14,6 +14,7 @@ import {
     PromptRunnerService,
 } from './promptRunner.service';
 import { BYOKProvider } from './byokProvider.service';
+import { BYOKRoutingTable } from './routing';
 
 export enum ParserType {
     STRING = 'string',
@@ -29,6 +30,7 @@ export interface BYOKProviderConfig {
     baseURL?: string;
     projectId?: string;
     region?: string;
+    contextWindow?: number;
 }
 
 //#region Types
@@ -62,6 +64,7 @@ type SafeJsonOutput<T> =
 export class PromptBuilder {
     private byokConfig?: BYOKProviderConfig;
     private byokFallbackConfig?: BYOKProviderConfig | null;
+    private byokRouting?: BYOKRoutingTable | null;
 
     constructor(private readonly runner: PromptRunnerService) {}
 
@@ -85,6 +88,16 @@ export class PromptBuilder {
         return this;
     }
 
+    /**
+     * Sets the per-task routing table, applied on top of the main BYOK config
+     * @param routing Routes by task, with decrypted API keys, or null to disable routing
+     * @returns The PromptBuilder instance for chaining.
+     */
+    setBYOKRouting(routing: BYOKRoutingTable | null): this {
+        this.byokRouting = routing;
+        return this;
+    }
+
     /**
      * Sets the main and optional fallback LLM providers.
      * @param config The configuration object containing the main and optional fallback providers.
@@ -115,6 +128,7 @@ export class PromptBuilder {
             params,
             this.byokConfig,
             this.byokFallbackConfig,
+            this.byokRouting,
         );
     }
 }
@@ -130,15 +144,18 @@ export class PromptBuilder {
 export class PromptBuilderWithProviders {
     private byokConfig?: BYOKProviderConfig;
     private byokFallbackConfig?: BYOKProviderConfig | null;
+    private byokRouting?: BYOKRoutingTable | null;
 
     constructor(
         private readonly runner: PromptRunnerService,
         private readonly params: Partial<PromptRunnerParams<void>> = {},
         byokConfig?: BYOKProviderConfig,
         byokFallbackConfig?: BYOKProviderConfig | null,
+        byokRouting?: BYOKRoutingTable | null,
     ) {
         this.byokConfig = byokConfig;
         this.byokFallbackConfig = byokFallbackConfig;
+        this.byokRouting = byokRouting;
     }
 
     /**
@@ -159,6 +176,15 @@ export class PromptBuilderWithProviders {
         return this;
     }
 
+    /**
+     * Sets the per-task routing table, applied on top of the main BYOK config
+     * @param routing Routes by task, with decrypted API keys, or null to disable routing
+     */
+    setBYOKRouting(routing: BYOKRoutingTable | null): this {
+        this.byokRouting = routing;
+        return this;
+    }
+
     /**
      * Sets a custom parser for the prompt execution.
      *
@@ -211,7 +237,12 @@ export class PromptBuilderWithProviders {
     ): ConfigurablePromptBuilderWithoutPayload<unknown, ParserType> {
         const newParams = {
             ...this.params,
-            byokConfig: this.byokConfig ? { main: this.byokConfig } : undefined,
+            byokConfig: this.byokConfig
+                ? {
+                      main: this.byokConfig,
+                      ...(this.byokRouting && { routing: this.byokRouting }),
+                  }
+                : undefined,
             byokFallbackConfig: this.byokFallbackConfig
                 ? { main: this.byokFallbackConfig }
                 : undefined,
@@ -349,7 +380,7 @@ export class ConfigurablePromptBuilder<
      * @returns The ConfigurablePromptBuilder instance for chaining
      */
     setBYOKConfig(config: BYOKProviderConfig): this {
-        this.params.byokConfig = { main: config };
+        this.params.byokConfig = { ...this.params.byokConfig, main: config };
         return this;
     }
 
@@ -2,6 +2,14 @@ import { Injectable } from '@nestjs/common';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { Callbacks } from '@langchain/core/callbacks/manager';
 import { getAdapter } from './providerAdapters/index';
+import {
+    BYOKRoutingTable,
+    BYOKTaskRoute,
+    estimateRouteCost,
+    getLLMTask,
+    LLMTask,
+    TaskTokenEstimate,
+} from './routing';
 
 export enum BYOKProvider {
     OPENAI = 'openai',
@@ -11,21 +19,42 @@ export enum BYOKProvider {
     OPENAI_COMPATIBLE = 'openai_compatible',
     OPEN_ROUTER = 'open_router',
     NOVITA = 'novita',
+    OLLAMA = 'ollama',
+    VLLM = 'vllm',
 }
 
+/** Default endpoint of a local Ollama server (OpenAI-compatible API). */
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
 export interface BYOKConfig {
     main: {
         provider: BYOKProvider;
         apiKey: string;
         model: string;
         baseURL?: string;
+        /** Overrides the provider's default context window, in tokens. */
+        contextWindow?: number;
     };
     fallback?: {
         provider: BYOKProvider;
         apiKey: string;
         model: string;
         baseURL?: string;
+        /** Overrides the provider's default context window, in tokens. */
+        contextWindow?: number;
     };
+    /** Per-task overrides of `main`, see `LLMTask`. */
+    routing?: BYOKRoutingTable;
+}
+
+export interface BYOKTaskResolution {
+    task?: LLMTask;
+    /** Route applied to the call, if any. */
+    route?: BYOKTaskRoute;
+    /** Why a configured route was not applied. */
+    skippedReason?: 'missing_api_key' | 'cost_ceiling';
+    estimatedCost?: number;
+    config: BYOKConfig;
 }
 
 @Injectable()
@@ -44,7 +73,7 @@ export class BYOKProviderService {
             reasoningLevel?: 'low' | 'medium' | 'high';
         },
     ): BaseChatModel {
-        const { provider, apiKey, model, baseURL } = config.main;
+        const { provider, apiKey, model, baseURL, contextWindow } = config.main;
         const adapter = getAdapter(provider);
 
         if (provider === BYOKProvider.OPENAI_COMPATIBLE && !baseURL) {
@@ -53,15 +82,15 @@ export class BYOKProviderService {
             );
         }
 
+        if (provider === BYOKProvider.VLLM && !baseURL) {
+            throw new Error('baseURL is required for vLLM provider');
+        }
+
         const modelInstance = adapter.build({
             model,
             apiKey,
-            baseURL:
-                provider === BYOKProvider.OPENAI_COMPATIBLE
-                    ? baseURL
-                    : provider === BYOKProvider.OPEN_ROUTER
-                      ? 'https://openrouter.ai/api/v1'
-                      : undefined,
+            baseURL: this.resolveBaseURL(provider, baseURL),
+            contextWindow,
             options: {
                 temperature: options?.temperature,
                 maxTokens: options?.maxTokens,
@@ -100,6 +129,88 @@ export class BYOKProviderService {
         return this.createBYOKProvider(fallbackConfig, options);
     }
 
+    /**
+     * Picks the provider/model configured for the task of `runName`. The
+     * routed model becomes `main` and the original `main` its fallback. The
+     * route is ignored (and `main` kept) when it has no usable API key or
+     * when the estimated cost of the call exceeds its ceiling.
+     *
+     * @param estimateTokens Only called for routes with a cost ceiling
+     */
+    resolveTaskConfig(
+        config: BYOKConfig,
+        runName: string | undefined,
+        estimateTokens?: () => TaskTokenEstimate,
+    ): BYOKTaskResolution {
+        const task = getLLMTask(runName);
+        const route = task ? config.routing?.[task] : undefined;
+
+        if (!route) {
+            return { task, config };
+        }
+
+        const apiKey =
+            route.apiKey ||
+            (route.provider === config.main?.provider
+                ? config.main.apiKey
+                : undefined);
+
+        if (!apiKey) {
+            return { task, config, skippedReason: 'missing_api_key' };
+        }
+
+        let estimatedCost: number | undefined;
+
+        if (route.maxCostPerRun !== undefined && estimateTokens) {
+            estimatedCost = estimateRouteCost(route, estimateTokens());
+
+            if (
+                estimatedCost !== undefined &&
+                estimatedCost > route.maxCostPerRun
+            ) {
+                return {
+                    task,
+                    config,
+                    skippedReason: 'cost_ceiling',
+                    estimatedCost,
+                };
+            }
+        }
+
+        return {
+            task,
+            route,
+            estimatedCost,
+            config: {
+                main: {
+                    provider: route.provider,
+                    apiKey,
+                    model: route.model,
+                    baseURL: route.baseURL,
+                    contextWindow: route.contextWindow,
+                },
+                fallback: config.main,
+            },
+        };
+    }
+
+    private resolveBaseURL(
+        provider: BYOKProvider,
+        baseURL?: string,
+    ): string | undefined {
+        switch (provider) {
+            case BYOKProvider.OPENAI_COMPATIBLE:
+            case BYOKProvider.VLLM:
+                return baseURL;
+            case BYOKProvider.OLLAMA:
+                return baseURL || OLLAMA_DEFAULT_BASE_URL;
+            case BYOKProvider.OPEN_ROUTER:
+                return 'https://openrouter.ai/api/v1';
+            default:
+                return undefined;
+        }
+    }
+
     /**
      * Validates if the provider configuration is complete
      */
@@ -133,6 +244,13 @@ export class BYOKProviderService {
             errors.push('baseURL is required for OpenAI Compatible provider');
         }
 
+        if (
+            providerConfig.provider === BYOKProvider.VLLM &&
+            !providerConfig.baseURL
+        ) {
+            errors.push('baseURL is required for vLLM provider');
+        }
+
         if (providerConfig.provider === BYOKProvider.GOOGLE_VERTEX) {
             if (!providerConfig.projectId) {
                 errors.push('projectId is required for Google Vertex AI');
@@ -168,6 +286,8 @@ export class BYOKProviderService {
             [BYOKProvider.OPENAI_COMPATIBLE]: 'OpenAI Compatible',
             [BYOKProvider.OPEN_ROUTER]: 'OpenRouter',
             [BYOKProvider.NOVITA]: 'Novita',
+            [BYOKProvider.OLLAMA]: 'Ollama',
+            [BYOKProvider.VLLM]: 'vLLM',
         };
 
         return displayNames[provider] || provider;
@@ -11,4 +11,5 @@ export * from './llmModelProvider.service';
 export * from './parser';
 export * from './promptRunner.service';
 export * from './providerAdapters/index';
+export * from './routing';
 export * from './utils/llm-error-normalizer';
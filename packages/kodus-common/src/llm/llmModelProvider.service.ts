@@ -3,7 +3,11 @@ import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { Runnable } from '@langchain/core/runnables';
 import { ChatOpenAI } from '@langchain/openai';
 import { Inject, Injectable, LoggerService } from '@nestjs/common';
-import { BYOKConfig, BYOKProviderService } from './byokProvider.service';
+import {
+    BYOKConfig,
+    BYOKProviderService,
+    BYOKTaskResolution,
+} from './byokProvider.service';
 import {
     FactoryArgs,
     LLMModelProvider,
@@ -11,6 +15,7 @@ import {
     getChatGPT,
 } from './helper';
 import { supportsJsonMode } from './providerAdapters';
+import { TaskTokenEstimate } from './routing';
 
 export type LLMProviderOptions = FactoryArgs & {
     model: LLMModelProvider | string;
@@ -48,7 +53,10 @@ export class LLMProviderService {
                 if (
                     options.jsonMode &&
                     byokProvider instanceof ChatOpenAI &&
-                    supportsJsonMode(options.byokConfig?.main?.model)
+                    supportsJsonMode(
+                        options.byokConfig.main.model,
+                        options.byokConfig.main.provider,
+                    )
                 ) {
                     return byokProvider.withConfig({
                         response_format: { type: 'json_object' },
@@ -186,6 +194,22 @@ export class LLMProviderService {
         }
     }
 
+    /**
+     * Applies the BYOK routing table to the task of `runName`, see
+     * `BYOKProviderService.resolveTaskConfig`.
+     */
+    resolveTaskBYOKConfig(
+        byokConfig: BYOKConfig,
+        runName: string | undefined,
+        estimateTokens?: () => TaskTokenEstimate,
+    ): BYOKTaskResolution {
+        return this.byokProviderService.resolveTaskConfig(
+            byokConfig,
+            runName,
+            estimateTokens,
+        );
+    }
+
     private isOpenAI(
         llm: BaseChatModel | Runnable,
         provider: string,
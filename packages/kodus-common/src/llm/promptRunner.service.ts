@@ -15,9 +15,18 @@ import {
 } from '@langchain/core/messages';
 import { BYOKConfig } from './byokProvider.service';
 import { LLMErrorNormalizer } from './utils/llm-error-normalizer';
+import { getProviderCapabilities } from './providerAdapters';
+import { getLLMTask } from './routing';
 
 export type PromptFn<Payload> = (input: Payload) => string;
 
+// Rough chars-per-token ratio used to check prompts against small context
+// windows before sending them; self-hosted servers truncate silently.
+const CHARS_PER_TOKEN = 4;
+
+const JSON_ONLY_INSTRUCTION =
+    'Respond only with a valid JSON object. Do not add any text, explanation or markdown code fences around it.';
+
 export enum PromptRole {
     SYSTEM = 'system',
     USER = 'user',
@@ -143,6 +152,8 @@ export class PromptRunnerService {
         try {
             this.validateParams(params);
 
+            params = this.applyTaskRouting(params);
+
             const { fallbackProvider, byokConfig, byokFallbackConfig } = params;
 
             const mainChain = this.createProviderChain<Payload, OutputType>(
@@ -319,7 +330,11 @@ export class PromptRunnerService {
                     throw new Error('No prompt content provided');
                 }
 
-                return result;
+                return this.applyProviderLimits(
+                    result,
+                    byokConfig,
+                    params.jsonMode,
+                );
             };
 
             const chain = RunnableSequence.from([promptFn, llm, parser]);
@@ -336,6 +351,154 @@ export class PromptRunnerService {
         }
     }
 
+    /**
+     * Tags the run with the task of `runName`, so usage can be grouped by
+     * task whether or not it is routed, and swaps the BYOK config for the
+     * one routed to that task, keeping the original main config as fallback.
+     */
+    private applyTaskRouting<Payload, OutputType>(
+        params: PromptRunnerParams<Payload, OutputType>,
+    ): PromptRunnerParams<Payload, OutputType> {
+        const task = getLLMTask(params.runName);
+
+        if (task) {
+            params = {
+                ...params,
+                metadata: {
+                    ...params.metadata,
+                    llmTask: task,
+                },
+            };
+        }
+
+        if (!params.byokConfig?.routing) {
+            return params;
+        }
+
+        const resolution = this.llmProvider.resolveTaskBYOKConfig(
+            params.byokConfig,
+            params.runName,
+            () => ({
+                inputTokens: this.estimatePromptTokens(params),
+                outputTokens: params.maxTokens,
+            }),
+        );
+
+        if (!resolution.route) {
+            if (resolution.skippedReason) {
+                this.logger.warn({
+                    message: `Task route for ${resolution.task} not applied: ${resolution.skippedReason}`,
+                    context: PromptRunnerService.name,
+                    metadata: {
+                        runName: params.runName,
+                        task: resolution.task,
+                        estimatedCost: resolution.estimatedCost,
+                    },
+                });
+            }
+
+            return params;
+        }
+
+        return {
+            ...params,
+            byokConfig: { main: resolution.config.main },
+            byokFallbackConfig: resolution.config.fallback
+                ? { main: resolution.config.fallback }
+                : params.byokFallbackConfig,
+        };
+    }
+
+    private estimatePromptTokens<Payload>(
+        params: PromptRunnerParams<Payload>,
+    ): number {
+        const chars = params.prompts.reduce((total, { prompt }) => {
+            let text: string;
+
+            if (typeof prompt === 'function') {
+                text = prompt(params.payload as Payload);
+            } else if (typeof prompt === 'string') {
+                text = prompt;
+            } else {
+                text = JSON.stringify(prompt?.content ?? '');
+            }
+
+            return total + (text?.length ?? 0);
+        }, 0);
+
+        return Math.ceil(chars / CHARS_PER_TOKEN);
+    }
+
+    /**
+     * Adapts the messages to the limits of the BYOK provider: asks for JSON
+     * in the prompt when the provider has no JSON mode, and fails early when
+     * the prompt does not fit in the provider's context window.
+     */
+    private applyProviderLimits(
+        messages: BaseMessageLike[],
+        byokConfig?: BYOKConfig,
+        jsonMode?: boolean,
+    ): BaseMessageLike[] {
+        if (!byokConfig?.main) {
+            return messages;
+        }
+
+        const { provider, contextWindow } = byokConfig.main;
+        const caps = getProviderCapabilities(provider, { contextWindow });
+
+        const result =
+            jsonMode && !caps.supportsJsonMode
+                ? this.addJsonOnlyInstruction(messages)
+                : messages;
+
+        if (!caps.contextWindow) {
+            return result;
+        }
+
+        const promptTokens = Math.ceil(
+            JSON.stringify(result).length / CHARS_PER_TOKEN,
+        );
+        const availableTokens =
+            caps.contextWindow - (caps.maxOutputTokens ?? 0);
+
+        if (promptTokens > availableTokens) {
+            throw new Error(
+                `Prompt of ~${promptTokens} tokens exceeds the ${caps.contextWindow} tokens context window of the ${provider} provider (${availableTokens} available for input)`,
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Adds the JSON-only instruction to the leading system prompt, so it is
+     * read before the user turns; a system prompt is created when missing.
+     */
+    private addJsonOnlyInstruction(
+        messages: BaseMessageLike[],
+    ): BaseMessageLike[] {
+        const instruction = { type: 'text', text: JSON_ONLY_INSTRUCTION };
+        const [first, ...rest] = messages;
+
+        if (
+            first &&
+            typeof first === 'object' &&
+            'role' in first &&
+            first.role === PromptRole.SYSTEM &&
+            Array.isArray(first.content)
+        ) {
+            return [
+                { ...first, content: [...first.content, instruction] },
+                ...rest,
+            ];
+        }
+
+        return [
+            { role: PromptRole.SYSTEM, content: [instruction] },
+            ...messages,
+        ];
+    }
+
     /**
      * Validates the parameters for running a prompt.
      *
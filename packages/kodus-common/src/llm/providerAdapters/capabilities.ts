@@ -1,5 +1,9 @@
 // model-capabilities.ts (runtime metadata + helpers)
-import type { ModelCapabilities, ReasoningConfig } from './modelTypes';
+import type {
+    ModelCapabilities,
+    ProviderCapabilities,
+    ReasoningConfig,
+} from './modelTypes';
 
 // Default numeric reasoning budget when not specified explicitly
 export const DEFAULT_REASONING_BUDGET = 3000;
@@ -228,11 +232,74 @@ export function getModelCapabilities(model: string): ModelCapabilities {
     };
 }
 
-export function supportsJsonMode(model: string | undefined | null): boolean {
+// Self-hosted backends: defaults match a stock install (Ollama's num_ctx,
+// a typical vLLM --max-model-len). Users override the window per BYOK config.
+export const PROVIDER_CAPABILITIES = new Map<string, ProviderCapabilities>([
+    [
+        'ollama',
+        {
+            contextWindow: 8192,
+            maxOutputTokens: 2048,
+            supportsJsonMode: false,
+            supportsToolCalling: false,
+        },
+    ],
+    [
+        'vllm',
+        {
+            contextWindow: 32768,
+            maxOutputTokens: 4096,
+            supportsJsonMode: false,
+            supportsToolCalling: false,
+        },
+    ],
+]);
+
+const DEFAULT_PROVIDER_CAPABILITIES: ProviderCapabilities = {
+    supportsJsonMode: true,
+    supportsToolCalling: true,
+};
+
+export function getProviderCapabilities(
+    provider: string | undefined | null,
+    overrides: { contextWindow?: number } = {},
+): ProviderCapabilities {
+    const caps =
+        (provider && PROVIDER_CAPABILITIES.get(provider)) ||
+        DEFAULT_PROVIDER_CAPABILITIES;
+
+    const contextWindow =
+        typeof overrides.contextWindow === 'number' &&
+        overrides.contextWindow > 0
+            ? overrides.contextWindow
+            : caps.contextWindow;
+
+    const maxOutputTokens =
+        caps.maxOutputTokens && contextWindow
+            ? Math.min(caps.maxOutputTokens, Math.floor(contextWindow / 2))
+            : caps.maxOutputTokens;
+
+    return { ...caps, contextWindow, maxOutputTokens };
+}
+
+export function supportsToolCalling(
+    provider: string | undefined | null,
+): boolean {
+    return getProviderCapabilities(provider).supportsToolCalling;
+}
+
+export function supportsJsonMode(
+    model: string | undefined | null,
+    provider?: string | null,
+): boolean {
     if (!model) {
         return false;
     }
 
+    if (provider && !getProviderCapabilities(provider).supportsJsonMode) {
+        return false;
+    }
+
     if (MODELS_WITHOUT_JSON_MODE.has(model)) {
         return false;
     }
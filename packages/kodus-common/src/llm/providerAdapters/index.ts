@@ -4,6 +4,8 @@ import { AnthropicAdapter } from './anthropicAdapter';
 import { GoogleGeminiAdapter } from './googleGeminiAdapter';
 import { VertexAdapter } from './vertexAdapter';
 import { NovitaAdapter } from './novitaAdapter';
+import { OllamaAdapter } from './ollamaAdapter';
+import { VllmAdapter } from './vllmAdapter';
 export {
     getModelCapabilities,
     supportsReasoning,
@@ -11,8 +13,14 @@ export {
     getReasoningType,
     supportsBudgetReasoning,
     supportsJsonMode,
+    supportsToolCalling,
+    getProviderCapabilities,
 } from './capabilities';
-export type { ReasoningConfig, ModelCapabilities } from './modelTypes';
+export type {
+    ReasoningConfig,
+    ModelCapabilities,
+    ProviderCapabilities,
+} from './modelTypes';
 
 export function getAdapter(providerId: string): ProviderAdapter {
     switch (providerId) {
@@ -29,6 +37,10 @@ export function getAdapter(providerId: string): ProviderAdapter {
             return new VertexAdapter();
         case 'novita':
             return new NovitaAdapter();
+        case 'ollama':
+            return new OllamaAdapter();
+        case 'vllm':
+            return new VllmAdapter();
         default:
             return new OpenAIAdapter();
     }
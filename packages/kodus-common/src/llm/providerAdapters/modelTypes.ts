@@ -16,3 +16,17 @@ export interface ModelCapabilities {
     reasoningConfig?: ReasoningConfig;
     defaultMaxTokens?: number;
 }
+
+/**
+ * Limits of a provider as a whole, used for self-hosted backends where the
+ * model name says little about what the server can handle.
+ */
+export interface ProviderCapabilities {
+    /** Total tokens (prompt + completion) the backend accepts by default. */
+    contextWindow?: number;
+    /** Upper bound for completion tokens. */
+    maxOutputTokens?: number;
+    /** Whether `response_format: json_object` is honored. */
+    supportsJsonMode: boolean;
+    supportsToolCalling: boolean;
+}
@@ -0,0 +1,9 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { buildSelfHostedChat } from './selfHostedAdapter';
+import { AdapterBuildParams, ProviderAdapter } from './types';
+
+export class OllamaAdapter implements ProviderAdapter {
+    build(params: AdapterBuildParams): ChatOpenAI {
+        return buildSelfHostedChat('ollama', params);
+    }
+}
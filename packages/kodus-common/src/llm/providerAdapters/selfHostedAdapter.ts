@@ -0,0 +1,54 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { resolveModelOptions } from './resolver';
+import { getProviderCapabilities } from './capabilities';
+import { AdapterBuildParams } from './types';
+
+/**
+ * Builds a ChatOpenAI client for self-hosted backends exposing the
+ * OpenAI-compatible API. Completion tokens are capped to what the backend
+ * can produce, and `response_format` is only sent when the provider honors it.
+ */
+export function buildSelfHostedChat(
+    providerId: string,
+    params: AdapterBuildParams,
+): ChatOpenAI {
+    const { model, apiKey, baseURL, contextWindow, options } = params;
+
+    if (!baseURL) {
+        throw new Error(`baseURL is required for ${providerId} provider`);
+    }
+
+    const caps = getProviderCapabilities(providerId, { contextWindow });
+    const resolved = resolveModelOptions(model, {
+        temperature: options?.temperature,
+        maxTokens: options?.maxTokens,
+    });
+
+    const requestedMaxTokens =
+        resolved.resolvedMaxTokens ?? caps.maxOutputTokens;
+    const maxTokens =
+        requestedMaxTokens && caps.maxOutputTokens
+            ? Math.min(requestedMaxTokens, caps.maxOutputTokens)
+            : requestedMaxTokens;
+
+    const payload: ConstructorParameters<typeof ChatOpenAI>[0] = {
+        model,
+        // Ollama ignores the key, but the OpenAI client refuses an empty one
+        apiKey: apiKey || providerId,
+        ...(resolved.temperature !== undefined
+            ? { temperature: resolved.temperature }
+            : {}),
+        ...(maxTokens ? { maxTokens } : {}),
+        ...(options?.jsonMode && caps.supportsJsonMode
+            ? {
+                  response_format: { type: 'json_object' as const },
+              }
+            : {}),
+        callbacks: options?.callbacks,
+        configuration: {
+            baseURL,
+        },
+    };
+
+    return new ChatOpenAI(payload);
+}
@@ -5,6 +5,8 @@ export interface AdapterBuildParams {
     model: string;
     apiKey: string;
     baseURL?: string;
+    /** Context window override for self-hosted models, in tokens. */
+    contextWindow?: number;
     options?: {
         temperature?: number;
         maxTokens?: number;
@@ -0,0 +1,82 @@
+import type { BYOKProvider } from './byokProvider.service';
+
+/**
+ * Review tasks that can be routed to a dedicated BYOK provider/model.
+ * Each task groups the run names (`setRunName`) of the prompts it covers.
+ */
+export enum LLMTask {
+    CODE_SUGGESTIONS = 'code_suggestions',
+    SAFEGUARD = 'safeguard',
+    SEVERITY_ANALYSIS = 'severity_analysis',
+    CLUSTERING = 'clustering',
+    CROSS_FILE_ANALYSIS = 'cross_file_analysis',
+    SUMMARY = 'summary',
+    KODY_RULES = 'kody_rules',
+}
+
+const LLM_TASK_BY_RUN_NAME: Record<string, LLMTask> = {
+    analyzeCodeWithAI: LLMTask.CODE_SUGGESTIONS,
+    analyzeCodeWithAI_v2: LLMTask.CODE_SUGGESTIONS,
+    generateCodeSuggestions: LLMTask.CODE_SUGGESTIONS,
+    analyzeASTWithAI: LLMTask.CODE_SUGGESTIONS,
+    filterSuggestionsSafeGuard: LLMTask.SAFEGUARD,
+    validateWithLLM: LLMTask.SAFEGUARD,
+    checkSuggestionSimplicity: LLMTask.SAFEGUARD,
+    severityAnalysis: LLMTask.SEVERITY_ANALYSIS,
+    repeatedCodeReviewSuggestionClustering: LLMTask.CLUSTERING,
+    crossFileAnalyzeCodeWithAI: LLMTask.CROSS_FILE_ANALYSIS,
+    generateSummaryPR: LLMTask.SUMMARY,
+    extractKodyRuleIdsFromContent: LLMTask.KODY_RULES,
+};
+
+/** Kody Rules prompts share the naming, e.g. `guardianKodyRulesAnalyzeCodeWithAI`. */
+const KODY_RULES_RUN_NAME = /kodyrules/i;
+
+export function getLLMTask(runName?: string | null): LLMTask | undefined {
+    if (!runName) {
+        return undefined;
+    }
+
+    return (
+        LLM_TASK_BY_RUN_NAME[runName] ??
+        (KODY_RULES_RUN_NAME.test(runName) ? LLMTask.KODY_RULES : undefined)
+    );
+}
+
+export interface BYOKTaskRoute {
+    provider: BYOKProvider;
+    model: string;
+    /** When omitted, the main key is reused if the provider is the same. */
+    apiKey?: string;
+    baseURL?: string;
+    contextWindow?: number;
+    /** Most a single call may cost, in USD. Only enforced with `pricing`. */
+    maxCostPerRun?: number;
+    /** Price of the routed model, in USD per million tokens. */
+    pricing?: {
+        input: number;
+        output: number;
+    };
+}
+
+export type BYOKRoutingTable = Partial<Record<LLMTask, BYOKTaskRoute>>;
+
+export interface TaskTokenEstimate {
+    inputTokens: number;
+    outputTokens?: number;
+}
+
+export function estimateRouteCost(
+    route: BYOKTaskRoute,
+    estimate: TaskTokenEstimate,
+): number | undefined {
+    if (!route.pricing) {
+        return undefined;
+    }
+
+    return (
+        (estimate.inputTokens * route.pricing.input +
+            (estimate.outputTokens ?? 0) * route.pricing.output) /
+        1_000_000
+    );
+}
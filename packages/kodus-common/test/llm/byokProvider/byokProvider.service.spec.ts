@@ -0,0 +1,100 @@
+import { BYOKConfig, BYOKProvider, BYOKProviderService, LLMTask } from '@/llm';
+
+describe('BYOKProviderService', () => {
+    const service = new BYOKProviderService();
+
+    const main: BYOKConfig['main'] = {
+        provider: BYOKProvider.OPENAI,
+        apiKey: 'main-key',
+        model: 'gpt-5',
+    };
+
+    describe('resolveTaskConfig', () => {
+        it('should route the task to its model and fall back to main', () => {
+            const config: BYOKConfig = {
+                main,
+                routing: {
+                    [LLMTask.CLUSTERING]: {
+                        provider: BYOKProvider.OPENAI,
+                        model: 'gpt-5-mini',
+                    },
+                },
+            };
+
+            const resolution = service.resolveTaskConfig(
+                config,
+                'repeatedCodeReviewSuggestionClustering',
+            );
+
+            expect(resolution.task).toBe(LLMTask.CLUSTERING);
+            expect(resolution.config.main).toMatchObject({
+                model: 'gpt-5-mini',
+                apiKey: 'main-key',
+            });
+            expect(resolution.config.fallback).toBe(main);
+        });
+
+        it('should keep main for tasks without a route', () => {
+            const config: BYOKConfig = { main, routing: {} };
+
+            const resolution = service.resolveTaskConfig(
+                config,
+                'guardianKodyRulesAnalyzeCodeWithAI',
+            );
+
+            expect(resolution.task).toBe(LLMTask.KODY_RULES);
+            expect(resolution.route).toBeUndefined();
+            expect(resolution.config).toBe(config);
+        });
+
+        it('should skip a route of another provider without its own key', () => {
+            const config: BYOKConfig = {
+                main,
+                routing: {
+                    [LLMTask.SUMMARY]: {
+                        provider: BYOKProvider.ANTHROPIC,
+                        model: 'claude-sonnet-4-5',
+                    },
+                },
+            };
+
+            const resolution = service.resolveTaskConfig(
+                config,
+                'generateSummaryPR',
+            );
+
+            expect(resolution.skippedReason).toBe('missing_api_key');
+            expect(resolution.config).toBe(config);
+        });
+
+        it('should skip the route when the estimated cost exceeds the ceiling', () => {
+            const config: BYOKConfig = {
+                main,
+                routing: {
+                    [LLMTask.CROSS_FILE_ANALYSIS]: {
+                        provider: BYOKProvider.OPENAI,
+                        model: 'gpt-5-pro',
+                        maxCostPerRun: 0.5,
+                        pricing: { input: 15, output: 120 },
+                    },
+                },
+            };
+
+            const estimateTokens = jest.fn(() => ({
+                inputTokens: 20_000,
+                outputTokens: 4_000,
+            }));
+
+            const resolution = service.resolveTaskConfig(
+                config,
+                'crossFileAnalyzeCodeWithAI',
+                estimateTokens,
+            );
+
+            expect(estimateTokens).toHaveBeenCalled();
+            expect(resolution.skippedReason).toBe('cost_ceiling');
+            expect(resolution.estimatedCost).toBeCloseTo(0.78);
+            expect(resolution.config.main).toBe(main);
+        });
+    });
+});
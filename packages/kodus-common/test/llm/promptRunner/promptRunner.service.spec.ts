@@ -1,9 +1,11 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 /* eslint-disable @typescript-eslint/unbound-method */
 import {
+    BYOKProvider,
     CustomStringOutputParser,
     LLMModelProvider,
     LLMProviderService,
+    LLMTask,
     PromptRole,
     PromptRunnerParams,
     PromptRunnerService,
@@ -118,6 +120,23 @@ describe('PromptRunnerService', () => {
         });
     });
 
+    describe('Task Metadata', () => {
+        it('should tag the run with its task even when no route applies', () => {
+            service.createChain({
+                provider: LLMModelProvider.OPENAI_GPT_4O,
+                parser: new CustomStringOutputParser(),
+                prompts: [{ role: PromptRole.USER, prompt: 'test' }],
+                runName: 'generateSummaryPR',
+            });
+
+            expect(mockChain.withConfig).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    metadata: { llmTask: LLMTask.SUMMARY },
+                }),
+            );
+        });
+    });
+
     describe('Parameter Validation', () => {
         it('should throw an error if provider is not defined', () => {
             const params = {
@@ -325,4 +344,92 @@ describe('PromptRunnerService', () => {
             expect(contents).toContain('Human message 4');
         });
     });
+
+    describe('Provider Limits', () => {
+        const getPromptFn = () => {
+            const mockCalls = (RunnableSequence.from as jest.Mock).mock.calls;
+            const latestCallArgs = mockCalls[mockCalls.length - 1];
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            return latestCallArgs[0][0] as () => BaseMessageLike[];
+        };
+
+        const buildParams = (
+            prompt: string,
+            contextWindow?: number,
+        ): PromptRunnerParams<void> => ({
+            provider: LLMModelProvider.OPENAI_GPT_4O,
+            parser: new CustomStringOutputParser(),
+            prompts: [{ role: PromptRole.USER, prompt }],
+            jsonMode: true,
+            byokConfig: {
+                main: {
+                    provider: BYOKProvider.OLLAMA,
+                    apiKey: 'ollama',
+                    model: 'llama3.1',
+                    contextWindow,
+                },
+            },
+        });
+
+        it('should ask for JSON in the prompt when the provider has no JSON mode', () => {
+            service.createProviderChain(buildParams('Review this code'));
+            const result = getPromptFn()();
+
+            expect(result).toHaveLength(2);
+            expect(result[0]).toMatchObject({ role: PromptRole.SYSTEM });
+            expect(result[1]).toMatchObject({ role: PromptRole.USER });
+        });
+
+        it('should merge the JSON instruction into the leading system prompt', () => {
+            service.createProviderChain({
+                ...buildParams('Review this code'),
+                prompts: [
+                    { role: PromptRole.SYSTEM, prompt: 'You are a reviewer' },
+                    { role: PromptRole.USER, prompt: 'Review this code' },
+                ],
+            });
+            const result = getPromptFn()();
+
+            expect(result).toHaveLength(2);
+            expect(result[0]).toMatchObject({
+                role: PromptRole.SYSTEM,
+                content: [
+                    { type: 'text', text: 'You are a reviewer' },
+                    { type: 'text', text: expect.stringContaining('JSON') },
+                ],
+            });
+            expect(result[1]).toMatchObject({ role: PromptRole.USER });
+        });
+
+        it('should fail early when the prompt exceeds the context window', () => {
+            service.createProviderChain(buildParams('x'.repeat(40000)));
+
+            expect(() => getPromptFn()()).toThrow(/context window/);
+        });
+
+        it('should respect the context window override', () => {
+            service.createProviderChain(buildParams('x'.repeat(40000), 128000));
+
+            expect(() => getPromptFn()()).not.toThrow();
+        });
+
+        it('should apply the limits of the fallback provider when falling back', () => {
+            const params: PromptRunnerParams<void> = {
+                ...buildParams('x'.repeat(40000), 128000),
+                byokFallbackConfig: {
+                    main: {
+                        provider: BYOKProvider.OLLAMA,
+                        apiKey: 'ollama',
+                        model: 'llama3.2',
+                    },
+                },
+            };
+
+            service.createProviderChain(params);
+            expect(() => getPromptFn()()).not.toThrow();
+
+            service.createProviderChain(params, true);
+            expect(() => getPromptFn()()).toThrow(/context window/);
+        });
+    });
 });
@@ -19,6 +19,7 @@ import { AUTH_INTEGRATION_SERVICE_TOKEN } from '@libs/integrations/domain/authIn
 import { MCPManagerService } from '@libs/mcp-server/services/mcp-manager.service';
 import { LLM_ANALYSIS_SERVICE_TOKEN } from '@libs/code-review/infrastructure/adapters/services/llmAnalysis.service';
 import { KODY_RULES_ANALYSIS_SERVICE_TOKEN } from '@libs/ee/codeBase/kodyRulesAnalysis.service';
+import { KODY_RULES_DETERMINISTIC_ANALYSIS_SERVICE_TOKEN } from '@libs/ee/codeBase/kodyRulesDeterministicAnalysis.service';
 import { WebhookContextService } from '@libs/platform/application/services/webhook-context.service';
 
 // --- MOCK DEFINITIONS ---
@@ -107,6 +108,9 @@ describe('Code Review Workflow Logic Integrity (No AST)', () => {
     const mockKodyRulesAnalysisService = {
         analyzeCodeWithAI: jest.fn(),
     };
+    const mockKodyRulesDeterministicAnalysisService = {
+        analyzeFile: jest.fn(),
+    };
 
     beforeAll(async () => {
         const module: TestingModule = await Test.createTestingModule({
@@ -168,6 +172,10 @@ describe('Code Review Workflow Logic Integrity (No AST)', () => {
                     provide: KODY_RULES_ANALYSIS_SERVICE_TOKEN,
                     useValue: mockKodyRulesAnalysisService,
                 },
+                {
+                    provide: KODY_RULES_DETERMINISTIC_ANALYSIS_SERVICE_TOKEN,
+                    useValue: mockKodyRulesDeterministicAnalysisService,
+                },
                 { provide: WebhookContextService, useValue: {} },
             ],
         }).compile();
@@ -283,6 +291,7 @@ describe('Code Review Workflow Logic Integrity (No AST)', () => {
         const orchestrator = new CodeAnalysisOrchestrator(
             mockLLMAnalysisService,
             mockKodyRulesAnalysisService,
+            mockKodyRulesDeterministicAnalysisService as any,
         );
 
         const mockFileContext = {
@@ -325,6 +334,7 @@ describe('Code Review Workflow Logic Integrity (No AST)', () => {
         const orchestrator = new CodeAnalysisOrchestrator(
             mockLLMAnalysisService,
             mockKodyRulesAnalysisService,
+            mockKodyRulesDeterministicAnalysisService as any,
         );
 
         const mockOrganizationAndTeamData = {
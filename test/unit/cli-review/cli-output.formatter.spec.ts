@@ -0,0 +1,209 @@
+import {
+    CliOutputFormat,
+    CliReviewIssue,
+    CliReviewResponse,
+} from '@/cli-review/domain/types/cli-review.types';
+import { CliOutputFormatter } from '@/cli-review/infrastructure/formatters/cli-output.formatter';
+import { FileChange } from '@/core/infrastructure/config/types/general/codeReview.type';
+
+describe('CliOutputFormatter', () => {
+    const formatter = new CliOutputFormatter();
+
+    const fileContent = [
+        'const a = 1;',
+        'const b = 2;',
+        'var c = a + b;',
+        'console.log(c);',
+        '',
+    ].join('\n');
+
+    const files = [
+        { filename: 'src/math.js', status: 'modified', fileContent },
+        { filename: 'src/clean.js', status: 'added', fileContent: 'x;\n' },
+    ] as FileChange[];
+
+    const fixableIssue: CliReviewIssue = {
+        file: 'src/math.js',
+        line: 3,
+        endLine: 3,
+        severity: 'error',
+        category: 'bug',
+        message: 'Use const instead of var',
+        suggestion: 'const c = a + b;',
+        fixable: true,
+        fix: { range: { start: 3, end: 3 }, replacement: 'const c = a + b;' },
+    };
+
+    const ruleIssue: CliReviewIssue = {
+        file: 'src/math.js',
+        line: 4,
+        severity: 'info',
+        message: 'Avoid <console> & "logs"',
+        ruleId: 'kody-rule-1',
+        fixable: false,
+    };
+
+    const response: CliReviewResponse = {
+        summary: 'Found 2 issues in 2 files',
+        issues: [fixableIssue, ruleIssue],
+        filesAnalyzed: 2,
+        duration: 1500,
+    };
+
+    it('should keep the json response without a rendered output', () => {
+        const result = formatter.format(response);
+
+        expect(result.format).toBe(CliOutputFormat.JSON);
+        expect(result.output).toBeUndefined();
+        expect(result.issues).toBe(response.issues);
+    });
+
+    it('should render SARIF 2.1.0 with rules, locations and fixes', () => {
+        const { output } = formatter.format(
+            response,
+            CliOutputFormat.SARIF,
+            files,
+        );
+        const [run] = JSON.parse(output).runs;
+
+        expect(JSON.parse(output).version).toBe('2.1.0');
+        expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual([
+            'kodus/bug',
+            'kody-rule-1',
+        ]);
+        expect(run.results[0]).toMatchObject({
+            ruleId: 'kodus/bug',
+            level: 'error',
+            locations: [
+                {
+                    physicalLocation: {
+                        artifactLocation: { uri: 'src/math.js' },
+                        region: { startLine: 3, endLine: 3 },
+                    },
+                },
+            ],
+        });
+        expect(
+            run.results[0].fixes[0].artifactChanges[0].replacements[0],
+        ).toEqual({
+            deletedRegion: {
+                startLine: 3,
+                startColumn: 1,
+                endLine: 4,
+                endColumn: 1,
+            },
+            insertedContent: { text: 'const c = a + b;\n' },
+        });
+        expect(run.results[1].level).toBe('note');
+        expect(run.results[1].fixes).toBeUndefined();
+    });
+
+    it('should render one unified diff with the fixable issues', () => {
+        const { output } = formatter.format(
+            response,
+            CliOutputFormat.PATCH,
+            files,
+        );
+
+        expect(output).toBe(
+            [
+                'diff --git a/src/math.js b/src/math.js',
+                '--- a/src/math.js',
+                '+++ b/src/math.js',
+                '@@ -1,4 +1,4 @@',
+                ' const a = 1;',
+                ' const b = 2;',
+                '-var c = a + b;',
+                '+const c = a + b;',
+                ' console.log(c);',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('should only build patch hunks from lines known in the diff in fast mode', () => {
+        const patch = [
+            'diff --git a/app.js b/app.js',
+            '--- a/app.js',
+            '+++ b/app.js',
+            '@@ -10,2 +10,3 @@',
+            ' start();',
+            '+var x = 1;',
+            ' stop();',
+        ].join('\n');
+
+        const { output } = formatter.format(
+            {
+                ...response,
+                issues: [
+                    {
+                        ...fixableIssue,
+                        file: 'app.js',
+                        fix: {
+                            range: { start: 11, end: 11 },
+                            replacement: 'let x = 1;\nx++;',
+                        },
+                    },
+                    {
+                        ...fixableIssue,
+                        file: 'app.js',
+                        fix: {
+                            range: { start: 40, end: 40 },
+                            replacement: 'unknown();',
+                        },
+                    },
+                ],
+            },
+            CliOutputFormat.PATCH,
+            [{ filename: 'app.js', status: 'modified', patch } as FileChange],
+        );
+
+        expect(output).toBe(
+            [
+                'diff --git a/app.js b/app.js',
+                '--- a/app.js',
+                '+++ b/app.js',
+                '@@ -10,3 +10,4 @@',
+                ' start();',
+                '-var x = 1;',
+                '+let x = 1;',
+                '+x++;',
+                ' stop();',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('should render escaped checkstyle XML grouped by file', () => {
+        const { output } = formatter.format(
+            response,
+            CliOutputFormat.CHECKSTYLE,
+        );
+
+        expect(output).toContain('<file name="src/math.js">');
+        expect(output).toContain(
+            '<error line="3" severity="error" message="Use const instead of var" source="kodus/bug"/>',
+        );
+        expect(output).toContain(
+            'message="Avoid &lt;console&gt; &amp; &quot;logs&quot;" source="kody-rule-1"',
+        );
+    });
+
+    it('should render JUnit XML with a passing case for clean files', () => {
+        const { output } = formatter.format(
+            response,
+            CliOutputFormat.JUNIT,
+            files,
+        );
+
+        expect(output).toContain(
+            '<testsuites name="Kodus Review" tests="3" failures="2" time="1.500">',
+        );
+        expect(output).toContain(
+            '<testsuite name="src/math.js" tests="2" failures="2">',
+        );
+        expect(output).toContain(
+            '<testcase name="review" classname="src/clean.js"/>',
+        );
+    });
+});
@@ -0,0 +1,155 @@
+import { ICliReviewBaselineRepository } from '@/cli-review/domain/contracts/cli-review-baseline.repository.contract';
+import { CliReviewBaselineEntity } from '@/cli-review/domain/entities/cli-review-baseline.entity';
+import { ICliReviewBaseline } from '@/cli-review/domain/interfaces/cli-review-baseline.interface';
+import { CliReviewIssue } from '@/cli-review/domain/types/cli-review.types';
+import { CliReviewBaselineService } from '@/cli-review/infrastructure/services/cli-review-baseline.service';
+import { FileChange } from '@/core/infrastructure/config/types/general/codeReview.type';
+
+describe('CliReviewBaselineService', () => {
+    let stored: ICliReviewBaseline | null;
+    let service: CliReviewBaselineService;
+
+    const repository: ICliReviewBaselineRepository = {
+        findByKey: jest.fn(async () =>
+            stored ? CliReviewBaselineEntity.create(stored) : null,
+        ),
+        upsert: jest.fn(async (key, data) => {
+            stored = { ...stored, ...key, ...data } as ICliReviewBaseline;
+            return CliReviewBaselineEntity.create(stored);
+        }),
+    };
+
+    const request = {
+        organizationId: 'org',
+        teamId: 'team',
+        repository: 'git@github.com:Kodus/App.git',
+        branch: 'feature/x',
+        baseCommit: 'base-1',
+    };
+
+    const buildFile = (fileContent: string) =>
+        ({
+            filename: 'src/app.ts',
+            status: 'modified',
+            fileContent,
+        }) as FileChange;
+
+    const buildIssue = (line: number, category: string): CliReviewIssue => ({
+        file: 'src/app.ts',
+        line,
+        endLine: line,
+        severity: 'warning',
+        category,
+        message: `${category} issue`,
+    });
+
+    beforeEach(() => {
+        stored = null;
+        jest.clearAllMocks();
+        service = new CliReviewBaselineService(repository);
+    });
+
+    it('should report every issue as new on the first run and store the baseline', async () => {
+        const result = await service.compareWithBaseline(
+            request,
+            [buildIssue(1, 'bug')],
+            [buildFile('eval(input);\nlet a = 1;\n')],
+        );
+
+        expect(result.newIssues).toHaveLength(1);
+        expect(result.newIssues[0].fingerprint).toMatch(/^[0-9a-f]{16}$/);
+        expect(result.incremental).toMatchObject({
+            isFirstRun: true,
+            openIssues: [],
+            fixedIssues: [],
+        });
+        expect(repository.upsert).toHaveBeenCalledWith(
+            {
+                organizationId: 'org',
+                teamId: 'team',
+                repository: 'github.com/kodus/app',
+                branch: 'feature/x',
+            },
+            expect.objectContaining({ baseCommit: 'base-1' }),
+        );
+    });
+
+    it('should split new, still open and fixed issues on later runs', async () => {
+        await service.compareWithBaseline(
+            request,
+            [
+                buildIssue(1, 'bug'),
+                buildIssue(2, 'style'),
+                buildIssue(3, 'performance'),
+            ],
+            [buildFile('eval(input);\nvar a = 1;\nfor (;;) {}\n')],
+        );
+
+        // Two lines added on top: the bug moved, the style issue was not
+        // reported again but its code is still there, the loop was removed
+        const result = await service.compareWithBaseline(
+            request,
+            [buildIssue(3, 'bug'), buildIssue(1, 'security')],
+            [buildFile('exec(cmd);\n// note\neval(input);\nvar  a = 1;\n')],
+        );
+
+        expect(result.newIssues.map((issue) => issue.category)).toEqual([
+            'security',
+        ]);
+        expect(
+            result.incremental.openIssues.map((issue) => issue.category),
+        ).toEqual(['bug', 'style']);
+        expect(
+            result.incremental.fixedIssues.map((issue) => issue.category),
+        ).toEqual(['performance']);
+        expect(stored.issues.map((issue) => issue.category)).toEqual([
+            'bug',
+            'style',
+            'security',
+        ]);
+    });
+
+    it('should keep the issues of files that were not analyzed again', async () => {
+        await service.compareWithBaseline(
+            request,
+            [buildIssue(1, 'bug'), { ...buildIssue(1, 'style'), file: 'b.ts' }],
+            [
+                buildFile('eval(input);\n'),
+                { ...buildFile('var a = 1;\n'), filename: 'b.ts' },
+            ],
+        );
+
+        const result = await service.compareWithBaseline(
+            request,
+            [],
+            [buildFile('let input = 1;\n')],
+        );
+
+        expect(
+            result.incremental.openIssues.map((issue) => issue.file),
+        ).toEqual(['b.ts']);
+        expect(
+            result.incremental.fixedIssues.map((issue) => issue.file),
+        ).toEqual(['src/app.ts']);
+        expect(stored.issues.map((issue) => issue.file)).toEqual(['b.ts']);
+    });
+
+    it('should reset the baseline when the base commit changes', async () => {
+        const files = [buildFile('eval(input);\n')];
+
+        await service.compareWithBaseline(
+            request,
+            [buildIssue(1, 'bug')],
+            files,
+        );
+
+        const result = await service.compareWithBaseline(
+            { ...request, baseCommit: 'base-2' },
+            [buildIssue(1, 'bug')],
+            files,
+        );
+
+        expect(result.incremental.isFirstRun).toBe(true);
+        expect(result.newIssues).toHaveLength(1);
+    });
+});
@@ -58,6 +58,7 @@ describe('ProcessFilesReview', () => {
     const mockCodeAnalysisOrchestrator = {
         executeStandardAnalysis: jest.fn(),
         executeKodyRulesAnalysis: jest.fn(),
+        executeDeterministicKodyRulesAnalysis: jest.fn(),
     };
 
     const mockOrganizationAndTeamData = {
@@ -0,0 +1,275 @@
+import { createPatch } from 'diff';
+
+import {
+    ApiContractType,
+    BreakingChangeKind,
+} from '@/code-review/domain/contracts/BreakingChangeAnalysisService.contract';
+import { BreakingChangeAnalysisService } from '@/code-review/infrastructure/adapters/services/breaking-changes/breaking-change-analysis.service';
+import { SeverityLevel } from '@/common/utils/enums/severityLevel.enum';
+import { FileChange } from '@/core/infrastructure/config/types/general/codeReview.type';
+
+describe('BreakingChangeAnalysisService', () => {
+    const service = new BreakingChangeAnalysisService();
+
+    const buildFile = (
+        filename: string,
+        previous: string,
+        current: string,
+        status: FileChange['status'] = 'modified',
+    ): FileChange =>
+        ({
+            filename,
+            status,
+            patch: createPatch(filename, previous, current),
+            fileContent: status === 'removed' ? undefined : current,
+        }) as FileChange;
+
+    const summarize = (changes: { kind: string; symbol: string }[]) =>
+        changes.map((change) => [change.kind, change.symbol]);
+
+    it('should classify OpenAPI endpoint, parameter and schema changes', async () => {
+        const previous = [
+            'openapi: 3.0.0',
+            'paths:',
+            '  /users:',
+            '    get:',
+            '      parameters:',
+            '        - name: limit',
+            '          in: query',
+            '          schema:',
+            '            type: integer',
+            '      responses:',
+            "        '200':",
+            '          description: ok',
+            '    delete:',
+            '      responses:',
+            "        '204':",
+            '          description: gone',
+            'components:',
+            '  schemas:',
+            '    User:',
+            '      type: object',
+            '      properties:',
+            '        email:',
+            '          type: string',
+            '        status:',
+            '          type: string',
+            '          enum: [active, blocked]',
+        ].join('\n');
+
+        const current = [
+            'openapi: 3.0.0',
+            'paths:',
+            '  /users:',
+            '    get:',
+            '      parameters:',
+            '        - name: limit',
+            '          in: query',
+            '          schema:',
+            '            type: integer',
+            '        - name: tenant',
+            '          in: query',
+            '          required: true',
+            '          schema:',
+            '            type: string',
+            '      responses:',
+            "        '200':",
+            '          description: ok',
+            'components:',
+            '  schemas:',
+            '    User:',
+            '      type: object',
+            '      properties:',
+            '        status:',
+            '          type: string',
+            '          enum: [active, suspended]',
+        ].join('\n');
+
+        const changes = await service.analyzeBreakingChanges(
+            buildFile('api/openapi.yaml', previous, current),
+        );
+
+        expect(summarize(changes)).toEqual(
+            expect.arrayContaining([
+                [BreakingChangeKind.REMOVED_ENDPOINT, 'DELETE /users'],
+                [
+                    BreakingChangeKind.NEW_REQUIRED_PARAMETER,
+                    'GET /users (query tenant)',
+                ],
+                [BreakingChangeKind.REMOVED_FIELD, 'User.email'],
+                [
+                    BreakingChangeKind.RENAMED_ENUM_MEMBER,
+                    'User.status = "blocked"',
+                ],
+            ]),
+        );
+        expect(changes).toHaveLength(4);
+        expect(changes[0]).toEqual(
+            expect.objectContaining({
+                contractType: ApiContractType.OPENAPI,
+            }),
+        );
+        expect(
+            changes.find(
+                (change) => change.kind === BreakingChangeKind.REMOVED_ENDPOINT,
+            ).severity,
+        ).toBe(SeverityLevel.CRITICAL);
+    });
+
+    it('should respect input and output directions in GraphQL schemas', async () => {
+        const previous = [
+            'type Query {',
+            '  user(id: ID!): User',
+            '}',
+            '',
+            'type User {',
+            '  id: ID!',
+            '  name: String!',
+            '  nickname: String',
+            '}',
+            '',
+            'input UserFilter {',
+            '  name: String!',
+            '}',
+        ].join('\n');
+
+        const current = [
+            'type Query {',
+            '  user(id: ID!, locale: String!): User',
+            '}',
+            '',
+            'type User {',
+            '  id: ID!',
+            '  name: String',
+            '  nickname: String!',
+            '}',
+            '',
+            'input UserFilter {',
+            '  name: String',
+            '}',
+        ].join('\n');
+
+        const changes = await service.analyzeBreakingChanges(
+            buildFile('schema.graphql', previous, current),
+        );
+
+        // Non-null output and optional input are safe
+        expect(summarize(changes)).toEqual([
+            [BreakingChangeKind.NEW_REQUIRED_PARAMETER, 'Query.user(locale)'],
+            [BreakingChangeKind.WIDENED_TYPE, 'User.name'],
+        ]);
+        expect(changes.map((change) => change.line)).toEqual([2, 7]);
+    });
+
+    it('should detect protobuf field number changes and renamed enum values', async () => {
+        const previous = [
+            'syntax = "proto3";',
+            '',
+            'service Users {',
+            '  rpc Get (GetRequest) returns (User);',
+            '}',
+            '',
+            'message User {',
+            '  string id = 1;',
+            '  Status status = 2;',
+            '  enum Status {',
+            '    ACTIVE = 0;',
+            '    BLOCKED = 1;',
+            '  }',
+            '}',
+        ].join('\n');
+
+        const current = [
+            'syntax = "proto3";',
+            '',
+            'service Users {',
+            '  rpc Get (GetRequest) returns (stream User);',
+            '}',
+            '',
+            'message User {',
+            '  string id = 3;',
+            '  Status status = 2;',
+            '  enum Status {',
+            '    ACTIVE = 0;',
+            '    SUSPENDED = 1;',
+            '  }',
+            '}',
+        ].join('\n');
+
+        const changes = await service.analyzeBreakingChanges(
+            buildFile('proto/users.proto', previous, current),
+        );
+
+        expect(summarize(changes)).toEqual([
+            [BreakingChangeKind.NARROWED_TYPE, 'Users.Get'],
+            [BreakingChangeKind.CHANGED_VALUE, 'User.id'],
+            [BreakingChangeKind.RENAMED_ENUM_MEMBER, 'User.Status.BLOCKED'],
+        ]);
+    });
+
+    it('should compare exported TypeScript declarations of entry points', async () => {
+        const previous = [
+            "export { legacy } from './legacy';",
+            '',
+            'export interface Options {',
+            '    retries?: number;',
+            '}',
+            '',
+            'export function connect(url: string): Client {',
+            '    return new Client(url);',
+            '}',
+            '',
+            "export type Mode = 'fast' | 'safe';",
+        ].join('\n');
+
+        const current = [
+            'export interface Options {',
+            '    retries?: number;',
+            '    timeout: number;',
+            '}',
+            '',
+            'export function connect(url: string, token: string): Client {',
+            '    return new Client(url, token);',
+            '}',
+            '',
+            "export type Mode = 'fast';",
+        ].join('\n');
+
+        const changes = await service.analyzeBreakingChanges(
+            buildFile('src/index.ts', previous, current),
+        );
+
+        expect(summarize(changes)).toEqual([
+            [BreakingChangeKind.REMOVED_TYPE, 'legacy'],
+            [BreakingChangeKind.NEW_REQUIRED_PARAMETER, 'Options.timeout'],
+            [BreakingChangeKind.NEW_REQUIRED_PARAMETER, 'connect(token)'],
+            [BreakingChangeKind.NARROWED_TYPE, 'Mode'],
+        ]);
+    });
+
+    it('should summarize a deleted contract and skip files that are not contracts', async () => {
+        const proto = 'message Ping {\n  string id = 1;\n}\n';
+
+        const [removed] = await service.analyzeBreakingChanges(
+            buildFile('ping.proto', proto, '', 'removed'),
+        );
+
+        expect(removed).toEqual(
+            expect.objectContaining({
+                kind: BreakingChangeKind.REMOVED_TYPE,
+                description: 'The contract was deleted, removing `Ping`.',
+            }),
+        );
+        expect(removed.line).toBeUndefined();
+
+        await expect(
+            service.analyzeBreakingChanges(
+                buildFile(
+                    'src/users.service.ts',
+                    'export const a = 1;',
+                    'const a = 1;',
+                ),
+            ),
+        ).resolves.toEqual([]);
+    });
+});
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+    ILinterRunner,
+    LINTER_RUNNERS_TOKEN,
+} from '@/code-review/domain/contracts/LintingService.contract';
+import { LintingService } from '@/code-review/infrastructure/adapters/services/linting/linting.service';
+import { EslintLinterRunner } from '@/code-review/infrastructure/adapters/services/linting/eslint.runner';
+import { TypeScriptDiagnosticsRunner } from '@/code-review/infrastructure/adapters/services/linting/typescript-diagnostics.runner';
+import { SeverityLevel } from '@/common/utils/enums/severityLevel.enum';
+import { FileChange } from '@/core/infrastructure/config/types/general/codeReview.type';
+
+describe('LintingService', () => {
+    let service: LintingService;
+
+    const buildFile = (filename: string, fileContent: string): FileChange =>
+        ({ filename, fileContent, status: 'modified' }) as FileChange;
+
+    const createService = async (runners: ILinterRunner[]) => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                LintingService,
+                { provide: LINTER_RUNNERS_TOKEN, useValue: runners },
+            ],
+        }).compile();
+
+        return module.get<LintingService>(LintingService);
+    };
+
+    beforeEach(async () => {
+        service = await createService([
+            new EslintLinterRunner(),
+            new TypeScriptDiagnosticsRunner(),
+        ]);
+    });
+
+    it('should report bundled ESLint rules with their lines', async () => {
+        const content = [
+            'export function check(value: number) {',
+            '    if (value === NaN) {',
+            '        debugger;',
+            '    }',
+            '    return value;',
+            '}',
+        ].join('\n');
+
+        const findings = await service.lintCode(buildFile('src/a.ts', content));
+
+        const rules = findings.map((f) => [f.source, f.ruleId, f.line]);
+        expect(rules).toEqual(
+            expect.arrayContaining([
+                ['eslint', 'use-isnan', 2],
+                ['eslint', 'no-debugger', 3],
+            ]),
+        );
+        expect(findings.find((f) => f.ruleId === 'no-debugger')).toMatchObject({
+            severity: SeverityLevel.MEDIUM,
+            existingCode: '        debugger;',
+        });
+    });
+
+    it('should include the autofixed code when the rule is fixable', async () => {
+        const content = "const a = 1;\nif (typeof a == 'number') {}\n";
+
+        const findings = await service.lintCode(buildFile('a.js', content));
+        const eqeqeq = findings.find((f) => f.ruleId === 'eqeqeq');
+
+        expect(eqeqeq).toMatchObject({
+            severity: SeverityLevel.LOW,
+            line: 2,
+            existingCode: "if (typeof a == 'number') {}",
+            fixedCode: "if (typeof a === 'number') {}",
+        });
+    });
+
+    it('should report syntax errors through the tsc runner only', async () => {
+        const content = 'const ok = 1;\nconst broken = ;\n';
+
+        const findings = await service.lintCode(buildFile('b.ts', content));
+
+        expect(findings).toHaveLength(1);
+        expect(findings[0]).toMatchObject({
+            source: 'tsc',
+            ruleId: 'TS1109',
+            line: 2,
+            severity: SeverityLevel.HIGH,
+        });
+    });
+
+    it('should skip files no runner supports or without content', async () => {
+        await expect(
+            service.lintCode(buildFile('README.md', '# title')),
+        ).resolves.toEqual([]);
+        await expect(
+            service.lintCode(buildFile('c.ts', undefined)),
+        ).resolves.toEqual([]);
+    });
+
+    it('should keep results from other runners when one fails', async () => {
+        const failing: ILinterRunner = {
+            name: 'broken',
+            supports: () => true,
+            run: jest.fn().mockRejectedValue(new Error('boom')),
+        };
+
+        service = await createService([failing, new EslintLinterRunner()]);
+
+        const findings = await service.lintCode(
+            buildFile('d.js', 'debugger;\n'),
+        );
+
+        expect(findings.map((f) => f.ruleId)).toEqual(['no-debugger']);
+    });
+});
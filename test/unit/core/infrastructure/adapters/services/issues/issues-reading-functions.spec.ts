@@ -1,3 +1,4 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Test, TestingModule } from '@nestjs/testing';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -40,6 +41,10 @@ describe('IssuesService', () => {
                     provide: ISSUES_REPOSITORY_TOKEN,
                     useValue: mockIssuesRepository,
                 },
+                {
+                    provide: EventEmitter2,
+                    useValue: { emit: jest.fn() },
+                },
             ],
         }).compile();
 
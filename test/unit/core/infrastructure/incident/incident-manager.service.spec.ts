@@ -0,0 +1,110 @@
+import { ConfigService } from '@nestjs/config';
+
+import { BetterStackClient } from '@/core/infrastructure/incident/betterstack.client';
+import { IncidentManagerService } from '@/core/infrastructure/incident/incident-manager.service';
+import { IncidentSink } from '@/core/infrastructure/incident/interfaces/incident-sink.interface';
+
+describe('IncidentManagerService', () => {
+    const buildSink = (name: string, enabled = true) =>
+        ({
+            name,
+            isEnabled: jest.fn().mockReturnValue(enabled),
+            send: jest.fn().mockResolvedValue(undefined),
+        }) as jest.Mocked<IncidentSink>;
+
+    const buildService = (
+        sinks: IncidentSink[],
+        config: Record<string, string> = {},
+    ) =>
+        new IncidentManagerService(
+            {} as BetterStackClient,
+            { get: (key: string) => config[key] } as unknown as ConfigService,
+            sinks,
+        );
+
+    const incident = {
+        key: 'webhook-failure-rate',
+        title: 'Webhook processing is failing',
+        description: 'Failure rate is 40%',
+        component: 'webhooks',
+    };
+
+    let service: IncidentManagerService;
+
+    afterEach(() => {
+        service?.onModuleDestroy();
+        jest.useRealTimers();
+    });
+
+    it('should route incidents by minimum severity and component', async () => {
+        const pagerDuty = buildSink('pagerduty');
+        const slack = buildSink('slack');
+        const email = buildSink('email');
+        const opsgenie = buildSink('opsgenie', false);
+
+        service = buildService([pagerDuty, slack, email, opsgenie], {
+            API_INCIDENT_PAGERDUTY_MIN_SEVERITY: 'critical',
+            API_INCIDENT_EMAIL_COMPONENTS: 'code-review, API',
+        });
+
+        await service.reportMajor(incident);
+
+        expect(pagerDuty.send).not.toHaveBeenCalled();
+        expect(slack.send).toHaveBeenCalledWith({
+            ...incident,
+            severity: 'major',
+        });
+        expect(email.send).not.toHaveBeenCalled();
+        expect(opsgenie.send).not.toHaveBeenCalled();
+
+        await service.reportCritical({ ...incident, component: 'api' });
+
+        expect(pagerDuty.send).toHaveBeenCalledTimes(1);
+        expect(email.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply the deduplication window per sink', async () => {
+        jest.useFakeTimers();
+
+        const slack = buildSink('slack');
+        const webhook = buildSink('webhook');
+        webhook.send.mockRejectedValueOnce(new Error('connection refused'));
+
+        service = buildService([slack, webhook], {
+            API_INCIDENT_WEBHOOK_MIN_SEVERITY: 'critical',
+        });
+
+        await service.reportMajor(incident);
+        await service.reportCritical(incident);
+        await service.reportMajor(incident);
+
+        // Escalations are not swallowed by the window of a lower severity
+        expect(slack.send).toHaveBeenCalledTimes(2);
+        expect(webhook.send).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(5 * 60 * 1000);
+
+        await service.reportCritical(incident);
+
+        expect(slack.send).toHaveBeenCalledTimes(3);
+        expect(webhook.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report again to a sink whose last send failed', async () => {
+        const slack = buildSink('slack');
+        const webhook = buildSink('webhook');
+        webhook.send.mockRejectedValueOnce(new Error('connection refused'));
+
+        service = buildService([slack, webhook]);
+
+        await service.reportMajor(incident);
+        await service.reportMajor(incident);
+
+        expect(slack.send).toHaveBeenCalledTimes(1);
+        expect(webhook.send).toHaveBeenCalledTimes(2);
+
+        await service.reportMajor(incident);
+
+        expect(webhook.send).toHaveBeenCalledTimes(2);
+    });
+});
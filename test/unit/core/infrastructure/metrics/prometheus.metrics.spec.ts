@@ -0,0 +1,52 @@
+import {
+    registerCollector,
+    renderMetrics,
+    resolveLLMProvider,
+    webhooksReceived,
+    workflowJobs,
+} from '@/core/infrastructure/metrics/prometheus/prometheus.metrics';
+import { isMetricsRequestAuthorized } from '@/core/infrastructure/metrics/prometheus/prometheus.server';
+
+describe('Prometheus metrics', () => {
+    it('should refresh the gauges before rendering, even when a collector fails', async () => {
+        registerCollector(() => {
+            throw new Error('broker unavailable');
+        });
+        registerCollector(() => {
+            workflowJobs.set({ status: 'PENDING', workflow_type: 'review' }, 3);
+        });
+
+        webhooksReceived.inc({ platform: 'GITHUB' });
+
+        const metrics = await renderMetrics();
+
+        expect(metrics).toContain(
+            'kodus_workflow_jobs{status="PENDING",workflow_type="review"} 3',
+        );
+        expect(metrics).toContain(
+            'kodus_webhooks_received_total{platform="GITHUB"} 1',
+        );
+        expect(metrics).toContain('process_resident_memory_bytes');
+    });
+
+    it('should resolve providers of known and BYOK models', () => {
+        expect(resolveLLMProvider('gpt-4o-mini')).toBe('openai');
+        expect(resolveLLMProvider('anthropic/claude-sonnet-4')).toBe(
+            'anthropic',
+        );
+        expect(resolveLLMProvider('my-local-model')).toBe('unknown');
+        expect(resolveLLMProvider(undefined)).toBe('unknown');
+    });
+
+    it('should refuse every scrape while no bearer token is configured', () => {
+        expect(isMetricsRequestAuthorized(undefined, undefined)).toBe(false);
+        expect(isMetricsRequestAuthorized('Bearer ', '')).toBe(false);
+        expect(isMetricsRequestAuthorized('Bearer secret', 'secret')).toBe(
+            true,
+        );
+        expect(isMetricsRequestAuthorized('Bearer other', 'secret')).toBe(
+            false,
+        );
+        expect(isMetricsRequestAuthorized(undefined, 'secret')).toBe(false);
+    });
+});
@@ -0,0 +1,147 @@
+import {
+    DryRunStatus,
+    IDryRunBenchmarkPr,
+} from '@libs/dryRun/domain/interfaces/dryRun.interface';
+import {
+    evaluateBenchmarkPr,
+    summarizeBenchmark,
+} from '@libs/dryRun/infrastructure/utils/dryRunBenchmark.utils';
+import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
+import { ImplementationStatus } from '@libs/platformData/domain/pullRequests/enums/implementationStatus.enum';
+import { PriorityStatus } from '@libs/platformData/domain/pullRequests/enums/priorityStatus.enum';
+import { ISuggestion } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
+
+const suggestion = (
+    id: string,
+    overrides: Partial<ISuggestion> = {},
+): Partial<ISuggestion> => ({
+    id,
+    relevantFile: 'src/index.ts',
+    relevantLinesStart: 10,
+    relevantLinesEnd: 12,
+    label: 'bug',
+    severity: 'high',
+    priorityStatus: PriorityStatus.PRIORITIZED,
+    deliveryStatus: DeliveryStatus.SENT,
+    ...overrides,
+});
+
+describe('dryRunBenchmark.utils', () => {
+    describe('evaluateBenchmarkPr', () => {
+        it('should count suggestions by label, severity and discard reason', () => {
+            const metrics = evaluateBenchmarkPr({
+                dryRunSuggestions: [
+                    suggestion('1'),
+                    suggestion('2', { label: 'security', severity: 'low' }),
+                    suggestion('3', {
+                        priorityStatus: PriorityStatus.DISCARDED_BY_SAFEGUARD,
+                    }),
+                    suggestion('4', {
+                        priorityStatus: PriorityStatus.DISCARDED_BY_SEVERITY,
+                    }),
+                ],
+                historicalSuggestions: [],
+            });
+
+            expect(metrics.generated).toBe(4);
+            expect(metrics.suggestions).toBe(2);
+            expect(metrics.byLabel).toEqual({ bug: 1, security: 1 });
+            expect(metrics.bySeverity).toEqual({ high: 1, low: 1 });
+            expect(metrics.discardedBy).toEqual({
+                [PriorityStatus.DISCARDED_BY_SAFEGUARD]: 1,
+                [PriorityStatus.DISCARDED_BY_SEVERITY]: 1,
+            });
+            expect(metrics.safeguardDiscardRate).toBe(0.25);
+        });
+
+        it('should score matches against implementation and reactions', () => {
+            const metrics = evaluateBenchmarkPr({
+                dryRunSuggestions: [
+                    suggestion('a'),
+                    suggestion('b', { relevantFile: 'src/other.ts' }),
+                    suggestion('c', { relevantFile: 'src/new.ts' }),
+                ],
+                historicalSuggestions: [
+                    suggestion('h1', {
+                        implementationStatus: ImplementationStatus.IMPLEMENTED,
+                    }),
+                    suggestion('h2', { relevantFile: 'src/other.ts' }),
+                    suggestion('h3', { relevantFile: 'src/upvoted.ts' }),
+                    suggestion('h4', {
+                        deliveryStatus: DeliveryStatus.NOT_SENT,
+                    }),
+                ],
+                feedbacks: [
+                    {
+                        suggestionId: 'h2',
+                        reactions: { thumbsUp: 0, thumbsDown: 2 },
+                    },
+                    {
+                        suggestionId: 'h3',
+                        reactions: { thumbsUp: 1, thumbsDown: 0 },
+                    },
+                ],
+            });
+
+            expect(metrics.historical).toEqual({
+                suggestions: 3,
+                accepted: 2,
+                rejected: 1,
+            });
+            expect(metrics.matched).toBe(2);
+            expect(metrics.matchedAccepted).toBe(1);
+            expect(metrics.matchedRejected).toBe(1);
+        });
+    });
+
+    describe('summarizeBenchmark', () => {
+        it('should aggregate metrics and derive precision and recall', () => {
+            const metrics = evaluateBenchmarkPr({
+                dryRunSuggestions: [
+                    suggestion('a'),
+                    suggestion('b', { relevantFile: 'src/b.ts' }),
+                ],
+                historicalSuggestions: [
+                    suggestion('h1', {
+                        implementationStatus: ImplementationStatus.IMPLEMENTED,
+                    }),
+                    suggestion('h2', {
+                        relevantFile: 'src/missed.ts',
+                        implementationStatus:
+                            ImplementationStatus.PARTIALLY_IMPLEMENTED,
+                    }),
+                ],
+            });
+
+            const prs: IDryRunBenchmarkPr[] = [
+                { prNumber: 1, status: DryRunStatus.COMPLETED, metrics },
+                { prNumber: 2, status: DryRunStatus.COMPLETED, metrics },
+                { prNumber: 3, status: DryRunStatus.FAILED },
+            ];
+
+            const report = summarizeBenchmark(prs);
+
+            expect(report).toMatchObject({
+                prs: 3,
+                completedPrs: 2,
+                suggestions: 4,
+                matchedAccepted: 2,
+                byLabel: { bug: 4 },
+                historical: { suggestions: 4, accepted: 4, rejected: 0 },
+            });
+            expect(report.precision).toBe(0.5);
+            expect(report.recall).toBe(0.5);
+            expect(report.falsePositiveRate).toBe(0);
+        });
+
+        it('should leave ratios undefined without completed PRs', () => {
+            const report = summarizeBenchmark([
+                { prNumber: 1, status: DryRunStatus.FAILED },
+            ]);
+
+            expect(report.completedPrs).toBe(0);
+            expect(report.precision).toBeUndefined();
+            expect(report.recall).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import {
+    DryRunStatus,
+    IDryRunComparisonPr,
+    IDryRunMessage,
+} from '@libs/dryRun/domain/interfaces/dryRun.interface';
+import {
+    compareDryRunMessages,
+    summarizeComparison,
+} from '@libs/dryRun/infrastructure/utils/dryRunComparison.utils';
+
+const suggestion = (
+    id: number,
+    overrides: Partial<IDryRunMessage> = {},
+): IDryRunMessage => ({
+    id,
+    content: `suggestion ${id}`,
+    path: 'src/index.ts',
+    lines: { start: 10, end: 12 },
+    category: 'bug',
+    severity: 'medium',
+    ...overrides,
+});
+
+describe('dryRunComparison.utils', () => {
+    describe('compareDryRunMessages', () => {
+        it('should match suggestions on the same file, label and overlapping lines', () => {
+            const a = [suggestion(1)];
+            const b = [suggestion(2, { lines: { start: 12, end: 14 } })];
+
+            const result = compareDryRunMessages(a, b);
+
+            expect(result.matched).toHaveLength(1);
+            expect(result.onlyInA).toHaveLength(0);
+            expect(result.onlyInB).toHaveLength(0);
+        });
+
+        it('should report suggestions found by only one config', () => {
+            const a = [suggestion(1), suggestion(2, { path: 'src/a.ts' })];
+            const b = [
+                suggestion(3),
+                suggestion(4, { category: 'performance' }),
+                suggestion(5, { lines: { start: 40, end: 41 } }),
+            ];
+
+            const result = compareDryRunMessages(a, b);
+
+            expect(result.matched.map(({ a, b }) => [a.id, b.id])).toEqual([
+                [1, 3],
+            ]);
+            expect(result.onlyInA.map((m) => m.id)).toEqual([2]);
+            expect(result.onlyInB.map((m) => m.id)).toEqual([4, 5]);
+        });
+
+        it('should match each suggestion once, closest lines first', () => {
+            const a = [suggestion(1, { lines: { start: 10, end: 30 } })];
+            const b = [
+                suggestion(2, { lines: { start: 25, end: 26 } }),
+                suggestion(3, { lines: { start: 11, end: 11 } }),
+            ];
+
+            const result = compareDryRunMessages(a, b);
+
+            expect(result.matched[0].b.id).toBe(3);
+            expect(result.onlyInB.map((m) => m.id)).toEqual([2]);
+        });
+
+        it('should ignore messages that are not suggestions', () => {
+            const summary: IDryRunMessage = { id: 9, content: 'Summary' };
+
+            const result = compareDryRunMessages([summary], [summary]);
+
+            expect(result.matched).toHaveLength(0);
+            expect(result.onlyInA).toHaveLength(0);
+            expect(result.onlyInB).toHaveLength(0);
+        });
+
+        it('should report severity shifts between matched suggestions', () => {
+            const result = compareDryRunMessages(
+                [suggestion(1, { severity: 'low' }), suggestion(2)],
+                [
+                    suggestion(3, { severity: 'critical' }),
+                    suggestion(4, { severity: 'medium' }),
+                ],
+            );
+
+            expect(result.severityShifts).toEqual([
+                expect.objectContaining({
+                    from: 'low',
+                    to: 'critical',
+                    direction: 'up',
+                }),
+            ]);
+        });
+    });
+
+    describe('summarizeComparison', () => {
+        const tokens = (total: number, cost?: number) => ({
+            input: total,
+            output: 0,
+            total,
+            outputReasoning: 0,
+            cost,
+            byModel: [],
+        });
+
+        const pr = (prNumber: number, costA?: number): IDryRunComparisonPr => ({
+            prNumber,
+            status: DryRunStatus.COMPLETED,
+            result: {
+                ...compareDryRunMessages(
+                    [suggestion(1)],
+                    [suggestion(2), suggestion(3, { path: 'b.ts' })],
+                ),
+                tokenUsage: { a: tokens(100, costA), b: tokens(200, 0.2) },
+            },
+        });
+
+        it('should aggregate counts and tokens over completed PRs', () => {
+            const summary = summarizeComparison([
+                pr(1, 0.1),
+                pr(2, 0.1),
+                { prNumber: 3, status: DryRunStatus.FAILED },
+            ]);
+
+            expect(summary).toMatchObject({
+                prs: 3,
+                completedPrs: 2,
+                matched: 2,
+                onlyInA: 0,
+                onlyInB: 2,
+                tokens: { a: 200, b: 400 },
+            });
+            expect(summary.cost.a).toBeCloseTo(0.2);
+            expect(summary.cost.b).toBeCloseTo(0.4);
+        });
+
+        it('should omit the cost when it is unknown for any PR', () => {
+            const summary = summarizeComparison([pr(1, 0.1), pr(2)]);
+
+            expect(summary.cost.a).toBeUndefined();
+            expect(summary.cost.b).toBeCloseTo(0.4);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import { SyntaxValidationStatus } from '@libs/code-review/domain/types/astValidate.type';
+import { TaskStatus } from '@libs/ee/kodyAST/interfaces/code-ast-analysis.interface';
+import { CallGraph } from '@libs/ee/kodyAST/local/callGraph';
+import { TreeSitterParser } from '@libs/ee/kodyAST/local/treeSitter.parser';
+import {
+    getChangedLines,
+    LocalCodeAstAnalysisService,
+} from '@libs/ee/kodyAST/localCodeASTAnalysis.service';
+
+const encode = (code: string) => Buffer.from(code).toString('base64');
+
+describe('Local AST engine', () => {
+    const parser = new TreeSitterParser();
+
+    const buildGraph = async (files: Record<string, string>) => {
+        const functions = [];
+
+        for (const [filePath, content] of Object.entries(files)) {
+            functions.push(
+                ...(await parser.extractFunctions(filePath, content)),
+            );
+        }
+
+        return new CallGraph(functions);
+    };
+
+    it('should extract functions and their calls', async () => {
+        const functions = await parser.extractFunctions(
+            'src/orders.ts',
+            [
+                'export class OrderService {',
+                '    create(order: Order) {',
+                '        validate(order);',
+                '        this.repository.save(order);',
+                '    }',
+                '}',
+                'export const validate = (order: Order) => check(order);',
+            ].join('\n'),
+        );
+
+        expect(
+            functions.map(({ name, className, calls, startLine }) => ({
+                name,
+                className,
+                calls,
+                startLine,
+            })),
+        ).toEqual([
+            {
+                name: 'create',
+                className: 'OrderService',
+                calls: ['validate', 'save'],
+                startLine: 2,
+            },
+            {
+                name: 'validate',
+                className: undefined,
+                calls: ['check'],
+                startLine: 7,
+            },
+        ]);
+    });
+
+    it('should report the callers of the changed functions', async () => {
+        const graph = await buildGraph({
+            'billing/tax.py': [
+                'def compute_tax(amount):',
+                '    return amount * rate()',
+            ].join('\n'),
+            'billing/invoice.py': [
+                'class Invoice:',
+                '    def total(self):',
+                '        return self.amount + compute_tax(self.amount)',
+            ].join('\n'),
+            'api/handlers.go': [
+                'package api',
+                'func Render(i *Invoice) string {',
+                '    return format(i.total())',
+                '}',
+            ].join('\n'),
+        });
+
+        const diff = [
+            '@@ -1,2 +1,2 @@',
+            ' def compute_tax(amount):',
+            '-    return amount * 0.2',
+            '+    return amount * rate()',
+        ].join('\n');
+
+        const changed = graph.findFunctionsAtLines(
+            'billing/tax.py',
+            getChangedLines(diff),
+        );
+
+        expect(changed.map((fn) => fn.name)).toEqual(['compute_tax']);
+        expect(graph.analyzeImpact(changed).functionsAffect).toEqual([
+            {
+                functionName: 'Invoice.total',
+                filePath: 'billing/invoice.py',
+                impact: 'Directly calls compute_tax',
+                affectedBy: ['compute_tax'],
+            },
+            {
+                functionName: 'Render',
+                filePath: 'api/handlers.go',
+                impact: 'Calls total, which depends on compute_tax',
+                affectedBy: ['compute_tax'],
+            },
+        ]);
+    });
+
+    it('should check the syntax of the suggested code', async () => {
+        const service = new LocalCodeAstAnalysisService(
+            {} as any,
+            {} as any,
+            {} as any,
+        );
+
+        const { taskId } = await service.startValidate({
+            files: [
+                {
+                    id: 'valid',
+                    filePath: 'src/app.java',
+                    encodedData: encode('class A { void run() { go(); } }'),
+                },
+                {
+                    id: 'invalid',
+                    filePath: 'src/app.rb',
+                    encodedData: encode('def run(\n  go\n'),
+                },
+                {
+                    id: 'unsupported',
+                    filePath: 'main.rs',
+                    encodedData: encode('fn main() {}'),
+                },
+            ],
+        });
+
+        const task = await service.awaitTask(taskId, null);
+        expect(task.task.status).toBe(TaskStatus.TASK_STATUS_COMPLETED);
+
+        const { results } = await service.getValidate(taskId);
+
+        expect(results.map(({ id, status }) => ({ id, status }))).toEqual([
+            { id: 'valid', status: SyntaxValidationStatus.VALID },
+            { id: 'invalid', status: SyntaxValidationStatus.INVALID_SYNTAX },
+            {
+                id: 'unsupported',
+                status: SyntaxValidationStatus.UNSUPPORTED_LANGUAGE,
+            },
+        ]);
+    });
+
+    it('should drop finished tasks that are never deleted', async () => {
+        jest.useFakeTimers({ advanceTimers: true });
+
+        try {
+            const service = new LocalCodeAstAnalysisService(
+                {} as any,
+                {} as any,
+                {} as any,
+            );
+
+            const { taskId } = await service.startValidate({ files: [] });
+            await service.awaitTask(taskId, null);
+
+            jest.advanceTimersByTime(60 * 60 * 1000);
+
+            await expect(service.getValidate(taskId)).rejects.toThrow(
+                `Task ${taskId} not found`,
+            );
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,293 @@
+import { LabelType } from '@libs/common/utils/codeManagement/labels';
+import {
+    evaluateDeterministicKodyRule,
+    findSuperLinearRegexConstruct,
+    matchRegex,
+    MAX_REGEX_LINE_LENGTH,
+    matchStructural,
+    renderKodyRuleMessage,
+    validateKodyRuleMatcher,
+} from '@libs/ee/kodyRules/utils/deterministicKodyRules.utils';
+import { KodyRuleType } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+
+const addedLines = (...contents: string[]) =>
+    contents.map((content, index) => ({ line: 10 + index, content }));
+
+describe('deterministicKodyRules.utils', () => {
+    describe('validateKodyRuleMatcher', () => {
+        it('accepts LLM rules without a matcher', () => {
+            expect(
+                validateKodyRuleMatcher(undefined, undefined),
+            ).toBeUndefined();
+            expect(
+                validateKodyRuleMatcher(KodyRuleType.LLM, undefined),
+            ).toBeUndefined();
+        });
+
+        it('requires a pattern for deterministic rules', () => {
+            expect(
+                validateKodyRuleMatcher(KodyRuleType.REGEX, { pattern: ' ' }),
+            ).toContain('pattern is required');
+        });
+
+        it('rejects invalid regexes', () => {
+            expect(
+                validateKodyRuleMatcher(KodyRuleType.REGEX, { pattern: '(' }),
+            ).toContain('Invalid regex pattern');
+        });
+
+        it('rejects regexes that can backtrack super-linearly', () => {
+            expect(
+                validateKodyRuleMatcher(KodyRuleType.REGEX, {
+                    pattern: '^(\\w+\\s?)*$',
+                }),
+            ).toContain('Unsafe regex pattern');
+
+            for (const pattern of [
+                '(a+)+',
+                '(?:a|b*){2,}',
+                '(a)\\1',
+                '(a|a)*b',
+                '(a|aa)+$',
+                '(?:\\w|_)+',
+                '\\w*\\w*\\w*\\w*x',
+                '.+\\d+',
+            ]) {
+                expect(findSuperLinearRegexConstruct(pattern)).toBeDefined();
+            }
+            for (const pattern of [
+                `from '(?<module>internal/[^']+)'`,
+                '(foo|bar)+',
+                '(a+)?',
+                '[(+*]+',
+                '\\(\\w+\\)+',
+                '\\w+\\s*\\(',
+                '(?:\\s|,)+',
+                'a*b*',
+            ]) {
+                expect(findSuperLinearRegexConstruct(pattern)).toBeUndefined();
+            }
+        });
+
+        it('rejects regexes RE2 cannot run', () => {
+            expect(
+                validateKodyRuleMatcher(KodyRuleType.REGEX, {
+                    pattern: 'foo(?=bar)',
+                }),
+            ).toContain('Unsupported regex pattern');
+        });
+
+        it('rejects structural patterns made only of metavariables or with unbalanced brackets', () => {
+            expect(
+                validateKodyRuleMatcher(KodyRuleType.STRUCTURAL, {
+                    pattern: '$A $$$',
+                }),
+            ).toContain('literal token');
+            expect(
+                validateKodyRuleMatcher(KodyRuleType.STRUCTURAL, {
+                    pattern: 'foo($A',
+                }),
+            ).toContain('unbalanced');
+        });
+    });
+
+    describe('matchRegex', () => {
+        it('matches each added line and exposes groups', () => {
+            const matches = matchRegex(
+                { pattern: `from '(?<module>internal/[^']+)'` },
+                addedLines(
+                    `import { a } from 'internal/a';`,
+                    `import { b } from 'public/b';`,
+                ),
+            );
+
+            expect(matches).toEqual([
+                {
+                    lineStart: 10,
+                    lineEnd: 10,
+                    text: `from 'internal/a'`,
+                    captures: { module: 'internal/a', 1: 'internal/a' },
+                },
+            ]);
+        });
+
+        it('ignores global and sticky flags', () => {
+            const matches = matchRegex(
+                { pattern: 'TODO', flags: 'giy' },
+                addedLines('// todo: one', '// TODO: two'),
+            );
+
+            expect(matches.map((m) => m.lineStart)).toEqual([10, 11]);
+        });
+
+        it('runs backtracking patterns in linear time and only matches the start of long lines', () => {
+            const longLine = `${'a'.repeat(MAX_REGEX_LINE_LENGTH)}TODO`;
+
+            for (const pattern of ['(a|a)*b', '\\w*\\w*\\w*\\w*x']) {
+                expect(matchRegex({ pattern }, addedLines(longLine))).toEqual(
+                    [],
+                );
+            }
+            expect(
+                matchRegex({ pattern: 'TODO' }, addedLines(longLine)),
+            ).toEqual([]);
+        });
+    });
+
+    describe('matchStructural', () => {
+        it('ignores whitespace and spans consecutive added lines', () => {
+            const matches = matchStructural(
+                { pattern: 'console.log($$$ARGS)' },
+                addedLines(
+                    'console.log("a", b);',
+                    'foo(); console . log(',
+                    '  c',
+                    ');',
+                ),
+            );
+
+            expect(matches).toEqual([
+                {
+                    lineStart: 10,
+                    lineEnd: 10,
+                    text: 'console.log("a", b)',
+                    captures: { ARGS: '"a", b' },
+                },
+                {
+                    lineStart: 11,
+                    lineEnd: 13,
+                    text: 'console . log(\n  c\n)',
+                    captures: { ARGS: 'c' },
+                },
+            ]);
+        });
+
+        it('binds repeated metavariables to the same text', () => {
+            const matches = matchStructural(
+                { pattern: '$A === $A' },
+                addedLines('if (x.y === x.y) {}', 'if (a === b) {}'),
+            );
+
+            expect(matches).toHaveLength(1);
+            expect(matches[0].captures).toEqual({ A: 'x.y' });
+        });
+
+        it('does not let a single metavariable cross a top-level comma', () => {
+            expect(
+                matchStructural(
+                    { pattern: 'setTimeout($FN)' },
+                    addedLines('setTimeout(run, 100);'),
+                ),
+            ).toEqual([]);
+
+            expect(
+                matchStructural(
+                    { pattern: 'setTimeout($FN, $_)' },
+                    addedLines('setTimeout(() => run(a, b), 100);'),
+                ),
+            ).toEqual([
+                expect.objectContaining({
+                    captures: { FN: '() => run(a, b)' },
+                }),
+            ]);
+        });
+
+        it('does not match across lines that are not consecutive', () => {
+            expect(
+                matchStructural({ pattern: 'foo(); bar();' }, [
+                    { line: 1, content: 'foo();' },
+                    { line: 3, content: 'bar();' },
+                ]),
+            ).toEqual([]);
+        });
+    });
+
+    describe('renderKodyRuleMessage', () => {
+        it('replaces known placeholders and keeps unknown ones', () => {
+            expect(
+                renderKodyRuleMessage(
+                    '{{ match }} at {{line}}: {{$ARGS}} {{other}}',
+                    {
+                        match: 'console.log(a)',
+                        line: 3,
+                        ARGS: 'a',
+                    },
+                ),
+            ).toBe('console.log(a) at 3: a {{other}}');
+        });
+    });
+
+    describe('evaluateDeterministicKodyRule', () => {
+        const patch = [
+            '@@ -1,2 +1,3 @@',
+            ' const a = 1;',
+            '-console.log(old);',
+            '+console.log(a);',
+            '+logger.info(a);',
+        ].join('\n');
+
+        it('returns kody_rules suggestions for the added lines', () => {
+            const suggestions = evaluateDeterministicKodyRule(
+                {
+                    uuid: 'rule-1',
+                    title: 'No console.log',
+                    rule: 'Use the logger',
+                    severity: 'High',
+                    type: KodyRuleType.STRUCTURAL,
+                    matcher: {
+                        pattern: 'console.log($MSG)',
+                        message: 'Remove {{match}} from {{file}}:{{line}}',
+                    },
+                },
+                { filename: 'src/a.ts', patch, language: 'typescript' },
+            );
+
+            expect(suggestions).toEqual([
+                {
+                    relevantFile: 'src/a.ts',
+                    language: 'typescript',
+                    suggestionContent: 'Remove console.log(a) from src/a.ts:2',
+                    existingCode: 'console.log(a);',
+                    improvedCode: '',
+                    oneSentenceSummary: 'No console.log',
+                    relevantLinesStart: 2,
+                    relevantLinesEnd: 2,
+                    label: LabelType.KODY_RULES,
+                    severity: 'high',
+                    brokenKodyRulesIds: ['rule-1'],
+                },
+            ]);
+        });
+
+        it('defaults the message to the rule text', () => {
+            const [suggestion] = evaluateDeterministicKodyRule(
+                {
+                    uuid: 'rule-1',
+                    title: 'No console.log',
+                    rule: 'Use the logger',
+                    severity: 'low',
+                    type: KodyRuleType.REGEX,
+                    matcher: { pattern: 'console\\.log' },
+                },
+                { filename: 'src/a.ts', patch },
+            );
+
+            expect(suggestion.suggestionContent).toBe('Use the logger');
+        });
+
+        it('ignores LLM rules', () => {
+            expect(
+                evaluateDeterministicKodyRule(
+                    {
+                        uuid: 'rule-1',
+                        title: 'No console.log',
+                        rule: 'Use the logger',
+                        severity: 'low',
+                        matcher: { pattern: 'console' },
+                    },
+                    { filename: 'src/a.ts', patch },
+                ),
+            ).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,155 @@
+import {
+    diffKodyRuleSnapshots,
+    fromKodyRuleSnapshot,
+    getBrokenKodyRulesRevisions,
+    getKodyRuleRevisionOrigin,
+    isSameKodyRuleSnapshot,
+    toKodyRuleSnapshot,
+} from '@libs/ee/kodyRules/utils/kodyRuleRevisions.utils';
+import { KodyRuleRevisionOrigin } from '@libs/kodyRules/domain/interfaces/kodyRuleRevision.interface';
+import {
+    IKodyRule,
+    KodyRulesOrigin,
+    KodyRulesStatus,
+} from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+
+describe('kodyRuleRevisions.utils', () => {
+    const rule: Partial<IKodyRule> = {
+        uuid: 'rule-1',
+        title: 'No console.log',
+        rule: 'Use the logger\ninstead of console.log',
+        severity: 'high',
+        status: KodyRulesStatus.ACTIVE,
+        repositoryId: 'global',
+        examples: [{ snippet: 'console.log(a)', isCorrect: false }],
+        inheritance: { inheritable: true, exclude: [], include: [] },
+        origin: KodyRulesOrigin.LIBRARY,
+        contextReferenceId: 'ref-1',
+        revision: 3,
+        createdAt: new Date('2026-01-01'),
+        updatedAt: new Date('2026-02-01'),
+    };
+
+    describe('toKodyRuleSnapshot', () => {
+        it('keeps the versioned fields only', () => {
+            expect(toKodyRuleSnapshot({ ...rule, path: undefined })).toEqual({
+                title: 'No console.log',
+                rule: 'Use the logger\ninstead of console.log',
+                severity: 'high',
+                status: KodyRulesStatus.ACTIVE,
+                repositoryId: 'global',
+                examples: [{ snippet: 'console.log(a)', isCorrect: false }],
+                inheritance: { inheritable: true, exclude: [], include: [] },
+            });
+        });
+    });
+
+    describe('isSameKodyRuleSnapshot', () => {
+        it('ignores bookkeeping fields and key order', () => {
+            expect(
+                isSameKodyRuleSnapshot(rule, {
+                    inheritance: {
+                        include: [],
+                        exclude: [],
+                        inheritable: true,
+                    },
+                    examples: [{ isCorrect: false, snippet: 'console.log(a)' }],
+                    repositoryId: 'global',
+                    status: KodyRulesStatus.ACTIVE,
+                    severity: 'high',
+                    rule: 'Use the logger\ninstead of console.log',
+                    title: 'No console.log',
+                    updatedAt: new Date(),
+                    revision: 4,
+                }),
+            ).toBe(true);
+        });
+
+        it('sees changes in nested fields', () => {
+            expect(
+                isSameKodyRuleSnapshot(rule, {
+                    ...rule,
+                    examples: [{ snippet: 'console.log(a)', isCorrect: true }],
+                }),
+            ).toBe(false);
+        });
+    });
+
+    describe('diffKodyRuleSnapshots', () => {
+        it('lists the changed fields with a patch for the rule text', () => {
+            const changes = diffKodyRuleSnapshots(toKodyRuleSnapshot(rule), {
+                ...toKodyRuleSnapshot(rule),
+                rule: 'Use the logger\ninstead of console.error',
+                severity: 'critical',
+                path: 'src/**',
+            });
+
+            expect(changes.map((change) => change.field)).toEqual([
+                'rule',
+                'severity',
+                'path',
+            ]);
+            expect(changes[1]).toEqual({
+                field: 'severity',
+                before: 'high',
+                after: 'critical',
+            });
+            expect(changes[2]).toEqual({
+                field: 'path',
+                before: undefined,
+                after: 'src/**',
+            });
+            expect(changes[0].patch).toContain('-instead of console.log');
+            expect(changes[0].patch).toContain('+instead of console.error');
+        });
+
+        it('compares the first revision against nothing', () => {
+            expect(diffKodyRuleSnapshots(undefined, { title: 'A' })).toEqual([
+                { field: 'title', before: undefined, after: 'A' },
+            ]);
+        });
+    });
+
+    describe('fromKodyRuleSnapshot', () => {
+        it('clears the fields the snapshot does not have', () => {
+            const restored = fromKodyRuleSnapshot('rule-1', {
+                title: 'A',
+                rule: 'B',
+            });
+
+            expect(restored).toEqual(
+                expect.objectContaining({ uuid: 'rule-1', title: 'A' }),
+            );
+            expect(Object.keys(restored)).toContain('matcher');
+            expect(restored.matcher).toBeUndefined();
+        });
+    });
+
+    describe('getKodyRuleRevisionOrigin', () => {
+        it.each([
+            [KodyRulesOrigin.LIBRARY, KodyRuleRevisionOrigin.LIBRARY],
+            [KodyRulesOrigin.GENERATED, KodyRuleRevisionOrigin.GENERATED],
+            [KodyRulesOrigin.USER, KodyRuleRevisionOrigin.USER],
+            [undefined, KodyRuleRevisionOrigin.USER],
+        ])('maps %s to %s', (origin, expected) => {
+            expect(getKodyRuleRevisionOrigin(origin)).toBe(expected);
+        });
+    });
+
+    describe('getBrokenKodyRulesRevisions', () => {
+        it('maps each broken rule to its revision', () => {
+            expect(
+                getBrokenKodyRulesRevisions(
+                    ['rule-1', 'rule-2', 'rule-3'],
+                    [rule, { uuid: 'rule-2' }, { uuid: 'rule-3', revision: 1 }],
+                ),
+            ).toEqual({ 'rule-1': 3, 'rule-3': 1 });
+        });
+
+        it('returns nothing when no rule has a revision', () => {
+            expect(
+                getBrokenKodyRulesRevisions(['rule-2'], [{ uuid: 'rule-2' }]),
+            ).toBeUndefined();
+        });
+    });
+});
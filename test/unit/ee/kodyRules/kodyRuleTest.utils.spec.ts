@@ -0,0 +1,211 @@
+import { LabelType } from '@libs/common/utils/codeManagement/labels';
+import {
+    buildKodyRuleTestCases,
+    getKodyRuleTestOutcome,
+    summarizeKodyRuleTest,
+    toKodyRuleTestCaseResult,
+    toKodyRuleTestFile,
+} from '@libs/ee/kodyRules/utils/kodyRuleTest.utils';
+import { KodyRuleTestOutcome } from '@libs/kodyRules/domain/interfaces/kodyRuleTest.interface';
+
+describe('kodyRuleTest.utils', () => {
+    describe('buildKodyRuleTestCases', () => {
+        it('expects incorrect examples to be flagged and keeps samples unlabeled unless told', () => {
+            const cases = buildKodyRuleTestCases(
+                [
+                    { snippet: 'console.log(a);', isCorrect: false },
+                    { snippet: '   ', isCorrect: true },
+                    { snippet: 'logger.info(a);', isCorrect: true },
+                ],
+                [
+                    { code: 'print(a)', language: 'python' },
+                    { code: 'x', filename: 'src/x.ts', expectViolation: true },
+                ],
+            );
+
+            expect(cases).toEqual([
+                {
+                    source: 'example',
+                    index: 0,
+                    code: 'console.log(a);',
+                    filename: 'kody-rule-test/example-1',
+                    expectViolation: true,
+                },
+                {
+                    source: 'example',
+                    index: 2,
+                    code: 'logger.info(a);',
+                    filename: 'kody-rule-test/example-3',
+                    expectViolation: false,
+                },
+                {
+                    source: 'sample',
+                    index: 0,
+                    code: 'print(a)',
+                    filename: 'kody-rule-test/sample-1',
+                    language: 'python',
+                    expectViolation: undefined,
+                },
+                {
+                    source: 'sample',
+                    index: 1,
+                    code: 'x',
+                    filename: 'src/x.ts',
+                    language: undefined,
+                    expectViolation: true,
+                },
+            ]);
+        });
+
+        it('skips the examples when asked to', () => {
+            expect(
+                buildKodyRuleTestCases(
+                    [{ snippet: 'a', isCorrect: false }],
+                    [],
+                    false,
+                ),
+            ).toEqual([]);
+        });
+    });
+
+    describe('toKodyRuleTestFile', () => {
+        it('adds the code as a new file', () => {
+            const { file, patchWithLinesStr } = toKodyRuleTestFile({
+                source: 'sample',
+                index: 0,
+                code: 'const a = 1;\nconsole.log(a);\n',
+                filename: 'src/a.ts',
+            });
+
+            expect(file.patch).toBe(
+                '@@ -0,0 +1,2 @@\n+const a = 1;\n+console.log(a);',
+            );
+            expect(file.status).toBe('added');
+            expect(file.additions).toBe(2);
+            expect(patchWithLinesStr).toContain('1 +const a = 1;');
+            expect(patchWithLinesStr).toContain('2 +console.log(a);');
+        });
+    });
+
+    describe('getKodyRuleTestOutcome', () => {
+        it.each([
+            [true, true, KodyRuleTestOutcome.TRUE_POSITIVE],
+            [true, false, KodyRuleTestOutcome.FALSE_NEGATIVE],
+            [false, true, KodyRuleTestOutcome.FALSE_POSITIVE],
+            [false, false, KodyRuleTestOutcome.TRUE_NEGATIVE],
+            [undefined, true, KodyRuleTestOutcome.FLAGGED],
+            [undefined, false, KodyRuleTestOutcome.NOT_FLAGGED],
+        ])(
+            'expectViolation=%s flagged=%s is %s',
+            (expectViolation, flagged, outcome) => {
+                expect(getKodyRuleTestOutcome(expectViolation, flagged)).toBe(
+                    outcome,
+                );
+            },
+        );
+    });
+
+    describe('toKodyRuleTestCaseResult', () => {
+        it('only counts suggestions for the tested rule', () => {
+            const result = toKodyRuleTestCaseResult(
+                {
+                    source: 'example',
+                    index: 0,
+                    code: 'console.log(a);',
+                    filename: 'kody-rule-test/example-1',
+                    expectViolation: false,
+                },
+                'rule-1',
+                [
+                    {
+                        label: LabelType.KODY_RULES,
+                        brokenKodyRulesIds: ['rule-2'],
+                        suggestionContent: 'other rule',
+                    },
+                    {
+                        label: 'code_style',
+                        suggestionContent: 'not a rule',
+                    },
+                    {
+                        label: LabelType.KODY_RULES,
+                        suggestionContent: 'Use the logger',
+                        relevantLinesStart: 1,
+                        relevantLinesEnd: 1,
+                        severity: 'high',
+                    },
+                ],
+            );
+
+            expect(result).toEqual({
+                source: 'example',
+                index: 0,
+                filename: 'kody-rule-test/example-1',
+                expectViolation: false,
+                flagged: true,
+                outcome: KodyRuleTestOutcome.FALSE_POSITIVE,
+                findings: [
+                    {
+                        suggestionContent: 'Use the logger',
+                        relevantLinesStart: 1,
+                        relevantLinesEnd: 1,
+                        severity: 'high',
+                    },
+                ],
+            });
+        });
+    });
+
+    describe('summarizeKodyRuleTest', () => {
+        const result = (outcome: KodyRuleTestOutcome) => ({
+            source: 'example' as const,
+            index: 0,
+            filename: 'f',
+            flagged: false,
+            outcome,
+            findings: [],
+        });
+
+        it('computes precision and recall over the labeled cases', () => {
+            expect(
+                summarizeKodyRuleTest([
+                    result(KodyRuleTestOutcome.TRUE_POSITIVE),
+                    result(KodyRuleTestOutcome.TRUE_POSITIVE),
+                    result(KodyRuleTestOutcome.TRUE_POSITIVE),
+                    result(KodyRuleTestOutcome.FALSE_POSITIVE),
+                    result(KodyRuleTestOutcome.FALSE_NEGATIVE),
+                    result(KodyRuleTestOutcome.TRUE_NEGATIVE),
+                    result(KodyRuleTestOutcome.FLAGGED),
+                ]),
+            ).toEqual({
+                total: 7,
+                truePositives: 3,
+                falsePositives: 1,
+                trueNegatives: 1,
+                falseNegatives: 1,
+                unlabeled: 1,
+                errors: 0,
+                failed: 2,
+                precision: 0.75,
+                recall: 0.75,
+                passed: false,
+            });
+        });
+
+        it('leaves precision and recall empty without positives and fails on errors', () => {
+            expect(
+                summarizeKodyRuleTest([
+                    result(KodyRuleTestOutcome.TRUE_NEGATIVE),
+                    result(KodyRuleTestOutcome.ERROR),
+                ]),
+            ).toEqual(
+                expect.objectContaining({
+                    precision: null,
+                    recall: null,
+                    failed: 0,
+                    errors: 1,
+                    passed: false,
+                }),
+            );
+        });
+    });
+});
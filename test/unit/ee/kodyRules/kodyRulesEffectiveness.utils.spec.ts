@@ -0,0 +1,171 @@
+import {
+    buildKodyRulesEffectiveness,
+    KodyRuleSuggestionReactions,
+} from '@libs/ee/kodyRules/utils/kodyRulesEffectiveness.utils';
+import {
+    IKodyRule,
+    KodyRulesStatus,
+} from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import { KodyRuleEffectivenessFlag } from '@libs/kodyRules/domain/interfaces/kodyRulesEffectiveness.interface';
+import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
+import { ImplementationStatus } from '@libs/platformData/domain/pullRequests/enums/implementationStatus.enum';
+import { PriorityStatus } from '@libs/platformData/domain/pullRequests/enums/priorityStatus.enum';
+import { IKodyRuleSuggestionRecord } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
+
+describe('kodyRulesEffectiveness.utils', () => {
+    const startDate = new Date('2026-09-01');
+
+    const rule = (uuid: string, title = uuid): Partial<IKodyRule> => ({
+        uuid,
+        title,
+        severity: 'high',
+        status: KodyRulesStatus.ACTIVE,
+        repositoryId: 'repo-1',
+        createdAt: new Date('2026-01-01'),
+    });
+
+    let nextId = 0;
+    const suggestion = (
+        ruleIds: string[],
+        overrides: Partial<IKodyRuleSuggestionRecord> = {},
+    ): IKodyRuleSuggestionRecord => ({
+        id: `suggestion-${++nextId}`,
+        brokenKodyRulesIds: ruleIds,
+        severity: 'high',
+        priorityStatus: PriorityStatus.PRIORITIZED,
+        deliveryStatus: DeliveryStatus.SENT,
+        prNumber: 1,
+        repositoryId: 'repo-1',
+        ...overrides,
+    });
+
+    const tokens = {
+        input: 1000,
+        output: 200,
+        outputReasoning: 0,
+        total: 1200,
+        cost: 0.4,
+    };
+
+    const build = (
+        rules: Partial<IKodyRule>[],
+        suggestions: IKodyRuleSuggestionRecord[],
+        reactions = new Map<string, KodyRuleSuggestionReactions>(),
+    ) =>
+        buildKodyRulesEffectiveness({
+            rules,
+            suggestions,
+            reactions,
+            tokens,
+            startDate,
+        });
+
+    it('reports acceptance, rejection and discards', () => {
+        const implemented = suggestion(['a'], {
+            implementationStatus: ImplementationStatus.PARTIALLY_IMPLEMENTED,
+        });
+        const liked = suggestion(['a']);
+        const disliked = suggestion(['a']);
+        const bySeverity = suggestion(['a'], {
+            priorityStatus: PriorityStatus.DISCARDED_BY_SEVERITY,
+            deliveryStatus: DeliveryStatus.NOT_SENT,
+        });
+        const bySafeguard = suggestion(['a'], {
+            priorityStatus: PriorityStatus.DISCARDED_BY_SAFEGUARD,
+            deliveryStatus: DeliveryStatus.NOT_SENT,
+        });
+
+        const [report] = build(
+            [rule('a')],
+            [implemented, liked, disliked, bySeverity, bySafeguard],
+            new Map([
+                [liked.id, { thumbsUp: 2, thumbsDown: 0 }],
+                [disliked.id, { thumbsUp: 0, thumbsDown: 1 }],
+            ]),
+        );
+
+        expect(report).toEqual(
+            expect.objectContaining({
+                fired: 5,
+                sent: 3,
+                implemented: 1,
+                accepted: 2,
+                rejected: 1,
+                positiveReactions: 2,
+                negativeReactions: 1,
+                discarded: {
+                    total: 2,
+                    bySeverity: 1,
+                    bySafeguard: 1,
+                    other: 0,
+                },
+                acceptanceRate: 0.6667,
+                rejectionRate: 0.3333,
+                discardRate: 0.4,
+                flags: [],
+            }),
+        );
+    });
+
+    it('splits the tokens evenly, including rules that never fire', () => {
+        const reports = build(
+            [rule('a'), rule('b'), rule('c'), rule('d')],
+            [suggestion(['a', 'b']), suggestion(['a'])],
+        );
+
+        expect(
+            reports.map(({ ruleId, tokens }) => [ruleId, tokens.total]),
+        ).toEqual([
+            ['a', 300],
+            ['b', 300],
+            ['c', 300],
+            ['d', 300],
+        ]);
+        expect(reports[3].tokens.cost).toBeCloseTo(0.1);
+    });
+
+    it('flags rules that never fire, unless created during the window', () => {
+        const reports = build(
+            [
+                rule('old'),
+                { ...rule('new'), createdAt: new Date('2026-09-15') },
+            ],
+            [],
+        );
+
+        expect(reports.map(({ ruleId, flags }) => [ruleId, flags])).toEqual([
+            ['new', []],
+            ['old', [KodyRuleEffectivenessFlag.NEVER_FIRED]],
+        ]);
+    });
+
+    it('flags rules whose suggestions never get through', () => {
+        const [report] = build(
+            [rule('a')],
+            Array.from({ length: 5 }, () =>
+                suggestion(['a'], {
+                    priorityStatus: PriorityStatus.DISCARDED_BY_SAFEGUARD,
+                    deliveryStatus: DeliveryStatus.NOT_SENT,
+                }),
+            ),
+        );
+
+        expect(report.flags).toEqual([
+            KodyRuleEffectivenessFlag.ALWAYS_DISCARDED,
+        ]);
+    });
+
+    it('flags rules consistently rejected once there is enough data', () => {
+        const sent = Array.from({ length: 5 }, () => suggestion(['a']));
+        const reactions = new Map(
+            sent.map((s) => [s.id, { thumbsUp: 0, thumbsDown: 1 }]),
+        );
+
+        expect(build([rule('a')], sent, reactions)[0].flags).toEqual([
+            KodyRuleEffectivenessFlag.CONSISTENTLY_REJECTED,
+        ]);
+        expect(
+            build([rule('a')], sent.slice(0, 4), reactions)[0].flags,
+        ).toEqual([]);
+    });
+});
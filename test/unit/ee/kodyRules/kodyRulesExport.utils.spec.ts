@@ -0,0 +1,185 @@
+import {
+    getKodyRuleExportGlob,
+    getKodyRuleExportPath,
+    isKodyRuleExportPath,
+    parseKodyRuleExportFile,
+    planKodyRulesExport,
+    renderKodyRuleExportFile,
+} from '@libs/ee/kodyRules/utils/kodyRulesExport.utils';
+import { IKodyRule } from '@libs/kodyRules/domain/interfaces/kodyRules.interface';
+import { KodyRulesExportFormat } from '@libs/kodyRules/domain/interfaces/kodyRulesExport.interface';
+
+describe('kodyRulesExport.utils', () => {
+    const rule: Partial<IKodyRule> = {
+        uuid: '3f2a9c1e-7b4d-4e21-9a0f-1c2d3e4f5a6b',
+        title: 'Não use console.log',
+        rule: 'Use the logger instead of console.log.\n\nIt keeps the output structured.',
+        severity: 'High',
+        repositoryId: 'repo-1',
+        examples: [
+            { snippet: 'logger.info(a)', isCorrect: true },
+            { snippet: 'console.log(`${a}`)\n```', isCorrect: false },
+        ],
+    };
+
+    describe('getKodyRuleExportPath', () => {
+        it.each([
+            [
+                KodyRulesExportFormat.CURSOR,
+                '.cursor/rules/kody/nao-use-console-log-3f2a9c1e.mdc',
+            ],
+            [
+                KodyRulesExportFormat.COPILOT,
+                '.github/instructions/kody/nao-use-console-log-3f2a9c1e.instructions.md',
+            ],
+            [
+                KodyRulesExportFormat.KODY,
+                '.kody/rules/nao-use-console-log-3f2a9c1e.md',
+            ],
+        ])('builds the %s path from the title and id', (format, expected) => {
+            expect(
+                getKodyRuleExportPath(
+                    { uuid: rule.uuid, title: rule.title },
+                    format,
+                ),
+            ).toBe(expected);
+        });
+
+        it('is recognised as an export path', () => {
+            expect(
+                isKodyRuleExportPath(
+                    getKodyRuleExportPath(
+                        { uuid: rule.uuid, title: rule.title },
+                        KodyRulesExportFormat.KODY,
+                    ),
+                ),
+            ).toBe(true);
+            expect(isKodyRuleExportPath('.cursor/rules/style.mdc')).toBe(false);
+            expect(isKodyRuleExportPath(undefined)).toBe(false);
+        });
+    });
+
+    describe('getKodyRuleExportGlob', () => {
+        it('prefers the rule path over the directory', () => {
+            expect(getKodyRuleExportGlob({ path: 'src/**/*.ts' }, 'api')).toBe(
+                'src/**/*.ts',
+            );
+        });
+
+        it('covers the directory when the rule has no path', () => {
+            expect(getKodyRuleExportGlob({ path: '' }, '/services/api/')).toBe(
+                'services/api/**',
+            );
+            expect(getKodyRuleExportGlob({})).toBeUndefined();
+        });
+    });
+
+    describe('renderKodyRuleExportFile', () => {
+        it('writes cursor frontmatter that always applies without a glob', () => {
+            const file = renderKodyRuleExportFile(
+                rule,
+                KodyRulesExportFormat.CURSOR,
+            );
+
+            expect(file.ruleId).toBe(rule.uuid);
+            expect(file.content).toMatch(
+                /^---\ndescription: "Não use console.log"\nglobs: \nalwaysApply: true\n---\n/,
+            );
+        });
+
+        it('scopes copilot instructions to the directory', () => {
+            const file = renderKodyRuleExportFile(
+                rule,
+                KodyRulesExportFormat.COPILOT,
+                'services/api',
+            );
+
+            expect(file.content).toMatch(
+                /^---\napplyTo: "services\/api\/\*\*"\n---\n/,
+            );
+        });
+
+        it('fences snippets longer than any backtick run inside them', () => {
+            const { content } = renderKodyRuleExportFile(
+                rule,
+                KodyRulesExportFormat.KODY,
+            );
+
+            expect(content.startsWith('<!-- kody-rule-id: ')).toBe(true);
+            expect(content).toContain("Don't:\n\n````\nconsole.log(");
+        });
+    });
+
+    describe('parseKodyRuleExportFile', () => {
+        it.each(Object.values(KodyRulesExportFormat))(
+            'reads back a %s file',
+            (format) => {
+                const { content } = renderKodyRuleExportFile(
+                    rule,
+                    format,
+                    'services/api',
+                );
+
+                expect(parseKodyRuleExportFile(content)).toEqual({
+                    ruleId: rule.uuid,
+                    severity: 'high',
+                    title: rule.title,
+                    rule: rule.rule,
+                });
+            },
+        );
+
+        it('ignores files written by hand', () => {
+            expect(parseKodyRuleExportFile('# Style\n\nUse tabs.')).toBeNull();
+        });
+    });
+
+    describe('planKodyRulesExport', () => {
+        const file = renderKodyRuleExportFile(rule, KodyRulesExportFormat.KODY);
+
+        it('creates new files and updates the ones that changed', () => {
+            const other = renderKodyRuleExportFile(
+                { ...rule, uuid: 'aaaaaaaa-0000', title: 'Other' },
+                KodyRulesExportFormat.KODY,
+            );
+
+            expect(
+                planKodyRulesExport(
+                    [file, other],
+                    [{ path: other.path, content: 'outdated' }],
+                ).map(({ path, action }) => ({ path, action })),
+            ).toEqual([
+                { path: file.path, action: 'create' },
+                { path: other.path, action: 'update' },
+            ]);
+        });
+
+        it('leaves unchanged files alone', () => {
+            expect(planKodyRulesExport([file], [file])).toEqual([]);
+        });
+
+        it('deletes stale exported files but keeps hand-written ones', () => {
+            const stale = renderKodyRuleExportFile(
+                { ...rule, uuid: 'bbbbbbbb-0000', title: 'Removed' },
+                KodyRulesExportFormat.KODY,
+            );
+
+            expect(
+                planKodyRulesExport(
+                    [],
+                    [
+                        stale,
+                        { path: '.kody/rules/style.md', content: '# Style' },
+                    ],
+                ),
+            ).toEqual([
+                {
+                    path: stale.path,
+                    content: '',
+                    action: 'delete',
+                    ruleId: 'bbbbbbbb-0000',
+                },
+            ]);
+        });
+    });
+});
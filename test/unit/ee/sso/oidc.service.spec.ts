@@ -0,0 +1,264 @@
+import * as crypto from 'crypto';
+
+import { UnauthorizedException } from '@nestjs/common';
+import axios from 'axios';
+
+import { SSOProtocol } from '@libs/ee/sso/domain/interfaces/ssoConfig.interface';
+import { OidcService } from '@libs/ee/sso/services/oidc.service';
+import {
+    isEmailDomainAllowed,
+    mapOidcClaims,
+} from '@libs/ee/sso/utils/oidc.utils';
+
+jest.mock('axios');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('OidcService', () => {
+    const issuer = 'http://localhost:9400/oidc';
+    const organizationId = 'org-1';
+    const clientId = 'kodus-client';
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+    });
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1' };
+
+    const signIdToken = (
+        claims: Record<string, any>,
+        key: crypto.KeyObject = privateKey,
+    ) => {
+        const encode = (value: object) =>
+            Buffer.from(JSON.stringify(value)).toString('base64url');
+        const unsigned = `${encode({ alg: 'RS256', kid: 'key-1' })}.${encode(claims)}`;
+        const signature = crypto
+            .sign('sha256', Buffer.from(unsigned), key)
+            .toString('base64url');
+
+        return `${unsigned}.${signature}`;
+    };
+
+    let cache: Map<string, unknown>;
+    let tokenClaims: (nonce: string) => Record<string, any>;
+    let userInfo: Record<string, any>;
+    let service: OidcService;
+    let lastChallenge: string;
+    let lastNonce: string;
+
+    // Minimal in-memory OIDC provider: discovery, JWKS, userinfo and token endpoints
+    const mockProvider = () => {
+        mockedAxios.get.mockImplementation(async (url: string) => {
+            if (url === `${issuer}/.well-known/openid-configuration`) {
+                return {
+                    data: {
+                        issuer,
+                        authorization_endpoint: `${issuer}/authorize`,
+                        token_endpoint: `${issuer}/token`,
+                        jwks_uri: `${issuer}/jwks`,
+                        userinfo_endpoint: `${issuer}/userinfo`,
+                        code_challenge_methods_supported: ['S256'],
+                    },
+                };
+            }
+            if (url === `${issuer}/jwks`) {
+                return { data: { keys: [jwk] } };
+            }
+            if (url === `${issuer}/userinfo`) {
+                return { data: userInfo };
+            }
+            throw new Error(`Unexpected GET ${url}`);
+        });
+
+        mockedAxios.post.mockImplementation(async (url: string, body) => {
+            const params = new URLSearchParams(body as string);
+            const challenge = crypto
+                .createHash('sha256')
+                .update(params.get('code_verifier'))
+                .digest('base64url');
+
+            if (url !== `${issuer}/token` || challenge !== lastChallenge) {
+                throw new Error('invalid_grant');
+            }
+
+            return {
+                data: {
+                    access_token: 'access',
+                    id_token: signIdToken(tokenClaims(lastNonce)),
+                },
+            };
+        });
+    };
+
+    const startLogin = async () => {
+        const url = new URL(await service.getAuthorizationUrl(organizationId));
+        lastChallenge = url.searchParams.get('code_challenge');
+        lastNonce = url.searchParams.get('nonce');
+
+        return {
+            state: url.searchParams.get('state'),
+            nonce: url.searchParams.get('nonce'),
+            url,
+        };
+    };
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        cache = new Map();
+
+        tokenClaims = (nonce) => ({
+            iss: issuer,
+            aud: clientId,
+            sub: 'idp-user-1',
+            email: 'jane@acme.com',
+            given_name: 'Jane',
+            family_name: 'Doe',
+            nonce,
+            iat: Math.floor(Date.now() / 1000),
+            exp: Math.floor(Date.now() / 1000) + 300,
+        });
+
+        const ssoConfigService = {
+            findOne: jest.fn().mockResolvedValue({
+                uuid: 'sso-1',
+                active: true,
+                protocol: SSOProtocol.OIDC,
+                domains: ['acme.com'],
+                providerConfig: {
+                    issuerUrl: issuer,
+                    clientId,
+                    clientSecret: 'secret',
+                    callbackUrl: 'http://localhost:3001/callback',
+                },
+            }),
+        };
+
+        const cacheService = {
+            addToCache: jest.fn(async (key: string, value: unknown) => {
+                cache.set(key, value);
+            }),
+            getFromCache: jest.fn(async (key: string) => cache.get(key)),
+            removeFromCache: jest.fn(async (key: string) => {
+                cache.delete(key);
+            }),
+        };
+
+        service = new OidcService(ssoConfigService as any, cacheService as any);
+
+        mockProvider();
+    });
+
+    it('builds a PKCE authorization request from discovery', async () => {
+        const { url, state, nonce } = await startLogin();
+
+        expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+        expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+        expect(url.searchParams.get('client_id')).toBe(clientId);
+        expect(state).toBeTruthy();
+        expect(nonce).toBeTruthy();
+    });
+
+    it('exchanges the code and returns the mapped profile', async () => {
+        const { state } = await startLogin();
+
+        const profile = await service.handleCallback({
+            organizationId,
+            code: 'auth-code',
+            state,
+        });
+
+        expect(profile).toEqual(
+            expect.objectContaining({
+                email: 'jane@acme.com',
+                firstName: 'Jane',
+                lastName: 'Doe',
+                organizationId,
+            }),
+        );
+    });
+
+    it('rejects a reused state', async () => {
+        const { state } = await startLogin();
+        await service.handleCallback({ organizationId, code: 'c', state });
+
+        await expect(
+            service.handleCallback({ organizationId, code: 'c', state }),
+        ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('rejects emails outside the configured domains', async () => {
+        const base = tokenClaims;
+        tokenClaims = (nonce) => ({ ...base(nonce), email: 'eve@evil.io' });
+        const { state } = await startLogin();
+
+        await expect(
+            service.handleCallback({ organizationId, code: 'c', state }),
+        ).rejects.toThrow('Email domain is not allowed');
+    });
+
+    it('rejects unverified emails read from userinfo', async () => {
+        const base = tokenClaims;
+        tokenClaims = (nonce) => ({ ...base(nonce), email: undefined });
+        userInfo = {
+            sub: 'idp-user-1',
+            email: 'jane@acme.com',
+            email_verified: false,
+        };
+        const { state } = await startLogin();
+
+        await expect(
+            service.handleCallback({ organizationId, code: 'c', state }),
+        ).rejects.toThrow('OIDC email is not verified');
+    });
+
+    it('rejects ID tokens with a wrong nonce or audience', async () => {
+        const base = tokenClaims;
+        tokenClaims = (nonce) => ({ ...base(nonce), nonce: 'replayed' });
+        const first = await startLogin();
+
+        await expect(
+            service.handleCallback({
+                organizationId,
+                code: 'c',
+                state: first.state,
+            }),
+        ).rejects.toThrow('Invalid ID token nonce');
+
+        tokenClaims = (nonce) => ({ ...base(nonce), aud: 'other-client' });
+        const second = await startLogin();
+
+        await expect(
+            service.handleCallback({
+                organizationId,
+                code: 'c',
+                state: second.state,
+            }),
+        ).rejects.toThrow('Invalid ID token audience');
+    });
+
+    it('allows no email domain when none is configured', () => {
+        expect(isEmailDomainAllowed('jane@acme.com', [])).toBe(false);
+        expect(isEmailDomainAllowed('jane@acme.com', undefined)).toBe(false);
+        expect(isEmailDomainAllowed('jane@acme.com', [' @Acme.com'])).toBe(
+            true,
+        );
+    });
+
+    it('maps custom claims through attributeMap', () => {
+        expect(
+            mapOidcClaims(
+                {
+                    sub: '1',
+                    upn: 'Jane@Acme.com',
+                    profile: { first: 'Jane' },
+                },
+                { email: 'upn', firstName: 'profile.first' },
+            ),
+        ).toEqual({
+            sub: '1',
+            email: 'jane@acme.com',
+            firstName: 'Jane',
+            lastName: '',
+            name: undefined,
+        });
+    });
+});
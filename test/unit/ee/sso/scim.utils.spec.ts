@@ -0,0 +1,172 @@
+import { ScimException } from '@libs/ee/sso/domain/exceptions/scim.exception';
+import {
+    applyGroupPatch,
+    applyUserPatch,
+    parseScimFilter,
+    resolveGroupAccess,
+} from '@libs/ee/sso/utils/scim.utils';
+import { Role } from '@libs/identity/domain/permissions/enums/permissions.enum';
+
+describe('scim.utils', () => {
+    describe('parseScimFilter', () => {
+        it('parses eq clauses joined by and', () => {
+            expect(
+                parseScimFilter(
+                    'userName eq "jane@acme.com" and externalId eq "00u1"',
+                ),
+            ).toEqual([
+                { attribute: 'username', value: 'jane@acme.com' },
+                { attribute: 'externalid', value: '00u1' },
+            ]);
+        });
+
+        it('returns no clauses for an empty filter', () => {
+            expect(parseScimFilter(undefined)).toEqual([]);
+        });
+
+        it('rejects unsupported operators', () => {
+            expect(() => parseScimFilter('userName co "jane"')).toThrow(
+                ScimException,
+            );
+        });
+    });
+
+    describe('applyUserPatch', () => {
+        it('handles path-less (Okta) and path (Entra ID) operations', () => {
+            expect(
+                applyUserPatch([
+                    { op: 'replace', value: { active: false } },
+                    { op: 'Replace', path: 'name.givenName', value: 'Jane' },
+                ]),
+            ).toEqual({ active: false, givenName: 'Jane' });
+        });
+
+        it('accepts string booleans', () => {
+            expect(
+                applyUserPatch([
+                    { op: 'replace', path: 'active', value: 'False' },
+                ]),
+            ).toEqual({ active: false });
+        });
+
+        it('reads email changes, preferring userName over emails', () => {
+            expect(
+                applyUserPatch([
+                    {
+                        op: 'replace',
+                        path: 'emails[type eq "work"].value',
+                        value: 'jane@new.com',
+                    },
+                ]),
+            ).toEqual({ email: 'jane@new.com' });
+
+            expect(
+                applyUserPatch([
+                    {
+                        op: 'replace',
+                        value: {
+                            emails: [
+                                { value: 'other@new.com' },
+                                { value: 'jane@new.com', primary: true },
+                            ],
+                        },
+                    },
+                ]),
+            ).toEqual({ email: 'jane@new.com' });
+
+            expect(
+                applyUserPatch([
+                    {
+                        op: 'replace',
+                        value: {
+                            emails: [{ value: 'other@new.com', primary: true }],
+                            userName: 'jane@new.com',
+                        },
+                    },
+                ]),
+            ).toEqual({ email: 'jane@new.com' });
+        });
+    });
+
+    describe('applyGroupPatch', () => {
+        const group = { displayName: 'Engineering', members: ['u1', 'u2'] };
+
+        it('adds and removes members', () => {
+            expect(
+                applyGroupPatch(group, [
+                    { op: 'add', path: 'members', value: [{ value: 'u3' }] },
+                    { op: 'remove', path: 'members[value eq "u1"]' },
+                ]),
+            ).toEqual({ displayName: 'Engineering', members: ['u2', 'u3'] });
+        });
+
+        it('replaces members and display name', () => {
+            expect(
+                applyGroupPatch(group, [
+                    {
+                        op: 'replace',
+                        value: {
+                            displayName: 'Platform',
+                            members: [{ value: 'u9' }],
+                        },
+                    },
+                ]),
+            ).toEqual({ displayName: 'Platform', members: ['u9'] });
+        });
+
+        it('rejects unknown paths', () => {
+            expect(() =>
+                applyGroupPatch(group, [
+                    { op: 'replace', path: 'owners', value: 'x' },
+                ]),
+            ).toThrow(ScimException);
+        });
+    });
+
+    describe('resolveGroupAccess', () => {
+        const scimConfig = {
+            enabled: true,
+            defaultRole: Role.CONTRIBUTOR,
+            groupMappings: [
+                { group: 'kodus-admins', role: Role.REPO_ADMIN },
+                { group: 'backend', repositoryIds: ['repo-1', 'repo-2'] },
+                { group: 'frontend', repositoryIds: ['repo-2', 'repo-3'] },
+            ],
+        };
+
+        it('returns null when there are no mappings', () => {
+            expect(
+                resolveGroupAccess([{ displayName: 'backend' }], {
+                    enabled: true,
+                }),
+            ).toBeNull();
+        });
+
+        it('picks the highest mapped role and merges repositories', () => {
+            expect(
+                resolveGroupAccess(
+                    [
+                        { displayName: 'Kodus-Admins' },
+                        { displayName: 'backend' },
+                        { displayName: 'x', externalId: 'frontend' },
+                    ],
+                    scimConfig,
+                ),
+            ).toEqual({
+                role: Role.REPO_ADMIN,
+                repositoryIds: ['repo-1', 'repo-2', 'repo-3'],
+                customRoleIds: undefined,
+            });
+        });
+
+        it('falls back to the default role and clears repositories', () => {
+            expect(
+                resolveGroupAccess([{ displayName: 'sales' }], scimConfig),
+            ).toEqual({
+                role: Role.CONTRIBUTOR,
+                repositoryIds: [],
+                customRoleIds: undefined,
+            });
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { STATUS } from '@libs/core/infrastructure/config/types/database/status.type';
+import { ScimException } from '@libs/ee/sso/domain/exceptions/scim.exception';
+import {
+    SCIMConfig,
+    ScimContext,
+} from '@libs/ee/sso/domain/interfaces/scim.interface';
+import { ScimProvisioningService } from '@libs/ee/sso/services/scimProvisioning.service';
+import { Role } from '@libs/identity/domain/permissions/enums/permissions.enum';
+
+describe('ScimProvisioningService', () => {
+    let usersService: any;
+    let permissionsService: any;
+    let customRoleService: any;
+    let integrationConfigService: any;
+    let scimGroupRepository: any;
+    let signUpUseCase: any;
+    let service: ScimProvisioningService;
+
+    const user = {
+        uuid: 'user-1',
+        email: 'jane@acme.com',
+        role: Role.CONTRIBUTOR,
+        status: STATUS.ACTIVE,
+        organization: { uuid: 'org-a' },
+    };
+
+    const buildContext = (
+        scimConfig: SCIMConfig = { enabled: true },
+    ): ScimContext => ({
+        organizationId: 'org-a',
+        ssoConfigId: 'sso-a',
+        scimConfig,
+        baseUrl: 'https://kodus.io/scim/v2',
+    });
+
+    beforeEach(() => {
+        usersService = {
+            findOne: jest
+                .fn()
+                .mockImplementation(async (filter) =>
+                    filter.uuid === user.uuid ? user : null,
+                ),
+            find: jest.fn().mockResolvedValue([user]),
+            update: jest.fn(),
+        };
+        permissionsService = {
+            findOne: jest.fn().mockResolvedValue(null),
+            create: jest.fn(),
+        };
+        customRoleService = {
+            findByIds: jest
+                .fn()
+                .mockResolvedValue([{ uuid: 'role-a', name: 'Reviewers' }]),
+        };
+        integrationConfigService = {
+            find: jest
+                .fn()
+                .mockResolvedValue([{ configValue: [{ id: 'repo-a' }] }]),
+        };
+        scimGroupRepository = {
+            findByMember: jest.fn().mockResolvedValue([]),
+            findOne: jest.fn().mockResolvedValue(null),
+            create: jest.fn().mockImplementation(async (group) => ({
+                uuid: 'group-1',
+                ...group,
+            })),
+        };
+        signUpUseCase = {
+            execute: jest.fn().mockResolvedValue({ uuid: user.uuid }),
+        };
+
+        service = new ScimProvisioningService(
+            usersService,
+            permissionsService,
+            { update: jest.fn() } as any,
+            customRoleService,
+            integrationConfigService,
+            scimGroupRepository,
+            signUpUseCase,
+        );
+    });
+
+    it('should update the email of a patched user', async () => {
+        await service.patchUser(buildContext(), user.uuid, {
+            schemas: [],
+            Operations: [
+                { op: 'replace', path: 'userName', value: ' Jane@New.com ' },
+            ],
+        });
+
+        expect(usersService.update).toHaveBeenCalledWith(
+            { uuid: user.uuid },
+            { email: 'jane@new.com' },
+        );
+    });
+
+    it('should reject a patched email that is not valid', async () => {
+        await expect(
+            service.patchUser(buildContext(), user.uuid, {
+                schemas: [],
+                Operations: [
+                    { op: 'replace', path: 'userName', value: 'jane' },
+                ],
+            }),
+        ).rejects.toBeInstanceOf(ScimException);
+
+        expect(usersService.update).not.toHaveBeenCalled();
+    });
+
+    it('should provision users with the least privileged role when the default role is unknown', async () => {
+        await service.createUser(
+            buildContext({ enabled: true, defaultRole: 'superuser' as Role }),
+            { schemas: [], userName: 'jane@acme.com' },
+        );
+
+        expect(usersService.update).toHaveBeenCalledWith(
+            { uuid: user.uuid },
+            { status: STATUS.ACTIVE, role: Role.CONTRIBUTOR },
+        );
+    });
+
+    it('should only grant mapping targets of the provisioning organization', async () => {
+        const ctx = buildContext({
+            enabled: true,
+            groupMappings: [
+                {
+                    group: 'Engineering',
+                    role: 'superuser' as Role,
+                    repositoryIds: ['repo-a', 'repo-of-org-b'],
+                    customRoleIds: ['role-a', 'role-of-org-b'],
+                },
+            ],
+        });
+        scimGroupRepository.findByMember.mockResolvedValue([
+            { uuid: 'group-1', displayName: 'Engineering', members: [] },
+        ]);
+
+        await service.createGroup(ctx, {
+            schemas: [],
+            displayName: 'Engineering',
+            members: [{ value: user.uuid }],
+        });
+
+        expect(customRoleService.findByIds).toHaveBeenCalledWith(
+            ['role-a', 'role-of-org-b'],
+            'org-a',
+        );
+        expect(usersService.update).not.toHaveBeenCalled();
+        expect(permissionsService.create).toHaveBeenCalledWith({
+            user: { uuid: user.uuid },
+            permissions: {
+                assignedRepositoryIds: ['repo-a'],
+                customRoleIds: ['role-a'],
+            },
+        });
+    });
+});
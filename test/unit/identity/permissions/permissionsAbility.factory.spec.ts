@@ -0,0 +1,232 @@
+import { STATUS } from '@libs/core/infrastructure/config/types/database/status.type';
+import { UserRequest } from '@libs/core/infrastructure/config/types/http/user-request.type';
+import { ICustomRoleService } from '@libs/identity/domain/permissions/contracts/customRole.service.contract';
+import { IPermissionsService } from '@libs/identity/domain/permissions/contracts/permissions.service.contract';
+import {
+    Action,
+    ResourceType,
+    Role,
+} from '@libs/identity/domain/permissions/enums/permissions.enum';
+import { AppAbility } from '@libs/identity/domain/permissions/types/permissions.types';
+import { PolicyHandlerCallback } from '@libs/identity/domain/permissions/types/policy.types';
+import { IUser } from '@libs/identity/domain/user/interfaces/user.interface';
+import { AuthorizationService } from '@libs/identity/infrastructure/adapters/services/permissions/authorization.service';
+import { PermissionsAbilityFactory } from '@libs/identity/infrastructure/adapters/services/permissions/permissionsAbility.factory';
+import { checkRepoPermissions } from '@libs/identity/infrastructure/adapters/services/permissions/policy.handlers';
+
+describe('PermissionsAbilityFactory', () => {
+    const organizationId = 'org-1';
+
+    let permissionsService: { findOne: jest.Mock };
+    let customRoleService: { findByIds: jest.Mock };
+    let factory: PermissionsAbilityFactory;
+    let authorizationService: AuthorizationService;
+
+    const buildUser = (role: Role): IUser => ({
+        uuid: 'user-1',
+        password: 'hashed-password',
+        email: 'user@kodus.io',
+        status: STATUS.ACTIVE,
+        role,
+        organization: { uuid: organizationId },
+    });
+
+    const buildRequest = (
+        user: IUser,
+        body: Record<string, string>,
+    ): UserRequest =>
+        ({
+            user,
+            body,
+            params: {},
+            query: {},
+        }) as Partial<UserRequest> as UserRequest;
+
+    /** Runs the policy handler of a route reading the repository and directory from the body. */
+    const canOnRoute = (
+        ability: AppAbility,
+        user: IUser,
+        action: Action,
+        resource: ResourceType,
+        body: Record<string, string>,
+    ) => {
+        const handler = checkRepoPermissions({
+            action,
+            resource,
+            repo: { key: { body: 'repositoryId' } },
+            directory: { key: { body: 'directoryId' } },
+        }) as PolicyHandlerCallback;
+
+        return handler(ability, buildRequest(user, body));
+    };
+
+    const givenCustomRoles = (
+        assignedRepositoryIds: string[],
+        grants: unknown[],
+    ) => {
+        permissionsService.findOne.mockResolvedValue({
+            permissions: { assignedRepositoryIds, customRoleIds: ['role-1'] },
+        });
+        customRoleService.findByIds.mockResolvedValue([
+            { uuid: 'role-1', name: 'Custom role', grants },
+        ]);
+    };
+
+    beforeEach(() => {
+        permissionsService = { findOne: jest.fn() };
+        customRoleService = { findByIds: jest.fn().mockResolvedValue([]) };
+
+        factory = new PermissionsAbilityFactory(
+            permissionsService as unknown as IPermissionsService,
+            customRoleService as unknown as ICustomRoleService,
+        );
+        authorizationService = new AuthorizationService(factory);
+    });
+
+    it('keeps the base role abilities when no custom role is assigned', async () => {
+        permissionsService.findOne.mockResolvedValue({
+            permissions: { assignedRepositoryIds: ['repo-1'] },
+        });
+
+        const user = buildUser(Role.CONTRIBUTOR);
+        const ability = await factory.createForUser(user);
+
+        expect(
+            canOnRoute(ability, user, Action.Read, ResourceType.KodyRules, {
+                repositoryId: 'repo-1',
+            }),
+        ).toBe(true);
+        expect(
+            canOnRoute(ability, user, Action.Update, ResourceType.KodyRules, {
+                repositoryId: 'repo-1',
+            }),
+        ).toBe(false);
+        expect(customRoleService.findByIds).not.toHaveBeenCalled();
+    });
+
+    it('adds repository scoped grants from custom roles', async () => {
+        givenCustomRoles(
+            ['repo-1'],
+            [
+                {
+                    action: Action.Update,
+                    resource: ResourceType.KodyRules,
+                    repositoryIds: ['repo-2'],
+                },
+            ],
+        );
+
+        const user = buildUser(Role.CONTRIBUTOR);
+        const ability = await factory.createForUser(user);
+
+        expect(customRoleService.findByIds).toHaveBeenCalledWith(
+            ['role-1'],
+            organizationId,
+        );
+        expect(
+            canOnRoute(ability, user, Action.Update, ResourceType.KodyRules, {
+                repositoryId: 'repo-2',
+            }),
+        ).toBe(true);
+        expect(
+            canOnRoute(ability, user, Action.Update, ResourceType.KodyRules, {
+                repositoryId: 'repo-1',
+            }),
+        ).toBe(false);
+        await expect(
+            authorizationService.check({
+                user,
+                action: Action.Update,
+                resource: ResourceType.GitSettings,
+            }),
+        ).resolves.toBe(false);
+    });
+
+    it('restricts directory scoped grants to routes acting on those directories', async () => {
+        givenCustomRoles(
+            [],
+            [
+                {
+                    action: Action.Update,
+                    resource: ResourceType.CodeReviewSettings,
+                    repositoryIds: ['repo-1'],
+                    directoryIds: ['dir-1'],
+                },
+            ],
+        );
+
+        const user = buildUser(Role.CONTRIBUTOR);
+        const ability = await factory.createForUser(user);
+
+        expect(
+            canOnRoute(
+                ability,
+                user,
+                Action.Update,
+                ResourceType.CodeReviewSettings,
+                { repositoryId: 'repo-1', directoryId: 'dir-1' },
+            ),
+        ).toBe(true);
+        expect(
+            canOnRoute(
+                ability,
+                user,
+                Action.Update,
+                ResourceType.CodeReviewSettings,
+                { repositoryId: 'repo-1', directoryId: 'dir-2' },
+            ),
+        ).toBe(false);
+        expect(
+            canOnRoute(
+                ability,
+                user,
+                Action.Update,
+                ResourceType.CodeReviewSettings,
+                { repositoryId: 'repo-1' },
+            ),
+        ).toBe(false);
+    });
+
+    it('checks directory scoped grants in use cases through the authorization service', async () => {
+        givenCustomRoles(
+            [],
+            [
+                {
+                    action: Action.Create,
+                    resource: ResourceType.KodyRules,
+                    repositoryIds: ['repo-1'],
+                    directoryIds: ['dir-1'],
+                },
+            ],
+        );
+
+        const user = buildUser(Role.CONTRIBUTOR);
+        const check = (directoryId?: string) =>
+            authorizationService.check({
+                user,
+                action: Action.Create,
+                resource: ResourceType.KodyRules,
+                repoIds: ['repo-1'],
+                directoryId,
+            });
+
+        await expect(check('dir-1')).resolves.toBe(true);
+        await expect(check('dir-2')).resolves.toBe(false);
+        await expect(check()).resolves.toBe(false);
+    });
+
+    it('ignores wildcard grants from custom roles', async () => {
+        givenCustomRoles(
+            [],
+            [{ action: Action.Manage, resource: ResourceType.All }],
+        );
+
+        await expect(
+            authorizationService.check({
+                user: buildUser(Role.CONTRIBUTOR),
+                action: Action.Update,
+                resource: ResourceType.Billing,
+            }),
+        ).resolves.toBe(false);
+    });
+});
@@ -0,0 +1,216 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import { AzureBoardsIssueTrackerAdapter } from '@libs/integrations/infrastructure/adapters/services/issueTracker/azureBoards.adapter';
+import { JiraIssueTrackerAdapter } from '@libs/integrations/infrastructure/adapters/services/issueTracker/jira.adapter';
+
+type RecordedRequest = {
+    method: string;
+    path: string;
+    authorization?: string;
+    body: any;
+};
+
+/**
+ * Local stand-in for the tracker APIs, answers each `METHOD /path` with the
+ * given route response and records every request it gets.
+ */
+async function startMockTracker(
+    routes: Record<string, (body: any) => unknown>,
+): Promise<{ server: Server; url: string; requests: RecordedRequest[] }> {
+    const requests: RecordedRequest[] = [];
+
+    const readBody = async (req: IncomingMessage) => {
+        let raw = '';
+        for await (const chunk of req) {
+            raw += chunk;
+        }
+        return raw ? JSON.parse(raw) : undefined;
+    };
+
+    const server = createServer(async (req, res) => {
+        const path = req.url.split('?')[0];
+        const body = await readBody(req);
+
+        requests.push({
+            method: req.method,
+            path,
+            authorization: req.headers.authorization,
+            body,
+        });
+
+        const route = routes[`${req.method} ${path}`];
+
+        res.writeHead(route ? 200 : 404, {
+            'Content-Type': 'application/json',
+        });
+        res.end(JSON.stringify(route ? route(body) : {}));
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+
+    const { port } = server.address() as AddressInfo;
+
+    return { server, url: `http://127.0.0.1:${port}`, requests };
+}
+
+describe('Issue tracker adapters', () => {
+    let mock: Awaited<ReturnType<typeof startMockTracker>>;
+
+    afterEach(async () => {
+        await new Promise((resolve) => mock.server.close(resolve));
+    });
+
+    describe('Jira', () => {
+        const adapter = new JiraIssueTrackerAdapter();
+        const auth = () => ({
+            baseUrl: `${mock.url}/`,
+            email: 'kody@kodus.io',
+            apiToken: 'secret',
+        });
+
+        beforeEach(async () => {
+            mock = await startMockTracker({
+                'GET /rest/api/2/myself': () => ({ accountId: 'abc' }),
+                'POST /rest/api/2/issue': () => ({
+                    id: '10001',
+                    key: 'KODY-1',
+                }),
+                'GET /rest/api/2/issue/10001/transitions': () => ({
+                    transitions: [
+                        {
+                            id: '11',
+                            name: 'Start',
+                            to: { name: 'In Progress' },
+                        },
+                        { id: '31', name: 'Finish', to: { name: 'Done' } },
+                    ],
+                }),
+                'POST /rest/api/2/issue/10001/transitions': () => ({}),
+            });
+        });
+
+        it('should create the ticket with the mapped fields', async () => {
+            expect(await adapter.validateCredentials(auth())).toBe(true);
+
+            const ticket = await adapter.createTicket(auth(), {
+                title: 'SQL injection in search',
+                description: 'Query built by concatenation',
+                issueType: 'Bug',
+                projectKey: 'KODY',
+                priority: 'Highest',
+            });
+
+            expect(ticket).toEqual({
+                id: '10001',
+                key: 'KODY-1',
+                url: `${mock.url}/browse/KODY-1`,
+            });
+
+            const create = mock.requests.find(
+                (r) => r.path === '/rest/api/2/issue',
+            );
+            expect(create.authorization).toBe(
+                `Basic ${Buffer.from('kody@kodus.io:secret').toString('base64')}`,
+            );
+            expect(create.body.fields).toEqual({
+                project: { key: 'KODY' },
+                summary: 'SQL injection in search',
+                description: 'Query built by concatenation',
+                issuetype: { name: 'Bug' },
+                priority: { name: 'Highest' },
+            });
+        });
+
+        it('should move the ticket through the matching transition', async () => {
+            await adapter.updateTicketStatus(
+                auth(),
+                '10001',
+                adapter.defaultStatusMapping[IssueStatus.RESOLVED],
+            );
+
+            expect(mock.requests.at(-1)).toMatchObject({
+                method: 'POST',
+                body: { transition: { id: '31' } },
+            });
+
+            await expect(
+                adapter.updateTicketStatus(auth(), '10001', 'Archived'),
+            ).rejects.toThrow('No Jira transition to status "Archived"');
+        });
+
+        it('should parse status changes from the webhook', () => {
+            expect(
+                adapter.parseStatusEvent({
+                    webhookEvent: 'jira:issue_updated',
+                    issue: { id: '10001' },
+                    user: { displayName: 'Ana' },
+                    changelog: {
+                        items: [{ field: 'status', toString: 'Done' }],
+                    },
+                }),
+            ).toEqual({ ticketId: '10001', status: 'Done', changedBy: 'Ana' });
+
+            expect(
+                adapter.parseStatusEvent({
+                    webhookEvent: 'jira:issue_updated',
+                    issue: { id: '10001' },
+                    changelog: { items: [{ field: 'summary' }] },
+                }),
+            ).toBeNull();
+        });
+    });
+
+    describe('Azure Boards', () => {
+        const adapter = new AzureBoardsIssueTrackerAdapter();
+        const auth = () => ({
+            orgUrl: mock.url,
+            project: 'kodus',
+            token: 'pat',
+        });
+
+        beforeEach(async () => {
+            mock = await startMockTracker({
+                'POST /kodus/_apis/wit/workitems/$Bug': () => ({
+                    id: 42,
+                    _links: { html: { href: 'https://dev.azure.com/wi/42' } },
+                }),
+                'PATCH /_apis/wit/workitems/42': () => ({ id: 42 }),
+            });
+        });
+
+        it('should create the work item and patch its state', async () => {
+            const ticket = await adapter.createTicket(auth(), {
+                title: 'Unbounded retry loop',
+                description: 'Retries forever on 500',
+                issueType: 'Bug',
+                priority: '1',
+            });
+
+            expect(ticket).toEqual({
+                id: '42',
+                key: '42',
+                url: 'https://dev.azure.com/wi/42',
+            });
+            expect(mock.requests[0].body).toContainEqual({
+                op: 'add',
+                path: '/fields/Microsoft.VSTS.Common.Priority',
+                value: '1',
+            });
+
+            await adapter.updateTicketStatus(auth(), '42', 'Closed');
+
+            expect(mock.requests[1]).toMatchObject({
+                method: 'PATCH',
+                body: [
+                    {
+                        op: 'add',
+                        path: '/fields/System.State',
+                        value: 'Closed',
+                    },
+                ],
+            });
+        });
+    });
+});
@@ -0,0 +1,114 @@
+import { IntegrationConfigKey } from '@libs/core/domain/enums/Integration-config-key.enum';
+import { PlatformType } from '@libs/core/domain/enums/platform-type.enum';
+import { IssueStatus } from '@libs/core/infrastructure/config/types/general/issues.type';
+import { JiraIssueTrackerAdapter } from '@libs/integrations/infrastructure/adapters/services/issueTracker/jira.adapter';
+import { IssueTrackerSyncService } from '@libs/issues/infrastructure/adapters/service/issueTrackerSync.service';
+
+describe('IssueTrackerSyncService webhooks', () => {
+    let issuesService: any;
+    let integrationConfigService: any;
+    let service: IssueTrackerSyncService;
+
+    const jiraEvent = {
+        webhookEvent: 'jira:issue_updated',
+        issue: { id: '10001' },
+        changelog: { items: [{ field: 'status', toString: 'Done' }] },
+        user: { displayName: 'Jane' },
+    };
+
+    const givenConnection = (platform = PlatformType.JIRA, enabled = true) => {
+        integrationConfigService.findOne.mockResolvedValue({
+            configValue: { enabled, webhookToken: 'token-a' },
+            integration: { platform, organization: { uuid: 'org-a' } },
+            team: { uuid: 'team-a' },
+        });
+    };
+
+    beforeEach(() => {
+        issuesService = {
+            findByExternalTicket: jest.fn().mockResolvedValue({
+                uuid: 'issue-1',
+                organizationId: 'org-a',
+                status: IssueStatus.OPEN,
+                externalTicket: {
+                    platform: PlatformType.JIRA,
+                    teamId: 'team-a',
+                },
+            }),
+            changeStatus: jest
+                .fn()
+                .mockImplementation(async (uuid, status) => ({ uuid, status })),
+        };
+        integrationConfigService = { findOne: jest.fn() };
+
+        service = new IssueTrackerSyncService(
+            issuesService,
+            {} as any,
+            integrationConfigService,
+            {
+                isSupported: () => true,
+                getAdapter: () => new JiraIssueTrackerAdapter(),
+            } as any,
+        );
+    });
+
+    it('should only look up the ticket in the organization of the token', async () => {
+        givenConnection();
+
+        const issue = await service.applyStatusEvent(PlatformType.JIRA, {
+            token: 'token-a',
+            data: jiraEvent,
+        });
+
+        expect(integrationConfigService.findOne).toHaveBeenCalledWith({
+            configKey: IntegrationConfigKey.ISSUE_TRACKER_SYNC,
+            configValue: { webhookToken: 'token-a' },
+        });
+        expect(issuesService.findByExternalTicket).toHaveBeenCalledWith(
+            'org-a',
+            PlatformType.JIRA,
+            '10001',
+        );
+        expect(issue).toEqual({
+            uuid: 'issue-1',
+            status: IssueStatus.RESOLVED,
+        });
+    });
+
+    it('should reject unknown tokens before looking up the ticket', async () => {
+        integrationConfigService.findOne.mockResolvedValue(null);
+
+        const issue = await service.applyStatusEvent(PlatformType.JIRA, {
+            token: 'token-b',
+            data: jiraEvent,
+        });
+
+        expect(issue).toBeNull();
+        expect(issuesService.findByExternalTicket).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of a connection to another tracker', async () => {
+        givenConnection(PlatformType.AZURE_BOARDS);
+
+        const issue = await service.applyStatusEvent(PlatformType.JIRA, {
+            token: 'token-a',
+            data: jiraEvent,
+        });
+
+        expect(issue).toBeNull();
+        expect(issuesService.findByExternalTicket).not.toHaveBeenCalled();
+    });
+
+    it('should ignore status events while the sync is disabled', async () => {
+        givenConnection(PlatformType.JIRA, false);
+
+        const issue = await service.applyStatusEvent(PlatformType.JIRA, {
+            token: 'token-a',
+            data: jiraEvent,
+        });
+
+        expect(issue).toBeNull();
+        expect(issuesService.findByExternalTicket).not.toHaveBeenCalled();
+        expect(issuesService.changeStatus).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,122 @@
+import { SeverityLevel } from '@libs/common/utils/enums/severityLevel.enum';
+import {
+    getIssueSlaDueDate,
+    IssueStatus,
+} from '@libs/core/infrastructure/config/types/general/issues.type';
+import { IssuesEntity } from '@libs/issues/domain/entities/issues.entity';
+import { IssuesService } from '@libs/issues/infrastructure/adapters/service/issues.service';
+
+describe('IssuesService workflow', () => {
+    let issuesRepository: any;
+    let service: IssuesService;
+
+    const givenIssue = (fields: Partial<IssuesEntity>) => {
+        issuesRepository.findById.mockResolvedValue({
+            uuid: 'issue-1',
+            severity: SeverityLevel.HIGH,
+            status: IssueStatus.OPEN,
+            createdAt: '2026-01-01T00:00:00.000Z',
+            ...fields,
+        });
+    };
+
+    beforeEach(() => {
+        issuesRepository = {
+            findById: jest.fn(),
+            updateStatusWithHistory: jest
+                .fn()
+                .mockImplementation(async (uuid, change) => ({
+                    uuid,
+                    status: change.to,
+                })),
+        };
+
+        service = new IssuesService(issuesRepository, {
+            emit: jest.fn(),
+        } as any);
+    });
+
+    it('should record the transition in the status history', async () => {
+        givenIssue({ status: IssueStatus.OPEN });
+
+        await service.changeStatus('issue-1', IssueStatus.IN_PROGRESS, {
+            changedBy: 'user-1',
+        });
+
+        expect(issuesRepository.updateStatusWithHistory).toHaveBeenCalledWith(
+            'issue-1',
+            expect.objectContaining({
+                from: IssueStatus.OPEN,
+                to: IssueStatus.IN_PROGRESS,
+                changedBy: 'user-1',
+            }),
+            {},
+        );
+    });
+
+    it('should reject transitions outside the workflow', async () => {
+        givenIssue({ status: IssueStatus.RESOLVED });
+
+        await expect(
+            service.changeStatus('issue-1', IssueStatus.IN_PROGRESS),
+        ).rejects.toThrow('Cannot change issue status from resolved');
+        expect(issuesRepository.updateStatusWithHistory).not.toHaveBeenCalled();
+    });
+
+    it('should require a reason to mark an issue as wont fix', async () => {
+        givenIssue({ status: IssueStatus.OPEN });
+
+        await expect(
+            service.changeStatus('issue-1', IssueStatus.WONT_FIX, {
+                reason: ' ',
+            }),
+        ).rejects.toThrow('A reason is required');
+
+        await service.changeStatus('issue-1', IssueStatus.WONT_FIX, {
+            reason: 'Legacy module, scheduled for removal',
+        });
+
+        expect(issuesRepository.updateStatusWithHistory).toHaveBeenCalledWith(
+            'issue-1',
+            expect.objectContaining({
+                reason: 'Legacy module, scheduled for removal',
+            }),
+            { wontFixReason: 'Legacy module, scheduled for removal' },
+        );
+    });
+
+    it('should give a reopened issue the same SLA window it had', async () => {
+        jest.useFakeTimers().setSystemTime(
+            new Date('2026-03-01T00:00:00.000Z'),
+        );
+
+        givenIssue({
+            status: IssueStatus.RESOLVED,
+            createdAt: '2026-01-01T00:00:00.000Z',
+            slaDueDate: '2026-01-15T00:00:00.000Z',
+        });
+
+        await service.changeStatus('issue-1', IssueStatus.REOPENED);
+
+        expect(issuesRepository.updateStatusWithHistory).toHaveBeenCalledWith(
+            'issue-1',
+            expect.objectContaining({ to: IssueStatus.REOPENED }),
+            { slaDueDate: '2026-03-15T00:00:00.000Z' },
+        );
+
+        jest.useRealTimers();
+    });
+
+    it('should compute the SLA due date from the severity', () => {
+        const from = new Date('2026-01-01T00:00:00.000Z');
+
+        expect(getIssueSlaDueDate(SeverityLevel.CRITICAL, from)).toBe(
+            '2026-01-08T00:00:00.000Z',
+        );
+        expect(
+            getIssueSlaDueDate(SeverityLevel.LOW, from, {
+                [SeverityLevel.LOW]: 1,
+            }),
+        ).toBe('2026-01-02T00:00:00.000Z');
+    });
+});
@@ -0,0 +1,133 @@
+import { FeedbackType } from '@libs/kodyFineTuning/domain/enums/feedbackType.enum';
+import { IClusterizedSuggestion } from '@libs/kodyFineTuning/domain/interfaces/kodyFineTuning.interface';
+import {
+    findClusterOverride,
+    MAX_SIMILAR_SUGGESTIONS,
+    summarizeClusterFeedback,
+    toSimilarSuggestions,
+} from '@libs/kodyFineTuning/infrastructure/utils/fineTuningExplanation.utils';
+
+const clusterized = (
+    suggestionId: string,
+    feedbackType: string,
+): IClusterizedSuggestion => ({
+    cluster: 0,
+    language: 'typescript',
+    originalSuggestion: {
+        suggestionId,
+        feedbackType,
+        suggestionEmbed: [],
+        pullRequestNumber: 1,
+        repositoryId: 'repo-1',
+        repositoryFullName: 'org/repo',
+        label: 'bug',
+        severity: 'high',
+        improvedCode: '',
+        suggestionContent: `content ${suggestionId}`,
+        language: 'typescript',
+    },
+});
+
+describe('fineTuningExplanation.utils', () => {
+    describe('summarizeClusterFeedback', () => {
+        it('counts the feedback of every suggestion in the cluster', () => {
+            expect(
+                summarizeClusterFeedback([
+                    clusterized('a', FeedbackType.POSITIVE_REACTION),
+                    clusterized('b', FeedbackType.NEGATIVE_REACTION),
+                    clusterized('c', FeedbackType.NEGATIVE_REACTION),
+                    clusterized('d', FeedbackType.SUGGESTION_IMPLEMENTED),
+                    clusterized('e', FeedbackType.NEUTRAL),
+                ]),
+            ).toEqual({
+                total: 5,
+                positiveReactions: 1,
+                negativeReactions: 2,
+                implemented: 1,
+                neutral: 1,
+            });
+        });
+    });
+
+    describe('findClusterOverride', () => {
+        it('matches an override when at least half of its members are in the cluster', () => {
+            const override = { memberSuggestionIds: ['a', 'b', 'c', 'd'] };
+
+            expect(findClusterOverride(['a', 'b', 'x'], [override])).toBe(
+                override,
+            );
+            expect(findClusterOverride(['a', 'x', 'y'], [override])).toBe(
+                undefined,
+            );
+        });
+
+        it('prefers the override with the largest overlap', () => {
+            const partial = { memberSuggestionIds: ['a', 'b', 'x', 'y'] };
+            const full = { memberSuggestionIds: ['a', 'b'] };
+
+            expect(findClusterOverride(['a', 'b'], [partial, full])).toBe(full);
+        });
+
+        it('ignores overrides without members', () => {
+            expect(
+                findClusterOverride(['a'], [{ memberSuggestionIds: [] }]),
+            ).toBe(undefined);
+        });
+    });
+
+    describe('toSimilarSuggestions', () => {
+        it('flags the suggestions that passed their threshold', () => {
+            const result = toSimilarSuggestions(
+                [
+                    {
+                        suggestion: clusterized(
+                            'a',
+                            FeedbackType.NEGATIVE_REACTION,
+                        ),
+                        similarity: 0.9,
+                        isPositive: false,
+                    },
+                    {
+                        suggestion: clusterized(
+                            'b',
+                            FeedbackType.POSITIVE_REACTION,
+                        ),
+                        similarity: 0.7,
+                        isPositive: true,
+                    },
+                ],
+                { positive: 0.8, negative: 0.6 },
+            );
+
+            expect(result).toEqual([
+                expect.objectContaining({
+                    suggestionId: 'a',
+                    similarity: 0.9,
+                    feedbackType: FeedbackType.NEGATIVE_REACTION,
+                    voted: true,
+                    pullRequestNumber: 1,
+                }),
+                expect.objectContaining({ suggestionId: 'b', voted: false }),
+            ]);
+        });
+
+        it('keeps only the closest suggestions', () => {
+            const sorted = Array.from({ length: 15 }, (_, i) => ({
+                suggestion: clusterized(
+                    `s${i}`,
+                    FeedbackType.POSITIVE_REACTION,
+                ),
+                similarity: 1 - i / 100,
+                isPositive: true,
+            }));
+
+            const result = toSimilarSuggestions(sorted, {
+                positive: 0.6,
+                negative: 0.6,
+            });
+
+            expect(result).toHaveLength(MAX_SIMILAR_SUGGESTIONS);
+            expect(result[0].suggestionId).toBe('s0');
+        });
+    });
+});
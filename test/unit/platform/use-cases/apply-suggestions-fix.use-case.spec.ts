@@ -0,0 +1,231 @@
+import { createTwoFilesPatch } from 'diff';
+
+import {
+    ApplySuggestionsFixRejection,
+    ApplySuggestionsFixUseCase,
+} from '@libs/platform/application/use-cases/codeManagement/apply-suggestions-fix.use-case';
+import { DeliveryStatus } from '@libs/platformData/domain/pullRequests/enums/deliveryStatus.enum';
+import { ImplementationStatus } from '@libs/platformData/domain/pullRequests/enums/implementationStatus.enum';
+import { ISuggestion } from '@libs/platformData/domain/pullRequests/interfaces/pullRequests.interface';
+
+describe('ApplySuggestionsFixUseCase', () => {
+    const organizationAndTeamData = { organizationId: 'org', teamId: 'team' };
+    const repository = { id: 'repo-id', name: 'repo' };
+    const requestedBy = { id: '42', login: 'octocat' };
+
+    const lines = Array.from({ length: 10 }, (_, i) => `const v${i} = ${i};`);
+    const original = `${lines.join('\n')}\n`;
+
+    const buildSuggestion = (
+        id: string,
+        from: string,
+        to: string,
+        fields: Partial<ISuggestion> = {},
+    ): ISuggestion =>
+        ({
+            id,
+            relevantFile: 'src/index.ts',
+            oneSentenceSummary: `Suggestion ${id}`,
+            deliveryStatus: DeliveryStatus.SENT,
+            isCommittable: true,
+            validatedData: {
+                code: '',
+                diff: createTwoFilesPatch(
+                    'src/index.ts',
+                    'src/index.ts',
+                    from,
+                    to,
+                ),
+                lineStart: 2,
+                lineEnd: 2,
+            },
+            ...fields,
+        }) as ISuggestion;
+
+    let codeManagementService: any;
+    let pullRequestsService: any;
+    let useCase: ApplySuggestionsFixUseCase;
+
+    const givenSuggestions = (suggestions: ISuggestion[]) => {
+        pullRequestsService.findByNumberAndRepositoryIdOptimized.mockResolvedValue(
+            { files: [{ suggestions }] },
+        );
+    };
+
+    beforeEach(() => {
+        codeManagementService = {
+            hasWriteAccess: jest.fn().mockResolvedValue(true),
+            getPullRequest: jest.fn().mockResolvedValue({
+                head: { ref: 'feature', sha: 'head-sha', repo: { id: '1' } },
+                base: { ref: 'main', sha: 'base-sha', repo: { id: '1' } },
+            }),
+            getRepositoryContentFile: jest.fn().mockResolvedValue({
+                data: {
+                    content: Buffer.from(original).toString('base64'),
+                    encoding: 'base64',
+                },
+            }),
+            createCommit: jest.fn().mockResolvedValue({ sha: 'new-sha' }),
+        };
+
+        pullRequestsService = {
+            findByNumberAndRepositoryIdOptimized: jest.fn(),
+            updateSuggestion: jest.fn().mockResolvedValue(null),
+        };
+
+        useCase = new ApplySuggestionsFixUseCase(
+            codeManagementService,
+            pullRequestsService,
+        );
+    });
+
+    it('should commit the validated diffs on top of the PR head', async () => {
+        givenSuggestions([
+            buildSuggestion(
+                's1',
+                original,
+                original.replace('v1 = 1', 'v1 = 10'),
+            ),
+            buildSuggestion(
+                's2',
+                original,
+                original.replace('v8 = 8', 'v8 = 80'),
+            ),
+        ]);
+
+        const result = await useCase.execute({
+            organizationAndTeamData,
+            repository,
+            prNumber: 7,
+            suggestionIds: 'all',
+            requestedBy,
+        });
+
+        expect(result.commitSha).toBe('new-sha');
+        expect(codeManagementService.hasWriteAccess).toHaveBeenCalledWith({
+            organizationAndTeamData,
+            repository,
+            user: requestedBy,
+        });
+        expect(
+            codeManagementService.getRepositoryContentFile,
+        ).toHaveBeenCalledWith(
+            expect.objectContaining({
+                pullRequest: {
+                    head: { ref: 'head-sha', sha: 'head-sha' },
+                    base: { ref: 'head-sha', sha: 'head-sha' },
+                },
+            }),
+        );
+        expect(result.applied.map((s) => s.id)).toEqual(['s1', 's2']);
+        expect(codeManagementService.createCommit).toHaveBeenCalledWith(
+            expect.objectContaining({
+                branch: 'feature',
+                parentSha: 'head-sha',
+                files: [
+                    {
+                        path: 'src/index.ts',
+                        content: original
+                            .replace('v1 = 1', 'v1 = 10')
+                            .replace('v8 = 8', 'v8 = 80'),
+                    },
+                ],
+            }),
+        );
+        expect(pullRequestsService.updateSuggestion).toHaveBeenCalledWith(
+            's1',
+            { implementationStatus: ImplementationStatus.IMPLEMENTED },
+        );
+    });
+
+    it('should report conflicts and skip the commit when nothing applies', async () => {
+        givenSuggestions([
+            buildSuggestion('s1', 'let x = 0;\n', 'const x = 0;\n'),
+        ]);
+
+        const result = await useCase.execute({
+            organizationAndTeamData,
+            repository,
+            prNumber: 7,
+            suggestionIds: ['s1', 'missing'],
+            requestedBy,
+        });
+
+        expect(result.conflicts.map((s) => s.id)).toEqual(['s1']);
+        expect(result.notFound).toEqual(['missing']);
+        expect(codeManagementService.createCommit).not.toHaveBeenCalled();
+        expect(pullRequestsService.updateSuggestion).not.toHaveBeenCalled();
+    });
+
+    it('should skip suggestions without a validated fix', async () => {
+        givenSuggestions([
+            buildSuggestion('s1', original, original, {
+                isCommittable: false,
+            }),
+            buildSuggestion('s2', original, original, {
+                implementationStatus: ImplementationStatus.IMPLEMENTED,
+            }),
+        ]);
+
+        const result = await useCase.execute({
+            organizationAndTeamData,
+            repository,
+            prNumber: 7,
+            suggestionIds: ['s1', 's2'],
+            requestedBy,
+        });
+
+        expect(result.skipped.map((s) => s.id)).toEqual(['s1', 's2']);
+        expect(codeManagementService.getPullRequest).not.toHaveBeenCalled();
+    });
+
+    it('should refuse users who cannot push to the repository', async () => {
+        codeManagementService.hasWriteAccess.mockResolvedValue(false);
+
+        const result = await useCase.execute({
+            organizationAndTeamData,
+            repository,
+            prNumber: 7,
+            suggestionIds: 'all',
+            requestedBy,
+        });
+
+        expect(result.rejection).toBe(
+            ApplySuggestionsFixRejection.MISSING_PERMISSION,
+        );
+        expect(
+            pullRequestsService.findByNumberAndRepositoryIdOptimized,
+        ).not.toHaveBeenCalled();
+        expect(codeManagementService.createCommit).not.toHaveBeenCalled();
+    });
+
+    it('should refuse pull requests opened from a fork', async () => {
+        givenSuggestions([
+            buildSuggestion(
+                's1',
+                original,
+                original.replace('v1 = 1', 'v1 = 10'),
+            ),
+        ]);
+        codeManagementService.getPullRequest.mockResolvedValue({
+            head: { ref: 'main', sha: 'fork-sha', repo: { id: '2' } },
+            base: { ref: 'main', sha: 'base-sha', repo: { id: '1' } },
+        });
+
+        const result = await useCase.execute({
+            organizationAndTeamData,
+            repository,
+            prNumber: 7,
+            suggestionIds: 'all',
+            requestedBy,
+        });
+
+        expect(result.rejection).toBe(
+            ApplySuggestionsFixRejection.CROSS_REPOSITORY,
+        );
+        expect(
+            codeManagementService.getRepositoryContentFile,
+        ).not.toHaveBeenCalled();
+        expect(codeManagementService.createCommit).not.toHaveBeenCalled();
+    });
+});
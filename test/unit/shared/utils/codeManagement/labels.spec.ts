@@ -66,4 +66,23 @@ describe('labels', () => {
         shield = getLabelShield(label);
         expect(shield).toBe('');
     });
+
+    it('should return the configured shield for custom categories', () => {
+        const customCategories = [
+            {
+                name: 'accessibility_audit',
+                description: 'Missing ARIA attributes',
+                color: '1E88E5',
+            },
+            { name: 'i18n', description: 'Hard-coded user-facing strings' },
+        ];
+
+        expect(getLabelShield('accessibility_audit', customCategories)).toBe(
+            '![Accessibility Audit](https://img.shields.io/badge/Accessibility_Audit-1E88E5)',
+        );
+        expect(getLabelShield('i18n', customCategories)).toBe(
+            '![I18n](https://img.shields.io/badge/I18n-607D8B)',
+        );
+        expect(getLabelShield('observability', customCategories)).toBe('');
+    });
 });
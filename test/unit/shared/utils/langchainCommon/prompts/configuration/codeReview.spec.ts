@@ -72,4 +72,36 @@ describe('prompt_codereview_system_gemini_v2', () => {
         expect(result).toContain(knowledgeContent);
         expect(result).toContain('## External Context & Injected Knowledge');
     });
+
+    it('adds a detection section and label for each custom category', () => {
+        const result = prompt_codereview_system_gemini_v2({
+            customCategories: [
+                {
+                    name: 'accessibility',
+                    description: '- Interactive elements without labels',
+                    severityGuidance: '- Blocks keyboard users: high',
+                },
+            ],
+        });
+
+        expect(result).toContain('### ACCESSIBILITY (label: `accessibility`)');
+        expect(result).toContain('- Interactive elements without labels');
+        expect(result).toContain('- Blocks keyboard users: high');
+        expect(result).toContain(
+            '"label": "bug|performance|security|accessibility"',
+        );
+        expect(result).toContain(
+            'Consider ONLY bugs, performance, security, and accessibility',
+        );
+    });
+
+    it('keeps the built-in categories only when none are configured', () => {
+        const result = prompt_codereview_system_gemini_v2({});
+
+        expect(result).toContain('"label": "bug|performance|security"');
+        expect(result).toContain(
+            'Consider ONLY bugs, performance, and security',
+        );
+        expect(result).not.toContain('(label: `');
+    });
 });
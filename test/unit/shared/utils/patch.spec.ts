@@ -1,4 +1,9 @@
-import { extractLinesFromDiffHunk } from '@/shared/utils/patch';
+import {
+    extractAddedLinesFromPatch,
+    extractHunkRangesFromPatch,
+    extractLinesFromDiffHunk,
+    reconstructOriginalContent,
+} from '@/shared/utils/patch';
 
 describe('patch.ts', () => {
     describe('extractLinesFromDiffHunk', () => {
@@ -930,4 +935,68 @@ __new hunk__
             ]);
         });
     });
+
+    describe('extractAddedLinesFromPatch', () => {
+        it('should number added lines as in the new file', () => {
+            const patch = [
+                '@@ -10,4 +10,5 @@ class Foo {',
+                ' const a = 1;',
+                '-const b = 2;',
+                '+const b = 3;',
+                '+const c = 4;',
+                ' const d = 5;',
+                '@@ -40,2 +41,3 @@',
+                ' foo();',
+                '+++counter;',
+                '\\ No newline at end of file',
+            ].join('\n');
+
+            expect(extractAddedLinesFromPatch(patch)).toEqual([
+                { line: 11, content: 'const b = 3;' },
+                { line: 12, content: 'const c = 4;' },
+                { line: 42, content: '++counter;' },
+            ]);
+        });
+
+        it('should return an empty array for an empty patch', () => {
+            expect(extractAddedLinesFromPatch('')).toEqual([]);
+            expect(extractAddedLinesFromPatch(undefined)).toEqual([]);
+        });
+    });
+
+    describe('reconstructOriginalContent', () => {
+        const patch = [
+            '@@ -1,3 +1,3 @@',
+            ' a',
+            '-b',
+            '+B',
+            ' c',
+            '@@ -6,2 +6,3 @@',
+            ' f',
+            '+g',
+            ' h',
+        ].join('\n');
+
+        it('should revert the hunks on the current content', () => {
+            const content = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+
+            expect(reconstructOriginalContent(content, patch)).toBe(
+                ['a', 'b', 'c', 'd', 'e', 'f', 'h'].join('\n'),
+            );
+            expect(extractHunkRangesFromPatch(patch)).toEqual([
+                { start: 1, end: 3 },
+                { start: 6, end: 8 },
+            ]);
+        });
+
+        it('should return null when the patch does not match the content', () => {
+            expect(reconstructOriginalContent('x\ny\nz', patch)).toBeNull();
+        });
+
+        it('should rebuild removed files from an empty content', () => {
+            expect(
+                reconstructOriginalContent('', '@@ -1,2 +0,0 @@\n-a\n-b'),
+            ).toBe('a\nb');
+        });
+    });
 });